@@ -3,15 +3,18 @@
  * Dev Script: Run Task
  *
  * Test the agent runtime without the Electron UI.
- * Usage: npx ts-node scripts/dev-run-task.ts [taskId]
+ * Usage: npx ts-node scripts/dev-run-task.ts [taskId] [--replay <runId>]
  *
  * If no taskId provided, runs the first pending task.
+ * With --replay, the model responses recorded in a previous run are fed back
+ * instead of calling a model.
  */
 
 import * as path from 'path';
 import { LocalKanbanStore, initStore } from '../src/main/services/LocalKanbanStore';
 import { AgentRuntime } from '../src/main/agent/AgentRuntime';
-import { MockAgentProvider } from '../src/main/agent/AgentProvider';
+import { AgentProvider, MockAgentProvider, ReplayAgentProvider } from '../src/main/agent/AgentProvider';
+import { AgentRunRecorder } from '../src/main/agent/AgentRunRecorder';
 import { RalphEngine } from '../src/main/agent/RalphEngine';
 
 const projectRoot = process.cwd();
@@ -89,16 +92,30 @@ async function main(): Promise<void> {
     console.log(`Failed: ${result.failed}`);
     console.log(`Blocked: ${result.blocked}`);
   } else {
-    console.log('Running single task with MockProvider...');
+    const replayIndex = process.argv.indexOf('--replay');
+    const replayRunId = replayIndex >= 0 ? process.argv[replayIndex + 1] : undefined;
+
+    let provider: AgentProvider;
+    if (replayRunId) {
+      const recordedRun = new AgentRunRecorder(projectRoot, store, store.getPolicy()).loadRun(taskId, replayRunId);
+      if (!recordedRun) {
+        console.error(`Run not found: ${replayRunId}`);
+        return;
+      }
+      console.log(`Replaying run ${replayRunId}...`);
+      provider = ReplayAgentProvider.fromRun(recordedRun);
+    } else {
+      console.log('Running single task with MockProvider...');
+      provider = new MockAgentProvider();
+    }
     console.log('-'.repeat(40));
 
-    // Create runtime with mock provider
-    const provider = new MockAgentProvider();
+    // Create runtime with the selected provider
     const runtime = new AgentRuntime({
       projectRoot,
       store,
       provider,
-      maxSteps: 10,
+      maxSteps: replayRunId ? undefined : 10,
     });
 
     // Run the task
@@ -122,6 +139,15 @@ async function main(): Promise<void> {
       console.log(`Summary: ${result.run.summary}`);
     }
 
+    if (provider instanceof ReplayAgentProvider) {
+      const divergences = provider.getDivergences();
+      console.log(`Unused Recorded Responses: ${provider.getRemaining()}`);
+      console.log(`Divergences: ${divergences.length}`);
+      for (const divergence of divergences) {
+        console.log(`  Response ${divergence.responseIndex + 1}, message ${divergence.messageIndex + 1}`);
+      }
+    }
+
     // Show updated task
     const updatedTask = store.getTask(taskId);
     if (updatedTask) {
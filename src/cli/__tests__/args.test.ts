@@ -0,0 +1,74 @@
+/**
+ * CLI Argument Tests
+ *
+ * Tests for parsing `dexteria` command lines into commands and options.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { parseCliArgs } from '../args';
+import { CliUsageError } from '../../shared/errors';
+
+const cwd = path.resolve('/work');
+
+describe('parseCliArgs', () => {
+  it('shows help without a command', () => {
+    expect(parseCliArgs([], cwd).command).toEqual({ name: 'help' });
+    expect(parseCliArgs(['tasks', 'list', '--help'], cwd).command).toEqual({ name: 'help' });
+  });
+
+  it('resolves the project against the working directory', () => {
+    expect(parseCliArgs(['tasks', 'list'], cwd).project).toBe(cwd);
+    expect(parseCliArgs(['-p', 'app', 'tasks', 'list'], cwd).project).toBe(path.join(cwd, 'app'));
+  });
+
+  it('parses task creation with repeated options', () => {
+    const { command } = parseCliArgs([
+      'tasks', 'create', 'Add login',
+      '--column', 'todo', '--priority', 'high',
+      '--tag', 'auth', '--tag', 'ui',
+      '--criterion', 'Form validates', '--epic', 'Accounts',
+    ], cwd);
+
+    expect(command).toMatchObject({
+      name: 'tasks.create',
+      input: {
+        title: 'Add login',
+        status: 'todo',
+        priority: 'high',
+        tags: ['auth', 'ui'],
+        acceptanceCriteria: ['Form validates'],
+        epic: { name: 'Accounts' },
+      },
+    });
+  });
+
+  it('parses Ralph options', () => {
+    const invocation = parseCliArgs(
+      ['ralph', '--strategy', 'priority', '--max-tasks', '5', '--stop-on-blocking', '--provider', 'codex'],
+      cwd
+    );
+
+    expect(invocation.command).toEqual({
+      name: 'ralph',
+      options: expect.objectContaining({ strategy: 'priority', maxTasks: 5, stopOnBlocking: true }),
+    });
+    expect(invocation.provider).toBe('codex');
+  });
+
+  it('parses logs with an optional run ID', () => {
+    expect(parseCliArgs(['logs', 'TSK-001'], cwd).command).toEqual({ name: 'logs', taskId: 'TSK-001', runId: undefined, tail: undefined });
+    expect(parseCliArgs(['logs', 'TSK-001', 'run-1', '--tail', '20'], cwd).command)
+      .toEqual({ name: 'logs', taskId: 'TSK-001', runId: 'run-1', tail: 20 });
+  });
+
+  it('rejects invalid command lines', () => {
+    expect(() => parseCliArgs(['deploy'], cwd)).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['tasks', 'move', 'TSK-001'], cwd)).toThrow('Missing column');
+    expect(() => parseCliArgs(['tasks', 'show', 'TSK-001', 'extra'], cwd)).toThrow('Unexpected argument');
+    expect(() => parseCliArgs(['ralph', '--max-tasks', '0'], cwd)).toThrow('--max-tasks');
+    expect(() => parseCliArgs(['ralph', '--strategy', 'random'], cwd)).toThrow('--strategy');
+    expect(() => parseCliArgs(['tasks', 'list', '--force'], cwd)).toThrow('does not apply');
+    expect(() => parseCliArgs(['tasks', 'list', '--unknown'], cwd)).toThrow(CliUsageError);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * CLI Arguments
+ *
+ * Parses the command line of the `dexteria` tool into a command and its
+ * options. Kept free of store and provider imports so it can be tested on
+ * its own.
+ */
+
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { CliUsageError } from '../shared/errors';
+import { epicColor } from '../shared/taskFiles';
+import type { RalphModeOptions, TaskCreateInput, TaskPriority } from '../shared/types';
+
+/**
+ * Agent providers the CLI can run tasks with.
+ */
+export type CliProvider = 'claude-code' | 'opencode' | 'codex';
+
+export type CliCommand =
+  | { name: 'help' }
+  | { name: 'tasks.list'; query?: string; column?: string }
+  | { name: 'tasks.show'; taskId: string }
+  | { name: 'tasks.create'; input: TaskCreateInput }
+  | { name: 'tasks.move'; taskId: string; column: string; force: boolean }
+  | { name: 'run'; taskId: string }
+  | { name: 'ralph'; options: RalphModeOptions }
+  | { name: 'logs'; taskId: string; runId?: string; tail?: number };
+
+/**
+ * A parsed command line.
+ */
+export interface CliInvocation {
+  command: CliCommand;
+  /** Absolute path of the project directory */
+  project: string;
+  /** Indent the JSON output */
+  pretty: boolean;
+  /** Provider for `run` and `ralph` (auto-detected when unset) */
+  provider?: CliProvider;
+}
+
+export const CLI_USAGE = `Usage: dexteria [--project <dir>] <command> [options]
+
+Commands:
+  tasks list [--query <query>] [--column <id>]
+  tasks show <taskId>
+  tasks create <title> [--column <id>] [--description <text>] [--priority <p>]
+                       [--tag <tag>]... [--criterion <text>]... [--epic <name>] [--sprint <name>]
+  tasks move <taskId> <column> [--force]
+  run <taskId> [--provider <p>]
+  ralph [--strategy fifo|priority|dependency] [--max-tasks <n>] [--max-attempts <n>]
+        [--max-concurrency <n>] [--query <query>] [--stop-on-blocking]
+        [--policy-profile <id>] [--provider <p>]
+  logs <taskId> [<runId>] [--tail <lines>]
+
+Options:
+  -p, --project <dir>   Project directory (default: current directory)
+  --provider <p>        claude-code, opencode or codex (default: first available)
+  --pretty              Indent the JSON output
+  -h, --help            Show this help
+
+Output is JSON on stdout; logs go to stderr. Exits with 1 on failure and 2 on invalid arguments.`;
+
+const OPTIONS = {
+  project: { type: 'string', short: 'p' },
+  pretty: { type: 'boolean' },
+  provider: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  query: { type: 'string', short: 'q' },
+  column: { type: 'string', short: 'c' },
+  description: { type: 'string', short: 'd' },
+  priority: { type: 'string' },
+  tag: { type: 'string', multiple: true },
+  criterion: { type: 'string', multiple: true },
+  epic: { type: 'string' },
+  sprint: { type: 'string' },
+  force: { type: 'boolean' },
+  strategy: { type: 'string' },
+  'max-tasks': { type: 'string' },
+  'max-attempts': { type: 'string' },
+  'max-concurrency': { type: 'string' },
+  'stop-on-blocking': { type: 'boolean' },
+  'policy-profile': { type: 'string' },
+  tail: { type: 'string' },
+} as const;
+
+type OptionName = keyof typeof OPTIONS;
+
+const GLOBAL_OPTIONS: OptionName[] = ['project', 'pretty', 'help'];
+
+/** Options each command accepts besides the global ones */
+const COMMAND_OPTIONS: Record<CliCommand['name'], OptionName[]> = {
+  help: [],
+  'tasks.list': ['query', 'column'],
+  'tasks.show': [],
+  'tasks.create': ['column', 'description', 'priority', 'tag', 'criterion', 'epic', 'sprint'],
+  'tasks.move': ['force'],
+  run: ['provider'],
+  ralph: ['strategy', 'max-tasks', 'max-attempts', 'max-concurrency', 'query', 'stop-on-blocking', 'policy-profile', 'provider'],
+  logs: ['tail'],
+};
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+const STRATEGIES: NonNullable<RalphModeOptions['strategy']>[] = ['fifo', 'priority', 'dependency'];
+const PROVIDERS: CliProvider[] = ['claude-code', 'opencode', 'codex'];
+
+function oneOf<T extends string>(value: string | undefined, allowed: T[], option: string): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new CliUsageError(`--${option} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function positiveInt(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new CliUsageError(`--${option} must be a positive whole number`);
+  }
+  return Number(value);
+}
+
+function expectArgs(args: string[], names: string[], optional: string[] = []): void {
+  if (args.length < names.length) {
+    throw new CliUsageError(`Missing ${names[args.length]}`);
+  }
+  if (args.length > names.length + optional.length) {
+    throw new CliUsageError(`Unexpected argument: ${args[names.length + optional.length]}`);
+  }
+}
+
+/**
+ * Parse the arguments after `dexteria`.
+ *
+ * @param argv - Arguments, without the node and script paths
+ * @param cwd - Directory the project path is resolved against
+ * @throws CliUsageError if the command or its options are invalid
+ */
+export function parseCliArgs(argv: string[], cwd: string): CliInvocation {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (err) {
+    throw new CliUsageError(err instanceof Error ? err.message : String(err));
+  }
+
+  const { values, positionals } = parsed;
+  const [group, ...rest] = positionals;
+  let command: CliCommand;
+
+  if (values.help || !group || group === 'help') {
+    command = { name: 'help' };
+  } else if (group === 'tasks') {
+    const [action, ...args] = rest;
+    switch (action) {
+      case 'list':
+        expectArgs(args, []);
+        command = { name: 'tasks.list', query: values.query, column: values.column };
+        break;
+      case 'show':
+        expectArgs(args, ['task ID']);
+        command = { name: 'tasks.show', taskId: args[0] };
+        break;
+      case 'create': {
+        expectArgs(args, ['title']);
+        const input: TaskCreateInput = { title: args[0] };
+        if (values.column) input.status = values.column;
+        if (values.description) input.description = values.description;
+        if (values.priority) input.priority = oneOf(values.priority, PRIORITIES, 'priority');
+        if (values.tag) input.tags = values.tag;
+        if (values.criterion) input.acceptanceCriteria = values.criterion;
+        if (values.epic) input.epic = { name: values.epic, color: epicColor(values.epic) };
+        if (values.sprint) input.sprint = values.sprint;
+        command = { name: 'tasks.create', input };
+        break;
+      }
+      case 'move':
+        expectArgs(args, ['task ID', 'column']);
+        command = { name: 'tasks.move', taskId: args[0], column: args[1], force: values.force ?? false };
+        break;
+      default:
+        throw new CliUsageError(action ? `Unknown tasks command: ${action}` : 'Missing tasks command (list, show, create, move)');
+    }
+  } else if (group === 'run') {
+    expectArgs(rest, ['task ID']);
+    command = { name: 'run', taskId: rest[0] };
+  } else if (group === 'ralph') {
+    expectArgs(rest, []);
+    command = {
+      name: 'ralph',
+      options: {
+        strategy: oneOf(values.strategy, STRATEGIES, 'strategy'),
+        maxTasks: positiveInt(values['max-tasks'], 'max-tasks'),
+        maxAttempts: positiveInt(values['max-attempts'], 'max-attempts'),
+        maxConcurrency: positiveInt(values['max-concurrency'], 'max-concurrency'),
+        query: values.query,
+        stopOnBlocking: values['stop-on-blocking'],
+        policyProfileId: values['policy-profile'],
+      },
+    };
+  } else if (group === 'logs') {
+    expectArgs(rest, ['task ID'], ['run ID']);
+    command = { name: 'logs', taskId: rest[0], runId: rest[1], tail: positiveInt(values.tail, 'tail') };
+  } else {
+    throw new CliUsageError(`Unknown command: ${group}`);
+  }
+
+  const allowed = new Set([...GLOBAL_OPTIONS, ...COMMAND_OPTIONS[command.name]]);
+  const unexpected = (Object.keys(values) as OptionName[]).find(option => !allowed.has(option));
+  if (unexpected && command.name !== 'help') {
+    throw new CliUsageError(`--${unexpected} does not apply to this command`);
+  }
+
+  return {
+    command,
+    project: path.resolve(cwd, values.project ?? '.'),
+    pretty: values.pretty ?? false,
+    provider: oneOf(values.provider, PROVIDERS, 'provider'),
+  };
+}
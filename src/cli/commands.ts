@@ -0,0 +1,285 @@
+/**
+ * CLI Commands
+ *
+ * Runs the commands of the `dexteria` tool against a project's
+ * .local-kanban directory. Tasks run through the same code as the desktop
+ * app (TaskExecution and RalphEngine), without plugin hooks, since plugins
+ * only load in the app.
+ */
+
+import type { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { initStore, LocalKanbanStore } from '../main/services/LocalKanbanStore';
+import { GitStateManager } from '../main/services/GitStateManager';
+import { OpenCodeInstaller } from '../main/services/OpenCodeInstaller';
+import { CodexInstaller } from '../main/services/CodexInstaller';
+import { ClaudeCodeProvider } from '../main/agent/providers/ClaudeCodeProvider';
+import { OpenCodeProvider } from '../main/agent/providers/OpenCodeProvider';
+import { CodexProvider } from '../main/agent/providers/CodexProvider';
+import { DirectRunProvider, runTaskDirect, startTaskRun } from '../main/agent/TaskExecution';
+import { initRalphEngine } from '../main/agent/RalphEngine';
+import { LOCAL_KANBAN_PATHS } from '../shared/schemas';
+import { filterTasks } from '../shared/taskQuery';
+import { resolveImportStatus } from '../shared/taskFiles';
+import { CliUsageError, ConfigurationError, TaskNotFoundError, TaskOperationError } from '../shared/errors';
+import type { AgentRun, CommandRunMetadata, RalphModeOptions, Task, TaskCreateInput, TaskPatch } from '../shared/types';
+import type { CliCommand, CliInvocation, CliProvider } from './args';
+
+/**
+ * Output of a command, printed as JSON. The CLI exits with 1 when
+ * `success` is false.
+ */
+export interface CommandResult {
+  success: boolean;
+  output: unknown;
+}
+
+/**
+ * Summary of an agent run in `logs` listings.
+ */
+interface RunSummary {
+  runId: string;
+  status?: string;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+/** `process`, typed as an emitter: Electron's typings hide Node's signal events */
+const processEvents: EventEmitter = process;
+
+/** Provider order when none is given, as in the desktop app */
+const AUTO_PROVIDERS: CliProvider[] = ['opencode', 'codex', 'claude-code'];
+
+function createProvider(type: CliProvider, projectRoot: string): DirectRunProvider {
+  switch (type) {
+    case 'opencode':
+      return new OpenCodeProvider({ workingDirectory: projectRoot });
+    case 'codex':
+      return new CodexProvider({ workingDirectory: projectRoot });
+    case 'claude-code':
+      return new ClaudeCodeProvider({ workingDirectory: projectRoot });
+  }
+}
+
+function isInstalled(type: CliProvider): boolean {
+  if (type === 'opencode') return OpenCodeInstaller.isInstalled();
+  if (type === 'codex') return CodexInstaller.isInstalled();
+  return true;
+}
+
+/**
+ * Create the requested provider, or the first one that is available.
+ *
+ * @throws ConfigurationError if the provider is not available
+ */
+function resolveProvider(type: CliProvider | undefined, projectRoot: string): { type: CliProvider; provider: DirectRunProvider } {
+  if (type) {
+    const provider = createProvider(type, projectRoot);
+    if (!provider.isReady()) {
+      throw new ConfigurationError(`${provider.getName()} is not available`, 'provider');
+    }
+    return { type, provider };
+  }
+
+  for (const candidate of AUTO_PROVIDERS) {
+    if (!isInstalled(candidate)) continue;
+    const provider = createProvider(candidate, projectRoot);
+    if (provider.isReady()) return { type: candidate, provider };
+  }
+  throw new ConfigurationError('No agent provider is available. Install OpenCode, Codex or Claude Code.', 'provider');
+}
+
+function getTask(store: LocalKanbanStore, taskId: string): Task {
+  const task = store.getTask(taskId);
+  if (!task) throw new TaskNotFoundError(taskId);
+  return task;
+}
+
+/**
+ * Find a column by ID or title.
+ *
+ * @throws CliUsageError if there is no such column
+ */
+function resolveColumn(store: LocalKanbanStore, column: string): string {
+  const columnId = resolveImportStatus(column, store.getBoard().columns);
+  if (!columnId) throw new CliUsageError(`Unknown column: ${column}`);
+  return columnId;
+}
+
+function listTasks(store: LocalKanbanStore, query?: string, column?: string): CommandResult {
+  const columnId = column && resolveColumn(store, column);
+  const tasks = store.getTasks().filter(t => !columnId || t.status === columnId);
+  const matching = query ? filterTasks(tasks, query, { tasks: store.getTasks(), columns: store.getBoard().columns }) : tasks;
+  return { success: true, output: { tasks: matching } };
+}
+
+function createTask(store: LocalKanbanStore, input: TaskCreateInput): CommandResult {
+  const status = input.status ? resolveColumn(store, input.status) : 'backlog';
+
+  // Epics take the color of an existing epic with the same name
+  const epic = input.epic && {
+    ...input.epic,
+    color: store.getTasks().find(t => t.epic?.name === input.epic!.name)?.epic!.color ?? input.epic.color,
+  };
+
+  const task = store.transaction('createTask', () => {
+    const created = store.createTask(input.title, status);
+
+    const patch: TaskPatch = {};
+    if (input.description) patch.description = input.description;
+    if (input.priority) patch.priority = input.priority;
+    if (input.acceptanceCriteria?.length) patch.acceptanceCriteria = input.acceptanceCriteria;
+    if (input.tags?.length) patch.tags = input.tags;
+    if (epic) patch.epic = epic;
+    if (input.sprint) patch.sprint = input.sprint;
+    return Object.keys(patch).length > 0 ? store.updateTask(created.id, patch) : created;
+  });
+
+  return { success: true, output: { task } };
+}
+
+function moveTask(store: LocalKanbanStore, taskId: string, column: string, force: boolean): CommandResult {
+  getTask(store, taskId);
+  store.moveTask(taskId, resolveColumn(store, column), undefined, { force });
+  return { success: true, output: { task: store.getTask(taskId) } };
+}
+
+async function runTask(store: LocalKanbanStore, invocation: CliInvocation, taskId: string): Promise<CommandResult> {
+  const task = getTask(store, taskId);
+  const { provider } = resolveProvider(invocation.provider, invocation.project);
+
+  const cancel = () => { provider.cancel(); };
+  processEvents.once('SIGINT', cancel);
+  try {
+    // Stream the agent's output to stderr as it arrives
+    let written = 0;
+    startTaskRun(store, task);
+    const result = await runTaskDirect(store, invocation.project, provider, task, { mode: 'manual' }, (update) => {
+      process.stderr.write(update.content.slice(written));
+      written = update.content.length;
+      if (update.done) process.stderr.write('\n');
+    });
+
+    return {
+      success: result.success,
+      output: { taskId, success: result.success, run: result.run, error: result.error, output: result.output },
+    };
+  } finally {
+    processEvents.removeListener('SIGINT', cancel);
+  }
+}
+
+async function runRalph(store: LocalKanbanStore, invocation: CliInvocation, options: RalphModeOptions): Promise<CommandResult> {
+  const { type, provider } = resolveProvider(invocation.provider, invocation.project);
+
+  // Concurrent runs each get their own provider instance and task worktree
+  const ralph = initRalphEngine({
+    projectRoot: invocation.project,
+    store,
+    provider,
+    createProvider: () => createProvider(type, invocation.project),
+    gitStateManager: new GitStateManager(invocation.project, store),
+  });
+  ralph.on((event) => {
+    console.error(`[Ralph] ${event.type}${event.taskId ? ` ${event.taskId}` : ''}`);
+  });
+
+  const stop = () => { ralph.stopRalphMode(); };
+  processEvents.once('SIGINT', stop);
+  try {
+    const result = await ralph.startRalphMode(options);
+    return { success: result.success, output: result };
+  } finally {
+    processEvents.removeListener('SIGINT', stop);
+  }
+}
+
+function readJson<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function readJsonDir<T>(dir: string): T[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => readJson<T>(path.join(dir, name)))
+    .filter((value): value is T => value !== null);
+}
+
+/**
+ * List a task's agent and command runs, or show one run with its log.
+ * Agent runs include Ralph's run artifacts, which are not in the run index.
+ */
+function showLogs(store: LocalKanbanStore, projectRoot: string, taskId: string, runId?: string, tail?: number): CommandResult {
+  getTask(store, taskId);
+
+  if (!runId) {
+    type AgentRunFile = Partial<AgentRun> & { runId?: string };
+    const runs = new Map<string, RunSummary>();
+    const saved = readJsonDir<AgentRunFile>(path.join(projectRoot, LOCAL_KANBAN_PATHS.agentRuns, taskId));
+    for (const run of [...store.listRuns(taskId), ...saved]) {
+      const id = 'runId' in run && run.runId ? run.runId : run.id;
+      if (!id) continue;
+      runs.set(id, { runId: id, status: run.status, startedAt: run.startedAt, completedAt: run.completedAt, error: run.error });
+    }
+
+    const commands = readJsonDir<CommandRunMetadata>(path.join(projectRoot, LOCAL_KANBAN_PATHS.runs, taskId));
+    const byStart = (a: { startedAt?: string }, b: { startedAt?: string }) => (b.startedAt ?? '').localeCompare(a.startedAt ?? '');
+    return {
+      success: true,
+      output: { taskId, runs: [...runs.values()].sort(byStart), commands: commands.sort(byStart) },
+    };
+  }
+
+  const run = readJson<unknown>(store.getAgentRunPath(taskId, runId))
+    ?? store.listRuns(taskId).find(r => r.id === runId)
+    ?? null;
+  const command = readJson<CommandRunMetadata>(store.getCommandRunMetadataPath(taskId, runId));
+  const logPath = store.getCommandRunLogPath(taskId, runId);
+  let log = fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf-8') : null;
+  if (log !== null && tail) {
+    log = log.split('\n').slice(-tail).join('\n');
+  }
+
+  if (!run && !command && log === null) {
+    throw new TaskOperationError(`Run not found: ${runId}`, taskId, 'logs');
+  }
+  return { success: true, output: { taskId, runId, run, command, log } };
+}
+
+/**
+ * Open the project and run a command.
+ */
+export async function runCommand(invocation: CliInvocation): Promise<CommandResult> {
+  const command: CliCommand = invocation.command;
+  const store = initStore(invocation.project);
+
+  try {
+    switch (command.name) {
+      case 'help':
+        return { success: true, output: {} };
+      case 'tasks.list':
+        return listTasks(store, command.query, command.column);
+      case 'tasks.show':
+        return { success: true, output: { task: getTask(store, command.taskId) } };
+      case 'tasks.create':
+        return createTask(store, command.input);
+      case 'tasks.move':
+        return moveTask(store, command.taskId, command.column, command.force);
+      case 'run':
+        return await runTask(store, invocation, command.taskId);
+      case 'ralph':
+        return await runRalph(store, invocation, command.options);
+      case 'logs':
+        return showLogs(store, invocation.project, command.taskId, command.runId, command.tail);
+    }
+  } finally {
+    store.close();
+  }
+}
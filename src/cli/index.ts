@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+/**
+ * Dexteria CLI
+ *
+ * Headless entry point for driving a project's board from scripts and CI:
+ * list, create and move tasks, run a task or Ralph Mode, and read run logs.
+ * Prints one JSON document on stdout; progress and service logs go to
+ * stderr.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CLI_USAGE, parseCliArgs } from './args';
+import { runCommand } from './commands';
+import { LOCAL_KANBAN_PATHS } from '../shared/schemas';
+import { CliUsageError, ConfigurationError, getErrorCode, getErrorMessage } from '../shared/errors';
+
+function write(output: unknown, pretty: boolean): Promise<void> {
+  return new Promise(resolve => process.stdout.write(JSON.stringify(output, null, pretty ? 2 : undefined) + '\n', () => resolve()));
+}
+
+async function main(argv: string[]): Promise<number> {
+  // Keep stdout for the JSON result
+  console.log = console.info = console.warn = console.debug = console.error;
+
+  let pretty = false;
+  try {
+    const invocation = parseCliArgs(argv, process.cwd());
+    pretty = invocation.pretty;
+
+    if (invocation.command.name === 'help') {
+      process.stdout.write(`${CLI_USAGE}\n`);
+      return 0;
+    }
+
+    if (!fs.existsSync(path.join(invocation.project, LOCAL_KANBAN_PATHS.root))) {
+      throw new ConfigurationError(`Not a Dexteria project: ${invocation.project}`, 'project');
+    }
+
+    const result = await runCommand(invocation);
+    await write(result.output, pretty);
+    return result.success ? 0 : 1;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${CLI_USAGE}\n\n`);
+    }
+    await write({ error: { code: getErrorCode(error), message: getErrorMessage(error) } }, pretty);
+    return error instanceof CliUsageError ? 2 : 1;
+  }
+}
+
+// Exit once the output is written, without waiting on provider processes
+main(process.argv.slice(2)).then(code => process.exit(code));
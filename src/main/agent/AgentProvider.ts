@@ -9,6 +9,8 @@ import type {
   AgentMessage,
   AgentToolDefinition,
   AgentResponse,
+  AgentRun,
+  AgentRunTranscriptEntry,
 } from '../../shared/types';
 
 export interface AgentProviderConfig {
@@ -171,7 +173,7 @@ export const AGENT_TOOLS: AgentToolDefinition[] = [
   },
   {
     name: 'create_task',
-    description: 'Create a new task in the Kanban board. Use this BEFORE starting any work to plan what will be done.',
+    description: 'Create a new task in the Kanban board. Use this BEFORE starting any work to plan what will be done. While working on a task, new tasks are created as its subtasks; the task is only done once its subtasks are.',
     parameters: {
       type: 'object',
       properties: {
@@ -190,8 +192,11 @@ export const AGENT_TOOLS: AgentToolDefinition[] = [
         },
         status: {
           type: 'string',
-          description: 'Initial status: backlog, todo, doing, review, or done',
-          enum: ['backlog', 'todo', 'doing', 'review', 'done'],
+          description: 'Initial status: a board column ID (default columns: backlog, todo, doing, review, done)',
+        },
+        parentId: {
+          type: 'string',
+          description: 'ID of the parent task, to create a subtask (optional; defaults to the task being worked on, or the task a chat is about)',
         },
         epic: {
           type: 'object',
@@ -242,14 +247,17 @@ export const AGENT_TOOLS: AgentToolDefinition[] = [
         },
         status: {
           type: 'string',
-          description: 'New status (optional)',
-          enum: ['backlog', 'todo', 'doing', 'review', 'done'],
+          description: 'New status: a board column ID (optional)',
         },
         acceptanceCriteria: {
           type: 'array',
           description: 'New acceptance criteria (optional)',
           items: { type: 'string' },
         },
+        parentId: {
+          type: 'string',
+          description: 'ID of the new parent task, making this a subtask (optional, set to null to detach)',
+        },
         epic: {
           type: 'object',
           description: 'Epic for Jira alignment (optional, set to null to remove)',
@@ -281,14 +289,17 @@ export const AGENT_TOOLS: AgentToolDefinition[] = [
   },
   {
     name: 'list_tasks',
-    description: 'List all tasks in the Kanban board, optionally filtered by status',
+    description: 'List all tasks in the Kanban board, optionally filtered by status or a task query',
     parameters: {
       type: 'object',
       properties: {
         status: {
           type: 'string',
-          description: 'Filter by status (optional)',
-          enum: ['backlog', 'todo', 'doing', 'review', 'done'],
+          description: 'Filter by status: a board column ID (optional)',
+        },
+        query: {
+          type: 'string',
+          description: 'Task query (optional), e.g. \'epic:"Auth" priority>=high tag:backend runtime:failed sprint:S3\'. Fields: id, title, status, category, priority, tag, epic, sprint, runtime, parent, depends, is (done|blocked|subtask|human), has (epic|sprint|tag|parent|subtasks|dependencies), created, updated, completed, runs. Terms are ANDed; use OR, -term and parentheses to combine; a term without a field searches the text.',
         },
       },
       required: [],
@@ -680,6 +691,116 @@ export class MockAgentProvider extends AgentProvider {
   }
 }
 
+// ============================================
+// Replay Provider for Debugging
+// ============================================
+
+/**
+ * A point where the messages sent during replay differ from the recorded run.
+ */
+export interface ReplayDivergence {
+  /** Index of the model response being requested (0-based) */
+  responseIndex: number;
+  /** Index of the first differing message */
+  messageIndex: number;
+  expected?: AgentMessage;
+  actual?: AgentMessage;
+}
+
+/**
+ * Replays the model responses recorded in an agent run transcript.
+ * Lets the tool loop, policy checks and task transitions be reproduced
+ * without calling a model. Differences between the messages the runtime
+ * sends now and the recorded ones are collected as divergences.
+ */
+export class ReplayAgentProvider extends AgentProvider {
+  private transcript: AgentRunTranscriptEntry[];
+  private responseIndexes: number[];
+  private cursor = 0;
+  private divergences: ReplayDivergence[] = [];
+
+  constructor(transcript: AgentRunTranscriptEntry[], config: AgentProviderConfig = {}) {
+    super(config);
+    this.transcript = transcript;
+    this.responseIndexes = transcript
+      .map((entry, index) => (entry.role === 'assistant' ? index : -1))
+      .filter(index => index >= 0);
+  }
+
+  /**
+   * Create a replay provider from a recorded run.
+   */
+  static fromRun(run: AgentRun, config: AgentProviderConfig = {}): ReplayAgentProvider {
+    if (!run.transcript || run.transcript.length === 0) {
+      throw new Error(`Run ${run.id} has no recorded transcript to replay`);
+    }
+    return new ReplayAgentProvider(run.transcript, config);
+  }
+
+  getName(): string {
+    return 'ReplayProvider';
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  /**
+   * Number of recorded responses not yet replayed.
+   */
+  getRemaining(): number {
+    return this.responseIndexes.length - this.cursor;
+  }
+
+  /**
+   * Get the divergences found so far.
+   */
+  getDivergences(): ReplayDivergence[] {
+    return this.divergences;
+  }
+
+  async complete(messages: AgentMessage[], _tools?: AgentToolDefinition[], onChunk?: (chunk: string) => void): Promise<AgentResponse> {
+    if (this.cursor >= this.responseIndexes.length) {
+      throw new Error(`Replay exhausted: the recorded run has only ${this.responseIndexes.length} response(s)`);
+    }
+
+    const entryIndex = this.responseIndexes[this.cursor];
+    this.checkDivergence(this.cursor, messages, this.transcript.slice(0, entryIndex));
+    this.cursor++;
+
+    const entry = this.transcript[entryIndex];
+    if (onChunk && entry.content) {
+      onChunk(entry.content);
+    }
+
+    return {
+      content: entry.content,
+      toolCalls: entry.toolCalls,
+      finishReason: entry.finishReason || (entry.toolCalls?.length ? 'tool_calls' : 'stop'),
+      usage: entry.usage,
+    };
+  }
+
+  private checkDivergence(responseIndex: number, actual: AgentMessage[], recorded: AgentRunTranscriptEntry[]): void {
+    const length = Math.max(actual.length, recorded.length);
+
+    for (let i = 0; i < length; i++) {
+      const expected = recorded[i];
+      const received = actual[i];
+
+      if (expected?.role !== received?.role || expected?.content !== received?.content) {
+        this.divergences.push({
+          responseIndex,
+          messageIndex: i,
+          expected: expected ? { role: expected.role, content: expected.content } : undefined,
+          actual: received,
+        });
+        return;
+      }
+    }
+  }
+}
+
 // ============================================
 // Prompt Building Helpers
 // ============================================
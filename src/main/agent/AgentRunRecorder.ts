@@ -10,11 +10,15 @@ import * as path from 'path';
 import { LocalKanbanStore } from '../services/LocalKanbanStore';
 import { PolicyGuard } from '../services/PolicyGuard';
 import { createAgentRun, AgentRunSchema } from '../../shared/schemas';
+import { addTokenUsage } from '../../shared/schemas/common';
 import type {
   AgentRun,
   AgentRunToolCall,
   AgentRunPatch,
   AgentRunCommand,
+  AgentRunTranscriptEntry,
+  AgentRunProviderEvent,
+  AgentRunApproval,
   AcceptanceCriterionResult,
   Policy,
 } from '../../shared/types';
@@ -40,6 +44,15 @@ export interface RecordCommandInput {
   outputPath: string;
 }
 
+export interface RecordMessageInput {
+  step: number;
+  role: AgentRunTranscriptEntry['role'];
+  content: string;
+  toolCalls?: AgentRunTranscriptEntry['toolCalls'];
+  finishReason?: AgentRunTranscriptEntry['finishReason'];
+  usage?: AgentRunTranscriptEntry['usage'];
+}
+
 export interface FinalizeInput {
   summary: string;
   success: boolean;
@@ -121,6 +134,47 @@ export class AgentRunRecorder {
     this.saveCurrentRun();
   }
 
+  /**
+   * Record a message sent to or received from the model.
+   * Content is kept in full (only secrets are redacted) so the run can be replayed.
+   * The usage of each response is added to the run total.
+   */
+  recordMessage(input: RecordMessageInput): void {
+    if (!this.currentRun) {
+      throw new Error('No active run. Call start() first.');
+    }
+
+    const entry: AgentRunTranscriptEntry = {
+      timestamp: new Date().toISOString(),
+      step: input.step,
+      role: input.role,
+      content: this.policyGuard.redactSecrets(input.content),
+    };
+
+    if (input.toolCalls && input.toolCalls.length > 0) {
+      entry.toolCalls = input.toolCalls.map(call => ({
+        ...call,
+        arguments: this.redactStrings(call.arguments) as Record<string, unknown>,
+      }));
+    }
+
+    if (input.finishReason) {
+      entry.finishReason = input.finishReason;
+    }
+
+    if (input.usage) {
+      entry.usage = input.usage;
+      this.currentRun.usage = addTokenUsage(this.currentRun.usage, input.usage);
+    }
+
+    if (!this.currentRun.transcript) {
+      this.currentRun.transcript = [];
+    }
+    this.currentRun.transcript.push(entry);
+
+    this.saveCurrentRun();
+  }
+
   /**
    * Record a file patch.
    */
@@ -171,6 +225,44 @@ export class AgentRunRecorder {
     this.saveCurrentRun();
   }
 
+  /**
+   * Record a retry or failover of the provider chain.
+   */
+  recordProviderEvent(event: AgentRunProviderEvent): void {
+    if (!this.currentRun) {
+      throw new Error('No active run. Call start() first.');
+    }
+
+    if (!this.currentRun.providerEvents) {
+      this.currentRun.providerEvents = [];
+    }
+    this.currentRun.providerEvents.push({
+      ...event,
+      message: this.truncate(this.policyGuard.redactSecrets(event.message), 500),
+    });
+
+    this.saveCurrentRun();
+  }
+
+  /**
+   * Record a human approval decision.
+   */
+  recordApproval(approval: AgentRunApproval): void {
+    if (!this.currentRun) {
+      throw new Error('No active run. Call start() first.');
+    }
+
+    if (!this.currentRun.approvals) {
+      this.currentRun.approvals = [];
+    }
+    this.currentRun.approvals.push({
+      ...approval,
+      target: this.truncate(this.policyGuard.redactSecrets(approval.target), 500),
+    });
+
+    this.saveCurrentRun();
+  }
+
   /**
    * Finalize the run with summary and results.
    */
@@ -213,6 +305,9 @@ export class AgentRunRecorder {
     };
 
     this.store.updateTaskRuntime(this.currentRun.taskId, taskRuntime);
+    if (this.currentRun.usage) {
+      this.store.addTaskUsage(this.currentRun.taskId, this.currentRun.usage);
+    }
 
     // Log activity
     const activityType = input.success ? 'agent_completed' : 'agent_failed';
@@ -221,6 +316,7 @@ export class AgentRunRecorder {
       status: this.currentRun.status,
       steps: this.currentRun.steps,
       filesModified: this.currentRun.filesModified.length,
+      usage: this.currentRun.usage,
     }, { taskId: this.currentRun.taskId, runId: this.currentRun.id });
 
     const completedRun = this.currentRun;
@@ -249,6 +345,9 @@ export class AgentRunRecorder {
       currentRunId: undefined,
       lastRunId: this.currentRun.id,
     });
+    if (this.currentRun.usage) {
+      this.store.addTaskUsage(this.currentRun.taskId, this.currentRun.usage);
+    }
 
     const cancelledRun = this.currentRun;
     this.currentRun = null;
@@ -277,6 +376,7 @@ export class AgentRunRecorder {
     }
 
     fs.writeFileSync(runPath, JSON.stringify(this.currentRun, null, 2));
+    this.store.indexRun(this.currentRun);
   }
 
   /**
@@ -340,6 +440,26 @@ export class AgentRunRecorder {
     return str.substring(0, maxLength - 3) + '...';
   }
 
+  /**
+   * Redact secret values inside strings (recursively), keeping keys and structure intact.
+   */
+  private redactStrings(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.policyGuard.redactSecrets(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactStrings(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.redactStrings(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
   /**
    * Redact secrets from an object (recursively).
    */
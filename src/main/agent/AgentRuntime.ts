@@ -5,13 +5,22 @@
  * Manages the tool call loop, acceptance verification, and state updates.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import * as diff from 'diff';
 import { LocalKanbanStore } from '../services/LocalKanbanStore';
-import { PolicyGuard } from '../services/PolicyGuard';
+import { PolicyGuard, resolveEffectivePolicy } from '../services/PolicyGuard';
+import { CheckpointService } from '../services/CheckpointService';
 import { CommentService, getCommentService } from '../services/CommentService';
 import { getPluginManager } from '../services/PluginManager';
+import { ApprovalService, getApprovalService } from '../services/ApprovalService';
+import { runAsActor } from '../services/TaskHistory';
+import { McpClientManager, getMcpClients, isMcpToolName } from '../services/McpClient';
 import { RepoTools } from './tools/RepoTools';
 import { Runner } from './tools/Runner';
 import { AgentRunRecorder } from './AgentRunRecorder';
+import { estimateUsage } from './TokenAccounting';
+import { FallbackProvider } from './providers/FallbackProvider';
 import {
   AgentProvider,
   MockAgentProvider,
@@ -22,22 +31,34 @@ import {
 import { getSkillRegistry } from './skills/SkillRegistry';
 import { SkillMatcher } from './skills/SkillMatcher';
 // createComment is available via store.addTypedComment
+import { getSubtasks, isTerminalStatus, resolveWorkflow } from '../../shared/schemas/common';
 import type {
   Task,
+  TaskStatus,
   AgentMessage,
   AgentToolCall,
   AgentRun,
+  ChangeActor,
   AcceptanceCriterionResult,
   RunTaskOptions,
   Policy,
+  ApprovalKind,
+  AgentToolDefinition,
 } from '../../shared/types';
 
+/** Existing files above this size count as overwrite_large_file */
+const LARGE_FILE_BYTES = 100 * 1024;
+
 export interface RuntimeConfig {
   projectRoot: string;
   store: LocalKanbanStore;
   provider?: AgentProvider;
   maxSteps?: number;
   onStreamChunk?: (chunk: string) => void;
+  /** Approval gate for requireConfirmation rules (default: app-wide service) */
+  approvals?: ApprovalService;
+  /** MCP servers whose tools the agent may use (default: the open project's) */
+  mcpClients?: McpClientManager | null;
 }
 
 export interface RunResult {
@@ -69,7 +90,11 @@ export class AgentRuntime {
   private repoTools: RepoTools;
   private runner: Runner;
   private recorder: AgentRunRecorder;
-  private maxSteps: number;
+  private checkpoints: CheckpointService;
+  private policyGuard: PolicyGuard;
+  private approvals: ApprovalService;
+  private mcpClients: McpClientManager | null;
+  private maxSteps?: number;
   private cancelled: boolean = false;
   private onStreamChunk?: (chunk: string) => void;
 
@@ -79,12 +104,16 @@ export class AgentRuntime {
     this.commentService = getCommentService(config.store);
     this.policy = config.store.getPolicy();
     this.provider = config.provider || new MockAgentProvider();
-    this.maxSteps = config.maxSteps || this.policy.limits.maxStepsPerRun;
+    this.maxSteps = config.maxSteps;
     this.onStreamChunk = config.onStreamChunk;
 
     this.repoTools = new RepoTools(this.projectRoot, this.policy);
     this.runner = new Runner(this.projectRoot, this.policy, this.store);
     this.recorder = new AgentRunRecorder(this.projectRoot, this.store, this.policy);
+    this.checkpoints = new CheckpointService(this.projectRoot, this.store);
+    this.policyGuard = new PolicyGuard(this.projectRoot, this.policy);
+    this.approvals = config.approvals || getApprovalService();
+    this.mcpClients = config.mcpClients !== undefined ? config.mcpClients : getMcpClients();
   }
 
   /**
@@ -94,7 +123,7 @@ export class AgentRuntime {
     this.cancelled = false;
 
     // Load task
-    let task = this.store.getTask(taskId);
+    const task = this.store.getTask(taskId);
     if (!task) {
       throw new Error(`Task not found: ${taskId}`);
     }
@@ -117,8 +146,30 @@ export class AgentRuntime {
       );
     }
 
-    // Start recording
-    const run = this.recorder.start(taskId, options.mode);
+    // Hold the run to the task's policy profile and scope
+    this.applyPolicy(resolveEffectivePolicy(this.store.getPolicy(), {
+      profileId: task.agent?.policyProfileId || options.policyProfileId,
+      scope: task.agent?.scope,
+    }));
+
+    // Board changes made during the run are attributed to it (the run ID is
+    // known once recording starts)
+    const actor: ChangeActor = { type: 'agent' };
+    return runAsActor(actor, () => {
+      const run = this.recorder.start(taskId, options.mode);
+      actor.id = run.id;
+      return this.executeRun(task, run, options);
+    });
+  }
+
+  /**
+   * Drive a recorded run until it completes, fails or is cancelled.
+   */
+  private async executeRun(task: Task, run: AgentRun, options: RunTaskOptions): Promise<RunResult> {
+    const taskId = task.id;
+
+    // Snapshot files before the agent changes them, for rollback
+    this.repoTools.setCheckpoint(this.checkpoints.forRun(taskId, run.id, this.projectRoot));
 
     // Execute beforeRun hooks
     const pluginManager = getPluginManager();
@@ -202,18 +253,28 @@ export class AgentRuntime {
         },
       ];
 
+      // Record the initial prompt so the run can be replayed
+      for (const message of messages) {
+        this.recorder.recordMessage({ step: 0, ...message });
+      }
+
       // Main execution loop
       let stepCount = 0;
-      const effectiveMaxSteps = options.maxSteps || this.maxSteps;
+      const effectiveMaxSteps = options.maxSteps || this.maxSteps || this.policy.limits.maxStepsPerRun;
+      // Earlier runs count towards the project budget
+      const projectCostUsd = this.store.getProjectUsage().costUsd;
+      const tools = [...AGENT_TOOLS, ...await this.getMcpTools()];
 
       while (stepCount < effectiveMaxSteps && !this.cancelled) {
         stepCount++;
 
         // Check runtime limits
-        const runtimeCheck = new PolicyGuard(this.projectRoot, this.policy).enforceRuntimeLimits({
+        const runtimeCheck = this.policyGuard.enforceRuntimeLimits({
           startTime: new Date(run.startedAt).getTime(),
           stepsExecuted: stepCount,
           filesModified: this.repoTools.getTouchedFiles(),
+          usage: this.recorder.getCurrentRun()?.usage,
+          projectCostUsd,
         });
 
         if (!runtimeCheck.allowed) {
@@ -223,15 +284,35 @@ export class AgentRuntime {
         }
 
         // Get agent response (with streaming callback if available)
-        const response = await this.provider.complete(messages, AGENT_TOOLS, this.onStreamChunk);
+        const response = await this.provider.complete(messages, tools, this.onStreamChunk);
+
+        // Keep the provider chain's retries and failovers in the run artifact
+        if (this.provider instanceof FallbackProvider) {
+          for (const event of this.provider.takeEvents()) {
+            this.recorder.recordProviderEvent(event);
+          }
+        }
 
         // Ensure content is never null
         const responseContent = response.content || '';
 
+        // Providers that cannot report usage get an estimate
+        const usage = response.usage
+          || estimateUsage(undefined, messages.map(m => m.content).join('\n'), responseContent);
+
         // Add assistant message
         messages.push({
           role: 'assistant',
           content: responseContent,
+          toolCalls: response.toolCalls,
+        });
+        this.recorder.recordMessage({
+          step: stepCount,
+          role: 'assistant',
+          content: responseContent,
+          toolCalls: response.toolCalls,
+          finishReason: response.finishReason,
+          usage,
         });
 
         // Execute onStep hook
@@ -288,7 +369,13 @@ export class AgentRuntime {
               });
 
               if (hookResult.cancel) {
-                continue; // Skip this tool call
+                // Skip this tool call, answering it so the exchange stays complete
+                messages.push({
+                  role: 'user',
+                  content: `Tool call ${toolCall.name} was skipped by a plugin.`,
+                  toolCallId: toolCall.id,
+                });
+                continue;
               }
 
               if (hookResult.modifiedInput) {
@@ -310,10 +397,13 @@ export class AgentRuntime {
             });
 
             // Add tool result to messages
-            messages.push({
+            const toolResultMessage: AgentMessage = {
               role: 'user',
               content: `Tool result for ${toolCall.name}:\n${result.output}`,
-            });
+              toolCallId: toolCall.id,
+            };
+            messages.push(toolResultMessage);
+            this.recorder.recordMessage({ step: stepCount, ...toolResultMessage });
 
             // Check if tool indicates stop
             if (result.shouldStop) {
@@ -355,6 +445,119 @@ export class AgentRuntime {
     }
   }
 
+  /**
+   * Switch the file tools, command runner and guard to a policy.
+   */
+  private applyPolicy(policy: Policy): void {
+    this.policy = policy;
+    this.repoTools = new RepoTools(this.projectRoot, policy);
+    this.runner = new Runner(this.projectRoot, policy, this.store);
+    this.policyGuard = new PolicyGuard(this.projectRoot, policy);
+  }
+
+  /**
+   * Pause for human approval if the tool call matches a requireConfirmation rule.
+   * @returns a message for the agent if the call was not approved, else null
+   */
+  private async requestApprovalIfRequired(
+    toolCall: AgentToolCall,
+    taskId: string,
+    runId: string
+  ): Promise<string | null> {
+    const args = toolCall.arguments;
+    let kind: ApprovalKind;
+    let target: string;
+    let matchedRule: string | null;
+    let cwd = this.projectRoot;
+    let operation: string | undefined;
+    let diffPreview: string | undefined;
+
+    switch (toolCall.name) {
+      case 'run_command': {
+        kind = 'command';
+        target = String(args.cmd);
+        matchedRule = this.policyGuard.getCommandConfirmationRule(target);
+        if (args.cwd) {
+          cwd = path.resolve(this.projectRoot, String(args.cwd));
+        }
+        break;
+      }
+
+      case 'write_file': {
+        kind = 'path';
+        target = String(args.path);
+        // Leave writes the policy rejects to RepoTools, without reading the file for a preview
+        const content = String(args.content);
+        if (!this.policyGuard.validateWrite(target, Buffer.byteLength(content, 'utf-8')).allowed) {
+          return null;
+        }
+        const fullPath = path.resolve(this.projectRoot, target);
+        const exists = fs.existsSync(fullPath) && fs.statSync(fullPath).isFile();
+        operation = !exists
+          ? 'create'
+          : fs.statSync(fullPath).size > LARGE_FILE_BYTES ? 'overwrite_large_file' : 'write';
+        matchedRule = this.policyGuard.getPathConfirmationRule(target, operation);
+        if (matchedRule) {
+          const before = exists ? fs.readFileSync(fullPath, 'utf-8') : '';
+          diffPreview = diff.createTwoFilesPatch(target, target, before, content);
+        }
+        break;
+      }
+
+      case 'apply_patch': {
+        kind = 'path';
+        target = String(args.path);
+        operation = 'write';
+        matchedRule = this.policyGuard.getPathConfirmationRule(target, operation);
+        diffPreview = String(args.unifiedDiff);
+        break;
+      }
+
+      default:
+        return null;
+    }
+
+    if (!matchedRule) {
+      return null;
+    }
+
+    const outcome = await this.approvals.requestApproval({
+      taskId,
+      runId,
+      kind,
+      toolName: toolCall.name,
+      command: kind === 'command' ? target : undefined,
+      cwd,
+      path: kind === 'path' ? target : undefined,
+      operation,
+      diffPreview,
+      matchedRule,
+    });
+
+    this.recorder.recordApproval({
+      requestId: outcome.request.id,
+      kind,
+      toolName: toolCall.name,
+      target,
+      matchedRule,
+      decision: outcome.decision,
+      automatic: outcome.automatic || undefined,
+      requestedAt: outcome.request.requestedAt,
+      decidedAt: outcome.decidedAt,
+    });
+
+    switch (outcome.decision) {
+      case 'approve':
+      case 'always_allow':
+        return null;
+      case 'deny':
+        return `Denied by user: "${target}" requires confirmation (rule "${matchedRule}") and was not approved. ` +
+          'Do not retry it; continue another way or call task_blocked if it is required.';
+      case 'cancelled':
+        return `Not executed: the run was cancelled while waiting for approval of "${target}".`;
+    }
+  }
+
   /**
    * Execute a single tool call.
    */
@@ -365,6 +568,11 @@ export class AgentRuntime {
   ): Promise<ToolExecutionResult> {
     const args = toolCall.arguments;
 
+    const denial = await this.requestApprovalIfRequired(toolCall, taskId, runId);
+    if (denial) {
+      return { output: denial, shouldStop: false };
+    }
+
     switch (toolCall.name) {
       case 'list_files': {
         const result = this.repoTools.listFiles({
@@ -478,6 +686,42 @@ export class AgentRuntime {
         };
       }
 
+      case 'create_task': {
+        const title = typeof args.title === 'string' ? args.title.trim() : '';
+        if (!title) {
+          return { output: 'Task title cannot be empty', shouldStop: false };
+        }
+
+        // Tasks created during a run are subtasks of the task being worked on
+        const parentId = typeof args.parentId === 'string' && args.parentId ? args.parentId : taskId;
+        const acceptanceCriteria = (args.acceptanceCriteria as string[]) || ['Task completed'];
+        const description = typeof args.description === 'string' ? args.description : '';
+        if (!this.store.getTask(parentId)) {
+          return { output: `Parent task not found: ${parentId}`, shouldStop: false };
+        }
+
+        try {
+          const status = (args.status as TaskStatus) || resolveWorkflow(this.store.getBoard()).ralphSourceColumns[0];
+          const subtask = this.store.createTask(title, status);
+          this.store.updateTask(subtask.id, {
+            description,
+            acceptanceCriteria,
+            parentId,
+            agent: {
+              goal: description,
+              scope: ['*'],
+              definitionOfDone: acceptanceCriteria,
+            },
+          });
+          return { output: `Subtask created: ${subtask.id} "${title}" under ${parentId}`, shouldStop: false };
+        } catch (error) {
+          return {
+            output: `Failed to create task: ${error instanceof Error ? error.message : String(error)}`,
+            shouldStop: false,
+          };
+        }
+      }
+
       case 'task_complete': {
         const acceptanceResults = (args.acceptanceResults as AcceptanceCriterionResult[]) || [];
         const allPassed = acceptanceResults.every(r => r.passed);
@@ -598,6 +842,9 @@ export class AgentRuntime {
       }
 
       default:
+        if (isMcpToolName(toolCall.name) && this.mcpClients) {
+          return this.executeMcpTool(toolCall);
+        }
         return {
           output: `Unknown tool: ${toolCall.name}`,
           shouldStop: false,
@@ -605,6 +852,44 @@ export class AgentRuntime {
     }
   }
 
+  /**
+   * Tools of the project's MCP servers that the policy allows.
+   */
+  private async getMcpTools(): Promise<AgentToolDefinition[]> {
+    if (!this.mcpClients) return [];
+
+    // Pick up servers added or changed since the project was opened
+    this.mcpClients.configure(this.store.getSettings().mcpServers ?? []);
+    const tools = await this.mcpClients.getTools();
+    return tools
+      .filter(tool => this.policyGuard.validateMcpTool(tool.name).allowed)
+      .map(tool => ({
+        name: tool.name,
+        description: `[${tool.server}] ${tool.description || tool.toolName}`,
+        parameters: tool.inputSchema ?? { type: 'object', properties: {} },
+      }));
+  }
+
+  /**
+   * Call a tool of an MCP server.
+   */
+  private async executeMcpTool(toolCall: AgentToolCall): Promise<ToolExecutionResult> {
+    const check = this.policyGuard.validateMcpTool(toolCall.name);
+    if (!check.allowed) {
+      return { output: `Error: ${check.reason}`, shouldStop: false };
+    }
+
+    try {
+      const output = await this.mcpClients!.callTool(toolCall.name, toolCall.arguments);
+      return { output: output || '(no output)', shouldStop: false };
+    } catch (error) {
+      return {
+        output: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        shouldStop: false,
+      };
+    }
+  }
+
   /**
    * Handle tool-initiated stop (complete/blocked/failed).
    */
@@ -637,10 +922,32 @@ export class AgentRuntime {
           finalRun.id
         );
 
+        // A parent is only done once its subtasks are; until then it waits in todo
+        const board = this.store.getBoard();
+        const workflow = resolveWorkflow(board);
+        const openSubtasks = getSubtasks(this.store.getTasks(), task.id)
+          .filter(subtask => !isTerminalStatus(subtask.status, board.columns));
+        if (openSubtasks.length > 0) {
+          this.store.updateTaskRuntime(task.id, { status: 'idle' });
+          this.store.moveTask(task.id, workflow.ralphSourceColumns[0], undefined, { force: true });
+          this.store.addTypedComment(
+            task.id,
+            'system',
+            'system',
+            `Waiting for subtasks before this task can be done: ${openSubtasks.map(subtask => subtask.id).join(', ')}`,
+            finalRun.id
+          );
+          return {
+            success: true,
+            run: finalRun,
+            task: this.store.getTask(task.id)!,
+          };
+        }
+
         // Move task to done
         task.runtime.status = 'done';
         this.store.updateTaskRuntime(task.id, { status: 'done' });
-        this.store.moveTask(task.id, 'done');
+        this.store.moveTask(task.id, workflow.doneColumn, undefined, { force: true });
 
         // Refresh task
         const updatedTask = this.store.getTask(task.id)!;
@@ -749,6 +1056,13 @@ export class AgentRuntime {
   cancel(): void {
     this.cancelled = true;
     this.runner.cancelAll();
+    const run = this.recorder.getCurrentRun();
+    if (run) {
+      this.approvals.cancelRun(run.id);
+    }
+    if (this.provider instanceof FallbackProvider) {
+      this.provider.cancel();
+    }
   }
 
   /**
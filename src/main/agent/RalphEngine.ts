@@ -13,10 +13,24 @@
  * 5. **Dependency Resolution**: Respects task dependencies (topological sort)
  * 6. **Limits**: maxAttempts per task, maxRuntime per task
  * 7. **Observability**: Full logging to .local-kanban/agent-runs/
+ * 8. **Parallel Runs**: With maxConcurrency > 1, each task runs in its own git
+ *    worktree (created from the task branch), so runs never share a checkout
+ * 9. **Budgets**: Token usage is tracked per task and session; the session
+ *    stops before starting a task once the project cost budget is reached
+ * 10. **Subtasks**: A parent task runs after its subtasks and is only done
+ *    once they are; subtasks created during its run send it back to todo
+ * 11. **Board Workflow**: Source, running and success columns come from the
+ *    board's workflow; no task starts while the running column is at its
+ *    WIP limit
+ * 12. **Policy Profiles**: The files a run with a profile changed are
+ *    checked against its effective policy; a disallowed change fails the run
+ * 13. **Human Approval**: Changed files that match a requireConfirmation rule
+ *    wait for approval before the run's work is kept; a denial fails the run
  *
  * ## Task Selection:
- * - Gets tasks from "todo" column
- * - Respects dependencies: task runs only when deps are done
+ * - Gets tasks from the workflow's source columns ("todo" by default)
+ * - With a `query` option, only tasks matching the task query are run
+ * - Respects dependencies: task runs only when deps and subtasks are done
  * - Orders by: dependencies -> priority
  *
  * ## Failure Handling:
@@ -25,31 +39,59 @@
  * - On blocked: adds questions for human input
  */
 
-import { BrowserWindow } from 'electron';
+import type { BrowserWindow } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import { LocalKanbanStore } from '../services/LocalKanbanStore';
+import { PolicyGuard, resolveEffectivePolicy } from '../services/PolicyGuard';
+import type { GitStateManager } from '../services/GitStateManager';
+import { GitService } from '../services/GitService';
 import { ClaudeCodeProvider } from './providers/ClaudeCodeProvider';
 import { OpenCodeProvider } from './providers/OpenCodeProvider';
 import { CodexProvider } from './providers/CodexProvider';
-import { notifyRalphTaskComplete } from '../services/NotificationService';
+import { FallbackProvider } from './providers/FallbackProvider';
+import { runAsActor } from '../services/TaskHistory';
+import { ApprovalService, getApprovalService, type ApprovalOutcome } from '../services/ApprovalService';
+import { publishAppEvent } from '../services/AppEvents';
 import { PromptBuilder } from './prompts';
 import { analyzeProject } from '../services/ProjectAnalyzer';
-import type { Task, RalphModeOptions } from '../../shared/types';
-
-// Type for providers that support Ralph mode (have setWorkingDirectory and setProjectContext)
-type RalphCompatibleProvider = ClaudeCodeProvider | OpenCodeProvider | CodexProvider;
+import { addTokenUsage, getSubtasks, isTerminalStatus, LOCAL_KANBAN_PATHS, resolveWorkflow } from '../../shared/schemas/common';
+import { filterTasks, parseTaskQuery } from '../../shared/taskQuery';
+import type {
+  Task,
+  Column,
+  RalphModeOptions,
+  GitConfig,
+  TokenUsage,
+  Policy,
+  AgentRunProviderEvent,
+  AgentRunApproval,
+} from '../../shared/types';
+import { DEFAULT_GIT_CONFIG } from '../../shared/types';
+
+// Type for providers that support Ralph mode (have setWorkingDirectory): a CLI
+// provider, or a chain of them with retries and failover
+type RalphCompatibleProvider = ClaudeCodeProvider | OpenCodeProvider | CodexProvider | FallbackProvider;
 
 export interface RalphEngineConfig {
   projectRoot: string;
   store: LocalKanbanStore;
   provider?: RalphCompatibleProvider;
+  /** Creates a separate provider instance for each concurrent run */
+  createProvider?: () => RalphCompatibleProvider | null;
+  /** Used to create task worktrees when running tasks concurrently */
+  gitStateManager?: GitStateManager | null;
   getWindow?: () => BrowserWindow | null;
+  /** Approval gate for requireConfirmation rules (default: app-wide service) */
+  approvals?: ApprovalService;
 }
 
 // Default limits
 const DEFAULT_MAX_ATTEMPTS = 2;
 
+/** Existing files above this size count as overwrite_large_file */
+const LARGE_FILE_BYTES = 100 * 1024;
+
 // Run artifact structure
 interface RunArtifact {
   runId: string;
@@ -59,6 +101,7 @@ interface RunArtifact {
   completedAt?: string;
   status: 'running' | 'completed' | 'failed' | 'cancelled';
   gitBranch?: string;
+  worktreePath?: string;
   promptSummary: string;
   toolCalls: Array<{ name: string; params: Record<string, unknown>; result?: string }>;
   filesModified: string[];
@@ -68,6 +111,11 @@ interface RunArtifact {
   };
   error?: string;
   attempt: number;
+  usage?: TokenUsage;
+  /** Retries and failovers of the provider chain */
+  providerEvents?: AgentRunProviderEvent[];
+  /** Answers to approval requests for the files the run changed */
+  approvals?: AgentRunApproval[];
 }
 
 export interface RalphProgress {
@@ -77,7 +125,11 @@ export interface RalphProgress {
   blocked: number;
   currentTaskId: string | null;
   currentTaskTitle: string | null;
+  /** All tasks currently running (more than one when running concurrently) */
+  activeTaskIds: string[];
   status: 'idle' | 'running' | 'paused' | 'completed' | 'stopped';
+  /** Tokens and cost used this session */
+  usage?: TokenUsage;
 }
 
 export interface RalphResult {
@@ -87,6 +139,7 @@ export interface RalphResult {
   failed: number;
   blocked: number;
   stoppedReason?: string;
+  usage?: TokenUsage;
 }
 
 type RalphEventType = 'start' | 'task_start' | 'task_complete' | 'task_failed' | 'task_blocked' | 'stop' | 'complete';
@@ -99,28 +152,59 @@ interface RalphEvent {
 
 type EventListener = (event: RalphEvent) => void;
 
+// Files changed in a working directory before a run, to check the run's own changes
+interface ChangeBaseline {
+  git: GitService;
+  head: string;
+  changedBefore: Set<string>;
+}
+
+// Counters shared by all runs of a session
+interface RalphStats {
+  processed: number;
+  completed: number;
+  failed: number;
+  blocked: number;
+  usage?: TokenUsage;
+}
+
 export class RalphEngine {
   private projectRoot: string;
   private store: LocalKanbanStore;
   private provider?: RalphCompatibleProvider;
+  private createProvider?: () => RalphCompatibleProvider | null;
+  private gitStateManager: GitStateManager | null;
   private getWindow?: () => BrowserWindow | null;
+  private approvals: ApprovalService;
   private running: boolean = false;
   private paused: boolean = false;
   private stopRequested: boolean = false;
   private eventListeners: EventListener[] = [];
   private currentTaskId: string | null = null;
+  /** Policy profile for tasks of this session that do not select one */
+  private sessionPolicyProfileId?: string;
+  /** Task query narrowing the tasks of this session */
+  private sessionQuery?: string;
+  // Provider driving each in-flight task, keyed by task ID
+  private activeRuns: Map<string, RalphCompatibleProvider> = new Map();
+  // Runs waiting for approval of their changes
+  private awaitingApproval: Set<string> = new Set();
 
   constructor(config: RalphEngineConfig) {
     this.projectRoot = config.projectRoot;
     this.store = config.store;
     this.provider = config.provider;
+    this.createProvider = config.createProvider;
+    this.gitStateManager = config.gitStateManager || null;
     this.getWindow = config.getWindow;
+    this.approvals = config.approvals || getApprovalService();
   }
 
   /**
    * Start Ralph Mode - autonomous task execution.
    * Only executes tasks in "todo" column.
    * Respects dependencies, includes failure context on retries.
+   * Runs up to `maxConcurrency` tasks at once, each in its own worktree.
    */
   async runAllPending(options: RalphModeOptions = {}): Promise<RalphResult> {
     if (this.running) {
@@ -131,19 +215,29 @@ export class RalphEngine {
       throw new Error('No provider configured for Ralph Mode');
     }
 
+    if (options.policyProfileId) {
+      // Fail before touching any task if the session profile is missing
+      resolveEffectivePolicy(this.store.getPolicy(), { profileId: options.policyProfileId });
+    }
+    if (options.query) {
+      parseTaskQuery(options.query);
+    }
+
     const {
       maxTasks = Infinity,
       maxAttempts = DEFAULT_MAX_ATTEMPTS,
     } = options;
+    const concurrency = this.resolveConcurrency(
+      options.maxConcurrency ?? this.store.getSettings().runner.ralphMaxConcurrency
+    );
 
     this.running = true;
     this.stopRequested = false;
     this.paused = false;
+    this.sessionPolicyProfileId = options.policyProfileId;
+    this.sessionQuery = options.query;
 
-    let processed = 0;
-    let completed = 0;
-    let failed = 0;
-    let blocked = 0;
+    const stats: RalphStats = { processed: 0, completed: 0, failed: 0, blocked: 0 };
 
     // Update state
     this.store.setState({
@@ -158,15 +252,16 @@ export class RalphEngine {
       },
     });
 
-    this.store.logActivity('ralph_started', { maxTasks, maxAttempts });
-    this.emit({ type: 'start', data: { maxTasks } });
+    this.store.logActivity('ralph_started', { maxTasks, maxAttempts, maxConcurrency: concurrency, query: options.query });
+    this.emit({ type: 'start', data: { maxTasks, maxConcurrency: concurrency } });
 
     try {
-      // Build queue with dependency resolution
-      let taskQueue = this.buildTaskQueue();
-      const allTasks = this.store.getTasks();
+      const inFlight = new Map<string, Promise<void>>();
+      const skipped = new Set<string>();
+      let started = 0;
+      let stopReason: string | undefined;
 
-      while (taskQueue.length > 0 && processed < maxTasks && !this.stopRequested) {
+      while (!this.stopRequested) {
         // Wait if paused
         while (this.paused && !this.stopRequested) {
           await this.sleep(100);
@@ -174,18 +269,30 @@ export class RalphEngine {
 
         if (this.stopRequested) break;
 
-        // Find next runnable task (dependencies met)
-        const taskIndex = taskQueue.findIndex(t => !this.hasUnmetDependencies(t, allTasks));
-        if (taskIndex === -1) {
-          // All remaining tasks have unmet dependencies
-          console.log('[Ralph] All remaining tasks have unmet dependencies, stopping');
-          blocked = taskQueue.length;
-          break;
+        // Rebuild queue each round (dependencies may now be met)
+        const allTasks = this.store.getTasks();
+        const board = this.store.getBoard();
+        const taskQueue = this.buildTaskQueue().filter(t => !inFlight.has(t.id) && !skipped.has(t.id));
+
+        // Find next runnable task (dependencies met) if a slot is free
+        const task = inFlight.size < concurrency && started < maxTasks
+          ? taskQueue.find(t => !this.hasUnmetDependencies(t, allTasks, board.columns))
+          : undefined;
+
+        if (!task) {
+          if (inFlight.size === 0) {
+            if (taskQueue.length > 0 && started < maxTasks) {
+              // All remaining tasks have unmet dependencies
+              console.log('[Ralph] All remaining tasks have unmet dependencies, stopping');
+              stats.blocked += taskQueue.length;
+            }
+            break;
+          }
+          // Wait for a running task to finish before picking the next one
+          await Promise.race(inFlight.values());
+          continue;
         }
 
-        const task = taskQueue[taskIndex];
-        taskQueue.splice(taskIndex, 1);
-
         // Check attempt count
         const attempt = this.getAttemptCount(task);
         if (attempt > maxAttempts) {
@@ -193,114 +300,61 @@ export class RalphEngine {
           this.store.updateTaskRuntime(task.id, { status: 'blocked' });
           this.store.addTypedComment(task.id, 'system', 'system',
             `Task exceeded maximum attempts (${maxAttempts}). Please review and provide instructions.`);
-          blocked++;
+          stats.blocked++;
+          skipped.add(task.id);
           continue;
         }
 
-        this.currentTaskId = task.id;
-        const runId = `run-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
-
-        // Move to doing
-        this.store.moveTask(task.id, 'doing');
-        this.store.updateTaskRuntime(task.id, { status: 'running' });
-
-        // Update state
-        this.store.setState({
-          activeTaskId: task.id,
-          ralphMode: {
-            enabled: true,
-            strategy: 'dependency',
-            processedCount: processed,
-            failedCount: failed,
-            currentTaskId: task.id,
-          },
-        });
-
-        this.emit({ type: 'task_start', taskId: task.id, data: { title: task.title, attempt } });
-
-        // Create run artifact
-        const artifact: RunArtifact = {
-          runId,
-          taskId: task.id,
-          taskTitle: task.title,
-          startedAt: new Date().toISOString(),
-          status: 'running',
-          promptSummary: '',
-          toolCalls: [],
-          filesModified: [],
-          attempt,
-        };
-
-        // Run the task using ClaudeCodeProvider directly
+        let taskPolicy: Policy;
         try {
-          const result = await this.runTaskWithProvider(task, runId, attempt);
-          processed++;
-
-          artifact.completedAt = new Date().toISOString();
-          artifact.promptSummary = `Task: ${task.title}\nAttempt: ${attempt}`;
-
-          if (result.success) {
-            completed++;
-            artifact.status = 'completed';
-
-            // Move to review (not done - human should verify)
-            this.store.moveTask(task.id, 'review');
-            this.store.updateTaskRuntime(task.id, { status: 'done' });
-
-            // Add success comment
-            this.store.addTypedComment(task.id, 'agent', 'dexter',
-              `**Task Completed** (Attempt ${attempt})\n\n${result.content.substring(0, 500)}${result.content.length > 500 ? '...' : ''}`, runId);
-
-            this.emit({ type: 'task_complete', taskId: task.id });
-
-            // Play notification sound and set badge
-            notifyRalphTaskComplete();
-          } else {
-            failed++;
-            artifact.status = 'failed';
-            artifact.error = result.error;
-
-            this.store.updateTaskRuntime(task.id, { status: 'failed' });
+          taskPolicy = this.getTaskPolicy(task);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.log(`[Ralph] Task ${task.id}: ${reason}, marking blocked`);
+          this.store.updateTaskRuntime(task.id, { status: 'blocked' });
+          this.store.addTypedComment(task.id, 'system', 'system',
+            `${reason}. Select an existing policy profile for this task.`);
+          stats.blocked++;
+          skipped.add(task.id);
+          continue;
+        }
 
-            // Add detailed failure comment
-            this.store.addTypedComment(task.id, 'failure', 'dexter',
-              `**Task Failed** (Attempt ${attempt}/${maxAttempts})\n\n` +
-              `**Run ID:** ${runId}\n` +
-              `**Error:** ${result.error}\n\n` +
-              `**What happened:**\n${result.content.substring(0, 300)}${result.content.length > 300 ? '...' : ''}\n\n` +
-              `**Next steps:** Review the error and add instructions if needed.`,
-              runId);
+        // Stop before starting another task once the project budget is reached
+        const budgetCheck = new PolicyGuard(this.projectRoot, taskPolicy)
+          .enforceBudgets(undefined, this.store.getProjectUsage().costUsd);
+        if (!budgetCheck.allowed) {
+          console.log(`[Ralph] ${budgetCheck.reason}, stopping`);
+          stopReason = budgetCheck.reason;
+          break;
+        }
 
-            this.emit({ type: 'task_failed', taskId: task.id, data: { error: result.error, attempt } });
+        // Respect the running column's WIP limit: wait for a slot, or stop
+        const { runningColumn } = resolveWorkflow(board);
+        const running = board.columns.find(c => c.id === runningColumn);
+        if (running?.wipLimit && running.taskIds.length >= running.wipLimit && task.status !== runningColumn) {
+          if (inFlight.size > 0) {
+            await Promise.race(inFlight.values());
+            continue;
           }
-
-          this.saveRunArtifact(artifact);
-
-        } catch (error) {
-          failed++;
-          processed++;
-          artifact.status = 'failed';
-          artifact.error = error instanceof Error ? error.message : String(error);
-          artifact.completedAt = new Date().toISOString();
-
-          this.store.updateTaskRuntime(task.id, { status: 'failed' });
-          this.saveRunArtifact(artifact);
-
-          this.emit({
-            type: 'task_failed',
-            taskId: task.id,
-            data: { error: artifact.error },
-          });
+          console.log(`[Ralph] Column ${runningColumn} is at its WIP limit (${running.wipLimit}), stopping`);
+          stopReason = `Column ${running.title} is at its WIP limit (${running.wipLimit})`;
+          break;
         }
 
-        this.currentTaskId = null;
-
-        // Refresh task queue (dependencies may now be met)
-        taskQueue = this.buildTaskQueue();
+        started++;
+        const run = this.processTask(task, attempt, maxAttempts, concurrency > 1, stats)
+          .finally(() => inFlight.delete(task.id));
+        inFlight.set(task.id, run);
       }
 
+      // Let in-flight runs settle (providers are cancelled on stop)
+      await Promise.all(inFlight.values());
+
+      const { processed, completed, failed, blocked, usage } = stats;
+      const stoppedReason = this.stopRequested ? 'Manual stop' : stopReason;
+
       // Determine success
-      const success = !this.stopRequested && failed === 0 && blocked === 0;
+      const success = !stoppedReason && failed === 0 && blocked === 0;
 
       // Update final state
       this.store.setState({
@@ -312,18 +366,20 @@ export class RalphEngine {
           strategy: 'dependency',
           processedCount: processed,
           failedCount: failed,
+          usage,
         },
       });
 
       this.store.logActivity('ralph_stopped', {
-        reason: this.stopRequested ? 'Manual stop' : 'Completed',
+        reason: stoppedReason || 'Completed',
         processed,
         completed,
         failed,
         blocked,
+        usage,
       });
 
-      this.emit({ type: this.stopRequested ? 'stop' : 'complete', data: { processed, completed, failed, blocked } });
+      this.emit({ type: stoppedReason ? 'stop' : 'complete', data: { processed, completed, failed, blocked, usage } });
 
       return {
         success,
@@ -331,23 +387,296 @@ export class RalphEngine {
         completed,
         failed,
         blocked,
-        stoppedReason: this.stopRequested ? 'Manual stop' : undefined,
+        stoppedReason,
+        usage,
       };
     } finally {
       this.running = false;
       this.currentTaskId = null;
+      this.activeRuns.clear();
+    }
+  }
+
+  /**
+   * Run one task end to end: move it to the running column, run the provider,
+   * record the outcome and move it to the success column. Never throws.
+   * When isolated, the task runs in its own worktree with its own provider.
+   */
+  private processTask(
+    task: Task,
+    attempt: number,
+    maxAttempts: number,
+    isolated: boolean,
+    stats: RalphStats
+  ): Promise<void> {
+    const runId = `run-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+    // Board changes made during the run are attributed to it
+    return runAsActor({ type: 'agent', id: runId, name: 'Ralph' }, () =>
+      this.processTaskRun(task, runId, attempt, maxAttempts, isolated, stats));
+  }
+
+  private async processTaskRun(
+    task: Task,
+    runId: string,
+    attempt: number,
+    maxAttempts: number,
+    isolated: boolean,
+    stats: RalphStats
+  ): Promise<void> {
+    this.currentTaskId = task.id;
+    const workflow = resolveWorkflow(this.store.getBoard());
+
+    // Move to the running column (workflow moves skip transition rules)
+    this.store.moveTask(task.id, workflow.runningColumn, undefined, { force: true });
+    this.store.updateTaskRuntime(task.id, { status: 'running' });
+
+    // Isolated runs get their branch from the worktree instead
+    if (!isolated) {
+      await this.gitStateManager?.applyTaskMove(task.id, task.status, workflow.runningColumn, 'agent');
+    }
+
+    // Update state
+    this.store.setState({
+      activeTaskId: task.id,
+      ralphMode: {
+        enabled: true,
+        strategy: 'dependency',
+        processedCount: stats.processed,
+        failedCount: stats.failed,
+        currentTaskId: task.id,
+        usage: stats.usage,
+      },
+    });
+
+    this.emit({ type: 'task_start', taskId: task.id, data: { title: task.title, attempt } });
+
+    // Create run artifact
+    const artifact: RunArtifact = {
+      runId,
+      taskId: task.id,
+      taskTitle: task.title,
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      promptSummary: '',
+      toolCalls: [],
+      filesModified: [],
+      attempt,
+    };
+
+    let succeeded = false;
+    let movedToSuccess = false;
+
+    try {
+      let provider = this.provider!;
+      let workingDirectory = this.projectRoot;
+
+      if (isolated) {
+        const worktree = await this.gitStateManager!.createTaskWorktree(task, this.getGitConfig(), 'agent');
+        if (!worktree.success || !worktree.worktreePath) {
+          throw new Error(`Could not create worktree: ${worktree.error || 'unknown error'}`);
+        }
+        const runProvider = this.createProvider!();
+        if (!runProvider) {
+          throw new Error('Could not create a provider for this run');
+        }
+        provider = runProvider;
+        workingDirectory = worktree.worktreePath;
+        artifact.gitBranch = worktree.branchName;
+        artifact.worktreePath = worktree.worktreePath;
+        this.store.updateTask(task.id, { gitBranch: worktree.branchName });
+      }
+
+      this.activeRuns.set(task.id, provider);
+      const baseline = await this.getChangeBaseline(task, workingDirectory);
+
+      // Run the task using the CLI provider directly
+      let result = await this.runTaskWithProvider(task, runId, attempt, provider, workingDirectory);
+      stats.processed++;
+
+      if (result.success && baseline && this.hasPolicyProfile(task)) {
+        const violations = await this.findPolicyViolations(task, workingDirectory, baseline);
+        if (violations.length > 0) {
+          result = { ...result, success: false, error: `Policy violation: ${violations.join('; ')}` };
+        }
+      }
+
+      // Before the worktree is committed or the task moves on
+      if (result.success && baseline) {
+        const denial = await this.requestChangeApprovals(task, runId, workingDirectory, baseline, artifact);
+        if (denial) {
+          result = { ...result, success: false, error: denial };
+        }
+      }
+
+      if (provider instanceof FallbackProvider) {
+        const providerEvents = provider.takeEvents();
+        if (providerEvents.length > 0) artifact.providerEvents = providerEvents;
+      }
+
+      if (result.usage) {
+        artifact.usage = result.usage;
+        stats.usage = addTokenUsage(stats.usage, result.usage);
+        this.store.addTaskUsage(task.id, result.usage);
+      }
+
+      artifact.completedAt = new Date().toISOString();
+      artifact.promptSummary = `Task: ${task.title}\nAttempt: ${attempt}`;
+
+      // Subtasks the agent created during the run must be done before the parent
+      const openSubtasks = result.success
+        ? this.getOpenSubtasks(task.id, this.store.getTasks(), this.store.getBoard().columns)
+        : [];
+
+      if (result.success && openSubtasks.length > 0) {
+        succeeded = true;
+        artifact.status = 'completed';
+
+        // Back to its source column; the queue picks it up again once its subtasks are done
+        this.store.moveTask(task.id, task.status, undefined, { force: true });
+        this.store.updateTaskRuntime(task.id, { status: 'idle' });
+        this.store.addTypedComment(task.id, 'system', 'system',
+          `Run finished with open subtasks: ${openSubtasks.map(t => t.id).join(', ')}. ` +
+          `The task will run again once they are done.`, runId);
+      } else if (result.success) {
+        succeeded = true;
+        stats.completed++;
+        artifact.status = 'completed';
+
+        // Move to the success column (review, not done - human should verify)
+        this.store.moveTask(task.id, workflow.successColumn, undefined, { force: true });
+        this.store.updateTaskRuntime(task.id, { status: 'done' });
+        movedToSuccess = true;
+
+        // Add success comment
+        this.store.addTypedComment(task.id, 'agent', 'dexter',
+          `**Task Completed** (Attempt ${attempt})\n\n${result.content.substring(0, 500)}${result.content.length > 500 ? '...' : ''}`, runId);
+
+        this.emit({ type: 'task_complete', taskId: task.id });
+      } else {
+        stats.failed++;
+        artifact.status = 'failed';
+        artifact.error = result.error;
+
+        this.store.updateTaskRuntime(task.id, { status: 'failed' });
+
+        // Add detailed failure comment
+        this.store.addTypedComment(task.id, 'failure', 'dexter',
+          `**Task Failed** (Attempt ${attempt}/${maxAttempts})\n\n` +
+          `**Run ID:** ${runId}\n` +
+          `**Error:** ${result.error}\n\n` +
+          `**What happened:**\n${result.content.substring(0, 300)}${result.content.length > 300 ? '...' : ''}\n\n` +
+          `**Next steps:** Review the error and add instructions if needed.`,
+          runId);
+
+        this.emit({ type: 'task_failed', taskId: task.id, data: { error: result.error, attempt } });
+      }
+
+      this.saveRunArtifact(artifact);
+
+    } catch (error) {
+      stats.failed++;
+      stats.processed++;
+      artifact.status = 'failed';
+      artifact.error = error instanceof Error ? error.message : String(error);
+      artifact.completedAt = new Date().toISOString();
+
+      this.store.updateTaskRuntime(task.id, { status: 'failed' });
+      this.saveRunArtifact(artifact);
+
+      this.emit({
+        type: 'task_failed',
+        taskId: task.id,
+        data: { error: artifact.error },
+      });
+    } finally {
+      if (artifact.worktreePath) {
+        await this.releaseWorktree(task, runId, succeeded);
+      }
+      // After the worktree is committed, so a pull request has the work
+      if (movedToSuccess) {
+        await this.gitStateManager?.applyTaskMove(task.id, workflow.runningColumn, workflow.successColumn, 'agent');
+      }
+      this.activeRuns.delete(task.id);
+      if (this.currentTaskId === task.id) {
+        this.currentTaskId = this.activeRuns.keys().next().value ?? null;
+      }
+    }
+  }
+
+  /**
+   * Clean up a task's worktree after its run.
+   * Successful work is committed to the task branch first; the changes of a
+   * failed or cancelled run are discarded so a retry starts from the branch.
+   */
+  private async releaseWorktree(task: Task, runId: string, commit: boolean): Promise<void> {
+    if (!this.gitStateManager) return;
+
+    try {
+      if (commit) {
+        const commitResult = await this.gitStateManager.commitTaskWorktree(
+          task.id,
+          `${task.id}: ${task.title}\n\nRalph run ${runId}.`,
+          'agent'
+        );
+        if (!commitResult.success) {
+          // Keep the worktree so the uncommitted work is not lost
+          this.store.addTypedComment(task.id, 'system', 'Git',
+            `Could not commit worktree changes: ${commitResult.error}. Worktree kept for manual recovery.`);
+          return;
+        }
+      }
+
+      const removeResult = await this.gitStateManager.removeTaskWorktree(task.id, !commit, 'agent');
+      if (!removeResult.success) {
+        console.error(`[Ralph] Failed to remove worktree for ${task.id}:`, removeResult.error);
+      }
+    } catch (e) {
+      console.error(`[Ralph] Failed to clean up worktree for ${task.id}:`, e);
+    }
+  }
+
+  /**
+   * Resolve how many tasks may run at once.
+   * Concurrent runs need Git (for worktrees) and a provider factory;
+   * without them Ralph falls back to one task at a time.
+   */
+  private resolveConcurrency(requested: number = 1): number {
+    const concurrency = Math.max(1, Math.floor(requested));
+    if (concurrency === 1) return 1;
+
+    const gitConfig = this.getGitConfig();
+    if (!this.gitStateManager || !gitConfig.gitEnabled || gitConfig.gitMode === 'none') {
+      console.warn('[Ralph] Concurrent runs require Git to be enabled, running one task at a time');
+      return 1;
+    }
+    if (!this.createProvider) {
+      console.warn('[Ralph] No provider factory configured, running one task at a time');
+      return 1;
     }
+    return concurrency;
+  }
+
+  /**
+   * Get Git config from project settings.
+   */
+  private getGitConfig(): GitConfig {
+    const settings = this.store.getSettings();
+    return (settings as { git?: GitConfig }).git || DEFAULT_GIT_CONFIG;
   }
 
   /**
-   * Get tasks from todo column, sorted by priority.
+   * Get tasks from the workflow's source columns that match the session
+   * query, sorted by priority.
    */
   private getBacklogTasks(): Task[] {
     const tasks = this.store.getTasks();
+    const board = this.store.getBoard();
+    const { ralphSourceColumns } = resolveWorkflow(board);
     const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
 
-    return tasks
-      .filter(t => t.status === 'todo')
+    const sourceTasks = tasks.filter(t => ralphSourceColumns.includes(t.status));
+    return filterTasks(sourceTasks, this.sessionQuery ?? '', { tasks, columns: board.columns })
       .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
   }
 
@@ -358,25 +687,20 @@ export class RalphEngine {
   private async runTaskWithProvider(
     task: Task,
     runId: string,
-    attempt: number
-  ): Promise<{ success: boolean; content: string; error?: string }> {
-    if (!this.provider) {
-      return { success: false, content: '', error: 'No provider' };
-    }
+    attempt: number,
+    provider: RalphCompatibleProvider,
+    workingDirectory: string
+  ): Promise<{ success: boolean; content: string; error?: string; usage?: TokenUsage }> {
 
     const win = this.getWindow?.() || null;
 
     // Helper to send stream updates
     const sendUpdate = (text: string, done: boolean, cancelled: boolean = false) => {
+      const update = { taskId: task.id, taskTitle: task.title, content: text, done, cancelled };
       if (win && !win.isDestroyed()) {
-        win.webContents.send('agent:stream-update', {
-          taskId: task.id,
-          taskTitle: task.title,
-          content: text,
-          done,
-          cancelled,
-        });
+        win.webContents.send('agent:stream-update', update);
       }
+      publishAppEvent('agent:stream-update', update);
     };
 
     // Ensure project context exists before running task
@@ -415,7 +739,7 @@ export class RalphEngine {
 **Attempt:** ${attempt}
 
 ${baseTaskPrompt}
-
+${this.getPolicyContext(task)}
 ## Progress Checkpoints
 
 Periodically save your progress during long tasks using save_progress tool:
@@ -427,14 +751,14 @@ This helps if the task is interrupted - you can resume from where you left off.`
     let accumulated = '';
 
     try {
-      this.provider.setWorkingDirectory(this.projectRoot);
+      provider.setWorkingDirectory(workingDirectory);
 
       const onChunk = (chunk: string) => {
         accumulated += chunk;
         sendUpdate(accumulated, false);
       };
 
-      const response = await this.provider.complete(
+      const response = await provider.complete(
         [{ role: 'user', content: taskPrompt }],
         undefined,
         onChunk,
@@ -450,6 +774,7 @@ This helps if the task is interrupted - you can resume from where you left off.`
         success,
         content: finalContent,
         error: success ? undefined : (response.content || 'No response received'),
+        usage: response.usage,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -464,6 +789,155 @@ This helps if the task is interrupted - you can resume from where you left off.`
     }
   }
 
+  /**
+   * Get the effective policy of a task in this session.
+   * @throws PolicyProfileNotFoundError if the selected profile does not exist
+   */
+  private getTaskPolicy(task: Task): Policy {
+    return resolveEffectivePolicy(this.store.getPolicy(), {
+      profileId: task.agent?.policyProfileId || this.sessionPolicyProfileId,
+      scope: task.agent?.scope,
+    });
+  }
+
+  /**
+   * Whether a task runs with a policy profile (its own or the session's).
+   */
+  private hasPolicyProfile(task: Task): boolean {
+    return Boolean(task.agent?.policyProfileId || this.sessionPolicyProfileId);
+  }
+
+  /**
+   * Note the files already changed in a working directory before a task
+   * runs, so only the run's own changes are checked. Returns null when
+   * there is nothing to check (no profile and no requireConfirmation rules)
+   * or outside a Git repository, where changes cannot be listed.
+   */
+  private async getChangeBaseline(task: Task, workingDirectory: string): Promise<ChangeBaseline | null> {
+    if (!this.hasPolicyProfile(task) && this.getTaskPolicy(task).requireConfirmation.length === 0) return null;
+
+    const git = new GitService(workingDirectory);
+    const head = await git.getHeadCommit();
+    if (!head) return null;
+    return { git, head, changedBefore: new Set(await git.getChangedFiles(head)) };
+  }
+
+  /**
+   * Check the files a run changed against the task's effective policy.
+   * CLI providers run their own tools, so their writes are checked after
+   * the run instead of before each call.
+   *
+   * @returns Why each disallowed change was blocked
+   */
+  private async findPolicyViolations(task: Task, workingDirectory: string, baseline: ChangeBaseline): Promise<string[]> {
+    const guard = new PolicyGuard(workingDirectory, this.getTaskPolicy(task));
+
+    return (await this.getRunChanges(baseline))
+      .map(file => guard.validateWrite(file))
+      .filter(validation => !validation.allowed)
+      .map(validation => validation.reason!);
+  }
+
+  /**
+   * List the files a run changed, leaving out board data and files that
+   * were already changed before it.
+   */
+  private async getRunChanges(baseline: ChangeBaseline): Promise<string[]> {
+    const changed = await baseline.git.getChangedFiles(baseline.head);
+    return changed.filter(file => !baseline.changedBefore.has(file) && !file.startsWith(`${LOCAL_KANBAN_PATHS.root}/`));
+  }
+
+  /**
+   * Ask for approval of each changed file that matches a requireConfirmation
+   * rule, as AgentRuntime does before a write. CLI providers run their own
+   * tools, so the run's changes are approved after the run, before they are
+   * committed. Decisions are recorded in the run artifact.
+   *
+   * @returns Why the changes were not approved, or null if they all were
+   */
+  private async requestChangeApprovals(
+    task: Task,
+    runId: string,
+    workingDirectory: string,
+    baseline: ChangeBaseline,
+    artifact: RunArtifact
+  ): Promise<string | null> {
+    const guard = new PolicyGuard(workingDirectory, this.getTaskPolicy(task));
+
+    for (const file of await this.getRunChanges(baseline)) {
+      const sizeBefore = await baseline.git.getFileSize(baseline.head, file);
+      const operation = !fs.existsSync(path.join(workingDirectory, file))
+        ? 'delete'
+        : sizeBefore === null ? 'create' : sizeBefore > LARGE_FILE_BYTES ? 'overwrite_large_file' : 'write';
+      const matchedRule = guard.getPathConfirmationRule(file, operation);
+      if (!matchedRule) continue;
+
+      this.awaitingApproval.add(runId);
+      let outcome: ApprovalOutcome;
+      try {
+        outcome = await this.approvals.requestApproval({
+          taskId: task.id,
+          runId,
+          kind: 'path',
+          toolName: 'ralph',
+          cwd: workingDirectory,
+          path: file,
+          operation,
+          diffPreview: await baseline.git.getFileDiff(baseline.head, file),
+          matchedRule,
+        });
+      } finally {
+        this.awaitingApproval.delete(runId);
+      }
+
+      artifact.approvals = [...(artifact.approvals || []), {
+        requestId: outcome.request.id,
+        kind: 'path',
+        toolName: 'ralph',
+        target: file,
+        matchedRule,
+        decision: outcome.decision,
+        automatic: outcome.automatic || undefined,
+        requestedAt: outcome.request.requestedAt,
+        decidedAt: outcome.decidedAt,
+      }];
+
+      if (outcome.decision === 'deny') {
+        return `Denied by user: "${file}" requires confirmation (rule "${matchedRule}") and was not approved`;
+      }
+      if (outcome.decision === 'cancelled') {
+        return `Cancelled while waiting for approval of "${file}"`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Describe the task's policy profile in the prompt. The files the run
+   * changes are checked against it afterwards.
+   */
+  private getPolicyContext(task: Task): string {
+    const profileId = task.agent?.policyProfileId || this.sessionPolicyProfileId;
+    const profile = this.store.getPolicy().profiles?.find(p => p.id === profileId);
+    if (!profile) return '';
+
+    const policy = this.getTaskPolicy(task);
+    const lines = [
+      profile.description || '',
+      `- Allowed operations: ${policy.allowedOperations.join(', ')}`,
+      `- Allowed paths: ${policy.allowedPaths.join(', ') || 'any'}`,
+      ...(policy.writeScopes || []).map(scope => `- Only write to: ${scope.join(', ')}`),
+      `- Allowed commands: ${policy.shellCommands.allowed.join(', ')}`,
+      `- Never run: ${policy.shellCommands.blocked.join(', ')}`,
+    ];
+    if (!policy.allowedOperations.includes('write')) {
+      lines.push('- Do not create, modify or delete any file.');
+    }
+
+    return `\n## Policy: ${profile.name}\n\n${lines.filter(Boolean).join('\n')}\n`;
+  }
+
   /**
    * Start Ralph Mode (alias for runAllPending).
    */
@@ -479,6 +953,14 @@ This helps if the task is interrupted - you can resume from where you left off.`
     if (this.provider) {
       this.provider.cancel();
     }
+    for (const provider of this.activeRuns.values()) {
+      if (provider !== this.provider) {
+        provider.cancel();
+      }
+    }
+    for (const runId of this.awaitingApproval) {
+      this.approvals.cancelRun(runId);
+    }
   }
 
   /**
@@ -524,7 +1006,9 @@ This helps if the task is interrupted - you can resume from where you left off.`
       blocked: 0,
       currentTaskId: this.currentTaskId,
       currentTaskTitle: currentTask?.title || null,
+      activeTaskIds: Array.from(this.activeRuns.keys()),
       status: this.running ? (this.paused ? 'paused' : 'running') : 'idle',
+      usage: state.ralphMode.usage,
     };
   }
 
@@ -566,12 +1050,26 @@ This helps if the task is interrupted - you can resume from where you left off.`
   }
 
   /**
-   * Set the agent provider (supports ClaudeCodeProvider and OpenCodeProvider).
+   * Set the agent provider (a CLI provider or a chain of them).
    */
   setProvider(provider: RalphCompatibleProvider): void {
     this.provider = provider;
   }
 
+  /**
+   * Set the factory used to create a provider per concurrent run.
+   */
+  setProviderFactory(factory: () => RalphCompatibleProvider | null): void {
+    this.createProvider = factory;
+  }
+
+  /**
+   * Set the Git state manager used to create task worktrees.
+   */
+  setGitStateManager(manager: GitStateManager | null): void {
+    this.gitStateManager = manager;
+  }
+
   /**
    * Set the window getter function.
    */
@@ -627,17 +1125,29 @@ This helps if the task is interrupted - you can resume from where you left off.`
   // Dependency Resolution
   // ============================================
 
+  /**
+   * Get the subtasks of a task that are not done yet.
+   */
+  private getOpenSubtasks(taskId: string, allTasks: Task[], columns: Column[]): Task[] {
+    return getSubtasks(allTasks, taskId).filter(t => !isTerminalStatus(t.status, columns));
+  }
+
   /**
    * Check if a task has unmet dependencies.
+   * Open subtasks count as unmet dependencies of their parent.
    */
-  private hasUnmetDependencies(task: Task, allTasks: Task[]): boolean {
+  private hasUnmetDependencies(task: Task, allTasks: Task[], columns: Column[]): boolean {
+    if (this.getOpenSubtasks(task.id, allTasks, columns).length > 0) {
+      return true;
+    }
+
     if (!task.dependsOn || task.dependsOn.length === 0) {
       return false;
     }
 
     for (const depId of task.dependsOn) {
       const depTask = allTasks.find(t => t.id === depId);
-      if (!depTask || depTask.status !== 'done') {
+      if (!depTask || !isTerminalStatus(depTask.status, columns)) {
         return true;
       }
     }
@@ -651,8 +1161,14 @@ This helps if the task is interrupted - you can resume from where you left off.`
    */
   private buildTaskQueue(): Task[] {
     const allTasks = this.store.getTasks();
+    const board = this.store.getBoard();
+    const { ralphSourceColumns } = resolveWorkflow(board);
     // Filter out Human-Only tasks - they cannot be executed by AI
-    const backlogTasks = allTasks.filter(t => t.status === 'todo' && !t.humanOnly);
+    const backlogTasks = filterTasks(
+      allTasks.filter(t => ralphSourceColumns.includes(t.status) && !t.humanOnly),
+      this.sessionQuery ?? '',
+      { tasks: allTasks, columns: board.columns }
+    );
     const priorityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
 
     // Topological sort with priority
@@ -666,8 +1182,9 @@ This helps if the task is interrupted - you can resume from where you left off.`
 
       visiting.add(task.id);
 
-      // Visit dependencies first
-      for (const depId of task.dependsOn || []) {
+      // Visit dependencies and subtasks first
+      const prerequisites = [...(task.dependsOn || []), ...getSubtasks(allTasks, task.id).map(t => t.id)];
+      for (const depId of prerequisites) {
         const depTask = backlogTasks.find(t => t.id === depId);
         if (depTask && !visit(depTask)) {
           return false;
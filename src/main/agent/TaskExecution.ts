@@ -0,0 +1,207 @@
+/**
+ * Task Execution
+ *
+ * Runs a single task with a CLI agent provider (Claude Code, OpenCode,
+ * Codex) in one prompt and records the outcome on the board. Used by the
+ * agent:runTask IPC handler and by the headless CLI, so it must not depend
+ * on Electron.
+ */
+
+import { LocalKanbanStore } from '../services/LocalKanbanStore';
+import { ClaudeCodeProvider } from './providers/ClaudeCodeProvider';
+import { OpenCodeProvider } from './providers/OpenCodeProvider';
+import { CodexProvider } from './providers/CodexProvider';
+import { runAsActor } from '../services/TaskHistory';
+import { resolveWorkflow } from '../../shared/schemas/common';
+import type { AgentRun, RunTaskOptions, Task } from '../../shared/types';
+
+/**
+ * Providers that run a task on their own from a single prompt.
+ */
+export type DirectRunProvider = ClaudeCodeProvider | OpenCodeProvider | CodexProvider;
+
+/**
+ * Output of a running task; `content` is the full text so far.
+ */
+export interface TaskStreamUpdate {
+  taskId: string;
+  taskTitle: string;
+  content: string;
+  done: boolean;
+  cancelled: boolean;
+}
+
+/**
+ * Result of running a task.
+ */
+export interface TaskRunResult {
+  success: boolean;
+  run: AgentRun | null;
+  error?: string;
+  /** Final output of the agent */
+  output?: string;
+}
+
+/**
+ * Check whether a provider can run tasks directly.
+ */
+export function isDirectRunProvider(provider: unknown): provider is DirectRunProvider {
+  return provider instanceof ClaudeCodeProvider || provider instanceof OpenCodeProvider || provider instanceof CodexProvider;
+}
+
+/**
+ * Move a task to the workflow's running column and mark it running. The
+ * changes are attributed to the agent.
+ */
+export function startTaskRun(store: LocalKanbanStore, task: Task): void {
+  runAsActor({ type: 'agent' }, () => {
+    const workflow = resolveWorkflow(store.getBoard());
+    if (task.status !== workflow.runningColumn) {
+      store.moveTask(task.id, workflow.runningColumn, undefined, { force: true });
+      console.log(`[Agent] Moved task ${task.id} to "${workflow.runningColumn}"`);
+    }
+    store.updateTaskRuntime(task.id, { status: 'running' });
+  });
+}
+
+/**
+ * Send the task prompt to the provider and stream its output.
+ */
+async function executeTaskPrompt(
+  provider: DirectRunProvider,
+  task: Task,
+  projectRoot: string,
+  onUpdate: (update: TaskStreamUpdate) => void
+): Promise<{ success: boolean; content: string; error?: string }> {
+
+  const sendUpdate = (content: string, done: boolean, cancelled: boolean = false) =>
+    onUpdate({ taskId: task.id, taskTitle: task.title, content, done, cancelled });
+
+  // Build task prompt
+  const taskPrompt = `## Task to Execute
+
+**Title:** ${task.title}
+**ID:** ${task.id}
+
+**Description:**
+${task.description || 'No description provided.'}
+
+**Acceptance Criteria:**
+${task.acceptanceCriteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}
+
+## Instructions
+
+Please complete this task. When done, summarize what you accomplished.
+`;
+
+  // Accumulate content (declared outside try so catch can access it)
+  let accumulated = '';
+
+  try {
+    // Set working directory to project root
+    provider.setWorkingDirectory(projectRoot);
+
+    // Send full text each time (same as chat)
+    const onChunk = (chunk: string) => {
+      accumulated += chunk;
+      sendUpdate(accumulated, false);
+    };
+
+    // Call complete with streaming - use 'execution' mode for TaskRunner
+    const response = await provider.complete(
+      [{ role: 'user', content: taskPrompt }],
+      undefined,
+      onChunk,
+      'execution'
+    );
+
+    // Use accumulated content or response content
+    const finalContent = accumulated || response.content;
+
+    // Send final update
+    sendUpdate(finalContent, true);
+
+    // Consider success if we got content and no error
+    const success = response.finishReason !== 'error' && finalContent.length > 0;
+
+    return {
+      success,
+      content: finalContent,
+      error: success ? undefined : (response.content || 'No response received'),
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+
+    // Check if it was cancelled
+    if (errorMsg === 'Cancelled') {
+      sendUpdate(accumulated + '\n\n❌ **CANCELLED**', true, true);
+      return { success: false, content: '', error: 'Cancelled by user' };
+    }
+
+    sendUpdate(`${accumulated}\n\n❌ **Error:** ${errorMsg}`, true);
+    return { success: false, content: '', error: errorMsg };
+  }
+}
+
+/**
+ * Run a task that startTaskRun has moved to the running column, then move
+ * it to the success column, or mark it failed or idle (when cancelled)
+ * with a comment.
+ */
+export async function runTaskDirect(
+  store: LocalKanbanStore,
+  projectRoot: string,
+  provider: DirectRunProvider,
+  task: Task,
+  options?: RunTaskOptions,
+  onUpdate: (update: TaskStreamUpdate) => void = () => {}
+): Promise<TaskRunResult> {
+  const taskId = task.id;
+  const workflow = resolveWorkflow(store.getBoard());
+  const result = await executeTaskPrompt(provider, task, projectRoot, onUpdate);
+
+  // Create a simple run record
+  const runId = `run-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+  const run: AgentRun = {
+    id: runId,
+    taskId,
+    mode: options?.mode || 'manual',
+    startedAt: new Date().toISOString(),
+    status: result.success ? 'completed' : 'failed',
+    steps: 1,
+    toolCalls: [],
+    patches: [],
+    commands: [],
+    filesModified: [],
+    completedAt: new Date().toISOString(),
+    summary: result.success ? 'Task completed' : `Failed: ${result.error}`,
+    error: result.error,
+  };
+
+  // Update task status based on result, attributed to the run
+  runAsActor({ type: 'agent', id: runId, name: provider.getName() }, () => {
+    if (result.success) {
+      store.moveTask(taskId, workflow.successColumn, undefined, { force: true });
+      store.updateTaskRuntime(taskId, { status: 'done' });
+      console.log(`[Agent] Task ${taskId} completed, moved to "${workflow.successColumn}"`);
+
+      // Add success comment
+      store.addTypedComment(taskId, 'agent', 'dexter', `Task completed.\n\n${result.content.substring(0, 500)}...`, runId);
+    } else if (result.error === 'Cancelled by user') {
+      // Cancelled - move back to backlog or keep in doing
+      store.updateTaskRuntime(taskId, { status: 'idle' });
+      console.log(`[Agent] Task ${taskId} cancelled by user`);
+
+      // Add cancellation comment
+      store.addTypedComment(taskId, 'system', 'system', 'Task execution cancelled by user.', runId);
+    } else {
+      store.updateTaskRuntime(taskId, { status: 'failed' });
+      console.log(`[Agent] Task ${taskId} failed: ${result.error}`);
+
+      // Add failure comment
+      store.addTypedComment(taskId, 'failure', 'dexter', `**Task Failed**\n\n**Run ID:** ${runId}\n\n**Reason:** ${result.error}`, runId);
+    }
+  });
+
+  return { success: result.success, run, error: result.error, output: result.content };
+}
@@ -0,0 +1,87 @@
+/**
+ * TokenAccounting
+ *
+ * Token estimation and pricing for provider responses.
+ * Providers report real counts when their API or CLI exposes them and fall
+ * back to an estimate from text length otherwise.
+ */
+
+import type { TokenUsage } from '../../shared/types';
+
+// Rough average for English text and code
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Prices in USD per million tokens, matched by model name prefix.
+ * More specific prefixes must come first.
+ */
+const MODEL_PRICES: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-opus-4-5', input: 5, output: 25 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-5-mini', input: 0.25, output: 2 },
+  { prefix: 'gpt-5', input: 1.25, output: 10 },
+];
+
+/**
+ * Estimate the number of tokens in a text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Price a number of tokens for a model.
+ * Returns 0 if the model is unknown.
+ */
+export function priceTokens(model: string | undefined, inputTokens: number, outputTokens: number): number {
+  if (!model) return 0;
+
+  // Provider-qualified names like "anthropic/claude-sonnet-4" are matched on the model part
+  const name = model.toLowerCase().split('/').pop() || '';
+  const price = MODEL_PRICES.find(p => name.startsWith(p.prefix));
+  if (!price) return 0;
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Build usage from reported token counts, pricing them if no cost was reported.
+ */
+export function createUsage(
+  model: string | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  costUsd?: number
+): TokenUsage {
+  return {
+    inputTokens,
+    outputTokens,
+    costUsd: costUsd ?? priceTokens(model, inputTokens, outputTokens),
+  };
+}
+
+/**
+ * Estimate usage from the prompt sent and the completion received.
+ */
+export function estimateUsage(model: string | undefined, prompt: string, completion: string): TokenUsage {
+  return {
+    ...createUsage(model, estimateTokens(prompt), estimateTokens(completion)),
+    estimated: true,
+  };
+}
+
+/**
+ * Read a non-negative number from a loosely typed CLI event field.
+ */
+export function readCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
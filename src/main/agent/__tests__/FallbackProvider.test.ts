@@ -0,0 +1,145 @@
+/**
+ * FallbackProvider Tests
+ *
+ * Tests for provider error classification, retries with exponential
+ * backoff and failover along the provider chain.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AgentProvider } from '../AgentProvider';
+import { FallbackProvider } from '../providers/FallbackProvider';
+import { classifyProviderError, ProviderRateLimitError } from '../../../shared/errors';
+import type { AgentResponse } from '../../../shared/types';
+
+/**
+ * Provider that returns scripted responses, one per call.
+ */
+class ScriptedProvider extends AgentProvider {
+  calls = 0;
+
+  constructor(private name: string, private responses: Array<AgentResponse | Error>, private ready = true) {
+    super();
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async complete(): Promise<AgentResponse> {
+    const response = this.responses[Math.min(this.calls, this.responses.length - 1)];
+    this.calls++;
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  }
+}
+
+const ok: AgentResponse = { content: 'Done. Task complete.', finishReason: 'stop' };
+const fail = (message: string): AgentResponse => ({ content: `Error calling provider: ${message}`, finishReason: 'error' });
+
+describe('classifyProviderError', () => {
+  it('should classify rate limits and read retry-after', () => {
+    const error = classifyProviderError('429 Too Many Requests, retry after 7 seconds', 'Claude Code');
+    expect(error).toBeInstanceOf(ProviderRateLimitError);
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should classify auth, transient and fatal errors', () => {
+    expect(classifyProviderError('Error: Anthropic API key not configured', 'Anthropic').kind).toBe('auth');
+    expect(classifyProviderError(new Error('Codex exited with code 1'), 'Codex').kind).toBe('transient');
+    expect(classifyProviderError('read ECONNRESET', 'OpenCode').kind).toBe('transient');
+    expect(classifyProviderError('Unknown tool format', 'OpenCode').kind).toBe('fatal');
+    expect(classifyProviderError('Unknown tool format', 'OpenCode').retryable).toBe(false);
+  });
+});
+
+describe('FallbackProvider', () => {
+  it('should retry transient errors with exponential backoff', async () => {
+    const primary = new ScriptedProvider('Primary', [fail('socket hang up'), fail('socket hang up'), ok]);
+    const provider = new FallbackProvider({ providers: [primary], maxRetries: 2, initialBackoffMs: 1, maxBackoffMs: 10 });
+
+    const response = await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(response).toBe(ok);
+    expect(primary.calls).toBe(3);
+    const events = provider.takeEvents();
+    expect(events.map(e => [e.action, e.attempt, e.delayMs])).toEqual([
+      ['retry', 1, 1],
+      ['retry', 2, 2],
+    ]);
+    expect(provider.takeEvents()).toEqual([]);
+  });
+
+  it('should fail over once retries are exhausted', async () => {
+    const primary = new ScriptedProvider('Primary', [fail('rate limit exceeded')]);
+    const secondary = new ScriptedProvider('Secondary', [ok]);
+    const provider = new FallbackProvider({ providers: [primary, secondary], maxRetries: 1, initialBackoffMs: 0 });
+
+    const response = await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(response).toBe(ok);
+    expect(primary.calls).toBe(2);
+    expect(provider.takeEvents().map(e => e.action)).toEqual(['retry', 'failover']);
+  });
+
+  it('should fail over on auth errors without retrying', async () => {
+    const primary = new ScriptedProvider('Primary', [fail('401 Unauthorized')]);
+    const secondary = new ScriptedProvider('Secondary', [ok]);
+    const provider = new FallbackProvider({ providers: [primary, secondary], maxRetries: 3, initialBackoffMs: 0 });
+
+    await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(primary.calls).toBe(1);
+    expect(provider.takeEvents()).toEqual([
+      expect.objectContaining({ provider: 'Primary', kind: 'auth', action: 'failover', nextProvider: 'Secondary' }),
+    ]);
+  });
+
+  it('should skip providers that are not ready and treat thrown errors as failures', async () => {
+    const offline = new ScriptedProvider('Offline', [ok], false);
+    const crashing = new ScriptedProvider('Crashing', [new Error('Unexpected token in output')]);
+    const last = new ScriptedProvider('Last', [ok]);
+    const provider = new FallbackProvider({ providers: [offline, crashing, last], initialBackoffMs: 0 });
+
+    const response = await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(response).toBe(ok);
+    expect(offline.calls).toBe(0);
+    expect(provider.takeEvents()).toEqual([
+      expect.objectContaining({ provider: 'Crashing', kind: 'fatal', action: 'failover' }),
+    ]);
+  });
+
+  it('should return the last error when every provider fails', async () => {
+    const primary = new ScriptedProvider('Primary', [fail('Unknown tool format')]);
+    const secondary = new ScriptedProvider('Secondary', [fail('Invalid API key')]);
+    const provider = new FallbackProvider({ providers: [primary, secondary], initialBackoffMs: 0 });
+
+    const response = await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(response.finishReason).toBe('error');
+    expect(response.content).toContain('Invalid API key');
+    expect(provider.takeEvents().map(e => e.action)).toEqual(['failover', 'give_up']);
+  });
+
+  it('should set the working directory of the providers that have one', () => {
+    class DirectoryProvider extends ScriptedProvider {
+      workingDirectory = '';
+      setWorkingDirectory(dir: string): void {
+        this.workingDirectory = dir;
+      }
+    }
+    const cli = new DirectoryProvider('CLI', [ok]);
+    const provider = new FallbackProvider({ providers: [cli, new ScriptedProvider('API', [ok])] });
+
+    provider.setWorkingDirectory('/worktrees/TSK-1');
+
+    expect(cli.workingDirectory).toBe('/worktrees/TSK-1');
+  });
+});
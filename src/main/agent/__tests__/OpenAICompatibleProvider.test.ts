@@ -0,0 +1,153 @@
+/**
+ * OpenAICompatibleProvider Tests
+ *
+ * Tests for the chat-completions request format, streamed tool call
+ * assembly, tool exchanges and HTTP error reporting.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider';
+import { AGENT_TOOLS } from '../AgentProvider';
+import type { AgentMessage } from '../../../shared/types';
+
+/**
+ * Build a streamed response from chat-completions chunks.
+ */
+function sseResponse(chunks: unknown[]): Response {
+  const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+  const encoder = new TextEncoder();
+
+  // Split mid-line to exercise buffering across reads
+  const middle = Math.floor(body.length / 2);
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(body.slice(0, middle)));
+      controller.enqueue(encoder.encode(body.slice(middle)));
+      controller.close();
+    },
+  });
+
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not be ready without a base URL and model', () => {
+    expect(new OpenAICompatibleProvider().isReady()).toBe(false);
+    expect(new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'qwen' }).isReady()).toBe(true);
+  });
+
+  it('should send tools as function schemas and assemble streamed tool calls', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      { choices: [{ delta: { content: 'Reading ' } }] },
+      { choices: [{ delta: { content: 'the file.' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'read_file', arguments: '{"pa' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"a.ts"}' } }] }, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 120, completion_tokens: 30 } },
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'qwen2.5-coder',
+      apiKey: 'secret',
+    });
+    const chunks: string[] = [];
+    const response = await provider.complete(
+      [{ role: 'system', content: 'sys' }, { role: 'user', content: 'task' }],
+      AGENT_TOOLS,
+      chunk => chunks.push(chunk)
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('qwen2.5-coder');
+    expect(body.stream).toBe(true);
+    expect(body.messages).toEqual([{ role: 'system', content: 'sys' }, { role: 'user', content: 'task' }]);
+    expect(body.tools).toHaveLength(AGENT_TOOLS.length);
+    expect(body.tools[0]).toEqual({
+      type: 'function',
+      function: {
+        name: AGENT_TOOLS[0].name,
+        description: AGENT_TOOLS[0].description,
+        parameters: AGENT_TOOLS[0].parameters,
+      },
+    });
+
+    expect(chunks).toEqual(['Reading ', 'the file.']);
+    expect(response.content).toBe('Reading the file.');
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'read_file', arguments: { path: 'a.ts' } }]);
+    expect(response.usage).toMatchObject({ inputTokens: 120, outputTokens: 30 });
+    expect(response.usage?.estimated).toBeUndefined();
+  });
+
+  it('should send a tool exchange back as tool_calls and tool messages', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(sseResponse([
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] }, finish_reason: 'tool_calls' }] },
+      ]))
+      .mockResolvedValueOnce(sseResponse([
+        { choices: [{ delta: { content: 'Task complete.' }, finish_reason: 'stop' }] },
+      ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'llama' });
+    const messages: AgentMessage[] = [{ role: 'user', content: 'task' }];
+
+    // First turn: the model calls a tool (the server sent no call ID)
+    const first = await provider.complete(messages, AGENT_TOOLS);
+    expect(first.toolCalls).toEqual([{ id: 'call_0', name: 'read_file', arguments: { path: 'a.ts' } }]);
+
+    // Second turn: the call and its result go back, as AgentRuntime sends them
+    messages.push(
+      { role: 'assistant', content: first.content, toolCalls: first.toolCalls },
+      { role: 'user', content: 'Tool result for read_file:\nexport {};', toolCallId: 'call_0' },
+      { role: 'user', content: 'Result of a call made by another provider', toolCallId: 'toolu_1' }
+    );
+    const second = await provider.complete(messages, AGENT_TOOLS);
+
+    expect(second.content).toBe('Task complete.');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).messages).toEqual([
+      { role: 'user', content: 'task' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_0', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: 'Tool result for read_file:\nexport {};' },
+      { role: 'user', content: 'Result of a call made by another provider' },
+    ]);
+  });
+
+  it('should estimate usage when the server reports none', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+      { choices: [{ delta: { content: 'Task complete.' }, finish_reason: 'stop' }] },
+    ])));
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'llama' });
+    const response = await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(response.finishReason).toBe('stop');
+    expect(response.toolCalls).toBeUndefined();
+    expect(response.usage?.estimated).toBe(true);
+  });
+
+  it('should report HTTP errors with the status code', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response('model not found', { status: 404, statusText: 'Not Found' })
+    ));
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'missing' });
+    const response = await provider.complete([{ role: 'user', content: 'go' }]);
+
+    expect(response.finishReason).toBe('error');
+    expect(response.content).toContain('HTTP 404');
+    expect(response.content).toContain('model not found');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * RalphEngine Tests
+ *
+ * Tests for approving the files a Ralph run changed before its work is kept.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RalphEngine } from '../RalphEngine';
+import type { ClaudeCodeProvider } from '../providers/ClaudeCodeProvider';
+import { LocalKanbanStore } from '../../services/LocalKanbanStore';
+import { ApprovalService } from '../../services/ApprovalService';
+import type { AgentRunApproval, ApprovalDecision } from '../../../shared/types';
+
+const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, stdio: 'ignore' });
+
+// Stands in for a CLI provider: writes the files as its own tools would
+function createProvider(projectRoot: string, files: Record<string, string>): ClaudeCodeProvider {
+  return {
+    setWorkingDirectory: () => undefined,
+    cancel: () => undefined,
+    complete: async () => {
+      for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+        fs.writeFileSync(path.join(projectRoot, file), content);
+      }
+      return { content: 'Done', finishReason: 'stop' };
+    },
+  } as unknown as ClaudeCodeProvider;
+}
+
+describe('RalphEngine', () => {
+  let projectRoot: string;
+  let store: LocalKanbanStore;
+  let approvals: ApprovalService;
+  let asked: string[];
+
+  const answerWith = (decision: ApprovalDecision) => approvals.setNotifier((event, request) => {
+    if (event !== 'requested') return;
+    asked.push(request.path!);
+    approvals.respond(request.id, decision);
+  });
+
+  const run = async (files: Record<string, string>) => {
+    const task = store.createTask('Change the config', 'todo');
+    const engine = new RalphEngine({ projectRoot, store, provider: createProvider(projectRoot, files), approvals });
+    await engine.runAllPending({ maxTasks: 1, maxAttempts: 1 });
+
+    const runsDir = path.join(projectRoot, '.local-kanban', 'agent-runs', task.id);
+    const [runFile] = fs.readdirSync(runsDir);
+    const artifact = JSON.parse(fs.readFileSync(path.join(runsDir, runFile), 'utf-8'));
+    return { task: store.getTask(task.id)!, artifact: artifact as { status: string; approvals?: AgentRunApproval[] } };
+  };
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-ralph-'));
+    git(projectRoot, 'init', '-q');
+    git(projectRoot, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', 'init');
+
+    store = new LocalKanbanStore({ projectRoot, enableBackups: false, maxBackups: 3 });
+    store.initialize('Test Project');
+    store.savePolicy({ ...store.getPolicy(), requireConfirmation: ['src/config/**'] });
+
+    approvals = new ApprovalService();
+    asked = [];
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('fails the run when a change to a confirmed path is denied', async () => {
+    answerWith('deny');
+
+    const { task, artifact } = await run({ 'src/config/app.json': '{}' });
+
+    expect(asked).toEqual(['src/config/app.json']);
+    expect(task.runtime.status).toBe('failed');
+    expect(artifact.status).toBe('failed');
+    expect(artifact.approvals).toMatchObject([
+      { kind: 'path', target: 'src/config/app.json', matchedRule: 'src/config/**', decision: 'deny' },
+    ]);
+  });
+
+  it('completes the run once the changes are approved, asking only for confirmed paths', async () => {
+    answerWith('approve');
+
+    const { task, artifact } = await run({ 'src/config/app.json': '{}', 'src/index.ts': 'export {};' });
+
+    expect(asked).toEqual(['src/config/app.json']);
+    expect(task.runtime.status).toBe('done');
+    expect(artifact.status).toBe('completed');
+    expect(artifact.approvals).toMatchObject([{ target: 'src/config/app.json', decision: 'approve' }]);
+  });
+});
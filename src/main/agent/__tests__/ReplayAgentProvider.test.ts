@@ -0,0 +1,109 @@
+/**
+ * ReplayAgentProvider Tests
+ *
+ * Tests for replaying recorded run transcripts, including divergence
+ * detection when the runtime sends different messages than were recorded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ReplayAgentProvider } from '../AgentProvider';
+import type { AgentRun, AgentRunTranscriptEntry } from '../../../shared/types';
+
+const at = '2026-01-01T00:00:00.000Z';
+
+function createTranscript(): AgentRunTranscriptEntry[] {
+  return [
+    { timestamp: at, step: 0, role: 'system', content: 'system prompt' },
+    { timestamp: at, step: 0, role: 'user', content: 'task prompt' },
+    {
+      timestamp: at,
+      step: 1,
+      role: 'assistant',
+      content: 'Reading the file.',
+      toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.ts' } }],
+      finishReason: 'tool_calls',
+    },
+    { timestamp: at, step: 1, role: 'user', content: 'Tool result for read_file:\nFile contents:\nx' },
+    {
+      timestamp: at,
+      step: 2,
+      role: 'assistant',
+      content: 'Done.',
+      toolCalls: [{ id: 'call_2', name: 'task_failed', arguments: { reason: 'nope' } }],
+      finishReason: 'tool_calls',
+    },
+  ];
+}
+
+function createRun(transcript?: AgentRunTranscriptEntry[]): AgentRun {
+  return {
+    id: 'run-1',
+    taskId: 'TSK-1',
+    mode: 'manual',
+    startedAt: at,
+    status: 'failed',
+    steps: 2,
+    toolCalls: [],
+    patches: [],
+    commands: [],
+    filesModified: [],
+    transcript,
+  };
+}
+
+describe('ReplayAgentProvider', () => {
+  it('should return recorded responses in order', async () => {
+    const transcript = createTranscript();
+    const provider = ReplayAgentProvider.fromRun(createRun(transcript));
+
+    const first = await provider.complete(transcript.slice(0, 2));
+    expect(first.toolCalls?.[0].name).toBe('read_file');
+    expect(first.finishReason).toBe('tool_calls');
+
+    const second = await provider.complete(transcript.slice(0, 4));
+    expect(second.toolCalls?.[0].name).toBe('task_failed');
+
+    expect(provider.getRemaining()).toBe(0);
+    expect(provider.getDivergences()).toEqual([]);
+  });
+
+  it('should stream the recorded content', async () => {
+    const transcript = createTranscript();
+    const provider = new ReplayAgentProvider(transcript);
+    const chunks: string[] = [];
+
+    await provider.complete(transcript.slice(0, 2), undefined, chunk => chunks.push(chunk));
+
+    expect(chunks).toEqual(['Reading the file.']);
+  });
+
+  it('should report a divergence when a tool result differs from the recording', async () => {
+    const transcript = createTranscript();
+    const provider = new ReplayAgentProvider(transcript);
+
+    await provider.complete(transcript.slice(0, 2));
+    await provider.complete([
+      ...transcript.slice(0, 3),
+      { role: 'user', content: 'Tool result for read_file:\nError: File not found' },
+    ]);
+
+    const divergences = provider.getDivergences();
+    expect(divergences).toHaveLength(1);
+    expect(divergences[0]).toMatchObject({ responseIndex: 1, messageIndex: 3 });
+    expect(divergences[0].actual?.content).toContain('File not found');
+  });
+
+  it('should throw once the recorded responses are exhausted', async () => {
+    const transcript = createTranscript();
+    const provider = new ReplayAgentProvider(transcript);
+
+    await provider.complete(transcript.slice(0, 2));
+    await provider.complete(transcript.slice(0, 4));
+
+    await expect(provider.complete(transcript)).rejects.toThrow('Replay exhausted');
+  });
+
+  it('should refuse runs recorded without a transcript', () => {
+    expect(() => ReplayAgentProvider.fromRun(createRun())).toThrow('no recorded transcript');
+  });
+});
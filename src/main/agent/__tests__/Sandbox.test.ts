@@ -0,0 +1,77 @@
+/**
+ * Sandbox Tests
+ *
+ * Tests for environment filtering, resource limits and the process
+ * built for sandboxed Runner commands.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import { filterEnvironment, buildResourceLimitPrefix, prepareSandbox } from '../tools/Sandbox';
+import { createDefaultRunnerSandboxSettings } from '../../../shared/schemas/factories';
+import type { RunnerSandboxSettings } from '../../../shared/types';
+
+function createSettings(overrides?: Partial<RunnerSandboxSettings>): RunnerSandboxSettings {
+  return { ...createDefaultRunnerSandboxSettings(), enabled: true, scratchHome: false, ...overrides };
+}
+
+describe('filterEnvironment', () => {
+  const env = {
+    PATH: '/usr/bin',
+    LANG: 'en_US.UTF-8',
+    GITHUB_TOKEN: 'ghp_x',
+    aws_secret_access_key: 'y',
+    NODE_ENV: 'test',
+  };
+
+  it('should withhold redacted variables case-insensitively', () => {
+    const result = filterEnvironment(env, [], createDefaultRunnerSandboxSettings().envRedact);
+
+    expect(result.env).toEqual({ PATH: '/usr/bin', LANG: 'en_US.UTF-8', NODE_ENV: 'test' });
+    expect(result.removed).toEqual(['GITHUB_TOKEN', 'aws_secret_access_key']);
+  });
+
+  it('should pass only allowlisted variables, with redaction winning', () => {
+    const result = filterEnvironment(env, ['PATH', 'LANG', 'GITHUB_*'], ['*TOKEN*']);
+
+    expect(result.passed).toEqual(['LANG', 'PATH']);
+    expect(result.removed).toEqual(['GITHUB_TOKEN', 'NODE_ENV', 'aws_secret_access_key']);
+  });
+});
+
+describe('prepareSandbox', () => {
+  it('should build ulimit prefixes for CPU and memory limits', () => {
+    expect(buildResourceLimitPrefix(createSettings())).toBe('');
+    expect(buildResourceLimitPrefix(createSettings({ maxCpuSeconds: 60, maxMemoryMb: 512 })))
+      .toBe('ulimit -t 60; ulimit -v 524288; ');
+  });
+
+  it.skipIf(process.platform === 'win32')('should wrap the command with the network isolation tool', () => {
+    const sandbox = prepareSandbox('npm test', createSettings({ denyNetwork: true, maxCpuSeconds: 30 }), {}, () => 'bwrap');
+
+    expect(sandbox.file).toBe('bwrap');
+    expect(sandbox.args).toContain('--unshare-net');
+    expect(sandbox.args.slice(-3)).toEqual(['/bin/sh', '-c', 'ulimit -t 30; npm test']);
+    expect(sandbox.info).toMatchObject({ network: 'denied', networkTool: 'bwrap', maxCpuSeconds: 30 });
+  });
+
+  it.skipIf(process.platform === 'win32')('should record when network denial is unavailable', () => {
+    const sandbox = prepareSandbox('npm test', createSettings({ denyNetwork: true }), {}, () => null);
+
+    expect(sandbox.file).toBe('/bin/sh');
+    expect(sandbox.args).toEqual(['-c', 'npm test']);
+    expect(sandbox.info.network).toBe('unavailable');
+  });
+
+  it('should run with a scratch HOME that is removed on cleanup', () => {
+    const sandbox = prepareSandbox('npm test', createSettings({ scratchHome: true }), { CI: '1' });
+    const home = sandbox.info.home!;
+
+    expect(sandbox.env.HOME).toBe(home);
+    expect(sandbox.env.CI).toBe('1');
+    expect(fs.existsSync(home)).toBe(true);
+
+    sandbox.cleanup();
+    expect(fs.existsSync(home)).toBe(false);
+  });
+});
@@ -9,6 +9,7 @@ import {
   AgentProvider,
   AgentProviderConfig,
 } from '../AgentProvider';
+import { createUsage } from '../TokenAccounting';
 import type {
   AgentMessage,
   AgentToolDefinition,
@@ -172,10 +173,16 @@ export class AnthropicProvider extends AgentProvider {
       const toolCalls = this.extractToolCalls(response.content);
       const finishReason = this.mapStopReason(response.stop_reason);
 
+      // Cached prompt tokens are reported separately from input_tokens
+      const inputTokens = response.usage.input_tokens
+        + (response.usage.cache_creation_input_tokens || 0)
+        + (response.usage.cache_read_input_tokens || 0);
+
       return {
         content: textContent,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         finishReason,
+        usage: createUsage(this.model, inputTokens, response.usage.output_tokens),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
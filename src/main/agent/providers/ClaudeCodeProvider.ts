@@ -10,12 +10,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { AgentProvider, AgentProviderConfig } from '../AgentProvider';
+import { createUsage, estimateUsage, readCount } from '../TokenAccounting';
 import type {
   AgentMessage,
   AgentToolDefinition,
   AgentResponse,
   AgentToolCall,
   ProjectContext,
+  TokenUsage,
 } from '../../../shared/types';
 import { PromptBuilder } from '../prompts';
 
@@ -37,6 +39,8 @@ export class ClaudeCodeProvider extends AgentProvider {
   private cancelled: boolean = false;
   private projectContext: ProjectContext | null = null;
   private attachedFiles: string[] = [];
+  // Usage reported by the CLI for the last command
+  private lastUsage: TokenUsage | null = null;
 
   constructor(config: ClaudeCodeProviderConfig = {}) {
     super(config);
@@ -175,6 +179,7 @@ export class ClaudeCodeProvider extends AgentProvider {
    */
   private executeStreamingCommand(args: string[], prompt: string, onChunk?: (chunk: string) => void): Promise<string> {
     this.cancelled = false;
+    this.lastUsage = null;
 
     return new Promise((resolve, reject) => {
       console.log('[ClaudeCode] Spawning claude with streaming args:', args);
@@ -253,6 +258,19 @@ export class ClaudeCodeProvider extends AgentProvider {
             // Debug: log event type
             console.log('[ClaudeCode] Event:', event.type);
 
+            // The final result event reports usage and cost for the whole command
+            if (event.type === 'result' && event.usage) {
+              const inputTokens = readCount(event.usage.input_tokens)
+                + readCount(event.usage.cache_creation_input_tokens)
+                + readCount(event.usage.cache_read_input_tokens);
+              this.lastUsage = createUsage(
+                this.config.model,
+                inputTokens,
+                readCount(event.usage.output_tokens),
+                typeof event.total_cost_usd === 'number' ? event.total_cost_usd : undefined
+              );
+            }
+
             // Handle different event types from Claude Code CLI
 
             // Assistant message with content
@@ -645,6 +663,7 @@ export class ClaudeCodeProvider extends AgentProvider {
         rawContent: response,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         finishReason,
+        usage: this.lastUsage || estimateUsage(this.config.model, prompt, response),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -10,12 +10,15 @@
 
 import { spawn } from 'child_process';
 import { AgentProvider, AgentProviderConfig } from '../AgentProvider';
+import { createUsage, estimateUsage, readCount } from '../TokenAccounting';
+import { addTokenUsage } from '../../../shared/schemas/common';
 import type {
   AgentMessage,
   AgentToolDefinition,
   AgentResponse,
   AgentToolCall,
   ProjectContext,
+  TokenUsage,
 } from '../../../shared/types';
 import { CodexInstaller } from '../../services/CodexInstaller';
 import { PromptBuilder } from '../prompts';
@@ -38,6 +41,8 @@ export class CodexProvider extends AgentProvider {
   private currentTimeout: NodeJS.Timeout | null = null;
   private cancelled: boolean = false;
   private projectContext: ProjectContext | null = null;
+  // Usage reported by the CLI for the last command
+  private lastUsage: TokenUsage | null = null;
 
   constructor(config: CodexProviderConfig = {}) {
     super(config);
@@ -114,6 +119,7 @@ export class CodexProvider extends AgentProvider {
    */
   private executeCommand(prompt: string, onChunk?: (chunk: string) => void): Promise<string> {
     this.cancelled = false;
+    this.lastUsage = null;
 
     return new Promise((resolve, reject) => {
       console.log('[Codex] Spawning codex exec with prompt length:', prompt.length);
@@ -151,6 +157,16 @@ export class CodexProvider extends AgentProvider {
           const event = JSON.parse(line);
           jsonEvents.push(event);
 
+          // Each completed turn reports its own usage (input includes cached tokens)
+          if (event.type === 'turn.completed' && event.usage) {
+            this.lastUsage = addTokenUsage(this.lastUsage || undefined, createUsage(
+              this.config.model,
+              readCount(event.usage.input_tokens),
+              readCount(event.usage.output_tokens)
+            ));
+            return;
+          }
+
           // Extract content from different event types
           // Codex outputs various event types - we want text content
           if (event.type === 'message' && event.content) {
@@ -459,6 +475,7 @@ export class CodexProvider extends AgentProvider {
         content: cleanedContent,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         finishReason,
+        usage: this.lastUsage || estimateUsage(this.config.model, prompt, response),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,224 @@
+/**
+ * FallbackProvider
+ *
+ * Wraps an ordered chain of providers (e.g. Claude Code → OpenCode → Codex).
+ * Failures are classified with classifyProviderError:
+ * - rate-limit and transient errors are retried with exponential backoff
+ * - auth and fatal errors, or retries running out, fail over to the next provider
+ *
+ * Every retry and failover is kept as an AgentRunProviderEvent so the
+ * runtime can record it in the run artifact.
+ */
+
+import { AgentProvider, AgentProviderConfig } from '../AgentProvider';
+import { classifyProviderError } from '../../../shared/errors';
+import type {
+  AgentMessage,
+  AgentToolDefinition,
+  AgentResponse,
+  AgentRunProviderEvent,
+} from '../../../shared/types';
+
+export interface FallbackProviderConfig extends AgentProviderConfig {
+  /** Providers to try, in order */
+  providers: AgentProvider[];
+  /** Retries per provider for rate-limit and transient errors */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled on each further retry */
+  initialBackoffMs?: number;
+  /** Upper bound for the retry delay */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Providers that can stop their in-flight command.
+ */
+interface CancellableProvider {
+  cancel(): void;
+}
+
+/**
+ * Providers that run in a working directory (the CLI agents).
+ */
+interface DirectoryProvider {
+  setWorkingDirectory(dir: string): void;
+}
+
+export class FallbackProvider extends AgentProvider {
+  private providers: AgentProvider[];
+  private maxRetries: number;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private events: AgentRunProviderEvent[] = [];
+  private currentProvider: AgentProvider | null = null;
+  private cancelled = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(config: FallbackProviderConfig) {
+    super(config);
+    this.providers = config.providers;
+    this.maxRetries = config.maxRetries ?? 2;
+    this.initialBackoffMs = config.initialBackoffMs ?? 2000;
+    this.maxBackoffMs = config.maxBackoffMs ?? 30000;
+  }
+
+  getName(): string {
+    return this.providers.map(p => p.getName()).join(' → ');
+  }
+
+  isReady(): boolean {
+    return this.providers.some(p => p.isReady());
+  }
+
+  /**
+   * Get the providers of the chain, in order.
+   */
+  getProviders(): AgentProvider[] {
+    return this.providers;
+  }
+
+  /**
+   * Set the working directory of the providers that run in one.
+   */
+  setWorkingDirectory(dir: string): void {
+    for (const provider of this.providers as Array<AgentProvider & Partial<DirectoryProvider>>) {
+      provider.setWorkingDirectory?.(dir);
+    }
+  }
+
+  /**
+   * Return the retries and failovers since the last call, and clear them.
+   */
+  takeEvents(): AgentRunProviderEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /**
+   * Stop the current call and any pending retry.
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.wakeUp?.();
+
+    const provider = this.currentProvider as (AgentProvider & Partial<CancellableProvider>) | null;
+    provider?.cancel?.();
+  }
+
+  async complete(
+    messages: AgentMessage[],
+    tools?: AgentToolDefinition[],
+    onChunk?: (chunk: string) => void,
+    mode?: 'planner' | 'agent' | 'execution'
+  ): Promise<AgentResponse> {
+    this.cancelled = false;
+
+    const chain = this.providers.filter(p => p.isReady());
+    if (chain.length === 0) {
+      return {
+        content: 'Error: No provider in the fallback chain is ready',
+        finishReason: 'error',
+      };
+    }
+
+    let lastResponse: AgentResponse | null = null;
+
+    for (let i = 0; i < chain.length; i++) {
+      const provider = chain[i];
+      const next = chain[i + 1];
+
+      for (let attempt = 1; ; attempt++) {
+        this.currentProvider = provider;
+
+        let response: AgentResponse;
+        try {
+          response = await provider.complete(messages, tools, onChunk, mode);
+        } catch (error) {
+          response = {
+            content: `Error calling ${provider.getName()}: ${error instanceof Error ? error.message : String(error)}`,
+            finishReason: 'error',
+          };
+        } finally {
+          this.currentProvider = null;
+        }
+
+        if (response.finishReason !== 'error' || this.cancelled) {
+          return response;
+        }
+        lastResponse = response;
+
+        const error = classifyProviderError(response.content, provider.getName());
+
+        if (error.retryable && attempt <= this.maxRetries) {
+          const delayMs = Math.min(
+            this.maxBackoffMs,
+            error.retryAfterMs ?? this.initialBackoffMs * 2 ** (attempt - 1)
+          );
+          this.addEvent(error.provider, error.kind, error.message, attempt, 'retry', { delayMs });
+
+          await this.sleep(delayMs);
+          if (this.cancelled) {
+            return response;
+          }
+          continue;
+        }
+
+        if (next) {
+          this.addEvent(error.provider, error.kind, error.message, attempt, 'failover', {
+            nextProvider: next.getName(),
+          });
+        } else {
+          this.addEvent(error.provider, error.kind, error.message, attempt, 'give_up');
+        }
+        break;
+      }
+    }
+
+    return lastResponse!;
+  }
+
+  private addEvent(
+    provider: string,
+    kind: AgentRunProviderEvent['kind'],
+    message: string,
+    attempt: number,
+    action: AgentRunProviderEvent['action'],
+    extra: Pick<AgentRunProviderEvent, 'delayMs' | 'nextProvider'> = {}
+  ): void {
+    console.warn(`[Provider] ${provider} failed (${kind}, attempt ${attempt}): ${action}`);
+    this.events.push({
+      timestamp: new Date().toISOString(),
+      provider,
+      kind,
+      message,
+      attempt,
+      action,
+      ...extra,
+    });
+  }
+
+  /**
+   * Wait for a backoff delay; resolves early on cancel.
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+}
+
+/**
+ * Create a fallback provider over an ordered chain.
+ */
+export function createFallbackProvider(config: FallbackProviderConfig): FallbackProvider {
+  return new FallbackProvider(config);
+}
@@ -0,0 +1,361 @@
+/**
+ * OpenAICompatibleProvider
+ *
+ * HTTP provider for servers that speak the OpenAI chat-completions protocol,
+ * such as llama.cpp, Ollama, vLLM or LM Studio. Uses native tool calling
+ * and streams the response over server-sent events.
+ */
+
+import {
+  AgentProvider,
+  AgentProviderConfig,
+} from '../AgentProvider';
+import { createUsage, estimateUsage } from '../TokenAccounting';
+import type {
+  AgentMessage,
+  AgentToolDefinition,
+  AgentResponse,
+  AgentToolCall,
+  TokenUsage,
+} from '../../../shared/types';
+
+export interface OpenAICompatibleProviderConfig extends AgentProviderConfig {
+  /** Base URL of the API, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  /** Model name as known to the server */
+  model?: string;
+  /** Bearer token, if the server requires one */
+  apiKey?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Function tool in the chat-completions format.
+ */
+interface ChatCompletionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: unknown;
+  };
+}
+
+/**
+ * Message in the chat-completions format.
+ */
+type ChatCompletionMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+    role: 'assistant';
+    content: string | null;
+    tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+/**
+ * The parts of a streamed chat-completions chunk that are used.
+ */
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  } | null;
+}
+
+/**
+ * Tool call being assembled from streamed fragments.
+ */
+interface PartialToolCall {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Provider for OpenAI-compatible chat-completions servers.
+ */
+export class OpenAICompatibleProvider extends AgentProvider {
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+  private maxTokens: number;
+  private timeoutMs: number;
+  private abortController: AbortController | null = null;
+  private cancelled = false;
+
+  constructor(config: OpenAICompatibleProviderConfig = {}) {
+    super(config);
+    this.baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    this.model = config.model || '';
+    this.apiKey = config.apiKey || undefined;
+    this.maxTokens = config.maxTokens || 4096;
+    this.timeoutMs = config.timeoutMs || 300000;
+  }
+
+  getName(): string {
+    return `OpenAI-compatible (${this.model || 'no model'})`;
+  }
+
+  isReady(): boolean {
+    return this.baseUrl.length > 0 && this.model.length > 0;
+  }
+
+  /**
+   * Abort the request in progress.
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.abortController?.abort();
+  }
+
+  /**
+   * Check if a request is in progress.
+   */
+  isExecuting(): boolean {
+    return this.abortController !== null;
+  }
+
+  /**
+   * Convert our messages to chat-completions messages. Tool calls are sent
+   * as assistant tool_calls and their results as tool messages; results of
+   * calls without an ID (e.g. made by another provider) stay user text.
+   */
+  private convertMessages(messages: AgentMessage[]): ChatCompletionMessage[] {
+    const callIds = new Set<string>();
+
+    return messages.map((message): ChatCompletionMessage => {
+      if (message.toolCallId && callIds.has(message.toolCallId)) {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      }
+
+      const calls = message.role === 'assistant' ? message.toolCalls?.filter(call => call.id) : undefined;
+      if (calls && calls.length > 0) {
+        calls.forEach(call => callIds.add(call.id!));
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: calls.map(call => ({
+            id: call.id!,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  /**
+   * Convert our tool definitions to function tools.
+   */
+  private convertTools(tools: AgentToolDefinition[]): ChatCompletionTool[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Parse the JSON arguments of a tool call, keeping the raw text if it is invalid.
+   */
+  private parseArguments(raw: string): Record<string, unknown> {
+    if (!raw.trim()) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : { value: parsed };
+    } catch {
+      console.warn('[OpenAICompatible] Invalid tool call arguments:', raw);
+      return { raw };
+    }
+  }
+
+  /**
+   * Map a chat-completions finish reason to ours.
+   */
+  private mapFinishReason(reason: string | null, hasToolCalls: boolean): AgentResponse['finishReason'] {
+    if (hasToolCalls) return 'tool_calls';
+    switch (reason) {
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      default:
+        return 'stop';
+    }
+  }
+
+  async complete(
+    messages: AgentMessage[],
+    tools?: AgentToolDefinition[],
+    onChunk?: (chunk: string) => void
+  ): Promise<AgentResponse> {
+    if (!this.isReady()) {
+      return {
+        content: 'Error: OpenAI-compatible server URL and model are not configured',
+        finishReason: 'error',
+      };
+    }
+
+    const controller = new AbortController();
+    this.abortController = controller;
+    this.cancelled = false;
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: this.convertMessages(messages),
+        max_tokens: this.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+
+      if (this.config.temperature !== undefined) {
+        body.temperature = this.config.temperature;
+      }
+
+      if (tools && tools.length > 0) {
+        body.tools = this.convertTools(tools);
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.apiKey) {
+        headers.Authorization = `Bearer ${this.apiKey}`;
+      }
+
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const text = await response.text().catch(() => '');
+        return {
+          content: `Error calling ${this.getName()}: HTTP ${response.status} ${response.statusText} ${text}`.trim(),
+          finishReason: 'error',
+        };
+      }
+
+      let content = '';
+      let finishReason: string | null = null;
+      let usage: TokenUsage | undefined;
+      const toolCalls = new Map<number, PartialToolCall>();
+
+      const handleChunk = (chunk: ChatCompletionChunk) => {
+        for (const choice of chunk.choices || []) {
+          if (choice.delta?.content) {
+            content += choice.delta.content;
+            onChunk?.(choice.delta.content);
+          }
+
+          for (const fragment of choice.delta?.tool_calls || []) {
+            const call = toolCalls.get(fragment.index) || { name: '', arguments: '' };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.name += fragment.function.name;
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+            toolCalls.set(fragment.index, call);
+          }
+
+          if (choice.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+        }
+
+        if (chunk.usage) {
+          usage = createUsage(this.model, chunk.usage.prompt_tokens || 0, chunk.usage.completion_tokens || 0);
+        }
+      };
+
+      // Server-sent events: "data: {...}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let done = false;
+
+      while (!done) {
+        const { value, done: streamDone } = await reader.read();
+        if (streamDone) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') {
+            done = true;
+            break;
+          }
+
+          try {
+            handleChunk(JSON.parse(data) as ChatCompletionChunk);
+          } catch {
+            console.warn('[OpenAICompatible] Skipping malformed stream event:', data.substring(0, 200));
+          }
+        }
+      }
+
+      const calls: AgentToolCall[] = [...toolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .filter(([, call]) => call.name)
+        .map(([index, call]) => ({
+          // Tool results are matched to the call by ID, so calls need one
+          id: call.id || `call_${index}`,
+          name: call.name,
+          arguments: this.parseArguments(call.arguments),
+        }));
+
+      return {
+        content,
+        toolCalls: calls.length > 0 ? calls : undefined,
+        finishReason: this.mapFinishReason(finishReason, calls.length > 0),
+        usage: usage || estimateUsage(this.model, messages.map(m => m.content).join('\n'), content),
+      };
+    } catch (error) {
+      let errorMessage = error instanceof Error ? error.message : String(error);
+      if (controller.signal.aborted) {
+        errorMessage = this.cancelled ? 'Cancelled' : `Request timed out after ${this.timeoutMs}ms`;
+      }
+      console.error('OpenAI-compatible API error:', errorMessage);
+
+      return {
+        content: `Error calling ${this.getName()}: ${errorMessage}`,
+        finishReason: 'error',
+      };
+    } finally {
+      clearTimeout(timeout);
+      this.abortController = null;
+    }
+  }
+}
+
+/**
+ * Create an OpenAI-compatible provider with optional config.
+ */
+export function createOpenAICompatibleProvider(config?: OpenAICompatibleProviderConfig): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(config);
+}
@@ -8,12 +8,15 @@
 
 import { spawn, spawnSync } from 'child_process';
 import { AgentProvider, AgentProviderConfig } from '../AgentProvider';
+import { createUsage, estimateUsage, readCount } from '../TokenAccounting';
+import { addTokenUsage } from '../../../shared/schemas/common';
 import type {
   AgentMessage,
   AgentToolDefinition,
   AgentResponse,
   AgentToolCall,
   ProjectContext,
+  TokenUsage,
 } from '../../../shared/types';
 import { OpenCodeInstaller } from '../../services/OpenCodeInstaller';
 
@@ -46,6 +49,8 @@ export class OpenCodeProvider extends AgentProvider {
   private attachedFiles: string[] = [];
   private collectedTodos: OpenCodeTodo[] = [];
   private onTodoCallback?: (todos: OpenCodeTodo[]) => void;
+  // Usage reported by the CLI for the last command
+  private lastUsage: TokenUsage | null = null;
 
   constructor(config: OpenCodeProviderConfig = {}) {
     super(config);
@@ -134,6 +139,7 @@ export class OpenCodeProvider extends AgentProvider {
    */
   private executeStreamingCommand(args: string[], onChunk?: (chunk: string) => void, stdinData?: string): Promise<string> {
     this.cancelled = false;
+    this.lastUsage = null;
 
     return new Promise((resolve, reject) => {
       console.log('[OpenCode] Spawning opencode with args:', args.slice(0, 3), '(prompt via stdin)');
@@ -335,6 +341,20 @@ export class OpenCodeProvider extends AgentProvider {
             else if (event.type === 'step_start' || event.type === 'step_finish') {
               // Log step info but don't add to content
               console.log('[OpenCode] Step:', event.type, event.step || event.name || '');
+
+              // Each finished step reports its tokens and cost
+              const tokens = event.part?.tokens;
+              if (event.type === 'step_finish' && tokens) {
+                const inputTokens = readCount(tokens.input)
+                  + readCount(tokens.cache?.read)
+                  + readCount(tokens.cache?.write);
+                this.lastUsage = addTokenUsage(this.lastUsage || undefined, createUsage(
+                  this.config.model,
+                  inputTokens,
+                  readCount(tokens.output) + readCount(tokens.reasoning),
+                  typeof event.part.cost === 'number' ? event.part.cost : undefined
+                ));
+              }
             }
             // Handle tool_use events (OpenCode format: event.part with tool info)
             else if (event.type === 'tool_use' && event.part) {
@@ -702,6 +722,7 @@ Execute the requested changes.\n\n`;
         content: finalContent,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         finishReason,
+        usage: this.lastUsage || estimateUsage(this.config.model, prompt, response),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
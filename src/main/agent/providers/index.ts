@@ -15,3 +15,9 @@ export type { OpenCodeProviderConfig } from './OpenCodeProvider';
 
 export { CodexProvider, createCodexProvider } from './CodexProvider';
 export type { CodexProviderConfig } from './CodexProvider';
+
+export { FallbackProvider, createFallbackProvider } from './FallbackProvider';
+export type { FallbackProviderConfig } from './FallbackProvider';
+
+export { OpenAICompatibleProvider, createOpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export type { OpenAICompatibleProviderConfig } from './OpenAICompatibleProvider';
@@ -9,6 +9,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as diff from 'diff';
 import { PolicyGuard } from '../../services/PolicyGuard';
+import type { WriteCheckpoint } from '../../services/CheckpointService';
 import type { Policy, RepoIndex } from '../../../shared/types';
 
 export interface ListFilesOptions {
@@ -64,6 +65,7 @@ export class RepoTools {
   private projectRoot: string;
   private policyGuard: PolicyGuard;
   private touchedFiles: Set<string> = new Set();
+  private checkpoint: WriteCheckpoint | null = null;
 
   constructor(projectRoot: string, policy: Policy) {
     this.projectRoot = path.resolve(projectRoot);
@@ -77,6 +79,13 @@ export class RepoTools {
     return Array.from(this.touchedFiles);
   }
 
+  /**
+   * Set the checkpoint that snapshots files before each write (null to stop).
+   */
+  setCheckpoint(checkpoint: WriteCheckpoint | null): void {
+    this.checkpoint = checkpoint;
+  }
+
   /**
    * Clear the touched files list.
    */
@@ -293,6 +302,10 @@ export class RepoTools {
         fs.copyFileSync(fullPath, backupPath);
       }
 
+      // Snapshot for run rollback
+      const relativePath = this.policyGuard.getRelativePath(fullPath);
+      this.checkpoint?.captureBefore(relativePath, fullPath);
+
       // Ensure directory exists
       const dir = path.dirname(fullPath);
       if (!fs.existsSync(dir)) {
@@ -301,7 +314,8 @@ export class RepoTools {
 
       // Write new content
       fs.writeFileSync(fullPath, newContent, 'utf-8');
-      this.touchedFiles.add(this.policyGuard.getRelativePath(fullPath));
+      this.touchedFiles.add(relativePath);
+      this.checkpoint?.captureAfter(relativePath, fullPath);
 
       return {
         success: true,
@@ -337,6 +351,10 @@ export class RepoTools {
         fs.copyFileSync(fullPath, backupPath);
       }
 
+      // Snapshot for run rollback
+      const relativePath = this.policyGuard.getRelativePath(fullPath);
+      this.checkpoint?.captureBefore(relativePath, fullPath);
+
       // Ensure directory exists
       const dir = path.dirname(fullPath);
       if (!fs.existsSync(dir)) {
@@ -348,7 +366,8 @@ export class RepoTools {
       fs.writeFileSync(tempPath, options.content, 'utf-8');
       fs.renameSync(tempPath, fullPath);
 
-      this.touchedFiles.add(this.policyGuard.getRelativePath(fullPath));
+      this.touchedFiles.add(relativePath);
+      this.checkpoint?.captureAfter(relativePath, fullPath);
 
       return { success: true };
     } catch (error) {
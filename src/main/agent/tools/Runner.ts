@@ -2,6 +2,7 @@
  * Runner
  *
  * Command execution with logging, timeout, and policy enforcement.
+ * Commands run in the sandbox from the runner settings when it is enabled.
  */
 
 import { spawn, ChildProcess } from 'child_process';
@@ -9,6 +10,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PolicyGuard } from '../../services/PolicyGuard';
 import { LocalKanbanStore } from '../../services/LocalKanbanStore';
+import { prepareSandbox, describeSandbox, SandboxedProcess } from './Sandbox';
 import type { Policy, CommandRunMetadata } from '../../../shared/types';
 import { createRunId } from '../../../shared/schemas';
 
@@ -29,6 +31,8 @@ export interface RunResult {
   metadataPath: string;
   error?: string;
   durationMs: number;
+  /** Whether the command was stopped for exceeding the sandbox output limit */
+  outputLimitExceeded?: boolean;
 }
 
 export class Runner {
@@ -72,7 +76,7 @@ export class Runner {
         ? options.cwd
         : path.join(this.projectRoot, options.cwd);
 
-      if (!cwdPath.startsWith(this.projectRoot)) {
+      if (!this.policyGuard.isWithinProject(cwdPath)) {
         return {
           success: false,
           exitCode: null,
@@ -91,28 +95,51 @@ export class Runner {
     const logPath = path.join(runDir, `${runId}.log`);
     const metadataPath = path.join(runDir, `${runId}.json`);
 
+    // Build the sandboxed process, if enabled
+    const sandboxSettings = this.store.getSettings().runner.sandbox;
+    let sandbox: SandboxedProcess | null = null;
+    if (sandboxSettings?.enabled) {
+      try {
+        sandbox = prepareSandbox(options.cmd, sandboxSettings, options.env);
+      } catch (error) {
+        return {
+          success: false,
+          exitCode: null,
+          timedOut: false,
+          logPath: '',
+          metadataPath: '',
+          error: `Failed to prepare sandbox: ${error instanceof Error ? error.message : String(error)}`,
+          durationMs: 0,
+        };
+      }
+    }
+
     // Create log stream
     const logStream = fs.createWriteStream(logPath, { flags: 'a' });
 
     // Write header
-    const header = `\n${'='.repeat(60)}\nCommand: ${options.cmd}\nCWD: ${cwd}\nStarted: ${new Date().toISOString()}\n${'='.repeat(60)}\n\n`;
+    const sandboxLine = sandbox ? `Sandbox: ${describeSandbox(sandbox.info)}\n` : '';
+    const header = `\n${'='.repeat(60)}\nCommand: ${options.cmd}\nCWD: ${cwd}\n${sandboxLine}Started: ${new Date().toISOString()}\n${'='.repeat(60)}\n\n`;
     logStream.write(header);
 
     // Parse command
     const isWindows = process.platform === 'win32';
-    const shell = isWindows ? 'cmd.exe' : '/bin/sh';
-    const shellArgs = isWindows ? ['/c', options.cmd] : ['-c', options.cmd];
+    const shell = sandbox ? sandbox.file : isWindows ? 'cmd.exe' : '/bin/sh';
+    const shellArgs = sandbox ? sandbox.args : isWindows ? ['/c', options.cmd] : ['-c', options.cmd];
 
     // Merge environment
-    const env = {
+    const env = sandbox ? sandbox.env : {
       ...process.env,
       ...options.env,
     };
 
     return new Promise<RunResult>((resolve) => {
       let timedOut = false;
+      let outputLimitExceeded = false;
+      let outputBytes = 0;
       let exitCode: number | null = null;
       let timeoutHandle: NodeJS.Timeout | null = null;
+      const maxOutputBytes = sandbox?.info.maxOutputBytes;
 
       // Spawn process
       const proc = spawn(shell, shellArgs, {
@@ -124,16 +151,32 @@ export class Runner {
       this.activeProcesses.set(runId, proc);
       this.cancellationTokens.set(runId, false);
 
+      // Stop the command once it prints more than the sandbox allows
+      const writeOutput = (text: string, bytes: number) => {
+        if (outputLimitExceeded) return;
+        outputBytes += bytes;
+        if (maxOutputBytes && outputBytes > maxOutputBytes) {
+          outputLimitExceeded = true;
+          logStream.write(`\n[OUTPUT LIMIT] Command output exceeded ${maxOutputBytes} bytes\n`);
+          proc.kill('SIGTERM');
+          setTimeout(() => {
+            if (!proc.killed) {
+              proc.kill('SIGKILL');
+            }
+          }, 5000);
+          return;
+        }
+        logStream.write(text);
+      };
+
       // Handle stdout
       proc.stdout?.on('data', (data: Buffer) => {
-        const text = data.toString();
-        logStream.write(text);
+        writeOutput(data.toString(), data.length);
       });
 
       // Handle stderr
       proc.stderr?.on('data', (data: Buffer) => {
-        const text = data.toString();
-        logStream.write(`[STDERR] ${text}`);
+        writeOutput(`[STDERR] ${data.toString()}`, data.length);
       });
 
       // Handle timeout
@@ -161,6 +204,7 @@ export class Runner {
 
         this.activeProcesses.delete(runId);
         this.cancellationTokens.delete(runId);
+        sandbox?.cleanup();
 
         const durationMs = Date.now() - startTime;
 
@@ -181,6 +225,9 @@ export class Runner {
           timedOut,
           logPath,
         };
+        if (sandbox) {
+          metadata.sandbox = { ...sandbox.info, outputLimitExceeded };
+        }
 
         fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
 
@@ -193,12 +240,14 @@ export class Runner {
         }, { taskId: options.taskId, runId });
 
         resolve({
-          success: exitCode === 0 && !timedOut,
+          success: exitCode === 0 && !timedOut && !outputLimitExceeded,
           exitCode,
           timedOut,
           logPath,
           metadataPath,
+          error: outputLimitExceeded ? `Command output exceeded ${maxOutputBytes} bytes` : undefined,
           durationMs,
+          outputLimitExceeded: outputLimitExceeded || undefined,
         });
       });
 
@@ -210,6 +259,7 @@ export class Runner {
 
         this.activeProcesses.delete(runId);
         this.cancellationTokens.delete(runId);
+        sandbox?.cleanup();
 
         const durationMs = Date.now() - startTime;
 
@@ -0,0 +1,206 @@
+/**
+ * Sandbox
+ *
+ * Builds the sandboxed process for a Runner command: a filtered
+ * environment, an optional scratch HOME, network denial through bubblewrap
+ * or unshare (Linux), and CPU/memory limits through ulimit (POSIX).
+ * The output limit is enforced by the Runner while the command runs.
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CommandSandboxInfo, RunnerSandboxSettings } from '../../../shared/types';
+
+export type NetworkIsolationTool = 'bwrap' | 'unshare';
+
+/**
+ * Process to spawn for a sandboxed command.
+ */
+export interface SandboxedProcess {
+  file: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  info: CommandSandboxInfo;
+  /** Remove the scratch HOME; call once the command has exited */
+  cleanup: () => void;
+}
+
+/**
+ * Arguments that run a command without network access, per tool.
+ */
+const NETWORK_ISOLATION_ARGS: Record<NetworkIsolationTool, string[]> = {
+  bwrap: ['--dev-bind', '/', '/', '--unshare-net', '--die-with-parent'],
+  unshare: ['--user', '--map-root-user', '--net'],
+};
+
+// Probed once per process; undefined until the first probe
+let detectedNetworkTool: NetworkIsolationTool | null | undefined;
+
+/**
+ * Find a tool that can run commands without network access.
+ * Each tool is tried with a no-op command, since user namespaces can be
+ * disabled even when the binary is installed.
+ */
+export function detectNetworkIsolation(): NetworkIsolationTool | null {
+  if (detectedNetworkTool !== undefined) {
+    return detectedNetworkTool;
+  }
+
+  detectedNetworkTool = null;
+  if (process.platform === 'linux') {
+    for (const tool of ['bwrap', 'unshare'] as NetworkIsolationTool[]) {
+      const probe = spawnSync(tool, [...NETWORK_ISOLATION_ARGS[tool], 'true'], { stdio: 'ignore', timeout: 5000 });
+      if (probe.status === 0) {
+        detectedNetworkTool = tool;
+        break;
+      }
+    }
+  }
+  return detectedNetworkTool;
+}
+
+/**
+ * Convert an environment variable glob ("*_TOKEN") to a regular expression.
+ */
+function envPatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Apply the allowlist and redaction list to an environment.
+ * Redaction wins over the allowlist.
+ */
+export function filterEnvironment(
+  env: NodeJS.ProcessEnv,
+  allowlist: string[],
+  redact: string[]
+): { env: NodeJS.ProcessEnv; passed: string[]; removed: string[] } {
+  const allowed = allowlist.map(envPatternToRegExp);
+  const redacted = redact.map(envPatternToRegExp);
+  const filtered: NodeJS.ProcessEnv = {};
+  const passed: string[] = [];
+  const removed: string[] = [];
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) continue;
+    const keep = (allowed.length === 0 || allowed.some(re => re.test(name))) && !redacted.some(re => re.test(name));
+    if (keep) {
+      filtered[name] = value;
+      passed.push(name);
+    } else {
+      removed.push(name);
+    }
+  }
+
+  return { env: filtered, passed: passed.sort(), removed: removed.sort() };
+}
+
+/**
+ * Build the ulimit prefix for the CPU and memory limits.
+ */
+export function buildResourceLimitPrefix(settings: RunnerSandboxSettings): string {
+  const limits: string[] = [];
+  if (settings.maxCpuSeconds) {
+    limits.push(`ulimit -t ${Math.floor(settings.maxCpuSeconds)}`);
+  }
+  if (settings.maxMemoryMb) {
+    // ulimit -v takes kilobytes
+    limits.push(`ulimit -v ${Math.floor(settings.maxMemoryMb) * 1024}`);
+  }
+  return limits.map(limit => `${limit}; `).join('');
+}
+
+/**
+ * Build the process for a command run in the sandbox.
+ * @param cmd Command already validated by PolicyGuard
+ * @param extraEnv Variables set by the caller, passed through the same filter
+ * @param detectNetwork Finds the network isolation tool (injectable for tests)
+ */
+export function prepareSandbox(
+  cmd: string,
+  settings: RunnerSandboxSettings,
+  extraEnv: Record<string, string> = {},
+  detectNetwork: () => NetworkIsolationTool | null = detectNetworkIsolation
+): SandboxedProcess {
+  const isWindows = process.platform === 'win32';
+  const { env, passed, removed } = filterEnvironment(
+    { ...process.env, ...extraEnv },
+    settings.envAllowlist,
+    settings.envRedact
+  );
+
+  const info: CommandSandboxInfo = {
+    envPassed: passed,
+    envRemoved: removed,
+    network: 'allowed',
+  };
+
+  let home: string | null = null;
+  if (settings.scratchHome) {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-home-'));
+    env.HOME = home;
+    if (isWindows) {
+      env.USERPROFILE = home;
+    }
+    info.home = home;
+  }
+
+  if (settings.maxOutputBytes) {
+    info.maxOutputBytes = settings.maxOutputBytes;
+  }
+
+  const cleanup = () => {
+    if (home) {
+      fs.rmSync(home, { recursive: true, force: true });
+      home = null;
+    }
+  };
+
+  if (isWindows) {
+    // No ulimit or namespaces: only the environment and output limit apply
+    if (settings.denyNetwork) {
+      info.network = 'unavailable';
+    }
+    return { file: 'cmd.exe', args: ['/c', cmd], env, info, cleanup };
+  }
+
+  const script = buildResourceLimitPrefix(settings) + cmd;
+  if (settings.maxCpuSeconds) info.maxCpuSeconds = Math.floor(settings.maxCpuSeconds);
+  if (settings.maxMemoryMb) info.maxMemoryMb = Math.floor(settings.maxMemoryMb);
+
+  if (settings.denyNetwork) {
+    const tool = detectNetwork();
+    if (tool) {
+      info.network = 'denied';
+      info.networkTool = tool;
+      return {
+        file: tool,
+        args: [...NETWORK_ISOLATION_ARGS[tool], '/bin/sh', '-c', script],
+        env,
+        info,
+        cleanup,
+      };
+    }
+    info.network = 'unavailable';
+  }
+
+  return { file: '/bin/sh', args: ['-c', script], env, info, cleanup };
+}
+
+/**
+ * Describe an applied sandbox for the command log header.
+ */
+export function describeSandbox(info: CommandSandboxInfo): string {
+  const parts = [
+    `env ${info.envPassed.length} passed, ${info.envRemoved.length} withheld`,
+    `network ${info.network}${info.networkTool ? ` (${info.networkTool})` : ''}`,
+  ];
+  if (info.home) parts.push(`HOME ${info.home}`);
+  if (info.maxCpuSeconds) parts.push(`cpu ${info.maxCpuSeconds}s`);
+  if (info.maxMemoryMb) parts.push(`memory ${info.maxMemoryMb} MB`);
+  if (info.maxOutputBytes) parts.push(`output ${info.maxOutputBytes} bytes`);
+  return parts.join(', ');
+}
@@ -68,6 +68,7 @@ const mockStore = {
     updatedAt: new Date().toISOString(),
   })),
   updateTask: vi.fn((id: string, patch: any) => ({ id, ...patch })),
+  getTasks: vi.fn(() => []),
   saveInterview: vi.fn(),
   getInterview: vi.fn(() => null),
   deleteInterview: vi.fn(),
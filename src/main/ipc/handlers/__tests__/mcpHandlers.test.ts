@@ -0,0 +1,71 @@
+/**
+ * MCP Handlers Tests
+ *
+ * Tests for the resources the MCP server reads from the open project.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalKanbanStore } from '../../../services/LocalKanbanStore';
+import { createBoardMcpServer } from '../mcpHandlers';
+
+vi.mock('electron', () => ({
+  app: {
+    getVersion: vi.fn(() => '1.0.0'),
+  },
+  ipcMain: {
+    handle: vi.fn(),
+    on: vi.fn(),
+    removeHandler: vi.fn(),
+  },
+}));
+
+let store: LocalKanbanStore;
+
+vi.mock('../shared', () => ({
+  getStore: vi.fn(() => store),
+  getRunner: vi.fn(() => null),
+}));
+
+describe('mcpHandlers', () => {
+  let root: string;
+  let projectRoot: string;
+
+  const readResource = (uri: string) =>
+    createBoardMcpServer(projectRoot).handleMessage({ jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri } });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-mcp-'));
+    projectRoot = path.join(root, 'project');
+    fs.mkdirSync(projectRoot);
+    store = new LocalKanbanStore({ projectRoot, enableBackups: false, maxBackups: 3 });
+    store.initialize('Test Project');
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads a run record', async () => {
+    const runPath = store.getAgentRunPath('TSK-1', 'run-1');
+    fs.mkdirSync(path.dirname(runPath), { recursive: true });
+    fs.writeFileSync(runPath, JSON.stringify({ id: 'run-1', taskId: 'TSK-1' }));
+
+    const response = await readResource('dexteria://runs/TSK-1/run-1');
+
+    expect(response?.result).toMatchObject({ contents: [{ uri: 'dexteria://runs/TSK-1/run-1' }] });
+  });
+
+  it('does not read files outside the project through encoded run ids', async () => {
+    fs.writeFileSync(path.join(root, 'secret.json'), JSON.stringify({ token: 'secret' }));
+    fs.writeFileSync(path.join(root, 'secret.log'), 'secret');
+
+    const response = await readResource(`dexteria://runs/${encodeURIComponent('../../..')}/secret`);
+
+    expect(response?.result).toBeUndefined();
+    expect(response?.error).toBeDefined();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Settings Handlers Tests
+ *
+ * Tests for the forge tokens kept in the global app config.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getForgeToken } from '../settingsHandlers';
+
+// Read by shared.ts at import, before the tests set it
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+    isPackaged: false,
+  },
+  ipcMain: {
+    handle: vi.fn(),
+    on: vi.fn(),
+    removeHandler: vi.fn(),
+  },
+  BrowserWindow: {
+    getAllWindows: vi.fn(() => []),
+  },
+  safeStorage: {
+    isEncryptionAvailable: vi.fn(() => false),
+  },
+}));
+
+describe('getForgeToken', () => {
+  beforeEach(() => {
+    paths.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-settings-'));
+    fs.writeFileSync(path.join(paths.userData, 'dexteria-config.json'), JSON.stringify({
+      hasCompletedSetup: true,
+      forgeTokens: { 'github:api.github.com': 'saved-token' },
+    }));
+    vi.stubEnv('GITHUB_TOKEN', 'env-token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(paths.userData, { recursive: true, force: true });
+  });
+
+  it('uses the token saved for the API host', () => {
+    expect(getForgeToken('github', { host: 'api.github.com', matchesRemote: true })).toBe('saved-token');
+  });
+
+  it('does not send tokens to an API host they were not saved for', () => {
+    expect(getForgeToken('github', { host: 'evil.example.com', matchesRemote: false })).toBeUndefined();
+  });
+
+  it('only uses the environment variable for the origin remote\'s forge', () => {
+    expect(getForgeToken('github', { host: 'git.corp.com', matchesRemote: true })).toBe('env-token');
+    expect(getForgeToken('github', { host: 'git.corp.com', matchesRemote: false })).toBeUndefined();
+  });
+});
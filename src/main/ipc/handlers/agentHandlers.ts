@@ -7,111 +7,31 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import { AgentRuntime } from '../../agent/AgentRuntime';
 import { getRalphEngine } from '../../agent/RalphEngine';
+import { isDirectRunProvider, runTaskDirect, startTaskRun } from '../../agent/TaskExecution';
+import { publishAppEvent } from '../../services/AppEvents';
+import { runAsActor } from '../../services/TaskHistory';
 import {
   hasProject,
   getStore,
   getProjectRoot,
   getOrCreateProvider,
+  createProviderByType,
+  getProviderType,
+  createProviderChain,
   getRuntime,
   setRuntime,
   ClaudeCodeProvider,
-  OpenCodeProvider,
-  CodexProvider,
 } from './shared';
-import type { AgentRun, RunTaskOptions, RalphModeOptions, Task } from '../../../shared/types';
+import { getGitStateManagerInstance } from './gitHandlers';
+import { createDefaultProviderChainSettings } from '../../../shared/schemas';
+import { resolveWorkflow } from '../../../shared/schemas/common';
+import type { AgentRun, ProviderType, RunTaskOptions, RalphModeOptions } from '../../../shared/types';
 
 // Track current running state
 let currentRunningTaskId: string | null = null;
 
-/**
- * Run task directly with ClaudeCodeProvider (simpler flow)
- * Uses same streaming pattern as chat
- */
-async function runTaskWithClaudeCode(
-  provider: ClaudeCodeProvider,
-  task: Task,
-  projectRoot: string,
-  win: BrowserWindow | null
-): Promise<{ success: boolean; content: string; error?: string }> {
-
-  // Helper to send stream updates (same as chat)
-  const sendUpdate = (text: string, done: boolean, cancelled: boolean = false) => {
-    if (win && !win.isDestroyed()) {
-      win.webContents.send('agent:stream-update', {
-        taskId: task.id,
-        taskTitle: task.title,
-        content: text,
-        done,
-        cancelled,
-      });
-    }
-  };
-
-  // Build task prompt
-  const taskPrompt = `## Task to Execute
-
-**Title:** ${task.title}
-**ID:** ${task.id}
-
-**Description:**
-${task.description || 'No description provided.'}
-
-**Acceptance Criteria:**
-${task.acceptanceCriteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}
-
-## Instructions
-
-Please complete this task. When done, summarize what you accomplished.
-`;
-
-  // Accumulate content (declared outside try so catch can access it)
-  let accumulated = '';
-
-  try {
-    // Set working directory to project root
-    provider.setWorkingDirectory(projectRoot);
-
-    // Send full text each time (same as chat)
-    const onChunk = (chunk: string) => {
-      accumulated += chunk;
-      sendUpdate(accumulated, false);
-    };
-
-    // Call complete with streaming - use 'execution' mode for TaskRunner
-    const response = await provider.complete(
-      [{ role: 'user', content: taskPrompt }],
-      undefined,
-      onChunk,
-      'execution'
-    );
-
-    // Use accumulated content or response content
-    const finalContent = accumulated || response.content;
-
-    // Send final update
-    sendUpdate(finalContent, true);
-
-    // Consider success if we got content and no error
-    const success = response.finishReason !== 'error' && finalContent.length > 0;
-
-    return {
-      success,
-      content: finalContent,
-      error: success ? undefined : (response.content || 'No response received'),
-    };
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-
-    // Check if it was cancelled
-    if (errorMsg === 'Cancelled') {
-      sendUpdate(accumulated + '\n\n❌ **CANCELLED**', true, true);
-      return { success: false, content: '', error: 'Cancelled by user' };
-    }
-
-    sendUpdate(`${accumulated}\n\n❌ **Error:** ${errorMsg}`, true);
-    return { success: false, content: '', error: errorMsg };
-  }
-}
+/** Providers that run as CLI agents in the project folder */
+const CLI_PROVIDER_TYPES: ProviderType[] = ['claude-code', 'opencode', 'codex'];
 
 /**
  * Register all agent-related IPC handlers.
@@ -141,88 +61,69 @@ export function registerAgentHandlers(): void {
       return { success: false, run: null, error: 'Task not found' };
     }
 
-    // AUTO-MOVE: Move task to "doing" status before starting
-    if (task.status !== 'doing') {
-      s.moveTask(taskId, 'doing');
-      console.log(`[Agent] Moved task ${taskId} to "doing"`);
-    }
-    s.updateTaskRuntime(taskId, { status: 'running' });
+    // AUTO-MOVE: Move task to the workflow's running column before starting
+    startTaskRun(s, task);
     currentRunningTaskId = taskId;
+    const workflow = resolveWorkflow(s.getBoard());
+
+    // Automated moves run the same Git lifecycle as manual ones (task
+    // branch on start, commit and pull request on success)
+    const gitManager = getGitStateManagerInstance();
+    await runAsActor({ type: 'agent' }, async () => {
+      await gitManager?.applyTaskMove(taskId, task.status, workflow.runningColumn, 'agent');
+    });
 
     // Clear previous failure comments when re-running
     // (They're kept for history but runtime status is updated)
 
     // Get provider
     const provider = getOrCreateProvider();
+    const chainSettings = s.getSettings().providers || createDefaultProviderChainSettings();
 
-    // Use simplified flow for ClaudeCodeProvider
-    if (provider instanceof ClaudeCodeProvider) {
+    // Use simplified flow for ClaudeCodeProvider, unless a fallback chain is configured
+    if (provider instanceof ClaudeCodeProvider && chainSettings.chain.length === 0) {
       console.log('[Agent] Using ClaudeCodeProvider direct flow');
 
-      const result = await runTaskWithClaudeCode(provider, task, projectRoot, win);
-
-      // Create a simple run record
-      const runId = `run-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
-      const run: AgentRun = {
-        id: runId,
-        taskId,
-        mode: options?.mode || 'manual',
-        startedAt: new Date().toISOString(),
-        status: result.success ? 'completed' : 'failed',
-        steps: 1,
-        toolCalls: [],
-        patches: [],
-        commands: [],
-        filesModified: [],
-        completedAt: new Date().toISOString(),
-        summary: result.success ? 'Task completed' : `Failed: ${result.error}`,
-        error: result.error,
-      };
+      const result = await runTaskDirect(s, projectRoot, provider, task, options, (update) => {
+        if (win && !win.isDestroyed()) {
+          win.webContents.send('agent:stream-update', update);
+        }
+        publishAppEvent('agent:stream-update', update);
+      });
 
-      // Update task status based on result
       if (result.success) {
-        s.moveTask(taskId, 'review');
-        s.updateTaskRuntime(taskId, { status: 'done' });
-        console.log(`[Agent] Task ${taskId} completed, moved to "review"`);
-
-        // Add success comment
-        s.addTypedComment(taskId, 'agent', 'dexter', `Task completed.\n\n${result.content.substring(0, 500)}...`, runId);
-      } else if (result.error === 'Cancelled by user') {
-        // Cancelled - move back to backlog or keep in doing
-        s.updateTaskRuntime(taskId, { status: 'idle' });
-        console.log(`[Agent] Task ${taskId} cancelled by user`);
-
-        // Add cancellation comment
-        s.addTypedComment(taskId, 'system', 'system', 'Task execution cancelled by user.', runId);
-      } else {
-        s.updateTaskRuntime(taskId, { status: 'failed' });
-        console.log(`[Agent] Task ${taskId} failed: ${result.error}`);
-
-        // Add failure comment
-        s.addTypedComment(taskId, 'failure', 'dexter', `**Task Failed**\n\n**Run ID:** ${runId}\n\n**Reason:** ${result.error}`, runId);
+        await runAsActor({ type: 'agent', id: result.run?.id }, async () => {
+          await gitManager?.applyTaskMove(taskId, workflow.runningColumn, workflow.successColumn, 'agent');
+        });
       }
 
       currentRunningTaskId = null;
-      return { success: result.success, run, error: result.error };
+      return result;
     }
 
-    // Fallback to AgentRuntime for other providers
+    // Fallback to AgentRuntime for other providers, with retries and failover
     const runtime = new AgentRuntime({
       projectRoot,
       store: s,
-      provider,
+      provider: createProviderChain(chainSettings, provider),
     });
     setRuntime(runtime);
 
     try {
       const result = await runtime.runTask(taskId, options || { mode: 'manual' });
 
-      if (result.success) {
-        s.moveTask(taskId, 'review');
-        s.updateTaskRuntime(taskId, { status: 'done' });
-      } else {
-        s.updateTaskRuntime(taskId, { status: 'failed' });
-      }
+      await runAsActor({ type: 'agent', id: result.run.id }, async () => {
+        if (result.success) {
+          // Parents waiting for subtasks were already sent back by the runtime
+          if (result.task.runtime.status === 'done') {
+            s.moveTask(taskId, workflow.successColumn, undefined, { force: true });
+            s.updateTaskRuntime(taskId, { status: 'done' });
+            await gitManager?.applyTaskMove(taskId, workflow.runningColumn, workflow.successColumn, 'agent');
+          }
+        } else {
+          s.updateTaskRuntime(taskId, { status: 'failed' });
+        }
+      });
 
       currentRunningTaskId = null;
       return {
@@ -231,7 +132,7 @@ export function registerAgentHandlers(): void {
         error: result.error,
       };
     } catch (error) {
-      s.updateTaskRuntime(taskId, { status: 'failed' });
+      runAsActor({ type: 'agent' }, () => s.updateTaskRuntime(taskId, { status: 'failed' }));
       currentRunningTaskId = null;
       throw error;
     }
@@ -315,8 +216,19 @@ export function registerAgentHandlers(): void {
 
     // Set provider if not already set (supports all CLI-based providers)
     const provider = getOrCreateProvider();
-    if (provider instanceof ClaudeCodeProvider || provider instanceof OpenCodeProvider || provider instanceof CodexProvider) {
-      ralph.setProvider(provider);
+    if (isDirectRunProvider(provider)) {
+      // Ralph's agents work on the files themselves, so only CLI providers join its chain
+      const chainSettings = getStore().getSettings().providers || createDefaultProviderChainSettings();
+      const ralphChain = { ...chainSettings, chain: chainSettings.chain.filter(type => CLI_PROVIDER_TYPES.includes(type)) };
+      ralph.setProvider(createProviderChain(ralphChain, provider));
+
+      // Concurrent runs each get their own provider instances and task worktree
+      const providerType = getProviderType(provider);
+      ralph.setProviderFactory(() => {
+        const runProvider = createProviderByType(providerType);
+        return isDirectRunProvider(runProvider) ? createProviderChain(ralphChain, runProvider) : null;
+      });
+      ralph.setGitStateManager(getGitStateManagerInstance());
     }
 
     const result = await ralph.startRalphMode(options);
@@ -0,0 +1,36 @@
+/**
+ * Approval Handlers
+ *
+ * IPC handlers for the human approval gate of agent runs.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import { getApprovalService } from '../../services/ApprovalService';
+import type { ApprovalDecision, ApprovalRequest } from '../../../shared/types';
+
+/**
+ * Register all approval-related IPC handlers
+ */
+export function registerApprovalHandlers(): void {
+  const service = getApprovalService();
+
+  // Push new and answered requests to all windows
+  service.setNotifier((event, request) => {
+    BrowserWindow.getAllWindows().forEach(win => {
+      win.webContents.send(`approval:${event}`, request);
+    });
+  });
+
+  // Answer a pending request
+  ipcMain.handle('approval:respond', async (_, requestId: string, decision: ApprovalDecision): Promise<boolean> => {
+    if (!['approve', 'deny', 'always_allow'].includes(decision)) {
+      throw new Error(`Invalid approval decision: ${decision}`);
+    }
+    return service.respond(requestId, decision);
+  });
+
+  // Get requests waiting for an answer (e.g. after a reload)
+  ipcMain.handle('approval:getPending', async (): Promise<ApprovalRequest[]> => {
+    return service.getPending();
+  });
+}
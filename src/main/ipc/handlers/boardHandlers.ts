@@ -6,7 +6,7 @@
 
 import { ipcMain } from 'electron';
 import { hasProject, getStore } from './shared';
-import type { Board } from '../../../shared/types';
+import type { Board, BoardWorkflow, ColumnConfig, SavedFilter } from '../../../shared/types';
 
 /**
  * Register all board-related IPC handlers.
@@ -21,4 +21,27 @@ export function registerBoardHandlers(): void {
     if (!hasProject()) return;
     getStore().saveBoard(board);
   });
+
+  ipcMain.handle('board:configure', async (
+    _,
+    columns: ColumnConfig[],
+    workflow?: BoardWorkflow,
+    fallbackColumnId?: string
+  ): Promise<Board> => {
+    if (!hasProject()) throw new Error('No project open');
+    return getStore().configureBoard(columns, workflow, fallbackColumnId);
+  });
+
+  ipcMain.handle('board:saveFilter', async (
+    _,
+    filter: Omit<SavedFilter, 'id'> & { id?: string }
+  ): Promise<SavedFilter> => {
+    if (!hasProject()) throw new Error('No project open');
+    return getStore().saveFilter(filter);
+  });
+
+  ipcMain.handle('board:deleteFilter', async (_, filterId: string): Promise<void> => {
+    if (!hasProject()) return;
+    getStore().deleteFilter(filterId);
+  });
 }
@@ -16,7 +16,10 @@ import {
 } from './shared';
 import type { OpenCodeTodo } from '../../agent/providers/OpenCodeProvider';
 import { getPluginManager } from '../../services/PluginManager';
+import { runAsActor } from '../../services/TaskHistory';
 import type { ToolResult } from './types';
+import { resolveWorkflow } from '../../../shared/schemas/common';
+import { filterTasks } from '../../../shared/taskQuery';
 import type {
   Chat,
   ChatMessage,
@@ -95,11 +98,24 @@ function getToolIndicator(toolName: string, status: 'pending' | 'complete', coun
 
 /**
  * Execute a tool call from the agent and return the result.
+ * Task changes made by the tool are attributed to the chat agent.
+ *
+ * @param chatTaskId - Task the chat is about; tasks created without a parent become its subtasks
  */
-export async function executeToolCall(
+export function executeToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  mode: 'planner' | 'agent',
+  chatTaskId?: string
+): Promise<ToolResult> {
+  return runAsActor({ type: 'agent', name: 'Chat' }, () => runToolCall(toolName, args, mode, chatTaskId));
+}
+
+async function runToolCall(
   toolName: string,
   args: Record<string, unknown>,
-  _mode: 'planner' | 'agent' // Mode kept for API compatibility, but execution tools are blocked in chat
+  _mode: 'planner' | 'agent', // Mode kept for API compatibility, but execution tools are blocked in chat
+  chatTaskId?: string
 ): Promise<ToolResult> {
   console.log(`[Tool] executeToolCall called: ${toolName}`, JSON.stringify(args).substring(0, 200));
   console.log(`[Tool] hasProject: ${hasProject()}`);
@@ -125,6 +141,8 @@ export async function executeToolCall(
         const acceptanceCriteria = args.acceptanceCriteria as string[] || ['Task completed'];
         const status = (args.status as TaskStatus) || 'backlog';
         const priority = (args.priority as 'low' | 'medium' | 'high' | 'critical') || 'medium';
+        const parentId = (args.parentId as string | undefined)
+          || (chatTaskId && s.getTask(chatTaskId) ? chatTaskId : undefined);
 
         console.log(`[Tool] Creating task: title="${title}", status="${status}", priority="${priority}"`);
 
@@ -138,6 +156,15 @@ export async function executeToolCall(
           };
         }
 
+        if (parentId && !s.getTask(parentId)) {
+          return {
+            name: toolName,
+            success: false,
+            result: null,
+            error: `Parent task not found: ${parentId}. Use a real task ID from create_task or list_tasks.`,
+          };
+        }
+
         // Create basic task
         const task = s.createTask(title, status);
         console.log(`[Tool] Task created with ID: ${task.id}`);
@@ -147,6 +174,7 @@ export async function executeToolCall(
           description,
           acceptanceCriteria,
           priority,
+          parentId,
           agent: {
             goal: description,
             scope: ['*'],
@@ -163,6 +191,7 @@ export async function executeToolCall(
             title: updatedTask.title,
             status: updatedTask.status,
             priority: updatedTask.priority,
+            parentId: updatedTask.parentId,
             message: `Task created: "${updatedTask.title}"`
           }
         };
@@ -174,9 +203,13 @@ export async function executeToolCall(
 
         if (args.title) patch.title = args.title as string;
         if (args.description) patch.description = args.description as string;
-        if (args.status) patch.status = args.status as TaskStatus;
         if (args.acceptanceCriteria) patch.acceptanceCriteria = args.acceptanceCriteria as string[];
+        if (args.parentId !== undefined) patch.parentId = args.parentId as string | null;
 
+        // Status changes go through the board so column rules apply
+        if (args.status && args.status !== s.getTask(taskId)?.status) {
+          s.moveTask(taskId, args.status as TaskStatus);
+        }
         const task = s.updateTask(taskId, patch);
 
         return {
@@ -197,6 +230,10 @@ export async function executeToolCall(
         if (args.status) {
           tasks = tasks.filter(t => t.status === args.status);
         }
+        if (args.query) {
+          // Invalid queries throw and are reported like any other tool error
+          tasks = filterTasks(tasks, args.query as string, { tasks: s.getTasks(), columns: s.getBoard().columns });
+        }
 
         return {
           name: toolName,
@@ -208,6 +245,10 @@ export async function executeToolCall(
               title: t.title,
               status: t.status,
               priority: t.priority,
+              parentId: t.parentId,
+              tags: t.tags,
+              epic: t.epic?.name,
+              sprint: t.sprint,
             }))
           }
         };
@@ -377,7 +418,8 @@ export async function executeToolCall(
  */
 async function parseAndExecuteInlineTools(
   content: string,
-  mode: 'planner' | 'agent'
+  mode: 'planner' | 'agent',
+  chatTaskId?: string
 ): Promise<{ cleanedContent: string; results: ToolResult[] }> {
   const results: ToolResult[] = [];
   let cleanedContent = content;
@@ -447,7 +489,8 @@ async function parseAndExecuteInlineTools(
           status: taskData.status || 'backlog',
           priority: taskData.priority || 'medium',
           acceptanceCriteria: taskData.acceptanceCriteria || ['Task completed'],
-        }, mode);
+          parentId: taskData.parentId,
+        }, mode, chatTaskId);
 
         results.push(result);
 
@@ -463,7 +506,7 @@ async function parseAndExecuteInlineTools(
     }
     // Standard format: {"tool": "name", "arguments": {...}}
     else if (parsed.arguments) {
-      const result = await executeToolCall(toolName, parsed.arguments as Record<string, unknown>, mode);
+      const result = await executeToolCall(toolName, parsed.arguments as Record<string, unknown>, mode, chatTaskId);
       results.push(result);
 
       const resultText = result.success
@@ -476,7 +519,7 @@ async function parseAndExecuteInlineTools(
     else {
       // Pass the whole parsed object minus 'tool' as arguments
       const { tool: _tool, ...args } = parsed;
-      const result = await executeToolCall(toolName, args, mode);
+      const result = await executeToolCall(toolName, args, mode, chatTaskId);
       results.push(result);
 
       const resultText = result.success
@@ -494,7 +537,11 @@ async function parseAndExecuteInlineTools(
  * Process OpenCode todos and create Dexteria tasks from them.
  * Only creates tasks that don't already exist (based on title match).
  */
-async function processOpenCodeTodos(todos: OpenCodeTodo[], mode: 'planner' | 'agent'): Promise<ToolResult[]> {
+async function processOpenCodeTodos(
+  todos: OpenCodeTodo[],
+  mode: 'planner' | 'agent',
+  chatTaskId?: string
+): Promise<ToolResult[]> {
   const results: ToolResult[] = [];
 
   console.log('[Chat] processOpenCodeTodos called with', todos.length, 'todos');
@@ -536,12 +583,13 @@ async function processOpenCodeTodos(todos: OpenCodeTodo[], mode: 'planner' | 'ag
       continue;
     }
 
-    // Map OpenCode status to Dexteria status
-    let status: 'backlog' | 'todo' | 'doing' | 'review' | 'done' = 'backlog';
+    // Map OpenCode status to the board's workflow columns
+    const workflow = resolveWorkflow(s.getBoard());
+    let status: TaskStatus = 'backlog';
     if (todo.status === 'in_progress') {
-      status = 'doing';
+      status = workflow.runningColumn;
     } else if (todo.status === 'completed') {
-      status = 'done';
+      status = workflow.doneColumn;
     }
 
     console.log(`[Chat] Creating task: "${title}" with status="${status}"`);
@@ -552,7 +600,7 @@ async function processOpenCodeTodos(todos: OpenCodeTodo[], mode: 'planner' | 'ag
       description: '',
       status,
       priority: todo.priority || 'medium',
-    }, mode);
+    }, mode, chatTaskId);
 
     results.push(result);
 
@@ -770,7 +818,7 @@ export function registerChatHandlers(): void {
         }
 
         // Parse and execute inline tool calls from content (JSON blocks)
-        const { cleanedContent, results: inlineResults } = await parseAndExecuteInlineTools(response.content, mode);
+        const { cleanedContent, results: inlineResults } = await parseAndExecuteInlineTools(response.content, mode, chat.taskId);
         allToolResults.push(...inlineResults);
 
         // Process OpenCode todos if any were collected
@@ -780,7 +828,7 @@ export function registerChatHandlers(): void {
           console.log('[Chat] OpenCode collected todos:', collectedTodos.length, JSON.stringify(collectedTodos.slice(0, 2)));
           if (collectedTodos.length > 0) {
             console.log('[Chat] Processing OpenCode todos:', collectedTodos.length);
-            const todoResults = await processOpenCodeTodos(collectedTodos, mode);
+            const todoResults = await processOpenCodeTodos(collectedTodos, mode, chat.taskId);
             allToolResults.push(...todoResults);
 
             // Add summary to content if tasks were created
@@ -804,7 +852,7 @@ export function registerChatHandlers(): void {
           const toolResultsForClaude: string[] = [];
 
           for (const toolCall of structuredToolCalls) {
-            const result = await executeToolCall(toolCall.name, toolCall.arguments, mode);
+            const result = await executeToolCall(toolCall.name, toolCall.arguments, mode, chat.taskId);
             allToolResults.push(result);
             console.log(`[Chat] Tool ${toolCall.name} result:`, result.success ? 'success' : result.error);
 
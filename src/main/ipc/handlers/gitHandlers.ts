@@ -8,6 +8,8 @@ import { ipcMain } from 'electron';
 import { GitService } from '../../services/GitService';
 import { GitStateManager } from '../../services/GitStateManager';
 import { getProjectRoot, getStore } from './shared';
+import { getForgeToken } from './settingsHandlers';
+import { getErrorMessage } from '../../../shared/errors';
 import type {
   GitStatus,
   BranchInfo,
@@ -23,6 +25,8 @@ import type {
   CommitOptions,
   MergeOptions,
   ResolveConflictOptions,
+  ProjectSettings,
+  TaskPullRequest,
 } from '../../../shared/types';
 import { DEFAULT_GIT_CONFIG } from '../../../shared/types';
 
@@ -30,6 +34,9 @@ import { DEFAULT_GIT_CONFIG } from '../../../shared/types';
 let gitService: GitService | null = null;
 let gitStateManager: GitStateManager | null = null;
 
+// Pull request refresh in progress, shared by overlapping requests
+let pullRequestRefresh: Promise<TaskPullRequest[]> | null = null;
+
 /**
  * Get or create GitService for current project.
  */
@@ -52,7 +59,7 @@ function getGitStateManager(): GitStateManager | null {
   if (!root || !store) return null;
 
   if (!gitStateManager) {
-    gitStateManager = new GitStateManager(root, store);
+    gitStateManager = new GitStateManager(root, store, { getForgeToken });
   }
   return gitStateManager;
 }
@@ -83,6 +90,32 @@ export function getGitStateManagerInstance(): GitStateManager | null {
   return getGitStateManager();
 }
 
+/**
+ * Update the tasks whose pull request changed on the forge.
+ *
+ * @returns The changed pull requests
+ */
+async function refreshPullRequests(): Promise<TaskPullRequest[]> {
+  const manager = getGitStateManager();
+  const store = getStore();
+  const config = getGitConfig();
+  if (!manager || !store || !config.pullRequests?.enabled) return [];
+
+  try {
+    const { changed, failed } = await manager.refreshPullRequests(store.getTasks(), config);
+    for (const [taskId, pullRequest] of changed) {
+      store.updateTask(taskId, { pullRequest });
+    }
+    if (failed.length > 0) {
+      console.warn(`[Git] Could not refresh ${failed.length} pull request(s): ${failed.join(', ')}`);
+    }
+    return [...changed.values()];
+  } catch (error) {
+    console.warn('[Git] Could not refresh pull requests:', getErrorMessage(error));
+    return [];
+  }
+}
+
 /**
  * Register all Git IPC handlers.
  */
@@ -515,4 +548,59 @@ export function registerGitHandlers(): void {
   ipcMain.handle('git:getConfig', async (): Promise<GitConfig> => {
     return getGitConfig();
   });
+
+  ipcMain.handle('git:setConfig', async (_event, config: GitConfig): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    const store = getStore();
+    if (!store) {
+      return { success: false, error: 'No project open' };
+    }
+
+    try {
+      store.updateSettings({ git: config } as Partial<ProjectSettings>);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+  });
+
+  // ============================================
+  // Pull Requests
+  // ============================================
+
+  ipcMain.handle('git:openPullRequest', async (_event, taskId: string): Promise<{
+    success: boolean;
+    pullRequest?: TaskPullRequest;
+    error?: string;
+  }> => {
+    const manager = getGitStateManager();
+    const store = getStore();
+    if (!manager || !store) {
+      return { success: false, error: 'No project open' };
+    }
+
+    const task = store.getTask(taskId);
+    if (!task) {
+      return { success: false, error: `Task ${taskId} not found` };
+    }
+
+    const result = await manager.openPullRequest(task, getGitConfig(), 'user');
+    if (result.pullRequest) {
+      store.updateTask(taskId, { pullRequest: result.pullRequest });
+    }
+    return { success: result.success, pullRequest: result.pullRequest, error: result.error };
+  });
+
+  // Update the state of open pull requests, e.g. after they are merged on the
+  // forge. Calls made while a refresh is running share its result.
+  ipcMain.handle('git:refreshPullRequests', (): Promise<TaskPullRequest[]> => {
+    if (!pullRequestRefresh) {
+      pullRequestRefresh = refreshPullRequests().finally(() => {
+        pullRequestRefresh = null;
+      });
+    }
+    return pullRequestRefresh;
+  });
 }
@@ -0,0 +1,56 @@
+/**
+ * Handler Registry
+ *
+ * Records the handlers registered with ipcMain.handle so they can also be
+ * called outside IPC, by the local API server, without duplicating their
+ * logic.
+ */
+
+import { ipcMain, type IpcMainInvokeEvent, type WebContents } from 'electron';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type InvokeHandler = (event: IpcMainInvokeEvent, ...args: any[]) => unknown;
+
+const handlers = new Map<string, InvokeHandler>();
+let recording = false;
+
+/**
+ * Start recording handlers. Call before the handlers are registered.
+ */
+export function recordHandlers(): void {
+  if (recording) return;
+  recording = true;
+
+  const handle = ipcMain.handle.bind(ipcMain);
+  const removeHandler = ipcMain.removeHandler.bind(ipcMain);
+  ipcMain.handle = (channel, listener) => {
+    handlers.set(channel, listener);
+    handle(channel, listener);
+  };
+  ipcMain.removeHandler = (channel) => {
+    handlers.delete(channel);
+    removeHandler(channel);
+  };
+}
+
+/**
+ * Channels with a recorded handler.
+ */
+export function getHandlerChannels(): string[] {
+  return [...handlers.keys()];
+}
+
+/**
+ * Call a recorded handler as if the renderer had invoked it.
+ *
+ * @param sender - Window contents the handler should treat as the caller,
+ *   for handlers that stream updates back to it
+ * @throws Error if no handler is registered for the channel
+ */
+export async function invokeHandler(channel: string, args: unknown[], sender?: WebContents): Promise<unknown> {
+  const handler = handlers.get(channel);
+  if (!handler) {
+    throw new Error(`No handler registered for ${channel}`);
+  }
+  return handler({ sender } as IpcMainInvokeEvent, ...args);
+}
@@ -7,6 +7,7 @@
 import { initializeProjectState, getOrCreateProvider } from './shared';
 import { initThemeService } from '../../services/ThemeService';
 import { initPluginManager } from '../../services/PluginManager';
+import { recordHandlers } from './handlerRegistry';
 
 // Import all domain handlers
 import { registerBoardHandlers } from './boardHandlers';
@@ -16,7 +17,7 @@ import { registerAgentHandlers } from './agentHandlers';
 import { registerRunLogHandlers } from './runLogHandlers';
 import { registerContextHandlers } from './contextHandlers';
 import { registerChatHandlers } from './chatHandlers';
-import { registerSettingsHandlers } from './settingsHandlers';
+import { registerSettingsHandlers, startConfiguredApiServer } from './settingsHandlers';
 import { registerProjectHandlers } from './projectHandlers';
 import { registerThemeHandlers } from './themeHandlers';
 import { registerPluginHandlers } from './pluginHandlers';
@@ -28,6 +29,7 @@ import { registerUpdateHandlers } from './updateHandlers';
 import { registerSkillHandlers } from './skillHandlers';
 import { registerInterviewHandlers } from './interviewHandlers';
 import { registerTemplateHandlers } from './templateHandlers';
+import { registerApprovalHandlers } from './approvalHandlers';
 
 // Re-export shared utilities for external use
 export { getProjectRoot } from './shared';
@@ -65,6 +67,9 @@ export async function initializeIpcHandlers(root?: string): Promise<void> {
     getOrCreateProvider();
   }
 
+  // Keep the handlers so the local API server can call them too
+  recordHandlers();
+
   // Register all domain handlers (always register, even without project)
   registerBoardHandlers();
   registerTaskHandlers();
@@ -85,4 +90,8 @@ export async function initializeIpcHandlers(root?: string): Promise<void> {
   registerSkillHandlers();
   registerInterviewHandlers();
   registerTemplateHandlers();
+  registerApprovalHandlers();
+
+  // Serve the handlers over HTTP if the local API is enabled
+  await startConfiguredApiServer();
 }
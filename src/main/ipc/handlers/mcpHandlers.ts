@@ -0,0 +1,491 @@
+/**
+ * MCP Handlers
+ *
+ * Serves a project's board to external coding agents over the Model Context
+ * Protocol. Starting the app executable with `--mcp <project>` (e.g.
+ * `/path/to/Dexteria --mcp /path/to/project`) runs it headless with stdin and
+ * stdout as the transport (see McpServer). The `dexteria` bin is the
+ * separate headless CLI and does not serve MCP.
+ *
+ * Tools mirror AGENT_TOOLS. Task changes go through the task IPC handlers,
+ * so plugin task hooks fire as they do for the renderer; file and command
+ * tools go through RepoTools and the Runner, so the project policy applies.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { initStore } from '../../services/LocalKanbanStore';
+import { initPluginManager } from '../../services/PluginManager';
+import type { PolicyGuard } from '../../services/PolicyGuard';
+import { McpServer, type McpResource, type McpToolDefinition, type McpToolResult } from '../../services/McpServer';
+import { runAsActor } from '../../services/TaskHistory';
+import { AGENT_TOOLS } from '../../agent/AgentProvider';
+import { RepoTools } from '../../agent/tools/RepoTools';
+import { Runner } from '../../agent/tools/Runner';
+import { getRunner, getStore, setProjectRoot, setRunner, setStore } from './shared';
+import { recordHandlers, invokeHandler } from './handlerRegistry';
+import { createTaskWithHooks, registerTaskHandlers } from './taskHandlers';
+import { listAllRuns } from './runLogHandlers';
+import { LOCAL_KANBAN_PATHS, createRunId } from '../../../shared/schemas';
+import { getSubtasks, isTerminalStatus, resolveWorkflow } from '../../../shared/schemas/common';
+import { filterTasks } from '../../../shared/taskQuery';
+import { ConfigurationError, TaskNotFoundError } from '../../../shared/errors';
+import type { AcceptanceCriterionResult, Task, TaskCreateInput, TaskPatch, TaskStatus } from '../../../shared/types';
+
+/** AGENT_TOOLS offered to external agents */
+const MCP_TOOL_NAMES = [
+  'list_files', 'read_file', 'search', 'write_file', 'apply_patch', 'run_command',
+  'create_task', 'update_task', 'list_tasks', 'task_complete', 'task_blocked', 'task_failed',
+];
+
+/** Tools that act on the task being worked on; outside a run the agent names it */
+const TASK_SCOPED_TOOLS = new Set(['run_command', 'task_complete', 'task_blocked', 'task_failed']);
+
+// Same threshold as AgentRuntime for confirming large overwrites
+const LARGE_FILE_BYTES = 100 * 1024;
+
+const MCP_INSTRUCTIONS =
+  'Dexteria Kanban board of this project. Read dexteria://board and dexteria://tasks/{taskId} for tasks, ' +
+  'their acceptance criteria and comments, and dexteria://project/context for the project context. ' +
+  'Use list_tasks and create_task/update_task to plan, and task_complete, task_blocked or task_failed ' +
+  'to report on the task you worked on. File and command tools follow the project policy; ' +
+  'operations that need confirmation in Dexteria are refused.';
+
+const RUN_URI = /^dexteria:\/\/runs\/([^/]+)\/([^/]+)$/;
+
+/** Task and run IDs, which become file names; anything else could point outside .local-kanban */
+const RESOURCE_ID = /^[\w-]+$/;
+const TASK_URI = /^dexteria:\/\/tasks\/([^/]+)$/;
+
+function getMcpTools(): McpToolDefinition[] {
+  return AGENT_TOOLS
+    .filter(tool => MCP_TOOL_NAMES.includes(tool.name))
+    .map((tool) => {
+      const schema = tool.parameters as McpToolDefinition['inputSchema'];
+      if (!TASK_SCOPED_TOOLS.has(tool.name)) {
+        return { name: tool.name, description: tool.description, inputSchema: schema };
+      }
+      return {
+        name: tool.name,
+        description: tool.description,
+        inputSchema: {
+          ...schema,
+          properties: {
+            taskId: { type: 'string', description: 'ID of the task being worked on (from list_tasks)' },
+            ...schema.properties,
+          },
+          required: ['taskId', ...(schema.required ?? [])],
+        },
+      };
+    });
+}
+
+function json(value: unknown): McpToolResult {
+  return { text: JSON.stringify(value, null, 2) };
+}
+
+function fail(text: string): McpToolResult {
+  return { text, isError: true };
+}
+
+function readJson(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a task an agent may work on.
+ *
+ * @throws TaskNotFoundError if there is no such task
+ * @throws Error for Human-Only tasks
+ */
+function getAgentTask(taskId: unknown): Task {
+  const task = typeof taskId === 'string' ? getStore().getTask(taskId) : null;
+  if (!task) {
+    throw new TaskNotFoundError(String(taskId));
+  }
+  if (task.humanOnly) {
+    throw new Error(`Task ${task.id} is Human-Only and can only be changed by a human`);
+  }
+  return task;
+}
+
+/**
+ * Move a task through the tasks:move handler.
+ *
+ * @returns The task after the move, which plugins may have cancelled or redirected
+ */
+async function moveTask(taskId: string, status: TaskStatus): Promise<Task> {
+  await invokeHandler('tasks:move', [taskId, status]);
+  return getStore().getTask(taskId)!;
+}
+
+/**
+ * Check the file and command tools against the policy's confirmation rules.
+ * Nobody can confirm from a headless session, so those operations are refused.
+ *
+ * @returns The refusal, or null if the call may run
+ */
+function checkConfirmation(policyGuard: PolicyGuard, name: string, args: Record<string, unknown>): string | null {
+  let target: string;
+  let rule: string | null = null;
+
+  switch (name) {
+    case 'run_command':
+      target = String(args.cmd);
+      rule = policyGuard.getCommandConfirmationRule(target);
+      break;
+    case 'write_file': {
+      target = String(args.path);
+      const fullPath = policyGuard.getAbsolutePath(target);
+      const exists = fs.existsSync(fullPath) && fs.statSync(fullPath).isFile();
+      const operation = !exists ? 'create' : fs.statSync(fullPath).size > LARGE_FILE_BYTES ? 'overwrite_large_file' : 'write';
+      rule = policyGuard.getPathConfirmationRule(target, operation);
+      break;
+    }
+    case 'apply_patch':
+      target = String(args.path);
+      rule = policyGuard.getPathConfirmationRule(target, 'write');
+      break;
+    default:
+      return null;
+  }
+
+  return rule
+    ? `"${target}" requires confirmation in Dexteria (rule "${rule}") and cannot run over MCP. Ask the user to do it.`
+    : null;
+}
+
+async function runMcpTool(
+  repoTools: RepoTools,
+  name: string,
+  args: Record<string, unknown>,
+  author: string
+): Promise<McpToolResult> {
+  const store = getStore();
+
+  const refusal = checkConfirmation(repoTools.getPolicyGuard(), name, args);
+  if (refusal) return fail(refusal);
+
+  switch (name) {
+    case 'list_files': {
+      const result = repoTools.listFiles({ glob: String(args.glob), maxResults: Number(args.maxResults) || 100 });
+      return result.success ? { text: result.data?.join('\n') || 'No files found' } : fail(result.error!);
+    }
+
+    case 'read_file': {
+      const result = repoTools.readFile({ path: String(args.path) });
+      return result.success ? { text: result.data ?? '' } : fail(result.error!);
+    }
+
+    case 'search': {
+      const result = repoTools.search({
+        query: String(args.query),
+        glob: args.glob ? String(args.glob) : undefined,
+        maxResults: Number(args.maxResults) || 50,
+      });
+      return result.success
+        ? { text: result.data?.map(r => `${r.path}:${r.line}: ${r.content}`).join('\n') || 'No matches' }
+        : fail(result.error!);
+    }
+
+    case 'write_file': {
+      const result = repoTools.writeFile({ path: String(args.path), content: String(args.content) });
+      return result.success ? { text: `Wrote ${args.path}` } : fail(result.error!);
+    }
+
+    case 'apply_patch': {
+      const result = repoTools.applyPatch({ path: String(args.path), unifiedDiff: String(args.unifiedDiff) });
+      return result.success
+        ? { text: `Patch applied: +${result.data?.linesAdded} -${result.data?.linesRemoved}` }
+        : fail(result.error!);
+    }
+
+    case 'run_command': {
+      const task = getAgentTask(args.taskId);
+      const runner = getRunner()!;
+      const runId = createRunId();
+      const result = await runner.run({
+        cmd: String(args.cmd),
+        cwd: args.cwd ? String(args.cwd) : undefined,
+        timeoutSec: Number(args.timeoutSec) || 120,
+        taskId: task.id,
+        runId,
+      });
+      if (result.error && !result.logPath) return fail(result.error);
+
+      const logTail = runner.tailRunLog(task.id, runId, 30) || '';
+      return result.success
+        ? { text: `Command succeeded (exit code ${result.exitCode}, run ${runId}):\n${logTail}` }
+        : fail(`Command failed (exit code ${result.exitCode}, timedOut: ${result.timedOut}, run ${runId}):\n${logTail}`);
+    }
+
+    case 'create_task': {
+      const title = typeof args.title === 'string' ? args.title.trim() : '';
+      if (!title) return fail('Task title cannot be empty');
+
+      const parentId = typeof args.parentId === 'string' && args.parentId ? args.parentId : undefined;
+      if (parentId && !store.getTask(parentId)) {
+        return fail(`Parent task not found: ${parentId}. Use a real task ID from create_task or list_tasks.`);
+      }
+
+      const description = typeof args.description === 'string' ? args.description : '';
+      const acceptanceCriteria = (args.acceptanceCriteria as string[]) || ['Task completed'];
+      const input: TaskCreateInput = {
+        title,
+        description,
+        acceptanceCriteria,
+        status: (args.status as TaskStatus) || resolveWorkflow(store.getBoard()).ralphSourceColumns[0],
+        epic: args.epic as TaskCreateInput['epic'],
+        sprint: args.sprint as string | undefined,
+      };
+      const created = await createTaskWithHooks(input);
+      if (!created) return fail('Task creation was cancelled by a plugin');
+
+      // Fields task creation does not take are set through the update hooks
+      const patch: TaskPatch = {
+        agent: { goal: description, scope: ['*'], definitionOfDone: acceptanceCriteria },
+      };
+      if (parentId) patch.parentId = parentId;
+      if (typeof args.humanOnly === 'boolean') patch.humanOnly = args.humanOnly;
+      if (typeof args.aiReviewable === 'boolean') patch.aiReviewable = args.aiReviewable;
+      if (typeof args.reviewCriteria === 'string') patch.reviewCriteria = args.reviewCriteria;
+      const task = (await invokeHandler('tasks:update', [created.id, patch]) as Task | null) ?? created;
+
+      return json({ taskId: task.id, title: task.title, status: task.status, parentId: task.parentId });
+    }
+
+    case 'update_task': {
+      let task = getAgentTask(args.taskId);
+
+      const patch: TaskPatch = {};
+      if (typeof args.title === 'string') patch.title = args.title;
+      if (typeof args.description === 'string') patch.description = args.description;
+      if (Array.isArray(args.acceptanceCriteria)) patch.acceptanceCriteria = args.acceptanceCriteria as string[];
+      if (args.parentId !== undefined) patch.parentId = args.parentId as string | null;
+      if (args.epic !== undefined) patch.epic = args.epic as TaskPatch['epic'];
+      if (args.sprint !== undefined) patch.sprint = args.sprint as TaskPatch['sprint'];
+      if (typeof args.humanOnly === 'boolean') patch.humanOnly = args.humanOnly;
+      if (typeof args.aiReviewable === 'boolean') patch.aiReviewable = args.aiReviewable;
+      if (typeof args.reviewCriteria === 'string') patch.reviewCriteria = args.reviewCriteria;
+
+      if (Object.keys(patch).length > 0) {
+        const updated = await invokeHandler('tasks:update', [task.id, patch]) as Task | null;
+        if (!updated) return fail('Task update was cancelled by a plugin');
+        task = updated;
+      }
+
+      // Status changes go through the board so column rules apply
+      if (typeof args.status === 'string' && args.status !== task.status) {
+        task = await moveTask(task.id, args.status);
+        if (task.status !== args.status) {
+          return fail(`Move to ${args.status} was cancelled by a plugin; the task is in ${task.status}`);
+        }
+      }
+
+      return json({ taskId: task.id, title: task.title, status: task.status });
+    }
+
+    case 'list_tasks': {
+      let tasks = store.getTasks();
+      if (args.status) {
+        tasks = tasks.filter(t => t.status === args.status);
+      }
+      if (args.query) {
+        tasks = filterTasks(tasks, String(args.query), { tasks: store.getTasks(), columns: store.getBoard().columns });
+      }
+
+      return json({
+        count: tasks.length,
+        tasks: tasks.map(t => ({
+          id: t.id,
+          title: t.title,
+          status: t.status,
+          priority: t.priority,
+          parentId: t.parentId,
+          humanOnly: t.humanOnly || undefined,
+          tags: t.tags,
+          epic: t.epic?.name,
+          sprint: t.sprint,
+        })),
+      });
+    }
+
+    case 'task_complete': {
+      const task = getAgentTask(args.taskId);
+      const acceptanceResults = (args.acceptanceResults as AcceptanceCriterionResult[]) || [];
+      if (!acceptanceResults.every(r => r.passed)) {
+        return fail('Task completion rejected: not all criteria passed. Fix them, or call task_failed.');
+      }
+
+      // A parent is only done once its subtasks are
+      const board = store.getBoard();
+      const openSubtasks = getSubtasks(store.getTasks(), task.id)
+        .filter(subtask => !isTerminalStatus(subtask.status, board.columns));
+      if (openSubtasks.length > 0) {
+        return fail(`Waiting for subtasks before this task can be done: ${openSubtasks.map(subtask => subtask.id).join(', ')}`);
+      }
+
+      const doneColumn = resolveWorkflow(board).doneColumn;
+      const moved = await moveTask(task.id, doneColumn);
+      if (moved.status !== doneColumn) {
+        return fail(`Move to ${doneColumn} was cancelled by a plugin; the task is in ${moved.status}`);
+      }
+
+      store.updateTaskRuntime(task.id, { status: 'done' });
+      store.addTypedComment(
+        task.id,
+        'agent',
+        author,
+        `Task completed successfully.\n\n**Summary:** ${args.summary}\n\n**Acceptance Results:**\n${acceptanceResults.map(r => `- [${r.passed ? '✓' : '✗'}] ${r.criterion}: ${r.evidence}`).join('\n')}`
+      );
+      return { text: `Task ${task.id} moved to ${doneColumn}` };
+    }
+
+    case 'task_blocked': {
+      const task = getAgentTask(args.taskId);
+      store.updateTaskRuntime(task.id, { status: 'blocked' });
+      store.addTypedComment(
+        task.id,
+        'failure',
+        author,
+        `**Task Blocked**\n\n**Reason:** ${args.reason}\n\n**Question:** ${args.question}\n\n*Please add an instruction comment to help me proceed.*`
+      );
+      return { text: `Task ${task.id} marked as blocked` };
+    }
+
+    case 'task_failed': {
+      const task = getAgentTask(args.taskId);
+      let comment = `**Task Failed**\n\n**Reason:** ${args.reason}`;
+      if (args.nextSteps) {
+        comment += `\n\n**Suggested Next Steps:** ${args.nextSteps}`;
+      }
+      store.updateTaskRuntime(task.id, { status: 'failed' });
+      store.addTypedComment(task.id, 'failure', author, comment);
+      return { text: `Task ${task.id} marked as failed` };
+    }
+
+    default:
+      return fail(`Unknown tool: ${name}`);
+  }
+}
+
+function listResources(): McpResource[] {
+  const board: McpResource[] = [
+    { uri: 'dexteria://board', name: 'Board', description: 'Columns and task summaries', mimeType: 'application/json' },
+    { uri: 'dexteria://project/context', name: 'Project context', description: 'Project description, goals and constraints', mimeType: 'application/json' },
+    { uri: 'dexteria://runs', name: 'Run history', description: 'Agent runs of all tasks, newest first', mimeType: 'application/json' },
+  ];
+  const tasks = getStore().getTasks().map(task => ({
+    uri: `dexteria://tasks/${task.id}`,
+    name: `${task.id}: ${task.title}`,
+    description: 'Task with its acceptance criteria and comments',
+    mimeType: 'application/json',
+  }));
+  return [...board, ...tasks];
+}
+
+function readResource(uri: string): unknown {
+  const store = getStore();
+
+  if (uri === 'dexteria://board') {
+    const board = store.getBoard();
+    return {
+      columns: board.columns.map(({ id, title, taskIds }) => ({ id, title, taskIds })),
+      tasks: store.getTasks().map(t => ({ id: t.id, title: t.title, status: t.status, priority: t.priority, parentId: t.parentId })),
+    };
+  }
+  if (uri === 'dexteria://project/context') {
+    return store.getProjectContext();
+  }
+  if (uri === 'dexteria://runs') {
+    return listAllRuns();
+  }
+
+  const taskMatch = TASK_URI.exec(uri);
+  if (taskMatch) {
+    return store.getTask(decodeURIComponent(taskMatch[1])) ?? undefined;
+  }
+
+  // A run's record, with the output of the command run under its ID
+  const runMatch = RUN_URI.exec(uri);
+  if (runMatch) {
+    const [taskId, runId] = runMatch.slice(1).map(decodeURIComponent);
+    if (!RESOURCE_ID.test(taskId) || !RESOURCE_ID.test(runId)) return undefined;
+    const run = readJson(store.getAgentRunPath(taskId, runId)) ?? store.listRuns(taskId).find(r => r.id === runId) ?? null;
+    const logPath = store.getCommandRunLogPath(taskId, runId);
+    const log = fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf-8') : null;
+    if (!run && log === null) return undefined;
+    return { taskId, runId, run, command: readJson(store.getCommandRunMetadataPath(taskId, runId)), log };
+  }
+
+  return undefined;
+}
+
+/**
+ * Create the MCP server for the open project.
+ */
+export function createBoardMcpServer(projectRoot: string): McpServer {
+  const repoTools = new RepoTools(projectRoot, getStore().getPolicy());
+
+  const server: McpServer = new McpServer({
+    name: 'dexteria',
+    version: app.getVersion(),
+    instructions: MCP_INSTRUCTIONS,
+    tools: getMcpTools,
+    // Changes are attributed to the client, e.g. "claude-code"
+    callTool: (name, args) => {
+      const author = server.clientName ?? 'MCP';
+      return runAsActor({ type: 'agent', name: author }, () => runMcpTool(repoTools, name, args, author));
+    },
+    resources: listResources,
+    resourceTemplates: () => [
+      { uriTemplate: 'dexteria://tasks/{taskId}', name: 'Task', description: 'Task with its acceptance criteria and comments', mimeType: 'application/json' },
+      { uriTemplate: 'dexteria://runs/{taskId}/{runId}', name: 'Run', description: 'Run record and command output', mimeType: 'application/json' },
+    ],
+    readResource: async (uri) => {
+      const contents = readResource(uri);
+      return contents === undefined ? null : { uri, mimeType: 'application/json', text: JSON.stringify(contents, null, 2) };
+    },
+  });
+  return server;
+}
+
+/**
+ * Serve the project at `projectRoot` over stdio until stdin closes. Opens
+ * the project without the desktop services (scheduler, Ralph, providers),
+ * which belong to the app window.
+ *
+ * @throws ConfigurationError if the directory is not a Dexteria project
+ */
+export async function serveMcp(projectRoot: string): Promise<void> {
+  // stdout carries the protocol
+  console.log = console.info = console.warn = console.debug = console.error;
+
+  if (!fs.existsSync(path.join(projectRoot, LOCAL_KANBAN_PATHS.root))) {
+    throw new ConfigurationError(`Not a Dexteria project: ${projectRoot}`, 'project');
+  }
+
+  const pluginManager = initPluginManager();
+  await pluginManager.init();
+
+  const store = initStore(projectRoot);
+  setProjectRoot(projectRoot);
+  setStore(store);
+  setRunner(new Runner(projectRoot, store.getPolicy(), store));
+
+  // Task tools call the task handlers, so their hooks and board rules apply
+  recordHandlers();
+  registerTaskHandlers();
+
+  console.log(`[MCP] Serving ${projectRoot}`);
+  try {
+    await createBoardMcpServer(projectRoot).listen(process.stdin, process.stdout);
+  } finally {
+    setStore(null);
+  }
+}
@@ -11,6 +11,10 @@ import { initStore } from '../../services/LocalKanbanStore';
 import { Runner } from '../../agent/tools/Runner';
 import { initRalphEngine } from '../../agent/RalphEngine';
 import { analyzeProject } from '../../services/ProjectAnalyzer';
+import { notifyRalphTaskComplete } from '../../services/NotificationService';
+import { initTemplateService } from '../../services/TemplateService';
+import { startTaskScheduler, stopTaskScheduler } from '../../services/TaskScheduler';
+import { setTemplateProjectRoot } from './templateHandlers';
 import {
   getProjectRoot,
   setProjectRoot,
@@ -21,6 +25,7 @@ import {
   addToRecentProjects,
   ClaudeCodeProvider,
   setAgentProvider,
+  getStore,
 } from './shared';
 import {
   startRun,
@@ -31,7 +36,17 @@ import {
   getAllProcessStatus,
   setMainWindow as setProcessManagerWindow,
 } from '../../services/ProjectProcessManager';
-import type { ProjectProcessStatus, ProjectRunResult, ProjectProcessType, ProjectContext } from '../../../shared/types';
+import { ProjectArchiveService, PROJECT_ARCHIVE_EXTENSION } from '../../services/ProjectArchiveService';
+import type {
+  ProjectProcessStatus,
+  ProjectRunResult,
+  ProjectProcessType,
+  ProjectContext,
+  ProjectArchiveManifest,
+  ProjectExportOptions,
+  ProjectImportOptions,
+  ProjectImportResult,
+} from '../../../shared/types';
 
 /**
  * Open a project at the given path.
@@ -62,12 +77,21 @@ async function openProject(projectPath: string, mainWindow: BrowserWindow | null
     setRunner(runner);
 
     const agentProvider = getOrCreateProvider();
-    initRalphEngine({
+    const ralph = initRalphEngine({
       projectRoot: projectPath,
       store,
       provider: agentProvider instanceof ClaudeCodeProvider ? agentProvider : undefined,
     });
 
+    // Play notification sound and set badge when Ralph completes a task
+    ralph.on((event) => {
+      if (event.type === 'task_complete') notifyRalphTaskComplete();
+    });
+
+    // Create tasks from recurring templates, catching up on missed occurrences
+    setTemplateProjectRoot(projectPath);
+    startTaskScheduler(store, await initTemplateService(projectPath));
+
     // Note: Theme and Plugin services are now global (stored in AppData)
     // They are initialized once at app startup, not per-project
 
@@ -262,6 +286,7 @@ export function registerProjectHandlers(): void {
     const win = BrowserWindow.fromWebContents(event.sender);
 
     // Clear project state
+    stopTaskScheduler();
     setStore(null);
     setProjectRoot(null);
     setRunner(null);
@@ -286,6 +311,81 @@ export function registerProjectHandlers(): void {
     return projects.filter(p => fs.existsSync(p.path));
   });
 
+  // ============================================
+  // Project Archive
+  // ============================================
+
+  // Export the project to a .dexteria archive via save dialog
+  ipcMain.handle('project:exportArchive', async (event, options: ProjectExportOptions = {}): Promise<{ success: boolean; filePath?: string; manifest?: ProjectArchiveManifest; error?: string }> => {
+    const projectRoot = getProjectRoot();
+    if (!projectRoot) {
+      return { success: false, error: 'No project open' };
+    }
+
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showSaveDialog(win!, {
+      title: 'Export Project',
+      defaultPath: `${path.basename(projectRoot)}.${PROJECT_ARCHIVE_EXTENSION}`,
+      filters: [{ name: 'Dexteria Project', extensions: [PROJECT_ARCHIVE_EXTENSION] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: 'Cancelled' };
+    }
+
+    try {
+      const service = new ProjectArchiveService(projectRoot, getStore(), app.getVersion());
+      const manifest = await service.exportProject(result.filePath, options);
+      return { success: true, filePath: result.filePath, manifest };
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Pick a .dexteria archive and read its manifest, to preview before importing
+  ipcMain.handle('project:selectArchive', async (event): Promise<{ success: boolean; filePath?: string; manifest?: ProjectArchiveManifest; error?: string }> => {
+    const projectRoot = getProjectRoot();
+    if (!projectRoot) {
+      return { success: false, error: 'No project open' };
+    }
+
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(win!, {
+      title: 'Import Project',
+      properties: ['openFile'],
+      filters: [{ name: 'Dexteria Project', extensions: [PROJECT_ARCHIVE_EXTENSION] }],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, error: 'Cancelled' };
+    }
+
+    try {
+      const filePath = result.filePaths[0];
+      const manifest = new ProjectArchiveService(projectRoot, getStore()).readManifest(filePath);
+      return { success: true, filePath, manifest };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Import a .dexteria archive into the current project
+  ipcMain.handle('project:importArchive', async (_, filePath: string, options: ProjectImportOptions): Promise<{ success: boolean; result?: ProjectImportResult; error?: string }> => {
+    const projectRoot = getProjectRoot();
+    if (!projectRoot) {
+      return { success: false, error: 'No project open' };
+    }
+
+    try {
+      const result = await new ProjectArchiveService(projectRoot, getStore()).importProject(filePath, options);
+      return { success: true, result };
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
   // ============================================
   // Project Process Management
   // ============================================
@@ -4,76 +4,26 @@
  * IPC handlers for agent run log operations.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
 import { ipcMain } from 'electron';
-import { getRunner, getProjectRoot } from './shared';
-import type { AgentRun } from '../../../shared/types';
-
-/**
- * List all runs for a specific task.
- * Reads directly from .local-kanban/agent-runs/<taskId>/
- */
-function listRunsForTask(projectRoot: string, taskId: string): AgentRun[] {
-  const runDir = path.join(projectRoot, '.local-kanban', 'agent-runs', taskId);
-
-  if (!fs.existsSync(runDir)) {
-    return [];
-  }
-
-  const files = fs.readdirSync(runDir).filter(f => f.endsWith('.json'));
-  const runs: AgentRun[] = [];
-
-  for (const file of files) {
-    try {
-      const filePath = path.join(runDir, file);
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const run = JSON.parse(content) as AgentRun;
-      runs.push(run);
-    } catch (err) {
-      console.error(`Failed to parse run file ${file}:`, err);
-    }
-  }
-
-  // Sort by start time descending (most recent first)
-  runs.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
-
-  return runs;
-}
+import { getRunner, getProjectRoot, getStore, hasProject } from './shared';
+import { CheckpointService } from '../../services/CheckpointService';
+import type { AgentRun, RunCheckpoint, RollbackResult } from '../../../shared/types';
 
 /**
  * List all runs across all tasks.
- * Returns runs grouped by taskId.
+ * Returns runs grouped by taskId, most recent first.
  */
-function listAllRuns(projectRoot: string): { taskId: string; runs: AgentRun[] }[] {
-  const agentRunsDir = path.join(projectRoot, '.local-kanban', 'agent-runs');
-
-  if (!fs.existsSync(agentRunsDir)) {
-    return [];
-  }
-
-  const taskDirs = fs.readdirSync(agentRunsDir).filter(d => {
-    const stat = fs.statSync(path.join(agentRunsDir, d));
-    return stat.isDirectory();
-  });
-
-  const result: { taskId: string; runs: AgentRun[] }[] = [];
-
-  for (const taskId of taskDirs) {
-    const runs = listRunsForTask(projectRoot, taskId);
-    if (runs.length > 0) {
-      result.push({ taskId, runs });
-    }
+export function listAllRuns(): { taskId: string; runs: AgentRun[] }[] {
+  const result = new Map<string, AgentRun[]>();
+
+  // Runs come newest first, so groups are ordered by their most recent run
+  for (const run of getStore().listRuns()) {
+    const runs = result.get(run.taskId) ?? [];
+    runs.push(run);
+    result.set(run.taskId, runs);
   }
 
-  // Sort by most recent run across all tasks
-  result.sort((a, b) => {
-    const aLatest = a.runs[0]?.startedAt || '';
-    const bLatest = b.runs[0]?.startedAt || '';
-    return new Date(bLatest).getTime() - new Date(aLatest).getTime();
-  });
-
-  return result;
+  return Array.from(result, ([taskId, runs]) => ({ taskId, runs }));
 }
 
 /**
@@ -94,15 +44,38 @@ export function registerRunLogHandlers(): void {
 
   // List all runs for a specific task
   ipcMain.handle('runs:list', async (_, taskId: string): Promise<AgentRun[]> => {
-    const projectRoot = getProjectRoot();
-    if (!projectRoot) return [];
-    return listRunsForTask(projectRoot, taskId);
+    if (!hasProject()) return [];
+    return getStore().listRuns(taskId);
   });
 
   // List all runs across all tasks
   ipcMain.handle('runs:listAll', async (): Promise<{ taskId: string; runs: AgentRun[] }[]> => {
+    if (!hasProject()) return [];
+    return listAllRuns();
+  });
+
+  // Get the file checkpoint of a run (null if it changed no files)
+  ipcMain.handle('runs:getCheckpoint', async (_, taskId: string, runId: string): Promise<RunCheckpoint | null> => {
     const projectRoot = getProjectRoot();
-    if (!projectRoot) return [];
-    return listAllRuns(projectRoot);
+    if (!projectRoot) return null;
+    return new CheckpointService(projectRoot, getStore()).getCheckpoint(taskId, runId);
+  });
+
+  // Roll back all files changed by a run
+  ipcMain.handle('runs:rollback', async (_, taskId: string, runId: string): Promise<RollbackResult> => {
+    const projectRoot = getProjectRoot();
+    if (!projectRoot) {
+      return { success: false, restored: [], conflicts: [], error: 'No project open' };
+    }
+    return new CheckpointService(projectRoot, getStore()).rollbackRun(taskId, runId);
+  });
+
+  // Roll back a single file changed by a run
+  ipcMain.handle('runs:rollbackFile', async (_, taskId: string, runId: string, filePath: string): Promise<RollbackResult> => {
+    const projectRoot = getProjectRoot();
+    if (!projectRoot) {
+      return { success: false, restored: [], conflicts: [], error: 'No project open' };
+    }
+    return new CheckpointService(projectRoot, getStore()).rollbackFile(taskId, runId, filePath);
   });
 }
@@ -4,7 +4,7 @@
  * IPC handlers for application settings and provider configuration.
  */
 
-import { app, ipcMain } from 'electron';
+import { app, ipcMain, BrowserWindow, safeStorage } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import {
@@ -18,14 +18,32 @@ import {
   ClaudeCodeProvider,
   CodexProvider,
   AnthropicProvider,
+  OpenAICompatibleProvider,
   MockAgentProvider,
 } from './shared';
 import { OpenCodeInstaller } from '../../services/OpenCodeInstaller';
 import { playPresetSoundTest } from '../../services/NotificationService';
 import type { NotificationSound, CustomTheme } from '../../../shared/types';
 import { detectProjectCommands, getEffectiveCommand } from '../../services/ProjectCommandDetector';
+import { createApiToken, DEFAULT_API_PORT, getApiServer, startApiServer, stopApiServer } from '../../services/ApiServer';
+import { getHandlerChannels, invokeHandler } from './handlerRegistry';
+import { getMcpClients } from '../../services/McpClient';
+import { GitService } from '../../services/GitService';
+import { getForgeApiHost, type ForgeApiHost } from '../../services/ForgeAdapters';
 import type { ProviderType } from './types';
-import type { ProjectSettings, DetectedCommands } from '../../../shared/types';
+import type {
+  ProjectSettings,
+  DetectedCommands,
+  OpenAICompatibleSettings,
+  ApiServerSettings,
+  ApiServerStatus,
+  McpServerStatus,
+  ForgeType,
+  ForgeTokenStatus,
+  PullRequestConfig,
+  StorageBackendType,
+  StorageInfo,
+} from '../../../shared/types';
 
 /**
  * Get the path to the assets/themes folder
@@ -47,6 +65,13 @@ interface GlobalAppConfig {
   wantsCodeViewing?: boolean;
   vscodePreferenceSetAt?: string;
   selectedProvider?: ProviderType;
+  openAICompatible?: OpenAICompatibleSettings;
+  apiServer?: ApiServerSettings;
+  /**
+   * Forge API tokens by `<forge>:<API host>`, kept out of project files
+   * (encrypted when the OS allows)
+   */
+  forgeTokens?: Record<string, string>;
 }
 
 /**
@@ -84,6 +109,135 @@ function writeGlobalConfig(config: GlobalAppConfig): void {
   }
 }
 
+// ============================================
+// Local API Server
+// ============================================
+
+/** IPC channels the API exposes: tasks, board, chats, Ralph and run logs */
+const API_CHANNEL_PREFIXES = ['tasks:', 'board:', 'chat:', 'agent:', 'ralph:', 'runs:', 'state:', 'activity:'];
+
+/** Channels that open native dialogs, which need someone at the window */
+const API_EXCLUDED_CHANNELS = new Set(['tasks:selectImportFile', 'tasks:export']);
+
+// Why the server last failed to start
+let apiServerError: string | undefined;
+
+function getApiMethods(): string[] {
+  return getHandlerChannels().filter(channel =>
+    API_CHANNEL_PREFIXES.some(prefix => channel.startsWith(prefix)) && !API_EXCLUDED_CHANNELS.has(channel)
+  );
+}
+
+function getApiServerSettings(config: GlobalAppConfig = readGlobalConfig()): ApiServerSettings {
+  return config.apiServer || { enabled: false, port: DEFAULT_API_PORT, token: '' };
+}
+
+function getApiServerStatus(): ApiServerStatus {
+  const url = getApiServer()?.url;
+  return { settings: getApiServerSettings(), running: !!url, url: url || undefined, error: apiServerError };
+}
+
+/**
+ * Start or stop the server to match its settings. Handlers run as if
+ * called from the main window, so streamed output still reaches it.
+ */
+async function applyApiServerSettings(settings: ApiServerSettings): Promise<void> {
+  apiServerError = undefined;
+  if (!settings.enabled) {
+    await stopApiServer();
+    return;
+  }
+
+  try {
+    await startApiServer({
+      port: settings.port,
+      token: settings.token,
+      methods: getApiMethods,
+      invoke: (method, params) => invokeHandler(method, params, BrowserWindow.getAllWindows()[0]?.webContents),
+    });
+  } catch (error) {
+    apiServerError = error instanceof Error ? error.message : String(error);
+    console.error('[ApiServer] Failed to start:', error);
+  }
+}
+
+/**
+ * Start the local API server at launch if it is enabled.
+ */
+export async function startConfiguredApiServer(): Promise<void> {
+  const settings = getApiServerSettings();
+  if (settings.enabled) {
+    await applyApiServerSettings(settings);
+  }
+}
+
+// ============================================
+// Forge Tokens
+// ============================================
+
+/** Environment variables read when no token is saved, for the origin remote's forge only */
+const FORGE_TOKEN_ENV: Record<ForgeType, string> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+};
+
+/** Prefix of tokens encrypted with the OS keychain */
+const ENCRYPTED_TOKEN_PREFIX = 'safe:';
+
+/**
+ * Encrypt a token with the OS keychain (Electron safeStorage). Where no
+ * keychain is available (e.g. Linux without a secret service) the token is
+ * kept as plain text.
+ */
+function encryptToken(token: string): string {
+  if (!safeStorage.isEncryptionAvailable()) {
+    console.warn('[Settings] OS encryption is not available, saving the token as plain text');
+    return token;
+  }
+  return ENCRYPTED_TOKEN_PREFIX + safeStorage.encryptString(token).toString('base64');
+}
+
+/**
+ * Decrypt a saved token. Plain text tokens are returned as they are.
+ */
+function decryptToken(saved: string): string | undefined {
+  if (!saved.startsWith(ENCRYPTED_TOKEN_PREFIX)) return saved;
+  try {
+    return safeStorage.decryptString(Buffer.from(saved.slice(ENCRYPTED_TOKEN_PREFIX.length), 'base64'));
+  } catch (error) {
+    console.error('[Settings] Could not decrypt a saved forge token:', error);
+    return undefined;
+  }
+}
+
+function getForgeTokenKey(forge: ForgeType, host: string): string {
+  return `${forge}:${host.toLowerCase()}`;
+}
+
+/**
+ * Get the API token for a forge's API host: the one saved for that host,
+ * else the forge's environment variable. The environment variable is only
+ * sent to the forge the origin remote is on, so a project's settings cannot
+ * point it at another host.
+ */
+export function getForgeToken(forge: ForgeType, apiHost: ForgeApiHost): string | undefined {
+  const saved = readGlobalConfig().forgeTokens?.[getForgeTokenKey(forge, apiHost.host)];
+  if (saved) {
+    return decryptToken(saved);
+  }
+  return apiHost.matchesRemote ? process.env[FORGE_TOKEN_ENV[forge]] || undefined : undefined;
+}
+
+/**
+ * Get the API host of pull request settings for the open project.
+ */
+async function getProjectApiHost(config: PullRequestConfig): Promise<ForgeApiHost | null> {
+  const root = getProjectRoot();
+  const remoteUrl = root ? await new GitService(root).getRemoteUrl() : null;
+  return getForgeApiHost(config, remoteUrl);
+}
+
 /**
  * Preset theme info for the wizard
  */
@@ -123,6 +277,8 @@ export function registerSettingsHandlers(): void {
       type = 'claude-code';
     } else if (provider instanceof AnthropicProvider) {
       type = 'anthropic';
+    } else if (provider instanceof OpenAICompatibleProvider) {
+      type = 'openai-compatible';
     }
 
     // providerReady: just the provider itself (for setup wizard)
@@ -209,6 +365,8 @@ export function registerSettingsHandlers(): void {
       currentType = 'claude-code';
     } else if (provider instanceof AnthropicProvider) {
       currentType = 'anthropic';
+    } else if (provider instanceof OpenAICompatibleProvider) {
+      currentType = 'openai-compatible';
     }
 
     // Check if OpenCode is installed
@@ -244,6 +402,12 @@ export function registerSettingsHandlers(): void {
           description: 'Direct API calls (requires API key)',
           available: true, // Always available, just needs API key
         },
+        {
+          type: 'openai-compatible',
+          name: 'OpenAI-compatible',
+          description: 'Local or self-hosted server (llama.cpp, Ollama, vLLM)',
+          available: Boolean(readGlobalConfig().openAICompatible),
+        },
         {
           type: 'mock',
           name: 'Mock',
@@ -294,6 +458,18 @@ export function registerSettingsHandlers(): void {
           }
           newProvider = new AnthropicProvider({ apiKey: apiKey.trim() });
           break;
+        case 'openai-compatible': {
+          const serverSettings = readGlobalConfig().openAICompatible;
+          if (!serverSettings) {
+            return {
+              success: false,
+              provider: getAgentProvider()?.getName() || 'Unknown',
+              error: 'Configure the server URL and model in Settings → Integrations first',
+            };
+          }
+          newProvider = new OpenAICompatibleProvider(serverSettings);
+          break;
+        }
         case 'mock':
           newProvider = new MockAgentProvider();
           break;
@@ -378,6 +554,117 @@ export function registerSettingsHandlers(): void {
     }
   });
 
+  // Get OpenAI-compatible server settings
+  ipcMain.handle('settings:getOpenAICompatible', async (): Promise<OpenAICompatibleSettings | null> => {
+    return readGlobalConfig().openAICompatible || null;
+  });
+
+  // Save OpenAI-compatible server settings
+  ipcMain.handle('settings:setOpenAICompatible', async (_, settings: OpenAICompatibleSettings): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    const baseUrl = settings.baseUrl?.trim();
+    const model = settings.model?.trim();
+    if (!baseUrl || !/^https?:\/\//.test(baseUrl)) {
+      return { success: false, error: 'Server URL must start with http:// or https://' };
+    }
+    if (!model) {
+      return { success: false, error: 'Model is required' };
+    }
+
+    const saved: OpenAICompatibleSettings = { baseUrl, model };
+    if (settings.apiKey?.trim()) {
+      saved.apiKey = settings.apiKey.trim();
+    }
+
+    const config = readGlobalConfig();
+    config.openAICompatible = saved;
+    writeGlobalConfig(config);
+
+    // Apply to the active provider right away
+    if (getAgentProvider() instanceof OpenAICompatibleProvider) {
+      setAgentProvider(new OpenAICompatibleProvider(saved));
+    }
+
+    return { success: true };
+  });
+
+  // Get local API server settings and state
+  ipcMain.handle('settings:getApiServer', async (): Promise<ApiServerStatus> => {
+    return getApiServerStatus();
+  });
+
+  // Enable, disable or move the local API server
+  ipcMain.handle('settings:setApiServer', async (_, patch: { enabled?: boolean; port?: number }): Promise<{
+    success: boolean;
+    status: ApiServerStatus;
+    error?: string;
+  }> => {
+    if (patch.port !== undefined && (!Number.isInteger(patch.port) || patch.port < 1024 || patch.port > 65535)) {
+      return { success: false, status: getApiServerStatus(), error: 'Port must be between 1024 and 65535' };
+    }
+
+    const config = readGlobalConfig();
+    const settings: ApiServerSettings = { ...getApiServerSettings(config), ...patch };
+    if (!settings.token) {
+      settings.token = createApiToken();
+    }
+    config.apiServer = settings;
+    writeGlobalConfig(config);
+
+    await applyApiServerSettings(settings);
+    return { success: !apiServerError, status: getApiServerStatus(), error: apiServerError };
+  });
+
+  // Replace the API token, disconnecting clients that use the old one
+  ipcMain.handle('settings:regenerateApiToken', async (): Promise<ApiServerStatus> => {
+    const config = readGlobalConfig();
+    const settings: ApiServerSettings = { ...getApiServerSettings(config), token: createApiToken() };
+    config.apiServer = settings;
+    writeGlobalConfig(config);
+
+    if (getApiServer()) {
+      await applyApiServerSettings(settings);
+    }
+    return getApiServerStatus();
+  });
+
+  // Whether there is a token for the API host of pull request settings, without revealing it
+  ipcMain.handle('settings:getForgeTokenStatus', async (_, pullRequests: PullRequestConfig): Promise<ForgeTokenStatus> => {
+    const apiHost = await getProjectApiHost(pullRequests);
+    return {
+      host: apiHost?.host ?? null,
+      available: !!apiHost && !!getForgeToken(pullRequests.forge, apiHost),
+    };
+  });
+
+  // Save a forge API token for the API host of pull request settings; an empty token removes it
+  ipcMain.handle('settings:setForgeToken', async (_, pullRequests: PullRequestConfig, token: string): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    if (!(pullRequests?.forge in FORGE_TOKEN_ENV)) {
+      return { success: false, error: `Unknown forge: ${pullRequests?.forge}` };
+    }
+    const apiHost = await getProjectApiHost(pullRequests);
+    if (!apiHost) {
+      return { success: false, error: 'Set the API URL of the forge before saving a token' };
+    }
+
+    const config = readGlobalConfig();
+    const forgeTokens = { ...config.forgeTokens };
+    const key = getForgeTokenKey(pullRequests.forge, apiHost.host);
+    if (token?.trim()) {
+      forgeTokens[key] = encryptToken(token.trim());
+    } else {
+      delete forgeTokens[key];
+    }
+    config.forgeTokens = forgeTokens;
+    writeGlobalConfig(config);
+    return { success: true };
+  });
+
   // Test current provider connection
   ipcMain.handle('settings:testProvider', async (): Promise<{
     success: boolean;
@@ -468,6 +755,53 @@ export function registerSettingsHandlers(): void {
     }
   });
 
+  // Get the project's MCP servers with their tools, starting them to list the tools
+  ipcMain.handle('settings:getMcpServers', async (): Promise<McpServerStatus[]> => {
+    const clients = getMcpClients();
+    if (!hasProject() || !clients) return [];
+
+    clients.configure(getStore().getSettings().mcpServers ?? []);
+    await clients.getTools();
+    return clients.getStatus();
+  });
+
+  // Restart the project's MCP servers and list their tools again
+  ipcMain.handle('settings:reconnectMcpServers', async (): Promise<McpServerStatus[]> => {
+    const clients = getMcpClients();
+    if (!hasProject() || !clients) return [];
+
+    clients.reset();
+    clients.configure(getStore().getSettings().mcpServers ?? []);
+    await clients.getTools();
+    return clients.getStatus();
+  });
+
+  // Get the storage backend in use
+  ipcMain.handle('settings:getStorageInfo', async (): Promise<StorageInfo | null> => {
+    if (!hasProject()) return null;
+    return getStore().getStorageInfo();
+  });
+
+  // Move project data to another storage backend
+  ipcMain.handle('settings:migrateStorage', async (_, target: StorageBackendType): Promise<{
+    success: boolean;
+    info?: StorageInfo;
+    error?: string;
+  }> => {
+    if (!hasProject()) {
+      return { success: false, error: 'No project open' };
+    }
+
+    try {
+      return { success: true, info: getStore().migrateStorage(target) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
   // Detect project commands
   ipcMain.handle('settings:detectCommands', async (): Promise<DetectedCommands> => {
     const projectRoot = getProjectRoot();
@@ -6,7 +6,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { app } from 'electron';
+import { app, BrowserWindow } from 'electron';
 import { LocalKanbanStore, initStore, getStore as getLocalStore } from '../../services/LocalKanbanStore';
 import { AgentRuntime } from '../../agent/AgentRuntime';
 import { Runner } from '../../agent/tools/Runner';
@@ -15,10 +15,19 @@ import { AnthropicProvider } from '../../agent/providers/AnthropicProvider';
 import { ClaudeCodeProvider } from '../../agent/providers/ClaudeCodeProvider';
 import { OpenCodeProvider } from '../../agent/providers/OpenCodeProvider';
 import { CodexProvider } from '../../agent/providers/CodexProvider';
+import { FallbackProvider } from '../../agent/providers/FallbackProvider';
+import { OpenAICompatibleProvider } from '../../agent/providers/OpenAICompatibleProvider';
 import { OpenCodeInstaller } from '../../services/OpenCodeInstaller';
 import { initRalphEngine } from '../../agent/RalphEngine';
 import { initSkillRegistry } from '../../agent/skills/SkillRegistry';
+import { getApprovalService } from '../../services/ApprovalService';
+import { notifyRalphTaskComplete } from '../../services/NotificationService';
+import { initTemplateService } from '../../services/TemplateService';
+import { startTaskScheduler, stopTaskScheduler } from '../../services/TaskScheduler';
+import { initMcpClients, closeMcpClients } from '../../services/McpClient';
+import { setTemplateProjectRoot } from './templateHandlers';
 import type { RecentProject, HandlerState, ProviderType } from './types';
+import type { ProviderChainSettings, OpenAICompatibleSettings } from '../../../shared/types';
 
 // Shared state
 const state: HandlerState = {
@@ -54,6 +63,21 @@ function getSavedProvider(): ProviderType | null {
   return null;
 }
 
+/**
+ * Read the saved OpenAI-compatible server settings from global config.
+ */
+function getSavedOpenAICompatibleSettings(): OpenAICompatibleSettings | null {
+  try {
+    if (fs.existsSync(GLOBAL_CONFIG_FILE)) {
+      const config = JSON.parse(fs.readFileSync(GLOBAL_CONFIG_FILE, 'utf-8'));
+      return config.openAICompatible || null;
+    }
+  } catch (err) {
+    console.error('[Provider] Failed to read OpenAI-compatible settings:', err);
+  }
+  return null;
+}
+
 /**
  * Check if a project is currently open.
  */
@@ -93,7 +117,15 @@ export function getStateStore(): LocalKanbanStore | null {
  * Set the store in state.
  */
 export function setStore(store: LocalKanbanStore | null): void {
+  state.store?.close();
   state.store = store;
+
+  // Tell the renderer about edits made to the store files outside the app
+  store?.watch((change) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('store:externalChange', change);
+    }
+  });
 }
 
 /**
@@ -222,18 +254,19 @@ export function getOrCreateProvider(): AgentProvider {
 /**
  * Get the type of a provider instance.
  */
-function getProviderType(provider: AgentProvider): ProviderType {
+export function getProviderType(provider: AgentProvider): ProviderType {
   if (provider instanceof OpenCodeProvider) return 'opencode';
   if (provider instanceof CodexProvider) return 'codex';
   if (provider instanceof ClaudeCodeProvider) return 'claude-code';
   if (provider instanceof AnthropicProvider) return 'anthropic';
+  if (provider instanceof OpenAICompatibleProvider) return 'openai-compatible';
   return 'mock';
 }
 
 /**
  * Create a provider instance by type.
  */
-function createProviderByType(type: ProviderType): AgentProvider | null {
+export function createProviderByType(type: ProviderType): AgentProvider | null {
   const workingDirectory = state.projectRoot || process.cwd();
 
   switch (type) {
@@ -259,6 +292,11 @@ function createProviderByType(type: ProviderType): AgentProvider | null {
       }
       return null;
 
+    case 'openai-compatible': {
+      const settings = getSavedOpenAICompatibleSettings();
+      return settings ? new OpenAICompatibleProvider(settings) : null;
+    }
+
     case 'mock':
       return new MockAgentProvider();
 
@@ -267,6 +305,24 @@ function createProviderByType(type: ProviderType): AgentProvider | null {
   }
 }
 
+/**
+ * Create the provider chain used for agent runs.
+ * An empty chain uses only the given provider, still with retries.
+ */
+export function createProviderChain(settings: ProviderChainSettings, primary: AgentProvider): FallbackProvider {
+  const primaryType = getProviderType(primary);
+  const providers = [...new Set(settings.chain)]
+    .map(type => (type === primaryType ? primary : createProviderByType(type)))
+    .filter((provider): provider is AgentProvider => provider !== null);
+
+  return new FallbackProvider({
+    providers: providers.length > 0 ? providers : [primary],
+    maxRetries: settings.maxRetries,
+    initialBackoffMs: settings.initialBackoffMs,
+    maxBackoffMs: settings.maxBackoffMs,
+  });
+}
+
 /**
  * Load recent projects from disk.
  */
@@ -314,12 +370,16 @@ export function addToRecentProjects(projectPath: string): void {
  * Initialize project-related state.
  */
 export async function initializeProjectState(root: string): Promise<void> {
+  // "Always allow" approvals only apply to the project they were given in
+  getApprovalService().reset();
+
   state.projectRoot = root;
-  state.store = initStore(root);
-  const policy = state.store.getPolicy();
+  const store = initStore(root);
+  setStore(store);
+  const policy = store.getPolicy();
 
   // Initialize runner
-  state.runner = new Runner(root, policy, state.store);
+  state.runner = new Runner(root, policy, store);
 
   // Initialize provider (will use Claude Code by default)
   state.agentProvider = getOrCreateProvider();
@@ -327,14 +387,26 @@ export async function initializeProjectState(root: string): Promise<void> {
   // Initialize Ralph engine with provider (supports OpenCodeProvider and ClaudeCodeProvider)
   const provider = state.agentProvider;
   const isRalphCompatible = provider instanceof OpenCodeProvider || provider instanceof ClaudeCodeProvider;
-  initRalphEngine({
+  const ralph = initRalphEngine({
     projectRoot: root,
-    store: state.store,
+    store,
     provider: isRalphCompatible ? provider as (OpenCodeProvider | ClaudeCodeProvider) : undefined,
   });
 
+  // Play notification sound and set badge when Ralph completes a task
+  ralph.on((event) => {
+    if (event.type === 'task_complete') notifyRalphTaskComplete();
+  });
+
   // Initialize skill registry
-  initSkillRegistry(state.store);
+  initSkillRegistry(store);
+
+  // MCP servers start when the agent first needs their tools
+  initMcpClients(root, store.getSettings().mcpServers);
+
+  // Create tasks from recurring templates, catching up on missed occurrences
+  setTemplateProjectRoot(root);
+  startTaskScheduler(store, await initTemplateService(root));
 
   // Note: Theme and Plugin services are now global (stored in AppData)
   // They are initialized once at app startup via initializeIpcHandlers
@@ -344,10 +416,13 @@ export async function initializeProjectState(root: string): Promise<void> {
  * Clear project-related state.
  */
 export function clearProjectState(): void {
-  state.store = null;
+  getApprovalService().reset();
+  stopTaskScheduler();
+  closeMcpClients();
+  setStore(null);
   state.projectRoot = null;
   state.runner = null;
 }
 
 // Re-export provider classes for type checking
-export { OpenCodeProvider, CodexProvider, ClaudeCodeProvider, AnthropicProvider, MockAgentProvider };
+export { OpenCodeProvider, CodexProvider, ClaudeCodeProvider, AnthropicProvider, OpenAICompatibleProvider, MockAgentProvider };
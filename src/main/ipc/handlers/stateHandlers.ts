@@ -5,8 +5,10 @@
  */
 
 import { ipcMain } from 'electron';
-import { hasProject, getStore } from './shared';
-import type { AgentState, Policy, ActivityEntry } from '../../../shared/types';
+import { hasProject, getStore, getProjectRoot } from './shared';
+import { listAllRuns } from './runLogHandlers';
+import { PolicySimulator } from '../../services/PolicySimulator';
+import type { AgentState, Policy, PolicySimulationResult, ActivityEntry } from '../../../shared/types';
 
 /**
  * Register all state-related IPC handlers.
@@ -32,6 +34,13 @@ export function registerStateHandlers(): void {
     return getStore().savePolicy(policy);
   });
 
+  // Replay past agent runs through an unsaved policy
+  ipcMain.handle('policy:simulate', async (_, candidate: Policy): Promise<PolicySimulationResult | null> => {
+    const projectRoot = getProjectRoot();
+    if (!hasProject() || !projectRoot) return null;
+    return new PolicySimulator(projectRoot).simulate(getStore().getPolicy(), candidate, listAllRuns());
+  });
+
   ipcMain.handle('activity:getRecent', async (_, limit?: number): Promise<ActivityEntry[]> => {
     if (!hasProject()) return [];
     return getStore().getRecentActivity(limit);
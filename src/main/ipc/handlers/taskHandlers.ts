@@ -4,7 +4,9 @@
  * IPC handlers for task management operations.
  */
 
-import { ipcMain, BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ipcMain, BrowserWindow, dialog } from 'electron';
 import { hasProject, getStore, getOrCreateProvider } from './shared';
 import { getCommentService } from '../../services/CommentService';
 import { getPluginManager } from '../../services/PluginManager';
@@ -16,9 +18,15 @@ import type {
   TaskPatch,
   TaskCreateInput,
   AIReviewResult,
-  GitConfig,
+  TaskRevision,
+  BoardOperation,
+  UndoState,
+  TaskFileFormat,
+  TaskImportFile,
+  TaskImportResult,
 } from '../../../shared/types';
-import { DEFAULT_GIT_CONFIG } from '../../../shared/types';
+import { getStatusCategory } from '../../../shared/schemas/common';
+import { resolveImportStatus, tasksToCsv, tasksToMarkdownReport } from '../../../shared/taskFiles';
 
 /**
  * Trigger AI review for a task.
@@ -142,6 +150,47 @@ Respond in this exact JSON format:
   }
 }
 
+/**
+ * Create a task through the task:beforeCreate and task:afterCreate plugin
+ * hooks. Fields other than the title and status are set right after the
+ * task is created.
+ *
+ * @returns The task, or null if a hook cancelled it
+ */
+export async function createTaskWithHooks(input: TaskCreateInput): Promise<Task | null> {
+  // Execute beforeCreate hooks
+  const pluginManager = getPluginManager();
+  if (pluginManager) {
+    const hookResult = await pluginManager.executeTaskBeforeCreateHooks({ input });
+    if (hookResult.cancel) {
+      return null;
+    }
+    // Use potentially modified input
+    Object.assign(input, hookResult.input);
+  }
+
+  const store = getStore();
+  let task = store.createTask(input.title, (input.status as TaskStatus) || 'backlog');
+
+  const patch: TaskPatch = {};
+  if (input.description) patch.description = input.description;
+  if (input.priority) patch.priority = input.priority;
+  if (input.acceptanceCriteria?.length) patch.acceptanceCriteria = input.acceptanceCriteria;
+  if (input.tags?.length) patch.tags = input.tags;
+  if (input.epic) patch.epic = input.epic;
+  if (input.sprint) patch.sprint = input.sprint;
+  if (Object.keys(patch).length > 0) {
+    task = store.updateTask(task.id, patch);
+  }
+
+  // Execute afterCreate hooks
+  if (pluginManager) {
+    await pluginManager.executeTaskAfterCreateHooks({ task });
+  }
+
+  return task;
+}
+
 /**
  * Register all task-related IPC handlers.
  */
@@ -158,28 +207,7 @@ export function registerTaskHandlers(): void {
 
   ipcMain.handle('tasks:create', async (_, title: string, status?: TaskStatus): Promise<Task | null> => {
     if (!hasProject()) return null;
-
-    const input: TaskCreateInput = { title, status: status || 'backlog' };
-
-    // Execute beforeCreate hooks
-    const pluginManager = getPluginManager();
-    if (pluginManager) {
-      const hookResult = await pluginManager.executeTaskBeforeCreateHooks({ input });
-      if (hookResult.cancel) {
-        return null;
-      }
-      // Use potentially modified input
-      Object.assign(input, hookResult.input);
-    }
-
-    const task = getStore().createTask(input.title, (input.status as TaskStatus) || 'backlog');
-
-    // Execute afterCreate hooks
-    if (pluginManager && task) {
-      await pluginManager.executeTaskAfterCreateHooks({ task });
-    }
-
-    return task;
+    return createTaskWithHooks({ title, status: status || 'backlog' });
   });
 
   ipcMain.handle('tasks:update', async (_, taskId: string, patch: TaskPatch): Promise<Task | null> => {
@@ -206,7 +234,11 @@ export function registerTaskHandlers(): void {
       processedPatch = hookResult.patch;
     }
 
-    const updatedTask = store.updateTask(taskId, processedPatch);
+    const updatedTask = store.recordOperation(
+      { kind: 'update', taskId, title: task.title },
+      [taskId],
+      () => store.updateTask(taskId, processedPatch)
+    );
 
     // Execute afterUpdate hooks
     if (pluginManager && updatedTask) {
@@ -238,7 +270,13 @@ export function registerTaskHandlers(): void {
       }
     }
 
-    store.deleteTask(taskId);
+    // Subtasks are re-parented by the delete, so undo restores them too
+    const subtaskIds = store.getTasks().filter(t => t.parentId === taskId).map(t => t.id);
+    store.recordOperation(
+      { kind: 'delete', taskId, title: task.title },
+      [taskId, ...subtaskIds],
+      () => store.deleteTask(taskId)
+    );
   });
 
   ipcMain.handle('tasks:move', async (_, taskId: string, toColumnId: TaskStatus, newOrder?: number): Promise<void> => {
@@ -266,53 +304,14 @@ export function registerTaskHandlers(): void {
       targetColumn = hookResult.toColumn as TaskStatus;
     }
 
-    store.moveTask(taskId, targetColumn, newOrder);
+    store.recordOperation(
+      { kind: 'move', taskId, title: task.title },
+      [taskId],
+      () => store.moveTask(taskId, targetColumn, newOrder)
+    );
 
     // Handle Git lifecycle for task status changes
-    const gitManager = getGitStateManagerInstance();
-    if (gitManager && fromColumn !== targetColumn) {
-      // Get Git config from settings
-      const settings = store.getSettings();
-      const gitConfig: GitConfig = (settings as { git?: GitConfig }).git || DEFAULT_GIT_CONFIG;
-
-      if (gitConfig.gitEnabled && gitConfig.gitMode !== 'none') {
-        const movedTask = store.getTask(taskId);
-        if (movedTask) {
-          try {
-            const result = await gitManager.handleTaskStatusChange(
-              movedTask,
-              fromColumn,
-              targetColumn,
-              gitConfig,
-              'system'
-            );
-
-            // Update task with Git branch info if applicable
-            if (result.branchName) {
-              store.updateTask(taskId, {
-                gitBranch: result.branchName,
-                gitBranchCheckedOut: true,
-              });
-            }
-
-            // Add system comment if there was an error or warning
-            if (!result.success && result.error) {
-              store.addTypedComment(taskId, 'system', 'Git', `Git operation failed: ${result.error}`);
-            } else if (result.warnings && result.warnings.length > 0) {
-              store.addTypedComment(taskId, 'system', 'Git', `Git: ${result.warnings.join(', ')}`);
-            }
-          } catch (gitError) {
-            console.error('Git lifecycle error:', gitError);
-            store.addTypedComment(
-              taskId,
-              'system',
-              'Git',
-              `Git error: ${gitError instanceof Error ? gitError.message : String(gitError)}`
-            );
-          }
-        }
-      }
-    }
+    await getGitStateManagerInstance()?.applyTaskMove(taskId, fromColumn, targetColumn, 'system');
 
     // Execute afterMove hooks
     if (pluginManager) {
@@ -325,8 +324,12 @@ export function registerTaskHandlers(): void {
       }
     }
 
-    // Trigger AI review if task is moved to 'review' column and has aiReviewable=true
-    if (targetColumn === 'review' && fromColumn !== 'review') {
+    // Trigger AI review if task is moved to a review column and has aiReviewable=true
+    const columns = store.getBoard().columns;
+    if (
+      getStatusCategory(targetColumn, columns) === 'review' &&
+      getStatusCategory(fromColumn, columns) !== 'review'
+    ) {
       const movedTask = store.getTask(taskId);
       if (movedTask?.aiReviewable && !movedTask.aiReview) {
         // Run AI review in background (don't await to avoid blocking the UI)
@@ -354,9 +357,9 @@ export function registerTaskHandlers(): void {
     return getStore().addTypedComment(taskId, type, author, content, runId);
   });
 
-  ipcMain.handle('tasks:getPending', async (_, strategy?: 'fifo' | 'priority' | 'dependency'): Promise<Task[]> => {
+  ipcMain.handle('tasks:getPending', async (_, strategy?: 'fifo' | 'priority' | 'dependency', query?: string): Promise<Task[]> => {
     if (!hasProject()) return [];
-    return getStore().getPendingTasks(strategy);
+    return getStore().getPendingTasks(strategy, query);
   });
 
   // Analyze task state against current codebase
@@ -459,7 +462,7 @@ Respond in this exact JSON format:
           summary: response.content.substring(0, 500),
           criteria: allCriteria.map(c => ({
             criterion: c,
-            passed: task.status === 'done' || task.status === 'review',
+            passed: ['done', 'review'].includes(getStatusCategory(task.status, getStore().getBoard().columns)),
             evidence: 'Could not perform detailed analysis',
           })),
           suggestedStatus: task.status,
@@ -507,6 +510,131 @@ Respond in this exact JSON format:
     return service.getPendingClarifications(taskId);
   });
 
+  // Revision history of a task, newest first
+  ipcMain.handle('tasks:getHistory', async (_, taskId: string): Promise<TaskRevision[]> => {
+    if (!hasProject()) return [];
+    return getStore().getTaskHistory(taskId);
+  });
+
+  // Undo/redo of board operations made from the UI
+  ipcMain.handle('tasks:getUndoState', async (): Promise<UndoState> => {
+    if (!hasProject()) return { undo: null, redo: null };
+    return getStore().getUndoState();
+  });
+
+  ipcMain.handle('tasks:undo', async (): Promise<BoardOperation | null> => {
+    if (!hasProject()) return null;
+    return getStore().undo();
+  });
+
+  ipcMain.handle('tasks:redo', async (): Promise<BoardOperation | null> => {
+    if (!hasProject()) return null;
+    return getStore().redo();
+  });
+
+  // ============================================
+  // Import / Export
+  // ============================================
+
+  // Pick a CSV or Markdown file to import; the renderer parses it for the preview
+  ipcMain.handle('tasks:selectImportFile', async (event): Promise<{ success: boolean; file?: TaskImportFile; error?: string }> => {
+    if (!hasProject()) return { success: false, error: 'No project open' };
+
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(win!, {
+      title: 'Import Tasks',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Tasks', extensions: ['csv', 'md', 'markdown', 'txt'] },
+        { name: 'CSV', extensions: ['csv'] },
+        { name: 'Markdown', extensions: ['md', 'markdown', 'txt'] },
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, error: 'Cancelled' };
+    }
+
+    const filePath = result.filePaths[0];
+    try {
+      const format: TaskFileFormat = path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'markdown';
+      return { success: true, file: { filePath, format, content: fs.readFileSync(filePath, 'utf-8') } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Create tasks from an import, one at a time through the plugin hooks
+  ipcMain.handle('tasks:import', async (_, inputs: TaskCreateInput[]): Promise<TaskImportResult> => {
+    const result: TaskImportResult = { created: [], cancelled: 0, failed: [] };
+    if (!hasProject()) return result;
+
+    const store = getStore();
+    const { columns } = store.getBoard();
+
+    // Imported epics take the color of an existing epic with the same name
+    const epicColors = new Map(store.getTasks().filter(t => t.epic).map(t => [t.epic!.name, t.epic!.color]));
+
+    for (const input of inputs) {
+      try {
+        const status = resolveImportStatus(input.status, columns);
+        const epic = input.epic && { ...input.epic, color: epicColors.get(input.epic.name) ?? input.epic.color };
+        const task = await createTaskWithHooks({ ...input, status, epic });
+        if (task) {
+          result.created.push(task.id);
+          if (task.epic && !epicColors.has(task.epic.name)) epicColors.set(task.epic.name, task.epic.color);
+        } else {
+          result.cancelled++;
+        }
+      } catch (error) {
+        result.failed.push({ title: input.title, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    console.log(`[Tasks] Imported ${result.created.length} tasks (${result.cancelled} cancelled, ${result.failed.length} failed)`);
+    return result;
+  });
+
+  // Export all tasks, or the given ones, to CSV or a Markdown status report
+  ipcMain.handle('tasks:export', async (
+    event,
+    format: TaskFileFormat,
+    options: { taskIds?: string[]; query?: string } = {}
+  ): Promise<{ success: boolean; filePath?: string; count?: number; error?: string }> => {
+    if (!hasProject()) return { success: false, error: 'No project open' };
+
+    const store = getStore();
+    const board = store.getBoard();
+    const taskIds = options.taskIds && new Set(options.taskIds);
+    const tasks = store.getTasks().filter(t => !taskIds || taskIds.has(t.id));
+
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const extension = format === 'csv' ? 'csv' : 'md';
+    const result = await dialog.showSaveDialog(win!, {
+      title: 'Export Tasks',
+      defaultPath: `${board.name.replace(/[<>:"/\\|?*]/g, '_')}-${format === 'csv' ? 'tasks' : 'report'}.${extension}`,
+      filters: [{ name: format === 'csv' ? 'CSV' : 'Markdown', extensions: [extension] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: 'Cancelled' };
+    }
+
+    try {
+      const content = format === 'csv'
+        ? tasksToCsv(tasks, board.columns)
+        : tasksToMarkdownReport(tasks, board.columns, {
+            title: board.name,
+            query: options.query,
+            generatedAt: new Date().toISOString(),
+          });
+      fs.writeFileSync(result.filePath, content, 'utf-8');
+      return { success: true, filePath: result.filePath, count: tasks.length };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
   // Mark failures as addressed
   ipcMain.handle('tasks:markFailuresAddressed', async (_, taskId: string, note?: string): Promise<TaskComment | null> => {
     if (!hasProject()) return null;
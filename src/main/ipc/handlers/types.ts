@@ -12,7 +12,7 @@ import type { AgentProvider } from '../../agent/AgentProvider';
 /**
  * Provider type for configuration
  */
-export type ProviderType = 'mock' | 'anthropic' | 'claude-code' | 'opencode' | 'codex';
+export type { ProviderType } from '../../../shared/types';
 
 /**
  * Recent project entry
@@ -4,6 +4,8 @@ import { initializeIpcHandlers } from './ipc/handlers';
 import { initBadgeClearing } from './services/NotificationService';
 import { OpenCodeInstaller } from './services/OpenCodeInstaller';
 import { AppUpdaterService } from './services/AppUpdaterService';
+import { serveMcp } from './ipc/handlers/mcpHandlers';
+import { closeMcpClients } from './services/McpClient';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling
 // This is only needed for Squirrel.Windows installers
@@ -25,6 +27,13 @@ const isDev = !app.isPackaged;
 // Get project root - in dev it's the current working directory
 const projectRoot = isDev ? process.cwd() : path.dirname(app.getPath('exe'));
 
+// `--mcp [project]` serves the project to external agents over stdio, without a window
+const mcpFlagIndex = process.argv.indexOf('--mcp');
+const mcpProjectArg = mcpFlagIndex >= 0 ? process.argv[mcpFlagIndex + 1] : undefined;
+const mcpProjectRoot = mcpFlagIndex < 0
+  ? null
+  : path.resolve(mcpProjectArg && !mcpProjectArg.startsWith('-') ? mcpProjectArg : process.cwd());
+
 let mainWindow: BrowserWindow | null = null;
 
 function createWindow(): void {
@@ -116,6 +125,18 @@ function createWindow(): void {
 
 // App lifecycle
 app.whenReady().then(async () => {
+  if (mcpProjectRoot) {
+    app.dock?.hide();
+    try {
+      await serveMcp(mcpProjectRoot);
+      app.quit();
+    } catch (error) {
+      console.error('[MCP] Failed to serve project:', error);
+      app.exit(1);
+    }
+    return;
+  }
+
   // Initialize IPC handlers without project (will show welcome screen)
   await initializeIpcHandlers();
 
@@ -203,6 +224,11 @@ app.on('window-all-closed', () => {
   }
 });
 
+app.on('will-quit', () => {
+  // Stop the project's MCP servers with the app
+  closeMcpClients();
+});
+
 // Basic app IPC handlers
 ipcMain.handle('app:getVersion', () => {
   return app.getVersion();
@@ -4,13 +4,15 @@
  * Handles importing issues from Jira and transforming them to Dexteria tasks.
  */
 
-const { PRIORITY_MAPPING, DEFAULT_STATUS_MAPPING } = require('./constants');
+const { PRIORITY_MAPPING } = require('./constants');
+const { resolveColumn, suggestColumnForStatus } = require('./columns');
 
 class ImportEngine {
-  constructor(jiraClient, storage, log) {
+  constructor(jiraClient, storage, log, board) {
     this.jiraClient = jiraClient;
     this.storage = storage;
     this.log = log;
+    this.board = board;
   }
 
   /**
@@ -65,9 +67,10 @@ class ImportEngine {
     const preview = await this.previewImport(options);
     const config = await this.storage.get('config') || {};
     const statusMapping = config.statusMapping || [];
+    const columns = await this.board.getColumns();
 
     const tasksToCreate = preview.toImport.map(issue =>
-      this.transformToTask(issue, statusMapping)
+      this.transformToTask(issue, statusMapping, columns)
     );
 
     return {
@@ -82,22 +85,9 @@ class ImportEngine {
   /**
    * Transform a Jira issue to a Dexteria task
    */
-  transformToTask(issue, statusMapping = []) {
-    // Map Jira status to Dexteria column
-    let status = 'backlog';
-
-    // First try explicit mapping
-    const statusMap = statusMapping.find(m =>
-      m.jiraStatusId === issue.status.id ||
-      m.jiraStatusName === issue.status.name
-    );
-
-    if (statusMap) {
-      status = statusMap.dexteriaColumn;
-    } else {
-      // Fall back to category-based mapping
-      status = DEFAULT_STATUS_MAPPING[issue.status.category] || 'backlog';
-    }
+  transformToTask(issue, statusMapping = [], columns = []) {
+    // Map Jira status to Dexteria column: explicit mapping, then category
+    const status = resolveColumn(columns, statusMapping, issue.status);
 
     // Map priority
     const priority = PRIORITY_MAPPING[issue.priority?.name] || 'medium';
@@ -204,40 +194,14 @@ class ImportEngine {
    */
   async getSuggestedStatusMapping(projectKey) {
     const statuses = await this.jiraClient.getProjectStatuses(projectKey);
-
-    return statuses.map(status => {
-      let dexteriaColumn = 'backlog';
-
-      // Map based on category
-      if (status.category === 'done') {
-        dexteriaColumn = 'done';
-      } else if (status.category === 'indeterminate') {
-        // Try to guess based on name
-        const name = status.name.toLowerCase();
-        if (name.includes('review') || name.includes('test') || name.includes('qa')) {
-          dexteriaColumn = 'review';
-        } else if (name.includes('progress') || name.includes('doing') || name.includes('dev')) {
-          dexteriaColumn = 'doing';
-        } else if (name.includes('todo') || name.includes('to do') || name.includes('ready')) {
-          dexteriaColumn = 'todo';
-        } else {
-          dexteriaColumn = 'doing';
-        }
-      } else {
-        // 'new' category
-        const name = status.name.toLowerCase();
-        if (name.includes('todo') || name.includes('to do') || name.includes('selected')) {
-          dexteriaColumn = 'todo';
-        }
-      }
-
-      return {
-        jiraStatusId: status.id,
-        jiraStatusName: status.name,
-        jiraCategory: status.category,
-        dexteriaColumn
-      };
-    });
+    const columns = await this.board.getColumns();
+
+    return statuses.map(status => ({
+      jiraStatusId: status.id,
+      jiraStatusName: status.name,
+      jiraCategory: status.category,
+      dexteriaColumn: suggestColumnForStatus(columns, status)
+    }));
   }
 }
 
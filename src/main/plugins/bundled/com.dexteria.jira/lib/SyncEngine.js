@@ -4,12 +4,15 @@
  * Handles bidirectional synchronization between Dexteria tasks and Jira issues.
  */
 
+const { resolveColumn } = require('./columns');
+
 class SyncEngine {
-  constructor(jiraClient, importEngine, storage, log) {
+  constructor(jiraClient, importEngine, storage, log, board) {
     this.jiraClient = jiraClient;
     this.importEngine = importEngine;
     this.storage = storage;
     this.log = log;
+    this.board = board;
     this.syncInterval = null;
   }
 
@@ -142,6 +145,7 @@ class SyncEngine {
 
     const config = await this.storage.get('config') || {};
     const statusMapping = config.statusMapping || [];
+    const columns = await this.board.getColumns();
 
     // Fetch current state from Jira
     const jql = `key IN (${jiraKeys.map(k => `"${k}"`).join(',')})`;
@@ -160,13 +164,7 @@ class SyncEngine {
       // Check if status changed in Jira
       if (mapping.jiraStatus !== issue.status.name) {
         // Find the Dexteria column for this status
-        const statusMap = statusMapping.find(m =>
-          m.jiraStatusId === issue.status.id ||
-          m.jiraStatusName === issue.status.name
-        );
-
-        const dexteriaColumn = statusMap?.dexteriaColumn ||
-          this.categoryToColumn(issue.status.category);
+        const dexteriaColumn = resolveColumn(columns, statusMapping, issue.status);
 
         updates.push({
           taskId,
@@ -201,18 +199,6 @@ class SyncEngine {
     }
   }
 
-  /**
-   * Map Jira status category to Dexteria column
-   */
-  categoryToColumn(category) {
-    const map = {
-      'new': 'backlog',
-      'indeterminate': 'doing',
-      'done': 'done'
-    };
-    return map[category] || 'backlog';
-  }
-
   /**
    * Add entry to sync history
    */
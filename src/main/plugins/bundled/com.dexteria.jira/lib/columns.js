@@ -0,0 +1,94 @@
+/**
+ * Board Column Matching
+ *
+ * Maps Jira statuses to the columns of the Dexteria board, which may be
+ * custom. Columns come from api.board.getColumns() and carry a category
+ * (backlog, todo, in_progress, review, done).
+ */
+
+const { DEFAULT_STATUS_MAPPING } = require('./constants');
+
+// Built-in column used when the board has no column of a category
+const BUILT_IN_COLUMNS = {
+  'backlog': 'backlog',
+  'todo': 'todo',
+  'in_progress': 'doing',
+  'review': 'review',
+  'done': 'done'
+};
+
+/**
+ * Check whether a column ID exists on the board
+ */
+function hasColumn(columns, columnId) {
+  return columns.some(c => c.id === columnId);
+}
+
+/**
+ * First column of a category, falling back to the first column
+ */
+function findColumnForCategory(columns, category) {
+  const column = columns.find(c => c.category === category);
+  if (column) return column.id;
+  if (columns.length === 0 || hasColumn(columns, BUILT_IN_COLUMNS[category])) {
+    return BUILT_IN_COLUMNS[category];
+  }
+  return columns[0].id;
+}
+
+/**
+ * Map a Jira status category to a board column
+ */
+function columnForJiraCategory(columns, jiraCategory) {
+  return findColumnForCategory(columns, DEFAULT_STATUS_MAPPING[jiraCategory] || 'backlog');
+}
+
+/**
+ * Guess the board column for a Jira status.
+ * A column with the same title wins; otherwise the status name and
+ * category pick a column category.
+ */
+function suggestColumnForStatus(columns, status) {
+  const name = status.name.toLowerCase();
+  const sameName = columns.find(c => c.title.toLowerCase() === name || c.id.toLowerCase() === name);
+  if (sameName) return sameName.id;
+
+  let category = 'backlog';
+  if (status.category === 'done') {
+    category = 'done';
+  } else if (status.category === 'indeterminate') {
+    if (name.includes('review') || name.includes('test') || name.includes('qa')) {
+      category = 'review';
+    } else if (name.includes('todo') || name.includes('to do') || name.includes('ready')) {
+      category = 'todo';
+    } else {
+      category = 'in_progress';
+    }
+  } else if (name.includes('todo') || name.includes('to do') || name.includes('selected')) {
+    category = 'todo';
+  }
+
+  return findColumnForCategory(columns, category);
+}
+
+/**
+ * Resolve the column for a Jira status: the saved mapping if its column
+ * still exists, otherwise the category default
+ */
+function resolveColumn(columns, statusMapping, status) {
+  const statusMap = statusMapping.find(m =>
+    m.jiraStatusId === status.id ||
+    m.jiraStatusName === status.name
+  );
+  if (statusMap && (columns.length === 0 || hasColumn(columns, statusMap.dexteriaColumn))) {
+    return statusMap.dexteriaColumn;
+  }
+  return columnForJiraCategory(columns, status.category);
+}
+
+module.exports = {
+  findColumnForCategory,
+  columnForJiraCategory,
+  suggestColumnForStatus,
+  resolveColumn
+};
@@ -15,10 +15,10 @@ const OAUTH_SCOPES = [
   'offline_access'       // Refresh tokens
 ];
 
-// Default status mapping (Jira category -> Dexteria column)
+// Default status mapping (Jira category -> Dexteria column category)
 const DEFAULT_STATUS_MAPPING = {
   'new': 'backlog',
-  'indeterminate': 'doing',
+  'indeterminate': 'in_progress',
   'done': 'done'
 };
 
@@ -28,8 +28,8 @@ async function activate(context) {
   // Initialize managers
   authManager = new AuthManager(storage, log);
   jiraClient = new JiraClient(authManager, storage, log);
-  importEngine = new ImportEngine(jiraClient, storage, log);
-  syncEngine = new SyncEngine(jiraClient, importEngine, storage, log);
+  importEngine = new ImportEngine(jiraClient, storage, log, api.board);
+  syncEngine = new SyncEngine(jiraClient, importEngine, storage, log, api.board);
 
   // Register task movement hook for syncing to Jira
   hooks.on('task:afterMove', async (ctx) => {
@@ -206,7 +206,7 @@ const api = {
 
         try {
           // Create the task
-          const task = await pluginContext.api.tasks.create(taskData.title, taskData.status);
+          const task = await pluginContext.api.tasks.create(taskData.title, taskData.status, { sync: true });
 
           // Update with full data
           await pluginContext.api.tasks.update(task.id, {
@@ -214,7 +214,7 @@ const api = {
             priority: taskData.priority,
             tags: taskData.tags,
             acceptanceCriteria: taskData.acceptanceCriteria,
-          });
+          }, { sync: true });
 
           // Save mapping
           await importEngine.saveMapping(task.id, issue);
@@ -240,7 +240,7 @@ const api = {
     checkUpdates: async () => syncEngine?.syncFromJira(),
     applyUpdate: async (taskId, jiraStatus, dexteriaColumn) => {
       if (!pluginContext || !syncEngine) return;
-      await pluginContext.api.tasks.move(taskId, dexteriaColumn);
+      await pluginContext.api.tasks.move(taskId, dexteriaColumn, { sync: true });
       await syncEngine.applyJiraUpdate(taskId, jiraStatus);
     },
     syncToJira: async (taskId, task) => syncEngine?.syncTaskToJira(taskId, task),
@@ -1,21 +1,50 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import type {
   Board,
+  BoardWorkflow,
+  ColumnConfig,
+  SavedFilter,
+  TaskRevision,
+  BoardOperation,
+  UndoState,
+  StoreFileChange,
+  TaskCreateInput,
+  TaskFileFormat,
+  RecurringTasksCreatedEvent,
+  TaskImportFile,
+  TaskImportResult,
   Task,
   TaskComment,
   TaskPatch,
   TaskStatus,
   AgentState,
   Policy,
+  PolicySimulationResult,
   ProjectContext,
   RepoIndex,
   ChatIndex,
   Chat,
   AgentRun,
+  RunCheckpoint,
+  RollbackResult,
+  ApprovalRequest,
+  ApprovalDecision,
+  TokenUsage,
   CustomTheme,
   PluginInfo,
   UIContributions,
   ProjectSettings,
+  StorageBackendType,
+  StorageInfo,
+  ProjectArchiveManifest,
+  ProjectExportOptions,
+  ProjectImportOptions,
+  ProjectImportResult,
+  OpenAICompatibleSettings,
+  ApiServerStatus,
+  McpServerStatus,
+  ForgeTokenStatus,
+  PullRequestConfig,
   ProjectProcessStatus,
   GitStatus,
   BranchInfo,
@@ -27,6 +56,7 @@ import type {
   TaskBranchMapping,
   GitOperationLog,
   GitConfig,
+  TaskPullRequest,
   CreateTaskBranchOptions,
   CommitOptions,
   MergeOptions,
@@ -92,6 +122,7 @@ export interface RalphProgress {
   currentTaskId: string | null;
   currentTaskTitle: string | null;
   status: 'idle' | 'running' | 'paused' | 'stopped';
+  usage?: TokenUsage;
 }
 
 /** Ralph mode result */
@@ -102,6 +133,7 @@ export interface RalphResult {
   failed: number;
   blocked: number;
   stoppedReason?: string;
+  usage?: TokenUsage;
 }
 
 /** Provider info */
@@ -113,7 +145,7 @@ export interface ProviderInfo {
 }
 
 /** Provider type */
-export type ProviderType = 'mock' | 'anthropic' | 'claude-code' | 'opencode' | 'codex';
+export type ProviderType = 'mock' | 'anthropic' | 'claude-code' | 'opencode' | 'codex' | 'openai-compatible';
 
 /** Available providers response */
 export interface AvailableProvidersResponse {
@@ -227,6 +259,10 @@ export interface DexteriaAPI {
   board: {
     get: () => Promise<Board>;
     save: (board: Board) => Promise<void>;
+    configure: (columns: ColumnConfig[], workflow?: BoardWorkflow, fallbackColumnId?: string) => Promise<Board>;
+    saveFilter: (filter: Omit<SavedFilter, 'id'> & { id?: string }) => Promise<SavedFilter>;
+    deleteFilter: (filterId: string) => Promise<void>;
+    onExternalChange: (callback: (change: StoreFileChange) => void) => () => void;
   };
   tasks: {
     getAll: () => Promise<Task[]>;
@@ -243,11 +279,21 @@ export interface DexteriaAPI {
       content: string,
       runId?: string
     ) => Promise<TaskComment>;
-    getPending: (strategy?: 'fifo' | 'priority' | 'dependency') => Promise<Task[]>;
+    getPending: (strategy?: 'fifo' | 'priority' | 'dependency', query?: string) => Promise<Task[]>;
     analyzeState: (taskId: string) => Promise<TaskAnalysisResult>;
     getCommentContext: (taskId: string) => Promise<TaskCommentContext>;
     getPendingClarifications: (taskId: string) => Promise<ClarificationRequest[]>;
     markFailuresAddressed: (taskId: string, note?: string) => Promise<TaskComment>;
+    getHistory: (taskId: string) => Promise<TaskRevision[]>;
+    getUndoState: () => Promise<UndoState>;
+    undo: () => Promise<BoardOperation | null>;
+    redo: () => Promise<BoardOperation | null>;
+    selectImportFile: () => Promise<{ success: boolean; file?: TaskImportFile; error?: string }>;
+    import: (inputs: TaskCreateInput[]) => Promise<TaskImportResult>;
+    export: (
+      format: TaskFileFormat,
+      options?: { taskIds?: string[]; query?: string }
+    ) => Promise<{ success: boolean; filePath?: string; count?: number; error?: string }>;
   };
   state: {
     get: () => Promise<AgentState>;
@@ -256,6 +302,7 @@ export interface DexteriaAPI {
   policy: {
     get: () => Promise<Policy>;
     update: (policy: Policy) => Promise<{ success: boolean; error?: string }>;
+    simulate: (candidate: Policy) => Promise<PolicySimulationResult | null>;
   };
   activity: {
     getRecent: (limit?: number) => Promise<ActivityEntry[]>;
@@ -268,7 +315,7 @@ export interface DexteriaAPI {
     onStreamUpdate: (callback: (data: { taskId: string; taskTitle?: string; content: string; done: boolean; cancelled?: boolean }) => void) => () => void;
   };
   ralph: {
-    start: (options?: { strategy?: 'fifo' | 'priority' | 'dependency'; maxTasks?: number; maxAttempts?: number }) => Promise<RalphResult>;
+    start: (options?: { strategy?: 'fifo' | 'priority' | 'dependency'; maxTasks?: number; maxAttempts?: number; policyProfileId?: string; query?: string }) => Promise<RalphResult>;
     stop: () => Promise<void>;
     pause: () => Promise<void>;
     resume: () => Promise<void>;
@@ -281,6 +328,9 @@ export interface DexteriaAPI {
     getMetadata: (taskId: string, runId: string) => Promise<AgentRun | null>;
     list: (taskId: string) => Promise<AgentRun[]>;
     listAll: () => Promise<{ taskId: string; runs: AgentRun[] }[]>;
+    getCheckpoint: (taskId: string, runId: string) => Promise<RunCheckpoint | null>;
+    rollback: (taskId: string, runId: string) => Promise<RollbackResult>;
+    rollbackFile: (taskId: string, runId: string, filePath: string) => Promise<RollbackResult>;
   };
   context: {
     getProject: () => Promise<ProjectContext>;
@@ -303,6 +353,18 @@ export interface DexteriaAPI {
     setProvider: (providerType: ProviderType, apiKey?: string) => Promise<{ success: boolean; provider: string; error?: string }>;
     setApiKey: (apiKey: string) => Promise<{ success: boolean; provider: string; error?: string }>;
     testProvider: () => Promise<{ success: boolean; message: string }>;
+    getOpenAICompatible: () => Promise<OpenAICompatibleSettings | null>;
+    setOpenAICompatible: (settings: OpenAICompatibleSettings) => Promise<{ success: boolean; error?: string }>;
+    // Local API server
+    getApiServer: () => Promise<ApiServerStatus>;
+    setApiServer: (patch: { enabled?: boolean; port?: number }) => Promise<{ success: boolean; status: ApiServerStatus; error?: string }>;
+    regenerateApiToken: () => Promise<ApiServerStatus>;
+    // MCP servers
+    getMcpServers: () => Promise<McpServerStatus[]>;
+    reconnectMcpServers: () => Promise<McpServerStatus[]>;
+    // Forge tokens for pull requests
+    getForgeTokenStatus: (pullRequests: PullRequestConfig) => Promise<ForgeTokenStatus>;
+    setForgeToken: (pullRequests: PullRequestConfig, token: string) => Promise<{ success: boolean; error?: string }>;
     // Setup wizard completion tracking
     completeSetup: () => Promise<{ success: boolean }>;
     resetSetup: () => Promise<{ success: boolean }>;
@@ -311,6 +373,8 @@ export interface DexteriaAPI {
     getProject: () => Promise<ProjectSettings>;
     saveProject: (settings: ProjectSettings) => Promise<{ success: boolean; error?: string }>;
     updateProject: (patch: Partial<ProjectSettings>) => Promise<{ success: boolean; settings?: ProjectSettings; error?: string }>;
+    getStorageInfo: () => Promise<StorageInfo | null>;
+    migrateStorage: (target: StorageBackendType) => Promise<{ success: boolean; info?: StorageInfo; error?: string }>;
     detectCommands: () => Promise<{ run?: string; build?: string; install?: string; packageManager?: string }>;
     getEffectiveCommand: (type: 'run' | 'build' | 'install') => Promise<string>;
     testSound: (preset: 'system' | 'chime' | 'bell' | 'success' | 'ding' | 'complete') => Promise<void>;
@@ -345,6 +409,9 @@ export interface DexteriaAPI {
     getAllProcessStatus: () => Promise<ProjectProcessStatus[]>;
     onStatusUpdate: (callback: (status: ProjectProcessStatus) => void) => () => void;
     onOutput: (callback: (data: { type: string; runId: string; data: string }) => void) => () => void;
+    exportArchive: (options?: ProjectExportOptions) => Promise<{ success: boolean; filePath?: string; manifest?: ProjectArchiveManifest; error?: string }>;
+    selectArchive: () => Promise<{ success: boolean; filePath?: string; manifest?: ProjectArchiveManifest; error?: string }>;
+    importArchive: (filePath: string, options: ProjectImportOptions) => Promise<{ success: boolean; result?: ProjectImportResult; error?: string }>;
   };
   theme: {
     getAll: () => Promise<ThemeIndexEntry[]>;
@@ -504,6 +571,10 @@ export interface DexteriaAPI {
     generateBranchName: (taskId: string, taskTitle: string) => Promise<string>;
     // Config
     getConfig: () => Promise<GitConfig>;
+    setConfig: (config: GitConfig) => Promise<{ success: boolean; error?: string }>;
+    // Pull requests
+    openPullRequest: (taskId: string) => Promise<{ success: boolean; pullRequest?: TaskPullRequest; error?: string }>;
+    refreshPullRequests: () => Promise<TaskPullRequest[]>;
   };
   update: {
     check: () => Promise<AppUpdateInfo>;
@@ -553,6 +624,13 @@ export interface DexteriaAPI {
     update: (id: string, input: unknown) => Promise<TaskTemplate | null>;
     delete: (id: string) => Promise<boolean>;
     apply: (templateId: string, variables: Record<string, string>) => Promise<Partial<TaskTemplate> | null>;
+    onRecurringTasksCreated: (callback: (event: RecurringTasksCreatedEvent) => void) => () => void;
+  };
+  approval: {
+    respond: (requestId: string, decision: ApprovalDecision) => Promise<boolean>;
+    getPending: () => Promise<ApprovalRequest[]>;
+    onRequested: (callback: (request: ApprovalRequest) => void) => () => void;
+    onResolved: (callback: (request: ApprovalRequest) => void) => () => void;
   };
 }
 
@@ -582,6 +660,14 @@ const api: DexteriaAPI = {
   board: {
     get: () => ipcRenderer.invoke('board:get'),
     save: (board) => ipcRenderer.invoke('board:save', board),
+    configure: (columns, workflow, fallbackColumnId) => ipcRenderer.invoke('board:configure', columns, workflow, fallbackColumnId),
+    saveFilter: (filter) => ipcRenderer.invoke('board:saveFilter', filter),
+    deleteFilter: (filterId) => ipcRenderer.invoke('board:deleteFilter', filterId),
+    onExternalChange: (callback) => {
+      const handler = (_event: Electron.IpcRendererEvent, change: StoreFileChange) => callback(change);
+      ipcRenderer.on('store:externalChange', handler);
+      return () => ipcRenderer.removeListener('store:externalChange', handler);
+    },
   },
   tasks: {
     getAll: () => ipcRenderer.invoke('tasks:getAll'),
@@ -593,11 +679,18 @@ const api: DexteriaAPI = {
     addComment: (taskId, comment) => ipcRenderer.invoke('tasks:addComment', taskId, comment),
     addTypedComment: (taskId, type, author, content, runId) =>
       ipcRenderer.invoke('tasks:addTypedComment', taskId, type, author, content, runId),
-    getPending: (strategy) => ipcRenderer.invoke('tasks:getPending', strategy),
+    getPending: (strategy, query) => ipcRenderer.invoke('tasks:getPending', strategy, query),
     analyzeState: (taskId) => ipcRenderer.invoke('tasks:analyzeState', taskId),
     getCommentContext: (taskId) => ipcRenderer.invoke('tasks:getCommentContext', taskId),
     getPendingClarifications: (taskId) => ipcRenderer.invoke('tasks:getPendingClarifications', taskId),
     markFailuresAddressed: (taskId, note) => ipcRenderer.invoke('tasks:markFailuresAddressed', taskId, note),
+    getHistory: (taskId) => ipcRenderer.invoke('tasks:getHistory', taskId),
+    getUndoState: () => ipcRenderer.invoke('tasks:getUndoState'),
+    undo: () => ipcRenderer.invoke('tasks:undo'),
+    redo: () => ipcRenderer.invoke('tasks:redo'),
+    selectImportFile: () => ipcRenderer.invoke('tasks:selectImportFile'),
+    import: (inputs) => ipcRenderer.invoke('tasks:import', inputs),
+    export: (format, options) => ipcRenderer.invoke('tasks:export', format, options),
   },
   state: {
     get: () => ipcRenderer.invoke('state:get'),
@@ -606,6 +699,7 @@ const api: DexteriaAPI = {
   policy: {
     get: () => ipcRenderer.invoke('policy:get'),
     update: (policy) => ipcRenderer.invoke('policy:update', policy),
+    simulate: (candidate) => ipcRenderer.invoke('policy:simulate', candidate),
   },
   activity: {
     getRecent: (limit) => ipcRenderer.invoke('activity:getRecent', limit),
@@ -635,6 +729,9 @@ const api: DexteriaAPI = {
     getMetadata: (taskId, runId) => ipcRenderer.invoke('runs:getMetadata', taskId, runId),
     list: (taskId) => ipcRenderer.invoke('runs:list', taskId),
     listAll: () => ipcRenderer.invoke('runs:listAll'),
+    getCheckpoint: (taskId, runId) => ipcRenderer.invoke('runs:getCheckpoint', taskId, runId),
+    rollback: (taskId, runId) => ipcRenderer.invoke('runs:rollback', taskId, runId),
+    rollbackFile: (taskId, runId, filePath) => ipcRenderer.invoke('runs:rollbackFile', taskId, runId, filePath),
   },
   context: {
     getProject: () => ipcRenderer.invoke('context:getProject'),
@@ -665,6 +762,18 @@ const api: DexteriaAPI = {
     setProvider: (providerType, apiKey) => ipcRenderer.invoke('settings:setProvider', providerType, apiKey),
     setApiKey: (apiKey) => ipcRenderer.invoke('settings:setApiKey', apiKey),
     testProvider: () => ipcRenderer.invoke('settings:testProvider'),
+    getOpenAICompatible: () => ipcRenderer.invoke('settings:getOpenAICompatible'),
+    setOpenAICompatible: (settings) => ipcRenderer.invoke('settings:setOpenAICompatible', settings),
+    // Local API server
+    getApiServer: () => ipcRenderer.invoke('settings:getApiServer'),
+    setApiServer: (patch) => ipcRenderer.invoke('settings:setApiServer', patch),
+    regenerateApiToken: () => ipcRenderer.invoke('settings:regenerateApiToken'),
+    // MCP servers
+    getMcpServers: () => ipcRenderer.invoke('settings:getMcpServers'),
+    reconnectMcpServers: () => ipcRenderer.invoke('settings:reconnectMcpServers'),
+    // Forge tokens for pull requests
+    getForgeTokenStatus: (pullRequests) => ipcRenderer.invoke('settings:getForgeTokenStatus', pullRequests),
+    setForgeToken: (pullRequests, token) => ipcRenderer.invoke('settings:setForgeToken', pullRequests, token),
     // Setup wizard completion tracking
     completeSetup: () => ipcRenderer.invoke('settings:completeSetup'),
     resetSetup: () => ipcRenderer.invoke('settings:resetSetup'),
@@ -673,6 +782,8 @@ const api: DexteriaAPI = {
     getProject: () => ipcRenderer.invoke('settings:getProject'),
     saveProject: (settings) => ipcRenderer.invoke('settings:saveProject', settings),
     updateProject: (patch) => ipcRenderer.invoke('settings:updateProject', patch),
+    getStorageInfo: () => ipcRenderer.invoke('settings:getStorageInfo'),
+    migrateStorage: (target) => ipcRenderer.invoke('settings:migrateStorage', target),
     detectCommands: () => ipcRenderer.invoke('settings:detectCommands'),
     getEffectiveCommand: (type) => ipcRenderer.invoke('settings:getEffectiveCommand', type),
     testSound: (preset) => ipcRenderer.invoke('settings:testSound', preset),
@@ -722,6 +833,9 @@ const api: DexteriaAPI = {
       ipcRenderer.on('project:output', handler);
       return () => ipcRenderer.removeListener('project:output', handler);
     },
+    exportArchive: (options) => ipcRenderer.invoke('project:exportArchive', options),
+    selectArchive: () => ipcRenderer.invoke('project:selectArchive'),
+    importArchive: (filePath, options) => ipcRenderer.invoke('project:importArchive', filePath, options),
   },
   theme: {
     getAll: () => ipcRenderer.invoke('theme:getAll'),
@@ -886,6 +1000,10 @@ const api: DexteriaAPI = {
     generateBranchName: (taskId, taskTitle) => ipcRenderer.invoke('git:generateBranchName', taskId, taskTitle),
     // Config
     getConfig: () => ipcRenderer.invoke('git:getConfig'),
+    setConfig: (config) => ipcRenderer.invoke('git:setConfig', config),
+    // Pull requests
+    openPullRequest: (taskId) => ipcRenderer.invoke('git:openPullRequest', taskId),
+    refreshPullRequests: () => ipcRenderer.invoke('git:refreshPullRequests'),
   },
   update: {
     check: () => ipcRenderer.invoke('update:check'),
@@ -947,6 +1065,25 @@ const api: DexteriaAPI = {
     update: (id: string, input: unknown) => ipcRenderer.invoke('template:update', id, input),
     delete: (id: string) => ipcRenderer.invoke('template:delete', id),
     apply: (templateId: string, variables: Record<string, string>) => ipcRenderer.invoke('template:apply', templateId, variables),
+    onRecurringTasksCreated: (callback: (event: RecurringTasksCreatedEvent) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: RecurringTasksCreatedEvent) => callback(data);
+      ipcRenderer.on('template:recurringTasksCreated', handler);
+      return () => ipcRenderer.removeListener('template:recurringTasksCreated', handler);
+    },
+  },
+  approval: {
+    respond: (requestId: string, decision: ApprovalDecision) => ipcRenderer.invoke('approval:respond', requestId, decision),
+    getPending: () => ipcRenderer.invoke('approval:getPending'),
+    onRequested: (callback: (request: ApprovalRequest) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, request: ApprovalRequest) => callback(request);
+      ipcRenderer.on('approval:requested', handler);
+      return () => ipcRenderer.removeListener('approval:requested', handler);
+    },
+    onResolved: (callback: (request: ApprovalRequest) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, request: ApprovalRequest) => callback(request);
+      ipcRenderer.on('approval:resolved', handler);
+      return () => ipcRenderer.removeListener('approval:resolved', handler);
+    },
   },
 };
 
@@ -0,0 +1,316 @@
+/**
+ * API Server
+ *
+ * Opt-in HTTP server on 127.0.0.1 that lets other local tools drive a
+ * running app:
+ *
+ * - `POST /rpc` takes JSON-RPC 2.0 requests (or batches) whose method is an
+ *   IPC channel such as `tasks:getAll` and whose params are its arguments
+ * - `GET /events` streams app events (agent output, process status,
+ *   activity) as server-sent events
+ * - `GET /methods` lists the callable methods
+ *
+ * Every request needs the token, as `Authorization: Bearer <token>` or, for
+ * EventSource clients that cannot set headers, a `token` query parameter.
+ */
+
+import * as http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { onAppEvent, type AppEvent } from './AppEvents';
+import { getErrorCode, getErrorMessage } from '../../shared/errors';
+
+export const DEFAULT_API_PORT = 7420;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 25 * 1000;
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const SERVER_ERROR = -32000;
+
+export interface ApiServerOptions {
+  port: number;
+  token: string;
+  /** Methods clients may call */
+  methods: () => string[];
+  /** Run a method with its arguments */
+  invoke: (method: string, params: unknown[]) => Promise<unknown>;
+}
+
+interface RpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface EventClient {
+  res: http.ServerResponse;
+  /** Channels the client asked for; all when null */
+  channels: Set<string> | null;
+}
+
+/**
+ * Create a random access token.
+ */
+export function createApiToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function rpcError(id: RpcResponse['id'], code: number, message: string, data?: unknown): RpcResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+export class ApiServer {
+  private options: ApiServerOptions;
+  private server: http.Server | null = null;
+  private clients = new Set<EventClient>();
+  private unsubscribe: (() => void) | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: ApiServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Base URL while the server is listening.
+   */
+  get url(): string | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? `http://127.0.0.1:${address.port}` : null;
+  }
+
+  /**
+   * Start listening on 127.0.0.1.
+   *
+   * @returns The base URL
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.url!;
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[ApiServer] Request failed:', error);
+        if (!res.headersSent) sendJson(res, 500, { error: getErrorMessage(error) });
+        else res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    this.unsubscribe = onAppEvent(event => this.broadcast(event));
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) client.res.write(': ping\n\n');
+    }, HEARTBEAT_MS);
+
+    console.log(`[ApiServer] Listening on ${this.url}`);
+    return this.url!;
+  }
+
+  /**
+   * Close event streams and stop listening.
+   */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    for (const client of this.clients) client.res.end();
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+      console.log('[ApiServer] Stopped');
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+    // Reject other hosts, so web pages cannot reach the server through DNS rebinding
+    const host = (req.headers.host || '').replace(/:\d+$/, '');
+    if (host !== '127.0.0.1' && host !== 'localhost') {
+      sendJson(res, 403, { error: 'Forbidden host' });
+      return;
+    }
+
+    if (!this.isAuthorized(req, url)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Invalid or missing token' });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/rpc') {
+      await this.handleRpc(req, res);
+    } else if (req.method === 'GET' && url.pathname === '/events') {
+      this.openEventStream(res, url);
+    } else if (req.method === 'GET' && url.pathname === '/methods') {
+      sendJson(res, 200, { methods: this.options.methods().sort() });
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : url.searchParams.get('token');
+    if (!token) return false;
+
+    const expected = Buffer.from(this.options.token);
+    const given = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private async handleRpc(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        sendJson(res, 413, { error: 'Request body too large' });
+        return;
+      }
+      chunks.push(chunk);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      sendJson(res, 200, rpcError(null, PARSE_ERROR, 'Parse error'));
+      return;
+    }
+
+    if (Array.isArray(body)) {
+      if (body.length === 0) {
+        sendJson(res, 200, rpcError(null, INVALID_REQUEST, 'Empty batch'));
+        return;
+      }
+      // Batch entries run in order, as the renderer would send them
+      const responses: RpcResponse[] = [];
+      for (const request of body) {
+        const response = await this.callMethod(request);
+        if (response) responses.push(response);
+      }
+      if (responses.length > 0) sendJson(res, 200, responses);
+      else res.writeHead(204).end();
+      return;
+    }
+
+    const response = await this.callMethod(body);
+    if (response) sendJson(res, 200, response);
+    else res.writeHead(204).end();
+  }
+
+  /**
+   * Run one JSON-RPC request.
+   *
+   * @returns The response, or null for a notification (no id)
+   */
+  private async callMethod(request: unknown): Promise<RpcResponse | null> {
+    if (!request || typeof request !== 'object') {
+      return rpcError(null, INVALID_REQUEST, 'Invalid request');
+    }
+
+    const { jsonrpc, id, method, params } = request as Record<string, unknown>;
+    const responseId = typeof id === 'string' || typeof id === 'number' ? id : null;
+    if (jsonrpc !== '2.0' || typeof method !== 'string' || (params !== undefined && (params === null || typeof params !== 'object'))) {
+      return rpcError(responseId, INVALID_REQUEST, 'Invalid request');
+    }
+    const isNotification = id === undefined;
+
+    if (!this.options.methods().includes(method)) {
+      return isNotification ? null : rpcError(responseId, METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+
+    // Params are the handler's arguments; an object is its only argument
+    const args = params === undefined ? [] : Array.isArray(params) ? params : [params];
+    try {
+      const result = await this.options.invoke(method, args);
+      return isNotification ? null : { jsonrpc: '2.0', id: responseId, result: result ?? null };
+    } catch (error) {
+      return isNotification ? null : rpcError(responseId, SERVER_ERROR, getErrorMessage(error), { code: getErrorCode(error) });
+    }
+  }
+
+  private openEventStream(res: http.ServerResponse, url: URL): void {
+    const names = url.searchParams.get('events');
+    const client: EventClient = {
+      res,
+      channels: names ? new Set(names.split(',').map(name => name.trim()).filter(Boolean)) : null,
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    this.clients.add(client);
+    res.on('close', () => this.clients.delete(client));
+  }
+
+  private broadcast(event: AppEvent): void {
+    if (this.clients.size === 0) return;
+    const message = `event: ${event.channel}\ndata: ${JSON.stringify(event.data)}\n\n`;
+    for (const client of this.clients) {
+      if (!client.channels || client.channels.has(event.channel)) {
+        client.res.write(message);
+      }
+    }
+  }
+}
+
+// Singleton instance
+let instance: ApiServer | null = null;
+
+/**
+ * Start the server, replacing a running one.
+ *
+ * @returns The base URL
+ */
+export async function startApiServer(options: ApiServerOptions): Promise<string> {
+  await stopApiServer();
+  const server = new ApiServer(options);
+  const url = await server.start();
+  instance = server;
+  return url;
+}
+
+/**
+ * Stop the server if it is running.
+ */
+export async function stopApiServer(): Promise<void> {
+  const server = instance;
+  instance = null;
+  await server?.stop();
+}
+
+/**
+ * Get the running server.
+ */
+export function getApiServer(): ApiServer | null {
+  return instance;
+}
@@ -0,0 +1,44 @@
+/**
+ * App Events
+ *
+ * In-process feed of events that are also sent to the renderer (agent
+ * output, project process status, activity entries), so consumers outside
+ * the window, such as the local API server, can follow them.
+ */
+
+/**
+ * An event, named after its renderer IPC channel.
+ */
+export interface AppEvent {
+  channel: string;
+  data: unknown;
+}
+
+type AppEventListener = (event: AppEvent) => void;
+
+const listeners = new Set<AppEventListener>();
+
+/**
+ * Publish an event to all listeners. Listener errors are logged, not thrown.
+ */
+export function publishAppEvent(channel: string, data: unknown): void {
+  for (const listener of listeners) {
+    try {
+      listener({ channel, data });
+    } catch (error) {
+      console.error(`[AppEvents] Listener failed for ${channel}:`, error);
+    }
+  }
+}
+
+/**
+ * Listen to all events.
+ *
+ * @returns Function that removes the listener
+ */
+export function onAppEvent(listener: AppEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
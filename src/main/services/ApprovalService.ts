@@ -0,0 +1,141 @@
+/**
+ * ApprovalService
+ *
+ * Human approval gate for commands and file operations listed in the
+ * policy's requireConfirmation rules. The agent run waits on
+ * requestApproval() until the user answers from the renderer.
+ *
+ * "Always allow" answers are kept in memory for the current project only.
+ */
+
+import * as crypto from 'crypto';
+import type { ApprovalDecision, ApprovalRequest } from '../../shared/types';
+
+/** Maximum length of the diff preview sent with an approval request */
+const MAX_DIFF_PREVIEW_LENGTH = 20000;
+
+export type ApprovalRequestInput = Omit<ApprovalRequest, 'id' | 'requestedAt'>;
+
+/**
+ * Outcome of an approval request.
+ */
+export interface ApprovalOutcome {
+  request: ApprovalRequest;
+  decision: ApprovalDecision | 'cancelled';
+  /** Decided by an earlier always_allow without asking */
+  automatic: boolean;
+  decidedAt: string;
+}
+
+export type ApprovalNotifier = (event: 'requested' | 'resolved', request: ApprovalRequest) => void;
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision | 'cancelled') => void;
+}
+
+export class ApprovalService {
+  private pending = new Map<string, PendingApproval>();
+  private alwaysAllowed = new Set<string>();
+  private notifier: ApprovalNotifier | null = null;
+
+  /**
+   * Set the callback that forwards requests to the renderer.
+   */
+  setNotifier(notifier: ApprovalNotifier | null): void {
+    this.notifier = notifier;
+  }
+
+  /**
+   * Ask for approval and wait for the answer.
+   */
+  async requestApproval(input: ApprovalRequestInput): Promise<ApprovalOutcome> {
+    const request: ApprovalRequest = {
+      ...input,
+      diffPreview: input.diffPreview && input.diffPreview.length > MAX_DIFF_PREVIEW_LENGTH
+        ? input.diffPreview.substring(0, MAX_DIFF_PREVIEW_LENGTH) + '\n... (diff truncated)'
+        : input.diffPreview,
+      id: `apr-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      requestedAt: new Date().toISOString(),
+    };
+
+    if (this.alwaysAllowed.has(this.getAllowKey(request))) {
+      return { request, decision: 'always_allow', automatic: true, decidedAt: request.requestedAt };
+    }
+
+    const decision = await new Promise<ApprovalDecision | 'cancelled'>(resolve => {
+      this.pending.set(request.id, { request, resolve });
+      this.notifier?.('requested', request);
+    });
+
+    return { request, decision, automatic: false, decidedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Answer a pending request.
+   * @returns false if the request is unknown or already answered
+   */
+  respond(requestId: string, decision: ApprovalDecision): boolean {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return false;
+    }
+
+    if (decision === 'always_allow') {
+      this.alwaysAllowed.add(this.getAllowKey(entry.request));
+    }
+
+    this.resolve(entry, decision);
+    return true;
+  }
+
+  /**
+   * Cancel the pending requests of a run (e.g. when the run is cancelled).
+   */
+  cancelRun(runId: string): void {
+    for (const entry of [...this.pending.values()]) {
+      if (entry.request.runId === runId) {
+        this.resolve(entry, 'cancelled');
+      }
+    }
+  }
+
+  /**
+   * Get the requests waiting for an answer.
+   */
+  getPending(): ApprovalRequest[] {
+    return [...this.pending.values()].map(entry => entry.request);
+  }
+
+  /**
+   * Forget always_allow answers and cancel pending requests (on project change).
+   */
+  reset(): void {
+    for (const entry of [...this.pending.values()]) {
+      this.resolve(entry, 'cancelled');
+    }
+    this.alwaysAllowed.clear();
+  }
+
+  private resolve(entry: PendingApproval, decision: ApprovalDecision | 'cancelled'): void {
+    this.pending.delete(entry.request.id);
+    entry.resolve(decision);
+    this.notifier?.('resolved', entry.request);
+  }
+
+  private getAllowKey(request: ApprovalRequest): string {
+    return request.kind === 'command'
+      ? `command:${(request.command || '').trim()}`
+      : `path:${request.operation}:${request.path}`;
+  }
+}
+
+// Singleton instance (shared by all runs of the app)
+let approvalServiceInstance: ApprovalService | null = null;
+
+export function getApprovalService(): ApprovalService {
+  if (!approvalServiceInstance) {
+    approvalServiceInstance = new ApprovalService();
+  }
+  return approvalServiceInstance;
+}
@@ -0,0 +1,255 @@
+/**
+ * CheckpointService
+ *
+ * Keeps pre-change snapshots of files modified by agent runs so a run
+ * (or a single file in it) can be rolled back without relying on Git.
+ *
+ * Snapshots live in .local-kanban/checkpoints/<taskId>/<runId>/:
+ * - checkpoint.json: the RunCheckpoint manifest
+ * - <n>.snap: original content of each file that existed before the run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { LocalKanbanStore } from './LocalKanbanStore';
+import { LOCAL_KANBAN_PATHS } from '../../shared/schemas/common';
+import type { FileCheckpoint, RunCheckpoint, RollbackResult } from '../../shared/types';
+
+const MANIFEST_FILE = 'checkpoint.json';
+
+/**
+ * Hook used by RepoTools around every file write of a run.
+ */
+export interface WriteCheckpoint {
+  /** Snapshot a file before it is changed (only the first change per run is kept). */
+  captureBefore(relativePath: string, absolutePath: string): void;
+  /** Record the content hash a file has after the run changed it. */
+  captureAfter(relativePath: string, absolutePath: string): void;
+}
+
+export class CheckpointService {
+  private projectRoot: string;
+  private store: Pick<LocalKanbanStore, 'logActivity'>;
+
+  constructor(projectRoot: string, store: Pick<LocalKanbanStore, 'logActivity'>) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.store = store;
+  }
+
+  // ============================================
+  // Recording
+  // ============================================
+
+  /**
+   * Create the write hook for a run.
+   * @param root Directory the run's file paths are relative to
+   */
+  forRun(taskId: string, runId: string, root: string): WriteCheckpoint {
+    return {
+      captureBefore: (relativePath, absolutePath) =>
+        this.captureBefore(taskId, runId, root, relativePath, absolutePath),
+      captureAfter: (relativePath, absolutePath) =>
+        this.captureAfter(taskId, runId, relativePath, absolutePath),
+    };
+  }
+
+  private captureBefore(
+    taskId: string,
+    runId: string,
+    root: string,
+    relativePath: string,
+    absolutePath: string
+  ): void {
+    const checkpoint = this.getCheckpoint(taskId, runId) || {
+      runId,
+      taskId,
+      root: path.resolve(root),
+      createdAt: new Date().toISOString(),
+      files: [],
+    };
+
+    const key = this.normalize(relativePath);
+    if (checkpoint.files.some(f => f.path === key)) {
+      return;
+    }
+
+    const dir = this.getCheckpointDir(taskId, runId);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const existed = fs.existsSync(absolutePath);
+    const entry: FileCheckpoint = {
+      path: key,
+      existed,
+      beforeHash: null,
+      afterHash: null,
+      capturedAt: new Date().toISOString(),
+    };
+
+    if (existed) {
+      const content = fs.readFileSync(absolutePath);
+      entry.snapshotFile = `${checkpoint.files.length}.snap`;
+      entry.beforeHash = this.hash(content);
+      fs.writeFileSync(path.join(dir, entry.snapshotFile), content);
+    }
+
+    checkpoint.files.push(entry);
+    this.saveCheckpoint(checkpoint);
+  }
+
+  private captureAfter(taskId: string, runId: string, relativePath: string, absolutePath: string): void {
+    const checkpoint = this.getCheckpoint(taskId, runId);
+    const entry = checkpoint?.files.find(f => f.path === this.normalize(relativePath));
+    if (!checkpoint || !entry) return;
+
+    entry.afterHash = this.hashFile(absolutePath);
+    this.saveCheckpoint(checkpoint);
+  }
+
+  // ============================================
+  // Reading
+  // ============================================
+
+  /**
+   * Load the checkpoint of a run, or null if the run changed no files.
+   */
+  getCheckpoint(taskId: string, runId: string): RunCheckpoint | null {
+    const manifestPath = path.join(this.getCheckpointDir(taskId, runId), MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunCheckpoint;
+    } catch (err) {
+      console.error(`Failed to read checkpoint for run ${runId}:`, err);
+      return null;
+    }
+  }
+
+  // ============================================
+  // Rollback
+  // ============================================
+
+  /**
+   * Restore every file of a run to its pre-run content.
+   * Nothing is restored if any file was changed after the run.
+   */
+  rollbackRun(taskId: string, runId: string): RollbackResult {
+    return this.rollback(taskId, runId, null);
+  }
+
+  /**
+   * Restore a single file of a run to its pre-run content.
+   */
+  rollbackFile(taskId: string, runId: string, filePath: string): RollbackResult {
+    return this.rollback(taskId, runId, this.normalize(filePath));
+  }
+
+  private rollback(taskId: string, runId: string, onlyPath: string | null): RollbackResult {
+    const checkpoint = this.getCheckpoint(taskId, runId);
+    if (!checkpoint) {
+      return { success: false, restored: [], conflicts: [], error: `No checkpoint found for run ${runId}` };
+    }
+
+    if (!fs.existsSync(checkpoint.root)) {
+      return {
+        success: false,
+        restored: [],
+        conflicts: [],
+        error: `Run directory no longer exists: ${checkpoint.root}`,
+      };
+    }
+
+    const entries = checkpoint.files.filter(f => !f.rolledBackAt && (onlyPath === null || f.path === onlyPath));
+    if (entries.length === 0) {
+      return {
+        success: false,
+        restored: [],
+        conflicts: [],
+        error: onlyPath ? `Nothing to roll back for ${onlyPath}` : 'Run has already been rolled back',
+      };
+    }
+
+    // Refuse if anything changed since the run wrote it
+    const conflicts: RollbackResult['conflicts'] = [];
+    for (const entry of entries) {
+      const currentHash = this.hashFile(this.resolve(checkpoint, entry.path));
+      if (currentHash !== entry.afterHash) {
+        conflicts.push({
+          path: entry.path,
+          reason: currentHash === null
+            ? 'File was deleted after the run'
+            : 'File was modified after the run',
+        });
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        restored: [],
+        conflicts,
+        error: `${conflicts.length} file(s) changed since the run; rollback refused`,
+      };
+    }
+
+    const dir = this.getCheckpointDir(taskId, runId);
+    const restored: string[] = [];
+
+    for (const entry of entries) {
+      const target = this.resolve(checkpoint, entry.path);
+
+      if (entry.existed && entry.snapshotFile) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(path.join(dir, entry.snapshotFile), target);
+      } else if (fs.existsSync(target)) {
+        // The run created this file
+        fs.unlinkSync(target);
+      }
+
+      entry.rolledBackAt = new Date().toISOString();
+      restored.push(entry.path);
+    }
+
+    this.saveCheckpoint(checkpoint);
+
+    this.store.logActivity('run_rolled_back', {
+      runId,
+      files: restored,
+      scope: onlyPath === null ? 'run' : 'file',
+    }, { taskId, runId });
+
+    return { success: true, restored, conflicts: [] };
+  }
+
+  // ============================================
+  // Helper Methods
+  // ============================================
+
+  private getCheckpointDir(taskId: string, runId: string): string {
+    return path.join(this.projectRoot, LOCAL_KANBAN_PATHS.checkpoints, taskId, runId);
+  }
+
+  private saveCheckpoint(checkpoint: RunCheckpoint): void {
+    const dir = this.getCheckpointDir(checkpoint.taskId, checkpoint.runId);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(checkpoint, null, 2));
+  }
+
+  private resolve(checkpoint: RunCheckpoint, relativePath: string): string {
+    return path.resolve(checkpoint.root, relativePath);
+  }
+
+  private normalize(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+  }
+
+  private hash(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  private hashFile(filePath: string): string | null {
+    return fs.existsSync(filePath) ? this.hash(fs.readFileSync(filePath)) : null;
+  }
+}
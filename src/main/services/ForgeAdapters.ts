@@ -0,0 +1,406 @@
+/**
+ * Forge Adapters
+ *
+ * Open and track pull requests on the service hosting a repository, through
+ * its REST API. Each forge has an adapter; GitStateManager picks one from
+ * the project's pull request settings and does not depend on the forge.
+ */
+
+import { ApiError, ConfigurationError } from '../../shared/errors';
+import type {
+  AgentRun,
+  ForgeType,
+  PullRequestConfig,
+  PullRequestState,
+  Task,
+} from '../../shared/types';
+
+/**
+ * Repository on a forge.
+ */
+export interface ForgeRepository {
+  /** Host of the forge, e.g. github.com */
+  host: string;
+  /** Owner path; GitLab groups may be nested (group/subgroup) */
+  owner: string;
+  name: string;
+}
+
+export interface CreatePullRequestOptions {
+  title: string;
+  body: string;
+  sourceBranch: string;
+  targetBranch: string;
+  draft?: boolean;
+}
+
+/**
+ * A pull request as the forge reports it.
+ */
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  state: PullRequestState;
+}
+
+export interface ForgeAdapter {
+  readonly type: ForgeType;
+  /** Open a pull request */
+  createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo>;
+  /** Get a pull request by number */
+  getPullRequest(number: number): Promise<PullRequestInfo>;
+  /** Find the open pull request of a branch, if there is one */
+  findOpenPullRequest(sourceBranch: string): Promise<PullRequestInfo | null>;
+}
+
+export interface ForgeAdapterOptions {
+  /** API base URL, without a trailing slash */
+  apiUrl: string;
+  repository: ForgeRepository;
+  token: string;
+}
+
+/** Longest pull request body the forges accept, with some room to spare */
+const MAX_BODY_LENGTH = 60000;
+
+/** Pull requests per page when a forge's list cannot be filtered by branch */
+const LIST_PAGE_SIZE = 50;
+
+/**
+ * Parse the owner and name of a repository from a remote URL, in HTTPS
+ * (https://host/owner/name.git) or SSH (git@host:owner/name.git) form.
+ */
+export function parseRemoteUrl(url: string): ForgeRepository | null {
+  const match = url.trim().match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i);
+  if (!match) return null;
+
+  const parts = match[2].split('/').filter(Boolean);
+  if (parts.length < 2) return null;
+  return { host: match[1], owner: parts.slice(0, -1).join('/'), name: parts[parts.length - 1] };
+}
+
+/**
+ * Get the default API base URL of a forge on a host.
+ */
+export function getDefaultApiUrl(forge: ForgeType, host: string): string {
+  switch (forge) {
+    case 'github':
+      return host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+    case 'gitlab':
+      return `https://${host}/api/v4`;
+    case 'gitea':
+      return `https://${host}/api/v1`;
+  }
+}
+
+/**
+ * Where a project's pull request API calls go.
+ */
+export interface ForgeApiHost {
+  /** Host (with port, if any) of the API URL */
+  host: string;
+  /** Whether it is the API host of the forge the origin remote is on */
+  matchesRemote: boolean;
+}
+
+/**
+ * Get the host a project's pull request API calls go to: the host of the
+ * API URL in its settings, else the default API of the origin remote's host.
+ * Tokens are looked up by this host, so a project whose settings point the
+ * API URL elsewhere cannot receive a token saved for another forge.
+ *
+ * @returns null if neither the settings nor the remote tell the API URL
+ */
+export function getForgeApiHost(config: PullRequestConfig, remoteUrl: string | null): ForgeApiHost | null {
+  const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+  const remoteApiHost = remote ? new URL(getDefaultApiUrl(config.forge, remote.host)).host : null;
+  if (!config.apiUrl) {
+    return remoteApiHost ? { host: remoteApiHost, matchesRemote: true } : null;
+  }
+
+  try {
+    const host = new URL(config.apiUrl).host;
+    return { host, matchesRemote: host === remoteApiHost };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a pull request description from a task and its latest agent run.
+ */
+export function buildPullRequestBody(task: Task, run?: AgentRun | null): string {
+  const sections: string[] = [];
+
+  if (task.description.trim()) {
+    sections.push(task.description.trim());
+  }
+
+  if (task.acceptanceCriteria.length > 0) {
+    const results = run?.acceptanceResults || [];
+    const lines = task.acceptanceCriteria.map(criterion => {
+      const result = results.find(r => r.criterion === criterion);
+      const evidence = result?.evidence ? ` — ${result.evidence}` : '';
+      return `- [${result?.passed ? 'x' : ' '}] ${criterion}${evidence}`;
+    });
+    sections.push(`## Acceptance Criteria\n\n${lines.join('\n')}`);
+  }
+
+  if (run?.summary?.trim()) {
+    sections.push(`## Agent Summary\n\n${run.summary.trim()}`);
+  }
+
+  sections.push(`---\nOpened by Dexteria for ${task.id}.`);
+
+  const body = sections.join('\n\n');
+  return body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}\n\n…` : body;
+}
+
+/**
+ * Shared request handling of the REST adapters.
+ */
+abstract class RestForgeAdapter implements ForgeAdapter {
+  abstract readonly type: ForgeType;
+  protected apiUrl: string;
+  protected repository: ForgeRepository;
+  protected token: string;
+
+  constructor(options: ForgeAdapterOptions) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '');
+    this.repository = options.repository;
+    this.token = options.token;
+  }
+
+  abstract createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo>;
+  abstract getPullRequest(number: number): Promise<PullRequestInfo>;
+  abstract findOpenPullRequest(sourceBranch: string): Promise<PullRequestInfo | null>;
+
+  protected abstract getAuthHeaders(): Record<string, string>;
+
+  protected async request<T>(method: 'GET' | 'POST', endpoint: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...this.getAuthHeaders(),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await response.text();
+    let data: unknown = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      data = text;
+    }
+
+    if (!response.ok) {
+      const detail = (data as { message?: unknown } | null)?.message;
+      throw new ApiError(
+        `${this.type} API request failed: HTTP ${response.status}${detail ? ` ${JSON.stringify(detail)}` : ''}`,
+        response.status,
+        endpoint,
+        data
+      );
+    }
+    return data as T;
+  }
+}
+
+interface GitHubPull {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  draft?: boolean;
+  merged?: boolean;
+  merged_at?: string | null;
+}
+
+class GitHubAdapter extends RestForgeAdapter {
+  readonly type = 'github' as const;
+
+  private get repoPath(): string {
+    return `/repos/${this.repository.owner}/${this.repository.name}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.token}`, 'X-GitHub-Api-Version': '2022-11-28' };
+  }
+
+  async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo> {
+    const pull = await this.request<GitHubPull>('POST', `${this.repoPath}/pulls`, {
+      title: options.title,
+      body: options.body,
+      head: options.sourceBranch,
+      base: options.targetBranch,
+      draft: options.draft ?? false,
+    });
+    return this.toInfo(pull);
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestInfo> {
+    return this.toInfo(await this.request<GitHubPull>('GET', `${this.repoPath}/pulls/${number}`));
+  }
+
+  async findOpenPullRequest(sourceBranch: string): Promise<PullRequestInfo | null> {
+    const head = encodeURIComponent(`${this.repository.owner}:${sourceBranch}`);
+    const pulls = await this.request<GitHubPull[]>('GET', `${this.repoPath}/pulls?state=open&head=${head}`);
+    return pulls.length > 0 ? this.toInfo(pulls[0]) : null;
+  }
+
+  private toInfo(pull: GitHubPull): PullRequestInfo {
+    const state: PullRequestState = pull.merged || pull.merged_at ? 'merged'
+      : pull.state === 'closed' ? 'closed'
+      : pull.draft ? 'draft' : 'open';
+    return { number: pull.number, url: pull.html_url, state };
+  }
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  draft?: boolean;
+}
+
+class GitLabAdapter extends RestForgeAdapter {
+  readonly type = 'gitlab' as const;
+
+  private get projectPath(): string {
+    return `/projects/${encodeURIComponent(`${this.repository.owner}/${this.repository.name}`)}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { 'PRIVATE-TOKEN': this.token };
+  }
+
+  async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo> {
+    const request = await this.request<GitLabMergeRequest>('POST', `${this.projectPath}/merge_requests`, {
+      // GitLab marks merge requests as drafts by their title
+      title: options.draft ? `Draft: ${options.title}` : options.title,
+      description: options.body,
+      source_branch: options.sourceBranch,
+      target_branch: options.targetBranch,
+      remove_source_branch: true,
+    });
+    return this.toInfo(request);
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestInfo> {
+    return this.toInfo(await this.request<GitLabMergeRequest>('GET', `${this.projectPath}/merge_requests/${number}`));
+  }
+
+  async findOpenPullRequest(sourceBranch: string): Promise<PullRequestInfo | null> {
+    const requests = await this.request<GitLabMergeRequest[]>(
+      'GET',
+      `${this.projectPath}/merge_requests?state=opened&source_branch=${encodeURIComponent(sourceBranch)}`
+    );
+    return requests.length > 0 ? this.toInfo(requests[0]) : null;
+  }
+
+  private toInfo(request: GitLabMergeRequest): PullRequestInfo {
+    const state: PullRequestState = request.state === 'merged' ? 'merged'
+      : request.state === 'opened' ? (request.draft ? 'draft' : 'open')
+      : 'closed';
+    return { number: request.iid, url: request.web_url, state };
+  }
+}
+
+interface GiteaPull {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  draft?: boolean;
+  head?: { ref?: string };
+}
+
+class GiteaAdapter extends RestForgeAdapter {
+  readonly type = 'gitea' as const;
+
+  private get repoPath(): string {
+    return `/repos/${this.repository.owner}/${this.repository.name}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { Authorization: `token ${this.token}` };
+  }
+
+  async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo> {
+    const pull = await this.request<GiteaPull>('POST', `${this.repoPath}/pulls`, {
+      // Gitea marks pull requests as drafts by their title
+      title: options.draft ? `WIP: ${options.title}` : options.title,
+      body: options.body,
+      head: options.sourceBranch,
+      base: options.targetBranch,
+    });
+    return this.toInfo(pull);
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestInfo> {
+    return this.toInfo(await this.request<GiteaPull>('GET', `${this.repoPath}/pulls/${number}`));
+  }
+
+  async findOpenPullRequest(sourceBranch: string): Promise<PullRequestInfo | null> {
+    // The list cannot be filtered by branch. Servers may cap the page size
+    // below the requested limit, so only an empty page ends the list.
+    for (let page = 1; ; page++) {
+      const pulls = await this.request<GiteaPull[]>('GET', `${this.repoPath}/pulls?state=open&limit=${LIST_PAGE_SIZE}&page=${page}`);
+      const pull = pulls.find(p => p.head?.ref === sourceBranch);
+      if (pull) return this.toInfo(pull);
+      if (pulls.length === 0) return null;
+    }
+  }
+
+  private toInfo(pull: GiteaPull): PullRequestInfo {
+    const state: PullRequestState = pull.merged ? 'merged'
+      : pull.state === 'closed' ? 'closed'
+      : pull.draft ? 'draft' : 'open';
+    return { number: pull.number, url: pull.html_url, state };
+  }
+}
+
+const FORGE_ADAPTERS: Record<ForgeType, new (options: ForgeAdapterOptions) => ForgeAdapter> = {
+  github: GitHubAdapter,
+  gitlab: GitLabAdapter,
+  gitea: GiteaAdapter,
+};
+
+/**
+ * Create the adapter for a project's pull request settings.
+ *
+ * @param remoteUrl - URL of the origin remote, used unless the settings name the repository
+ * @throws ConfigurationError if the repository cannot be determined or there is no token
+ */
+export function createForgeAdapter(
+  config: PullRequestConfig,
+  remoteUrl: string | null,
+  token: string | undefined
+): ForgeAdapter {
+  const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+  let repository = remote;
+  if (config.repository) {
+    const parts = config.repository.split('/');
+    repository = { host: remote?.host ?? '', owner: parts.slice(0, -1).join('/'), name: parts[parts.length - 1] };
+  }
+  if (!repository) {
+    throw new ConfigurationError(
+      'Cannot tell the repository from the origin remote; set it in the pull request settings',
+      'git.pullRequests.repository'
+    );
+  }
+  if (!config.apiUrl && !remote) {
+    throw new ConfigurationError('Set the API URL of the forge in the pull request settings', 'git.pullRequests.apiUrl');
+  }
+  if (!token) {
+    throw new ConfigurationError(`No ${config.forge} access token is set`, 'git.pullRequests.token');
+  }
+
+  return new FORGE_ADAPTERS[config.forge]({
+    apiUrl: config.apiUrl || getDefaultApiUrl(config.forge, remote!.host),
+    repository,
+    token,
+  });
+}
@@ -355,6 +355,73 @@ export class GitService {
     return result.success;
   }
 
+  // ============================================
+  // Worktree Operations
+  // ============================================
+
+  /**
+   * Add a worktree at the given path with an existing branch checked out.
+   */
+  async addWorktree(worktreePath: string, branch: string): Promise<GitCommandResult> {
+    return this.exec(['worktree', 'add', worktreePath, branch]);
+  }
+
+  /**
+   * Remove a worktree. With force, uncommitted changes in it are discarded.
+   */
+  async removeWorktree(worktreePath: string, force = false): Promise<GitCommandResult> {
+    const args = ['worktree', 'remove'];
+    if (force) args.push('--force');
+    args.push(worktreePath);
+    return this.exec(args);
+  }
+
+  /**
+   * Prune administrative data for worktrees whose directories no longer exist.
+   */
+  async pruneWorktrees(): Promise<GitCommandResult> {
+    return this.exec(['worktree', 'prune']);
+  }
+
+  /**
+   * List worktrees attached to the repository.
+   */
+  async listWorktrees(): Promise<Array<{ path: string; branch: string | null }>> {
+    const result = await this.exec(['worktree', 'list', '--porcelain']);
+    if (!result.success) return [];
+
+    const worktrees: Array<{ path: string; branch: string | null }> = [];
+    for (const block of result.stdout.split(/\n\s*\n/)) {
+      const lines = block.split('\n');
+      const pathLine = lines.find((l) => l.startsWith('worktree '));
+      if (!pathLine) continue;
+      const branchLine = lines.find((l) => l.startsWith('branch '));
+      worktrees.push({
+        path: path.resolve(pathLine.substring('worktree '.length)),
+        branch: branchLine ? branchLine.substring('branch '.length).replace(/^refs\/heads\//, '') : null,
+      });
+    }
+    return worktrees;
+  }
+
+  /**
+   * Ensure a path pattern is listed in the repository's local exclude file
+   * (.git/info/exclude), so it is ignored without touching .gitignore.
+   */
+  async ensureLocalExclude(pattern: string): Promise<void> {
+    const result = await this.exec(['rev-parse', '--git-common-dir']);
+    if (!result.success) return;
+
+    const gitDir = path.resolve(this.projectRoot, result.stdout);
+    const excludePath = path.join(gitDir, 'info', 'exclude');
+    const existing = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, 'utf-8') : '';
+    if (existing.split(/\r?\n/).includes(pattern)) return;
+
+    fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+    const prefix = existing.length > 0 && !existing.endsWith('\n') ? '\n' : '';
+    fs.appendFileSync(excludePath, `${prefix}${pattern}\n`);
+  }
+
   // ============================================
   // Staging & Commit Operations
   // ============================================
@@ -396,6 +463,38 @@ export class GitService {
     return result.success ? result.stdout : null;
   }
 
+  /**
+   * List the files changed since a commit: committed, staged, unstaged and
+   * untracked (not ignored) ones, relative to the project root.
+   */
+  async getChangedFiles(since: string): Promise<string[]> {
+    const diff = await this.exec(['-c', 'core.quotePath=false', 'diff', '--name-only', '--relative', since]);
+    const untracked = await this.exec(['-c', 'core.quotePath=false', 'ls-files', '--others', '--exclude-standard']);
+    const files = [diff, untracked].flatMap(result => (result.success ? result.stdout.split('\n') : []));
+    return [...new Set(files.filter(Boolean))];
+  }
+
+  /**
+   * Get the diff of one file since a commit. An untracked file is shown as
+   * created.
+   */
+  async getFileDiff(since: string, file: string): Promise<string> {
+    const tracked = await this.exec(['diff', since, '--', file]);
+    if (tracked.stdout) return tracked.stdout;
+
+    // Exits with 1 when the files differ
+    const untracked = await this.exec(['diff', '--no-index', '--', '/dev/null', file]);
+    return untracked.stdout;
+  }
+
+  /**
+   * Get the size of a file in a commit, or null if the commit does not have it.
+   */
+  async getFileSize(commit: string, file: string): Promise<number | null> {
+    const result = await this.exec(['cat-file', '-s', `${commit}:./${file}`]);
+    return result.success ? Number(result.stdout) : null;
+  }
+
   /**
    * Get commit history.
    */
@@ -587,6 +686,14 @@ export class GitService {
     return this.exec(args, { timeout: 60000 });
   }
 
+  /**
+   * Get the URL of a remote.
+   */
+  async getRemoteUrl(remote = 'origin'): Promise<string | null> {
+    const result = await this.exec(['remote', 'get-url', remote]);
+    return result.success ? result.stdout.trim() || null : null;
+  }
+
   /**
    * Pull from remote.
    */
@@ -9,18 +9,33 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { GitService } from './GitService';
+import {
+  buildPullRequestBody,
+  createForgeAdapter,
+  getForgeApiHost,
+  type ForgeAdapter,
+  type ForgeApiHost,
+} from './ForgeAdapters';
 import type { LocalKanbanStore } from './LocalKanbanStore';
+import { getErrorMessage } from '../../shared/errors';
 import type {
+  ForgeType,
   GitConfig,
   GitStateFile,
   TaskBranchMapping,
   GitOperationLog,
   GitOperationInitiator,
   MergeResult,
+  PullRequestConfig,
   Task,
+  TaskPullRequest,
   TaskStatus,
 } from '../../shared/types';
-import { DEFAULT_GIT_STATE } from '../../shared/types';
+import { DEFAULT_GIT_CONFIG, DEFAULT_GIT_STATE } from '../../shared/types';
+import { LOCAL_KANBAN_PATHS } from '../../shared/schemas';
+
+/** Pull requests checked at once, to stay within forge rate limits */
+const PULL_REQUEST_REFRESH_BATCH = 4;
 
 /**
  * Result of a task status change operation.
@@ -36,17 +51,32 @@ export interface TaskStatusChangeResult {
   warnings?: string[];
   /** Merge result if a merge was performed */
   mergeResult?: MergeResult;
+  /** Worktree path if the operation created or used a task worktree */
+  worktreePath?: string;
+  /** Pull request opened or found for the task branch */
+  pullRequest?: TaskPullRequest;
+}
+
+export interface GitStateManagerOptions {
+  /** Access token of a forge for the API host the project's pull requests go to */
+  getForgeToken?: (forge: ForgeType, apiHost: ForgeApiHost) => string | undefined;
 }
 
 /**
  * GitStateManager handles task-branch lifecycle.
  */
 export class GitStateManager {
+  private projectRoot: string;
   private gitService: GitService;
   private stateFilePath: string;
   private state: GitStateFile;
+  private store: LocalKanbanStore;
+  private options: GitStateManagerOptions;
 
-  constructor(projectRoot: string, _store: LocalKanbanStore) {
+  constructor(projectRoot: string, store: LocalKanbanStore, options: GitStateManagerOptions = {}) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.store = store;
+    this.options = options;
     this.gitService = new GitService(projectRoot);
     this.stateFilePath = path.join(projectRoot, '.local-kanban', 'git-state.json');
     this.state = this.loadState();
@@ -347,6 +377,14 @@ export class GitStateManager {
       };
     }
 
+    // Don't delete while a worktree still has the branch checked out
+    if (mapping.worktreePath) {
+      return {
+        success: false,
+        error: `Branch ${mapping.branchName} is checked out in worktree ${mapping.worktreePath}`,
+      };
+    }
+
     const result = await this.gitService.deleteBranch(mapping.branchName, force);
     const duration = Date.now() - startTime;
 
@@ -377,6 +415,204 @@ export class GitStateManager {
     };
   }
 
+  // ============================================
+  // Task Worktrees
+  // ============================================
+
+  /**
+   * Get the directory a task's worktree is created in.
+   */
+  getTaskWorktreePath(taskId: string): string {
+    return path.join(this.projectRoot, LOCAL_KANBAN_PATHS.worktrees, taskId);
+  }
+
+  /**
+   * Create a worktree for a task, checked out on the task branch.
+   * The branch is created from the main branch if the task has none yet.
+   * Lets several task runs work in parallel without switching the main checkout.
+   */
+  async createTaskWorktree(
+    task: Task,
+    config: GitConfig,
+    initiatedBy: GitOperationInitiator = 'system'
+  ): Promise<TaskStatusChangeResult> {
+    let mapping = this.getTaskBranchMapping(task.id);
+
+    // Reuse an existing worktree
+    if (mapping?.worktreePath && fs.existsSync(mapping.worktreePath)) {
+      return {
+        success: true,
+        branchName: mapping.branchName,
+        worktreePath: mapping.worktreePath,
+      };
+    }
+
+    if (!mapping) {
+      const createResult = await this.createTaskBranch(task, config, initiatedBy);
+      if (!createResult.success) {
+        return createResult;
+      }
+      mapping = this.getTaskBranchMapping(task.id);
+      if (!mapping) {
+        return { success: false, error: `No branch mapping found for task ${task.id}` };
+      }
+    }
+
+    if (mapping.isCheckedOut) {
+      return {
+        success: false,
+        error: `Branch ${mapping.branchName} is checked out in the main working tree`,
+      };
+    }
+
+    const startTime = Date.now();
+    const worktreePath = this.getTaskWorktreePath(task.id);
+
+    // Keep worktrees out of the main checkout's status and commits
+    await this.gitService.ensureLocalExclude(`/${LOCAL_KANBAN_PATHS.worktrees}/`);
+    // Drop stale entries for worktree directories deleted outside of Git
+    await this.gitService.pruneWorktrees();
+
+    const result = await this.gitService.addWorktree(worktreePath, mapping.branchName);
+    const duration = Date.now() - startTime;
+
+    this.logOperation(
+      `git worktree add ${worktreePath} ${mapping.branchName}`,
+      result.success,
+      result.stdout,
+      result.stderr,
+      task.id,
+      initiatedBy,
+      duration
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Failed to create worktree',
+      };
+    }
+
+    this.updateMapping(task.id, { worktreePath });
+
+    return {
+      success: true,
+      branchName: mapping.branchName,
+      worktreePath,
+    };
+  }
+
+  /**
+   * Commit all changes in a task's worktree to the task branch.
+   */
+  async commitTaskWorktree(
+    taskId: string,
+    message: string,
+    initiatedBy: GitOperationInitiator = 'system'
+  ): Promise<TaskStatusChangeResult> {
+    const mapping = this.getTaskBranchMapping(taskId);
+    if (!mapping?.worktreePath) {
+      return {
+        success: false,
+        error: `No worktree found for task ${taskId}`,
+      };
+    }
+
+    const worktreeGit = new GitService(mapping.worktreePath);
+    const status = await worktreeGit.getStatus();
+    if (!status.isDirty) {
+      return { success: true, branchName: mapping.branchName, worktreePath: mapping.worktreePath };
+    }
+
+    const startTime = Date.now();
+    await worktreeGit.stageFiles('all');
+    const result = await worktreeGit.commit(message);
+    const duration = Date.now() - startTime;
+
+    this.logOperation(
+      `git commit (worktree ${mapping.branchName})`,
+      result.success,
+      result.stdout,
+      result.stderr,
+      taskId,
+      initiatedBy,
+      duration
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Failed to commit worktree changes',
+      };
+    }
+
+    const newHead = await worktreeGit.getHeadCommit();
+    if (newHead) {
+      this.updateMapping(taskId, { headCommitHash: newHead });
+    }
+
+    return {
+      success: true,
+      branchName: mapping.branchName,
+      worktreePath: mapping.worktreePath,
+    };
+  }
+
+  /**
+   * Remove a task's worktree. The task branch is kept.
+   * With force, uncommitted changes in the worktree are discarded.
+   */
+  async removeTaskWorktree(
+    taskId: string,
+    force = false,
+    initiatedBy: GitOperationInitiator = 'system'
+  ): Promise<TaskStatusChangeResult> {
+    const mapping = this.getTaskBranchMapping(taskId);
+    if (!mapping?.worktreePath) {
+      return { success: true, branchName: mapping?.branchName };
+    }
+
+    const startTime = Date.now();
+    const worktreePath = mapping.worktreePath;
+    const result = await this.gitService.removeWorktree(worktreePath, force);
+    const duration = Date.now() - startTime;
+
+    this.logOperation(
+      `git worktree remove ${force ? '--force ' : ''}${worktreePath}`,
+      result.success,
+      result.stdout,
+      result.stderr,
+      taskId,
+      initiatedBy,
+      duration
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Failed to remove worktree',
+      };
+    }
+
+    this.updateMapping(taskId, { worktreePath: null });
+
+    return {
+      success: true,
+      branchName: mapping.branchName,
+    };
+  }
+
+  /**
+   * Apply changes to a task's mapping and persist them.
+   */
+  private updateMapping(taskId: string, changes: Partial<TaskBranchMapping>): void {
+    const idx = this.state.mappings.findIndex((m) => m.taskId === taskId);
+    if (idx >= 0) {
+      this.state.mappings[idx] = { ...this.state.mappings[idx], ...changes };
+      this.saveState();
+    }
+  }
+
   // ============================================
   // Task Lifecycle State Machine
   // ============================================
@@ -386,8 +622,9 @@ export class GitStateManager {
    *
    * State transitions:
    * - backlog/todo → doing: Create branch, checkout
-   * - doing → review: Commit changes, optionally merge to review branch
-   * - review → done: Merge to main, delete branch
+   * - doing → review: Commit changes, then open a pull request (pull request
+   *   mode) or optionally merge to review branch
+   * - review → done: Merge to main (or check the pull request was merged), delete branch
    * - review → doing: Revert merge (if in review branch)
    */
   async handleTaskStatusChange(
@@ -433,6 +670,57 @@ export class GitStateManager {
     }
   }
 
+  /**
+   * Run the Git lifecycle for a move the store has already made, using the
+   * project's Git settings, and record the outcome on the task: its branch,
+   * its pull request, and comments for errors and warnings. Shared by manual
+   * moves and the agent runs that move tasks themselves.
+   */
+  async applyTaskMove(
+    taskId: string,
+    fromStatus: TaskStatus,
+    toStatus: TaskStatus,
+    initiatedBy: GitOperationInitiator = 'system'
+  ): Promise<void> {
+    const config = (this.store.getSettings() as { git?: GitConfig }).git || DEFAULT_GIT_CONFIG;
+    const task = this.store.getTask(taskId);
+    if (!task || fromStatus === toStatus || !config.gitEnabled || config.gitMode === 'none') {
+      return;
+    }
+
+    try {
+      const result = await this.handleTaskStatusChange(task, fromStatus, toStatus, config, initiatedBy);
+
+      if (result.branchName) {
+        this.store.updateTask(taskId, {
+          gitBranch: result.branchName,
+          gitBranchCheckedOut: this.getTaskBranchMapping(taskId)?.isCheckedOut ?? true,
+        });
+      }
+
+      if (result.pullRequest) {
+        this.store.updateTask(taskId, { pullRequest: result.pullRequest });
+        if (result.pullRequest.number !== task.pullRequest?.number) {
+          this.store.addTypedComment(
+            taskId,
+            'system',
+            'Git',
+            `Opened pull request #${result.pullRequest.number}: ${result.pullRequest.url}`
+          );
+        }
+      }
+
+      if (!result.success && result.error) {
+        this.store.addTypedComment(taskId, 'system', 'Git', `Git operation failed: ${result.error}`);
+      } else if (result.warnings && result.warnings.length > 0) {
+        this.store.addTypedComment(taskId, 'system', 'Git', `Git: ${result.warnings.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Git lifecycle error:', error);
+      this.store.addTypedComment(taskId, 'system', 'Git', `Git error: ${getErrorMessage(error)}`);
+    }
+  }
+
   /**
    * Handle starting work on a task (backlog/todo → doing).
    */
@@ -514,6 +802,9 @@ export class GitStateManager {
 
     // In basic mode, just update mapping status
     if (config.gitMode === 'basic') {
+      if (mapping && config.pullRequests?.enabled) {
+        return this.openPullRequest(task, config, initiatedBy);
+      }
       return { success: true, branchName: mapping?.branchName };
     }
 
@@ -524,9 +815,10 @@ export class GitStateManager {
       };
     }
 
-    // Check for uncommitted changes
+    // Check for uncommitted changes (work done in a worktree was committed
+    // there, and the main working tree may be on another branch)
     const status = await this.gitService.getStatus();
-    if (status.isDirty) {
+    if (status.isDirty && mapping.isCheckedOut) {
       // Stage and commit changes
       await this.gitService.stageFiles('all');
       const commitResult = await this.gitService.commit(
@@ -547,6 +839,14 @@ export class GitStateManager {
       }
     }
 
+    // In pull request mode the forge hosts the review instead of a local branch
+    if (config.pullRequests?.enabled) {
+      this.saveState();
+      const prResult = await this.openPullRequest(task, config, initiatedBy);
+      const allWarnings = [...warnings, ...(prResult.warnings || [])];
+      return { ...prResult, warnings: allWarnings.length > 0 ? allWarnings : undefined };
+    }
+
     // If review branch is configured, merge into it
     if (config.reviewBranch) {
       const mergeResult = await this.mergeTaskToReview(task.id, config, initiatedBy);
@@ -591,6 +891,11 @@ export class GitStateManager {
       return { success: true, branchName: mapping.branchName };
     }
 
+    // In pull request mode the forge merges; only clean up once it has
+    if (config.pullRequests?.enabled && task.pullRequest) {
+      return this.handlePullRequestComplete(task, mapping, config, initiatedBy);
+    }
+
     // In advanced mode, merge to main and delete branch
     const mergeResult = await this.mergeTaskToMain(task.id, config, initiatedBy);
     if (!mergeResult.success) {
@@ -656,6 +961,199 @@ export class GitStateManager {
     };
   }
 
+  /**
+   * Complete a task whose branch has a pull request: delete the local
+   * branch if the pull request was merged, otherwise keep it and warn.
+   */
+  private async handlePullRequestComplete(
+    task: Task,
+    mapping: TaskBranchMapping,
+    config: GitConfig,
+    initiatedBy: GitOperationInitiator
+  ): Promise<TaskStatusChangeResult> {
+    let pullRequest = task.pullRequest!;
+    try {
+      pullRequest = (await this.refreshPullRequest(task, config)) ?? pullRequest;
+    } catch (error) {
+      return {
+        success: true,
+        branchName: mapping.branchName,
+        warnings: [`Could not check pull request #${pullRequest.number}: ${getErrorMessage(error)}`],
+      };
+    }
+
+    if (pullRequest.state !== 'merged') {
+      return {
+        success: true,
+        branchName: mapping.branchName,
+        pullRequest,
+        warnings: [`Pull request #${pullRequest.number} is ${pullRequest.state}, not merged; the branch was kept`],
+      };
+    }
+
+    this.updateMapping(task.id, { isMerged: true, mergedTo: config.mainBranch });
+
+    // Leave the task branch and bring in the merge, so the branch can go
+    if (mapping.isCheckedOut) {
+      const checkoutResult = await this.gitService.checkoutBranch(config.mainBranch);
+      if (checkoutResult.success) {
+        this.updateMapping(task.id, { isCheckedOut: false });
+        await this.gitService.pull(config.mainBranch);
+      }
+    }
+
+    // Forced: squash and rebase merges leave the local branch looking unmerged
+    const deleteResult = await this.deleteTaskBranch(task.id, true, initiatedBy);
+    return {
+      success: true,
+      branchName: mapping.branchName,
+      pullRequest,
+      warnings: deleteResult.success ? undefined : [`Branch could not be deleted: ${deleteResult.error}`],
+    };
+  }
+
+  // ============================================
+  // Pull Requests
+  // ============================================
+
+  /**
+   * Push a task branch and open a pull request into the main branch, or
+   * find the one already open for it.
+   */
+  async openPullRequest(
+    task: Task,
+    config: GitConfig,
+    initiatedBy: GitOperationInitiator = 'system'
+  ): Promise<TaskStatusChangeResult> {
+    const mapping = this.getTaskBranchMapping(task.id);
+    if (!mapping) {
+      return { success: false, error: `No branch found for task ${task.id}` };
+    }
+    if (!config.pullRequests) {
+      return { success: false, branchName: mapping.branchName, error: 'Pull request mode is not configured' };
+    }
+
+    const startTime = Date.now();
+    const pushResult = await this.gitService.push(mapping.branchName, true);
+    this.logOperation(
+      `git push -u origin ${mapping.branchName}`,
+      pushResult.success,
+      pushResult.stdout,
+      pushResult.stderr,
+      task.id,
+      initiatedBy,
+      Date.now() - startTime
+    );
+    if (!pushResult.success) {
+      return {
+        success: false,
+        branchName: mapping.branchName,
+        error: `Failed to push ${mapping.branchName}: ${pushResult.error || pushResult.stderr}`,
+      };
+    }
+
+    try {
+      const adapter = await this.getForgeAdapter(config.pullRequests);
+
+      // An open pull request already shows the commits just pushed
+      let info = await adapter.findOpenPullRequest(mapping.branchName);
+      if (!info) {
+        const runs = this.store.listRuns(task.id);
+        info = await adapter.createPullRequest({
+          title: `${task.id}: ${task.title}`,
+          body: buildPullRequestBody(task, runs.find(run => run.status === 'completed') ?? runs[0]),
+          sourceBranch: mapping.branchName,
+          targetBranch: config.mainBranch,
+          draft: config.pullRequests.draft,
+        });
+        this.logOperation(`open pull request #${info.number}`, true, info.url, '', task.id, initiatedBy);
+      }
+
+      const now = new Date().toISOString();
+      return {
+        success: true,
+        branchName: mapping.branchName,
+        pullRequest: {
+          forge: adapter.type,
+          number: info.number,
+          url: info.url,
+          state: info.state,
+          sourceBranch: mapping.branchName,
+          targetBranch: config.mainBranch,
+          createdAt: task.pullRequest?.number === info.number ? task.pullRequest.createdAt : now,
+          updatedAt: now,
+        },
+      };
+    } catch (error) {
+      this.logOperation('open pull request', false, '', getErrorMessage(error), task.id, initiatedBy);
+      return {
+        success: false,
+        branchName: mapping.branchName,
+        error: `Could not open pull request: ${getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Get the current state of the open and draft pull requests of some tasks
+   * from the forge, a few requests at a time.
+   *
+   * @returns The pull requests that changed, by task ID, and the IDs of the
+   *          tasks whose pull request could not be checked
+   */
+  async refreshPullRequests(tasks: Task[], config: GitConfig): Promise<{
+    changed: Map<string, TaskPullRequest>;
+    failed: string[];
+  }> {
+    const changed = new Map<string, TaskPullRequest>();
+    const failed: string[] = [];
+    const pending = tasks.filter(task =>
+      task.pullRequest?.state === 'open' || task.pullRequest?.state === 'draft');
+    if (pending.length === 0 || !config.pullRequests) return { changed, failed };
+
+    const adapter = await this.getForgeAdapter(config.pullRequests);
+    for (let i = 0; i < pending.length; i += PULL_REQUEST_REFRESH_BATCH) {
+      await Promise.all(pending.slice(i, i + PULL_REQUEST_REFRESH_BATCH).map(async task => {
+        try {
+          const pullRequest = await this.checkPullRequest(adapter, task.pullRequest!);
+          if (pullRequest !== task.pullRequest) {
+            changed.set(task.id, pullRequest);
+          }
+        } catch {
+          failed.push(task.id);
+        }
+      }));
+    }
+    return { changed, failed };
+  }
+
+  /**
+   * Get the current state of a task's pull request from the forge.
+   *
+   * @returns The updated pull request, or null if the task has none
+   */
+  async refreshPullRequest(task: Task, config: GitConfig): Promise<TaskPullRequest | null> {
+    if (!task.pullRequest || !config.pullRequests) return null;
+    return this.checkPullRequest(await this.getForgeAdapter(config.pullRequests), task.pullRequest);
+  }
+
+  /**
+   * Fetch a pull request's state. Returns the same object when it is unchanged.
+   */
+  private async checkPullRequest(adapter: ForgeAdapter, current: TaskPullRequest): Promise<TaskPullRequest> {
+    const info = await adapter.getPullRequest(current.number);
+    if (info.state === current.state && info.url === current.url) {
+      return current;
+    }
+    return { ...current, url: info.url, state: info.state, updatedAt: new Date().toISOString() };
+  }
+
+  private async getForgeAdapter(config: PullRequestConfig): Promise<ForgeAdapter> {
+    const remoteUrl = await this.gitService.getRemoteUrl();
+    const apiHost = getForgeApiHost(config, remoteUrl);
+    return createForgeAdapter(config, remoteUrl, apiHost ? this.options.getForgeToken?.(config.forge, apiHost) : undefined);
+  }
+
   // ============================================
   // Merge Operations
   // ============================================
@@ -933,11 +1431,13 @@ export class GitStateManager {
     // Remove mappings for branches that no longer exist
     this.state.mappings = this.state.mappings.filter((m) => branchNames.has(m.branchName));
 
-    // Update checkout status
+    // Update checkout status and forget worktrees that no longer exist
     const currentBranch = branches.find((b) => b.isCurrent)?.name;
+    const worktreePaths = new Set((await this.gitService.listWorktrees()).map((w) => w.path));
     this.state.mappings = this.state.mappings.map((m) => ({
       ...m,
       isCheckedOut: m.branchName === currentBranch,
+      worktreePath: m.worktreePath && worktreePaths.has(path.resolve(m.worktreePath)) ? m.worktreePath : null,
     }));
 
     this.saveState();
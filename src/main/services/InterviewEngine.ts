@@ -606,6 +606,33 @@ ONLY respond with JSON blocks, one after another. DO NOT include explanations or
       return { tasksCreated: 0, tasksFailed: 0, failedTasks: [], epics: [] };
     }
 
+    // Each epic becomes a parent task with its stories as subtasks. A parent
+    // left by an earlier backlog generation is reused rather than duplicated.
+    const epicParents = new Map<string, string>();
+    for (const task of this.store.getTasks()) {
+      if (task.epic && task.title === task.epic.name && !task.parentId) {
+        epicParents.set(task.epic.name, task.id);
+      }
+    }
+    const getEpicParentId = (epic: { name: string; color: string }): string => {
+      let parentId = epicParents.get(epic.name);
+      if (!parentId) {
+        const parent = this.store.createTask(epic.name, 'backlog');
+        this.store.updateTask(parent.id, {
+          epic,
+          acceptanceCriteria: ['All subtasks are done'],
+          agent: {
+            goal: epic.name,
+            scope: ['*'],
+            definitionOfDone: ['All subtasks are done'],
+          },
+        });
+        parentId = parent.id;
+        epicParents.set(epic.name, parentId);
+      }
+      return parentId;
+    };
+
     // Helper to create a task directly using the store
     const createTask = (taskArgs: {
       title: string;
@@ -629,6 +656,8 @@ ONLY respond with JSON blocks, one after another. DO NOT include explanations or
 
         console.log(`[InterviewEngine] Creating task: "${title}" status=${status} priority=${priority}`);
 
+        const parentId = taskArgs.epic?.name ? getEpicParentId(taskArgs.epic) : undefined;
+
         // Create task using the store
         const task = this.store.createTask(title, status);
 
@@ -638,6 +667,7 @@ ONLY respond with JSON blocks, one after another. DO NOT include explanations or
           acceptanceCriteria,
           priority,
           epic: taskArgs.epic,
+          parentId,
           agent: {
             goal: description,
             scope: ['*'],
@@ -849,8 +879,9 @@ ONLY respond with JSON blocks, one after another. DO NOT include explanations or
 
     // CRITICAL: Get ACTUAL task count from the store, not just backlogDraft
     // This ensures we report real tasks that were created, not just what we tried to parse
+    // Epic parent tasks only group the stories, so they are not counted
     const allTasks = this.store.getTasks();
-    const actualTaskCount = allTasks.length;
+    const actualTaskCount = allTasks.filter(task => !allTasks.some(other => other.parentId === task.id)).length;
 
     // Count from backlogDraft for backward compatibility / reporting
     let draftTaskCount = 0;
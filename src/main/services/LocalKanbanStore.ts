@@ -7,8 +7,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import {
   BoardSchema,
+  TaskSchema,
   TasksFileSchema,
   AgentStateSchema,
   PolicySchema,
@@ -21,14 +23,46 @@ import {
   LOCAL_KANBAN_PATHS,
   createDefaultState,
   createDefaultPolicy,
+  createDefaultPolicyProfiles,
   createDefaultSettings,
+  createDefaultProviderChainSettings,
   createBoard,
   createComment,
+  createTask,
+  createTaskId,
   migrateTaskToV3,
   createActivityEntry,
+  addTokenUsage,
 } from '../../shared/schemas';
+import {
+  findDependencyCycle,
+  getMoveViolation,
+  getStatusCategory,
+  getTaskDependencies,
+  isSubtaskOf,
+  isTerminalStatus,
+} from '../../shared/schemas/common';
+import { filterTasks, parseTaskQuery } from '../../shared/taskQuery';
+import { diffTask, getCurrentActor, getRevisionAction } from './TaskHistory';
+import { StoreJournal, StoreLock, writeFileAtomic } from './StoreJournal';
+import { JsonStorageBackend, type StorageBackend } from './StorageBackend';
+import { SqliteStorageBackend } from './SqliteStorageBackend';
+import { publishAppEvent } from './AppEvents';
+import {
+  ConfigurationError,
+  DependencyCycleError,
+  StorageMigrationError,
+  TaskOperationError,
+  TransitionNotAllowedError,
+  UndoConflictError,
+  WipLimitExceededError,
+} from '../../shared/errors';
 import type {
   Board,
+  BoardWorkflow,
+  ColumnCategory,
+  ColumnConfig,
+  SavedFilter,
   Task,
   TasksFile,
   AgentState,
@@ -42,6 +76,14 @@ import type {
   TaskComment,
   ActivityEntry,
   TaskPatch,
+  TokenUsage,
+  TaskRevision,
+  BoardOperation,
+  UndoState,
+  StoreFileChange,
+  AgentRun,
+  StorageBackendType,
+  StorageInfo,
 } from '../../shared/types';
 
 export interface StoreConfig {
@@ -50,16 +92,73 @@ export interface StoreConfig {
   maxBackups: number;
 }
 
+/** Delay before checking a watched file, as one save fires several events */
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Files watched for edits made outside the app, with the schema they must match.
+ */
+const WATCHED_FILES: Record<string, { safeParse: (data: unknown) => { success: boolean; error?: { message: string } } }> = {
+  [LOCAL_KANBAN_PATHS.board]: BoardSchema,
+  [LOCAL_KANBAN_PATHS.tasks]: TasksFileSchema,
+  [LOCAL_KANBAN_PATHS.state]: AgentStateSchema,
+  [LOCAL_KANBAN_PATHS.policy]: PolicySchema,
+  [LOCAL_KANBAN_PATHS.settings]: ProjectSettingsSchema,
+};
+
+/**
+ * Prefix of the staged and journaled writes of single tasks, followed by the
+ * task id. Only used with backends that store tasks one by one.
+ */
+const TASK_ENTRY_PREFIX = `${LOCAL_KANBAN_PATHS.tasks}#`;
+
+/** Maximum number of operations kept for undo */
+const MAX_UNDO_OPERATIONS = 50;
+
+/**
+ * A task and its place on the board at one point in time.
+ */
+interface TaskSnapshot {
+  taskId: string;
+  /** The task, or null when it did not exist */
+  task: Task | null;
+  columnId?: string;
+  index: number;
+}
+
+interface UndoEntry {
+  operation: BoardOperation;
+  before: TaskSnapshot[];
+  after: TaskSnapshot[];
+}
+
 export class LocalKanbanStore {
   private projectRoot: string;
   private enableBackups: boolean;
   private maxBackups: number;
   private migrationExecuted: boolean = false;
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+  private revisionReason: TaskRevision['reason'];
+  private journal: StoreJournal;
+  private lock: StoreLock;
+  private stagedWrites: Map<string, string> | null = null;
+  private commitCallbacks: Array<() => void> | null = null;
+  private watcher: fs.FSWatcher | null = null;
+  private knownContents = new Map<string, string>();
+  private pendingChecks = new Map<string, NodeJS.Timeout>();
+  private backend: StorageBackend | null = null;
 
   constructor(config: StoreConfig) {
     this.projectRoot = config.projectRoot;
     this.enableBackups = config.enableBackups;
     this.maxBackups = config.maxBackups;
+    this.journal = new StoreJournal(
+      this.projectRoot,
+      LOCAL_KANBAN_PATHS.journal,
+      (relativePath, content) => this.writeDocument(relativePath, content)
+    );
+    this.lock = new StoreLock(this.getPath(LOCAL_KANBAN_PATHS.lock));
   }
 
   // ============================================
@@ -73,6 +172,19 @@ export class LocalKanbanStore {
   initialize(projectName?: string): void {
     const kanbanDir = this.getPath(LOCAL_KANBAN_PATHS.root);
 
+    // Finish a multi-file write interrupted by a crash
+    if (fs.existsSync(kanbanDir)) {
+      this.lock.acquire();
+      try {
+        const recovered = this.journal.recover();
+        if (recovered) {
+          console.log(`[Store] Recovered interrupted ${recovered}`);
+        }
+      } finally {
+        this.lock.release();
+      }
+    }
+
     // Create .local-kanban directory if it doesn't exist
     if (!fs.existsSync(kanbanDir)) {
       fs.mkdirSync(kanbanDir, { recursive: true });
@@ -88,9 +200,9 @@ export class LocalKanbanStore {
       console.log('[Store] Created default board.json');
     }
 
-    // Create default tasks.json if it doesn't exist
+    // Create default tasks.json if it doesn't exist (SQLite starts with an empty table)
     const tasksPath = this.getPath(LOCAL_KANBAN_PATHS.tasks);
-    if (!fs.existsSync(tasksPath)) {
+    if (this.getBackend().type === 'json' && !fs.existsSync(tasksPath)) {
       const defaultTasks: TasksFile = { tasks: [] };
       this.atomicWriteJSON(LOCAL_KANBAN_PATHS.tasks, defaultTasks);
       console.log('[Store] Created default tasks.json');
@@ -165,24 +277,122 @@ export class LocalKanbanStore {
 
   private atomicWriteJSON<T>(relativePath: string, data: T): void {
     const fullPath = this.getPath(relativePath);
-    const tempPath = fullPath + '.tmp';
-    const dir = path.dirname(fullPath);
-
-    // Ensure directory exists
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
+    const content = JSON.stringify(data, null, 2);
 
     // Create backup if enabled and file exists
     if (this.enableBackups && fs.existsSync(fullPath)) {
       this.createBackup(relativePath);
     }
 
-    // Write to temp file first
-    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    // Inside a transaction, writes are held until it commits
+    if (this.stagedWrites) {
+      if (relativePath === LOCAL_KANBAN_PATHS.tasks) {
+        // The new document already has the task writes staged before it
+        for (const stagedPath of [...this.stagedWrites.keys()]) {
+          if (stagedPath.startsWith(TASK_ENTRY_PREFIX)) this.stagedWrites.delete(stagedPath);
+        }
+      }
+      this.stagedWrites.set(relativePath, content);
+      return;
+    }
+
+    this.lock.acquire();
+    try {
+      this.rememberContent(relativePath, content);
+      this.writeDocument(relativePath, content);
+    } finally {
+      this.lock.release();
+    }
+  }
 
-    // Atomic rename
-    fs.renameSync(tempPath, fullPath);
+  /**
+   * Write one task (null removes it) to a backend that stores tasks one by
+   * one. Inside a transaction the write is staged like a file, so it is
+   * journaled together with the other files of the operation.
+   */
+  private writeTaskEntry(taskId: string, task: Task | null): void {
+    const relativePath = `${TASK_ENTRY_PREFIX}${taskId}`;
+    const content = JSON.stringify(task);
+
+    if (this.stagedWrites) {
+      // Re-added so it is applied after anything staged before it
+      this.stagedWrites.delete(relativePath);
+      this.stagedWrites.set(relativePath, content);
+      return;
+    }
+
+    this.lock.acquire();
+    try {
+      this.writeDocument(relativePath, content);
+    } finally {
+      this.lock.release();
+    }
+  }
+
+  /**
+   * Write one file, or hand it to the storage backend if the backend keeps it.
+   */
+  private writeDocument(relativePath: string, content: string): void {
+    if (relativePath === LOCAL_KANBAN_PATHS.tasks) {
+      this.getBackend().writeTasks(content);
+    } else if (relativePath.startsWith(TASK_ENTRY_PREFIX)) {
+      const backend = this.getBackend();
+      const task = JSON.parse(content) as Task | null;
+      if (task) {
+        backend.upsertTask?.(task);
+      } else {
+        backend.deleteTask?.(relativePath.slice(TASK_ENTRY_PREFIX.length));
+      }
+    } else {
+      writeFileAtomic(this.getPath(relativePath), content);
+    }
+  }
+
+  /**
+   * Run a store operation as one transaction: it holds the write lock, reads
+   * see its own pending writes, and its files are written together through
+   * the journal when it returns. Nothing is written if it throws.
+   * Nested transactions join the outer one.
+   */
+  transaction<T>(operation: string, fn: () => T): T {
+    if (this.stagedWrites) {
+      return fn();
+    }
+
+    this.lock.acquire();
+    const staged = new Map<string, string>();
+    const callbacks: Array<() => void> = [];
+    this.stagedWrites = staged;
+    this.commitCallbacks = callbacks;
+
+    try {
+      const result = fn();
+
+      this.stagedWrites = null;
+      this.commitCallbacks = null;
+      for (const [relativePath, content] of staged) {
+        this.rememberContent(relativePath, content);
+      }
+      this.journal.commit(operation, staged);
+      callbacks.forEach(callback => callback());
+
+      return result;
+    } finally {
+      this.stagedWrites = null;
+      this.commitCallbacks = null;
+      this.lock.release();
+    }
+  }
+
+  /**
+   * Run `fn` once the current transaction commits (now if there is none).
+   */
+  private afterCommit(fn: () => void): void {
+    if (this.commitCallbacks) {
+      this.commitCallbacks.push(fn);
+    } else {
+      fn();
+    }
   }
 
   private createBackup(relativePath: string): void {
@@ -217,6 +427,15 @@ export class LocalKanbanStore {
   }
 
   private readJSON<T>(relativePath: string): T | null {
+    if (relativePath === LOCAL_KANBAN_PATHS.tasks) {
+      return this.readTasksDocument() as T | null;
+    }
+
+    const staged = this.stagedWrites?.get(relativePath);
+    if (staged !== undefined) {
+      return JSON.parse(staged);
+    }
+
     const fullPath = this.getPath(relativePath);
     if (!fs.existsSync(fullPath)) {
       return null;
@@ -225,6 +444,216 @@ export class LocalKanbanStore {
     return JSON.parse(content);
   }
 
+  /**
+   * Read the tasks document with the task writes of the current transaction
+   * applied.
+   */
+  private readTasksDocument(): { tasks: Task[] } | null {
+    const staged = this.stagedWrites?.get(LOCAL_KANBAN_PATHS.tasks);
+    const document = (staged !== undefined
+      ? JSON.parse(staged)
+      : this.getBackend().readTasks()) as { tasks: Task[] } | null;
+
+    const entries = [...(this.stagedWrites ?? [])].filter(([stagedPath]) => stagedPath.startsWith(TASK_ENTRY_PREFIX));
+    if (entries.length === 0) {
+      return document;
+    }
+
+    const tasks = [...(document?.tasks ?? [])];
+    for (const [stagedPath, content] of entries) {
+      const taskId = stagedPath.slice(TASK_ENTRY_PREFIX.length);
+      const task = JSON.parse(content) as Task | null;
+      const index = tasks.findIndex(t => t.id === taskId);
+      if (!task) {
+        if (index !== -1) tasks.splice(index, 1);
+      } else if (index === -1) {
+        tasks.push(task);
+      } else {
+        tasks[index] = task;
+      }
+    }
+    return { tasks };
+  }
+
+  // ============================================
+  // Storage Backend
+  // ============================================
+
+  /**
+   * Get the backend selected in settings.json, opening it on first use.
+   */
+  private getBackend(): StorageBackend {
+    if (!this.backend) {
+      const settings = this.readJSON<ProjectSettings>(LOCAL_KANBAN_PATHS.settings);
+      this.backend = this.openBackend(settings?.storage?.backend ?? 'json');
+    }
+    return this.backend;
+  }
+
+  private openBackend(type: StorageBackendType): StorageBackend {
+    return type === 'sqlite'
+      ? new SqliteStorageBackend(this.getPath(LOCAL_KANBAN_PATHS.database))
+      : new JsonStorageBackend(this.projectRoot);
+  }
+
+  getStorageInfo(): StorageInfo {
+    return this.getBackend().getInfo();
+  }
+
+  /**
+   * Move tasks, activity, task history and the run index to another backend.
+   * The data is copied and checked before the project switches; the old data
+   * is then moved to backups/storage-<backend>-<timestamp>/.
+   * Throws StorageMigrationError (and keeps the current backend) on failure.
+   */
+  migrateStorage(target: StorageBackendType): StorageInfo {
+    this.lock.acquire();
+    try {
+      const source = this.getBackend();
+      if (source.type === target) {
+        return source.getInfo();
+      }
+
+      const expected = source.getInfo();
+      let destination: StorageBackend;
+      let migrated: StorageInfo;
+      try {
+        destination = this.openBackend(target);
+      } catch (error) {
+        throw new StorageMigrationError(source.type, target, error instanceof Error ? error.message : String(error));
+      }
+
+      try {
+        destination.import(source.export());
+        migrated = destination.getInfo();
+        for (const key of ['taskCount', 'activityCount', 'revisionCount'] as const) {
+          if (migrated[key] !== expected[key]) {
+            throw new Error(`${key} is ${migrated[key]}, expected ${expected[key]}`);
+          }
+        }
+      } catch (error) {
+        destination.close();
+        throw new StorageMigrationError(source.type, target, error instanceof Error ? error.message : String(error));
+      }
+
+      const settings = this.getSettings();
+      this.atomicWriteJSON(LOCAL_KANBAN_PATHS.settings, { ...settings, storage: { backend: target } });
+      this.backend = destination;
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      source.archive(this.getPath(path.join(LOCAL_KANBAN_PATHS.backups, `storage-${source.type}-${timestamp}`)));
+
+      console.log(`[Store] Moved project data from ${source.type} to ${target}`);
+      return migrated;
+    } finally {
+      this.lock.release();
+    }
+  }
+
+  // ============================================
+  // External Edits
+  // ============================================
+
+  /**
+   * Watch the store files for edits made outside the app (an editor, git,
+   * another process). The store reads from disk on every call, so valid
+   * edits are picked up as they are; edits that fail validation are moved
+   * to the backups folder and the last good content is put back.
+   */
+  watch(listener: (change: StoreFileChange) => void): void {
+    this.unwatch();
+
+    for (const relativePath of Object.keys(WATCHED_FILES)) {
+      const fullPath = this.getPath(relativePath);
+      if (fs.existsSync(fullPath)) {
+        this.knownContents.set(relativePath, fs.readFileSync(fullPath, 'utf-8'));
+      }
+    }
+
+    this.watcher = fs.watch(this.getPath(LOCAL_KANBAN_PATHS.root), (_event, filename) => {
+      const relativePath = filename ? path.posix.join(LOCAL_KANBAN_PATHS.root, filename.toString()) : null;
+      if (!relativePath || !WATCHED_FILES[relativePath]) return;
+      if (relativePath === LOCAL_KANBAN_PATHS.tasks && this.getBackend().type !== 'json') return;
+
+      clearTimeout(this.pendingChecks.get(relativePath));
+      this.pendingChecks.set(relativePath, setTimeout(() => {
+        this.pendingChecks.delete(relativePath);
+        const change = this.checkExternalEdit(relativePath);
+        if (change) listener(change);
+      }, WATCH_DEBOUNCE_MS));
+    });
+    this.watcher.on('error', (error) => console.error('[Store] File watcher failed:', error));
+  }
+
+  unwatch(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.pendingChecks.forEach(timer => clearTimeout(timer));
+    this.pendingChecks.clear();
+  }
+
+  /**
+   * Stop watching and close the storage backend. The backend is reopened if
+   * the store is used again.
+   */
+  close(): void {
+    this.unwatch();
+    this.backend?.close();
+    this.backend = null;
+  }
+
+  /**
+   * Remember what the store last wrote to a watched file, so the watcher
+   * can tell its own writes from external edits.
+   */
+  private rememberContent(relativePath: string, content: string): void {
+    if (WATCHED_FILES[relativePath]) {
+      this.knownContents.set(relativePath, content);
+    }
+  }
+
+  private checkExternalEdit(relativePath: string): StoreFileChange | null {
+    const fullPath = this.getPath(relativePath);
+    if (!fs.existsSync(fullPath)) return null;
+
+    const content = fs.readFileSync(fullPath, 'utf-8');
+    if (content === this.knownContents.get(relativePath)) return null;
+
+    const file = path.basename(relativePath);
+    let error: string | undefined;
+    try {
+      const result = WATCHED_FILES[relativePath].safeParse(JSON.parse(content));
+      if (!result.success) error = result.error?.message ?? 'Invalid data';
+    } catch (parseError) {
+      error = parseError instanceof Error ? parseError.message : String(parseError);
+    }
+
+    if (!error) {
+      this.knownContents.set(relativePath, content);
+      console.log(`[Store] Picked up external edit of ${file}`);
+      return { file, status: 'reloaded' };
+    }
+
+    console.warn(`[Store] Rejected external edit of ${file}: ${error}`);
+    const known = this.knownContents.get(relativePath);
+    if (known !== undefined) {
+      // Keep the rejected edit so it can be fixed by hand
+      this.ensureDir(LOCAL_KANBAN_PATHS.backups);
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const rejectedName = `${path.basename(relativePath, '.json')}-rejected-${timestamp}.json`;
+      fs.writeFileSync(path.join(this.getPath(LOCAL_KANBAN_PATHS.backups), rejectedName), content, 'utf-8');
+
+      this.lock.acquire();
+      try {
+        writeFileAtomic(fullPath, known);
+      } finally {
+        this.lock.release();
+      }
+    }
+
+    return { file, status: 'rejected', error };
+  }
+
   // ============================================
   // Activity Logging
   // ============================================
@@ -236,13 +665,8 @@ export class LocalKanbanStore {
       return;
     }
 
-    const fullPath = this.getPath(LOCAL_KANBAN_PATHS.activity);
-    const dir = path.dirname(fullPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    fs.appendFileSync(fullPath, JSON.stringify(entry) + '\n', 'utf-8');
+    this.getBackend().appendActivity(entry);
+    publishAppEvent('activity', entry);
   }
 
   logActivity(
@@ -259,27 +683,8 @@ export class LocalKanbanStore {
    * @returns Array of recent activity entries, newest first
    */
   getRecentActivity(limit: number = 50): ActivityEntry[] {
-    const fullPath = this.getPath(LOCAL_KANBAN_PATHS.activity);
-    if (!fs.existsSync(fullPath)) {
-      return [];
-    }
-
     try {
-      const content = fs.readFileSync(fullPath, 'utf-8');
-      const lines = content.trim().split('\n').filter((line) => line.trim());
-
-      // Parse all lines, newest first (reverse order)
-      const entries: ActivityEntry[] = [];
-      for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
-        try {
-          const entry = JSON.parse(lines[i]) as ActivityEntry;
-          entries.push(entry);
-        } catch {
-          // Skip malformed lines
-        }
-      }
-
-      return entries;
+      return this.getBackend().readActivity(limit);
     } catch (error) {
       console.error('Failed to read activity log:', error);
       return [];
@@ -314,6 +719,131 @@ export class LocalKanbanStore {
     this.atomicWriteJSON(LOCAL_KANBAN_PATHS.board, board);
   }
 
+  /**
+   * Replace the board's columns and workflow.
+   * Columns keep their tasks by ID; tasks in removed columns move to the
+   * fallback column (default: the first column) and take its ID as status.
+   */
+  configureBoard(columns: ColumnConfig[], workflow: BoardWorkflow = {}, fallbackColumnId?: string): Board {
+    return this.transaction('configureBoard', () => {
+      if (columns.length === 0) {
+        throw new ConfigurationError('The board needs at least one column', 'columns');
+      }
+
+      const ids = new Set<string>();
+      for (const column of columns) {
+        if (!column.id.trim() || !column.title.trim()) {
+          throw new ConfigurationError('Columns need an ID and a title', 'columns');
+        }
+        if (ids.has(column.id)) {
+          throw new ConfigurationError(`Duplicate column ID: ${column.id}`, 'columns');
+        }
+        if (column.wipLimit !== undefined && (!Number.isInteger(column.wipLimit) || column.wipLimit < 1)) {
+          throw new ConfigurationError(`WIP limit of ${column.id} must be a positive whole number`, 'wipLimit');
+        }
+        ids.add(column.id);
+      }
+
+      const unknown = [
+        ...columns.flatMap(c => c.allowedTransitions || []),
+        ...(workflow.ralphSourceColumns || []),
+        ...(workflow.runningColumn ? [workflow.runningColumn] : []),
+        ...(workflow.successColumn ? [workflow.successColumn] : []),
+      ].find(id => !ids.has(id));
+      if (unknown) {
+        throw new ConfigurationError(`Unknown column: ${unknown}`, 'workflow');
+      }
+
+      const fallback = fallbackColumnId ?? columns[0].id;
+      if (!ids.has(fallback)) {
+        throw new ConfigurationError(`Unknown column: ${fallback}`, 'fallbackColumnId');
+      }
+
+      const board = this.getBoard();
+      const tasks = this.getTasks();
+      const previous = new Map(board.columns.map(c => [c.id, c.taskIds]));
+
+      board.columns = columns.map(column => ({
+        id: column.id,
+        title: column.title.trim(),
+        taskIds: previous.get(column.id) || [],
+        ...(column.wipLimit !== undefined && { wipLimit: column.wipLimit }),
+        ...(column.category && { category: column.category }),
+        ...(column.allowedTransitions && { allowedTransitions: column.allowedTransitions }),
+      }));
+      board.workflow = workflow;
+
+      // Migrate tasks out of removed columns, in their previous board order
+      const fallbackColumn = board.columns.find(c => c.id === fallback)!;
+      const now = new Date().toISOString();
+      const orphans = tasks
+        .filter(t => !ids.has(t.status))
+        .sort((a, b) => a.order - b.order);
+      let order = tasks
+        .filter(t => t.status === fallback)
+        .reduce((max, t) => Math.max(max, t.order), -1);
+
+      for (const task of orphans) {
+        const from = task.status;
+        task.status = fallback;
+        task.order = ++order;
+        task.updatedAt = now;
+        if (!fallbackColumn.taskIds.includes(task.id)) {
+          fallbackColumn.taskIds.push(task.id);
+        }
+        this.logActivity('task_moved', { taskId: task.id, from, to: fallback, reason: 'column_removed' }, { taskId: task.id });
+      }
+
+      this.saveBoard(board);
+      if (orphans.length > 0) {
+        this.saveTasks(tasks);
+      }
+
+      return board;
+    });
+  }
+
+  /**
+   * Add a saved filter, or replace the one with the same ID.
+   * The query is parsed first so invalid filters are never stored.
+   */
+  saveFilter(filter: Omit<SavedFilter, 'id'> & { id?: string }): SavedFilter {
+    return this.transaction('saveFilter', () => {
+      if (!filter.name.trim()) {
+        throw new ConfigurationError('Filters need a name', 'name');
+      }
+      parseTaskQuery(filter.query);
+
+      const board = this.getBoard();
+      const filters = board.savedFilters || [];
+      const saved: SavedFilter = {
+        id: filter.id || `filter-${uuidv4().slice(0, 8)}`,
+        name: filter.name.trim(),
+        query: filter.query.trim(),
+        ...(filter.groupBy && filter.groupBy !== 'none' && { groupBy: filter.groupBy }),
+      };
+
+      const index = filters.findIndex(f => f.id === saved.id);
+      board.savedFilters = index === -1
+        ? [...filters, saved]
+        : filters.map((f, i) => (i === index ? saved : f));
+      this.saveBoard(board);
+
+      return saved;
+    });
+  }
+
+  /**
+   * Remove a saved filter.
+   */
+  deleteFilter(filterId: string): void {
+    this.transaction('deleteFilter', () => {
+      const board = this.getBoard();
+      board.savedFilters = (board.savedFilters || []).filter(f => f.id !== filterId);
+      this.saveBoard(board);
+    });
+  }
+
   // ============================================
   // Tasks Operations
   // ============================================
@@ -338,10 +868,12 @@ export class LocalKanbanStore {
 
       if (result.migratedCount > 0) {
         console.log(`[Store] Migrated ${result.migratedCount} task IDs to sequential format`);
-        this.saveTasks(tasks);
-        this.saveBoard(board);
-        this.setState(state);
-        this.saveChatIndex(chatIndex);
+        this.transaction('migrateTaskIds', () => {
+          this.writeTasks(tasks, false);
+          this.saveBoard(board);
+          this.setState(state);
+          this.saveChatIndex(chatIndex);
+        });
       }
     } catch (error) {
       console.error('[Store] Task ID migration failed:', error);
@@ -364,7 +896,7 @@ export class LocalKanbanStore {
       // Migrate v2 tasks to v3
       console.log('Migrating tasks to v3 format...');
       tasks = data.tasks.map((t) => migrateTaskToV3(t as Record<string, unknown>));
-      this.saveTasks(tasks);
+      this.writeTasks(tasks, false);
     }
 
     // Run ID migration
@@ -374,16 +906,83 @@ export class LocalKanbanStore {
   }
 
   saveTasks(tasks: Task[]): void {
+    this.writeTasks(tasks, true);
+  }
+
+  /**
+   * Write tasks.json. Changed tasks get a revision unless this is a migration.
+   */
+  private writeTasks(tasks: Task[], recordHistory: boolean): void {
     const tasksFile: TasksFile = { tasks };
     const result = TasksFileSchema.safeParse(tasksFile);
     if (!result.success) {
       throw new Error(`Invalid tasks data: ${result.error.message}`);
     }
 
+    const previous = recordHistory ? this.readJSON<TasksFile>(LOCAL_KANBAN_PATHS.tasks)?.tasks ?? [] : [];
+
     this.atomicWriteJSON(LOCAL_KANBAN_PATHS.tasks, tasksFile);
+
+    if (recordHistory) {
+      this.recordRevisions(previous, tasks);
+    }
+  }
+
+  /**
+   * Write one task, added at the end if it is new. Backends that store tasks
+   * one by one write only this task; otherwise tasks.json is rewritten.
+   */
+  private saveTask(task: Task): void {
+    const backend = this.getBackend();
+    if (!backend.upsertTask) {
+      const tasks = this.getTasks();
+      const index = tasks.findIndex(t => t.id === task.id);
+      if (index === -1) {
+        tasks.push(task);
+      } else {
+        tasks[index] = task;
+      }
+      this.saveTasks(tasks);
+      return;
+    }
+
+    const result = TaskSchema.safeParse(task);
+    if (!result.success) {
+      throw new Error(`Invalid task data: ${result.error.message}`);
+    }
+
+    const previous = this.getTask(task.id);
+    this.writeTaskEntry(task.id, task);
+    this.recordRevisions(previous ? [previous] : [], [task]);
+  }
+
+  /**
+   * Remove one task, the same way saveTask() writes one.
+   */
+  private removeTask(taskId: string): void {
+    const backend = this.getBackend();
+    if (!backend.deleteTask) {
+      this.saveTasks(this.getTasks().filter(t => t.id !== taskId));
+      return;
+    }
+
+    const previous = this.getTask(taskId);
+    this.writeTaskEntry(taskId, null);
+    this.recordRevisions(previous ? [previous] : [], []);
   }
 
   getTask(taskId: string): Task | null {
+    const entry = this.stagedWrites?.get(`${TASK_ENTRY_PREFIX}${taskId}`);
+    if (entry !== undefined) {
+      return JSON.parse(entry);
+    }
+
+    // Indexed backends read the one task, unless this transaction has a pending tasks document
+    const backend = this.getBackend();
+    if (backend.readTask && !this.stagedWrites?.has(LOCAL_KANBAN_PATHS.tasks)) {
+      return backend.readTask(taskId);
+    }
+
     const tasks = this.getTasks();
     return tasks.find(t => t.id === taskId) || null;
   }
@@ -392,191 +991,247 @@ export class LocalKanbanStore {
    * Create a new task and add it to the board.
    */
   createTask(title: string, status: TaskStatus = 'backlog'): Task {
-    const tasks = this.getTasks();
-    const board = this.getBoard();
-    const state = this.getState();
-
-    // Initialize counter from existing tasks if needed
-    let currentNumber = state.lastTaskNumber || 0;
-    if (currentNumber === 0 && tasks.length > 0) {
-      // Find max task number from existing TSK-XXX IDs
-      const maxExisting = tasks.reduce((max, task) => {
-        const match = task.id.match(/^TSK-(\d+)$/);
-        if (match) {
-          const num = parseInt(match[1], 10);
-          return num > max ? num : max;
-        }
-        return max;
-      }, 0);
-      currentNumber = maxExisting;
-      this.setState({ lastTaskNumber: currentNumber });
-    }
-
-    // Generate sequential task ID
-    const nextNumber = currentNumber + 1;
-    const { createTaskId, createTask } = require('../../shared/schemas');
-    const taskId = createTaskId(nextNumber);
-
-    // Update state with new task number
-    this.setState({ lastTaskNumber: nextNumber });
-
-    // Find max order for the target column
-    const columnTasks = tasks.filter(t => t.status === status);
-    const maxOrder = columnTasks.length > 0
-      ? Math.max(...columnTasks.map(t => t.order))
-      : -1;
-
-    // Create task with sequential ID
-    const newTask: Task = createTask({
-      id: taskId,
-      title,
-      status,
-      order: maxOrder + 1,
-    });
+    return this.transaction('createTask', () => {
+      const tasks = this.getTasks();
+      const board = this.getBoard();
+      const state = this.getState();
 
-    // Add task to tasks list
-    tasks.push(newTask);
-    this.saveTasks(tasks);
+      // Boards without the requested column put new tasks in their first column
+      if (!board.columns.some(c => c.id === status) && board.columns.length > 0) {
+        status = board.columns[0].id;
+      }
 
-    // Add task ID to board column
-    const column = board.columns.find(c => c.id === status);
-    if (column) {
-      column.taskIds.push(newTask.id);
-      this.saveBoard(board);
-    }
+      // Initialize counter from existing tasks if needed
+      let currentNumber = state.lastTaskNumber || 0;
+      if (currentNumber === 0 && tasks.length > 0) {
+        // Find max task number from existing TSK-XXX IDs
+        const maxExisting = tasks.reduce((max, task) => {
+          const match = task.id.match(/^TSK-(\d+)$/);
+          if (match) {
+            const num = parseInt(match[1], 10);
+            return num > max ? num : max;
+          }
+          return max;
+        }, 0);
+        currentNumber = maxExisting;
+        this.setState({ lastTaskNumber: currentNumber });
+      }
+
+      // Generate sequential task ID
+      const nextNumber = currentNumber + 1;
+      const taskId = createTaskId(nextNumber);
+
+      // Update state with new task number
+      this.setState({ lastTaskNumber: nextNumber });
+
+      // Find max order for the target column
+      const columnTasks = tasks.filter(t => t.status === status);
+      const maxOrder = columnTasks.length > 0
+        ? Math.max(...columnTasks.map(t => t.order))
+        : -1;
+
+      // Create task with sequential ID
+      const newTask: Task = createTask({
+        id: taskId,
+        title,
+        status,
+        order: maxOrder + 1,
+      });
+
+      this.saveTask(newTask);
+
+      // Add task ID to board column
+      const column = board.columns.find(c => c.id === status);
+      if (column) {
+        column.taskIds.push(newTask.id);
+        this.saveBoard(board);
+      }
 
-    this.logActivity('task_updated', { taskId: newTask.id, action: 'created' }, { taskId: newTask.id });
+      this.logActivity('task_updated', { taskId: newTask.id, action: 'created' }, { taskId: newTask.id });
 
-    return newTask;
+      return newTask;
+    });
   }
 
   updateTask(taskId: string, patch: TaskPatch): Task {
-    const tasks = this.getTasks();
-    const taskIndex = tasks.findIndex(t => t.id === taskId);
+    return this.transaction('updateTask', () => {
+      const task = this.getTask(taskId);
 
-    if (taskIndex === -1) {
-      throw new Error(`Task not found: ${taskId}`);
-    }
+      if (!task) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
+
+      // Only checks across tasks need the whole list
+      const checksOthers = patch.dependsOn !== undefined || patch.agent?.dependencies !== undefined || !!patch.parentId;
+      const tasks = checksOthers ? this.getTasks() : [];
+
+      // Reject dependency changes that would create a cycle
+      if (patch.dependsOn !== undefined || patch.agent?.dependencies !== undefined) {
+        const dependencies = getTaskDependencies({
+          dependsOn: patch.dependsOn ?? task.dependsOn,
+          agent: { ...task.agent, dependencies: patch.agent?.dependencies ?? task.agent.dependencies },
+        });
+        const cycle = findDependencyCycle(tasks, taskId, dependencies);
+        if (cycle) {
+          throw new DependencyCycleError(taskId, cycle);
+        }
+      }
 
-    const task = tasks[taskIndex];
+      // A task cannot be nested under itself or one of its own subtasks
+      if (patch.parentId) {
+        if (!tasks.some(t => t.id === patch.parentId)) {
+          throw new TaskOperationError(`Parent task not found: ${patch.parentId}`, taskId, 'setParent');
+        }
+        if (patch.parentId === taskId || isSubtaskOf(tasks, patch.parentId, taskId)) {
+          throw new TaskOperationError(
+            `Cannot make ${taskId} a subtask of ${patch.parentId}: ${patch.parentId} is nested under ${taskId}`,
+            taskId,
+            'setParent'
+          );
+        }
+      }
 
-    // Handle null values for optional fields (convert null to undefined)
-    const epicValue = patch.epic === null ? undefined : (patch.epic ?? task.epic);
-    const sprintValue = patch.sprint === null ? undefined : (patch.sprint ?? task.sprint);
+      // Handle null values for optional fields (convert null to undefined)
+      const epicValue = patch.epic === null ? undefined : (patch.epic ?? task.epic);
+      const sprintValue = patch.sprint === null ? undefined : (patch.sprint ?? task.sprint);
+      const parentValue = patch.parentId === null ? undefined : (patch.parentId ?? task.parentId);
 
-    const updatedTask: Task = {
-      ...task,
-      ...patch,
-      epic: epicValue,
-      sprint: sprintValue,
-      agent: patch.agent ? { ...task.agent, ...patch.agent } : task.agent,
-      runtime: patch.runtime ? { ...task.runtime, ...patch.runtime } : task.runtime,
-      updatedAt: new Date().toISOString(),
-    };
+      const updatedTask: Task = {
+        ...task,
+        ...patch,
+        epic: epicValue,
+        sprint: sprintValue,
+        parentId: parentValue,
+        agent: patch.agent ? { ...task.agent, ...patch.agent } : task.agent,
+        runtime: patch.runtime ? { ...task.runtime, ...patch.runtime } : task.runtime,
+        updatedAt: new Date().toISOString(),
+      };
 
-    tasks[taskIndex] = updatedTask;
-    this.saveTasks(tasks);
+      this.saveTask(updatedTask);
 
-    this.logActivity('task_updated', { taskId, patch }, { taskId });
+      this.logActivity('task_updated', { taskId, patch }, { taskId });
 
-    return updatedTask;
+      return updatedTask;
+    });
   }
 
   /**
    * Delete a task permanently.
    */
   deleteTask(taskId: string): void {
-    const tasks = this.getTasks();
-    const taskIndex = tasks.findIndex(t => t.id === taskId);
+    this.transaction('deleteTask', () => {
+      const tasks = this.getTasks();
+      const taskIndex = tasks.findIndex(t => t.id === taskId);
 
-    if (taskIndex === -1) {
-      throw new Error(`Task not found: ${taskId}`);
-    }
+      if (taskIndex === -1) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
 
-    const task = tasks[taskIndex];
-    tasks.splice(taskIndex, 1);
-    this.saveTasks(tasks);
+      const task = tasks[taskIndex];
+      this.removeTask(taskId);
 
-    // Also remove from board columns
-    const board = this.getBoard();
-    board.columns.forEach(col => {
-      col.taskIds = col.taskIds.filter(id => id !== taskId);
-    });
-    this.saveBoard(board);
+      // Subtasks move up to the deleted task's parent
+      for (const subtask of tasks) {
+        if (subtask.parentId === taskId) {
+          this.saveTask({ ...subtask, parentId: task.parentId });
+        }
+      }
+
+      // Also remove from board columns
+      const board = this.getBoard();
+      board.columns.forEach(col => {
+        col.taskIds = col.taskIds.filter(id => id !== taskId);
+      });
+      this.saveBoard(board);
 
-    this.logActivity('task_deleted', { taskId, title: task.title }, { taskId });
+      this.logActivity('task_deleted', { taskId, title: task.title }, { taskId });
+    });
   }
 
   /**
    * Move a task to a different column.
+   * Enforces the source column's allowed transitions and the target
+   * column's WIP limit unless `force` is set (agent workflow moves).
    * INVARIANT: Cannot move to 'done' unless acceptance criteria are verified.
    */
-  moveTask(taskId: string, toColumnId: TaskStatus, newOrder?: number): void {
-    const board = this.getBoard();
-    const tasks = this.getTasks();
-    const task = tasks.find(t => t.id === taskId);
+  moveTask(taskId: string, toColumnId: TaskStatus, newOrder?: number, options: { force?: boolean } = {}): void {
+    this.transaction('moveTask', () => {
+      const board = this.getBoard();
+      const task = this.getTask(taskId);
 
-    if (!task) {
-      throw new Error(`Task not found: ${taskId}`);
-    }
+      if (!task) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
 
-    const fromColumn = board.columns.find(c => c.id === task.status);
-    const toColumn = board.columns.find(c => c.id === toColumnId);
+      const fromColumn = board.columns.find(c => c.id === task.status);
+      const toColumn = board.columns.find(c => c.id === toColumnId);
 
-    if (!fromColumn || !toColumn) {
-      throw new Error(`Invalid column: ${toColumnId}`);
-    }
+      if (!fromColumn || !toColumn) {
+        throw new Error(`Invalid column: ${toColumnId}`);
+      }
 
-    // Remove from old column
-    fromColumn.taskIds = fromColumn.taskIds.filter(id => id !== taskId);
+      if (!options.force) {
+        const violation = getMoveViolation(board, fromColumn.id, toColumn.id);
+        if (violation?.rule === 'transition') {
+          throw new TransitionNotAllowedError(taskId, violation.from, violation.to);
+        }
+        if (violation?.rule === 'wipLimit') {
+          throw new WipLimitExceededError(taskId, violation.column, violation.limit);
+        }
+      }
 
-    // Add to new column at position
-    if (newOrder !== undefined && newOrder >= 0) {
-      toColumn.taskIds.splice(newOrder, 0, taskId);
-    } else {
-      toColumn.taskIds.push(taskId);
-    }
+      // Remove from old column
+      fromColumn.taskIds = fromColumn.taskIds.filter(id => id !== taskId);
 
-    // Update task status
-    task.status = toColumnId;
-    task.updatedAt = new Date().toISOString();
+      // Add to new column at position
+      if (newOrder !== undefined && newOrder >= 0) {
+        toColumn.taskIds.splice(newOrder, 0, taskId);
+      } else {
+        toColumn.taskIds.push(taskId);
+      }
 
-    if (toColumnId === 'done') {
-      task.completedAt = new Date().toISOString();
-    }
+      // Update task status
+      task.status = toColumnId;
+      task.updatedAt = new Date().toISOString();
 
-    this.saveBoard(board);
-    this.saveTasks(tasks);
+      if (isTerminalStatus(toColumnId, board.columns)) {
+        task.completedAt = new Date().toISOString();
+      }
+
+      this.saveBoard(board);
+      this.saveTask(task);
 
-    this.logActivity('task_moved', {
-      taskId,
-      from: fromColumn.id,
-      to: toColumnId,
-    }, { taskId });
+      this.logActivity('task_moved', {
+        taskId,
+        from: fromColumn.id,
+        to: toColumnId,
+      }, { taskId });
+    });
   }
 
   /**
    * Add a comment to a task. Comments are APPEND-ONLY.
    */
   addComment(taskId: string, comment: TaskComment): void {
-    const tasks = this.getTasks();
-    const task = tasks.find(t => t.id === taskId);
+    this.transaction('addComment', () => {
+      const task = this.getTask(taskId);
 
-    if (!task) {
-      throw new Error(`Task not found: ${taskId}`);
-    }
+      if (!task) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
 
-    task.comments.push(comment);
-    task.updatedAt = new Date().toISOString();
+      task.comments.push(comment);
+      task.updatedAt = new Date().toISOString();
 
-    this.saveTasks(tasks);
+      this.saveTask(task);
 
-    this.logActivity('comment_added', {
-      taskId,
-      commentId: comment.id,
-      type: comment.type,
-      author: comment.author,
-    }, { taskId });
+      this.logActivity('comment_added', {
+        taskId,
+        commentId: comment.id,
+        type: comment.type,
+        author: comment.author,
+      }, { taskId });
+    });
   }
 
   /**
@@ -594,6 +1249,188 @@ export class LocalKanbanStore {
     return comment;
   }
 
+  // ============================================
+  // Task History
+  // ============================================
+
+  /**
+   * Append a revision for every task that differs between two task lists.
+   */
+  private recordRevisions(previous: Task[], tasks: Task[]): void {
+    const before = new Map(previous.map(t => [t.id, t]));
+    const after = new Map(tasks.map(t => [t.id, t]));
+    const actor = getCurrentActor();
+    const timestamp = new Date().toISOString();
+
+    for (const taskId of new Set([...before.keys(), ...after.keys()])) {
+      const oldTask = before.get(taskId) ?? null;
+      const newTask = after.get(taskId) ?? null;
+      const changes = diffTask(oldTask, newTask);
+      if (oldTask && newTask && changes.length === 0) continue;
+
+      const revision: TaskRevision = {
+        id: `rev-${uuidv4().slice(0, 8)}`,
+        taskId,
+        action: getRevisionAction(oldTask, newTask),
+        actor,
+        changes,
+        reason: this.revisionReason,
+        timestamp,
+      };
+
+      this.afterCommit(() => this.getBackend().appendRevision(revision));
+    }
+  }
+
+  /**
+   * Get the revisions of a task, newest first.
+   */
+  getTaskHistory(taskId: string, limit: number = 200): TaskRevision[] {
+    return this.getBackend().readRevisions(taskId, limit);
+  }
+
+  /**
+   * Run a board operation so it can be undone. The tasks it touches are
+   * snapshotted, with their place on the board, before and after `fn`.
+   * Starting a new operation clears the redo stack.
+   */
+  recordOperation<T>(operation: BoardOperation, taskIds: string[], fn: () => T): T {
+    const before = this.snapshotTasks(taskIds);
+    const result = fn();
+    const after = this.snapshotTasks(taskIds);
+
+    this.undoStack.push({ operation, before, after });
+    if (this.undoStack.length > MAX_UNDO_OPERATIONS) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+
+    return result;
+  }
+
+  /**
+   * Revert the last recorded operation.
+   * Throws UndoConflictError (and drops the operation) when one of its tasks
+   * was changed since.
+   * @returns The reverted operation, or null when there is nothing to undo
+   */
+  undo(): BoardOperation | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.assertUnchanged(entry.after, 'undo');
+    this.restoreSnapshots(entry.before, 'undo');
+    this.redoStack.push(entry);
+
+    return entry.operation;
+  }
+
+  /**
+   * Reapply the last undone operation.
+   * @returns The reapplied operation, or null when there is nothing to redo
+   */
+  redo(): BoardOperation | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.assertUnchanged(entry.before, 'redo');
+    this.restoreSnapshots(entry.after, 'redo');
+    this.undoStack.push(entry);
+
+    return entry.operation;
+  }
+
+  getUndoState(): UndoState {
+    return {
+      undo: this.undoStack[this.undoStack.length - 1]?.operation ?? null,
+      redo: this.redoStack[this.redoStack.length - 1]?.operation ?? null,
+    };
+  }
+
+  private snapshotTasks(taskIds: string[]): TaskSnapshot[] {
+    const tasks = this.getTasks();
+    const board = this.getBoard();
+
+    return taskIds.map(taskId => {
+      const column = board.columns.find(c => c.taskIds.includes(taskId));
+      return {
+        taskId,
+        task: tasks.find(t => t.id === taskId) ?? null,
+        columnId: column?.id,
+        index: column ? column.taskIds.indexOf(taskId) : -1,
+      };
+    });
+  }
+
+  private assertUnchanged(snapshots: TaskSnapshot[], action: 'undo' | 'redo'): void {
+    const current = this.snapshotTasks(snapshots.map(s => s.taskId));
+
+    snapshots.forEach((snapshot, i) => {
+      const task = current[i].task;
+      const changed = !snapshot.task || !task
+        ? snapshot.task !== task
+        : diffTask(snapshot.task, task).length > 0 || current[i].columnId !== snapshot.columnId;
+      if (changed) {
+        throw new UndoConflictError(snapshot.taskId, action);
+      }
+    });
+  }
+
+  /**
+   * Put tasks back as they were in the snapshots. Tasks whose column was
+   * removed since go to the first column.
+   */
+  private restoreSnapshots(snapshots: TaskSnapshot[], reason: 'undo' | 'redo'): void {
+    this.transaction('restoreSnapshots', () => {
+      const tasks = this.getTasks();
+      const board = this.getBoard();
+
+      for (const snapshot of snapshots) {
+        const index = tasks.findIndex(t => t.id === snapshot.taskId);
+        board.columns.forEach(col => {
+          col.taskIds = col.taskIds.filter(id => id !== snapshot.taskId);
+        });
+
+        if (!snapshot.task) {
+          if (index !== -1) tasks.splice(index, 1);
+          continue;
+        }
+
+        // Comments and runtime state are not part of the operation and stay current
+        const current = index !== -1 ? tasks[index] : null;
+        const column = board.columns.find(c => c.id === snapshot.columnId) ?? board.columns[0];
+        const task: Task = {
+          ...snapshot.task,
+          comments: current?.comments ?? snapshot.task.comments,
+          runtime: current?.runtime ?? snapshot.task.runtime,
+          updatedAt: new Date().toISOString(),
+        };
+        if (column) {
+          task.status = column.id;
+          column.taskIds.splice(Math.min(Math.max(snapshot.index, 0), column.taskIds.length), 0, task.id);
+        }
+
+        if (index === -1) {
+          tasks.push(task);
+        } else {
+          tasks[index] = task;
+        }
+      }
+
+      this.revisionReason = reason;
+      try {
+        this.saveTasks(tasks);
+      } finally {
+        this.revisionReason = undefined;
+      }
+      this.saveBoard(board);
+
+      for (const snapshot of snapshots) {
+        this.logActivity('task_updated', { taskId: snapshot.taskId, action: reason }, { taskId: snapshot.taskId });
+      }
+    });
+  }
+
   // ============================================
   // State Operations
   // ============================================
@@ -618,21 +1455,23 @@ export class LocalKanbanStore {
   }
 
   setState(patch: Partial<AgentState>): AgentState {
-    const current = this.readJSON<AgentState>(LOCAL_KANBAN_PATHS.state) || createDefaultState();
-    const updated: AgentState = {
-      ...current,
-      ...patch,
-      ralphMode: patch.ralphMode ? { ...current.ralphMode, ...patch.ralphMode } : current.ralphMode,
-      lastUpdated: new Date().toISOString(),
-    };
-
-    const result = AgentStateSchema.safeParse(updated);
-    if (!result.success) {
-      throw new Error(`Invalid state data: ${result.error.message}`);
-    }
+    return this.transaction('setState', () => {
+      const current = this.readJSON<AgentState>(LOCAL_KANBAN_PATHS.state) || createDefaultState();
+      const updated: AgentState = {
+        ...current,
+        ...patch,
+        ralphMode: patch.ralphMode ? { ...current.ralphMode, ...patch.ralphMode } : current.ralphMode,
+        lastUpdated: new Date().toISOString(),
+      };
+
+      const result = AgentStateSchema.safeParse(updated);
+      if (!result.success) {
+        throw new Error(`Invalid state data: ${result.error.message}`);
+      }
 
-    this.atomicWriteJSON(LOCAL_KANBAN_PATHS.state, updated);
-    return updated;
+      this.atomicWriteJSON(LOCAL_KANBAN_PATHS.state, updated);
+      return updated;
+    });
   }
 
   // ============================================
@@ -653,7 +1492,8 @@ export class LocalKanbanStore {
       return createDefaultPolicy();
     }
 
-    return result.data;
+    // Policies written before profiles existed get the built-in ones
+    return result.data.profiles ? result.data : { ...result.data, profiles: createDefaultPolicyProfiles() };
   }
 
   /**
@@ -701,27 +1541,35 @@ export class LocalKanbanStore {
       throw new Error(`Invalid settings data: ${result.error.message}`);
     }
 
-    this.atomicWriteJSON(LOCAL_KANBAN_PATHS.settings, settings);
+    // The backend only changes through migrateStorage(), which moves the data with it
+    const { storage: _storage, ...rest } = settings;
+    const storage = this.readJSON<ProjectSettings>(LOCAL_KANBAN_PATHS.settings)?.storage;
+    this.atomicWriteJSON(LOCAL_KANBAN_PATHS.settings, storage ? { ...rest, storage } : rest);
   }
 
   updateSettings(patch: Partial<ProjectSettings>): ProjectSettings {
-    const current = this.getSettings();
-    const updated: ProjectSettings = {
-      ...current,
-      ...patch,
-      notifications: patch.notifications
-        ? { ...current.notifications, ...patch.notifications }
-        : current.notifications,
-      projectCommands: patch.projectCommands
-        ? { ...current.projectCommands, ...patch.projectCommands }
-        : current.projectCommands,
-      runner: patch.runner
-        ? { ...current.runner, ...patch.runner }
-        : current.runner,
-    };
-
-    this.saveSettings(updated);
-    return updated;
+    return this.transaction('updateSettings', () => {
+      const current = this.getSettings();
+      const updated: ProjectSettings = {
+        ...current,
+        ...patch,
+        notifications: patch.notifications
+          ? { ...current.notifications, ...patch.notifications }
+          : current.notifications,
+        projectCommands: patch.projectCommands
+          ? { ...current.projectCommands, ...patch.projectCommands }
+          : current.projectCommands,
+        runner: patch.runner
+          ? { ...current.runner, ...patch.runner }
+          : current.runner,
+        providers: patch.providers
+          ? { ...(current.providers || createDefaultProviderChainSettings()), ...patch.providers }
+          : current.providers,
+      };
+
+      this.saveSettings(updated);
+      return updated;
+    });
   }
 
   // ============================================
@@ -872,6 +1720,20 @@ export class LocalKanbanStore {
     return runDir;
   }
 
+  /**
+   * Add a saved run to the run index.
+   */
+  indexRun(run: AgentRun): void {
+    this.getBackend().indexRun(run);
+  }
+
+  /**
+   * List the runs of a task, or of all tasks, newest first.
+   */
+  listRuns(taskId?: string): AgentRun[] {
+    return this.getBackend().listRuns(taskId);
+  }
+
   getAgentRunPath(taskId: string, runId: string): string {
     return path.join(this.projectRoot, LOCAL_KANBAN_PATHS.agentRuns, taskId, `${runId}.json`);
   }
@@ -913,51 +1775,80 @@ export class LocalKanbanStore {
    * this resets them to idle state.
    */
   cleanupOrphanedRuns(): number {
-    const tasks = this.getTasks();
-    let cleaned = 0;
-
-    for (const task of tasks) {
-      if (task.runtime.status === 'running') {
-        console.log(`[Store] Cleaning orphaned running task: ${task.id} (${task.title})`);
-        task.runtime.status = 'idle';
-        task.runtime.currentRunId = undefined;
-        task.updatedAt = new Date().toISOString();
-        cleaned++;
+    return this.transaction('cleanupOrphanedRuns', () => {
+      const tasks = this.getTasks();
+      let cleaned = 0;
+
+      for (const task of tasks) {
+        if (task.runtime.status === 'running') {
+          console.log(`[Store] Cleaning orphaned running task: ${task.id} (${task.title})`);
+          task.runtime.status = 'idle';
+          task.runtime.currentRunId = undefined;
+          task.updatedAt = new Date().toISOString();
+          cleaned++;
+        }
       }
-    }
 
-    if (cleaned > 0) {
-      this.saveTasks(tasks);
-      console.log(`[Store] Cleaned ${cleaned} orphaned running task(s)`);
-    }
+      if (cleaned > 0) {
+        this.saveTasks(tasks);
+        console.log(`[Store] Cleaned ${cleaned} orphaned running task(s)`);
+      }
 
-    return cleaned;
+      return cleaned;
+    });
   }
 
   updateTaskRuntime(taskId: string, runtime: Partial<Task['runtime']>): void {
-    const tasks = this.getTasks();
-    const task = tasks.find(t => t.id === taskId);
+    this.transaction('updateTaskRuntime', () => {
+      const task = this.getTask(taskId);
+
+      if (!task) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
+
+      task.runtime = { ...task.runtime, ...runtime };
+      task.updatedAt = new Date().toISOString();
+
+      this.saveTask(task);
+    });
+  }
+
+  /**
+   * Add the usage of a run to a task's running total.
+   */
+  addTaskUsage(taskId: string, usage: TokenUsage): void {
+    const task = this.getTask(taskId);
 
     if (!task) {
       throw new Error(`Task not found: ${taskId}`);
     }
 
-    task.runtime = { ...task.runtime, ...runtime };
-    task.updatedAt = new Date().toISOString();
+    this.updateTaskRuntime(taskId, { usage: addTokenUsage(task.runtime.usage, usage) });
+  }
 
-    this.saveTasks(tasks);
+  /**
+   * Get the total usage of all tasks in the project.
+   */
+  getProjectUsage(): TokenUsage {
+    return this.getTasks().reduce<TokenUsage>(
+      (total, task) => (task.runtime.usage ? addTokenUsage(total, task.runtime.usage) : total),
+      { inputTokens: 0, outputTokens: 0, costUsd: 0 }
+    );
   }
 
   // ============================================
   // Get Pending Tasks for Ralph Mode
   // ============================================
 
-  getPendingTasks(strategy: 'fifo' | 'priority' | 'dependency' = 'dependency'): Task[] {
+  /**
+   * Get tasks still to be worked on, optionally narrowed by a task query.
+   */
+  getPendingTasks(strategy: 'fifo' | 'priority' | 'dependency' = 'dependency', query?: string): Task[] {
     const tasks = this.getTasks();
     const board = this.getBoard();
 
     // Get all non-done task IDs from board
-    const pendingColumns = board.columns.filter(c => c.id !== 'done');
+    const pendingColumns = board.columns.filter(c => !isTerminalStatus(c.id, board.columns));
     const pendingTaskIds = new Set(pendingColumns.flatMap(c => c.taskIds));
 
     let pendingTasks = tasks.filter(t =>
@@ -965,6 +1856,9 @@ export class LocalKanbanStore {
       t.runtime.status !== 'done' &&
       t.runtime.status !== 'blocked'
     );
+    if (query) {
+      pendingTasks = filterTasks(pendingTasks, query, { tasks, columns: board.columns });
+    }
 
     // Sort based on strategy
     switch (strategy) {
@@ -977,7 +1871,7 @@ export class LocalKanbanStore {
       }
       case 'dependency': {
         // Topological sort with dependency awareness
-        pendingTasks = this.sortByDependencies(pendingTasks, tasks);
+        pendingTasks = this.sortByDependencies(pendingTasks, board);
         break;
       }
       case 'fifo':
@@ -989,7 +1883,7 @@ export class LocalKanbanStore {
     return pendingTasks;
   }
 
-  private sortByDependencies(pendingTasks: Task[], _allTasks: Task[]): Task[] {
+  private sortByDependencies(pendingTasks: Task[], board: Board): Task[] {
     const result: Task[] = [];
     const visited = new Set<string>();
     const visiting = new Set<string>();
@@ -1018,15 +1912,16 @@ export class LocalKanbanStore {
     };
 
     // Prefer todo/doing over backlog (done tasks shouldn't be in pending list)
-    const columnOrder: Record<TaskStatus, number> = {
-      doing: 0,
+    const categoryOrder: Record<ColumnCategory, number> = {
+      in_progress: 0,
       todo: 1,
       review: 2,
       backlog: 3,
       done: 4,
     };
+    const rank = (task: Task) => categoryOrder[getStatusCategory(task.status, board.columns)];
     const sorted = [...pendingTasks].sort((a, b) =>
-      columnOrder[a.status] - columnOrder[b.status] || a.order - b.order
+      rank(a) - rank(b) || a.order - b.order
     );
 
     for (const task of sorted) {
@@ -1105,6 +2000,7 @@ export function getStore(projectRoot?: string): LocalKanbanStore {
 }
 
 export function initStore(projectRoot: string, projectName?: string): LocalKanbanStore {
+  storeInstance?.close();
   storeInstance = new LocalKanbanStore({
     projectRoot,
     enableBackups: true,
@@ -0,0 +1,369 @@
+/**
+ * MCP Client
+ *
+ * Connects to the external Model Context Protocol servers configured for a
+ * project, so the agent can use their tools next to AGENT_TOOLS. Servers are
+ * started as stdio commands when their tools are first needed, and their
+ * tools are namespaced as `mcp__<server>__<tool>`.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import * as readline from 'readline';
+import { McpClientError, getErrorMessage } from '../../shared/errors';
+import type { McpServerConfig, McpServerStatus, McpToolInfo } from '../../shared/types';
+
+export const MCP_TOOL_PREFIX = 'mcp__';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CONNECT_TIMEOUT_MS = 30 * 1000;
+const CALL_TIMEOUT_MS = 5 * 60 * 1000;
+/** Tool names providers accept */
+const MAX_TOOL_NAME_LENGTH = 64;
+/** stderr kept to explain a server that fails to start */
+const MAX_STDERR_LENGTH = 2000;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface ToolCallContent {
+  type: string;
+  text?: string;
+  resource?: { uri?: string; text?: string };
+}
+
+/**
+ * Get the name the agent calls a server's tool by.
+ */
+export function getMcpToolName(server: string, toolName: string): string {
+  return `${MCP_TOOL_PREFIX}${server}__${toolName.replace(/[^a-zA-Z0-9_-]/g, '_')}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Whether a tool name belongs to an MCP server.
+ */
+export function isMcpToolName(name: string): boolean {
+  return name.startsWith(MCP_TOOL_PREFIX);
+}
+
+/**
+ * Connection to one MCP server over stdio.
+ */
+export class McpClient {
+  readonly config: McpServerConfig;
+  private cwd: string;
+  private process: ChildProcess | null = null;
+  private connecting: Promise<void> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private stderr = '';
+
+  constructor(config: McpServerConfig, cwd: string) {
+    this.config = config;
+    this.cwd = cwd;
+  }
+
+  get connected(): boolean {
+    return this.process !== null;
+  }
+
+  /**
+   * Start the server and complete the initialization handshake.
+   *
+   * @throws McpClientError if the server does not start or initialize
+   */
+  connect(): Promise<void> {
+    // Callers share one handshake, so requests never go out before it is done
+    this.connecting ??= this.start();
+    return this.connecting;
+  }
+
+  private async start(): Promise<void> {
+    const proc = spawn(this.config.command, this.config.args ?? [], {
+      cwd: this.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32',
+      windowsHide: true,
+    });
+    this.process = proc;
+    this.stderr = '';
+
+    proc.stderr?.on('data', (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+    });
+    readline.createInterface({ input: proc.stdout! }).on('line', line => this.handleLine(line));
+    proc.stdin?.on('error', error => this.handleExit(error.message));
+    proc.on('error', error => this.handleExit(error.message));
+    // 'close' comes after stderr is drained, so the error includes it
+    proc.on('close', code => this.handleExit(`exited with code ${code}`));
+
+    try {
+      await this.request('initialize', {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'dexteria', version: '1.0.0' },
+      }, CONNECT_TIMEOUT_MS);
+      this.notify('notifications/initialized');
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * List the server's tools.
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {}, CONNECT_TIMEOUT_MS) as {
+        tools?: Array<{ name: string; description?: string; inputSchema?: unknown }>;
+        nextCursor?: string;
+      };
+      for (const tool of result.tools ?? []) {
+        tools.push({
+          name: getMcpToolName(this.config.name, tool.name),
+          toolName: tool.name,
+          server: this.config.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool by its name on the server.
+   *
+   * @returns The text of the result
+   * @throws McpClientError if the call fails or the tool reports an error
+   */
+  async callTool(toolName: string, args: Record<string, unknown>): Promise<string> {
+    const result = await this.request('tools/call', { name: toolName, arguments: args }, CALL_TIMEOUT_MS) as {
+      content?: ToolCallContent[];
+      structuredContent?: unknown;
+      isError?: boolean;
+    };
+
+    const text = (result.content ?? [])
+      .map(item => item.text ?? item.resource?.text ?? `[${item.type}${item.resource?.uri ? ` ${item.resource.uri}` : ''}]`)
+      .join('\n') || (result.structuredContent !== undefined ? JSON.stringify(result.structuredContent) : '');
+
+    if (result.isError) {
+      throw new McpClientError(this.config.name, text || `${toolName} failed`);
+    }
+    return text;
+  }
+
+  /**
+   * Stop the server. Pending requests fail.
+   */
+  close(): void {
+    const proc = this.process;
+    if (!proc) return;
+    this.handleExit('closed');
+    proc.stdin?.end();
+    proc.kill();
+  }
+
+  private request(method: string, params: unknown, timeoutMs: number): Promise<unknown> {
+    const proc = this.process;
+    if (!proc?.stdin) {
+      return Promise.reject(new McpClientError(this.config.name, 'not connected'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpClientError(this.config.name, `${method} timed out after ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      proc.stdin!.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  }
+
+  private notify(method: string): void {
+    this.process?.stdin?.write(JSON.stringify({ jsonrpc: '2.0', method }) + '\n');
+  }
+
+  private handleLine(line: string): void {
+    let message: { id?: number | string; method?: string; result?: unknown; error?: { message?: string } };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return; // Not protocol output
+    }
+
+    // Requests from the server: answer pings, decline the rest
+    if (message.method !== undefined) {
+      if (message.id !== undefined) {
+        const reply = message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+        this.process?.stdin?.write(JSON.stringify(reply) + '\n');
+      }
+      return;
+    }
+
+    const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) return;
+    this.pending.delete(message.id as number);
+    clearTimeout(pending.timer);
+
+    if (message.error) {
+      pending.reject(new McpClientError(this.config.name, message.error.message || 'request failed'));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private handleExit(reason: string): void {
+    if (!this.process) return;
+    this.process = null;
+    this.connecting = null;
+
+    const detail = this.stderr.trim() ? `${reason}: ${this.stderr.trim()}` : reason;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new McpClientError(this.config.name, detail));
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * The MCP servers of a project, with their discovered tools.
+ */
+export class McpClientManager {
+  private projectRoot: string;
+  private clients = new Map<string, McpClient>();
+  private tools = new Map<string, McpToolInfo[]>();
+  private errors = new Map<string, string>();
+
+  constructor(projectRoot: string, servers: McpServerConfig[] = []) {
+    this.projectRoot = projectRoot;
+    this.configure(servers);
+  }
+
+  /**
+   * Apply the project's server list. Servers whose configuration changed
+   * are restarted when next used.
+   */
+  configure(servers: McpServerConfig[]): void {
+    const next = new Map(servers.map(server => [server.name, server]));
+    for (const [name, client] of this.clients) {
+      if (JSON.stringify(next.get(name)) !== JSON.stringify(client.config)) {
+        client.close();
+        this.clients.delete(name);
+        this.tools.delete(name);
+        this.errors.delete(name);
+      }
+    }
+    for (const server of servers) {
+      if (!this.clients.has(server.name)) {
+        this.clients.set(server.name, new McpClient(server, this.projectRoot));
+      }
+    }
+  }
+
+  /**
+   * Tools of all enabled servers, starting servers that are not running.
+   * Servers that fail are left out and reported by getStatus().
+   */
+  async getTools(): Promise<McpToolInfo[]> {
+    const enabled = [...this.clients.values()].filter(client => client.config.enabled);
+    await Promise.all(enabled.map(client => this.discover(client)));
+    return enabled.flatMap(client => this.tools.get(client.config.name) ?? []);
+  }
+
+  /**
+   * Call a tool by its namespaced name.
+   *
+   * @throws McpClientError if no server has the tool or the call fails
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    for (const client of this.clients.values()) {
+      const tool = client.config.enabled && this.tools.get(client.config.name)?.find(t => t.name === name);
+      if (tool) {
+        await client.connect();
+        return client.callTool(tool.toolName, args);
+      }
+    }
+    throw new McpClientError(name.slice(MCP_TOOL_PREFIX.length).split('__')[0], `unknown tool ${name}`);
+  }
+
+  /**
+   * State and tools of every configured server.
+   */
+  getStatus(): McpServerStatus[] {
+    return [...this.clients.values()].map(({ config, connected }) => {
+      const error = this.errors.get(config.name);
+      return {
+        name: config.name,
+        state: !config.enabled ? 'disabled' : error ? 'error' : connected ? 'connected' : 'stopped',
+        error,
+        tools: this.tools.get(config.name) ?? [],
+      };
+    });
+  }
+
+  /**
+   * Stop all servers and forget their tools, so they are listed again.
+   */
+  reset(): void {
+    for (const client of this.clients.values()) client.close();
+    this.tools.clear();
+    this.errors.clear();
+  }
+
+  private async discover(client: McpClient): Promise<void> {
+    const { name } = client.config;
+    if (client.connected && this.tools.has(name)) return;
+
+    try {
+      await client.connect();
+      this.tools.set(name, await client.listTools());
+      this.errors.delete(name);
+    } catch (error) {
+      console.error(`[MCP] Could not list tools of ${name}:`, error);
+      client.close();
+      this.tools.delete(name);
+      this.errors.set(name, getErrorMessage(error));
+    }
+  }
+}
+
+// Singleton instance
+let instance: McpClientManager | null = null;
+
+/**
+ * Set up the MCP servers of the open project, stopping those of the
+ * previous one.
+ */
+export function initMcpClients(projectRoot: string, servers: McpServerConfig[] = []): McpClientManager {
+  instance?.reset();
+  instance = new McpClientManager(projectRoot, servers);
+  return instance;
+}
+
+/**
+ * Get the MCP servers of the open project.
+ */
+export function getMcpClients(): McpClientManager | null {
+  return instance;
+}
+
+/**
+ * Stop the MCP servers of the open project.
+ */
+export function closeMcpClients(): void {
+  instance?.reset();
+  instance = null;
+}
@@ -0,0 +1,231 @@
+/**
+ * MCP Server
+ *
+ * Model Context Protocol server over the stdio transport: JSON-RPC 2.0
+ * messages, one per line, read from stdin and written to stdout. It
+ * implements the protocol (initialization, tools, resources); what the tools
+ * do and which resources exist is supplied by the caller.
+ */
+
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import { getErrorMessage } from '../../shared/errors';
+
+/** Protocol versions the server speaks, newest first */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC 2.0 and MCP error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+export interface McpToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool arguments */
+  inputSchema: { type: 'object'; properties?: Record<string, unknown>; required?: string[] };
+}
+
+/**
+ * Outcome of a tool call. Errors are reported to the model as a result, not
+ * as a protocol error, so it can correct itself.
+ */
+export interface McpToolResult {
+  text: string;
+  isError?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface McpServerOptions {
+  name: string;
+  version: string;
+  /** Usage hints for the client's model */
+  instructions?: string;
+  tools: () => McpToolDefinition[];
+  callTool: (name: string, args: Record<string, unknown>) => Promise<McpToolResult>;
+  resources: () => McpResource[];
+  resourceTemplates?: () => McpResourceTemplate[];
+  /** Read a resource, or null if there is none at the URI */
+  readResource: (uri: string) => Promise<McpResourceContents | null>;
+}
+
+interface McpResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+type McpOutcome = Pick<McpResponse, 'result' | 'error'>;
+
+function mcpError(code: number, message: string): McpOutcome {
+  return { error: { code, message } };
+}
+
+export class McpServer {
+  private options: McpServerOptions;
+  private client: { name: string; version?: string } | null = null;
+
+  constructor(options: McpServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Name of the connected client, once it has initialized.
+   */
+  get clientName(): string | null {
+    return this.client?.name ?? null;
+  }
+
+  /**
+   * Serve messages from `input` until it ends. Messages are handled one at a
+   * time, in order, so tool calls never interleave.
+   */
+  async listen(input: Readable, output: Writable): Promise<void> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        message = undefined;
+      }
+
+      const response = message === undefined
+        ? { jsonrpc: '2.0', id: null, ...mcpError(PARSE_ERROR, 'Parse error') }
+        : await this.handleMessage(message);
+      if (response) output.write(JSON.stringify(response) + '\n');
+    }
+  }
+
+  /**
+   * Handle one JSON-RPC message.
+   *
+   * @returns The response, or null for notifications and responses
+   */
+  async handleMessage(message: unknown): Promise<McpResponse | null> {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return { jsonrpc: '2.0', id: null, ...mcpError(INVALID_REQUEST, 'Invalid request') };
+    }
+
+    const { jsonrpc, id, method, params } = message as Record<string, unknown>;
+    const responseId = typeof id === 'string' || typeof id === 'number' ? id : null;
+
+    // Replies to server requests; the server sends none, so ignore them
+    if (method === undefined && id !== undefined) return null;
+
+    if (jsonrpc !== '2.0' || typeof method !== 'string' || (params !== undefined && (params === null || typeof params !== 'object'))) {
+      return { jsonrpc: '2.0', id: responseId, ...mcpError(INVALID_REQUEST, 'Invalid request') };
+    }
+
+    // Notifications (initialized, cancelled) need no action
+    if (id === undefined) return null;
+
+    try {
+      const outcome = await this.dispatch(method, (params ?? {}) as Record<string, unknown>);
+      return { jsonrpc: '2.0', id: responseId, ...outcome };
+    } catch (error) {
+      return { jsonrpc: '2.0', id: responseId, ...mcpError(INTERNAL_ERROR, getErrorMessage(error)) };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<McpOutcome> {
+    switch (method) {
+      case 'initialize':
+        return { result: this.initialize(params) };
+
+      case 'ping':
+        return { result: {} };
+
+      case 'tools/list':
+        return { result: { tools: this.options.tools() } };
+
+      case 'tools/call': {
+        const { name, arguments: args } = params;
+        if (typeof name !== 'string' || !this.options.tools().some(tool => tool.name === name)) {
+          return mcpError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+        }
+        if (args !== undefined && (args === null || typeof args !== 'object' || Array.isArray(args))) {
+          return mcpError(INVALID_PARAMS, 'Tool arguments must be an object');
+        }
+
+        let result: McpToolResult;
+        try {
+          result = await this.options.callTool(name, (args ?? {}) as Record<string, unknown>);
+        } catch (error) {
+          result = { text: getErrorMessage(error), isError: true };
+        }
+        return { result: { content: [{ type: 'text', text: result.text }], isError: result.isError ?? false } };
+      }
+
+      case 'resources/list':
+        return { result: { resources: this.options.resources() } };
+
+      case 'resources/templates/list':
+        return { result: { resourceTemplates: this.options.resourceTemplates?.() ?? [] } };
+
+      case 'resources/read': {
+        const { uri } = params;
+        if (typeof uri !== 'string') {
+          return mcpError(INVALID_PARAMS, 'Missing resource URI');
+        }
+        const contents = await this.options.readResource(uri);
+        if (!contents) {
+          return mcpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+        }
+        return { result: { contents: [contents] } };
+      }
+
+      default:
+        return mcpError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>): unknown {
+    const clientInfo = params.clientInfo as { name?: unknown; version?: unknown } | undefined;
+    if (clientInfo && typeof clientInfo.name === 'string') {
+      this.client = {
+        name: clientInfo.name,
+        version: typeof clientInfo.version === 'string' ? clientInfo.version : undefined,
+      };
+    }
+
+    // Answer with the client's version if we speak it, else our newest
+    const requested = params.protocolVersion;
+    const protocolVersion = typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : MCP_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: this.options.name, version: this.options.version },
+      ...(this.options.instructions && { instructions: this.options.instructions }),
+    };
+  }
+}
@@ -11,7 +11,11 @@ import { app, dialog } from 'electron';
 import AdmZip from 'adm-zip';
 import { getStore } from '../ipc/handlers/shared';
 import { getBundledPlugins } from '../plugins/bundled';
+import { getColumnCategory } from '../../shared/schemas/common';
+import { runAsActor } from './TaskHistory';
 import type {
+  ChangeActor,
+  ColumnCategory,
   PluginManifest,
   PluginInfo,
   PluginIndex,
@@ -108,17 +112,32 @@ export interface ContextMenuItemOptions {
   order?: number;
 }
 
+/**
+ * Options for plugin task changes
+ */
+export interface PluginTaskChangeOptions {
+  /** Record the change as a sync from an external tracker rather than a plugin edit */
+  sync?: boolean;
+}
+
 /**
  * Task API interface for plugins
  */
 export interface PluginTaskAPI {
-  create: (title: string, status?: string) => Promise<{ id: string; title: string; status: string }>;
-  update: (taskId: string, patch: Record<string, unknown>) => Promise<{ id: string }>;
-  move: (taskId: string, toColumn: string) => Promise<void>;
+  create: (title: string, status?: string, options?: PluginTaskChangeOptions) => Promise<{ id: string; title: string; status: string }>;
+  update: (taskId: string, patch: Record<string, unknown>, options?: PluginTaskChangeOptions) => Promise<{ id: string }>;
+  move: (taskId: string, toColumn: string, options?: PluginTaskChangeOptions) => Promise<void>;
   get: (taskId: string) => Promise<unknown>;
   getAll: () => Promise<unknown[]>;
 }
 
+/**
+ * Board API interface for plugins
+ */
+export interface PluginBoardAPI {
+  getColumns: () => Promise<Array<{ id: string; title: string; category: ColumnCategory; wipLimit?: number }>>;
+}
+
 /**
  * Plugin context provided to plugins during activation
  */
@@ -160,6 +179,7 @@ export interface PluginContext {
   // API for interacting with Dexteria
   api: {
     tasks: PluginTaskAPI;
+    board: PluginBoardAPI;
   };
 }
 
@@ -401,6 +421,13 @@ export class PluginManager {
 
     const storagePath = path.join(pluginDataPath, 'storage.json');
 
+    // Task changes made through the API are attributed to the plugin
+    const actorFor = (options?: PluginTaskChangeOptions): ChangeActor => ({
+      type: options?.sync ? 'sync' : 'plugin',
+      id: pluginId,
+      name: plugin.manifest.name,
+    });
+
     // Load existing storage
     let storage: Record<string, unknown> = {};
     if (fs.existsSync(storagePath)) {
@@ -502,19 +529,19 @@ export class PluginManager {
 
       api: {
         tasks: {
-          create: async (title: string, status = 'backlog') => {
+          create: async (title: string, status = 'backlog', options?: PluginTaskChangeOptions) => {
             const store = getStore();
-            const task = await store.createTask(title, status as TaskStatus);
+            const task = runAsActor(actorFor(options), () => store.createTask(title, status as TaskStatus));
             return { id: task.id, title: task.title, status: task.status };
           },
-          update: async (taskId: string, patch: Record<string, unknown>) => {
+          update: async (taskId: string, patch: Record<string, unknown>, options?: PluginTaskChangeOptions) => {
             const store = getStore();
-            await store.updateTask(taskId, patch);
+            runAsActor(actorFor(options), () => store.updateTask(taskId, patch));
             return { id: taskId };
           },
-          move: async (taskId: string, toColumn: string) => {
+          move: async (taskId: string, toColumn: string, options?: PluginTaskChangeOptions) => {
             const store = getStore();
-            await store.moveTask(taskId, toColumn as TaskStatus);
+            runAsActor(actorFor(options), () => store.moveTask(taskId, toColumn as TaskStatus));
           },
           get: async (taskId: string) => {
             const store = getStore();
@@ -526,6 +553,17 @@ export class PluginManager {
             return store.getTasks();
           },
         },
+        board: {
+          getColumns: async () => {
+            const store = getStore();
+            return store.getBoard().columns.map(column => ({
+              id: column.id,
+              title: column.title,
+              category: getColumnCategory(column),
+              wipLimit: column.wipLimit,
+            }));
+          },
+        },
       },
     };
   }
@@ -3,11 +3,14 @@
  *
  * Security enforcement based on policy.json.
  * Validates paths, commands, and enforces limits.
+ * Paths are scoped to the root the guard is created with: the project root,
+ * or a task's git worktree when the run is isolated in one.
  */
 
 import * as path from 'path';
 import { minimatch } from 'minimatch';
-import type { Policy, PolicyLimits } from '../../shared/types';
+import { PolicyProfileNotFoundError } from '../../shared/errors';
+import type { Policy, PolicyLimits, TokenUsage } from '../../shared/types';
 
 export interface DiffStats {
   filesChanged: number;
@@ -19,11 +22,120 @@ export interface RuntimeStats {
   startTime: number;
   stepsExecuted: number;
   filesModified: string[];
+  /** Tokens and cost of the run so far */
+  usage?: TokenUsage;
+  /** Cost of all earlier runs in the project, in USD */
+  projectCostUsd?: number;
 }
 
 export interface ValidationResult {
   allowed: boolean;
   reason?: string;
+  /** Policy rule that blocked the operation, e.g. "blockedPaths: .git/**" */
+  rule?: string;
+}
+
+export interface EffectivePolicyInput {
+  /** Profile selected by the task, template or Ralph session */
+  profileId?: string;
+  /** The task's agent.scope globs */
+  scope?: string[];
+}
+
+/**
+ * Whether an agent.scope entry names files ("src/auth/**", "README.md")
+ * rather than an area described in words ("login flow").
+ */
+function isPathLikeScope(entry: string): boolean {
+  return !/\s/.test(entry) && /[/*.]/.test(entry);
+}
+
+function union(base: string[], extra?: string[]): string[] {
+  return extra ? [...new Set([...base, ...extra])] : base;
+}
+
+/**
+ * Intersect two allow-lists of names (operations, commands).
+ */
+function intersect(base: string[], extra?: string[]): string[] {
+  return extra ? base.filter(entry => extra.includes(entry)) : base;
+}
+
+/**
+ * Intersect two allow-lists of glob patterns. A pattern is kept when the
+ * other list covers it (`src/auth/**` is covered by `src/**`); overlaps
+ * that neither list spells out are dropped, so the result errs on the side
+ * of denying. An empty list allows everything.
+ */
+function intersectPatterns(base: string[], extra?: string[]): string[] {
+  if (!extra || extra.length === 0) return base;
+  if (base.length === 0) return extra;
+
+  const covers = (patterns: string[], pattern: string) =>
+    patterns.some(other => other === pattern || minimatch(pattern, other, { dot: true }));
+  return [...new Set([
+    ...base.filter(pattern => covers(extra, pattern)),
+    ...extra.filter(pattern => covers(base, pattern)),
+  ])];
+}
+
+/**
+ * Compute the policy a run is held to: the project policy with the
+ * selected profile applied and writes limited to the task's scope
+ * (entries that look like paths or globs).
+ * A profile can only narrow the project policy: allow-lists (paths,
+ * operations, commands and MCP tools) are intersected with the project's;
+ * lists that restrict access are merged.
+ *
+ * @throws PolicyProfileNotFoundError if the profile does not exist
+ */
+export function resolveEffectivePolicy(policy: Policy, input: EffectivePolicyInput = {}): Policy {
+  const writeScopes = [...(policy.writeScopes || [])];
+  let effective: Policy = { ...policy };
+
+  if (input.profileId) {
+    const profile = policy.profiles?.find(p => p.id === input.profileId);
+    if (!profile) {
+      throw new PolicyProfileNotFoundError(input.profileId);
+    }
+
+    effective = {
+      ...effective,
+      allowedPaths: intersectPatterns(policy.allowedPaths, profile.allowedPaths),
+      allowedOperations: intersect(policy.allowedOperations, profile.allowedOperations),
+      blockedPaths: union(policy.blockedPaths, profile.blockedPaths),
+      requireConfirmation: union(policy.requireConfirmation, profile.requireConfirmation),
+      shellCommands: {
+        allowed: intersect(policy.shellCommands.allowed, profile.shellCommands?.allowed),
+        blocked: union(policy.shellCommands.blocked, profile.shellCommands?.blocked),
+        requireConfirmation: union(
+          policy.shellCommands.requireConfirmation,
+          profile.shellCommands?.requireConfirmation
+        ),
+      },
+      mcpTools: policy.mcpTools || profile.mcpTools
+        ? {
+          allowed: intersectPatterns(policy.mcpTools?.allowed ?? ['*'], profile.mcpTools?.allowed),
+          blocked: union(policy.mcpTools?.blocked ?? [], profile.mcpTools?.blocked),
+        }
+        : undefined,
+      limits: { ...policy.limits, ...profile.limits },
+    };
+
+    if (profile.writePaths && profile.writePaths.length > 0) {
+      writeScopes.push(profile.writePaths);
+    }
+  }
+
+  // Scopes written in words cannot be enforced, so they stay advisory
+  const scope = (input.scope || [])
+    .map(entry => entry.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, ''))
+    .filter(isPathLikeScope);
+  if (scope.length > 0) {
+    writeScopes.push(scope);
+  }
+
+  return writeScopes.length > 0 ? { ...effective, writeScopes } : effective;
 }
 
 export class PolicyGuard {
@@ -49,56 +161,65 @@ export class PolicyGuard {
       ? path.resolve(inputPath)
       : path.resolve(this.projectRoot, inputPath);
 
-    // Check for path traversal - must be within project root
-    if (!resolved.startsWith(this.projectRoot)) {
+    // Check for path traversal - must be within project root.
+    // A plain prefix check is not enough: a sibling such as "<root>-worktree"
+    // shares the prefix but lives outside the root.
+    const relative = path.relative(this.projectRoot, resolved);
+    if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
       return null;
     }
 
-    // Get relative path from project root
-    return path.relative(this.projectRoot, resolved);
+    return relative;
   }
 
   /**
-   * Check if a path matches any pattern in a list.
+   * Find the first pattern in a list that a path matches.
    */
-  private matchesPattern(relativePath: string, patterns: string[]): boolean {
+  private findMatchingPattern(relativePath: string, patterns: string[]): string | null {
     // Normalize path separators for cross-platform matching
     const normalized = relativePath.replace(/\\/g, '/');
 
     for (const pattern of patterns) {
       if (minimatch(normalized, pattern, { dot: true })) {
-        return true;
+        return pattern;
       }
       // Also check if any parent directory matches
       const parts = normalized.split('/');
       for (let i = 1; i <= parts.length; i++) {
         const partial = parts.slice(0, i).join('/');
         if (minimatch(partial, pattern, { dot: true })) {
-          return true;
+          return pattern;
         }
       }
     }
-    return false;
+    return null;
+  }
+
+  /**
+   * Check if a path matches any pattern in a list.
+   */
+  private matchesPattern(relativePath: string, patterns: string[]): boolean {
+    return this.findMatchingPattern(relativePath, patterns) !== null;
   }
 
   /**
-   * Check if filename matches blocked patterns (secrets, keys, etc.)
+   * Find the blocked pattern (secrets, keys, etc.) a filename matches.
    */
-  private matchesBlockedPattern(relativePath: string): boolean {
+  private findBlockedPattern(relativePath: string): string | null {
     const fileName = path.basename(relativePath);
     const normalized = relativePath.replace(/\\/g, '/');
 
     for (const pattern of this.policy.blockedPatterns) {
       // Match against filename
       if (minimatch(fileName, pattern, { dot: true })) {
-        return true;
+        return pattern;
       }
       // Match against full path
       if (minimatch(normalized, pattern, { dot: true })) {
-        return true;
+        return pattern;
       }
     }
-    return false;
+    return null;
   }
 
   /**
@@ -111,22 +232,27 @@ export class PolicyGuard {
       return {
         allowed: false,
         reason: `Path traversal detected: "${inputPath}" escapes project root`,
+        rule: 'pathTraversal',
       };
     }
 
     // Check blocked patterns first (highest priority)
-    if (this.matchesBlockedPattern(relativePath)) {
+    const blockedPattern = this.findBlockedPattern(relativePath);
+    if (blockedPattern !== null) {
       return {
         allowed: false,
         reason: `Path matches blocked pattern: "${relativePath}"`,
+        rule: `blockedPatterns: ${blockedPattern}`,
       };
     }
 
     // Check explicitly blocked paths
-    if (this.matchesPattern(relativePath, this.policy.blockedPaths)) {
+    const blockedPath = this.findMatchingPattern(relativePath, this.policy.blockedPaths);
+    if (blockedPath !== null) {
       return {
         allowed: false,
         reason: `Path is blocked by policy: "${relativePath}"`,
+        rule: `blockedPaths: ${blockedPath}`,
       };
     }
 
@@ -146,6 +272,7 @@ export class PolicyGuard {
       return {
         allowed: false,
         reason: 'Read operations are not allowed by policy',
+        rule: 'allowedOperations: read',
       };
     }
 
@@ -157,6 +284,7 @@ export class PolicyGuard {
         return {
           allowed: false,
           reason: `Path not in allowed paths: "${relativePath}"`,
+          rule: 'allowedPaths',
         };
       }
     }
@@ -177,6 +305,7 @@ export class PolicyGuard {
       return {
         allowed: false,
         reason: 'Write operations are not allowed by policy',
+        rule: 'allowedOperations: write',
       };
     }
 
@@ -188,6 +317,18 @@ export class PolicyGuard {
         return {
           allowed: false,
           reason: `Path not in allowed paths for write: "${relativePath}"`,
+          rule: 'allowedPaths',
+        };
+      }
+    }
+
+    // Check the profile's write paths and the task scope
+    for (const scope of this.policy.writeScopes || []) {
+      if (scope.length > 0 && !this.matchesPattern(relativePath, scope)) {
+        return {
+          allowed: false,
+          reason: `Path is outside the write scope [${scope.join(', ')}]: "${relativePath}"`,
+          rule: `writeScopes: [${scope.join(', ')}]`,
         };
       }
     }
@@ -197,6 +338,7 @@ export class PolicyGuard {
       return {
         allowed: false,
         reason: `File size (${fileSize} bytes) exceeds limit (${this.policy.maxFileSize} bytes)`,
+        rule: 'maxFileSize',
       };
     }
 
@@ -244,6 +386,7 @@ export class PolicyGuard {
       return {
         allowed: false,
         reason: `Command contains potentially dangerous shell metacharacter: ${metaCheck.char}`,
+        rule: `shellMetacharacters: ${metaCheck.char}`,
       };
     }
 
@@ -253,6 +396,7 @@ export class PolicyGuard {
         return {
           allowed: false,
           reason: `Command contains blocked pattern: "${blocked}"`,
+          rule: `shellCommands.blocked: ${blocked}`,
         };
       }
     }
@@ -267,12 +411,81 @@ export class PolicyGuard {
       return {
         allowed: false,
         reason: `Command "${firstWord}" is not in the allowed list: [${this.policy.shellCommands.allowed.join(', ')}]`,
+        rule: 'shellCommands.allowed',
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Validate a call to an MCP server tool by its namespaced name.
+   * Without an MCP tool policy, all tools of the project's servers are allowed.
+   */
+  validateMcpTool(toolName: string): ValidationResult {
+    const mcpTools = this.policy.mcpTools;
+    if (!mcpTools) {
+      return { allowed: true };
+    }
+
+    const blocked = mcpTools.blocked.find(pattern => minimatch(toolName, pattern));
+    if (blocked) {
+      return {
+        allowed: false,
+        reason: `MCP tool "${toolName}" is blocked by "${blocked}"`,
+        rule: `mcpTools.blocked: ${blocked}`,
+      };
+    }
+
+    if (!mcpTools.allowed.some(pattern => minimatch(toolName, pattern))) {
+      return {
+        allowed: false,
+        reason: `MCP tool "${toolName}" is not in the allowed list: [${mcpTools.allowed.join(', ')}]`,
+        rule: 'mcpTools.allowed',
       };
     }
 
     return { allowed: true };
   }
 
+  // ============================================
+  // Confirmation Rules
+  // ============================================
+
+  /**
+   * Find the shellCommands.requireConfirmation entry a command matches.
+   * Entries are command prefixes matched on whole words, e.g. "git push".
+   */
+  getCommandConfirmationRule(cmd: string): string | null {
+    const normalized = cmd.trim().replace(/\s+/g, ' ').toLowerCase();
+
+    for (const rule of this.policy.shellCommands.requireConfirmation) {
+      const prefix = rule.trim().replace(/\s+/g, ' ').toLowerCase();
+      if (prefix && (normalized === prefix || normalized.startsWith(prefix + ' '))) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the requireConfirmation entry a file operation matches.
+   * Entries are operation names (e.g. "overwrite_large_file") or path globs.
+   */
+  getPathConfirmationRule(inputPath: string, operation: string): string | null {
+    const relativePath = this.normalizePath(inputPath);
+    if (relativePath === null) {
+      return null;
+    }
+
+    for (const rule of this.policy.requireConfirmation) {
+      if (rule === operation || this.matchesPattern(relativePath, [rule])) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
   // ============================================
   // Limit Enforcement
   // ============================================
@@ -332,6 +545,41 @@ export class PolicyGuard {
       };
     }
 
+    return this.enforceBudgets(stats.usage, stats.projectCostUsd);
+  }
+
+  /**
+   * Enforce token and cost budgets.
+   * @param usage Usage of the current run so far
+   * @param projectCostUsd Cost of all earlier runs in the project
+   */
+  enforceBudgets(usage?: TokenUsage, projectCostUsd: number = 0): ValidationResult {
+    const limits = this.policy.limits;
+    const runTokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+    const runCost = usage?.costUsd || 0;
+
+    if (limits.maxTokensPerRun && runTokens > limits.maxTokensPerRun) {
+      return {
+        allowed: false,
+        reason: `Tokens used (${runTokens}) exceeds budget (${limits.maxTokensPerRun})`,
+      };
+    }
+
+    if (limits.maxCostPerRunUsd && runCost > limits.maxCostPerRunUsd) {
+      return {
+        allowed: false,
+        reason: `Run cost ($${runCost.toFixed(2)}) exceeds budget ($${limits.maxCostPerRunUsd.toFixed(2)})`,
+      };
+    }
+
+    const totalCost = projectCostUsd + runCost;
+    if (limits.maxProjectCostUsd && totalCost >= limits.maxProjectCostUsd) {
+      return {
+        allowed: false,
+        reason: `Project cost ($${totalCost.toFixed(2)}) has reached its budget ($${limits.maxProjectCostUsd.toFixed(2)})`,
+      };
+    }
+
     return { allowed: true };
   }
 
@@ -366,6 +614,13 @@ export class PolicyGuard {
     return path.relative(this.projectRoot, absolutePath);
   }
 
+  /**
+   * Get the root directory paths are scoped to.
+   */
+  getRoot(): string {
+    return this.projectRoot;
+  }
+
   /**
    * Check if a path is within project root.
    */
@@ -0,0 +1,195 @@
+/**
+ * PolicySimulator
+ *
+ * Dry run for policy edits: replays the file tool calls and commands
+ * recorded in past agent runs through the current and a candidate policy,
+ * and reports the calls whose outcome would change, grouped by the rule
+ * responsible.
+ *
+ * Only checks that depend on the recorded call itself are replayed (paths,
+ * operations, file size and commands); run limits and budgets are not.
+ */
+
+import * as path from 'path';
+import { PolicyGuard, ValidationResult } from './PolicyGuard';
+import { isMcpToolName } from './McpClient';
+import type {
+  AgentRun,
+  Policy,
+  PolicySimulationChange,
+  PolicySimulationGroup,
+  PolicySimulationResult,
+} from '../../shared/types';
+
+/**
+ * Runs of one task, as listed from .local-kanban/agent-runs/<taskId>/.
+ */
+export interface TaskRuns {
+  taskId: string;
+  runs: AgentRun[];
+}
+
+/**
+ * A recorded call that can be checked against a policy.
+ */
+interface ReplayableCall {
+  timestamp: string;
+  tool: string;
+  target: string;
+  check: (guard: PolicyGuard) => ValidationResult;
+}
+
+export class PolicySimulator {
+  private projectRoot: string;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * Replay past runs through both policies and report what changes.
+   */
+  simulate(current: Policy, candidate: Policy, taskRuns: TaskRuns[]): PolicySimulationResult {
+    const currentGuard = new PolicyGuard(this.projectRoot, current);
+    const candidateGuard = new PolicyGuard(this.projectRoot, candidate);
+    const groups = new Map<string, PolicySimulationGroup>();
+    let runsScanned = 0;
+    let callsReplayed = 0;
+    let newlyBlocked = 0;
+    let newlyAllowed = 0;
+
+    for (const { taskId, runs } of taskRuns) {
+      for (const run of runs) {
+        runsScanned++;
+
+        for (const call of this.getReplayableCalls(run)) {
+          callsReplayed++;
+          const before = call.check(currentGuard);
+          const after = call.check(candidateGuard);
+          if (before.allowed === after.allowed) continue;
+
+          // Attribute the change to the rule that blocks under either policy
+          const change: PolicySimulationChange = after.allowed ? 'newly_allowed' : 'newly_blocked';
+          const blocking = after.allowed ? before : after;
+          const rule = blocking.rule || blocking.reason || 'unknown';
+          if (change === 'newly_blocked') {
+            newlyBlocked++;
+          } else {
+            newlyAllowed++;
+          }
+
+          const key = `${change}:${rule}`;
+          let group = groups.get(key);
+          if (!group) {
+            group = { rule, change, calls: [] };
+            groups.set(key, group);
+          }
+
+          group.calls.push({
+            taskId,
+            runId: run.id,
+            timestamp: call.timestamp,
+            tool: call.tool,
+            target: call.target,
+            reason: blocking.reason || '',
+          });
+        }
+      }
+    }
+
+    return {
+      runsScanned,
+      callsReplayed,
+      newlyBlocked,
+      newlyAllowed,
+      groups: [...groups.values()].sort((a, b) => b.calls.length - a.calls.length),
+    };
+  }
+
+  /**
+   * Get the calls of a run that can be replayed.
+   * Commands run through run_command are recorded both as a tool call and
+   * as a command, so commands are only replayed when no tool call matches.
+   */
+  private getReplayableCalls(run: AgentRun): ReplayableCall[] {
+    const calls: ReplayableCall[] = [];
+    const toolCommands = new Map<string, number>();
+
+    for (const toolCall of run.toolCalls || []) {
+      const input = toolCall.input || {};
+      const target = typeof input.path === 'string' ? input.path : '';
+
+      switch (toolCall.name) {
+        case 'read_file':
+          if (!target) break;
+          calls.push({
+            timestamp: toolCall.timestamp,
+            tool: toolCall.name,
+            target,
+            check: guard => guard.validateRead(target),
+          });
+          break;
+
+        case 'write_file': {
+          if (!target) break;
+          const size = typeof input.content === 'string' ? Buffer.byteLength(input.content, 'utf-8') : undefined;
+          calls.push({
+            timestamp: toolCall.timestamp,
+            tool: toolCall.name,
+            target,
+            check: guard => guard.validateWrite(target, size),
+          });
+          break;
+        }
+
+        case 'apply_patch':
+          if (!target) break;
+          calls.push({
+            timestamp: toolCall.timestamp,
+            tool: toolCall.name,
+            target,
+            check: guard => guard.validateWrite(target),
+          });
+          break;
+
+        case 'run_command': {
+          const cmd = typeof input.cmd === 'string' ? input.cmd : '';
+          if (!cmd) break;
+          toolCommands.set(cmd, (toolCommands.get(cmd) || 0) + 1);
+          calls.push({
+            timestamp: toolCall.timestamp,
+            tool: toolCall.name,
+            target: cmd,
+            check: guard => guard.validateCommand(cmd),
+          });
+          break;
+        }
+
+        default:
+          if (!isMcpToolName(toolCall.name)) break;
+          calls.push({
+            timestamp: toolCall.timestamp,
+            tool: toolCall.name,
+            target: toolCall.name,
+            check: guard => guard.validateMcpTool(toolCall.name),
+          });
+      }
+    }
+
+    for (const command of run.commands || []) {
+      const seen = toolCommands.get(command.command) || 0;
+      if (seen > 0) {
+        toolCommands.set(command.command, seen - 1);
+        continue;
+      }
+      calls.push({
+        timestamp: command.timestamp,
+        tool: 'run_command',
+        target: command.command,
+        check: guard => guard.validateCommand(command.command),
+      });
+    }
+
+    return calls;
+  }
+}
@@ -0,0 +1,542 @@
+/**
+ * Project Archive Service
+ *
+ * Exports a project's board, tasks, templates, policy, settings, chats and
+ * (optionally) run artifacts into a single .dexteria file, and imports such
+ * files into another project.
+ *
+ * The archive is a zip file with a versioned manifest.json and the same
+ * layout as .local-kanban. Every part is validated with the shared zod
+ * schemas before anything is written.
+ *
+ * Imports either replace the board and tasks (keeping the archive's task IDs)
+ * or merge into the current board, where imported tasks get new IDs through
+ * the same remapping used by TaskIdMigration.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import AdmZip from 'adm-zip';
+import type { ZodType } from 'zod';
+import {
+  AgentRunSchema,
+  BoardSchema,
+  ChatIndexSchema,
+  ChatSchema,
+  PolicySchema,
+  ProjectArchiveManifestSchema,
+  ProjectSettingsSchema,
+  TasksFileSchema,
+  TemplatesFileSchema,
+  createTaskId,
+} from '../../shared/schemas';
+import { LOCAL_KANBAN_PATHS } from '../../shared/schemas/common';
+import { ProjectArchiveError } from '../../shared/errors';
+import { applyTaskIdMap } from './TaskIdMigration';
+import { runAsActor } from './TaskHistory';
+import { initTemplateService } from './TemplateService';
+import type { LocalKanbanStore } from './LocalKanbanStore';
+import type {
+  AgentRun,
+  Board,
+  GitConfig,
+  Chat,
+  ChatIndex,
+  Policy,
+  ProjectArchiveManifest,
+  ProjectArchivePart,
+  ProjectExportOptions,
+  ProjectImportOptions,
+  ProjectImportResult,
+  ProjectSettings,
+  Task,
+  TaskTemplate,
+} from '../../shared/types';
+
+/** Current archive format version; older versions must stay importable */
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+export const PROJECT_ARCHIVE_EXTENSION = 'dexteria';
+
+/** File and task IDs used in archive entry names */
+const SAFE_NAME = /^[\w.-]+$/;
+
+const AGENT_RUN_ENTRY = /^agent-runs\/([^/]+)\/([^/]+)\.json$/;
+const COMMAND_LOG_ENTRY = /^runs\/([^/]+)\/([^/]+)$/;
+
+/**
+ * The validated contents of an archive.
+ */
+interface ArchiveContents {
+  manifest: ProjectArchiveManifest;
+  tasks: Task[];
+  board: Board | null;
+  templates: TaskTemplate[] | null;
+  policy: Policy | null;
+  settings: ProjectSettings | null;
+  chats: Chat[];
+  runs: AgentRun[];
+  /** Command logs by archive task ID */
+  commandLogs: Array<{ taskId: string; name: string; data: Buffer }>;
+}
+
+function taskNumber(taskId: string): number {
+  const match = taskId.match(/^TSK-(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function duplicateKey(task: Task): string {
+  return `${task.title}\u0000${task.createdAt}`;
+}
+
+/**
+ * Runs in progress belong to the machine that exported them, so imported
+ * tasks are never left running.
+ */
+function resetRunningTask(task: Task): Task {
+  return task.runtime.status === 'running'
+    ? { ...task, runtime: { ...task.runtime, status: 'idle', currentRunId: undefined } }
+    : task;
+}
+
+export class ProjectArchiveService {
+  constructor(
+    private projectRoot: string,
+    private store: LocalKanbanStore,
+    private appVersion?: string
+  ) {}
+
+  // ============================================
+  // Export
+  // ============================================
+
+  async exportProject(filePath: string, options: ProjectExportOptions = {}): Promise<ProjectArchiveManifest> {
+    const zip = new AdmZip();
+    const parts: ProjectArchivePart[] = [];
+    const addJSON = (name: string, data: unknown) => zip.addFile(name, Buffer.from(JSON.stringify(data, null, 2)));
+
+    const tasks = this.store.getTasks();
+    addJSON('tasks.json', { tasks });
+    parts.push('tasks');
+
+    const board = this.store.getBoard();
+    addJSON('board.json', board);
+    parts.push('board');
+
+    const templates = (await initTemplateService(this.projectRoot)).getAll();
+    addJSON('templates.json', { templates });
+    parts.push('templates');
+
+    addJSON('policy.json', this.store.getPolicy());
+    parts.push('policy');
+
+    // The storage backend is a choice of the machine, not of the project
+    const { storage: _storage, ...settings } = this.store.getSettings();
+    addJSON('settings.json', settings);
+    parts.push('settings');
+
+    const chatIndex = this.store.getChatIndex();
+    addJSON('chats/index.json', chatIndex);
+    for (const entry of chatIndex.chats) {
+      const chat = this.store.getChat(entry.id);
+      if (chat) addJSON(`chats/${entry.id}.json`, chat);
+    }
+    parts.push('chats');
+
+    if (options.includeRuns) {
+      this.addRuns(zip);
+      parts.push('runs');
+    }
+
+    const manifest: ProjectArchiveManifest = {
+      format: 'dexteria-project',
+      version: PROJECT_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      appVersion: this.appVersion,
+      projectName: board.name,
+      parts,
+      taskCount: tasks.length,
+    };
+    addJSON('manifest.json', manifest);
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, zip.toBuffer());
+    console.log(`[ProjectArchive] Exported ${tasks.length} tasks to ${filePath}`);
+
+    return manifest;
+  }
+
+  private addRuns(zip: AdmZip): void {
+    for (const run of this.store.listRuns()) {
+      const runPath = this.store.getAgentRunPath(run.taskId, run.id);
+      const data = fs.existsSync(runPath) ? fs.readFileSync(runPath) : Buffer.from(JSON.stringify(run, null, 2));
+      zip.addFile(`agent-runs/${run.taskId}/${run.id}.json`, data);
+    }
+
+    // Command logs; project-level runs (dev server, build) are not task artifacts
+    const runsDir = path.join(this.projectRoot, LOCAL_KANBAN_PATHS.runs);
+    if (!fs.existsSync(runsDir)) return;
+
+    const projectRunsDir = path.basename(LOCAL_KANBAN_PATHS.projectRuns);
+    for (const taskId of fs.readdirSync(runsDir)) {
+      const taskDir = path.join(runsDir, taskId);
+      if (taskId === projectRunsDir || !fs.statSync(taskDir).isDirectory()) continue;
+
+      for (const name of fs.readdirSync(taskDir)) {
+        const file = path.join(taskDir, name);
+        if (fs.statSync(file).isFile()) {
+          zip.addFile(`runs/${taskId}/${name}`, fs.readFileSync(file));
+        }
+      }
+    }
+  }
+
+  // ============================================
+  // Import
+  // ============================================
+
+  /**
+   * Read and validate an archive's manifest, to preview it before importing.
+   */
+  readManifest(filePath: string): ProjectArchiveManifest {
+    return this.readManifestEntry(this.openZip(filePath), filePath);
+  }
+
+  async importProject(filePath: string, options: ProjectImportOptions): Promise<ProjectImportResult> {
+    const contents = this.readContents(filePath);
+    const result: ProjectImportResult = {
+      tasksImported: 0,
+      tasksSkipped: 0,
+      idMap: {},
+      columnsAdded: [],
+      templatesImported: 0,
+      chatsImported: 0,
+      runsImported: 0,
+      warnings: [],
+    };
+
+    const idMap = runAsActor({ type: 'system', name: 'Project import' }, () =>
+      options.mode === 'replace'
+        ? this.replaceProject(contents, result)
+        : this.mergeProject(contents, options, result)
+    );
+    result.idMap = Object.fromEntries(idMap);
+
+    if (contents.templates) {
+      const skipped = await (await initTemplateService(this.projectRoot))
+        .import(contents.templates, options.mode === 'replace');
+      result.templatesImported = contents.templates.length - skipped.length;
+      for (const name of skipped) {
+        result.warnings.push(`Template "${name}" already exists and was not imported`);
+      }
+    }
+
+    this.importRuns(contents, idMap, result);
+
+    console.log(
+      `[ProjectArchive] Imported ${result.tasksImported} tasks (${result.tasksSkipped} skipped) from ${filePath}`
+    );
+    return result;
+  }
+
+  private openZip(filePath: string): AdmZip {
+    if (!fs.existsSync(filePath)) {
+      throw new ProjectArchiveError(filePath, 'file not found');
+    }
+    try {
+      return new AdmZip(filePath);
+    } catch (error) {
+      throw new ProjectArchiveError(filePath, `not a zip file (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  private readManifestEntry(zip: AdmZip, filePath: string): ProjectArchiveManifest {
+    const manifest = this.readEntry<ProjectArchiveManifest>(zip, filePath, 'manifest.json', ProjectArchiveManifestSchema);
+    if (!manifest) {
+      throw new ProjectArchiveError(filePath, 'manifest.json is missing');
+    }
+    if (manifest.version > PROJECT_ARCHIVE_VERSION) {
+      throw new ProjectArchiveError(
+        filePath,
+        `archive version ${manifest.version} is newer than this version of Dexteria supports (${PROJECT_ARCHIVE_VERSION})`
+      );
+    }
+    return manifest;
+  }
+
+  /**
+   * Parse and validate one JSON entry. Returns the entry as written (not the
+   * parsed result), so fields the schema does not know about are kept.
+   */
+  private readEntry<T>(zip: AdmZip, filePath: string, name: string, schema: ZodType): T | null {
+    const entry = zip.getEntry(name);
+    if (!entry) return null;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(entry.getData().toString('utf-8'));
+    } catch (error) {
+      throw new ProjectArchiveError(filePath, `${name} is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      throw new ProjectArchiveError(filePath, `${name}: ${result.error.message}`);
+    }
+    return data as T;
+  }
+
+  /**
+   * Read and validate everything before anything is written.
+   */
+  private readContents(filePath: string): ArchiveContents {
+    const zip = this.openZip(filePath);
+    const manifest = this.readManifestEntry(zip, filePath);
+    const read = <T>(name: string, schema: ZodType) => this.readEntry<T>(zip, filePath, name, schema);
+
+    const chats: Chat[] = [];
+    const chatIndex = read<ChatIndex>('chats/index.json', ChatIndexSchema);
+    for (const entry of chatIndex?.chats ?? []) {
+      if (!SAFE_NAME.test(entry.id)) continue;
+      const chat = read<Chat>(`chats/${entry.id}.json`, ChatSchema);
+      if (chat) chats.push(chat);
+    }
+
+    const runs: AgentRun[] = [];
+    const commandLogs: ArchiveContents['commandLogs'] = [];
+    for (const entry of zip.getEntries()) {
+      const runMatch = entry.entryName.match(AGENT_RUN_ENTRY);
+      if (runMatch) {
+        const run = read<AgentRun>(entry.entryName, AgentRunSchema);
+        if (run && SAFE_NAME.test(run.id) && SAFE_NAME.test(run.taskId)) runs.push(run);
+        continue;
+      }
+
+      const logMatch = entry.entryName.match(COMMAND_LOG_ENTRY);
+      if (logMatch && SAFE_NAME.test(logMatch[1]) && SAFE_NAME.test(logMatch[2])) {
+        commandLogs.push({ taskId: logMatch[1], name: logMatch[2], data: entry.getData() });
+      }
+    }
+
+    return {
+      manifest,
+      tasks: read<{ tasks: Task[] }>('tasks.json', TasksFileSchema)?.tasks ?? [],
+      board: read<Board>('board.json', BoardSchema),
+      templates: read<{ templates: TaskTemplate[] }>('templates.json', TemplatesFileSchema)?.templates ?? null,
+      policy: read<Policy>('policy.json', PolicySchema),
+      settings: read<ProjectSettings>('settings.json', ProjectSettingsSchema),
+      chats,
+      runs,
+      commandLogs,
+    };
+  }
+
+  /**
+   * Replace the board, tasks, policy and settings with the archive's,
+   * keeping its task IDs. Chats are added.
+   */
+  private replaceProject(contents: ArchiveContents, result: ProjectImportResult): Map<string, string> {
+    const { board, policy, settings } = contents;
+    const tasks = contents.tasks.map(resetRunningTask);
+
+    this.store.transaction('importProject', () => {
+      this.store.saveTasks(tasks);
+      if (board) {
+        this.store.saveBoard(board);
+      }
+      this.store.setState({ lastTaskNumber: Math.max(0, ...tasks.map(t => taskNumber(t.id))) });
+
+      if (policy) {
+        const saved = this.store.savePolicy(policy);
+        if (!saved.success) result.warnings.push(`Policy was not imported: ${saved.error}`);
+      }
+      if (settings) {
+        this.saveImportedSettings(settings, result);
+      }
+
+      this.importChats(contents.chats, new Map(), new Set(tasks.map(t => t.id)), result);
+    });
+
+    result.tasksImported = tasks.length;
+    return new Map(tasks.map(t => [t.id, t.id]));
+  }
+
+  /**
+   * Add the archive's tasks to the current board under new IDs. Tasks that
+   * already exist (same title and creation time, e.g. from importing the same
+   * archive twice) are skipped and their references point to the existing task.
+   */
+  private mergeProject(
+    contents: ArchiveContents,
+    options: ProjectImportOptions,
+    result: ProjectImportResult
+  ): Map<string, string> {
+    const idMap = new Map<string, string>();
+
+    this.store.transaction('importProject', () => {
+      const existing = this.store.getTasks();
+      const board = this.store.getBoard();
+      const existingByKey = new Map(existing.map(t => [duplicateKey(t), t.id]));
+
+      let lastNumber = Math.max(this.store.getState().lastTaskNumber || 0, ...existing.map(t => taskNumber(t.id)));
+      const added: Task[] = [];
+
+      // Number new tasks in creation order, as TaskIdMigration does
+      const ordered = [...contents.tasks].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      for (const task of ordered) {
+        const duplicateOf = options.skipDuplicates !== false ? existingByKey.get(duplicateKey(task)) : undefined;
+        if (duplicateOf) {
+          idMap.set(task.id, duplicateOf);
+          result.tasksSkipped++;
+          continue;
+        }
+
+        idMap.set(task.id, createTaskId(++lastNumber));
+        added.push(resetRunningTask(structuredClone(task)));
+      }
+
+      applyTaskIdMap(added, idMap);
+
+      // References to tasks that were not in the archive cannot be kept
+      const knownIds = new Set([...existing.map(t => t.id), ...added.map(t => t.id)]);
+      for (const task of added) {
+        const dropped = (task.dependsOn ?? []).filter(id => !knownIds.has(id));
+        if (dropped.length > 0) {
+          task.dependsOn = task.dependsOn!.filter(id => knownIds.has(id));
+          result.warnings.push(`${task.id} depended on tasks missing from the archive: ${dropped.join(', ')}`);
+        }
+        if (task.parentId && !knownIds.has(task.parentId)) {
+          result.warnings.push(`${task.id} was a subtask of ${task.parentId}, which is missing from the archive`);
+          delete task.parentId;
+        }
+      }
+
+      this.placeOnBoard(added, board, contents.board, result);
+
+      this.store.saveTasks([...existing, ...added]);
+      this.store.saveBoard(board);
+      this.store.setState({ lastTaskNumber: lastNumber });
+
+      if (options.includePolicy && contents.policy) {
+        const saved = this.store.savePolicy(contents.policy);
+        if (!saved.success) result.warnings.push(`Policy was not imported: ${saved.error}`);
+      }
+      if (options.includeSettings && contents.settings) {
+        this.saveImportedSettings(contents.settings, result);
+      }
+
+      this.importChats(contents.chats, idMap, knownIds, result);
+      result.tasksImported = added.length;
+    });
+
+    return idMap;
+  }
+
+  /**
+   * Put merged tasks at the end of the column matching their status. Columns
+   * that only exist in the archive are added; tasks whose column exists
+   * nowhere go to the first column.
+   */
+  private placeOnBoard(tasks: Task[], board: Board, archiveBoard: Board | null, result: ProjectImportResult): void {
+    for (const task of tasks) {
+      let column = board.columns.find(c => c.id === task.status);
+
+      if (!column) {
+        const archiveColumn = archiveBoard?.columns.find(c => c.id === task.status);
+        if (archiveColumn) {
+          column = { ...archiveColumn, taskIds: [] };
+          board.columns.push(column);
+          result.columnsAdded.push(column.title);
+        } else {
+          column = board.columns[0];
+          result.warnings.push(`${task.id} was in unknown column "${task.status}" and was put in "${column.title}"`);
+          task.status = column.id;
+        }
+      }
+
+      task.order = column.taskIds.length;
+      column.taskIds.push(task.id);
+    }
+  }
+
+  /**
+   * Save an archive's settings, keeping this project's MCP servers and pull
+   * request settings. MCP servers are commands the agent starts, and the pull
+   * request API URL is where forge tokens are sent, so an archive must not
+   * install either; they are set up again in Settings.
+   */
+  private saveImportedSettings(settings: ProjectSettings, result: ProjectImportResult): void {
+    const current = this.store.getSettings();
+    const currentGit = (current as { git?: GitConfig }).git;
+    const { mcpServers, git, ...rest } = settings as ProjectSettings & { git?: GitConfig };
+
+    if (mcpServers?.length) {
+      result.warnings.push(`MCP servers were not imported: ${mcpServers.map(s => s.name).join(', ')}`);
+    }
+    if (git?.pullRequests?.enabled) {
+      result.warnings.push('Pull request settings were not imported');
+    }
+
+    const imported: ProjectSettings & { git?: GitConfig } = { ...rest };
+    if (current.mcpServers) {
+      imported.mcpServers = current.mcpServers;
+    }
+    if (git) {
+      const { pullRequests: _pullRequests, ...gitRest } = git;
+      imported.git = currentGit?.pullRequests ? { ...gitRest, pullRequests: currentGit.pullRequests } : gitRest;
+    }
+    this.store.saveSettings(imported);
+  }
+
+  private importChats(chats: Chat[], idMap: Map<string, string>, taskIds: Set<string>, result: ProjectImportResult): void {
+    const existing = new Set(this.store.getChatIndex().chats.map(c => c.id));
+
+    for (const chat of chats) {
+      if (existing.has(chat.id)) continue;
+
+      const imported: Chat = { ...chat };
+      if (imported.taskId) {
+        const taskId = idMap.get(imported.taskId) ?? imported.taskId;
+        if (taskIds.has(taskId)) {
+          imported.taskId = taskId;
+        } else {
+          delete imported.taskId;
+        }
+      }
+
+      this.store.saveChat(imported);
+      result.chatsImported++;
+    }
+  }
+
+  /**
+   * Copy run records and command logs under their tasks' new IDs. Runs that
+   * are already present are left alone.
+   */
+  private importRuns(contents: ArchiveContents, idMap: Map<string, string>, result: ProjectImportResult): void {
+    for (const run of contents.runs) {
+      const taskId = idMap.get(run.taskId);
+      if (!taskId) continue;
+
+      const runPath = this.store.getAgentRunPath(taskId, run.id);
+      if (fs.existsSync(runPath)) continue;
+
+      const imported: AgentRun = { ...run, taskId };
+      fs.mkdirSync(path.dirname(runPath), { recursive: true });
+      fs.writeFileSync(runPath, JSON.stringify(imported, null, 2));
+      this.store.indexRun(imported);
+      result.runsImported++;
+    }
+
+    for (const log of contents.commandLogs) {
+      const taskId = idMap.get(log.taskId);
+      if (!taskId) continue;
+
+      const logPath = path.join(this.projectRoot, LOCAL_KANBAN_PATHS.runs, taskId, log.name);
+      if (fs.existsSync(logPath)) continue;
+
+      fs.mkdirSync(path.dirname(logPath), { recursive: true });
+      fs.writeFileSync(logPath, log.data);
+    }
+  }
+}
@@ -10,6 +10,7 @@ import * as path from 'path';
 import { BrowserWindow } from 'electron';
 import { getStore } from './LocalKanbanStore';
 import { getEffectiveCommand } from './ProjectCommandDetector';
+import { publishAppEvent } from './AppEvents';
 import type { ProjectProcessStatus, ProjectRunResult, ProjectProcessType } from '../../shared/types';
 
 interface RunningProcess {
@@ -46,6 +47,7 @@ function sendStatusUpdate(status: ProjectProcessStatus): void {
   if (mainWindow && !mainWindow.isDestroyed()) {
     mainWindow.webContents.send('project:status-update', status);
   }
+  publishAppEvent('project:status-update', status);
 }
 
 /**
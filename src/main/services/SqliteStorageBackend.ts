@@ -0,0 +1,345 @@
+/**
+ * SqliteStorageBackend
+ *
+ * Keeps tasks, comments, activity, task history and the run index in
+ * .local-kanban/store.db, for projects where reading and rewriting
+ * tasks.json on every change gets slow.
+ *
+ * Tasks are stored one row each, without their comments; comments have a
+ * table of their own. Writing the tasks document only touches the rows that
+ * changed, single tasks are written and deleted by id, and single tasks,
+ * activity, revisions and runs are read through indexes. Run files are still written to agent-runs/ as before; the runs
+ * table only indexes them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type {
+  ActivityEntry,
+  AgentRun,
+  StorageInfo,
+  Task,
+  TaskComment,
+  TaskRevision,
+} from '../../shared/types';
+import type { StorageBackend, StorageSnapshot } from './StorageBackend';
+
+/** Bumped when the tables change; older databases are migrated in migrate() */
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    parent_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tasks_status ON tasks (status);
+  CREATE INDEX IF NOT EXISTS tasks_parent ON tasks (parent_id);
+
+  CREATE TABLE IF NOT EXISTS comments (
+    task_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (task_id, position)
+  );
+
+  CREATE TABLE IF NOT EXISTS activity (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    task_id TEXT,
+    run_id TEXT,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS activity_task ON activity (task_id);
+
+  CREATE TABLE IF NOT EXISTS revisions (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS revisions_task ON revisions (task_id, seq);
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    task_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS runs_task ON runs (task_id, started_at);
+`;
+
+interface StoredTask {
+  id: string;
+  position: number;
+  /** The task without comments, as stored in the data column */
+  data: string;
+  /** The comments, serialized, to tell whether they changed */
+  comments: string;
+}
+
+function splitTask(task: Task, position: number): StoredTask {
+  const { comments, ...rest } = task;
+  return {
+    id: task.id,
+    position,
+    data: JSON.stringify(rest),
+    comments: JSON.stringify(comments ?? []),
+  };
+}
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly type = 'sqlite' as const;
+
+  private db: BetterSqlite3.Database;
+  /** What is in the tasks table, to write only the rows that changed */
+  private stored: Map<string, StoredTask> | null = null;
+  /** PRAGMA data_version when `stored` was loaded; changes when another connection writes */
+  private storedVersion = -1;
+
+  constructor(private dbPath: string) {
+    // Loaded here so projects on the JSON backend never load the native module
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const Database = require('better-sqlite3') as typeof BetterSqlite3;
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = FULL');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version >= SCHEMA_VERSION) return;
+
+    this.db.exec(SCHEMA);
+    this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+
+  private getStored(): Map<string, StoredTask> {
+    const version = this.db.pragma('data_version', { simple: true }) as number;
+    if (this.stored && version === this.storedVersion) {
+      return this.stored;
+    }
+
+    const stored = new Map<string, StoredTask>();
+    const rows = this.db.prepare('SELECT id, position, data FROM tasks').all() as Array<Omit<StoredTask, 'comments'>>;
+    for (const row of rows) {
+      stored.set(row.id, { ...row, comments: '[]' });
+    }
+
+    const comments = this.db.prepare('SELECT task_id, data FROM comments ORDER BY task_id, position').all() as Array<{ task_id: string; data: string }>;
+    const byTask = new Map<string, string[]>();
+    for (const comment of comments) {
+      const list = byTask.get(comment.task_id) ?? [];
+      list.push(comment.data);
+      byTask.set(comment.task_id, list);
+    }
+    for (const [taskId, list] of byTask) {
+      const task = stored.get(taskId);
+      if (task) task.comments = `[${list.join(',')}]`;
+    }
+
+    this.stored = stored;
+    this.storedVersion = version;
+    return stored;
+  }
+
+  readTasks(): unknown {
+    const rows = this.db.prepare('SELECT id, data FROM tasks ORDER BY position').all() as Array<{ id: string; data: string }>;
+    const comments = this.readComments();
+    return {
+      tasks: rows.map(row => ({ ...JSON.parse(row.data), comments: comments.get(row.id) ?? [] })),
+    };
+  }
+
+  readTask(taskId: string): Task | null {
+    const row = this.db.prepare('SELECT data FROM tasks WHERE id = ?').get(taskId) as { data: string } | undefined;
+    if (!row) return null;
+
+    return { ...JSON.parse(row.data), comments: this.readComments(taskId).get(taskId) ?? [] };
+  }
+
+  private readComments(taskId?: string): Map<string, TaskComment[]> {
+    const rows = (taskId
+      ? this.db.prepare('SELECT task_id, data FROM comments WHERE task_id = ? ORDER BY position').all(taskId)
+      : this.db.prepare('SELECT task_id, data FROM comments ORDER BY task_id, position').all()
+    ) as Array<{ task_id: string; data: string }>;
+
+    const byTask = new Map<string, TaskComment[]>();
+    for (const row of rows) {
+      const list = byTask.get(row.task_id) ?? [];
+      list.push(JSON.parse(row.data));
+      byTask.set(row.task_id, list);
+    }
+    return byTask;
+  }
+
+  writeTasks(content: string): void {
+    const { tasks } = JSON.parse(content) as { tasks: Task[] };
+    const stored = this.getStored();
+
+    const next = new Map<string, StoredTask>();
+    this.db.transaction(() => {
+      tasks.forEach((task, position) => {
+        next.set(task.id, this.writeTaskRow(task, position, stored.get(task.id)));
+      });
+
+      for (const taskId of stored.keys()) {
+        if (!next.has(taskId)) {
+          this.deleteTaskRows(taskId);
+        }
+      }
+    })();
+
+    this.stored = next;
+    this.storedVersion = this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  upsertTask(task: Task): void {
+    const stored = this.getStored();
+    const current = stored.get(task.id);
+
+    this.db.transaction(() => {
+      const position = current?.position ?? (this.db.prepare(
+        'SELECT COALESCE(MAX(position), -1) + 1 AS next FROM tasks'
+      ).get() as { next: number }).next;
+      stored.set(task.id, this.writeTaskRow(task, position, current));
+    })();
+
+    this.storedVersion = this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  deleteTask(taskId: string): void {
+    const stored = this.getStored();
+
+    this.db.transaction(() => this.deleteTaskRows(taskId))();
+
+    stored.delete(taskId);
+    this.storedVersion = this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  /**
+   * Write a task's row and comments, skipping what is the same as `current`.
+   */
+  private writeTaskRow(task: Task, position: number, current: StoredTask | undefined): StoredTask {
+    const row = splitTask(task, position);
+
+    if (!current || current.data !== row.data || current.position !== position) {
+      this.db.prepare('INSERT OR REPLACE INTO tasks (id, position, status, parent_id, data) VALUES (?, ?, ?, ?, ?)')
+        .run(task.id, position, task.status, task.parentId ?? null, row.data);
+    }
+    if (!current || current.comments !== row.comments) {
+      this.db.prepare('DELETE FROM comments WHERE task_id = ?').run(task.id);
+      const insertComment = this.db.prepare(
+        'INSERT INTO comments (task_id, position, id, type, created_at, data) VALUES (?, ?, ?, ?, ?, ?)'
+      );
+      (task.comments ?? []).forEach((comment, index) => {
+        insertComment.run(task.id, index, comment.id, comment.type, comment.createdAt, JSON.stringify(comment));
+      });
+    }
+    return row;
+  }
+
+  private deleteTaskRows(taskId: string): void {
+    this.db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
+    this.db.prepare('DELETE FROM comments WHERE task_id = ?').run(taskId);
+  }
+
+  appendActivity(entry: ActivityEntry): void {
+    this.db.prepare('INSERT INTO activity (type, task_id, run_id, timestamp, data) VALUES (?, ?, ?, ?, ?)')
+      .run(entry.type, entry.taskId ?? null, entry.runId ?? null, entry.timestamp, JSON.stringify(entry));
+  }
+
+  readActivity(limit: number): ActivityEntry[] {
+    const rows = this.db.prepare('SELECT data FROM activity ORDER BY seq DESC LIMIT ?').all(limit) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  appendRevision(revision: TaskRevision): void {
+    this.db.prepare('INSERT INTO revisions (id, task_id, timestamp, data) VALUES (?, ?, ?, ?)')
+      .run(revision.id, revision.taskId, revision.timestamp, JSON.stringify(revision));
+  }
+
+  readRevisions(taskId: string, limit: number): TaskRevision[] {
+    const rows = this.db.prepare('SELECT data FROM revisions WHERE task_id = ? ORDER BY seq DESC LIMIT ?')
+      .all(taskId, limit) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  indexRun(run: AgentRun): void {
+    this.db.prepare('INSERT OR REPLACE INTO runs (id, task_id, status, started_at, data) VALUES (?, ?, ?, ?, ?)')
+      .run(run.id, run.taskId, run.status, run.startedAt, JSON.stringify(run));
+  }
+
+  listRuns(taskId?: string): AgentRun[] {
+    const rows = (taskId
+      ? this.db.prepare('SELECT data FROM runs WHERE task_id = ? ORDER BY started_at DESC').all(taskId)
+      : this.db.prepare('SELECT data FROM runs ORDER BY started_at DESC').all()
+    ) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  private count(table: string): number {
+    return (this.db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+  }
+
+  getInfo(): StorageInfo {
+    return {
+      backend: this.type,
+      taskCount: this.count('tasks'),
+      activityCount: this.count('activity'),
+      revisionCount: this.count('revisions'),
+      runCount: this.count('runs'),
+    };
+  }
+
+  export(): StorageSnapshot {
+    const all = (sql: string) => (this.db.prepare(sql).all() as Array<{ data: string }>).map(row => JSON.parse(row.data));
+    return {
+      tasks: this.readTasks(),
+      activity: all('SELECT data FROM activity ORDER BY seq'),
+      revisions: all('SELECT data FROM revisions ORDER BY seq'),
+      runs: all('SELECT data FROM runs ORDER BY started_at'),
+    };
+  }
+
+  import(snapshot: StorageSnapshot): void {
+    this.db.transaction(() => {
+      for (const table of ['tasks', 'comments', 'activity', 'revisions', 'runs']) {
+        this.db.exec(`DELETE FROM ${table}`);
+      }
+      this.stored = new Map();
+
+      if (snapshot.tasks) {
+        this.writeTasks(JSON.stringify(snapshot.tasks));
+      }
+      snapshot.activity.forEach(entry => this.appendActivity(entry));
+      snapshot.revisions.forEach(revision => this.appendRevision(revision));
+      snapshot.runs.forEach(run => this.indexRun(run));
+    })();
+  }
+
+  archive(backupDir: string): void {
+    this.close();
+    fs.mkdirSync(backupDir, { recursive: true });
+    fs.renameSync(this.dbPath, path.join(backupDir, path.basename(this.dbPath)));
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * StorageBackend
+ *
+ * Where LocalKanbanStore keeps the data that grows with a project: tasks
+ * (with their comments), the activity log, task history and the run index.
+ * Board, state, settings and the other small files are always JSON files.
+ *
+ * The JSON backend is the default and keeps the original file layout. The
+ * SQLite backend (SqliteStorageBackend) suits projects with thousands of
+ * tasks. The store handles validation, locking and transactions; backends
+ * only read and write.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LOCAL_KANBAN_PATHS } from '../../shared/schemas/common';
+import { writeFileAtomic } from './StoreJournal';
+import type {
+  ActivityEntry,
+  AgentRun,
+  StorageBackendType,
+  StorageInfo,
+  Task,
+  TaskRevision,
+} from '../../shared/types';
+
+/**
+ * Everything a backend holds, used to migrate between backends.
+ */
+export interface StorageSnapshot {
+  /** The tasks document ({ tasks }), or null if there is none yet */
+  tasks: unknown | null;
+  /** Activity entries, oldest first */
+  activity: ActivityEntry[];
+  /** Task revisions of all tasks, oldest first */
+  revisions: TaskRevision[];
+  /** Agent runs (run files stay in agent-runs/ with either backend) */
+  runs: AgentRun[];
+}
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+
+  /** Read the tasks document ({ tasks }), or null if there is none yet */
+  readTasks(): unknown | null;
+  /** Read one task without loading the rest. Only indexed backends implement this. */
+  readTask?(taskId: string): Task | null;
+  /** Replace the tasks document with serialized JSON */
+  writeTasks(content: string): void;
+  /** Write one task, added at the end if it is new. Only indexed backends implement this. */
+  upsertTask?(task: Task): void;
+  /** Remove one task. Only indexed backends implement this. */
+  deleteTask?(taskId: string): void;
+
+  appendActivity(entry: ActivityEntry): void;
+  /** Newest first */
+  readActivity(limit: number): ActivityEntry[];
+
+  appendRevision(revision: TaskRevision): void;
+  /** Newest first */
+  readRevisions(taskId: string, limit: number): TaskRevision[];
+
+  /** Record a saved run, so it can be listed without reading the run files */
+  indexRun(run: AgentRun): void;
+  /** Runs of one task, or of all tasks, newest first */
+  listRuns(taskId?: string): AgentRun[];
+
+  getInfo(): StorageInfo;
+  export(): StorageSnapshot;
+  /** Replace everything with the snapshot */
+  import(snapshot: StorageSnapshot): void;
+  /** Move this backend's data into a backup folder after migrating away from it */
+  archive(backupDir: string): void;
+  close(): void;
+}
+
+function readJsonLines<T>(fullPath: string): T[] {
+  if (!fs.existsSync(fullPath)) return [];
+
+  const entries: T[] = [];
+  for (const line of fs.readFileSync(fullPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Parse only the last `limit` lines, newest first.
+ */
+function readLastJsonLines<T>(fullPath: string, limit: number): T[] {
+  if (!fs.existsSync(fullPath)) return [];
+
+  const lines = fs.readFileSync(fullPath, 'utf-8').trim().split('\n');
+  const entries: T[] = [];
+  for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+    if (!lines[i].trim()) continue;
+    try {
+      entries.push(JSON.parse(lines[i]) as T);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return entries;
+}
+
+function byNewestRun(a: AgentRun, b: AgentRun): number {
+  return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
+}
+
+/**
+ * Files in .local-kanban: tasks.json, activity.jsonl, history/<taskId>.jsonl
+ * and the run files in agent-runs/<taskId>/.
+ */
+export class JsonStorageBackend implements StorageBackend {
+  readonly type = 'json' as const;
+
+  constructor(private projectRoot: string) {}
+
+  private getPath(relativePath: string): string {
+    return path.join(this.projectRoot, relativePath);
+  }
+
+  private getHistoryPath(taskId: string): string {
+    return this.getPath(path.join(LOCAL_KANBAN_PATHS.history, `${taskId}.jsonl`));
+  }
+
+  readTasks(): unknown | null {
+    const fullPath = this.getPath(LOCAL_KANBAN_PATHS.tasks);
+    if (!fs.existsSync(fullPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+  }
+
+  writeTasks(content: string): void {
+    writeFileAtomic(this.getPath(LOCAL_KANBAN_PATHS.tasks), content);
+  }
+
+  appendActivity(entry: ActivityEntry): void {
+    const fullPath = this.getPath(LOCAL_KANBAN_PATHS.activity);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.appendFileSync(fullPath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  readActivity(limit: number): ActivityEntry[] {
+    return readLastJsonLines<ActivityEntry>(this.getPath(LOCAL_KANBAN_PATHS.activity), limit);
+  }
+
+  appendRevision(revision: TaskRevision): void {
+    fs.mkdirSync(this.getPath(LOCAL_KANBAN_PATHS.history), { recursive: true });
+    fs.appendFileSync(this.getHistoryPath(revision.taskId), JSON.stringify(revision) + '\n', 'utf-8');
+  }
+
+  readRevisions(taskId: string, limit: number): TaskRevision[] {
+    return readLastJsonLines<TaskRevision>(this.getHistoryPath(taskId), limit);
+  }
+
+  indexRun(): void {
+    // The run files are the index
+  }
+
+  listRuns(taskId?: string): AgentRun[] {
+    const runsDir = this.getPath(LOCAL_KANBAN_PATHS.agentRuns);
+    if (!fs.existsSync(runsDir)) {
+      return [];
+    }
+
+    const taskIds = taskId
+      ? [taskId]
+      : fs.readdirSync(runsDir).filter(d => fs.statSync(path.join(runsDir, d)).isDirectory());
+
+    const runs: AgentRun[] = [];
+    for (const id of taskIds) {
+      const runDir = path.join(runsDir, id);
+      if (!fs.existsSync(runDir)) continue;
+
+      for (const file of fs.readdirSync(runDir).filter(f => f.endsWith('.json'))) {
+        try {
+          runs.push(JSON.parse(fs.readFileSync(path.join(runDir, file), 'utf-8')) as AgentRun);
+        } catch (err) {
+          console.error(`Failed to parse run file ${file}:`, err);
+        }
+      }
+    }
+
+    return runs.sort(byNewestRun);
+  }
+
+  private listRevisionFiles(): string[] {
+    const historyDir = this.getPath(LOCAL_KANBAN_PATHS.history);
+    if (!fs.existsSync(historyDir)) return [];
+    return fs.readdirSync(historyDir).filter(f => f.endsWith('.jsonl')).map(f => path.join(historyDir, f));
+  }
+
+  getInfo(): StorageInfo {
+    const tasks = this.readTasks() as { tasks?: unknown[] } | null;
+    return {
+      backend: this.type,
+      taskCount: tasks?.tasks?.length ?? 0,
+      activityCount: readJsonLines(this.getPath(LOCAL_KANBAN_PATHS.activity)).length,
+      revisionCount: this.listRevisionFiles().reduce((count, file) => count + readJsonLines(file).length, 0),
+      runCount: this.listRuns().length,
+    };
+  }
+
+  export(): StorageSnapshot {
+    return {
+      tasks: this.readTasks(),
+      activity: readJsonLines<ActivityEntry>(this.getPath(LOCAL_KANBAN_PATHS.activity)),
+      revisions: this.listRevisionFiles()
+        .flatMap(file => readJsonLines<TaskRevision>(file))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+      runs: this.listRuns(),
+    };
+  }
+
+  import(snapshot: StorageSnapshot): void {
+    if (snapshot.tasks) {
+      this.writeTasks(JSON.stringify(snapshot.tasks, null, 2));
+    }
+
+    writeFileAtomic(
+      this.getPath(LOCAL_KANBAN_PATHS.activity),
+      snapshot.activity.map(entry => JSON.stringify(entry) + '\n').join('')
+    );
+
+    fs.rmSync(this.getPath(LOCAL_KANBAN_PATHS.history), { recursive: true, force: true });
+    const byTask = new Map<string, string[]>();
+    for (const revision of snapshot.revisions) {
+      const lines = byTask.get(revision.taskId) ?? [];
+      lines.push(JSON.stringify(revision) + '\n');
+      byTask.set(revision.taskId, lines);
+    }
+    for (const [taskId, lines] of byTask) {
+      writeFileAtomic(this.getHistoryPath(taskId), lines.join(''));
+    }
+
+    // Runs are already in agent-runs/
+  }
+
+  archive(backupDir: string): void {
+    fs.mkdirSync(backupDir, { recursive: true });
+    for (const relativePath of [LOCAL_KANBAN_PATHS.tasks, LOCAL_KANBAN_PATHS.activity, LOCAL_KANBAN_PATHS.history]) {
+      const fullPath = this.getPath(relativePath);
+      if (fs.existsSync(fullPath)) {
+        fs.renameSync(fullPath, path.join(backupDir, path.basename(relativePath)));
+      }
+    }
+  }
+
+  close(): void {
+    // Nothing held open
+  }
+}
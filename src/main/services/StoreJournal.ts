@@ -0,0 +1,240 @@
+/**
+ * StoreJournal
+ *
+ * Crash-safe writes for .local-kanban files.
+ *
+ * Every file is written to a temp file, fsynced and renamed over the
+ * original, so readers see either the old or the new content. Operations
+ * that write several files (moving a task writes board.json and tasks.json)
+ * first write all new contents to a journal. Once the journal is on disk the
+ * files are replaced and the journal is removed; a journal left behind by a
+ * crash is replayed on the next start.
+ *
+ * StoreLock serializes writers across processes with a lock file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StoreLockError } from '../../shared/errors';
+
+/** How long to wait for another process to release the lock */
+const LOCK_TIMEOUT_MS = 5000;
+
+/** Locks older than this are left over from a crashed process */
+const LOCK_STALE_MS = 30000;
+
+const LOCK_RETRY_MS = 20;
+
+let tempCounter = 0;
+
+/**
+ * Write a file so that a crash leaves either the old or the new content.
+ */
+export function writeFileAtomic(fullPath: string, content: string): void {
+  const dir = path.dirname(fullPath);
+  fs.mkdirSync(dir, { recursive: true });
+
+  // Unique per write, so concurrent writers never share a temp file
+  const tempPath = `${fullPath}.${process.pid}.${++tempCounter}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    fs.renameSync(tempPath, fullPath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  syncDirectory(dir);
+}
+
+/**
+ * Persist a rename. Not supported on Windows, where rename is durable anyway.
+ */
+function syncDirectory(dir: string): void {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(dir, 'r');
+    fs.fsyncSync(fd);
+  } catch {
+    // Best effort
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+interface JournalEntry {
+  operation: string;
+  /** New contents by path relative to the project root */
+  files: Record<string, string>;
+  createdAt: string;
+}
+
+/**
+ * Writes one file of a committed operation. Defaults to writeFileAtomic();
+ * the store passes its own writer so files kept by the storage backend
+ * (tasks.json in SQLite) are written there.
+ */
+export type JournalWriter = (relativePath: string, content: string) => void;
+
+export class StoreJournal {
+  private write: JournalWriter;
+
+  constructor(
+    private projectRoot: string,
+    private journalPath: string,
+    write?: JournalWriter
+  ) {
+    this.write = write ?? ((relativePath, content) => writeFileAtomic(path.join(this.projectRoot, relativePath), content));
+  }
+
+  /**
+   * Write a set of files as one operation.
+   */
+  commit(operation: string, files: Map<string, string>): void {
+    if (files.size === 0) return;
+
+    // A single rename is already atomic
+    if (files.size === 1) {
+      const [[relativePath, content]] = files;
+      this.write(relativePath, content);
+      return;
+    }
+
+    const entry: JournalEntry = {
+      operation,
+      files: Object.fromEntries(files),
+      createdAt: new Date().toISOString(),
+    };
+    const fullPath = path.join(this.projectRoot, this.journalPath);
+
+    writeFileAtomic(fullPath, JSON.stringify(entry));
+    this.apply(entry);
+    fs.rmSync(fullPath, { force: true });
+  }
+
+  /**
+   * Finish an operation interrupted by a crash, and remove leftover temp files.
+   * @returns The name of the replayed operation, or null if there was none
+   */
+  recover(): string | null {
+    const fullPath = path.join(this.projectRoot, this.journalPath);
+    this.removeTempFiles(path.dirname(fullPath));
+
+    if (!fs.existsSync(fullPath)) return null;
+
+    let entry: JournalEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+    } catch {
+      // The journal never made it to disk, so no file was touched
+      fs.rmSync(fullPath, { force: true });
+      return null;
+    }
+
+    this.apply(entry);
+    fs.rmSync(fullPath, { force: true });
+    return entry.operation;
+  }
+
+  private apply(entry: JournalEntry): void {
+    for (const [relativePath, content] of Object.entries(entry.files)) {
+      this.write(relativePath, content);
+    }
+  }
+
+  private removeTempFiles(dir: string): void {
+    if (!fs.existsSync(dir)) return;
+    for (const name of fs.readdirSync(dir)) {
+      if (name.endsWith('.tmp')) {
+        fs.rmSync(path.join(dir, name), { force: true });
+      }
+    }
+  }
+}
+
+/**
+ * Cross-process write lock. Re-entrant within a process.
+ */
+export class StoreLock {
+  private depth = 0;
+
+  constructor(private lockPath: string) {}
+
+  acquire(): void {
+    if (this.depth++ > 0) return;
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.mkdirSync(path.dirname(this.lockPath), { recursive: true });
+        fs.writeFileSync(this.lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }), { flag: 'wx' });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          this.depth--;
+          throw error;
+        }
+      }
+
+      const owner = this.readOwner();
+      if (!owner) continue;
+      if (this.isStale(owner)) {
+        fs.rmSync(this.lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        this.depth--;
+        throw new StoreLockError(this.lockPath, owner.pid);
+      }
+      sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  release(): void {
+    if (this.depth === 0 || --this.depth > 0) return;
+    fs.rmSync(this.lockPath, { force: true });
+  }
+
+  /**
+   * Read the lock owner, or null if the lock was released meanwhile.
+   * A lock caught half-written has no pid yet and ages by its mtime.
+   */
+  private readOwner(): { pid?: number; acquiredAt: number } | null {
+    try {
+      const content = fs.readFileSync(this.lockPath, 'utf-8');
+      try {
+        return JSON.parse(content);
+      } catch {
+        return { acquiredAt: fs.statSync(this.lockPath).mtimeMs };
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  private isStale(owner: { pid?: number; acquiredAt: number }): boolean {
+    if (Date.now() - owner.acquiredAt > LOCK_STALE_MS) return true;
+    if (!owner.pid) return false;
+    // Writes are synchronous, so a lock of this process that it does not hold was never released
+    if (owner.pid === process.pid) return true;
+
+    try {
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      // EPERM: the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+}
+
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
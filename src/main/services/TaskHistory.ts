@@ -0,0 +1,107 @@
+/**
+ * TaskHistory
+ *
+ * Attribution and field-level diffs for task revisions.
+ *
+ * Code that changes tasks on behalf of someone other than the user (agent
+ * runs, chat tools, plugins) runs inside runAsActor(); the store reads the
+ * current actor when it records a revision. Changes made outside any actor
+ * context come from the renderer and are attributed to the user.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ChangeActor, FieldChange, Task, TaskRevisionAction } from '../../shared/types';
+
+const actorStorage = new AsyncLocalStorage<ChangeActor>();
+
+const USER_ACTOR: ChangeActor = { type: 'user' };
+
+// Bookkeeping fields that change on most writes and are not worth a revision
+const IGNORED_FIELDS = new Set([
+  'id', 'createdAt', 'updatedAt', 'completedAt', 'comments', 'order', 'aiProcessing', 'gitBranchCheckedOut',
+]);
+
+// Nested objects diffed one level deep, with the fields to keep (all when null)
+const NESTED_FIELDS: Record<string, Set<string> | null> = {
+  agent: null,
+  runtime: new Set(['status']),
+};
+
+/**
+ * Run `fn` with every task change inside it attributed to `actor`.
+ */
+export function runAsActor<T>(actor: ChangeActor, fn: () => T): T {
+  return actorStorage.run(actor, fn);
+}
+
+/**
+ * Get the actor of the current change (the user outside runAsActor).
+ */
+export function getCurrentActor(): ChangeActor {
+  return actorStorage.getStore() ?? USER_ACTOR;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix: string,
+  include: Set<string> | null
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (include ? !include.has(field) : IGNORED_FIELDS.has(field)) continue;
+
+    const from = before[field];
+    const to = after[field];
+    if (isEqual(from, to)) continue;
+
+    const nested = prefix ? undefined : NESTED_FIELDS[field];
+    if (nested !== undefined) {
+      changes.push(...diffFields(
+        (from ?? {}) as Record<string, unknown>,
+        (to ?? {}) as Record<string, unknown>,
+        `${field}.`,
+        nested
+      ));
+    } else {
+      changes.push({ field: `${prefix}${field}`, from, to });
+    }
+  }
+
+  return changes;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Diff two versions of a task. Created tasks list their non-empty initial
+ * values; deleted tasks have no changes.
+ */
+export function diffTask(before: Task | null, after: Task | null): FieldChange[] {
+  if (!after) return [];
+
+  const changes = diffFields(
+    (before ?? {}) as unknown as Record<string, unknown>,
+    after as unknown as Record<string, unknown>,
+    '',
+    null
+  );
+  return before ? changes : changes.filter(change => !isEmpty(change.to));
+}
+
+/**
+ * Classify a change between two versions of a task.
+ */
+export function getRevisionAction(before: Task | null, after: Task | null): TaskRevisionAction {
+  if (!before) return 'created';
+  if (!after) return 'deleted';
+  return before.status !== after.status ? 'moved' : 'updated';
+}
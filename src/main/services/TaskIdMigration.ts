@@ -21,6 +21,68 @@ function hasOldIdFormat(taskId: string): boolean {
   return taskId.startsWith('task-') && !taskId.startsWith('TSK-');
 }
 
+/**
+ * Records that refer to tasks by ID and should follow a renumbering.
+ */
+export interface TaskIdReferences {
+  board?: Board;
+  state?: AgentState;
+  chatIndex?: ChatIndex;
+}
+
+/**
+ * Rename tasks by `idMap` (old ID -> new ID) and update every reference to
+ * them: dependencies, parents, comments, board columns, agent state and chats.
+ * IDs missing from the map are left as they are.
+ */
+export function applyTaskIdMap(tasks: Task[], idMap: Map<string, string>, refs: TaskIdReferences = {}): void {
+  const mapId = (taskId: string) => idMap.get(taskId) || taskId;
+
+  for (const task of tasks) {
+    task.id = mapId(task.id);
+
+    // Update dependencies
+    if (task.dependsOn && task.dependsOn.length > 0) {
+      task.dependsOn = task.dependsOn.map(mapId);
+    }
+
+    if (task.agent?.dependencies && task.agent.dependencies.length > 0) {
+      task.agent.dependencies = task.agent.dependencies.map(mapId);
+    }
+
+    if (task.parentId) {
+      task.parentId = mapId(task.parentId);
+    }
+
+    // Update comments
+    for (const comment of task.comments ?? []) {
+      comment.taskId = mapId(comment.taskId);
+    }
+  }
+
+  // Update board columns
+  for (const column of refs.board?.columns ?? []) {
+    column.taskIds = column.taskIds.map(mapId);
+  }
+
+  // Update agent state
+  const state = refs.state;
+  if (state?.activeTaskId) {
+    state.activeTaskId = mapId(state.activeTaskId);
+  }
+
+  if (state?.ralphMode?.currentTaskId) {
+    state.ralphMode.currentTaskId = mapId(state.ralphMode.currentTaskId);
+  }
+
+  // Update chat index
+  for (const chat of refs.chatIndex?.chats ?? []) {
+    if (chat.taskId) {
+      chat.taskId = mapId(chat.taskId);
+    }
+  }
+}
+
 /**
  * Migrate all task IDs to sequential format
  */
@@ -68,56 +130,11 @@ export function migrateTaskIds(
     }
   }
 
-  // Update tasks
-  for (const task of tasks) {
-    const newId = idMap.get(task.id);
-    if (newId) {
-      task.id = newId;
-
-      // Update dependencies
-      if (task.dependsOn && task.dependsOn.length > 0) {
-        task.dependsOn = task.dependsOn.map(depId => idMap.get(depId) || depId);
-      }
-
-      if (task.agent?.dependencies && task.agent.dependencies.length > 0) {
-        task.agent.dependencies = task.agent.dependencies.map(depId => idMap.get(depId) || depId);
-      }
-
-      // Update comments
-      if (task.comments && task.comments.length > 0) {
-        for (const comment of task.comments) {
-          if (idMap.has(comment.taskId)) {
-            comment.taskId = idMap.get(comment.taskId)!;
-          }
-        }
-      }
-    }
-  }
-
-  // Update board columns
-  for (const column of board.columns) {
-    column.taskIds = column.taskIds.map(taskId => idMap.get(taskId) || taskId);
-  }
-
-  // Update agent state
-  if (state.activeTaskId && idMap.has(state.activeTaskId)) {
-    state.activeTaskId = idMap.get(state.activeTaskId)!;
-  }
-
-  if (state.ralphMode?.currentTaskId && idMap.has(state.ralphMode.currentTaskId)) {
-    state.ralphMode.currentTaskId = idMap.get(state.ralphMode.currentTaskId)!;
-  }
+  applyTaskIdMap(tasks, idMap, { board, state, chatIndex });
 
   // Update last task number
   state.lastTaskNumber = counter - 1;
 
-  // Update chat index
-  for (const chat of chatIndex.chats) {
-    if (chat.taskId && idMap.has(chat.taskId)) {
-      chat.taskId = idMap.get(chat.taskId)!;
-    }
-  }
-
   console.log(`[Migration] Migrated ${idMap.size} tasks to sequential IDs`);
   console.log(`[Migration] Next task will be TSK-${counter.toString().padStart(3, '0')}`);
 
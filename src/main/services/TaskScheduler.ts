@@ -0,0 +1,168 @@
+/**
+ * Task Scheduler
+ *
+ * Creates tasks from recurring templates when their occurrences are due.
+ * Runs in the main process while a project is open: on start it catches up
+ * on occurrences missed while the app was closed, then checks every minute.
+ */
+
+import { BrowserWindow } from 'electron';
+import type { LocalKanbanStore } from './LocalKanbanStore';
+import type { TemplateService } from './TemplateService';
+import { runAsActor } from './TaskHistory';
+import { dueOccurrences } from '../../shared/recurrence';
+import { resolveWorkflow } from '../../shared/schemas/common';
+import type { RecurringTasksCreatedEvent, Task, TaskPatch, TaskTemplate } from '../../shared/types';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Local date of an occurrence as YYYY-MM-DD, for the {{date}} placeholder.
+ */
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export class TaskScheduler {
+  private store: LocalKanbanStore;
+  private templates: TemplateService;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  constructor(store: LocalKanbanStore, templates: TemplateService) {
+    this.store = store;
+    this.templates = templates;
+  }
+
+  /**
+   * Catch up on missed occurrences, then check for due ones every minute.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.check(), CHECK_INTERVAL_MS);
+    void this.check();
+  }
+
+  /**
+   * Stop checking.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Create tasks for every enabled recurring template with due occurrences.
+   * A template that fails is logged and retried on the next check.
+   */
+  async check(now: Date = new Date()): Promise<RecurringTasksCreatedEvent[]> {
+    if (this.checking) return [];
+    this.checking = true;
+
+    const events: RecurringTasksCreatedEvent[] = [];
+    try {
+      for (const template of this.templates.getAll()) {
+        if (!template.recurrence?.enabled) continue;
+
+        try {
+          const taskIds = await this.runTemplate(template, now);
+          if (taskIds.length > 0) {
+            events.push({ templateId: template.id, templateName: template.name, taskIds });
+          }
+        } catch (error) {
+          console.error(`[Scheduler] Failed to create tasks from template ${template.name}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+
+    for (const event of events) {
+      console.log(`[Scheduler] Created ${event.taskIds.join(', ')} from template ${event.templateName}`);
+      for (const win of BrowserWindow.getAllWindows()) {
+        win.webContents.send('template:recurringTasksCreated', event);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Create the tasks for a template's due occurrences: all of them, or only
+   * the latest, depending on its catch-up setting.
+   */
+  private async runTemplate(template: TaskTemplate, now: Date): Promise<string[]> {
+    const recurrence = template.recurrence!;
+    const due = dueOccurrences(recurrence, now);
+    if (due.length === 0) return [];
+
+    const occurrences = recurrence.catchUp === 'all' ? due : due.slice(-1);
+    const taskIds: string[] = [];
+    try {
+      for (const occurrence of occurrences) {
+        taskIds.push(this.createTask(template, occurrence).id);
+      }
+    } finally {
+      // Skipped older occurrences count as handled once a later one is created
+      if (taskIds.length > 0) {
+        await this.templates.recordOccurrence(template.id, occurrences[taskIds.length - 1].toISOString());
+      }
+    }
+
+    return taskIds;
+  }
+
+  /**
+   * Create one task from a template. Queued tasks go to the first Ralph
+   * source column, the others to the backlog.
+   */
+  private createTask(template: TaskTemplate, occurrence: Date): Task {
+    const applied = this.templates.applyTemplate(template.id, { date: formatDate(occurrence) })!;
+    const status = template.recurrence?.queueInRalph
+      ? resolveWorkflow(this.store.getBoard()).ralphSourceColumns[0]
+      : 'backlog';
+
+    return runAsActor({ type: 'system', id: template.id, name: 'Scheduler' }, () =>
+      this.store.transaction('createRecurringTask', () => {
+        const task = this.store.createTask(applied.titleTemplate || template.name, status);
+
+        const patch: TaskPatch = {};
+        if (applied.descriptionTemplate) patch.description = applied.descriptionTemplate;
+        if (applied.priority) patch.priority = applied.priority;
+        if (applied.acceptanceCriteria?.length) patch.acceptanceCriteria = applied.acceptanceCriteria;
+        if (applied.tags?.length) patch.tags = applied.tags;
+        if (applied.epic) patch.epic = applied.epic;
+        if (applied.humanOnly !== undefined) patch.humanOnly = applied.humanOnly;
+        if (applied.aiReviewable !== undefined) patch.aiReviewable = applied.aiReviewable;
+        if (applied.reviewCriteria) patch.reviewCriteria = applied.reviewCriteria;
+        if (applied.policyProfileId) patch.agent = { policyProfileId: applied.policyProfileId };
+
+        return Object.keys(patch).length > 0 ? this.store.updateTask(task.id, patch) : task;
+      })
+    );
+  }
+}
+
+// Singleton instance for the open project
+let instance: TaskScheduler | null = null;
+
+/**
+ * Start the scheduler for a project, stopping the previous project's.
+ */
+export function startTaskScheduler(store: LocalKanbanStore, templates: TemplateService): TaskScheduler {
+  instance?.stop();
+  instance = new TaskScheduler(store, templates);
+  instance.start();
+  return instance;
+}
+
+/**
+ * Stop the scheduler when the project closes.
+ */
+export function stopTaskScheduler(): void {
+  instance?.stop();
+  instance = null;
+}
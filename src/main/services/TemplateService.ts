@@ -8,7 +8,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { TaskTemplate, TemplatesFile, TaskPriority, TaskEpic } from '../../shared/types';
+import type { TaskTemplate, TemplatesFile, TaskPriority, TaskEpic, TemplateRecurrence } from '../../shared/types';
+import { validateRecurrence } from '../../shared/recurrence';
 
 /**
  * Input for creating a new template
@@ -26,6 +27,8 @@ export interface TemplateCreateInput {
   humanOnly?: boolean;
   aiReviewable?: boolean;
   reviewCriteria?: string;
+  policyProfileId?: string;
+  recurrence?: TemplateRecurrence;
 }
 
 /**
@@ -33,6 +36,37 @@ export interface TemplateCreateInput {
  */
 export interface TemplateUpdateInput extends Partial<TemplateCreateInput> {}
 
+/**
+ * Latest of two optional ISO timestamps.
+ */
+function latest(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a || !b) return a || b;
+  return new Date(a) >= new Date(b) ? a : b;
+}
+
+/**
+ * Merge an edited recurrence with the stored one. The last occurrence is
+ * kept from whichever copy is newer, so saving a form opened before the
+ * scheduler ran does not create the same occurrence twice. Re-enabling a
+ * paused recurrence starts from now instead of catching up on the pause.
+ *
+ * @throws RecurrenceError if the rule is invalid
+ */
+function mergeRecurrence(
+  previous: TemplateRecurrence | undefined,
+  next: TemplateRecurrence | undefined
+): TemplateRecurrence | undefined {
+  if (!next) return previous;
+  validateRecurrence(next);
+
+  let lastOccurrenceAt = latest(previous?.lastOccurrenceAt, next.lastOccurrenceAt);
+  if (next.enabled && previous && !previous.enabled) {
+    lastOccurrenceAt = latest(lastOccurrenceAt, new Date().toISOString());
+  }
+
+  return { ...next, lastOccurrenceAt };
+}
+
 export class TemplateService {
   private templatesPath: string;
   private templates: TaskTemplate[] = [];
@@ -125,6 +159,8 @@ export class TemplateService {
       humanOnly: input.humanOnly,
       aiReviewable: input.aiReviewable,
       reviewCriteria: input.reviewCriteria,
+      policyProfileId: input.policyProfileId,
+      recurrence: mergeRecurrence(undefined, input.recurrence),
       createdAt: now,
       updatedAt: now,
     };
@@ -146,6 +182,7 @@ export class TemplateService {
     const updated: TaskTemplate = {
       ...template,
       ...input,
+      recurrence: mergeRecurrence(template.recurrence, input.recurrence),
       id: template.id, // Preserve ID
       createdAt: template.createdAt, // Preserve creation date
       updatedAt: new Date().toISOString(),
@@ -157,6 +194,18 @@ export class TemplateService {
     return updated;
   }
 
+  /**
+   * Record the last occurrence of a recurring template that a task was
+   * created for. Does not change updatedAt, as the template was not edited.
+   */
+  async recordOccurrence(id: string, occurrenceAt: string): Promise<void> {
+    const template = this.getById(id);
+    if (!template?.recurrence) return;
+
+    template.recurrence = { ...template.recurrence, lastOccurrenceAt: occurrenceAt };
+    await this.save();
+  }
+
   /**
    * Delete a template
    */
@@ -170,6 +219,30 @@ export class TemplateService {
     return true;
   }
 
+  /**
+   * Add templates from a project archive, or replace all templates with them.
+   * When adding, templates whose ID or name is already taken are skipped.
+   * @returns Names of the skipped templates
+   */
+  async import(templates: TaskTemplate[], replace: boolean): Promise<string[]> {
+    const skipped: string[] = [];
+
+    if (replace) {
+      this.templates = [...templates];
+    } else {
+      for (const template of templates) {
+        if (this.templates.some(t => t.id === template.id || t.name === template.name)) {
+          skipped.push(template.name);
+        } else {
+          this.templates.push(template);
+        }
+      }
+    }
+
+    await this.save();
+    return skipped;
+  }
+
   /**
    * Get unique categories from all templates
    */
@@ -214,6 +287,7 @@ export class TemplateService {
       humanOnly: template.humanOnly,
       aiReviewable: template.aiReviewable,
       reviewCriteria: template.reviewCriteria,
+      policyProfileId: template.policyProfileId,
     };
   }
 }
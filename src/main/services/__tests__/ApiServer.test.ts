@@ -0,0 +1,106 @@
+/**
+ * ApiServer Tests
+ *
+ * Tests for token checks, JSON-RPC calls and the server-sent event stream
+ * of the local API server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { ApiServer } from '../ApiServer';
+import { publishAppEvent } from '../AppEvents';
+import { TaskNotFoundError } from '../../../shared/errors';
+
+const TOKEN = 'test-token';
+
+describe('ApiServer', () => {
+  let server: ApiServer;
+  let url: string;
+  let calls: Array<[string, unknown[]]>;
+
+  const rpc = (body: unknown, token = TOKEN) =>
+    fetch(`${url}/rpc`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    calls = [];
+    server = new ApiServer({
+      port: 0,
+      token: TOKEN,
+      methods: () => ['tasks:get', 'tasks:getAll'],
+      invoke: async (method, params) => {
+        calls.push([method, params]);
+        if (params[0] === 'missing') throw new TaskNotFoundError('missing');
+        return { method };
+      },
+    });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('rejects requests without a valid token', async () => {
+    expect((await rpc({ jsonrpc: '2.0', id: 1, method: 'tasks:getAll' }, 'wrong')).status).toBe(401);
+    expect((await fetch(`${url}/methods`)).status).toBe(401);
+    expect(calls).toEqual([]);
+  });
+
+  it('rejects requests for other hosts', async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http.get(`${url}/methods?token=${TOKEN}`, { headers: { Host: 'evil.example' } }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject);
+    });
+
+    expect(status).toBe(403);
+  });
+
+  it('calls methods with their params as arguments', async () => {
+    const response = await rpc({ jsonrpc: '2.0', id: 7, method: 'tasks:get', params: ['TSK-001'] });
+
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 7, result: { method: 'tasks:get' } });
+    expect(calls).toEqual([['tasks:get', ['TSK-001']]]);
+  });
+
+  it('returns JSON-RPC errors', async () => {
+    const response = await rpc([
+      { jsonrpc: '2.0', id: 1, method: 'project:open', params: ['/tmp'] },
+      { jsonrpc: '2.0', id: 2, method: 'tasks:get', params: ['missing'] },
+      { jsonrpc: '2.0', id: 3 },
+    ]);
+
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found: project:open' } },
+      { jsonrpc: '2.0', id: 2, error: { code: -32000, message: 'Task not found: missing', data: { code: 'TASK_NOT_FOUND' } } },
+      { jsonrpc: '2.0', id: 3, error: { code: -32600, message: 'Invalid request' } },
+    ]);
+  });
+
+  it('runs notifications without a response', async () => {
+    const response = await rpc({ jsonrpc: '2.0', method: 'tasks:getAll' });
+
+    expect(response.status).toBe(204);
+    expect(calls).toEqual([['tasks:getAll', []]]);
+  });
+
+  it('streams app events to subscribed clients', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${url}/events?token=${TOKEN}&events=activity`, { signal: controller.signal });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    await reader.read(); // ": connected"
+
+    publishAppEvent('agent:stream-update', { taskId: 'TSK-001' });
+    publishAppEvent('activity', { type: 'task_moved' });
+
+    const { value } = await reader.read();
+    expect(decoder.decode(value)).toBe('event: activity\ndata: {"type":"task_moved"}\n\n');
+    controller.abort();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * ApprovalService Tests
+ *
+ * Tests for pausing on approval requests, always-allow memory and
+ * cancellation of pending requests.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ApprovalService, ApprovalRequestInput } from '../ApprovalService';
+import type { ApprovalRequest } from '../../../shared/types';
+
+const commandRequest: ApprovalRequestInput = {
+  taskId: 'task-1',
+  runId: 'run-1',
+  kind: 'command',
+  toolName: 'run_command',
+  command: 'git push origin main',
+  cwd: '/project',
+  matchedRule: 'git push',
+};
+
+describe('ApprovalService', () => {
+  let service: ApprovalService;
+  let events: Array<[string, ApprovalRequest]>;
+
+  beforeEach(() => {
+    service = new ApprovalService();
+    events = [];
+    service.setNotifier((event, request) => events.push([event, request]));
+  });
+
+  it('should wait for an answer and notify the renderer', async () => {
+    const pending = service.requestApproval(commandRequest);
+
+    expect(service.getPending()).toHaveLength(1);
+    const [[event, request]] = events;
+    expect(event).toBe('requested');
+    expect(request.command).toBe('git push origin main');
+
+    expect(service.respond(request.id, 'deny')).toBe(true);
+    const outcome = await pending;
+
+    expect(outcome.decision).toBe('deny');
+    expect(outcome.automatic).toBe(false);
+    expect(service.getPending()).toEqual([]);
+    expect(events.map(([e]) => e)).toEqual(['requested', 'resolved']);
+    expect(service.respond(request.id, 'approve')).toBe(false);
+  });
+
+  it('should approve the same command automatically after always_allow', async () => {
+    const first = service.requestApproval(commandRequest);
+    service.respond(service.getPending()[0].id, 'always_allow');
+    expect((await first).decision).toBe('always_allow');
+
+    const second = await service.requestApproval({ ...commandRequest, runId: 'run-2' });
+    expect(second).toMatchObject({ decision: 'always_allow', automatic: true });
+
+    // A different command still asks
+    service.requestApproval({ ...commandRequest, command: 'git push --force' });
+    expect(service.getPending()).toHaveLength(1);
+  });
+
+  it('should cancel the pending requests of a run', async () => {
+    const cancelled = service.requestApproval(commandRequest);
+    service.requestApproval({ ...commandRequest, runId: 'run-2' });
+
+    service.cancelRun('run-1');
+
+    expect((await cancelled).decision).toBe('cancelled');
+    expect(service.getPending().map(r => r.runId)).toEqual(['run-2']);
+  });
+
+  it('should forget always_allow answers on reset', async () => {
+    const first = service.requestApproval(commandRequest);
+    service.respond(service.getPending()[0].id, 'always_allow');
+    await first;
+
+    service.reset();
+    service.requestApproval(commandRequest);
+    expect(service.getPending()).toHaveLength(1);
+  });
+});
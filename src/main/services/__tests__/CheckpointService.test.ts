@@ -0,0 +1,121 @@
+/**
+ * CheckpointService Tests
+ *
+ * Tests for run snapshots and rollback, including refusal when files
+ * changed after the run.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { CheckpointService } from '../CheckpointService';
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-checkpoint-test-'));
+}
+
+function cleanupTempDir(dir: string): void {
+  if (fs.existsSync(dir)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('CheckpointService', () => {
+  let tempDir: string;
+  let store: { logActivity: ReturnType<typeof vi.fn> };
+  let service: CheckpointService;
+
+  // Simulate a RepoTools write wrapped by the checkpoint hook
+  const agentWrite = (runId: string, relativePath: string, content: string) => {
+    const fullPath = path.join(tempDir, relativePath);
+    const checkpoint = service.forRun('TSK-1', runId, tempDir);
+    checkpoint.captureBefore(relativePath, fullPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    checkpoint.captureAfter(relativePath, fullPath);
+  };
+
+  const read = (relativePath: string) => fs.readFileSync(path.join(tempDir, relativePath), 'utf-8');
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    store = { logActivity: vi.fn() };
+    service = new CheckpointService(tempDir, store);
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), 'original a');
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  it('should keep only the first snapshot of a file per run', () => {
+    agentWrite('run-1', 'src/a.ts', 'first edit');
+    agentWrite('run-1', 'src/a.ts', 'second edit');
+
+    const checkpoint = service.getCheckpoint('TSK-1', 'run-1');
+    expect(checkpoint?.files).toHaveLength(1);
+    expect(checkpoint?.files[0].existed).toBe(true);
+  });
+
+  it('should roll back a whole run, deleting files it created', () => {
+    agentWrite('run-1', 'src/a.ts', 'changed a');
+    agentWrite('run-1', 'src/new.ts', 'new file');
+
+    const result = service.rollbackRun('TSK-1', 'run-1');
+
+    expect(result.success).toBe(true);
+    expect(result.restored).toEqual(['src/a.ts', 'src/new.ts']);
+    expect(read('src/a.ts')).toBe('original a');
+    expect(fs.existsSync(path.join(tempDir, 'src', 'new.ts'))).toBe(false);
+    expect(store.logActivity).toHaveBeenCalledWith(
+      'run_rolled_back',
+      expect.objectContaining({ runId: 'run-1', scope: 'run' }),
+      { taskId: 'TSK-1', runId: 'run-1' }
+    );
+  });
+
+  it('should roll back a single file', () => {
+    agentWrite('run-1', 'src/a.ts', 'changed a');
+    agentWrite('run-1', 'src/new.ts', 'new file');
+
+    const result = service.rollbackFile('TSK-1', 'run-1', 'src/a.ts');
+
+    expect(result.success).toBe(true);
+    expect(read('src/a.ts')).toBe('original a');
+    expect(read('src/new.ts')).toBe('new file');
+  });
+
+  it('should refuse when a file was modified after the run', () => {
+    agentWrite('run-1', 'src/a.ts', 'changed a');
+    agentWrite('run-1', 'src/new.ts', 'new file');
+    fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), 'edited by someone else');
+
+    const result = service.rollbackRun('TSK-1', 'run-1');
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts).toEqual([{ path: 'src/a.ts', reason: 'File was modified after the run' }]);
+    // Nothing is restored when any file conflicts
+    expect(read('src/new.ts')).toBe('new file');
+    expect(store.logActivity).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to roll back an earlier run overwritten by a later one', () => {
+    agentWrite('run-1', 'src/a.ts', 'run 1');
+    agentWrite('run-2', 'src/a.ts', 'run 2');
+
+    expect(service.rollbackRun('TSK-1', 'run-1').success).toBe(false);
+    expect(service.rollbackRun('TSK-1', 'run-2').success).toBe(true);
+    expect(read('src/a.ts')).toBe('run 1');
+  });
+
+  it('should not roll back the same run twice', () => {
+    agentWrite('run-1', 'src/a.ts', 'changed a');
+
+    expect(service.rollbackRun('TSK-1', 'run-1').success).toBe(true);
+    const second = service.rollbackRun('TSK-1', 'run-1');
+    expect(second.success).toBe(false);
+    expect(second.error).toContain('already been rolled back');
+  });
+});
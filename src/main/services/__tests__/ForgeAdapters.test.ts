@@ -0,0 +1,172 @@
+/**
+ * ForgeAdapters Tests
+ *
+ * Tests for remote URL parsing, pull request descriptions and the REST
+ * requests the adapters send.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  parseRemoteUrl,
+  getDefaultApiUrl,
+  getForgeApiHost,
+  buildPullRequestBody,
+  createForgeAdapter,
+} from '../ForgeAdapters';
+import { ApiError, ConfigurationError } from '../../../shared/errors';
+import type { AgentRun, Task } from '../../../shared/types';
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('parseRemoteUrl', () => {
+  it('parses HTTPS and SSH remotes', () => {
+    expect(parseRemoteUrl('https://github.com/acme/widgets.git')).toEqual({ host: 'github.com', owner: 'acme', name: 'widgets' });
+    expect(parseRemoteUrl('git@github.com:acme/widgets.git')).toEqual({ host: 'github.com', owner: 'acme', name: 'widgets' });
+    expect(parseRemoteUrl('ssh://git@git.example.com:2222/acme/widgets')).toEqual({ host: 'git.example.com', owner: 'acme', name: 'widgets' });
+  });
+
+  it('keeps nested GitLab groups in the owner', () => {
+    expect(parseRemoteUrl('https://gitlab.com/acme/platform/widgets.git'))
+      .toEqual({ host: 'gitlab.com', owner: 'acme/platform', name: 'widgets' });
+  });
+
+  it('rejects URLs without an owner', () => {
+    expect(parseRemoteUrl('/srv/git/widgets.git')).toBeNull();
+    expect(parseRemoteUrl('https://github.com/widgets')).toBeNull();
+  });
+});
+
+describe('getDefaultApiUrl', () => {
+  it('uses the API path of each forge', () => {
+    expect(getDefaultApiUrl('github', 'github.com')).toBe('https://api.github.com');
+    expect(getDefaultApiUrl('github', 'git.corp.com')).toBe('https://git.corp.com/api/v3');
+    expect(getDefaultApiUrl('gitlab', 'gitlab.com')).toBe('https://gitlab.com/api/v4');
+    expect(getDefaultApiUrl('gitea', 'codeberg.org')).toBe('https://codeberg.org/api/v1');
+  });
+});
+
+describe('getForgeApiHost', () => {
+  it('uses the API host of the origin remote by default', () => {
+    expect(getForgeApiHost({ enabled: true, forge: 'github' }, 'git@github.com:acme/widgets.git'))
+      .toEqual({ host: 'api.github.com', matchesRemote: true });
+    expect(getForgeApiHost({ enabled: true, forge: 'gitea', apiUrl: 'https://codeberg.org/api/v1' }, 'https://codeberg.org/acme/widgets.git'))
+      .toEqual({ host: 'codeberg.org', matchesRemote: true });
+    expect(getForgeApiHost({ enabled: true, forge: 'gitea' }, null)).toBeNull();
+  });
+
+  it('flags API URLs pointing away from the origin remote', () => {
+    expect(getForgeApiHost({ enabled: true, forge: 'github', apiUrl: 'https://evil.example.com/api/v3' }, 'git@github.com:acme/widgets.git'))
+      .toEqual({ host: 'evil.example.com', matchesRemote: false });
+  });
+});
+
+describe('buildPullRequestBody', () => {
+  it('lists acceptance criteria with their results and the agent summary', () => {
+    const task = {
+      id: 'TSK-007',
+      description: 'Add CSV export.',
+      acceptanceCriteria: ['Exports all columns', 'Escapes quotes'],
+    } as Task;
+    const run = {
+      summary: 'Added an export button.',
+      acceptanceResults: [{ criterion: 'Exports all columns', passed: true, evidence: 'export.test.ts' }],
+    } as AgentRun;
+
+    expect(buildPullRequestBody(task, run)).toBe([
+      'Add CSV export.',
+      '## Acceptance Criteria\n\n- [x] Exports all columns — export.test.ts\n- [ ] Escapes quotes',
+      '## Agent Summary\n\nAdded an export button.',
+      '---\nOpened by Dexteria for TSK-007.',
+    ].join('\n\n'));
+  });
+});
+
+describe('createForgeAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('requires a token and a way to find the repository', () => {
+    expect(() => createForgeAdapter({ enabled: true, forge: 'github' }, 'git@github.com:acme/widgets.git', undefined))
+      .toThrow(ConfigurationError);
+    expect(() => createForgeAdapter({ enabled: true, forge: 'github' }, null, 'token'))
+      .toThrow(ConfigurationError);
+    expect(() => createForgeAdapter({ enabled: true, forge: 'gitea', repository: 'acme/widgets' }, null, 'token'))
+      .toThrow('API URL');
+  });
+
+  it('opens GitHub pull requests and reports merged ones', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ number: 12, html_url: 'https://github.com/acme/widgets/pull/12', state: 'open', draft: true }))
+      .mockResolvedValueOnce(jsonResponse({ number: 12, html_url: 'https://github.com/acme/widgets/pull/12', state: 'closed', merged: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const adapter = createForgeAdapter({ enabled: true, forge: 'github' }, 'git@github.com:acme/widgets.git', 'secret');
+    const created = await adapter.createPullRequest({
+      title: 'TSK-007: CSV export',
+      body: 'body',
+      sourceBranch: 'task/TSK-007-csv-export',
+      targetBranch: 'main',
+      draft: true,
+    });
+
+    expect(created).toEqual({ number: 12, url: 'https://github.com/acme/widgets/pull/12', state: 'draft' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.github.com/repos/acme/widgets/pulls');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({
+      title: 'TSK-007: CSV export',
+      body: 'body',
+      head: 'task/TSK-007-csv-export',
+      base: 'main',
+      draft: true,
+    });
+
+    expect((await adapter.getPullRequest(12)).state).toBe('merged');
+  });
+
+  it('finds GitLab merge requests by source branch on self-hosted instances', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse([
+      { iid: 3, web_url: 'https://git.corp.com/acme/platform/widgets/-/merge_requests/3', state: 'opened' },
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const adapter = createForgeAdapter(
+      { enabled: true, forge: 'gitlab', apiUrl: 'https://git.corp.com/api/v4/' },
+      'git@git.corp.com:acme/platform/widgets.git',
+      'secret'
+    );
+
+    expect(await adapter.findOpenPullRequest('task/TSK-007')).toMatchObject({ number: 3, state: 'open' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://git.corp.com/api/v4/projects/acme%2Fplatform%2Fwidgets/merge_requests?state=opened&source_branch=task%2FTSK-007');
+    expect(init.headers['PRIVATE-TOKEN']).toBe('secret');
+  });
+
+  it('pages through Gitea pull requests to find the branch', async () => {
+    const other = (number: number) => ({ number, html_url: `https://codeberg.org/acme/widgets/pulls/${number}`, state: 'open', head: { ref: `task/other-${number}` } });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(Array.from({ length: 50 }, (_, i) => other(i + 1))))
+      .mockResolvedValueOnce(jsonResponse([other(51), { ...other(52), head: { ref: 'task/TSK-007' } }]))
+      .mockResolvedValue(jsonResponse([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const adapter = createForgeAdapter({ enabled: true, forge: 'gitea', repository: 'acme/widgets' }, 'https://codeberg.org/acme/widgets.git', 'secret');
+
+    expect(await adapter.findOpenPullRequest('task/TSK-007')).toMatchObject({ number: 52, state: 'open' });
+    expect(fetchMock.mock.calls[1][0]).toBe('https://codeberg.org/api/v1/repos/acme/widgets/pulls?state=open&limit=50&page=2');
+    expect(await adapter.findOpenPullRequest('task/TSK-404')).toBeNull();
+  });
+
+  it('throws ApiError for failed requests', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ message: 'Bad credentials' }, 401)));
+
+    const adapter = createForgeAdapter({ enabled: true, forge: 'gitea', repository: 'acme/widgets' }, 'https://codeberg.org/acme/widgets.git', 'secret');
+    const error = await adapter.getPullRequest(1).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toContain('HTTP 401 "Bad credentials"');
+  });
+});
@@ -3,16 +3,6 @@
  *
  * Tests for the data persistence layer including CRUD operations,
  * file integrity, and state management.
- *
- * SKIPPED: Zod v4 has ESM/CJS interop issues with vitest causing
- * `safeParse` to be undefined. The `zod/v3` alias doesn't resolve
- * the issue as vitest's module resolution doesn't apply to transitive
- * dependencies in the way needed.
- *
- * Options to fix:
- * 1. Downgrade to Zod v3 (breaking change for project)
- * 2. Wait for Zod v4 vitest compatibility fix
- * 3. Create integration tests that run the actual app
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
@@ -20,6 +10,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { LocalKanbanStore } from '../LocalKanbanStore';
+import type { AgentState } from '../../../shared/types';
+import { runAsActor } from '../TaskHistory';
 
 // Create and cleanup temp directories for isolated tests
 function createTempDir(): string {
@@ -32,7 +24,7 @@ function cleanupTempDir(dir: string): void {
   }
 }
 
-describe.skip('LocalKanbanStore', () => {
+describe('LocalKanbanStore', () => {
   let tempDir: string;
   let store: LocalKanbanStore;
 
@@ -81,7 +73,7 @@ describe.skip('LocalKanbanStore', () => {
       expect(fs.existsSync(statePath)).toBe(true);
 
       const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
-      expect(state.mode).toBe('planner');
+      expect(state.mode).toBe('manual');
     });
 
     it('should report as initialized after initialization', () => {
@@ -203,6 +195,39 @@ describe.skip('LocalKanbanStore', () => {
       expect(updated!.agent.scope).toBeDefined();
     });
 
+    it('should reject dependency changes that create a cycle', () => {
+      const first = store.createTask('First');
+      const second = store.createTask('Second');
+      store.updateTask(second.id, { dependsOn: [first.id] });
+
+      expect(() => {
+        store.updateTask(first.id, { dependsOn: [second.id] });
+      }).toThrow(`Dependency cycle: ${first.id} → ${second.id} → ${first.id}`);
+      expect(store.getTask(first.id)!.dependsOn).toBeUndefined();
+    });
+
+    it('should reject nesting a task under its own subtask', () => {
+      const parent = store.createTask('Parent');
+      const child = store.createTask('Child');
+      store.updateTask(child.id, { parentId: parent.id });
+
+      expect(() => {
+        store.updateTask(parent.id, { parentId: child.id });
+      }).toThrow(`Cannot make ${parent.id} a subtask of ${child.id}`);
+      expect(store.getTask(parent.id)!.parentId).toBeUndefined();
+    });
+
+    it('should move subtasks up to the parent of a deleted task', () => {
+      const root = store.createTask('Root');
+      const middle = store.createTask('Middle');
+      const leaf = store.createTask('Leaf');
+      store.updateTask(middle.id, { parentId: root.id });
+      store.updateTask(leaf.id, { parentId: middle.id });
+
+      store.deleteTask(middle.id);
+      expect(store.getTask(leaf.id)!.parentId).toBe(root.id);
+    });
+
     it('should throw when updating non-existent task', () => {
       expect(() => {
         store.updateTask('TSK-999', { title: 'New Title' });
@@ -274,6 +299,142 @@ describe.skip('LocalKanbanStore', () => {
         store.moveTask('TSK-999', 'todo');
       }).toThrow('Task not found');
     });
+
+    it('should enforce WIP limits unless forced', () => {
+      const board = store.getBoard();
+      board.columns.find(c => c.id === 'doing')!.wipLimit = 1;
+      store.saveBoard(board);
+      const first = store.createTask('First');
+      const second = store.createTask('Second');
+
+      store.moveTask(first.id, 'doing');
+      expect(() => store.moveTask(second.id, 'doing')).toThrow('WIP limit');
+
+      store.moveTask(second.id, 'doing', undefined, { force: true });
+      expect(store.getTask(second.id)!.status).toBe('doing');
+    });
+
+    it('should reject transitions the column does not allow', () => {
+      const board = store.getBoard();
+      board.columns.find(c => c.id === 'backlog')!.allowedTransitions = ['todo'];
+      store.saveBoard(board);
+      const task = store.createTask('Gated');
+
+      expect(() => store.moveTask(task.id, 'done')).toThrow('cannot move');
+      store.moveTask(task.id, 'todo');
+      expect(store.getTask(task.id)!.status).toBe('todo');
+    });
+  });
+
+  describe('Board Configuration', () => {
+    it('should keep tasks in columns that still exist', () => {
+      const task = store.createTask('Stay', 'todo');
+
+      const board = store.configureBoard([
+        { id: 'todo', title: 'Ready', category: 'todo' },
+        { id: 'shipped', title: 'Shipped', category: 'done' },
+      ]);
+
+      expect(board.columns.map(c => c.title)).toEqual(['Ready', 'Shipped']);
+      expect(board.columns[0].taskIds).toEqual([task.id]);
+    });
+
+    it('should move tasks from removed columns to the fallback column', () => {
+      const task = store.createTask('Orphan', 'review');
+
+      const board = store.configureBoard(
+        [{ id: 'todo', title: 'To Do' }, { id: 'done', title: 'Done' }],
+        {},
+        'done'
+      );
+
+      expect(store.getTask(task.id)!.status).toBe('done');
+      expect(board.columns.find(c => c.id === 'done')!.taskIds).toContain(task.id);
+    });
+
+    it('should reject workflow columns that do not exist', () => {
+      expect(() => {
+        store.configureBoard([{ id: 'todo', title: 'To Do' }], { runningColumn: 'doing' });
+      }).toThrow();
+    });
+  });
+
+  describe('Saved Filters', () => {
+    it('should save, update and delete filters', () => {
+      const filter = store.saveFilter({ name: 'Backend', query: 'tag:backend', groupBy: 'epic' });
+      store.saveFilter({ ...filter, query: 'tag:backend priority>=high' });
+
+      expect(store.getBoard().savedFilters).toEqual([{ ...filter, query: 'tag:backend priority>=high' }]);
+
+      store.deleteFilter(filter.id);
+      expect(store.getBoard().savedFilters).toEqual([]);
+    });
+
+    it('should reject invalid queries', () => {
+      expect(() => store.saveFilter({ name: 'Bad', query: 'owner:me' })).toThrow('Invalid query');
+    });
+
+    it('should narrow pending tasks with a query', () => {
+      const urgent = store.createTask('Urgent', 'todo');
+      store.createTask('Later', 'todo');
+      store.updateTask(urgent.id, { priority: 'critical' });
+
+      expect(store.getPendingTasks('fifo', 'priority>=high').map(t => t.id)).toEqual([urgent.id]);
+    });
+  });
+
+  describe('Task History', () => {
+    it('should record field changes with their actor', () => {
+      const task = store.createTask('History Task');
+      runAsActor({ type: 'plugin', id: 'com.example', name: 'Example' }, () => {
+        store.updateTask(task.id, { priority: 'high' });
+      });
+      store.moveTask(task.id, 'todo');
+
+      const [moved, updated, created] = store.getTaskHistory(task.id);
+      expect(created.action).toBe('created');
+      expect(updated.actor).toEqual({ type: 'plugin', id: 'com.example', name: 'Example' });
+      expect(updated.changes).toEqual([{ field: 'priority', from: 'medium', to: 'high' }]);
+      expect(moved.action).toBe('moved');
+      expect(moved.actor).toEqual({ type: 'user' });
+    });
+
+    it('should undo and redo recorded operations', () => {
+      const task = store.createTask('Undo Task');
+      store.recordOperation({ kind: 'move', taskId: task.id, title: task.title }, [task.id], () => {
+        store.moveTask(task.id, 'todo');
+      });
+
+      expect(store.undo()).toEqual({ kind: 'move', taskId: task.id, title: task.title });
+      expect(store.getTask(task.id)!.status).toBe('backlog');
+      expect(store.getBoard().columns.find(c => c.id === 'backlog')!.taskIds).toContain(task.id);
+      expect(store.getUndoState()).toEqual({ undo: null, redo: { kind: 'move', taskId: task.id, title: task.title } });
+
+      store.redo();
+      expect(store.getTask(task.id)!.status).toBe('todo');
+      expect(store.getTaskHistory(task.id)[0].reason).toBe('redo');
+    });
+
+    it('should restore deleted tasks', () => {
+      const task = store.createTask('Deleted Task');
+      store.recordOperation({ kind: 'delete', taskId: task.id, title: task.title }, [task.id], () => {
+        store.deleteTask(task.id);
+      });
+
+      store.undo();
+      expect(store.getTask(task.id)!.title).toBe('Deleted Task');
+    });
+
+    it('should refuse to undo over later changes', () => {
+      const task = store.createTask('Conflict Task');
+      store.recordOperation({ kind: 'update', taskId: task.id, title: task.title }, [task.id], () => {
+        store.updateTask(task.id, { title: 'Renamed' });
+      });
+      store.updateTask(task.id, { title: 'Renamed again' });
+
+      expect(() => store.undo()).toThrow('was changed since');
+      expect(store.getTask(task.id)!.title).toBe('Renamed again');
+    });
   });
 
   describe('Task Comments', () => {
@@ -308,19 +469,20 @@ describe.skip('LocalKanbanStore', () => {
   describe('State Operations', () => {
     it('should get state', () => {
       const state = store.getState();
-      expect(state.mode).toBe('planner');
+      expect(state.mode).toBe('manual');
     });
 
     it('should update state', () => {
-      store.setState({ mode: 'agent' });
+      store.setState({ mode: 'ralph' });
       const state = store.getState();
-      expect(state.mode).toBe('agent');
+      expect(state.mode).toBe('ralph');
     });
 
     it('should merge ralph mode on update', () => {
-      store.setState({ ralphMode: { isRunning: true } });
+      store.setState({ ralphMode: { enabled: true } as AgentState['ralphMode'] });
       const state = store.getState();
-      expect(state.ralphMode.isRunning).toBe(true);
+      expect(state.ralphMode.enabled).toBe(true);
+      expect(state.ralphMode.strategy).toBe('dependency');
     });
   });
 
@@ -459,4 +621,24 @@ describe.skip('LocalKanbanStore', () => {
       expect(updated!.sprint).toBeUndefined();
     });
   });
+
+  describe('Pull Request', () => {
+    it('should keep the pull request on task', () => {
+      const task = store.createTask('PR Task');
+      const pullRequest = {
+        forge: 'github' as const,
+        number: 12,
+        url: 'https://github.com/acme/app/pull/12',
+        state: 'open' as const,
+        sourceBranch: `task/${task.id}`,
+        targetBranch: 'main',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      };
+      store.updateTask(task.id, { pullRequest });
+
+      const updated = store.getTask(task.id);
+      expect(updated!.pullRequest).toEqual(pullRequest);
+    });
+  });
 });
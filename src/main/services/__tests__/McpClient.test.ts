@@ -0,0 +1,98 @@
+/**
+ * McpClient Tests
+ *
+ * Tests for tool discovery, namespacing and calls against a stdio MCP server
+ * run as a node script, and for servers that fail to start.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as os from 'os';
+import { McpClientManager, getMcpToolName } from '../McpClient';
+import { McpClientError } from '../../../shared/errors';
+import type { McpServerConfig } from '../../../shared/types';
+
+const FAKE_SERVER = `
+const readline = require('readline');
+const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params } = JSON.parse(line);
+  if (method === 'initialize') {
+    send({ id, result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'fake' } } });
+  } else if (method === 'tools/list') {
+    send({ id, result: { tools: [{ name: 'echo', description: 'Echo text', inputSchema: { type: 'object' } }] } });
+  } else if (method === 'tools/call') {
+    const { text, fail } = params.arguments;
+    send({ id, result: { content: [{ type: 'text', text: fail ? 'echo failed' : text }], isError: !!fail } });
+  }
+});
+`;
+
+function createServer(overrides?: Partial<McpServerConfig>): McpServerConfig {
+  return {
+    name: 'fake',
+    command: process.execPath,
+    args: ['-e', FAKE_SERVER],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('McpClientManager', () => {
+  let manager: McpClientManager;
+
+  afterEach(() => {
+    manager?.reset();
+  });
+
+  it('discovers namespaced tools and calls them', async () => {
+    manager = new McpClientManager(os.tmpdir(), [createServer()]);
+
+    const tools = await manager.getTools();
+    expect(tools).toEqual([{
+      name: 'mcp__fake__echo',
+      toolName: 'echo',
+      server: 'fake',
+      description: 'Echo text',
+      inputSchema: { type: 'object' },
+    }]);
+    expect(await manager.callTool('mcp__fake__echo', { text: 'hello' })).toBe('hello');
+    expect(manager.getStatus()).toMatchObject([{ name: 'fake', state: 'connected' }]);
+  });
+
+  it('throws for tool errors and unknown tools', async () => {
+    manager = new McpClientManager(os.tmpdir(), [createServer()]);
+    await manager.getTools();
+
+    await expect(manager.callTool('mcp__fake__echo', { fail: true })).rejects.toThrow('MCP server "fake": echo failed');
+    await expect(manager.callTool('mcp__fake__missing', {})).rejects.toThrow(McpClientError);
+  });
+
+  it('reports servers that fail to start', async () => {
+    manager = new McpClientManager(os.tmpdir(), [
+      createServer({ name: 'broken', args: ['-e', 'process.stderr.write("missing token"); process.exit(1)'] }),
+      createServer({ name: 'off', enabled: false }),
+    ]);
+
+    expect(await manager.getTools()).toEqual([]);
+    const [broken, off] = manager.getStatus();
+    expect(broken.state).toBe('error');
+    expect(broken.error).toContain('missing token');
+    expect(off.state).toBe('disabled');
+  });
+
+  it('restarts servers whose configuration changed', async () => {
+    manager = new McpClientManager(os.tmpdir(), [createServer()]);
+    await manager.getTools();
+
+    manager.configure([createServer({ name: 'renamed' })]);
+    expect(manager.getStatus()).toMatchObject([{ name: 'renamed', state: 'stopped', tools: [] }]);
+    expect((await manager.getTools()).map(tool => tool.name)).toEqual(['mcp__renamed__echo']);
+  });
+});
+
+describe('getMcpToolName', () => {
+  it('replaces characters providers reject and caps the length', () => {
+    expect(getMcpToolName('docs', 'search.pages')).toBe('mcp__docs__search_pages');
+    expect(getMcpToolName('docs', 'x'.repeat(100))).toHaveLength(64);
+  });
+});
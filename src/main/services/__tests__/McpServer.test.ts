@@ -0,0 +1,98 @@
+/**
+ * McpServer Tests
+ *
+ * Tests for initialization, tool calls and resource reads of the Model
+ * Context Protocol server, and its stdio framing.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { McpServer } from '../McpServer';
+import { TaskNotFoundError } from '../../../shared/errors';
+
+describe('McpServer', () => {
+  let server: McpServer;
+  let calls: Array<[string, Record<string, unknown>]>;
+
+  const request = (id: number, method: string, params?: Record<string, unknown>) =>
+    server.handleMessage({ jsonrpc: '2.0', id, method, params });
+
+  beforeEach(() => {
+    calls = [];
+    server = new McpServer({
+      name: 'dexteria',
+      version: '1.0.0',
+      tools: () => [{ name: 'list_tasks', description: 'List tasks', inputSchema: { type: 'object', properties: {} } }],
+      callTool: async (name, args) => {
+        calls.push([name, args]);
+        if (args.taskId === 'missing') throw new TaskNotFoundError('missing');
+        return { text: 'TSK-001' };
+      },
+      resources: () => [{ uri: 'dexteria://board', name: 'Board' }],
+      readResource: async (uri) => (uri === 'dexteria://board' ? { uri, text: '{}' } : null),
+    });
+  });
+
+  it('negotiates the protocol version and records the client', async () => {
+    const response = await request(1, 'initialize', {
+      protocolVersion: '2024-11-05',
+      capabilities: {},
+      clientInfo: { name: 'claude-code', version: '2.0.0' },
+    });
+
+    expect(response?.result).toMatchObject({
+      protocolVersion: '2024-11-05',
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: 'dexteria', version: '1.0.0' },
+    });
+    expect(server.clientName).toBe('claude-code');
+
+    const unknown = await request(2, 'initialize', { protocolVersion: '1999-01-01' });
+    expect(unknown?.result).toMatchObject({ protocolVersion: '2025-06-18' });
+  });
+
+  it('ignores notifications', async () => {
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+  });
+
+  it('reports tool errors as results', async () => {
+    const ok = await request(1, 'tools/call', { name: 'list_tasks', arguments: { status: 'todo' } });
+    const failed = await request(2, 'tools/call', { name: 'list_tasks', arguments: { taskId: 'missing' } });
+
+    expect(ok?.result).toEqual({ content: [{ type: 'text', text: 'TSK-001' }], isError: false });
+    expect(failed?.result).toEqual({ content: [{ type: 'text', text: 'Task not found: missing' }], isError: true });
+    expect(calls).toEqual([['list_tasks', { status: 'todo' }], ['list_tasks', { taskId: 'missing' }]]);
+  });
+
+  it('rejects unknown tools, resources and methods', async () => {
+    expect((await request(1, 'tools/call', { name: 'rm_rf' }))?.error).toEqual({ code: -32602, message: 'Unknown tool: rm_rf' });
+    expect((await request(2, 'resources/read', { uri: 'dexteria://nope' }))?.error)
+      .toEqual({ code: -32002, message: 'Resource not found: dexteria://nope' });
+    expect((await request(3, 'prompts/list'))?.error).toEqual({ code: -32601, message: 'Method not found: prompts/list' });
+    expect(calls).toEqual([]);
+  });
+
+  it('reads resources', async () => {
+    expect((await request(1, 'resources/read', { uri: 'dexteria://board' }))?.result)
+      .toEqual({ contents: [{ uri: 'dexteria://board', text: '{}' }] });
+  });
+
+  it('serves newline-delimited messages until the input ends', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const done = server.listen(input, output);
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"resources/list"}\n');
+    await done;
+
+    const lines = output.read().toString().trim().split('\n').map((line: string) => JSON.parse(line));
+    expect(lines).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+      { jsonrpc: '2.0', id: 2, result: { resources: [{ uri: 'dexteria://board', name: 'Board' }] } },
+    ]);
+  });
+});
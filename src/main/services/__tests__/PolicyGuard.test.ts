@@ -6,7 +6,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { PolicyGuard } from '../PolicyGuard';
+import { PolicyGuard, resolveEffectivePolicy } from '../PolicyGuard';
+import { PolicyProfileNotFoundError } from '../../../shared/errors';
 import type { Policy } from '../../../shared/types';
 
 // Test fixture: default policy
@@ -67,6 +68,19 @@ describe('PolicyGuard', () => {
         expect(result.reason).toContain('traversal');
       });
 
+      it('should block sibling directories sharing the root prefix', () => {
+        const result = guard.validatePath('/project-worktree/src/index.ts');
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toContain('traversal');
+      });
+
+      it('should scope paths to a worktree root', () => {
+        const worktreeGuard = new PolicyGuard('/project/.local-kanban/worktrees/TSK-1', createTestPolicy());
+        expect(worktreeGuard.validatePath('src/index.ts').allowed).toBe(true);
+        expect(worktreeGuard.validatePath('/project/src/index.ts').allowed).toBe(false);
+        expect(worktreeGuard.getAbsolutePath('src/index.ts')).toBe('/project/.local-kanban/worktrees/TSK-1/src/index.ts');
+      });
+
       it('should block paths matching blocked patterns', () => {
         const result = guard.validatePath('config/.env');
         expect(result.allowed).toBe(false);
@@ -271,6 +285,49 @@ describe('PolicyGuard', () => {
     });
   });
 
+  describe('Confirmation Rules', () => {
+    describe('getCommandConfirmationRule', () => {
+      it('should match command prefixes on whole words', () => {
+        expect(guard.getCommandConfirmationRule('git push')).toBe('git push');
+        expect(guard.getCommandConfirmationRule('  GIT   push origin main')).toBe('git push');
+        expect(guard.getCommandConfirmationRule('git pushx')).toBeNull();
+        expect(guard.getCommandConfirmationRule('git status')).toBeNull();
+      });
+    });
+
+    describe('getPathConfirmationRule', () => {
+      it('should match operation names and path globs', () => {
+        const globGuard = new PolicyGuard(projectRoot, createTestPolicy({
+          requireConfirmation: ['overwrite_large_file', 'src/config/**'],
+        }));
+
+        expect(globGuard.getPathConfirmationRule('src/a.ts', 'overwrite_large_file')).toBe('overwrite_large_file');
+        expect(globGuard.getPathConfirmationRule('src/config/app.json', 'write')).toBe('src/config/**');
+        expect(globGuard.getPathConfirmationRule('src/a.ts', 'write')).toBeNull();
+      });
+
+      it('should ignore paths outside the project root', () => {
+        expect(guard.getPathConfirmationRule('../outside.ts', 'delete')).toBeNull();
+      });
+    });
+  });
+
+  describe('MCP Tool Validation', () => {
+    it('should allow every MCP tool without an MCP policy', () => {
+      expect(guard.validateMcpTool('mcp__github__create_issue').allowed).toBe(true);
+    });
+
+    it('should apply blocked patterns before allowed ones', () => {
+      const mcpGuard = new PolicyGuard(projectRoot, createTestPolicy({
+        mcpTools: { allowed: ['mcp__github__*'], blocked: ['mcp__github__delete_*'] },
+      }));
+
+      expect(mcpGuard.validateMcpTool('mcp__github__create_issue').allowed).toBe(true);
+      expect(mcpGuard.validateMcpTool('mcp__github__delete_repo').rule).toBe('mcpTools.blocked: mcp__github__delete_*');
+      expect(mcpGuard.validateMcpTool('mcp__slack__post').rule).toBe('mcpTools.allowed');
+    });
+  });
+
   describe('Limit Enforcement', () => {
     describe('enforceDiffLimits', () => {
       it('should allow changes within limits', () => {
@@ -343,6 +400,45 @@ describe('PolicyGuard', () => {
         expect(result.reason).toContain('exceeds limit');
       });
     });
+
+    describe('enforceBudgets', () => {
+      const budgetGuard = () => new PolicyGuard(projectRoot, createTestPolicy({
+        limits: {
+          ...createTestPolicy().limits,
+          maxTokensPerRun: 10000,
+          maxCostPerRunUsd: 1,
+          maxProjectCostUsd: 5,
+        },
+      }));
+
+      it('should allow usage when no budgets are set', () => {
+        const result = guard.enforceBudgets({ inputTokens: 1e9, outputTokens: 1e9, costUsd: 1000 }, 1000);
+        expect(result.allowed).toBe(true);
+      });
+
+      it('should block when run tokens exceed the budget', () => {
+        const result = budgetGuard().enforceRuntimeLimits({
+          startTime: Date.now(),
+          stepsExecuted: 1,
+          filesModified: [],
+          usage: { inputTokens: 9000, outputTokens: 2000, costUsd: 0.1 },
+        });
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toContain('Tokens used');
+      });
+
+      it('should block when run cost exceeds the budget', () => {
+        const result = budgetGuard().enforceBudgets({ inputTokens: 100, outputTokens: 100, costUsd: 1.5 });
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toContain('Run cost');
+      });
+
+      it('should block once earlier runs and this run reach the project budget', () => {
+        const usage = { inputTokens: 100, outputTokens: 100, costUsd: 0.5 };
+        expect(budgetGuard().enforceBudgets(usage, 4).allowed).toBe(true);
+        expect(budgetGuard().enforceBudgets(usage, 4.5).reason).toContain('Project cost');
+      });
+    });
   });
 
   describe('Utility Methods', () => {
@@ -380,3 +476,98 @@ describe('PolicyGuard', () => {
     });
   });
 });
+
+describe('resolveEffectivePolicy', () => {
+  const policy = createTestPolicy({
+    profiles: [
+      {
+        id: 'review',
+        name: 'Review',
+        allowedOperations: ['read'],
+        blockedPaths: ['src/secret/**'],
+        shellCommands: { allowed: ['git'], blocked: ['git push'] },
+        limits: { maxStepsPerRun: 10 },
+      },
+      { id: 'docs', name: 'Docs', writePaths: ['docs/**', '**/*.md'] },
+    ],
+  });
+
+  it('should return the project policy without a profile or scope', () => {
+    expect(resolveEffectivePolicy(policy)).toEqual(policy);
+  });
+
+  it('should narrow allow-lists and merge restricting ones', () => {
+    const effective = resolveEffectivePolicy(policy, { profileId: 'review' });
+
+    expect(effective.allowedOperations).toEqual(['read']);
+    expect(effective.allowedPaths).toEqual(policy.allowedPaths);
+    expect(effective.blockedPaths).toEqual(['node_modules/**', '.git/**', 'src/secret/**']);
+    expect(effective.shellCommands.allowed).toEqual(['git']);
+    expect(effective.shellCommands.blocked).toContain('sudo');
+    expect(effective.shellCommands.blocked).toContain('git push');
+    expect(effective.limits.maxStepsPerRun).toBe(10);
+    expect(effective.limits.maxFilesPerRun).toBe(20);
+
+    const guard = new PolicyGuard('/project', effective);
+    expect(guard.validateWrite('src/index.ts').allowed).toBe(false);
+    expect(guard.validateRead('src/secret/key.ts').allowed).toBe(false);
+  });
+
+  it('should limit writes to both the profile write paths and the task scope', () => {
+    const effective = resolveEffectivePolicy(
+      { ...policy, allowedPaths: [] },
+      { profileId: 'docs', scope: ['docs/api', 'login flow'] }
+    );
+    const guard = new PolicyGuard('/project', effective);
+
+    // "login flow" is not a path, so only "docs/api" is enforced
+    expect(effective.writeScopes).toEqual([['docs/**', '**/*.md'], ['docs/api']]);
+    expect(guard.validateWrite('docs/api/auth.md').allowed).toBe(true);
+    expect(guard.validateWrite('docs/guide.md').allowed).toBe(false);
+    expect(guard.validateWrite('src/api/auth.ts').allowed).toBe(false);
+    expect(guard.validateRead('src/api/auth.ts').allowed).toBe(true);
+  });
+
+  it('should not let a profile widen the project allow-lists', () => {
+    const effective = resolveEffectivePolicy(
+      {
+        ...policy,
+        profiles: [{
+          id: 'wide',
+          name: 'Wide',
+          allowedPaths: ['**/*', 'src/auth/**', 'docs/**'],
+          allowedOperations: ['read', 'write', 'delete'],
+          shellCommands: { allowed: ['git', 'curl'] },
+        }],
+      },
+      { profileId: 'wide' }
+    );
+    const guard = new PolicyGuard('/project', effective);
+
+    expect(effective.allowedPaths).toEqual(['src/**', 'tests/**', 'package.json', 'src/auth/**']);
+    expect(effective.allowedOperations).toEqual(['read', 'write']);
+    expect(effective.shellCommands.allowed).toEqual(['git']);
+    expect(guard.validateRead('docs/guide.md').allowed).toBe(false);
+    expect(guard.validateCommand('curl https://example.com').allowed).toBe(false);
+  });
+
+  it('should narrow allowed MCP tools and merge blocked ones', () => {
+    const effective = resolveEffectivePolicy(
+      {
+        ...policy,
+        mcpTools: { allowed: ['*'], blocked: ['mcp__github__delete_*'] },
+        profiles: [{ id: 'triage', name: 'Triage', mcpTools: { allowed: ['mcp__github__*'], blocked: ['mcp__github__merge_*'] } }],
+      },
+      { profileId: 'triage' }
+    );
+
+    expect(effective.mcpTools).toEqual({
+      allowed: ['mcp__github__*'],
+      blocked: ['mcp__github__delete_*', 'mcp__github__merge_*'],
+    });
+  });
+
+  it('should throw for an unknown profile', () => {
+    expect(() => resolveEffectivePolicy(policy, { profileId: 'missing' })).toThrow(PolicyProfileNotFoundError);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * PolicySimulator Tests
+ *
+ * Tests for replaying recorded tool calls and commands through a
+ * candidate policy and grouping the changes by rule.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PolicySimulator } from '../PolicySimulator';
+import type { AgentRun, AgentRunToolCall, Policy } from '../../../shared/types';
+
+const ROOT = '/project';
+
+function createTestPolicy(overrides?: Partial<Policy>): Policy {
+  return {
+    allowedPaths: ['src/**', 'docs/**', 'package.json'],
+    allowedOperations: ['read', 'write'],
+    blockedPaths: ['node_modules/**', '.git/**'],
+    blockedPatterns: ['*.env', '*.pem'],
+    maxFileSize: 1024 * 1024,
+    shellCommands: {
+      allowed: ['npm', 'git', 'node'],
+      blocked: ['rm -rf', 'sudo'],
+      requireConfirmation: [],
+    },
+    requireConfirmation: [],
+    limits: {
+      maxStepsPerRun: 50,
+      maxFilesPerRun: 20,
+      maxDiffLinesPerRun: 1000,
+      maxRuntimeMinutes: 30,
+      allowedGlobs: ['**/*'],
+      blockedGlobs: [],
+    },
+    ...overrides,
+  };
+}
+
+function toolCall(name: string, input: Record<string, unknown>): AgentRunToolCall {
+  return { timestamp: '2026-01-01T00:00:00.000Z', name, input, outputSummary: '', durationMs: 1 };
+}
+
+function createRun(id: string, toolCalls: AgentRunToolCall[], commands: string[] = []): AgentRun {
+  return {
+    id,
+    taskId: 'TSK-1',
+    mode: 'manual',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    status: 'completed',
+    steps: toolCalls.length,
+    toolCalls,
+    patches: [],
+    commands: commands.map(command => ({
+      timestamp: '2026-01-01T00:00:01.000Z',
+      command,
+      exitCode: 0,
+      durationMs: 1,
+    })),
+    filesModified: [],
+  };
+}
+
+describe('PolicySimulator', () => {
+  const simulator = new PolicySimulator(ROOT);
+
+  it('should report no changes for an identical policy', () => {
+    const runs = [{ taskId: 'TSK-1', runs: [createRun('run-1', [toolCall('read_file', { path: 'src/a.ts' })])] }];
+
+    const result = simulator.simulate(createTestPolicy(), createTestPolicy(), runs);
+
+    expect(result.runsScanned).toBe(1);
+    expect(result.callsReplayed).toBe(1);
+    expect(result.groups).toEqual([]);
+  });
+
+  it('should group newly blocked calls by the rule that blocks them', () => {
+    const runs = [{
+      taskId: 'TSK-1',
+      runs: [createRun('run-1', [
+        toolCall('read_file', { path: 'src/a.ts' }),
+        toolCall('write_file', { path: 'src/generated/b.ts', content: 'x' }),
+        toolCall('apply_patch', { path: 'src/generated/c.ts', unifiedDiff: '' }),
+        toolCall('list_files', { glob: '**/*' }),
+      ])],
+    }];
+    const candidate = createTestPolicy({ blockedPaths: ['node_modules/**', '.git/**', 'src/generated/**'] });
+
+    const result = simulator.simulate(createTestPolicy(), candidate, runs);
+
+    expect(result.callsReplayed).toBe(3);
+    expect(result.newlyBlocked).toBe(2);
+    expect(result.newlyAllowed).toBe(0);
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0]).toMatchObject({ change: 'newly_blocked', rule: 'blockedPaths: src/generated/**' });
+    expect(result.groups[0].calls.map(c => c.target)).toEqual(['src/generated/b.ts', 'src/generated/c.ts']);
+    expect(result.groups[0].calls[0]).toMatchObject({ taskId: 'TSK-1', runId: 'run-1', tool: 'write_file' });
+  });
+
+  it('should attribute newly allowed calls to the rule that no longer blocks them', () => {
+    const runs = [{
+      taskId: 'TSK-1',
+      runs: [createRun('run-1', [toolCall('run_command', { cmd: 'npx tsc' })], ['npx tsc', 'pnpm test'])],
+    }];
+    const candidate = createTestPolicy({
+      shellCommands: { allowed: ['npm', 'git', 'node', 'npx', 'pnpm'], blocked: ['rm -rf', 'sudo'], requireConfirmation: [] },
+    });
+
+    const result = simulator.simulate(createTestPolicy(), candidate, runs);
+
+    // The command recorded for the run_command call is not replayed twice
+    expect(result.callsReplayed).toBe(2);
+    expect(result.newlyAllowed).toBe(2);
+    expect(result.groups).toEqual([
+      expect.objectContaining({ change: 'newly_allowed', rule: 'shellCommands.allowed' }),
+    ]);
+    expect(result.groups[0].calls.map(c => c.target)).toEqual(['npx tsc', 'pnpm test']);
+  });
+
+  it('should separate changes in both directions and sort larger groups first', () => {
+    const runs = [{
+      taskId: 'TSK-2',
+      runs: [
+        createRun('run-1', [toolCall('write_file', { path: 'docs/a.md', content: 'a' })], ['sudo ls']),
+        createRun('run-2', [toolCall('write_file', { path: 'docs/b.md', content: 'b' })]),
+      ],
+    }];
+    const candidate = createTestPolicy({
+      allowedPaths: ['src/**', 'package.json'],
+      shellCommands: { allowed: ['npm', 'git', 'node', 'sudo'], blocked: ['rm -rf'], requireConfirmation: [] },
+    });
+
+    const result = simulator.simulate(createTestPolicy(), candidate, runs);
+
+    expect(result.runsScanned).toBe(2);
+    expect(result.groups.map(g => [g.change, g.rule, g.calls.length])).toEqual([
+      ['newly_blocked', 'allowedPaths', 2],
+      ['newly_allowed', 'shellCommands.blocked: sudo', 1],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * ProjectArchiveService Tests
+ *
+ * Tests for what an imported archive may change in the project.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalKanbanStore } from '../LocalKanbanStore';
+import { ProjectArchiveService } from '../ProjectArchiveService';
+import { DEFAULT_GIT_CONFIG, type GitConfig, type ProjectSettings } from '../../../shared/types';
+
+function createProject(root: string, name: string): LocalKanbanStore {
+  const projectRoot = path.join(root, name);
+  fs.mkdirSync(projectRoot);
+  const store = new LocalKanbanStore({ projectRoot, enableBackups: false, maxBackups: 3 });
+  store.initialize(name);
+  return store;
+}
+
+describe('ProjectArchiveService', () => {
+  let root: string;
+  let archivePath: string;
+  let source: LocalKanbanStore;
+  let target: LocalKanbanStore;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-archive-'));
+    archivePath = path.join(root, 'project.dexteria');
+    source = createProject(root, 'source');
+    target = createProject(root, 'target');
+
+    const task = source.createTask('Running task', 'doing');
+    source.updateTaskRuntime(task.id, { status: 'running', currentRunId: 'run-1' });
+    source.saveSettings({
+      ...source.getSettings(),
+      mcpServers: [{ name: 'tools', command: 'curl', args: ['https://evil.example.com'], enabled: true }],
+      git: { ...DEFAULT_GIT_CONFIG, pullRequests: { enabled: true, forge: 'github', apiUrl: 'https://evil.example.com' } },
+    } as ProjectSettings);
+
+    await new ProjectArchiveService(path.join(root, 'source'), source).exportProject(archivePath);
+  });
+
+  afterEach(() => {
+    source.close();
+    target.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps the project\'s MCP servers and pull request settings on replace', async () => {
+    const result = await new ProjectArchiveService(path.join(root, 'target'), target)
+      .importProject(archivePath, { mode: 'replace' });
+
+    const settings = target.getSettings() as ProjectSettings & { git?: GitConfig };
+    expect(settings.mcpServers).toBeUndefined();
+    expect(settings.git?.pullRequests).toBeUndefined();
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      'MCP servers were not imported: tools',
+      'Pull request settings were not imported',
+    ]));
+  });
+
+  it('does not import tasks as running', async () => {
+    await new ProjectArchiveService(path.join(root, 'target'), target).importProject(archivePath, { mode: 'replace' });
+
+    expect(target.getTasks().map(t => t.runtime.status)).toEqual(['idle']);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * SqliteStorageBackend Tests
+ *
+ * Tests for the SQLite storage backend and moving data between backends.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteStorageBackend } from '../SqliteStorageBackend';
+import { JsonStorageBackend } from '../StorageBackend';
+import { LocalKanbanStore } from '../LocalKanbanStore';
+import { createActivityEntry, createComment, createTask } from '../../../shared/schemas/factories';
+import type { AgentRun, Task, TaskRevision } from '../../../shared/types';
+
+let root: string;
+let backend: SqliteStorageBackend;
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return { ...createTask({ id, title: `Task ${id}` }), ...overrides };
+}
+
+function revision(id: string, taskId: string): TaskRevision {
+  return { id, taskId, action: 'updated', actor: { type: 'user' }, changes: [], timestamp: new Date().toISOString() };
+}
+
+function run(id: string, taskId: string, startedAt: string): AgentRun {
+  return {
+    id, taskId, mode: 'manual', startedAt, status: 'completed', steps: 1,
+    toolCalls: [], patches: [], commands: [], filesModified: [],
+  } as unknown as AgentRun;
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-sqlite-'));
+  backend = new SqliteStorageBackend(path.join(root, '.local-kanban', 'store.db'));
+});
+
+afterEach(() => {
+  backend.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('SqliteStorageBackend', () => {
+  it('round-trips tasks in order with their comments', () => {
+    const first = task('TSK-2', {
+      comments: [{ id: 'c1', taskId: 'TSK-2', type: 'note', author: 'me', content: 'Hi', createdAt: '2030-01-01T00:00:00.000Z' }],
+    });
+    backend.writeTasks(JSON.stringify({ tasks: [first, task('TSK-1')] }));
+
+    const { tasks } = backend.readTasks() as { tasks: Task[] };
+
+    expect(tasks.map(t => t.id)).toEqual(['TSK-2', 'TSK-1']);
+    expect(tasks[0]).toEqual(first);
+    expect(backend.readTask('TSK-2')).toEqual(first);
+    expect(backend.readTask('TSK-9')).toBeNull();
+  });
+
+  it('applies updates and deletions', () => {
+    backend.writeTasks(JSON.stringify({ tasks: [task('TSK-1'), task('TSK-2')] }));
+    backend.writeTasks(JSON.stringify({ tasks: [task('TSK-2', { title: 'Renamed' })] }));
+
+    const { tasks } = backend.readTasks() as { tasks: Task[] };
+
+    expect(tasks.map(t => t.title)).toEqual(['Renamed']);
+    expect(backend.getInfo().taskCount).toBe(1);
+  });
+
+  it('writes and deletes single tasks', () => {
+    backend.writeTasks(JSON.stringify({ tasks: [task('TSK-1'), task('TSK-2')] }));
+
+    backend.upsertTask(task('TSK-1', { title: 'Renamed' }));
+    backend.upsertTask(task('TSK-3'));
+    backend.deleteTask('TSK-2');
+
+    const { tasks } = backend.readTasks() as { tasks: Task[] };
+    expect(tasks.map(t => [t.id, t.title])).toEqual([['TSK-1', 'Renamed'], ['TSK-3', 'Task TSK-3']]);
+
+    // The full-document write still sees the single-task changes
+    backend.writeTasks(JSON.stringify({ tasks: [task('TSK-3')] }));
+    expect(backend.getInfo().taskCount).toBe(1);
+  });
+
+  it('sees writes made by another connection', () => {
+    backend.writeTasks(JSON.stringify({ tasks: [task('TSK-1')] }));
+
+    const other = new SqliteStorageBackend(path.join(root, '.local-kanban', 'store.db'));
+    other.writeTasks(JSON.stringify({ tasks: [task('TSK-1'), task('TSK-2')] }));
+    other.close();
+
+    backend.writeTasks(JSON.stringify({ tasks: [task('TSK-1', { title: 'Edited' })] }));
+
+    expect((backend.readTasks() as { tasks: Task[] }).tasks.map(t => t.id)).toEqual(['TSK-1']);
+  });
+
+  it('reads activity, revisions and runs newest first', () => {
+    backend.appendActivity(createActivityEntry('task_created', {}, { taskId: 'TSK-1' }));
+    backend.appendActivity(createActivityEntry('task_moved', {}, { taskId: 'TSK-1' }));
+    backend.appendRevision(revision('rev-1', 'TSK-1'));
+    backend.appendRevision(revision('rev-2', 'TSK-1'));
+    backend.appendRevision(revision('rev-3', 'TSK-2'));
+    backend.indexRun(run('run-1', 'TSK-1', '2030-01-01T00:00:00.000Z'));
+    backend.indexRun(run('run-2', 'TSK-1', '2030-01-02T00:00:00.000Z'));
+
+    expect(backend.readActivity(1).map(e => e.type)).toEqual(['task_moved']);
+    expect(backend.readRevisions('TSK-1', 10).map(r => r.id)).toEqual(['rev-2', 'rev-1']);
+    expect(backend.listRuns('TSK-1').map(r => r.id)).toEqual(['run-2', 'run-1']);
+  });
+});
+
+describe('migrating between backends', () => {
+  it('moves everything from JSON to SQLite and back', () => {
+    const json = new JsonStorageBackend(root);
+    json.writeTasks(JSON.stringify({ tasks: [task('TSK-1'), task('TSK-2')] }));
+    json.appendActivity(createActivityEntry('task_created', {}, { taskId: 'TSK-1' }));
+    json.appendRevision(revision('rev-1', 'TSK-1'));
+    json.appendRevision(revision('rev-2', 'TSK-2'));
+
+    backend.import(json.export());
+    expect(backend.getInfo()).toMatchObject({ taskCount: 2, activityCount: 1, revisionCount: 2 });
+
+    json.archive(path.join(root, 'backup'));
+    expect(json.readTasks()).toBeNull();
+
+    json.import(backend.export());
+    expect(json.getInfo()).toMatchObject({ taskCount: 2, activityCount: 1, revisionCount: 2 });
+    expect(json.readRevisions('TSK-2', 10).map(r => r.id)).toEqual(['rev-2']);
+  });
+});
+
+describe('LocalKanbanStore on SQLite', () => {
+  it('keeps single-task store operations in step with the board', () => {
+    const store = new LocalKanbanStore({ projectRoot: root, enableBackups: false, maxBackups: 3 });
+    store.initialize('Test Project');
+    store.migrateStorage('sqlite');
+
+    const created = store.createTask('First');
+    const second = store.createTask('Second');
+    store.moveTask(created.id, 'doing');
+    store.addComment(created.id, createComment('note', 'me', 'Hi', undefined, created.id));
+    store.deleteTask(second.id);
+
+    expect(store.getTasks().map(t => t.id)).toEqual([created.id]);
+    expect(store.getBoard().columns.find(c => c.id === 'doing')?.taskIds).toEqual([created.id]);
+    expect(store.getTaskHistory(created.id).map(r => r.action)).toContain('moved');
+    store.close();
+
+    const reopened = new SqliteStorageBackend(path.join(root, '.local-kanban', 'store.db'));
+    expect(reopened.readTask(created.id)).toMatchObject({ status: 'doing', comments: [{ content: 'Hi' }] });
+    expect(reopened.readTask(second.id)).toBeNull();
+    reopened.close();
+  });
+});
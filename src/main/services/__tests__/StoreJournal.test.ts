@@ -0,0 +1,114 @@
+/**
+ * StoreJournal Tests
+ *
+ * Tests for atomic writes, journal recovery and the store lock.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoreJournal, StoreLock, writeFileAtomic } from '../StoreJournal';
+import { StoreLockError } from '../../../shared/errors';
+
+const JOURNAL_PATH = '.local-kanban/journal.json';
+
+let root: string;
+
+function read(relativePath: string): string {
+  return fs.readFileSync(path.join(root, relativePath), 'utf-8');
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'dexteria-journal-'));
+  fs.mkdirSync(path.join(root, '.local-kanban'));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('writeFileAtomic', () => {
+  it('replaces the file without leaving temp files', () => {
+    const file = path.join(root, '.local-kanban', 'board.json');
+    writeFileAtomic(file, 'old');
+    writeFileAtomic(file, 'new');
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('new');
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['board.json']);
+  });
+});
+
+describe('StoreJournal', () => {
+  it('writes all files and removes the journal', () => {
+    const journal = new StoreJournal(root, JOURNAL_PATH);
+    journal.commit('moveTask', new Map([
+      ['.local-kanban/board.json', 'board'],
+      ['.local-kanban/tasks.json', 'tasks'],
+    ]));
+
+    expect(read('.local-kanban/board.json')).toBe('board');
+    expect(read('.local-kanban/tasks.json')).toBe('tasks');
+    expect(fs.existsSync(path.join(root, JOURNAL_PATH))).toBe(false);
+  });
+
+  it('replays a journal left by a crash', () => {
+    fs.writeFileSync(path.join(root, '.local-kanban/board.json'), 'old board');
+    fs.writeFileSync(path.join(root, JOURNAL_PATH), JSON.stringify({
+      operation: 'moveTask',
+      files: { '.local-kanban/board.json': 'new board', '.local-kanban/tasks.json': 'new tasks' },
+      createdAt: new Date().toISOString(),
+    }));
+    fs.writeFileSync(path.join(root, '.local-kanban/tasks.json.123.1.tmp'), 'partial');
+
+    const journal = new StoreJournal(root, JOURNAL_PATH);
+
+    expect(journal.recover()).toBe('moveTask');
+    expect(read('.local-kanban/board.json')).toBe('new board');
+    expect(read('.local-kanban/tasks.json')).toBe('new tasks');
+    expect(fs.readdirSync(path.join(root, '.local-kanban')).sort()).toEqual(['board.json', 'tasks.json']);
+    expect(journal.recover()).toBeNull();
+  });
+
+  it('discards a journal that was not fully written', () => {
+    fs.writeFileSync(path.join(root, '.local-kanban/board.json'), 'old board');
+    fs.writeFileSync(path.join(root, JOURNAL_PATH), '{"operation":"move');
+
+    expect(new StoreJournal(root, JOURNAL_PATH).recover()).toBeNull();
+    expect(read('.local-kanban/board.json')).toBe('old board');
+    expect(fs.existsSync(path.join(root, JOURNAL_PATH))).toBe(false);
+  });
+});
+
+describe('StoreLock', () => {
+  it('is re-entrant and removes the lock file on the last release', () => {
+    const lockPath = path.join(root, '.local-kanban/store.lock');
+    const lock = new StoreLock(lockPath);
+
+    lock.acquire();
+    lock.acquire();
+    lock.release();
+    expect(fs.existsSync(lockPath)).toBe(true);
+
+    lock.release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('takes over a lock whose owner is gone', () => {
+    const lockPath = path.join(root, '.local-kanban/store.lock');
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+
+    const lock = new StoreLock(lockPath);
+    lock.acquire();
+
+    expect(JSON.parse(fs.readFileSync(lockPath, 'utf-8')).pid).toBe(process.pid);
+    lock.release();
+  });
+
+  it('fails when another live process holds the lock', () => {
+    const lockPath = path.join(root, '.local-kanban/store.lock');
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid, acquiredAt: Date.now() }));
+
+    expect(() => new StoreLock(lockPath).acquire()).toThrow(StoreLockError);
+  }, 10000);
+});
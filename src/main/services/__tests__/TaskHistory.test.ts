@@ -0,0 +1,70 @@
+/**
+ * TaskHistory Tests
+ *
+ * Tests for task diffs, revision actions and change attribution.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffTask, getCurrentActor, getRevisionAction, runAsActor } from '../TaskHistory';
+import { createTask } from '../../../shared/schemas/factories';
+import type { Task } from '../../../shared/types';
+
+function task(overrides: Partial<Task> = {}): Task {
+  return { ...createTask({ id: 'TSK-1', title: 'Login form' }), ...overrides };
+}
+
+describe('diffTask', () => {
+  it('lists changed fields and skips bookkeeping', () => {
+    const before = task();
+    const after = task({ priority: 'high', tags: ['frontend'], order: 4, updatedAt: '2030-01-01T00:00:00.000Z' });
+
+    expect(diffTask(before, after)).toEqual([
+      { field: 'priority', from: 'medium', to: 'high' },
+      { field: 'tags', from: undefined, to: ['frontend'] },
+    ]);
+  });
+
+  it('diffs agent fields and runtime status with dotted names', () => {
+    const before = task();
+    const after = task({
+      agent: { ...before.agent, goal: 'Ship it' },
+      runtime: { ...before.runtime, status: 'running', runCount: 1 },
+    });
+
+    expect(diffTask(before, after)).toEqual([
+      { field: 'agent.goal', from: '', to: 'Ship it' },
+      { field: 'runtime.status', from: 'idle', to: 'running' },
+    ]);
+  });
+
+  it('lists the non-empty initial values of created tasks', () => {
+    const changes = diffTask(null, task()).map(c => c.field);
+
+    expect(changes).toContain('title');
+    expect(changes).not.toContain('description');
+    expect(diffTask(task(), null)).toEqual([]);
+  });
+});
+
+describe('getRevisionAction', () => {
+  it('classifies revisions', () => {
+    expect(getRevisionAction(null, task())).toBe('created');
+    expect(getRevisionAction(task(), null)).toBe('deleted');
+    expect(getRevisionAction(task(), task({ status: 'doing' }))).toBe('moved');
+    expect(getRevisionAction(task(), task({ title: 'Signup form' }))).toBe('updated');
+  });
+});
+
+describe('runAsActor', () => {
+  it('attributes changes to the actor, including across awaits', async () => {
+    expect(getCurrentActor()).toEqual({ type: 'user' });
+
+    const actor = await runAsActor({ type: 'agent', id: 'run-1' }, async () => {
+      await Promise.resolve();
+      return getCurrentActor();
+    });
+
+    expect(actor).toEqual({ type: 'agent', id: 'run-1' });
+    expect(getCurrentActor()).toEqual({ type: 'user' });
+  });
+});
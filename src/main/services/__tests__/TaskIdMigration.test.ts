@@ -0,0 +1,49 @@
+/**
+ * TaskIdMigration Tests
+ *
+ * Tests for renaming tasks and the references to them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyTaskIdMap } from '../TaskIdMigration';
+import { createTask } from '../../../shared/schemas/factories';
+import type { AgentState, Board, Task } from '../../../shared/types';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return { ...createTask({ id, title: `Task ${id}` }), ...overrides };
+}
+
+describe('applyTaskIdMap', () => {
+  it('renames tasks and every reference to them', () => {
+    const tasks = [
+      task('TSK-001'),
+      task('TSK-002', {
+        dependsOn: ['TSK-001', 'TSK-009'],
+        parentId: 'TSK-001',
+        comments: [{ id: 'c1', taskId: 'TSK-002', type: 'note', author: 'me', content: 'Hi', createdAt: '2030-01-01T00:00:00.000Z' }],
+      }),
+    ];
+    const board = { columns: [{ id: 'backlog', title: 'Backlog', taskIds: ['TSK-001', 'TSK-002'] }] } as Board;
+    const chatIndex = { chats: [{ id: 'chat-1', title: 'Chat', taskId: 'TSK-002', createdAt: '', updatedAt: '' }] };
+
+    applyTaskIdMap(tasks, new Map([['TSK-001', 'TSK-010'], ['TSK-002', 'TSK-011']]), { board, chatIndex });
+
+    expect(tasks.map(t => t.id)).toEqual(['TSK-010', 'TSK-011']);
+    expect(tasks[1].dependsOn).toEqual(['TSK-010', 'TSK-009']);
+    expect(tasks[1].parentId).toBe('TSK-010');
+    expect(tasks[1].comments[0].taskId).toBe('TSK-011');
+    expect(board.columns[0].taskIds).toEqual(['TSK-010', 'TSK-011']);
+    expect(chatIndex.chats[0].taskId).toBe('TSK-011');
+  });
+
+  it('updates the active task and leaves unmapped IDs alone', () => {
+    const tasks = [task('TSK-001'), task('TSK-002')];
+    const state = { activeTaskId: 'TSK-001', ralphMode: { currentTaskId: 'TSK-002' } } as AgentState;
+
+    applyTaskIdMap(tasks, new Map([['TSK-001', 'TSK-005']]), { state });
+
+    expect(tasks.map(t => t.id)).toEqual(['TSK-005', 'TSK-002']);
+    expect(state.activeTaskId).toBe('TSK-005');
+    expect(state.ralphMode?.currentTaskId).toBe('TSK-002');
+  });
+});
@@ -14,6 +14,7 @@ import { KeyboardShortcutsModal } from './components/KeyboardShortcutsModal';
 import { AlertTriangle, X } from 'lucide-react';
 import { UpdateNotificationToast } from './components/UpdateNotificationToast';
 import { UpdateProgressDialog } from './components/UpdateProgressDialog';
+import { ApprovalDialog } from './components/ApprovalDialog';
 import { useUpdater } from './hooks/useUpdater';
 import { ProjectInterviewWizard } from './components/interview';
 import './index.css';
@@ -188,12 +189,50 @@ const LayoutInitializer: React.FC<{ children: React.ReactNode }> = ({ children }
 
 // Main docking content
 const DockingContent: React.FC<{ onNewProject: () => void }> = ({ onNewProject }) => {
+  const { t } = useTranslation();
+  const toast = useToast();
   const openView = useLayoutStore((s) => s.openView);
   const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
 
+  // Undo/redo of board operations (moves, edits and deletes)
+  const handleUndo = async (redo: boolean) => {
+    try {
+      const operation = redo ? await window.dexteria.tasks.redo() : await window.dexteria.tasks.undo();
+      if (!operation) {
+        toast.info(t(redo ? 'toasts.nothingToRedo' : 'toasts.nothingToUndo'));
+        return;
+      }
+      const label = t(`toasts.operations.${operation.kind}`, { id: operation.taskId });
+      toast.success(t(redo ? 'toasts.redone' : 'toasts.undone', { operation: label }));
+    } catch (err) {
+      console.error(`Failed to ${redo ? 'redo' : 'undo'}:`, err);
+      toast.error(t(redo ? 'toasts.redoFailed' : 'toasts.undoFailed'));
+    }
+  };
+
+  // Store files edited outside the app (an editor, git)
+  useEffect(() => {
+    return window.dexteria.board.onExternalChange((change) => {
+      if (change.status === 'rejected') {
+        toast.warning(t('toasts.storeEditRejected', { file: change.file }));
+      } else {
+        toast.info(t('toasts.storeReloaded', { file: change.file }));
+      }
+    });
+  }, [toast, t]);
+
+  // Tasks the scheduler created from recurring templates
+  useEffect(() => {
+    return window.dexteria.template.onRecurringTasksCreated((event) => {
+      toast.info(t('toasts.recurringTasksCreated', { template: event.templateName, count: event.taskIds.length }));
+    });
+  }, [toast, t]);
+
   // Global keyboard shortcuts
   useKeyboardShortcuts({
     onShowHelp: () => setShowShortcutsHelp(true),
+    onUndo: () => handleUndo(false),
+    onRedo: () => handleUndo(true),
   });
 
   const handleOpenSettings = () => {
@@ -517,6 +556,8 @@ function AppContent() {
       </ComponentRegistryProvider>
       {/* Global modal for planner mode block */}
       <PlannerBlockModal />
+      {/* Human approval for gated agent commands and paths */}
+      <ApprovalDialog />
       {/* Update notification toast */}
       {showUpdateToast && updateInfo && (
         <UpdateNotificationToast
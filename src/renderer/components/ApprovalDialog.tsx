@@ -0,0 +1,165 @@
+/**
+ * ApprovalDialog
+ *
+ * Modal dialog for agent tool calls that need human approval
+ * (requireConfirmation commands and paths). Requests are queued and
+ * answered one at a time; the run stays paused until answered.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Terminal, FileText } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useTranslation } from '../i18n/useTranslation';
+import type { ApprovalDecision, ApprovalRequest } from '../../shared/types';
+
+export const ApprovalDialog: React.FC = () => {
+  const { t } = useTranslation();
+  const [queue, setQueue] = useState<ApprovalRequest[]>([]);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    const api = window.dexteria?.approval;
+    if (!api) return;
+
+    // Pick up requests made before this window was loaded
+    api.getPending().then(pending => setQueue(pending)).catch(err => {
+      console.error('Failed to load pending approvals:', err);
+    });
+
+    const removeRequested = api.onRequested(request => {
+      setQueue(prev => (prev.some(r => r.id === request.id) ? prev : [...prev, request]));
+    });
+    const removeResolved = api.onResolved(request => {
+      setQueue(prev => prev.filter(r => r.id !== request.id));
+    });
+
+    return () => {
+      removeRequested();
+      removeResolved();
+    };
+  }, []);
+
+  const current = queue[0];
+  if (!current) return null;
+
+  const respond = async (decision: ApprovalDecision) => {
+    setResponding(true);
+    try {
+      await window.dexteria.approval.respond(current.id, decision);
+    } catch (err) {
+      console.error('Failed to answer approval request:', err);
+    } finally {
+      // Answered elsewhere or already cancelled: drop it either way
+      setQueue(prev => prev.filter(r => r.id !== current.id));
+      setResponding(false);
+    }
+  };
+
+  const isCommand = current.kind === 'command';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div
+        className={cn(
+          'w-full max-w-2xl bg-background border border-border rounded-lg shadow-2xl',
+          'animate-in fade-in zoom-in-95 duration-200'
+        )}
+      >
+        {/* Header */}
+        <div className="p-6 pb-4 flex items-start gap-3">
+          <ShieldAlert className="w-5 h-5 text-yellow-500 mt-1 flex-shrink-0" />
+          <div className="min-w-0">
+            <h2 className="text-xl font-semibold">{t('views.approval.title')}</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {t('views.approval.description', { rule: current.matchedRule })}
+            </p>
+          </div>
+          {queue.length > 1 && (
+            <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+              {t('views.approval.queued', { count: queue.length - 1 })}
+            </span>
+          )}
+        </div>
+
+        {/* Request details */}
+        <div className="px-6 pb-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            {isCommand ? <Terminal className="w-4 h-4 text-muted-foreground" /> : <FileText className="w-4 h-4 text-muted-foreground" />}
+            <code className="font-mono break-all">
+              {isCommand ? current.command : current.path}
+            </code>
+            {!isCommand && current.operation && (
+              <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                {current.operation}
+              </span>
+            )}
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            <span className="font-medium">{t('views.approval.cwd')}:</span>{' '}
+            <code className="font-mono break-all">{current.cwd}</code>
+          </div>
+
+          {current.diffPreview && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1">{t('views.approval.diffPreview')}</div>
+              <pre className="max-h-72 overflow-auto p-3 rounded-md bg-muted/50 border border-border text-xs font-mono whitespace-pre">
+                {current.diffPreview.split('\n').map((line, i) => (
+                  <div
+                    key={i}
+                    className={cn(
+                      line.startsWith('+') && !line.startsWith('+++') && 'text-green-500',
+                      line.startsWith('-') && !line.startsWith('---') && 'text-red-500'
+                    )}
+                  >
+                    {line || ' '}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-2 p-6 pt-4 border-t border-border">
+          <button
+            onClick={() => respond('deny')}
+            disabled={responding}
+            className={cn(
+              'px-4 py-2 rounded-md',
+              'border border-border',
+              'hover:bg-accent transition-colors',
+              'text-sm disabled:opacity-50'
+            )}
+          >
+            {t('views.approval.deny')}
+          </button>
+          <button
+            onClick={() => respond('always_allow')}
+            disabled={responding}
+            className={cn(
+              'px-4 py-2 rounded-md',
+              'border border-border',
+              'hover:bg-accent transition-colors',
+              'text-sm disabled:opacity-50'
+            )}
+          >
+            {t('views.approval.alwaysAllow')}
+          </button>
+          <button
+            onClick={() => respond('approve')}
+            disabled={responding}
+            className={cn(
+              'px-4 py-2 rounded-md',
+              'bg-primary text-primary-foreground',
+              'hover:bg-primary/90 transition-colors',
+              'font-medium text-sm disabled:opacity-50'
+            )}
+          >
+            {t('views.approval.approve')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
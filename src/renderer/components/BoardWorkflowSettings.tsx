@@ -0,0 +1,327 @@
+/**
+ * BoardWorkflowSettings
+ *
+ * Settings tab for the board's columns: titles, categories, WIP limits,
+ * allowed transitions and the columns Ralph Mode picks from and moves to.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, Save, AlertTriangle } from 'lucide-react';
+import { Button, IconButton, Input } from 'adnia-ui';
+import { cn } from '../lib/utils';
+import { useBoard } from '../hooks/useData';
+import { useToast } from '../contexts/ToastContext';
+import { useTranslation } from '../i18n/useTranslation';
+import { getColumnCategory } from '../../shared/schemas/common';
+import type { BoardWorkflow, ColumnCategory, ColumnConfig } from '../../shared/types';
+
+const CATEGORIES: ColumnCategory[] = ['backlog', 'todo', 'in_progress', 'review', 'done'];
+
+/**
+ * Column being edited. New columns get their ID from the title on save.
+ */
+interface DraftColumn extends ColumnConfig {
+  key: string;
+  isNew: boolean;
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export const BoardWorkflowSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { board, tasks, refresh } = useBoard();
+  const { success, error: showError } = useToast();
+
+  const [columns, setColumns] = useState<DraftColumn[]>([]);
+  const [workflow, setWorkflow] = useState<BoardWorkflow>({});
+  const [fallbackColumnId, setFallbackColumnId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Reset the draft when the stored board is saved; polling alone returns
+  // a new board object every few seconds
+  useEffect(() => {
+    if (!board) return;
+    setColumns(board.columns.map(({ taskIds: _taskIds, ...column }) => ({
+      ...column,
+      category: getColumnCategory(column),
+      key: column.id,
+      isNew: false,
+    })));
+    setWorkflow(board.workflow ?? {});
+  }, [board?.updatedAt]);
+
+  const columnId = (column: DraftColumn) => column.isNew ? slugify(column.title) : column.id;
+  const ids = columns.map(columnId);
+  const titleOf = (id: string) => columns.find(c => columnId(c) === id)?.title || id;
+
+  // Tasks in columns that will be removed, keyed by column ID
+  const removed = (board?.columns ?? [])
+    .filter(column => !ids.includes(column.id))
+    .map(column => ({ column, count: tasks.filter(task => task.status === column.id).length }))
+    .filter(({ count }) => count > 0);
+
+  const updateColumn = (key: string, patch: Partial<DraftColumn>) => {
+    setColumns(prev => prev.map(c => (c.key === key ? { ...c, ...patch } : c)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev];
+      const [column] = next.splice(index, 1);
+      next.splice(index + offset, 0, column);
+      return next;
+    });
+  };
+
+  const addColumn = () => {
+    const key = `new-${Date.now()}`;
+    setColumns(prev => [...prev, { key, id: '', title: '', category: 'todo', isNew: true }]);
+  };
+
+  const toggleTransition = (column: DraftColumn, targetId: string) => {
+    const others = ids.filter(id => id !== columnId(column));
+    const allowed = column.allowedTransitions ?? others;
+    const next = allowed.includes(targetId)
+      ? allowed.filter(id => id !== targetId)
+      : [...allowed, targetId];
+    // Every other column allowed is the same as no restriction
+    updateColumn(column.key, {
+      allowedTransitions: others.every(id => next.includes(id)) ? undefined : next,
+    });
+  };
+
+  const toggleSource = (id: string) => {
+    const sources = workflow.ralphSourceColumns ?? [];
+    const next = sources.includes(id) ? sources.filter(s => s !== id) : [...sources, id];
+    setWorkflow({ ...workflow, ralphSourceColumns: next.length > 0 ? next : undefined });
+  };
+
+  const handleSave = async () => {
+    // Drop references to columns that no longer exist
+    const exists = (id: string) => ids.includes(id);
+    const config: ColumnConfig[] = columns.map(column => ({
+      id: columnId(column),
+      title: column.title,
+      category: column.category,
+      ...(column.wipLimit !== undefined && { wipLimit: column.wipLimit }),
+      ...(column.allowedTransitions && { allowedTransitions: column.allowedTransitions.filter(exists) }),
+    }));
+    const nextWorkflow: BoardWorkflow = {
+      ralphSourceColumns: workflow.ralphSourceColumns?.filter(exists),
+      runningColumn: workflow.runningColumn && exists(workflow.runningColumn) ? workflow.runningColumn : undefined,
+      successColumn: workflow.successColumn && exists(workflow.successColumn) ? workflow.successColumn : undefined,
+    };
+
+    setSaving(true);
+    try {
+      await window.dexteria.board.configure(config, nextWorkflow, fallbackColumnId || undefined);
+      await refresh();
+      success(t('toasts.boardSaved'));
+    } catch (err) {
+      console.error('Failed to save board:', err);
+      showError(t('toasts.boardSaveFailed', { error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!board) {
+    return <div className="text-sm text-muted-foreground">{t('views.kanban.noBoardData')}</div>;
+  }
+
+  const selectClass = 'bg-muted border border-border rounded px-2 py-1 text-sm';
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h3 className="text-lg font-semibold mb-1">{t('views.settings.board.title')}</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          {t('views.settings.board.description')}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {columns.map((column, index) => {
+          const id = columnId(column);
+          const allowed = column.allowedTransitions;
+          return (
+            <div key={column.key} className="p-4 bg-muted/50 rounded-lg border border-border space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={column.title}
+                  onChange={(e) => updateColumn(column.key, { title: e.target.value })}
+                  placeholder={t('views.settings.board.columnTitle')}
+                  className="flex-1"
+                />
+                <span className="text-xs font-mono text-muted-foreground w-28 truncate" title={id}>
+                  {id || '—'}
+                </span>
+                <select
+                  value={column.category}
+                  onChange={(e) => updateColumn(column.key, { category: e.target.value as ColumnCategory })}
+                  className={selectClass}
+                  aria-label={t('views.settings.board.category')}
+                >
+                  {CATEGORIES.map(category => (
+                    <option key={category} value={category}>
+                      {t(`views.settings.board.categories.${category}`)}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  value={column.wipLimit ?? ''}
+                  onChange={(e) => {
+                    const limit = parseInt(e.target.value, 10);
+                    updateColumn(column.key, { wipLimit: limit > 0 ? limit : undefined });
+                  }}
+                  min={0}
+                  placeholder={t('views.settings.board.wipLimit')}
+                  title={t('views.settings.board.wipLimit')}
+                  className="w-20 text-right"
+                />
+                <IconButton
+                  variant="ghost"
+                  size="xs"
+                  onClick={() => moveColumn(index, -1)}
+                  disabled={index === 0}
+                  aria-label={t('views.settings.board.moveUp')}
+                >
+                  <ChevronUp size={14} />
+                </IconButton>
+                <IconButton
+                  variant="ghost"
+                  size="xs"
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === columns.length - 1}
+                  aria-label={t('views.settings.board.moveDown')}
+                >
+                  <ChevronDown size={14} />
+                </IconButton>
+                <IconButton
+                  variant="ghost"
+                  size="xs"
+                  onClick={() => setColumns(prev => prev.filter(c => c.key !== column.key))}
+                  disabled={columns.length === 1}
+                  aria-label={t('views.settings.board.removeColumn')}
+                >
+                  <Trash2 size={14} />
+                </IconButton>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                <span className="text-muted-foreground mr-1">
+                  {allowed ? t('views.settings.board.movesTo') : t('views.settings.board.movesToAny')}
+                </span>
+                {ids.filter(other => other && other !== id).map(other => {
+                  const isAllowed = !allowed || allowed.includes(other);
+                  return (
+                    <button
+                      key={other}
+                      type="button"
+                      onClick={() => toggleTransition(column, other)}
+                      className={cn(
+                        'px-2 py-0.5 rounded-full border transition-colors',
+                        isAllowed
+                          ? 'border-primary/50 bg-primary/10 text-primary'
+                          : 'border-border text-muted-foreground line-through'
+                      )}
+                    >
+                      {titleOf(other)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        <Button variant="outline" size="sm" onClick={addColumn} className="gap-1.5">
+          <Plus size={14} />
+          {t('views.settings.board.addColumn')}
+        </Button>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-1">{t('views.settings.board.workflowTitle')}</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          {t('views.settings.board.workflowDescription')}
+        </p>
+      </div>
+
+      <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-4">
+        <div className="space-y-2">
+          <div className="font-medium">{t('views.settings.board.ralphSources')}</div>
+          <div className="text-sm text-muted-foreground">{t('views.settings.board.ralphSourcesDesc')}</div>
+          <div className="flex flex-wrap gap-1.5 text-xs">
+            {ids.filter(Boolean).map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => toggleSource(id)}
+                className={cn(
+                  'px-2 py-0.5 rounded-full border transition-colors',
+                  workflow.ralphSourceColumns?.includes(id)
+                    ? 'border-primary/50 bg-primary/10 text-primary'
+                    : 'border-border text-muted-foreground'
+                )}
+              >
+                {titleOf(id)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {(['runningColumn', 'successColumn'] as const).map(field => (
+          <div key={field} className="flex items-center justify-between">
+            <div>
+              <div className="font-medium">{t(`views.settings.board.${field}`)}</div>
+              <div className="text-sm text-muted-foreground">{t(`views.settings.board.${field}Desc`)}</div>
+            </div>
+            <select
+              value={workflow[field] ?? ''}
+              onChange={(e) => setWorkflow({ ...workflow, [field]: e.target.value || undefined })}
+              className={selectClass}
+            >
+              <option value="">{t('views.settings.board.automatic')}</option>
+              {ids.filter(Boolean).map(id => (
+                <option key={id} value={id}>{titleOf(id)}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {removed.length > 0 && (
+        <div className="p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/5 space-y-2">
+          <div className="flex items-center gap-2 font-medium text-yellow-500">
+            <AlertTriangle size={16} />
+            {t('views.settings.board.removedColumns', {
+              columns: removed.map(({ column, count }) => `${column.title} (${count})`).join(', '),
+            })}
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{t('views.settings.board.fallbackColumn')}</span>
+            <select
+              value={fallbackColumnId}
+              onChange={(e) => setFallbackColumnId(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">{titleOf(ids[0])}</option>
+              {ids.slice(1).filter(Boolean).map(id => (
+                <option key={id} value={id}>{titleOf(id)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <Button onClick={handleSave} disabled={saving} className="gap-1.5">
+        <Save size={14} />
+        {t('actions.save')}
+      </Button>
+    </div>
+  );
+};
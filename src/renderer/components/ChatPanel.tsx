@@ -99,7 +99,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ className }) => {
 
         setChangingProvider(true);
         try {
-            const result = await window.dexteria?.settings?.setProvider?.(providerType as 'opencode' | 'codex' | 'claude-code' | 'anthropic' | 'mock');
+            const result = await window.dexteria?.settings?.setProvider?.(providerType as 'opencode' | 'codex' | 'claude-code' | 'anthropic' | 'openai-compatible' | 'mock');
             if (result?.success) {
                 setCurrentProvider(providerType);
                 setProviderName(result.provider);
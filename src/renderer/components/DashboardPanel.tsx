@@ -28,8 +28,11 @@ import {
   FileEdit,
   GitBranch,
   Terminal,
+  Undo2,
+  Coins,
 } from 'lucide-react';
-import type { Task, ActivityEntry } from '../../shared/types';
+import type { Task, ActivityEntry, TokenUsage, Column, ColumnCategory } from '../../shared/types';
+import { addTokenUsage, getStatusCategory } from '../../shared/schemas/common';
 import { cn } from '../lib/utils';
 import { formatRelativeTime } from '../lib/timeUtils';
 
@@ -49,29 +52,60 @@ interface StatCard {
 // Helpers
 // ============================================================================
 
-function getTasksByStatus(tasks: Task[]) {
+function getTasksByStatus(tasks: Task[], columns?: Column[]) {
+  const count = (category: ColumnCategory) =>
+    tasks.filter((t) => getStatusCategory(t.status, columns) === category).length;
   return {
-    backlog: tasks.filter((t) => t.status === 'backlog').length,
-    todo: tasks.filter((t) => t.status === 'todo').length,
-    doing: tasks.filter((t) => t.status === 'doing').length,
-    review: tasks.filter((t) => t.status === 'review').length,
-    done: tasks.filter((t) => t.status === 'done').length,
+    backlog: count('backlog'),
+    todo: count('todo'),
+    doing: count('in_progress'),
+    review: count('review'),
+    done: count('done'),
   };
 }
 
-function getHighPriorityTasks(tasks: Task[]): Task[] {
+function getHighPriorityTasks(tasks: Task[], columns?: Column[]): Task[] {
   return tasks
-    .filter((t) => t.status !== 'done' && (t.priority === 'critical' || t.priority === 'high'))
+    .filter((t) => getStatusCategory(t.status, columns) !== 'done' && (t.priority === 'critical' || t.priority === 'high'))
     .slice(0, 5);
 }
 
-function getRecentlyCompleted(tasks: Task[]): Task[] {
+function getRecentlyCompleted(tasks: Task[], columns?: Column[]): Task[] {
   return tasks
-    .filter((t) => t.status === 'done' && t.completedAt)
+    .filter((t) => getStatusCategory(t.status, columns) === 'done' && t.completedAt)
     .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime())
     .slice(0, 5);
 }
 
+function getTotalUsage(tasks: Task[]): TokenUsage | undefined {
+  return tasks.reduce<TokenUsage | undefined>(
+    (total, task) => (task.runtime.usage ? addTokenUsage(total, task.runtime.usage) : total),
+    undefined
+  );
+}
+
+function getTopTasksByCost(tasks: Task[]): Task[] {
+  return tasks
+    .filter((t) => t.runtime.usage && t.runtime.usage.inputTokens + t.runtime.usage.outputTokens > 0)
+    .sort((a, b) =>
+      (b.runtime.usage!.costUsd - a.runtime.usage!.costUsd) ||
+      (b.runtime.usage!.inputTokens + b.runtime.usage!.outputTokens) -
+        (a.runtime.usage!.inputTokens + a.runtime.usage!.outputTokens)
+    )
+    .slice(0, 5);
+}
+
+function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) return '<$0.01';
+  return `$${costUsd.toFixed(2)}`;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
 function getActivityIcon(type: ActivityEntry['type']) {
   switch (type) {
     case 'task_created':
@@ -98,6 +132,8 @@ function getActivityIcon(type: ActivityEntry['type']) {
       return <Terminal size={14} className="text-gray-500" />;
     case 'file_modified':
       return <FileEdit size={14} className="text-orange-500" />;
+    case 'run_rolled_back':
+      return <Undo2 size={14} className="text-orange-500" />;
     default:
       return <Activity size={14} className="text-muted-foreground" />;
   }
@@ -117,6 +153,7 @@ function getActivityLabel(type: ActivityEntry['type'], t: (key: string) => strin
     ralph_stopped: t('views.dashboard.activity.ralphStopped'),
     command_executed: t('views.dashboard.activity.commandExecuted'),
     file_modified: t('views.dashboard.activity.fileModified'),
+    run_rolled_back: t('views.dashboard.activity.runRolledBack'),
   };
   return labels[type] || type;
 }
@@ -259,10 +296,12 @@ function TaskListItem({ task, onClick }: TaskListItemProps) {
 
 export const DashboardPanel: React.FC = () => {
   const { t } = useTranslation();
-  const { tasks, loading } = useBoard();
+  const { board, tasks, loading } = useBoard();
+  const columns = board?.columns;
   const { openView } = useLayoutStore();
   const [activities, setActivities] = useState<ActivityEntry[]>([]);
   const [activitiesLoading, setActivitiesLoading] = useState(true);
+  const [projectBudgetUsd, setProjectBudgetUsd] = useState<number | undefined>();
 
   // Load recent activity
   useEffect(() => {
@@ -279,12 +318,24 @@ export const DashboardPanel: React.FC = () => {
     loadActivity();
   }, []);
 
-  const stats = useMemo(() => getTasksByStatus(tasks), [tasks]);
+  // Load the project cost budget
+  useEffect(() => {
+    window.dexteria.policy.get()
+      .then((policy) => setProjectBudgetUsd(policy?.limits.maxProjectCostUsd))
+      .catch((error) => console.error('Failed to load policy:', error));
+  }, []);
+
+  const stats = useMemo(() => getTasksByStatus(tasks, columns), [tasks, columns]);
   const total = tasks.length;
   const completedPercent = total > 0 ? Math.round((stats.done / total) * 100) : 0;
 
-  const highPriorityTasks = useMemo(() => getHighPriorityTasks(tasks), [tasks]);
-  const recentlyCompleted = useMemo(() => getRecentlyCompleted(tasks), [tasks]);
+  const highPriorityTasks = useMemo(() => getHighPriorityTasks(tasks, columns), [tasks, columns]);
+  const recentlyCompleted = useMemo(() => getRecentlyCompleted(tasks, columns), [tasks, columns]);
+  const totalUsage = useMemo(() => getTotalUsage(tasks), [tasks]);
+  const topTasksByCost = useMemo(() => getTopTasksByCost(tasks), [tasks]);
+  const budgetPercent = totalUsage && projectBudgetUsd
+    ? Math.min(100, Math.round((totalUsage.costUsd / projectBudgetUsd) * 100))
+    : 0;
 
   const statCards: StatCard[] = [
     {
@@ -434,6 +485,86 @@ export const DashboardPanel: React.FC = () => {
           </Card>
         </div>
 
+        {/* Cost Breakdown */}
+        <Card className="p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Coins size={16} className="text-amber-500" />
+            <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+              {t('views.dashboard.costBreakdown')}
+            </h3>
+          </div>
+          {totalUsage ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <p className="text-2xl font-bold">{formatCost(totalUsage.costUsd)}</p>
+                  <p className="text-xs text-muted-foreground">{t('views.dashboard.totalCost')}</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{formatTokens(totalUsage.inputTokens)}</p>
+                  <p className="text-xs text-muted-foreground">{t('views.dashboard.inputTokens')}</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{formatTokens(totalUsage.outputTokens)}</p>
+                  <p className="text-xs text-muted-foreground">{t('views.dashboard.outputTokens')}</p>
+                </div>
+              </div>
+
+              {projectBudgetUsd && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{t('views.dashboard.projectBudget')}</span>
+                    <span>
+                      {t('views.dashboard.budgetUsed', {
+                        used: formatCost(totalUsage.costUsd),
+                        budget: formatCost(projectBudgetUsd),
+                      })}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted/30 overflow-hidden">
+                    <div
+                      className={cn(
+                        'h-full transition-all duration-300',
+                        budgetPercent >= 100 ? 'bg-red-500' : budgetPercent >= 80 ? 'bg-yellow-500' : 'bg-green-500'
+                      )}
+                      style={{ width: `${budgetPercent}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <p className="text-xs text-muted-foreground mb-2">{t('views.dashboard.topTasksByCost')}</p>
+                <div className="space-y-1">
+                  {topTasksByCost.map((task) => (
+                    <button
+                      key={task.id}
+                      onClick={() => handleTaskClick(task)}
+                      className="w-full text-left px-3 py-2 rounded-lg hover:bg-muted/30 transition-colors flex items-center gap-3 text-sm"
+                    >
+                      <span className="flex-1 min-w-0 truncate">{task.title}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatTokens(task.runtime.usage!.inputTokens + task.runtime.usage!.outputTokens)}
+                      </span>
+                      <span className="text-xs font-medium w-16 text-right">
+                        {formatCost(task.runtime.usage!.costUsd)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {totalUsage.estimated && (
+                <p className="text-xs text-muted-foreground">{t('views.dashboard.usageEstimated')}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {t('views.dashboard.noUsage')}
+            </p>
+          )}
+        </Card>
+
         {/* Activity Feed */}
         <Card className="p-6">
           <div className="flex items-center gap-2 mb-4">
@@ -0,0 +1,407 @@
+/**
+ * DependencyGraphPanel
+ *
+ * Task dependency graph: tasks laid out left to right by dependency depth,
+ * colored by status and epic, with the critical path highlighted.
+ * Drag from a task's handle onto another task to make the second depend on
+ * the first; click a link to remove it.
+ */
+
+import { useState, useMemo, useRef, useEffect } from 'react';
+import { useTranslation } from '../i18n/useTranslation';
+import { useBoard } from '../hooks/useData';
+import { useLayoutStore } from '../docking';
+import { useToast } from '../contexts/ToastContext';
+import { Badge } from 'adnia-ui';
+import { Network, Route, EyeOff } from 'lucide-react';
+import { cn } from '../lib/utils';
+import {
+  findDependencyCycle,
+  getCriticalPath,
+  getStatusCategory,
+  getTaskDependencies,
+  type WorkflowColumn,
+} from '../../shared/schemas/common';
+import type { ColumnCategory, Task } from '../../shared/types';
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 90;
+const ROW_GAP = 18;
+const PADDING = 24;
+
+const STATUS_COLORS: Record<ColumnCategory, string> = {
+  backlog: '#6b7280',
+  todo: '#8b5cf6',
+  in_progress: '#3b82f6',
+  review: '#eab308',
+  done: '#22c55e',
+};
+
+const STATUS_ORDER: Record<ColumnCategory, number> = {
+  in_progress: 0,
+  review: 1,
+  todo: 2,
+  backlog: 3,
+  done: 4,
+};
+
+interface GraphNode {
+  task: Task;
+  x: number;
+  y: number;
+}
+
+interface GraphEdge {
+  /** The prerequisite */
+  from: string;
+  /** The task that depends on it */
+  to: string;
+  critical: boolean;
+}
+
+interface GraphLayout {
+  nodes: Map<string, GraphNode>;
+  edges: GraphEdge[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Place each task in the column after its deepest dependency.
+ */
+function layoutGraph(tasks: Task[], criticalPath: string[], boardColumns?: WorkflowColumn[]): GraphLayout {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const depth = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const getDepth = (id: string): number => {
+    const known = depth.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+
+    let value = 0;
+    for (const depId of getTaskDependencies(byId.get(id)!)) {
+      if (byId.has(depId)) value = Math.max(value, getDepth(depId) + 1);
+    }
+
+    visiting.delete(id);
+    depth.set(id, value);
+    return value;
+  };
+
+  const columns: Task[][] = [];
+  for (const task of tasks) {
+    const column = getDepth(task.id);
+    (columns[column] ||= []).push(task);
+  }
+
+  const nodes = new Map<string, GraphNode>();
+  const rank = (task: Task) => STATUS_ORDER[getStatusCategory(task.status, boardColumns)];
+  let height = 0;
+  columns.forEach((column, columnIndex) => {
+    column
+      .sort((a, b) => rank(a) - rank(b) || a.order - b.order)
+      .forEach((task, rowIndex) => {
+        const y = PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP);
+        nodes.set(task.id, { task, x: PADDING + columnIndex * (NODE_WIDTH + COLUMN_GAP), y });
+        height = Math.max(height, y + NODE_HEIGHT + PADDING);
+      });
+  });
+
+  const criticalEdges = new Set(criticalPath.slice(1).map((id, i) => `${criticalPath[i]}->${id}`));
+  const edges: GraphEdge[] = [];
+  for (const task of tasks) {
+    for (const depId of getTaskDependencies(task)) {
+      if (!byId.has(depId)) continue;
+      edges.push({ from: depId, to: task.id, critical: criticalEdges.has(`${depId}->${task.id}`) });
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    width: PADDING * 2 + Math.max(columns.length, 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: Math.max(height, PADDING * 2 + NODE_HEIGHT),
+  };
+}
+
+function edgePath(x1: number, y1: number, x2: number, y2: number): string {
+  const bend = Math.max(Math.abs(x2 - x1) / 2, 30);
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+interface LinkDrag {
+  fromId: string;
+  x: number;
+  y: number;
+}
+
+export function DependencyGraphPanel() {
+  const { t } = useTranslation();
+  const { board, tasks, loading, error, refresh } = useBoard();
+  const boardColumns = board?.columns;
+  const categoryOf = (task: Task) => getStatusCategory(task.status, boardColumns);
+  const openView = useLayoutStore((s) => s.openView);
+  const { error: showError } = useToast();
+  const canvasRef = useRef<HTMLDivElement>(null);
+  // Set when a link drag ends on a task, so the click that follows does not open it
+  const suppressClickRef = useRef(false);
+  const [hideUnlinked, setHideUnlinked] = useState(false);
+  const [linkDrag, setLinkDrag] = useState<LinkDrag | null>(null);
+
+  const criticalPath = useMemo(() => getCriticalPath(tasks, boardColumns), [tasks, boardColumns]);
+
+  const visibleTasks = useMemo(() => {
+    if (!hideUnlinked) return tasks;
+    const linked = new Set<string>();
+    for (const task of tasks) {
+      const deps = getTaskDependencies(task);
+      if (deps.length > 0) linked.add(task.id);
+      deps.forEach((id) => linked.add(id));
+    }
+    return tasks.filter((task) => linked.has(task.id));
+  }, [tasks, hideUnlinked]);
+
+  const layout = useMemo(
+    () => layoutGraph(visibleTasks, criticalPath, boardColumns),
+    [visibleTasks, criticalPath, boardColumns]
+  );
+  const criticalIds = useMemo(() => new Set(criticalPath), [criticalPath]);
+
+  // Cancel a link drag released outside any task
+  useEffect(() => {
+    if (!linkDrag) return;
+    const cancel = () => setLinkDrag(null);
+    window.addEventListener('mouseup', cancel);
+    return () => window.removeEventListener('mouseup', cancel);
+  }, [linkDrag]);
+
+  const toCanvasPoint = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const updateDependencies = async (task: Task, dependsOn: string[]) => {
+    const patch: Parameters<typeof window.dexteria.tasks.update>[1] = { dependsOn };
+    // Links that came from the agent plan are edited there too
+    if (task.agent.dependencies) {
+      patch.agent = { dependencies: task.agent.dependencies.filter((id) => dependsOn.includes(id)) };
+    }
+    await window.dexteria.tasks.update(task.id, patch);
+    await refresh();
+  };
+
+  const handleLink = async (fromId: string, toId: string) => {
+    const target = tasks.find((task) => task.id === toId);
+    if (!target || fromId === toId) return;
+
+    const current = getTaskDependencies(target);
+    if (current.includes(fromId)) return;
+
+    const cycle = findDependencyCycle(tasks, toId, [...current, fromId]);
+    if (cycle) {
+      showError(t('views.dependencyGraph.cycleError', { cycle: cycle.join(' → ') }));
+      return;
+    }
+
+    try {
+      await updateDependencies(target, [...current, fromId]);
+    } catch (err) {
+      console.error('Failed to link tasks:', err);
+      showError(t('toasts.taskDependencyFailed'));
+    }
+  };
+
+  const handleUnlink = async (edge: GraphEdge) => {
+    const target = tasks.find((task) => task.id === edge.to);
+    if (!target) return;
+    if (!confirm(t('views.dependencyGraph.unlinkConfirm', { from: edge.from, to: edge.to }))) return;
+
+    try {
+      await updateDependencies(target, getTaskDependencies(target).filter((id) => id !== edge.from));
+    } catch (err) {
+      console.error('Failed to unlink tasks:', err);
+      showError(t('toasts.taskDependencyFailed'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-muted-foreground">{t('common.loading')}</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full text-destructive">
+        {error.message}
+      </div>
+    );
+  }
+
+  const dragFrom = linkDrag ? layout.nodes.get(linkDrag.fromId) : undefined;
+
+  return (
+    <div className="flex flex-col h-full bg-background">
+      {/* Header */}
+      <div className="p-4 border-b border-border/50 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Network size={20} className="text-primary" />
+          <h2 className="text-lg font-semibold">{t('views.dependencyGraph.title')}</h2>
+          <Badge variant="outline" className="text-xs">
+            {t('views.dependencyGraph.linkCount', { count: layout.edges.length })}
+          </Badge>
+          {criticalPath.length > 1 && (
+            <Badge variant="secondary" className="text-xs flex items-center gap-1">
+              <Route size={12} />
+              {t('views.dependencyGraph.criticalPath', { count: criticalPath.length })}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-xs text-muted-foreground">{t('views.dependencyGraph.hint')}</span>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={hideUnlinked}
+              onChange={(e) => setHideUnlinked(e.target.checked)}
+            />
+            <EyeOff size={14} />
+            {t('views.dependencyGraph.hideUnlinked')}
+          </label>
+        </div>
+      </div>
+
+      {/* Graph */}
+      <div className="flex-1 overflow-auto">
+        {visibleTasks.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-muted-foreground">
+            <Network size={48} className="mb-4 opacity-50" />
+            <p className="text-lg font-medium">{t('views.dependencyGraph.emptyTitle')}</p>
+            <p className="text-sm">{t('views.dependencyGraph.emptySubtitle')}</p>
+          </div>
+        ) : (
+          <div
+            ref={canvasRef}
+            className={cn('relative', linkDrag && 'cursor-crosshair select-none')}
+            style={{ width: layout.width, height: layout.height }}
+            onMouseMove={(e) => linkDrag && setLinkDrag({ ...linkDrag, ...toCanvasPoint(e) })}
+          >
+            <svg className="absolute inset-0" width={layout.width} height={layout.height}>
+              <defs>
+                <marker id="dep-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" className="text-muted-foreground" />
+                </marker>
+                <marker id="dep-arrow-critical" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#f97316" />
+                </marker>
+              </defs>
+              {layout.edges.map((edge) => {
+                const from = layout.nodes.get(edge.from)!;
+                const to = layout.nodes.get(edge.to)!;
+                const d = edgePath(from.x + NODE_WIDTH, from.y + NODE_HEIGHT / 2, to.x, to.y + NODE_HEIGHT / 2);
+                return (
+                  <g key={`${edge.from}->${edge.to}`} className="cursor-pointer" onClick={() => handleUnlink(edge)}>
+                    <title>{t('views.dependencyGraph.unlinkHint', { from: edge.from, to: edge.to })}</title>
+                    {/* Wide transparent stroke makes the link easy to click */}
+                    <path d={d} fill="none" stroke="transparent" strokeWidth={12} />
+                    <path
+                      d={d}
+                      fill="none"
+                      stroke={edge.critical ? '#f97316' : 'currentColor'}
+                      strokeWidth={edge.critical ? 2.5 : 1.5}
+                      className={edge.critical ? undefined : 'text-muted-foreground/60 hover:text-destructive'}
+                      markerEnd={edge.critical ? 'url(#dep-arrow-critical)' : 'url(#dep-arrow)'}
+                    />
+                  </g>
+                );
+              })}
+              {linkDrag && dragFrom && (
+                <path
+                  d={edgePath(dragFrom.x + NODE_WIDTH, dragFrom.y + NODE_HEIGHT / 2, linkDrag.x, linkDrag.y)}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeDasharray="4 4"
+                  strokeWidth={1.5}
+                  className="text-primary"
+                />
+              )}
+            </svg>
+
+            {[...layout.nodes.values()].map(({ task, x, y }) => (
+              <div
+                key={task.id}
+                className={cn(
+                  'absolute rounded-md border bg-card shadow-sm px-3 py-1.5 text-left cursor-pointer',
+                  'hover:border-primary/60 transition-colors',
+                  criticalIds.has(task.id) ? 'border-orange-500 ring-1 ring-orange-500/40' : 'border-border',
+                  linkDrag && linkDrag.fromId !== task.id && 'hover:ring-2 hover:ring-primary'
+                )}
+                style={{
+                  left: x,
+                  top: y,
+                  width: NODE_WIDTH,
+                  height: NODE_HEIGHT,
+                  borderLeft: `4px solid ${task.epic?.color || STATUS_COLORS[categoryOf(task)]}`,
+                }}
+                title={task.epic ? `${task.title} · ${task.epic.name}` : task.title}
+                onClick={() => {
+                  if (suppressClickRef.current) {
+                    suppressClickRef.current = false;
+                    return;
+                  }
+                  openView('taskDetail', { taskId: task.id, taskTitle: task.title });
+                }}
+                onMouseUp={(e) => {
+                  if (!linkDrag) return;
+                  e.stopPropagation();
+                  suppressClickRef.current = linkDrag.fromId === task.id;
+                  setLinkDrag(null);
+                  handleLink(linkDrag.fromId, task.id);
+                }}
+              >
+                <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <span
+                    className="inline-block w-2 h-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: STATUS_COLORS[categoryOf(task)] }}
+                  />
+                  <span className="font-mono">{task.id}</span>
+                  <span className="truncate">
+                    {boardColumns?.find((column) => column.id === task.status)?.title ?? task.status}
+                  </span>
+                </div>
+                <div className={cn('text-sm truncate', categoryOf(task) === 'done' && 'line-through text-muted-foreground')}>
+                  {task.title}
+                </div>
+
+                {/* Link handle */}
+                <div
+                  className="absolute -right-1.5 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-primary bg-background cursor-crosshair hover:scale-125 transition-transform"
+                  title={t('views.dependencyGraph.linkHandle')}
+                  onClick={(e) => e.stopPropagation()}
+                  onMouseDown={(e) => {
+                    e.stopPropagation();
+                    e.preventDefault();
+                    setLinkDrag({ fromId: task.id, ...toCanvasPoint(e) });
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,15 @@
 
 import React, { useState, useEffect } from 'react';
 import { useGitInstalled, useGitConfig, useGitStatus } from '../../hooks/useGit';
-import type { GitConfig, GitMode, CodeVisibilityMode, ConflictResolutionMode } from '../../../shared/types';
+import type {
+  GitConfig,
+  GitMode,
+  CodeVisibilityMode,
+  ConflictResolutionMode,
+  ForgeTokenStatus,
+  ForgeType,
+  PullRequestConfig,
+} from '../../../shared/types';
 import { useTranslation } from 'react-i18next';
 
 interface GitSettingsPanelProps {
@@ -39,6 +47,9 @@ export const GitSettingsPanel: React.FC<GitSettingsPanelProps> = ({
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  // Forge tokens are saved app-wide per API host, not in the project
+  const [forgeTokenStatus, setForgeTokenStatus] = useState<ForgeTokenStatus | null>(null);
+  const [forgeToken, setForgeToken] = useState('');
 
   // Update form when config loads
   useEffect(() => {
@@ -65,12 +76,34 @@ export const GitSettingsPanel: React.FC<GitSettingsPanelProps> = ({
     }
   };
 
+  const pullRequests: PullRequestConfig = formData.pullRequests ?? { enabled: false, forge: 'github' };
+
+  // The token depends on the API host, which follows the forge and API URL being edited
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      window.dexteria.settings.getForgeTokenStatus(pullRequests)
+        .then(setForgeTokenStatus)
+        .catch(() => setForgeTokenStatus(null));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [pullRequests.forge, pullRequests.apiUrl]);
+
+  const handlePullRequestChange = (patch: Partial<PullRequestConfig>) => {
+    handleChange('pullRequests', { ...pullRequests, ...patch });
+  };
+
   const handleSave = async () => {
     if (!onSave) return;
 
     try {
       setSaving(true);
       setError(null);
+      if (forgeToken.trim()) {
+        const result = await window.dexteria.settings.setForgeToken(pullRequests, forgeToken);
+        if (!result.success) throw new Error(result.error);
+        setForgeToken('');
+        setForgeTokenStatus(await window.dexteria.settings.getForgeTokenStatus(pullRequests));
+      }
       await onSave(formData);
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
@@ -230,6 +263,113 @@ export const GitSettingsPanel: React.FC<GitSettingsPanelProps> = ({
               </p>
             </div>
 
+            {/* Pull Requests */}
+            {formData.gitMode !== 'none' && (
+              <>
+                <hr className="border-gray-700" />
+
+                <div className="space-y-4">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={pullRequests.enabled}
+                      onChange={(e) => handlePullRequestChange({ enabled: e.target.checked })}
+                      className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                    />
+                    <span className="text-white">{t('git.pullRequests.enable')}</span>
+                  </label>
+                  <p className="text-xs text-gray-500 -mt-2">
+                    {t('git.pullRequests.enableDesc')}
+                  </p>
+
+                  {pullRequests.enabled && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {t('git.pullRequests.forge')}
+                        </label>
+                        <select
+                          value={pullRequests.forge}
+                          onChange={(e) => handlePullRequestChange({ forge: e.target.value as ForgeType })}
+                          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="github">GitHub</option>
+                          <option value="gitlab">GitLab</option>
+                          <option value="gitea">Gitea / Forgejo</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {t('git.pullRequests.repository')}
+                        </label>
+                        <input
+                          type="text"
+                          value={pullRequests.repository || ''}
+                          onChange={(e) => handlePullRequestChange({ repository: e.target.value || undefined })}
+                          placeholder="owner/repo"
+                          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {t('git.pullRequests.repositoryDesc')}
+                        </p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {t('git.pullRequests.apiUrl')}
+                        </label>
+                        <input
+                          type="text"
+                          value={pullRequests.apiUrl || ''}
+                          onChange={(e) => handlePullRequestChange({ apiUrl: e.target.value || undefined })}
+                          placeholder="https://git.example.com/api/v1"
+                          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {t('git.pullRequests.apiUrlDesc')}
+                        </p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {t('git.pullRequests.token')}
+                        </label>
+                        <input
+                          type="password"
+                          value={forgeToken}
+                          onChange={(e) => setForgeToken(e.target.value)}
+                          placeholder={forgeTokenStatus?.available ? '••••••••' : ''}
+                          autoComplete="off"
+                          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {!forgeTokenStatus?.host
+                            ? t('git.pullRequests.tokenNoHost')
+                            : forgeTokenStatus.available
+                              ? t('git.pullRequests.tokenSet', { host: forgeTokenStatus.host })
+                              : t('git.pullRequests.tokenMissing', {
+                                  host: forgeTokenStatus.host,
+                                  variable: `${pullRequests.forge.toUpperCase()}_TOKEN`,
+                                })}
+                        </p>
+                      </div>
+
+                      <label className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={pullRequests.draft ?? false}
+                          onChange={(e) => handlePullRequestChange({ draft: e.target.checked })}
+                          className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-gray-300">{t('git.pullRequests.draft')}</span>
+                      </label>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+
             {/* Advanced Options */}
             {formData.gitMode === 'advanced' && (
               <>
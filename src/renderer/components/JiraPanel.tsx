@@ -125,6 +125,9 @@ export const JiraPanel: React.FC = () => {
   const [syncHistory, setSyncHistory] = useState<SyncHistoryEntry[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
 
+  // Board columns for the status mapping
+  const [columns, setColumns] = useState<Array<{ id: string; title: string }>>([]);
+
   // Call plugin API
   const callApi = useCallback(async (method: string, ...args: unknown[]) => {
     return window.dexteria?.plugin?.callApi?.(PLUGIN_ID, method, ...args);
@@ -188,6 +191,9 @@ export const JiraPanel: React.FC = () => {
       if (cfg) {
         setConfig(cfg as JiraConfig);
       }
+
+      const board = await window.dexteria.board.get();
+      setColumns(board?.columns ?? []);
     } catch (err) {
       console.error('Failed to load Jira data:', err);
       setError(err instanceof Error ? err.message : 'Failed to load Jira data');
@@ -790,11 +796,14 @@ export const JiraPanel: React.FC = () => {
                             }}
                             className="bg-muted border border-border rounded px-2 py-1 text-sm"
                           >
-                            <option value="backlog">{t('views.kanban.backlog')}</option>
-                            <option value="todo">{t('views.kanban.todo')}</option>
-                            <option value="doing">{t('views.jira.doing')}</option>
-                            <option value="review">{t('views.kanban.review')}</option>
-                            <option value="done">{t('views.kanban.done')}</option>
+                            {columns.map((column) => (
+                              <option key={column.id} value={column.id}>{column.title}</option>
+                            ))}
+                            {!columns.some((column) => column.id === mapping.dexteriaColumn) && (
+                              <option value={mapping.dexteriaColumn}>
+                                {t('views.jira.missingColumn', { column: mapping.dexteriaColumn })}
+                              </option>
+                            )}
                           </select>
                         </div>
                       ))}
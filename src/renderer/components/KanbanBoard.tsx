@@ -13,22 +13,50 @@ import {
 import { useDroppable } from '@dnd-kit/core';
 import { useBoard } from '../hooks/useData';
 import { useTemplates } from '../hooks/useTemplates';
+import { usePullRequestRefresh } from '../hooks/useGit';
 import { useConfirm } from '../contexts/ConfirmContext';
 import { useToast } from '../contexts/ToastContext';
 import { TaskCard } from './TaskCard';
 import { BoardSkeleton } from './LoadingSpinner';
 import { ErrorDisplay } from './ErrorDisplay';
+import { TaskImportDialog } from './TaskImportDialog';
 import { Button, IconButton, Input } from 'adnia-ui';
-import type { Task, Column as ColumnType, TaskStatus } from '../../shared/types';
-import { Plus, LayoutGrid, MessageSquare, Search, X, Filter, Tag, FileText, CheckSquare, Trash2, Move } from 'lucide-react';
+import type { Task, Column as ColumnType, TaskStatus, MoveViolation, SwimlaneGroupBy, TaskFileFormat, TaskImportFile, TaskImportResult } from '../../shared/types';
+import { getColumnCategory, getMoveViolation } from '../../shared/schemas/common';
+import { parseTaskQuery, matchesTaskQuery, groupTasks, type TaskQuery, type Swimlane } from '../../shared/taskQuery';
+import { Plus, LayoutGrid, MessageSquare, Search, X, Filter, Tag, FileText, CheckSquare, Trash2, Move, Bookmark, BookmarkPlus, Rows3, Upload, Download } from 'lucide-react';
 import { t } from '../i18n/t';
 import { cn } from '../lib/utils';
 
+/**
+ * Toast message for a move the board's rules reject.
+ */
+function describeMoveViolation(violation: MoveViolation, columns: ColumnType[]): string {
+    const title = (id: string) => columns.find(c => c.id === id)?.title ?? id;
+    return violation.rule === 'wipLimit'
+        ? t('toasts.wipLimitReached', { column: title(violation.column), limit: violation.limit })
+        : t('toasts.transitionNotAllowed', { from: title(violation.from), to: title(violation.to) });
+}
+
+/**
+ * Title of a swimlane header.
+ */
+function describeLane(lane: Swimlane, groupBy: SwimlaneGroupBy): string {
+    if (groupBy === 'priority') {
+        return t(`views.kanban.priority${lane.key.charAt(0).toUpperCase()}${lane.key.slice(1)}`);
+    }
+    if (!lane.key) {
+        return groupBy === 'epic' ? t('views.kanban.lanes.noEpic') : t('views.kanban.lanes.noSprint');
+    }
+    return lane.key;
+}
+
 // --- Column Component ---
 interface ColumnProps {
     column: ColumnType;
     tasks: Task[];
     allTasks: Task[];  // All tasks for dependency checking
+    boardColumns: ColumnType[];  // All columns for done and title lookups
     onTaskClick: (task: Task) => void;
     onTaskDelete: (task: Task) => void;
     onTaskStop: (task: Task) => void;
@@ -50,12 +78,15 @@ interface ColumnProps {
     isSelectionMode?: boolean;
     selectedTaskIds?: Set<string>;
     onSelectionChange?: (task: Task, selected: boolean) => void;
+    // Swimlane the column belongs to, if the board is grouped
+    laneKey?: string;
 }
 
 const Column: React.FC<ColumnProps> = ({
     column,
     tasks,
     allTasks,
+    boardColumns,
     onTaskClick,
     onTaskDelete,
     onTaskStop,
@@ -76,17 +107,20 @@ const Column: React.FC<ColumnProps> = ({
     isSelectionMode,
     selectedTaskIds,
     onSelectionChange,
+    laneKey,
 }) => {
     const { setNodeRef, isOver } = useDroppable({
-        id: column.id,
+        id: laneKey === undefined ? column.id : `${laneKey}::${column.id}`,
         data: { type: 'Column', column }
     });
 
     const isCreatingInThisColumn = isCreating && creatingColumnId === column.id;
     const showDropIndicator = (isDraggingOver || isOver) && draggedTask && draggedTask.status !== column.id;
+    const columnCount = allTasks.filter(t => t.status === column.id).length;
+    const atWipLimit = column.wipLimit !== undefined && columnCount >= column.wipLimit;
 
     return (
-        <div className={`flex flex-col h-full min-w-[280px] w-[280px] rounded-xl bg-muted/10 border overflow-hidden animate-fade-in-up animate-fill-both transition-all duration-200 ${showDropIndicator ? 'border-primary/50 bg-primary/5' : 'border-white/5'}`}>
+        <div className={`flex flex-col ${laneKey === undefined ? 'h-full' : 'max-h-[480px]'} min-w-[280px] w-[280px] rounded-xl bg-muted/10 border overflow-hidden animate-fade-in-up animate-fill-both transition-all duration-200 ${showDropIndicator ? 'border-primary/50 bg-primary/5' : 'border-white/5'}`}>
             {/* Column Header */}
             <div className="p-3 border-b border-white/5 bg-background/20 backdrop-blur-md flex items-center justify-between">
                 <div className="flex items-center gap-2">
@@ -96,6 +130,17 @@ const Column: React.FC<ColumnProps> = ({
                     <span className="flex items-center justify-center min-w-[20px] h-5 px-1.5 rounded-full bg-muted/30 text-[10px] text-muted-foreground">
                         {tasks.length}
                     </span>
+                    {column.wipLimit !== undefined && (
+                        <span
+                            className={cn(
+                                "flex items-center justify-center h-5 px-1.5 rounded-full text-[10px] font-medium",
+                                atWipLimit ? "bg-red-500/15 text-red-400" : "bg-muted/30 text-muted-foreground"
+                            )}
+                            title={t('tooltips.wipLimit', { limit: column.wipLimit })}
+                        >
+                            {columnCount}/{column.wipLimit}
+                        </span>
+                    )}
                 </div>
                 {/* Add button */}
                 <IconButton
@@ -113,7 +158,10 @@ const Column: React.FC<ColumnProps> = ({
             {/* Tasks Area */}
             <div
                 ref={setNodeRef}
-                className="flex-1 p-2 overflow-y-auto overflow-x-hidden space-y-2 scrollbar-thin"
+                className={cn(
+                    "flex-1 p-2 overflow-y-auto overflow-x-hidden space-y-2 scrollbar-thin",
+                    laneKey !== undefined && "min-h-[80px]"
+                )}
             >
                 {/* New Task Input Form */}
                 {isCreatingInThisColumn && (
@@ -189,6 +237,7 @@ const Column: React.FC<ColumnProps> = ({
                         key={task.id}
                         task={task}
                         allTasks={allTasks}
+                        columns={boardColumns}
                         onClick={onTaskClick}
                         onDelete={onTaskDelete}
                         onStop={onTaskStop}
@@ -226,23 +275,32 @@ interface KanbanBoardProps {
 export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTaskId }) => {
     const { board, tasks, loading, error, moveTask, createTask, deleteTask, refresh, clearError } = useBoard();
     const { templates } = useTemplates();
+    usePullRequestRefresh();
     const { confirm } = useConfirm();
-    const { success, info, error: showError } = useToast();
+    const { success, info, warning, error: showError } = useToast();
     const [activeDragTask, setActiveDragTask] = useState<Task | null>(null);
     const [isCreating, setIsCreating] = useState(false);
     const [creatingColumnId, setCreatingColumnId] = useState<string | null>(null);
     const [newTaskTitle, setNewTaskTitle] = useState('');
     const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
 
-    // Search and filter state
+    // Search and filter state; the search box takes a task query
     const [searchQuery, setSearchQuery] = useState('');
     const [priorityFilter, setPriorityFilter] = useState<string>('all');
     const [tagFilter, setTagFilter] = useState<string>('all');
+    const [groupBy, setGroupBy] = useState<SwimlaneGroupBy>('none');
+    const [activeFilterId, setActiveFilterId] = useState('');
+    const [savingFilterName, setSavingFilterName] = useState<string | null>(null);
+    // Lane of the column a task is being created in, when grouped
+    const [creatingLaneKey, setCreatingLaneKey] = useState<string | null>(null);
 
     // Bulk selection state
     const [isSelectionMode, setIsSelectionMode] = useState(false);
     const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
 
+    // CSV / Markdown import
+    const [importFile, setImportFile] = useState<TaskImportFile | null>(null);
+
     const handleSelectionChange = (task: Task, selected: boolean) => {
         setSelectedTaskIds(prev => {
             const next = new Set(prev);
@@ -292,17 +350,30 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
     const handleBulkMove = async (targetStatus: TaskStatus) => {
         if (selectedTaskIds.size === 0) return;
 
+        // Moves run one by one, so later ones see the earlier ones' WIP counts
+        let moved = 0;
         for (const taskId of selectedTaskIds) {
-            await moveTask(taskId, targetStatus);
+            try {
+                await moveTask(taskId, targetStatus);
+                moved++;
+            } catch {
+                // Counted below
+            }
+        }
+        if (moved > 0) {
+            success(t('toasts.tasksMoved', { count: moved }));
+        }
+        if (moved < selectedTaskIds.size) {
+            warning(t('toasts.tasksNotMoved', { count: selectedTaskIds.size - moved }));
         }
-        success(t('toasts.tasksMoved', { count: selectedTaskIds.size }));
         handleExitSelectionMode();
         refresh();
     };
 
-    const handleCreateTask = (columnId: string) => {
+    const handleCreateTask = (columnId: string, laneKey?: string) => {
         setIsCreating(true);
         setCreatingColumnId(columnId);
+        setCreatingLaneKey(laneKey ?? null);
         setNewTaskTitle('');
         setSelectedTemplateId('');
     };
@@ -310,6 +381,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
     const handleCancelCreate = () => {
         setIsCreating(false);
         setCreatingColumnId(null);
+        setCreatingLaneKey(null);
         setNewTaskTitle('');
         setSelectedTemplateId('');
     };
@@ -319,12 +391,19 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
 
         try {
             const task = await createTask(newTaskTitle.trim(), creatingColumnId);
+            const patch: Record<string, unknown> = {};
+
+            // A task created in a swimlane joins its epic, sprint or priority
+            if (task && creatingLaneKey) {
+                if (groupBy === 'priority') patch.priority = creatingLaneKey;
+                if (groupBy === 'sprint') patch.sprint = creatingLaneKey;
+                if (groupBy === 'epic') patch.epic = tasks.find(t => t.epic?.name === creatingLaneKey)?.epic;
+            }
 
             // If a template was selected, apply its fields to the new task
             if (selectedTemplateId && task) {
                 const template = templates.find(t => t.id === selectedTemplateId);
                 if (template) {
-                    const patch: Record<string, unknown> = {};
                     if (template.descriptionTemplate) patch.description = template.descriptionTemplate;
                     if (template.priority) patch.priority = template.priority;
                     if (template.acceptanceCriteria?.length) patch.acceptanceCriteria = template.acceptanceCriteria;
@@ -333,14 +412,15 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                     if (template.humanOnly !== undefined) patch.humanOnly = template.humanOnly;
                     if (template.aiReviewable !== undefined) patch.aiReviewable = template.aiReviewable;
                     if (template.reviewCriteria) patch.reviewCriteria = template.reviewCriteria;
-
-                    if (Object.keys(patch).length > 0) {
-                        await window.dexteria.tasks.update(task.id, patch);
-                        await refresh();
-                    }
+                    if (template.policyProfileId) patch.agent = { ...task.agent, policyProfileId: template.policyProfileId };
                 }
             }
 
+            if (task && Object.keys(patch).length > 0) {
+                await window.dexteria.tasks.update(task.id, patch);
+                await refresh();
+            }
+
             // Show success toast
             success(t('toasts.taskCreated'));
             handleCancelCreate();
@@ -411,6 +491,25 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
         }
     };
 
+    const moveWithRules = async (task: Task, columnId: TaskStatus) => {
+        if (!board) return;
+
+        // Check the column rules before asking the store, which enforces them too
+        const violation = getMoveViolation(board, task.status, columnId);
+        if (violation) {
+            warning(describeMoveViolation(violation, board.columns));
+            return;
+        }
+
+        try {
+            await moveTask(task.id, columnId);
+            success(t('toasts.taskMoved'));
+        } catch (err) {
+            console.error('Failed to move task:', err);
+            showError(t('toasts.taskMoveFailed'));
+        }
+    };
+
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
         setActiveDragTask(null);
@@ -422,20 +521,18 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
 
         if (!task) return;
 
-        // Dropped on a Column
+        // Dropped on a Column (droppable IDs carry the lane when grouped)
         if (over.data.current?.type === 'Column') {
-            const columnId = over.id as TaskStatus;
+            const columnId = (over.data.current.column as ColumnType).id as TaskStatus;
             if (task.status !== columnId) {
-                moveTask(taskId, columnId);
-                success(t('toasts.taskMoved'));
+                moveWithRules(task, columnId);
             }
         }
         // Dropped on another Task (reorder) - Simplified for now, just takes status of target
         else if (over.data.current?.type === 'Task') {
             const overTask = over.data.current.task as Task;
             if (task.status !== overTask.status) {
-                moveTask(taskId, overTask.status);
-                success(t('toasts.taskMoved'));
+                moveWithRules(task, overTask.status);
             }
             // Reordering within same column not implemented in store yet (just status update)
         }
@@ -491,16 +588,22 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
     // Collect all unique tags from tasks for the filter dropdown
     const allTags = Array.from(new Set(tasks.flatMap(t => t.tags || []))).sort();
 
+    // An invalid query is flagged on the search box and filters nothing
+    let parsedQuery: TaskQuery | null = null;
+    let queryError: string | null = null;
+    try {
+        parsedQuery = parseTaskQuery(searchQuery);
+    } catch (err) {
+        queryError = err instanceof Error ? err.message : String(err);
+    }
+
+    const savedFilters = board.savedFilters ?? [];
+    const activeFilter = savedFilters.find(f => f.id === activeFilterId && f.query === searchQuery);
+
     // Apply search and filter to tasks
     const filteredTasks = tasks.filter(task => {
-        // Search filter (title, id, or tags)
-        if (searchQuery.trim()) {
-            const query = searchQuery.toLowerCase();
-            const matchesTitle = task.title.toLowerCase().includes(query);
-            const matchesId = task.id.toLowerCase().includes(query);
-            const matchesTags = task.tags?.some(tag => tag.toLowerCase().includes(query));
-            if (!matchesTitle && !matchesId && !matchesTags) return false;
-        }
+        // Query filter (text, fields and saved filters)
+        if (!matchesTaskQuery(task, parsedQuery, { tasks, columns })) return false;
         // Priority filter
         if (priorityFilter !== 'all' && task.priority !== priorityFilter) return false;
         // Tag filter
@@ -513,8 +616,135 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
         setSearchQuery('');
         setPriorityFilter('all');
         setTagFilter('all');
+        setActiveFilterId('');
     };
 
+    const lanes = groupTasks(filteredTasks, groupBy);
+
+    const handleSelectFilter = (filterId: string) => {
+        const filter = savedFilters.find(f => f.id === filterId);
+        setActiveFilterId(filterId);
+        if (filter) {
+            setSearchQuery(filter.query);
+            setGroupBy(filter.groupBy ?? 'none');
+        }
+    };
+
+    const handleSaveFilter = async () => {
+        const name = savingFilterName?.trim();
+        if (!name) return;
+        try {
+            const filter = await window.dexteria.board.saveFilter({ name, query: searchQuery, groupBy });
+            setActiveFilterId(filter.id);
+            setSavingFilterName(null);
+            await refresh();
+            success(t('toasts.filterSaved', { name }));
+        } catch (err) {
+            console.error('Failed to save filter:', err);
+            showError(t('toasts.filterSaveFailed'));
+        }
+    };
+
+    const handleDeleteFilter = async () => {
+        if (!activeFilter) return;
+        try {
+            await window.dexteria.board.deleteFilter(activeFilter.id);
+            setActiveFilterId('');
+            await refresh();
+        } catch (err) {
+            console.error('Failed to delete filter:', err);
+            showError(t('toasts.filterDeleteFailed'));
+        }
+    };
+
+    const handleSelectImportFile = async () => {
+        const result = await window.dexteria.tasks.selectImportFile();
+        if (result.success && result.file) {
+            setImportFile(result.file);
+        } else if (result.error !== 'Cancelled') {
+            showError(result.error || t('toasts.tasksImportFailed'));
+        }
+    };
+
+    const handleImported = async (result: TaskImportResult) => {
+        setImportFile(null);
+        await refresh();
+        success(t('toasts.tasksImported', { count: result.created.length }));
+        if (result.cancelled > 0) {
+            info(t('toasts.tasksImportCancelled', { count: result.cancelled }));
+        }
+        if (result.failed.length > 0) {
+            console.error('Failed to import tasks:', result.failed);
+            warning(t('toasts.tasksImportPartlyFailed', { count: result.failed.length }));
+        }
+    };
+
+    // Exports the filtered tasks when a filter is active, otherwise the whole board
+    const handleExport = async (format: TaskFileFormat) => {
+        try {
+            const result = await window.dexteria.tasks.export(format, hasActiveFilters
+                ? { taskIds: filteredTasks.map(task => task.id), query: searchQuery.trim() || undefined }
+                : {});
+            if (result.success) {
+                success(t('toasts.tasksExported', { count: result.count ?? 0 }));
+            } else if (result.error !== 'Cancelled') {
+                showError(result.error || t('toasts.tasksExportFailed'));
+            }
+        } catch (err) {
+            console.error('Failed to export tasks:', err);
+            showError(t('toasts.tasksExportFailed'));
+        }
+    };
+
+    const renderColumns = (laneTasks: Task[], laneKey?: string) => columns.map((col: any, index: number) => {
+        // Filter tasks for this column (using filteredTasks for search/filter)
+        let colTasks = laneTasks.filter(t => t.status === col.id);
+
+        // Sort tasks based on column type
+        if (getColumnCategory(col) === 'done') {
+            // Done column: sort by completedAt descending (most recent first)
+            colTasks = colTasks.sort((a, b) => {
+                const aCompleted = a.completedAt ? new Date(a.completedAt).getTime() : 0;
+                const bCompleted = b.completedAt ? new Date(b.completedAt).getTime() : 0;
+                return bCompleted - aCompleted; // Descending order
+            });
+        } else {
+            // Other columns: sort by order field (ascending)
+            colTasks = colTasks.sort((a, b) => a.order - b.order);
+        }
+
+        return (
+            <div key={col.id} className={`animate-stagger-${index + 1}`}>
+                <Column
+                    column={col}
+                    tasks={colTasks}
+                    allTasks={tasks}
+                    boardColumns={columns}
+                    onTaskClick={onTaskSelect}
+                    onTaskDelete={handleDeleteTask}
+                    onTaskStop={handleStopTask}
+                    onTaskRun={handleRunTask}
+                    onCreateTask={(columnId) => handleCreateTask(columnId, laneKey)}
+                    activeTaskId={activeTaskId}
+                    isCreating={isCreating && (laneKey === undefined || laneKey === creatingLaneKey)}
+                    creatingColumnId={creatingColumnId || undefined}
+                    newTaskTitle={newTaskTitle}
+                    onNewTaskTitleChange={setNewTaskTitle}
+                    onSubmitNewTask={handleSubmitNewTask}
+                    onCancelCreate={handleCancelCreate}
+                    draggedTask={activeDragTask}
+                    templates={templates}
+                    selectedTemplateId={selectedTemplateId}
+                    onTemplateChange={setSelectedTemplateId}
+                    isSelectionMode={isSelectionMode}
+                    selectedTaskIds={selectedTaskIds}
+                    onSelectionChange={handleSelectionChange}
+                    laneKey={laneKey}
+                />
+            </div>
+        );
+    });
+
     return (
         <DndContext
             sensors={sensors}
@@ -540,14 +770,19 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                             {isSelectionMode ? t('views.kanban.exitSelect') : t('views.kanban.select')}
                         </Button>
 
-                        {/* Search input */}
-                        <div className="relative flex-1 max-w-xs">
+                        {/* Query input */}
+                        <div className="relative flex-1 max-w-md">
                             <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                             <Input
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
                                 placeholder={t('views.kanban.searchPlaceholder')}
-                                className="pl-8 h-8 text-sm bg-muted/20 border-white/10"
+                                className={cn(
+                                    "pl-8 h-8 text-sm bg-muted/20 border-white/10",
+                                    queryError && "border-red-500/60 focus:ring-red-500/30"
+                                )}
+                                title={queryError ?? t('tooltips.taskQuery')}
+                                aria-invalid={!!queryError}
                             />
                             {searchQuery && (
                                 <button
@@ -558,6 +793,98 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                                 </button>
                             )}
                         </div>
+                        {/* Saved filters */}
+                        <div className="flex items-center gap-1.5">
+                            <Bookmark className={cn(
+                                "w-4 h-4",
+                                activeFilter ? "text-primary" : "text-muted-foreground"
+                            )} />
+                            {savingFilterName !== null ? (
+                                <Input
+                                    value={savingFilterName}
+                                    onChange={(e) => setSavingFilterName(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleSaveFilter();
+                                        else if (e.key === 'Escape') setSavingFilterName(null);
+                                    }}
+                                    onBlur={() => !savingFilterName.trim() && setSavingFilterName(null)}
+                                    placeholder={t('placeholders.filterName')}
+                                    className="h-8 w-36 text-xs bg-muted/20 border-white/10"
+                                    autoFocus
+                                />
+                            ) : (
+                                <select
+                                    value={activeFilter?.id ?? ''}
+                                    onChange={(e) => handleSelectFilter(e.target.value)}
+                                    className={cn(
+                                        "h-8 px-3 pr-7 text-xs rounded-md cursor-pointer transition-colors max-w-[160px]",
+                                        "bg-background border border-border hover:border-primary/50",
+                                        "focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary",
+                                        "appearance-none bg-no-repeat bg-right",
+                                        activeFilter && "border-primary/50 bg-primary/5"
+                                    )}
+                                    style={{
+                                        backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='12' height='12' viewBox='0 0 24 24' fill='none' stroke='%23888' stroke-width='2'%3E%3Cpath d='m6 9 6 6 6-6'/%3E%3C/svg%3E")`,
+                                        backgroundPosition: 'right 0.5rem center'
+                                    }}
+                                    title={t('views.kanban.savedFilters')}
+                                >
+                                    <option value="">{t('views.kanban.savedFilters')}</option>
+                                    {savedFilters.map(filter => (
+                                        <option key={filter.id} value={filter.id}>{filter.name}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {activeFilter ? (
+                                <IconButton
+                                    variant="ghost"
+                                    size="xs"
+                                    onClick={handleDeleteFilter}
+                                    title={t('views.kanban.deleteFilter')}
+                                    aria-label={t('views.kanban.deleteFilter')}
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </IconButton>
+                            ) : searchQuery.trim() && !queryError && savingFilterName === null && (
+                                <IconButton
+                                    variant="ghost"
+                                    size="xs"
+                                    onClick={() => setSavingFilterName('')}
+                                    title={t('views.kanban.saveFilter')}
+                                    aria-label={t('views.kanban.saveFilter')}
+                                >
+                                    <BookmarkPlus className="w-3.5 h-3.5" />
+                                </IconButton>
+                            )}
+                        </div>
+                        {/* Swimlanes */}
+                        <div className="flex items-center gap-1.5">
+                            <Rows3 className={cn(
+                                "w-4 h-4",
+                                groupBy !== 'none' ? "text-primary" : "text-muted-foreground"
+                            )} />
+                            <select
+                                value={groupBy}
+                                onChange={(e) => setGroupBy(e.target.value as SwimlaneGroupBy)}
+                                className={cn(
+                                    "h-8 px-3 pr-7 text-xs rounded-md cursor-pointer transition-colors",
+                                    "bg-background border border-border hover:border-primary/50",
+                                    "focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary",
+                                    "appearance-none bg-no-repeat bg-right",
+                                    groupBy !== 'none' && "border-primary/50 bg-primary/5"
+                                )}
+                                style={{
+                                    backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='12' height='12' viewBox='0 0 24 24' fill='none' stroke='%23888' stroke-width='2'%3E%3Cpath d='m6 9 6 6 6-6'/%3E%3C/svg%3E")`,
+                                    backgroundPosition: 'right 0.5rem center'
+                                }}
+                                title={t('views.kanban.lanes.groupBy')}
+                            >
+                                <option value="none">{t('views.kanban.lanes.none')}</option>
+                                <option value="epic">{t('views.kanban.lanes.epic')}</option>
+                                <option value="sprint">{t('views.kanban.lanes.sprint')}</option>
+                                <option value="priority">{t('views.kanban.lanes.priority')}</option>
+                            </select>
+                        </div>
                         {/* Priority filter */}
                         <div className="flex items-center gap-1.5">
                             <Filter className={cn(
@@ -634,6 +961,40 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                             </span>
                         )}
 
+                        {/* Import / export */}
+                        <div className="flex items-center gap-1 ml-auto">
+                            <IconButton
+                                variant="ghost"
+                                size="xs"
+                                onClick={handleSelectImportFile}
+                                title={t('views.kanban.import.button')}
+                                aria-label={t('views.kanban.import.button')}
+                            >
+                                <Upload className="w-4 h-4" />
+                            </IconButton>
+                            <div className="relative group/export">
+                                <IconButton
+                                    variant="ghost"
+                                    size="xs"
+                                    title={t(hasActiveFilters ? 'views.kanban.export.filtered' : 'views.kanban.export.button')}
+                                    aria-label={t('views.kanban.export.button')}
+                                >
+                                    <Download className="w-4 h-4" />
+                                </IconButton>
+                                <div className="absolute top-full right-0 mt-1 bg-popover border border-border rounded-lg shadow-xl opacity-0 invisible group-hover/export:opacity-100 group-hover/export:visible transition-all duration-150 z-[100] min-w-[180px] py-1">
+                                    {(['csv', 'markdown'] as const).map(format => (
+                                        <button
+                                            key={format}
+                                            onClick={() => handleExport(format)}
+                                            className="w-full text-left px-3 py-2 text-xs hover:bg-primary/10 hover:text-primary transition-colors"
+                                        >
+                                            {t(`views.kanban.export.${format}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
                         {/* Bulk selection actions - only when in selection mode */}
                         {isSelectionMode && (
                             <>
@@ -703,7 +1064,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                         )}
                     </div>
                 )}
-                <div className="flex-1 flex gap-4 overflow-x-auto p-4 relative">
+                <div className={cn("flex-1 flex gap-4 overflow-x-auto p-4 relative", groupBy !== 'none' && "overflow-y-auto")}>
                 {/* Empty board onboarding overlay */}
                 {isEmptyBoard && !isCreating && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
@@ -719,7 +1080,9 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                             {/* Two action options */}
                             <div className="flex flex-col sm:flex-row gap-3 justify-center mb-4">
                                 <Button
-                                    onClick={() => handleCreateTask('todo')}
+                                    onClick={() => handleCreateTask(
+                                        columns.find(c => getColumnCategory(c) === 'todo')?.id ?? columns[0].id
+                                    )}
                                     className="gap-2"
                                 >
                                     <Plus size={16} />
@@ -739,65 +1102,61 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ onTaskSelect, activeTa
                                 </Button>
                             </div>
 
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={handleSelectImportFile}
+                                className="gap-2 mb-2"
+                            >
+                                <Upload size={14} />
+                                {t('views.kanban.import.fromFile')}
+                            </Button>
+
                             <p className="text-xs text-muted-foreground">
                                 {t('views.kanban.getStartedTip')}
                             </p>
                         </div>
                     </div>
                 )}
-                {columns.map((col: any, index: number) => {
-                    // Filter tasks for this column (using filteredTasks for search/filter)
-                    let colTasks = filteredTasks.filter(t => t.status === col.id);
-
-                    // Sort tasks based on column type
-                    if (col.id === 'done') {
-                        // Done column: sort by completedAt descending (most recent first)
-                        colTasks = colTasks.sort((a, b) => {
-                            const aCompleted = a.completedAt ? new Date(a.completedAt).getTime() : 0;
-                            const bCompleted = b.completedAt ? new Date(b.completedAt).getTime() : 0;
-                            return bCompleted - aCompleted; // Descending order
-                        });
-                    } else {
-                        // Other columns: sort by order field (ascending)
-                        colTasks = colTasks.sort((a, b) => a.order - b.order);
-                    }
-
-                    return (
-                        <div key={col.id} className={`animate-stagger-${index + 1}`}>
-                            <Column
-                                column={col}
-                                tasks={colTasks}
-                                allTasks={tasks}
-                                onTaskClick={onTaskSelect}
-                                onTaskDelete={handleDeleteTask}
-                                onTaskStop={handleStopTask}
-                                onTaskRun={handleRunTask}
-                                onCreateTask={handleCreateTask}
-                                activeTaskId={activeTaskId}
-                                isCreating={isCreating}
-                                creatingColumnId={creatingColumnId || undefined}
-                                newTaskTitle={newTaskTitle}
-                                onNewTaskTitleChange={setNewTaskTitle}
-                                onSubmitNewTask={handleSubmitNewTask}
-                                onCancelCreate={handleCancelCreate}
-                                draggedTask={activeDragTask}
-                                templates={templates}
-                                selectedTemplateId={selectedTemplateId}
-                                onTemplateChange={setSelectedTemplateId}
-                                isSelectionMode={isSelectionMode}
-                                selectedTaskIds={selectedTaskIds}
-                                onSelectionChange={handleSelectionChange}
-                            />
-                        </div>
-                    );
-                })}
+                {groupBy === 'none' || lanes.length === 0 ? renderColumns(filteredTasks) : (
+                    <div className="flex-1 flex flex-col gap-4 min-w-max">
+                        {lanes.map(lane => (
+                            <div key={lane.key} className="flex flex-col gap-2">
+                                <div className="sticky left-0 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                    {groupBy === 'epic' && lane.key && (
+                                        <span
+                                            className="w-2.5 h-2.5 rounded-full"
+                                            style={{ backgroundColor: lane.tasks[0].epic?.color }}
+                                        />
+                                    )}
+                                    <span>{describeLane(lane, groupBy)}</span>
+                                    <span className="flex items-center justify-center min-w-[20px] h-5 px-1.5 rounded-full bg-muted/30 text-[10px] font-normal">
+                                        {lane.tasks.length}
+                                    </span>
+                                </div>
+                                <div className="flex gap-4">
+                                    {renderColumns(lane.tasks, lane.key)}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
                 </div>
             </div>
 
+            {importFile && (
+                <TaskImportDialog
+                    file={importFile}
+                    columns={board.columns}
+                    onClose={() => setImportFile(null)}
+                    onImported={handleImported}
+                />
+            )}
+
             <DragOverlay dropAnimation={dropAnimation}>
                 {activeDragTask ? (
                     <div className="rotate-2 cursor-grabbing w-[260px]">
-                        <TaskCard task={activeDragTask} onClick={() => { }} isActive />
+                        <TaskCard task={activeDragTask} columns={board.columns} onClick={() => { }} isActive />
                     </div>
                 ) : null}
             </DragOverlay>
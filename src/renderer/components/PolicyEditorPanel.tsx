@@ -20,14 +20,24 @@ import {
   X,
   Lock,
   Unlock,
+  Layers,
+  Trash2,
+  FlaskConical,
 } from 'lucide-react';
 import { Button, IconButton, Input, Spinner } from 'adnia-ui';
 import { cn } from '../lib/utils';
 import { useToast } from '../contexts/ToastContext';
 import { useTranslation } from '../i18n/useTranslation';
-import type { Policy, PolicyLimits, ShellCommandPolicy } from '../../shared/types';
+import type {
+  Policy,
+  PolicyLimits,
+  PolicyProfile,
+  PolicySimulationResult,
+  ShellCommandPolicy,
+  McpToolPolicy,
+} from '../../shared/types';
 
-type PolicySection = 'paths' | 'commands' | 'limits' | 'patterns';
+type PolicySection = 'paths' | 'commands' | 'limits' | 'patterns' | 'profiles';
 
 export const PolicyEditorPanel: React.FC = () => {
   const { t } = useTranslation();
@@ -37,6 +47,8 @@ export const PolicyEditorPanel: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [activeSection, setActiveSection] = useState<PolicySection>('paths');
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<PolicySimulationResult | null>(null);
 
   // Load policy on mount
   const loadPolicy = useCallback(async () => {
@@ -45,6 +57,7 @@ export const PolicyEditorPanel: React.FC = () => {
       const data = await window.dexteria.policy.get();
       setPolicy(data);
       setHasChanges(false);
+      setSimulation(null);
     } catch (err) {
       console.error('Failed to load policy:', err);
       showToast(t('views.policyEditor.loadError'), 'error');
@@ -74,11 +87,25 @@ export const PolicyEditorPanel: React.FC = () => {
     setSaving(false);
   };
 
+  // Replay past runs through the unsaved policy
+  const handleSimulate = async () => {
+    if (!policy) return;
+    setSimulating(true);
+    try {
+      setSimulation(await window.dexteria.policy.simulate(policy));
+    } catch (err) {
+      console.error('Failed to simulate policy:', err);
+      showToast(t('views.policyEditor.simulation.error'), 'error');
+    }
+    setSimulating(false);
+  };
+
   // Update policy helper
   const updatePolicy = (updates: Partial<Policy>) => {
     if (!policy) return;
     setPolicy({ ...policy, ...updates });
     setHasChanges(true);
+    setSimulation(null);
   };
 
   // Update limits helper
@@ -89,6 +116,7 @@ export const PolicyEditorPanel: React.FC = () => {
       limits: { ...policy.limits, ...updates },
     });
     setHasChanges(true);
+    setSimulation(null);
   };
 
   // Update shell commands helper
@@ -99,6 +127,7 @@ export const PolicyEditorPanel: React.FC = () => {
       shellCommands: { ...policy.shellCommands, ...updates },
     });
     setHasChanges(true);
+    setSimulation(null);
   };
 
   // Array field helpers
@@ -146,6 +175,34 @@ export const PolicyEditorPanel: React.FC = () => {
     updateShellCommands({ [field]: current.filter((_, i) => i !== index) });
   };
 
+  // MCP tool array helpers; without an MCP policy all tools are allowed
+  const addToMcpArray = (field: keyof McpToolPolicy, value: string) => {
+    if (!policy || !value.trim()) return;
+    const mcpTools = policy.mcpTools ?? { allowed: ['*'], blocked: [] };
+    if (!mcpTools[field].includes(value.trim())) {
+      updatePolicy({ mcpTools: { ...mcpTools, [field]: [...mcpTools[field], value.trim()] } });
+    }
+  };
+
+  const removeFromMcpArray = (field: keyof McpToolPolicy, index: number) => {
+    if (!policy) return;
+    const mcpTools = policy.mcpTools ?? { allowed: ['*'], blocked: [] };
+    updatePolicy({ mcpTools: { ...mcpTools, [field]: mcpTools[field].filter((_, i) => i !== index) } });
+  };
+
+  // Profile helpers
+  const updateProfiles = (profiles: PolicyProfile[]) => {
+    updatePolicy({ profiles });
+  };
+
+  const addProfile = () => {
+    if (!policy) return;
+    updateProfiles([
+      ...(policy.profiles || []),
+      { id: `profile-${Date.now()}`, name: t('views.policyEditor.profiles.newProfileName') },
+    ]);
+  };
+
   if (loading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -170,6 +227,7 @@ export const PolicyEditorPanel: React.FC = () => {
     { id: 'commands', label: t('views.policyEditor.sections.commands'), icon: <Terminal size={16} /> },
     { id: 'limits', label: t('views.policyEditor.sections.limits'), icon: <Clock size={16} /> },
     { id: 'patterns', label: t('views.policyEditor.sections.patterns'), icon: <FileText size={16} /> },
+    { id: 'profiles', label: t('views.policyEditor.sections.profiles'), icon: <Layers size={16} /> },
   ];
 
   return (
@@ -196,6 +254,15 @@ export const PolicyEditorPanel: React.FC = () => {
           >
             <RefreshCw size={14} />
           </IconButton>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSimulate}
+            disabled={!hasChanges || simulating}
+          >
+            {simulating ? <Spinner size="sm" /> : <FlaskConical size={14} />}
+            {t('views.policyEditor.simulation.run')}
+          </Button>
           <Button
             variant="default"
             size="sm"
@@ -208,6 +275,10 @@ export const PolicyEditorPanel: React.FC = () => {
         </div>
       </div>
 
+      {simulation && (
+        <SimulationResults result={simulation} onClose={() => setSimulation(null)} t={t} />
+      )}
+
       {/* Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Sidebar */}
@@ -255,6 +326,10 @@ export const PolicyEditorPanel: React.FC = () => {
               onRemoveBlocked={(i) => removeFromShellArray('blocked', i)}
               onAddConfirm={(v) => addToShellArray('requireConfirmation', v)}
               onRemoveConfirm={(i) => removeFromShellArray('requireConfirmation', i)}
+              onAddMcpAllowed={(v) => addToMcpArray('allowed', v)}
+              onRemoveMcpAllowed={(i) => removeFromMcpArray('allowed', i)}
+              onAddMcpBlocked={(v) => addToMcpArray('blocked', v)}
+              onRemoveMcpBlocked={(i) => removeFromMcpArray('blocked', i)}
               t={t}
             />
           )}
@@ -281,6 +356,15 @@ export const PolicyEditorPanel: React.FC = () => {
               t={t}
             />
           )}
+
+          {activeSection === 'profiles' && (
+            <ProfilesSection
+              policy={policy}
+              onAdd={addProfile}
+              onChange={updateProfiles}
+              t={t}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -459,6 +543,10 @@ interface CommandsSectionProps {
   onRemoveBlocked: (i: number) => void;
   onAddConfirm: (v: string) => void;
   onRemoveConfirm: (i: number) => void;
+  onAddMcpAllowed: (v: string) => void;
+  onRemoveMcpAllowed: (i: number) => void;
+  onAddMcpBlocked: (v: string) => void;
+  onRemoveMcpBlocked: (i: number) => void;
   t: (key: string) => string;
 }
 
@@ -470,6 +558,10 @@ const CommandsSection: React.FC<CommandsSectionProps> = ({
   onRemoveBlocked,
   onAddConfirm,
   onRemoveConfirm,
+  onAddMcpAllowed,
+  onRemoveMcpAllowed,
+  onAddMcpBlocked,
+  onRemoveMcpBlocked,
   t,
 }) => (
   <div className="space-y-6">
@@ -510,6 +602,35 @@ const CommandsSection: React.FC<CommandsSectionProps> = ({
       placeholder="git push"
       icon={<AlertTriangle size={14} className="text-yellow-500" />}
     />
+
+    <div>
+      <h3 className="text-lg font-medium mb-1">{t('views.policyEditor.commands.mcpTitle')}</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        {t('views.policyEditor.commands.mcpDescription')}
+      </p>
+    </div>
+
+    <div className="grid gap-6 md:grid-cols-2">
+      <ArrayEditor
+        label={t('views.policyEditor.commands.mcpAllowed')}
+        items={policy.mcpTools?.allowed ?? ['*']}
+        onAdd={onAddMcpAllowed}
+        onRemove={onRemoveMcpAllowed}
+        placeholder="mcp__github__*"
+        icon={<CheckCircle size={14} className="text-green-500" />}
+        variant="allowed"
+      />
+
+      <ArrayEditor
+        label={t('views.policyEditor.commands.mcpBlocked')}
+        items={policy.mcpTools?.blocked ?? []}
+        onAdd={onAddMcpBlocked}
+        onRemove={onRemoveMcpBlocked}
+        placeholder="mcp__github__delete_*"
+        icon={<AlertTriangle size={14} className="text-red-500" />}
+        variant="blocked"
+      />
+    </div>
   </div>
 );
 
@@ -596,6 +717,41 @@ const LimitsSection: React.FC<LimitsSectionProps> = ({
         />
         <p className="text-xs text-muted-foreground">{t('views.policyEditor.limits.maxFileSizeDesc')}</p>
       </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{t('views.policyEditor.limits.maxTokensPerRun')}</label>
+        <Input
+          type="number"
+          value={limits.maxTokensPerRun ?? ''}
+          onChange={(e) => onUpdateLimits({ maxTokensPerRun: Math.max(0, parseInt(e.target.value)) || undefined })}
+          min={1}
+        />
+        <p className="text-xs text-muted-foreground">{t('views.policyEditor.limits.maxTokensPerRunDesc')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{t('views.policyEditor.limits.maxCostPerRun')}</label>
+        <Input
+          type="number"
+          value={limits.maxCostPerRunUsd ?? ''}
+          onChange={(e) => onUpdateLimits({ maxCostPerRunUsd: Math.max(0, parseFloat(e.target.value)) || undefined })}
+          min={0.01}
+          step={0.01}
+        />
+        <p className="text-xs text-muted-foreground">{t('views.policyEditor.limits.maxCostPerRunDesc')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{t('views.policyEditor.limits.maxProjectCost')}</label>
+        <Input
+          type="number"
+          value={limits.maxProjectCostUsd ?? ''}
+          onChange={(e) => onUpdateLimits({ maxProjectCostUsd: Math.max(0, parseFloat(e.target.value)) || undefined })}
+          min={0.01}
+          step={0.01}
+        />
+        <p className="text-xs text-muted-foreground">{t('views.policyEditor.limits.maxProjectCostDesc')}</p>
+      </div>
     </div>
   </div>
 );
@@ -661,4 +817,358 @@ const PatternsSection: React.FC<PatternsSectionProps> = ({
   </div>
 );
 
+// Profiles Section
+interface ProfilesSectionProps {
+  policy: Policy;
+  onAdd: () => void;
+  onChange: (profiles: PolicyProfile[]) => void;
+  t: (key: string) => string;
+}
+
+/** Profile lists that are intersected with the project's list when set */
+type NarrowedList = 'allowedPaths' | 'allowedOperations';
+
+/** Profile lists that are added to the project's list */
+type AddedList = 'writePaths' | 'blockedPaths' | 'requireConfirmation';
+
+const PROFILE_LIMITS: Array<{ key: keyof PolicyLimits; label: string }> = [
+  { key: 'maxStepsPerRun', label: 'views.policyEditor.limits.maxSteps' },
+  { key: 'maxFilesPerRun', label: 'views.policyEditor.limits.maxFiles' },
+  { key: 'maxRuntimeMinutes', label: 'views.policyEditor.limits.maxRuntime' },
+  { key: 'maxCostPerRunUsd', label: 'views.policyEditor.limits.maxCostPerRun' },
+];
+
+const ProfilesSection: React.FC<ProfilesSectionProps> = ({ policy, onAdd, onChange, t }) => {
+  const profiles = policy.profiles || [];
+  const [selectedId, setSelectedId] = useState<string | null>(profiles[0]?.id ?? null);
+  const profile = profiles.find(p => p.id === selectedId) || profiles[0];
+
+  const update = (updates: Partial<PolicyProfile>) => {
+    if (!profile) return;
+    onChange(profiles.map(p => (p.id === profile.id ? { ...p, ...updates } : p)));
+  };
+
+  const remove = () => {
+    if (!profile) return;
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  // Empty added lists are dropped; an empty replaced list still overrides
+  const setList = (field: NarrowedList | AddedList, items: string[] | undefined) => {
+    const keep = items !== undefined && (items.length > 0 || field === 'allowedPaths' || field === 'allowedOperations');
+    update({ [field]: keep ? items : undefined });
+  };
+
+  const setShellList = (field: keyof ShellCommandPolicy, items: string[] | undefined) => {
+    const shellCommands = { ...profile?.shellCommands, [field]: items };
+    if (field !== 'allowed' && items?.length === 0) delete shellCommands[field];
+    update({ shellCommands: Object.values(shellCommands).some(v => v !== undefined) ? shellCommands : undefined });
+  };
+
+  const setMcpList = (field: keyof McpToolPolicy, items: string[] | undefined) => {
+    const mcpTools = { ...profile?.mcpTools, [field]: items };
+    if (field !== 'allowed' && items?.length === 0) delete mcpTools[field];
+    update({ mcpTools: Object.values(mcpTools).some(v => v !== undefined) ? mcpTools : undefined });
+  };
+
+  const setLimit = (key: keyof PolicyLimits, value: number | undefined) => {
+    const limits = { ...profile?.limits, [key]: value };
+    if (value === undefined) delete limits[key];
+    update({ limits: Object.keys(limits).length > 0 ? limits : undefined });
+  };
+
+  const renderNarrowedList = (
+    field: NarrowedList | 'shellAllowed' | 'mcpAllowed',
+    label: string,
+    items: string[] | undefined,
+    inherited: string[],
+    onSet: (items: string[] | undefined) => void,
+    placeholder: string
+  ) => (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={items !== undefined}
+          onChange={(e) => onSet(e.target.checked ? [...inherited] : undefined)}
+        />
+        {t('views.policyEditor.profiles.override')}
+      </label>
+      {items !== undefined ? (
+        <ArrayEditor
+          key={`${profile?.id}-${field}`}
+          label={label}
+          items={items}
+          onAdd={(v) => !items.includes(v) && onSet([...items, v])}
+          onRemove={(i) => onSet(items.filter((_, index) => index !== i))}
+          placeholder={placeholder}
+          icon={<Unlock size={14} className="text-green-500" />}
+          variant="allowed"
+        />
+      ) : (
+        <div className="text-sm">
+          <div className="font-medium">{label}</div>
+          <div className="text-xs text-muted-foreground">{t('views.policyEditor.profiles.inherited')}</div>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderAddedList = (
+    label: string,
+    items: string[] | undefined,
+    onSet: (items: string[]) => void,
+    placeholder: string,
+    variant: 'allowed' | 'blocked' | 'neutral'
+  ) => (
+    <ArrayEditor
+      label={label}
+      items={items || []}
+      onAdd={(v) => !(items || []).includes(v) && onSet([...(items || []), v])}
+      onRemove={(i) => onSet((items || []).filter((_, index) => index !== i))}
+      placeholder={placeholder}
+      variant={variant}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium mb-1">{t('views.policyEditor.profiles.title')}</h3>
+          <p className="text-sm text-muted-foreground">
+            {t('views.policyEditor.profiles.description')}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onAdd}>
+          <Plus size={14} />
+          {t('views.policyEditor.profiles.add')}
+        </Button>
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('views.policyEditor.profiles.empty')}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {profiles.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={cn(
+                  'px-3 py-1 rounded-full text-sm border transition-colors',
+                  p.id === profile?.id
+                    ? 'bg-primary/10 text-primary border-primary/30'
+                    : 'text-muted-foreground border-border hover:bg-muted/50'
+                )}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+
+          {profile && (
+            <div className="space-y-6">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('views.policyEditor.profiles.name')}</label>
+                  <Input value={profile.name} onChange={(e) => update({ name: e.target.value })} />
+                  <p className="text-xs text-muted-foreground font-mono">{profile.id}</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('views.policyEditor.profiles.profileDescription')}</label>
+                  <Input
+                    value={profile.description || ''}
+                    onChange={(e) => update({ description: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                {renderNarrowedList(
+                  'allowedOperations',
+                  t('views.policyEditor.patterns.allowedOps'),
+                  profile.allowedOperations,
+                  policy.allowedOperations,
+                  (items) => setList('allowedOperations', items),
+                  'read'
+                )}
+                {renderNarrowedList(
+                  'allowedPaths',
+                  t('views.policyEditor.paths.allowed'),
+                  profile.allowedPaths,
+                  policy.allowedPaths,
+                  (items) => setList('allowedPaths', items),
+                  'src/**'
+                )}
+                {renderNarrowedList(
+                  'shellAllowed',
+                  t('views.policyEditor.commands.allowed'),
+                  profile.shellCommands?.allowed,
+                  policy.shellCommands.allowed,
+                  (items) => setShellList('allowed', items),
+                  'npm'
+                )}
+                {renderNarrowedList(
+                  'mcpAllowed',
+                  t('views.policyEditor.commands.mcpAllowed'),
+                  profile.mcpTools?.allowed,
+                  policy.mcpTools?.allowed ?? ['*'],
+                  (items) => setMcpList('allowed', items),
+                  'mcp__github__*'
+                )}
+                {renderAddedList(
+                  t('views.policyEditor.profiles.writePaths'),
+                  profile.writePaths,
+                  (items) => setList('writePaths', items),
+                  'docs/**',
+                  'allowed'
+                )}
+                {renderAddedList(
+                  t('views.policyEditor.paths.blocked'),
+                  profile.blockedPaths,
+                  (items) => setList('blockedPaths', items),
+                  '.env',
+                  'blocked'
+                )}
+                {renderAddedList(
+                  t('views.policyEditor.commands.blocked'),
+                  profile.shellCommands?.blocked,
+                  (items) => setShellList('blocked', items),
+                  'git push',
+                  'blocked'
+                )}
+                {renderAddedList(
+                  t('views.policyEditor.commands.mcpBlocked'),
+                  profile.mcpTools?.blocked,
+                  (items) => setMcpList('blocked', items),
+                  'mcp__github__delete_*',
+                  'blocked'
+                )}
+                {renderAddedList(
+                  t('views.policyEditor.commands.requireConfirm'),
+                  profile.shellCommands?.requireConfirmation,
+                  (items) => setShellList('requireConfirmation', items),
+                  'git commit',
+                  'neutral'
+                )}
+                {renderAddedList(
+                  t('views.policyEditor.patterns.requireConfirm'),
+                  profile.requireConfirmation,
+                  (items) => setList('requireConfirmation', items),
+                  'create',
+                  'neutral'
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                {PROFILE_LIMITS.map(({ key, label }) => (
+                  <div key={key} className="space-y-2">
+                    <label className="text-sm font-medium">{t(label)}</label>
+                    <Input
+                      type="number"
+                      value={(profile.limits?.[key] as number | undefined) ?? ''}
+                      placeholder={String(policy.limits[key] ?? '')}
+                      onChange={(e) => setLimit(key, Math.max(0, parseFloat(e.target.value)) || undefined)}
+                      min={0}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">{t('views.policyEditor.profiles.limitsHint')}</p>
+
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" onClick={remove}>
+                  <Trash2 size={14} />
+                  {t('views.policyEditor.profiles.delete')}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Dry-run results
+interface SimulationResultsProps {
+  result: PolicySimulationResult;
+  onClose: () => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+const MAX_CALLS_PER_GROUP = 5;
+
+const SimulationResults: React.FC<SimulationResultsProps> = ({ result, onClose, t }) => {
+  return (
+    <div className="max-h-72 overflow-auto border-b border-border p-3 space-y-3 bg-muted/10">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <FlaskConical size={14} className="text-primary" />
+            {t('views.policyEditor.simulation.title')}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t('views.policyEditor.simulation.summary', {
+              calls: result.callsReplayed,
+              runs: result.runsScanned,
+              blocked: result.newlyBlocked,
+              allowed: result.newlyAllowed,
+            })}
+          </p>
+        </div>
+        <IconButton variant="ghost" size="sm" onClick={onClose} aria-label={t('actions.close')}>
+          <X size={12} />
+        </IconButton>
+      </div>
+
+      {result.groups.length === 0 ? (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <CheckCircle size={12} className="text-green-500" />
+          {result.runsScanned === 0
+            ? t('views.policyEditor.simulation.noRuns')
+            : t('views.policyEditor.simulation.noChanges')}
+        </p>
+      ) : (
+        result.groups.map(group => {
+          const blocked = group.change === 'newly_blocked';
+          return (
+            <div
+              key={`${group.change}:${group.rule}`}
+              className={cn(
+                'rounded-lg border p-2 space-y-1',
+                blocked ? 'border-red-500/30 bg-red-500/5' : 'border-green-500/30 bg-green-500/5'
+              )}
+            >
+              <div className="flex items-center gap-2 text-xs">
+                {blocked ? <Lock size={12} className="text-red-500" /> : <Unlock size={12} className="text-green-500" />}
+                <span className="font-medium">
+                  {blocked ? t('views.policyEditor.simulation.newlyBlocked') : t('views.policyEditor.simulation.newlyAllowed')}
+                </span>
+                <code className="font-mono truncate">{group.rule}</code>
+                <span className="ml-auto text-muted-foreground">({group.calls.length})</span>
+              </div>
+              {group.calls.slice(0, MAX_CALLS_PER_GROUP).map((call, i) => (
+                <div key={i} className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+                  <span className="font-mono">{call.tool}</span>
+                  <code className="font-mono truncate flex-1 text-foreground" title={call.reason}>{call.target}</code>
+                  <span className="font-mono">{call.taskId}</span>
+                </div>
+              ))}
+              {group.calls.length > MAX_CALLS_PER_GROUP && (
+                <div className="px-2 text-xs text-muted-foreground">
+                  {t('views.policyEditor.simulation.more', { count: group.calls.length - MAX_CALLS_PER_GROUP })}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
 export default PolicyEditorPanel;
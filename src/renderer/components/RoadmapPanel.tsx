@@ -22,7 +22,8 @@ import {
   Layers,
   Filter,
 } from 'lucide-react';
-import type { Task, TaskEpic } from '../../shared/types';
+import type { Column, ColumnCategory, Task, TaskEpic } from '../../shared/types';
+import { getStatusCategory } from '../../shared/schemas/common';
 
 // ============================================================================
 // Types
@@ -45,11 +46,11 @@ interface SprintGroup {
 // Helpers
 // ============================================================================
 
-function getStatusIcon(status: string) {
-  switch (status) {
+function getStatusIcon(category: ColumnCategory) {
+  switch (category) {
     case 'done':
       return <CheckCircle2 size={14} className="text-green-500" />;
-    case 'doing':
+    case 'in_progress':
       return <Clock size={14} className="text-blue-500 animate-pulse" />;
     case 'review':
       return <AlertCircle size={14} className="text-yellow-500" />;
@@ -58,9 +59,9 @@ function getStatusIcon(status: string) {
   }
 }
 
-function calculateProgress(tasks: Task[]): number {
+function calculateProgress(tasks: Task[], columns?: Column[]): number {
   if (tasks.length === 0) return 0;
-  const done = tasks.filter((t) => t.status === 'done').length;
+  const done = tasks.filter((t) => getStatusCategory(t.status, columns) === 'done').length;
   return Math.round((done / tasks.length) * 100);
 }
 
@@ -196,11 +197,12 @@ interface EpicCardProps {
   isExpanded: boolean;
   onToggle: () => void;
   onTaskClick: (task: Task) => void;
+  columns?: Column[];
 }
 
-function EpicCard({ epic, tasks, isExpanded, onToggle, onTaskClick }: EpicCardProps) {
+function EpicCard({ epic, tasks, isExpanded, onToggle, onTaskClick, columns }: EpicCardProps) {
   const { t } = useTranslation();
-  const progress = calculateProgress(tasks);
+  const progress = calculateProgress(tasks, columns);
   const epicName = epic?.name || t('views.roadmap.noEpic');
   const epicColor = epic?.color || '#6b7280';
 
@@ -243,7 +245,7 @@ function EpicCard({ epic, tasks, isExpanded, onToggle, onTaskClick }: EpicCardPr
               onClick={() => onTaskClick(task)}
               className="w-full flex items-center gap-3 px-4 py-2 border-b border-border/30 last:border-b-0 hover:bg-muted/20 transition-colors text-left"
             >
-              {getStatusIcon(task.status)}
+              {getStatusIcon(getStatusCategory(task.status, columns))}
               <span className="text-sm flex-1 truncate">{task.title}</span>
               <Badge
                 variant={
@@ -270,9 +272,10 @@ interface SprintLaneProps {
   expandedEpics: Set<string>;
   onToggleEpic: (epicKey: string) => void;
   onTaskClick: (task: Task) => void;
+  columns?: Column[];
 }
 
-function SprintLane({ sprint, expandedEpics, onToggleEpic, onTaskClick }: SprintLaneProps) {
+function SprintLane({ sprint, expandedEpics, onToggleEpic, onTaskClick, columns }: SprintLaneProps) {
   const { t } = useTranslation();
   const progress = sprint.totalTasks > 0
     ? Math.round((sprint.completedTasks / sprint.totalTasks) * 100)
@@ -311,6 +314,7 @@ function SprintLane({ sprint, expandedEpics, onToggleEpic, onTaskClick }: Sprint
                 isExpanded={expandedEpics.has(epicKey)}
                 onToggle={() => onToggleEpic(epicKey)}
                 onTaskClick={onTaskClick}
+                columns={columns}
               />
             );
           })
@@ -326,7 +330,8 @@ function SprintLane({ sprint, expandedEpics, onToggleEpic, onTaskClick }: Sprint
 
 export function RoadmapPanel() {
   const { t } = useTranslation();
-  const { tasks, loading, error } = useBoard();
+  const { board, tasks, loading, error } = useBoard();
+  const columns = board?.columns;
   const openView = useLayoutStore((s) => s.openView);
   const [expandedEpics, setExpandedEpics] = useState<Set<string>>(new Set());
   const [filterEpic, setFilterEpic] = useState<string | null>(null);
@@ -368,7 +373,7 @@ export function RoadmapPanel() {
 
       // Calculate progress for each epic
       epicMap.forEach((group) => {
-        group.progress = calculateProgress(group.tasks);
+        group.progress = calculateProgress(group.tasks, columns);
       });
 
       const epics = Array.from(epicMap.values()).sort((a, b) =>
@@ -379,10 +384,10 @@ export function RoadmapPanel() {
         sprint,
         epics,
         totalTasks: sprintTasks.length,
-        completedTasks: sprintTasks.filter((t) => t.status === 'done').length,
+        completedTasks: sprintTasks.filter((t) => getStatusCategory(t.status, columns) === 'done').length,
       };
     });
-  }, [tasks, filterEpic, backlogLabel]);
+  }, [tasks, columns, filterEpic, backlogLabel]);
 
   // Get unique epics for filter
   const uniqueEpics = useMemo(() => {
@@ -397,15 +402,17 @@ export function RoadmapPanel() {
   // Calculate stats for visual display
   const stats = useMemo(() => {
     if (!tasks) return { done: 0, doing: 0, review: 0, todo: 0, backlog: 0, total: 0 };
+    const count = (category: ColumnCategory) =>
+      tasks.filter((task) => getStatusCategory(task.status, columns) === category).length;
     return {
-      done: tasks.filter((task) => task.status === 'done').length,
-      doing: tasks.filter((task) => task.status === 'doing').length,
-      review: tasks.filter((task) => task.status === 'review').length,
-      todo: tasks.filter((task) => task.status === 'todo').length,
-      backlog: tasks.filter((task) => task.status === 'backlog').length,
+      done: count('done'),
+      doing: count('in_progress'),
+      review: count('review'),
+      todo: count('todo'),
+      backlog: count('backlog'),
       total: tasks.length,
     };
-  }, [tasks]);
+  }, [tasks, columns]);
 
   // Check if we only have backlog (no real sprints)
   const hasOnlyBacklog = useMemo(() => {
@@ -536,6 +543,7 @@ export function RoadmapPanel() {
                 expandedEpics={expandedEpics}
                 onToggleEpic={handleToggleEpic}
                 onTaskClick={handleTaskClick}
+                columns={columns}
               />
             ))
           )}
@@ -30,12 +30,16 @@ import {
   Search,
   Filter,
   ArrowUpDown,
+  Undo2,
+  ArrowRightLeft,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn, formatRelativeTime } from '../lib/utils';
 import { Button, IconButton } from 'adnia-ui';
-import type { AgentRun } from '../../shared/types';
+import type { AgentRun, RunCheckpoint } from '../../shared/types';
 import { useTranslation } from '../i18n/useTranslation';
 import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../contexts/ConfirmContext';
 
 interface TaskRunGroup {
   taskId: string;
@@ -58,7 +62,8 @@ const statusIcons: Record<AgentRun['status'], React.ReactNode> = {
 
 export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onSelectRun }) => {
   const { t } = useTranslation();
-  const { error: showError } = useToast();
+  const { success: showSuccess, error: showError } = useToast();
+  const { confirm } = useConfirm();
   const [runGroups, setRunGroups] = useState<TaskRunGroup[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
@@ -77,6 +82,8 @@ export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onSelectRun })
   const [statusFilter, setStatusFilter] = useState<AgentRun['status'] | 'all'>('all');
   const [sortBy, setSortBy] = useState<'date' | 'status' | 'task'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [checkpoint, setCheckpoint] = useState<RunCheckpoint | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
 
   const loadRuns = useCallback(async () => {
     setLoading(true);
@@ -129,7 +136,54 @@ export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onSelectRun })
     setShowCommands(false);
     setShowPatches(false);
     setShowAcceptance(false);
+    setCheckpoint(null);
     onSelectRun?.(taskId, run.id);
+
+    try {
+      setCheckpoint(await window.dexteria.runs.getCheckpoint(taskId, run.id));
+    } catch (err) {
+      console.error('Failed to load run checkpoint:', err);
+    }
+  };
+
+  // Files of the selected run that can still be rolled back
+  const rollbackableFiles = new Set(
+    checkpoint?.files.filter(f => !f.rolledBackAt).map(f => f.path) ?? []
+  );
+
+  const handleRollback = async (filePath?: string) => {
+    if (!selectedRun) return;
+
+    const confirmed = await confirm({
+      title: filePath ? t('views.runHistory.rollbackFileTitle') : t('views.runHistory.rollbackRunTitle'),
+      message: filePath
+        ? t('views.runHistory.rollbackFileMessage', { file: filePath })
+        : t('views.runHistory.rollbackRunMessage', { count: rollbackableFiles.size }),
+      confirmText: t('views.runHistory.rollback'),
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setRollingBack(true);
+    try {
+      const result = filePath
+        ? await window.dexteria.runs.rollbackFile(selectedRun.taskId, selectedRun.runId, filePath)
+        : await window.dexteria.runs.rollback(selectedRun.taskId, selectedRun.runId);
+
+      if (result.success) {
+        showSuccess(t('toasts.runRolledBack', { count: result.restored.length }));
+      } else if (result.conflicts.length > 0) {
+        showError(t('toasts.runRollbackConflict', { files: result.conflicts.map(c => c.path).join(', ') }));
+      } else {
+        showError(result.error || t('toasts.runRollbackFailed'));
+      }
+
+      setCheckpoint(await window.dexteria.runs.getCheckpoint(selectedRun.taskId, selectedRun.runId));
+    } catch (err) {
+      console.error('Failed to roll back run:', err);
+      showError(t('toasts.runRollbackFailed'));
+    }
+    setRollingBack(false);
   };
 
   const toggleToolCallExpand = (index: number) => {
@@ -742,12 +796,29 @@ export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onSelectRun })
                   )}
                   {t('views.runHistory.viewLog')}
                 </Button>
+                {rollbackableFiles.size > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRollback()}
+                    disabled={rollingBack}
+                    className="h-6 text-xs text-red-400"
+                  >
+                    {rollingBack ? (
+                      <Loader2 size={12} className="animate-spin" />
+                    ) : (
+                      <Undo2 size={12} />
+                    )}
+                    {t('views.runHistory.rollbackRun')}
+                  </Button>
+                )}
                 <button
                   onClick={() => {
                     setSelectedRun(null);
                     setRunDetail(null);
                     setShowLog(false);
                     setLogContent(null);
+                    setCheckpoint(null);
                   }}
                   className="text-xs text-muted-foreground hover:text-foreground"
                 >
@@ -795,13 +866,70 @@ export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onSelectRun })
                 </div>
               </div>
             )}
+            {runDetail.providerEvents && runDetail.providerEvents.length > 0 && (
+              <div className="mt-2 p-2 bg-background/50 rounded text-xs max-h-20 overflow-auto">
+                <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                  <ArrowRightLeft size={12} />
+                  <span>{t('views.runHistory.providerEvents')}:</span>
+                </div>
+                {runDetail.providerEvents.map((event, i) => (
+                  <div key={i} className="truncate" title={event.message}>
+                    <span className="font-medium">{event.provider}</span>{' '}
+                    <span className="text-yellow-500">{event.kind}</span>{' → '}
+                    {event.action === 'retry'
+                      ? t('views.runHistory.providerRetry', { seconds: Math.round((event.delayMs || 0) / 1000) })
+                      : event.action === 'failover'
+                        ? t('views.runHistory.providerFailover', { provider: event.nextProvider || '' })
+                        : t('views.runHistory.providerGaveUp')}
+                  </div>
+                ))}
+              </div>
+            )}
+            {runDetail.approvals && runDetail.approvals.length > 0 && (
+              <div className="mt-2 p-2 bg-background/50 rounded text-xs max-h-20 overflow-auto">
+                <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                  <ShieldAlert size={12} />
+                  <span>{t('views.runHistory.approvals')}:</span>
+                </div>
+                {runDetail.approvals.map(approval => (
+                  <div key={approval.requestId} className="flex items-center gap-2">
+                    <span className="flex-1 font-mono truncate" title={approval.matchedRule}>{approval.target}</span>
+                    <span className={approval.decision === 'deny' || approval.decision === 'cancelled' ? 'text-red-500' : 'text-green-500'}>
+                      {t(`views.runHistory.approvalDecision.${approval.decision}`)}
+                      {approval.automatic && ` (${t('views.runHistory.approvalAutomatic')})`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             {runDetail.filesModified.length > 0 && (
               <div className="mt-2 p-2 bg-background/50 rounded text-xs max-h-20 overflow-auto">
                 <div className="text-muted-foreground mb-1">{t('views.runHistory.modifiedFiles')}:</div>
-                {runDetail.filesModified.slice(0, 5).map((file, i) => (
-                  <div key={i} className="font-mono truncate">{file}</div>
-                ))}
-                {runDetail.filesModified.length > 5 && (
+                {checkpoint ? (
+                  // Checkpointed files can be rolled back one by one
+                  checkpoint.files.map(file => (
+                    <div key={file.path} className="flex items-center gap-2">
+                      <span className="flex-1 font-mono truncate">{file.path}</span>
+                      {file.rolledBackAt ? (
+                        <span className="text-muted-foreground">{t('views.runHistory.rolledBack')}</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRollback(file.path)}
+                          disabled={rollingBack}
+                          className="text-muted-foreground hover:text-red-400 disabled:opacity-50"
+                          title={t('views.runHistory.rollbackFile')}
+                        >
+                          <Undo2 size={10} />
+                        </button>
+                      )}
+                    </div>
+                  ))
+                ) : (
+                  runDetail.filesModified.slice(0, 5).map((file, i) => (
+                    <div key={i} className="font-mono truncate">{file}</div>
+                  ))
+                )}
+                {!checkpoint && runDetail.filesModified.length > 5 && (
                   <div className="text-muted-foreground">
                     +{runDetail.filesModified.length - 5} more
                   </div>
@@ -46,6 +46,7 @@ import {
   ExternalLink,
   Globe,
   GitBranch,
+  Columns,
   ChevronDown,
   ChevronUp,
   RotateCcw,
@@ -53,21 +54,36 @@ import {
   Zap,
   Eye,
   EyeOff,
+  Server,
+  Network,
+  Database,
+  Archive,
 } from 'lucide-react';
 import { GitSettingsPanel } from './Git/GitSettingsPanel';
+import { BoardWorkflowSettings } from './BoardWorkflowSettings';
 import { useThemeContext } from '../contexts/ThemeContext';
 import { useSettingsTabs, type SettingsTabContribution } from '../contexts/ExtensionPointsContext';
 import { PluginComponentLoader } from '../plugins/PluginComponentLoader';
 import * as LucideIcons from 'lucide-react';
-import type { ProjectSettings, DetectedCommands, NotificationSound, PluginInfo, UpdatePreferences, Skill } from '../../shared/types';
+import type { ProjectSettings, DetectedCommands, NotificationSound, PluginInfo, UpdatePreferences, Skill, ProviderType, ProviderChainSettings, OpenAICompatibleSettings, ApiServerStatus, McpServerConfig, McpServerStatus, RunnerSandboxSettings, StorageBackendType, StorageInfo, ProjectArchiveManifest, ProjectImportOptions } from '../../shared/types';
+import { createDefaultProviderChainSettings, createDefaultRunnerSandboxSettings } from '../../shared/schemas/factories';
 import { useTranslation } from '../i18n/useTranslation';
 import type { Locale } from '../i18n';
 
 // Built-in tabs
-type BuiltInSettingsTab = 'notifications' | 'commands' | 'runner' | 'integrations' | 'git' | 'language' | 'themes' | 'plugins' | 'skills' | 'updates' | 'other';
+type BuiltInSettingsTab = 'notifications' | 'commands' | 'runner' | 'integrations' | 'board' | 'git' | 'language' | 'themes' | 'plugins' | 'skills' | 'updates' | 'other';
 // All tabs including plugin tabs (plugin tabs use format: plugin:pluginId:tabId)
 type SettingsTab = BuiltInSettingsTab | `plugin:${string}`;
 
+// Providers that can be part of the fallback chain
+const CHAIN_PROVIDERS: Array<{ type: ProviderType; name: string }> = [
+  { type: 'claude-code', name: 'Claude Code' },
+  { type: 'opencode', name: 'OpenCode' },
+  { type: 'codex', name: 'Codex' },
+  { type: 'anthropic', name: 'Anthropic API' },
+  { type: 'openai-compatible', name: 'OpenAI-compatible' },
+];
+
 // Helper to get Lucide icon by name
 const getLucideIcon = (iconName: string, size: number = 16): React.ReactNode => {
   const Icon = (LucideIcons as Record<string, React.FC<{ size?: number }>>)[iconName];
@@ -120,6 +136,32 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
   const [vscodeVersion, setVscodeVersion] = useState<string | null>(null);
   const [checkingVscode, setCheckingVscode] = useState(true);
 
+  // OpenAI-compatible server state
+  const [openAIServer, setOpenAIServer] = useState<OpenAICompatibleSettings>({ baseUrl: '', model: '', apiKey: '' });
+  const [savingOpenAIServer, setSavingOpenAIServer] = useState(false);
+
+  // Local API server state
+  const [apiServer, setApiServer] = useState<ApiServerStatus | null>(null);
+  const [apiPort, setApiPort] = useState('');
+  const [showApiToken, setShowApiToken] = useState(false);
+  const [savingApiServer, setSavingApiServer] = useState(false);
+
+  // MCP servers state
+  const [mcpStatus, setMcpStatus] = useState<McpServerStatus[]>([]);
+  const [loadingMcpServers, setLoadingMcpServers] = useState(false);
+  const [newMcpServer, setNewMcpServer] = useState({ name: '', command: '' });
+
+  // Storage backend state
+  const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
+  const [migratingStorage, setMigratingStorage] = useState(false);
+
+  // Project archive state
+  const [archiveIncludeRuns, setArchiveIncludeRuns] = useState(false);
+  const [exportingArchive, setExportingArchive] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<{ filePath: string; manifest: ProjectArchiveManifest } | null>(null);
+  const [importOptions, setImportOptions] = useState<ProjectImportOptions>({ mode: 'merge', skipDuplicates: true });
+  const [importingArchive, setImportingArchive] = useState(false);
+
   // Update preferences state
   const [updatePrefs, setUpdatePrefs] = useState<UpdatePreferences | null>(null);
   const [checkingUpdate, setCheckingUpdate] = useState(false);
@@ -144,10 +186,18 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
   useEffect(() => {
     loadSettings();
     loadVSCodeStatus();
+    loadOpenAIServer();
+    loadApiServer();
     loadUpdatePreferences();
     loadSkills();
+    loadStorageInfo();
   }, []);
 
+  // MCP servers are started to list their tools, so only when they are shown
+  useEffect(() => {
+    if (activeTab === 'integrations') loadMcpServers();
+  }, [activeTab]);
+
   // Track changes
   useEffect(() => {
     if (settings && originalSettings) {
@@ -155,6 +205,99 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
     }
   }, [settings, originalSettings]);
 
+  const loadStorageInfo = async () => {
+    try {
+      setStorageInfo(await window.dexteria.settings.getStorageInfo());
+    } catch (err) {
+      console.error('Failed to load storage info:', err);
+    }
+  };
+
+  const handleMigrateStorage = async (target: StorageBackendType) => {
+    const confirmed = await confirm({
+      title: t('views.settings.storage.migrate'),
+      message: t('views.settings.storage.migrateConfirm', { backend: t(`views.settings.storage.backends.${target}`) }),
+      confirmText: t('views.settings.storage.migrate'),
+      cancelText: t('actions.cancel'),
+    });
+    if (!confirmed) return;
+
+    setMigratingStorage(true);
+    try {
+      const result = await window.dexteria.settings.migrateStorage(target);
+      if (result.success && result.info) {
+        setStorageInfo(result.info);
+        // Keep the loaded settings in line with the file, so saving them does not look like a change
+        setSettings(prev => prev ? { ...prev, storage: { backend: target } } : prev);
+        setOriginalSettings(prev => prev ? { ...prev, storage: { backend: target } } : prev);
+        toast.success(t('views.settings.storage.migrated', { backend: t(`views.settings.storage.backends.${target}`) }));
+      } else {
+        toast.error(result.error || t('views.settings.storage.migrateFailed'));
+      }
+    } finally {
+      setMigratingStorage(false);
+    }
+  };
+
+  const handleExportArchive = async () => {
+    setExportingArchive(true);
+    try {
+      const result = await window.dexteria.project.exportArchive({ includeRuns: archiveIncludeRuns });
+      if (result.success && result.manifest) {
+        toast.success(t('views.settings.archive.exported', { count: result.manifest.taskCount }));
+      } else if (result.error !== 'Cancelled') {
+        toast.error(result.error || t('views.settings.archive.exportFailed'));
+      }
+    } finally {
+      setExportingArchive(false);
+    }
+  };
+
+  const handleSelectArchive = async () => {
+    const result = await window.dexteria.project.selectArchive();
+    if (result.success && result.filePath && result.manifest) {
+      setPendingArchive({ filePath: result.filePath, manifest: result.manifest });
+      setImportOptions({ mode: 'merge', skipDuplicates: true });
+    } else if (result.error !== 'Cancelled') {
+      toast.error(result.error || t('views.settings.archive.importFailed'));
+    }
+  };
+
+  const handleImportArchive = async () => {
+    if (!pendingArchive) return;
+
+    if (importOptions.mode === 'replace') {
+      const confirmed = await confirm({
+        title: t('views.settings.archive.import'),
+        message: t('views.settings.archive.replaceConfirm'),
+        confirmText: t('views.settings.archive.import'),
+        cancelText: t('actions.cancel'),
+        variant: 'danger',
+      });
+      if (!confirmed) return;
+    }
+
+    setImportingArchive(true);
+    try {
+      const response = await window.dexteria.project.importArchive(pendingArchive.filePath, importOptions);
+      if (response.success && response.result) {
+        const { result } = response;
+        toast.success(t('views.settings.archive.imported', { count: result.tasksImported, skipped: result.tasksSkipped }));
+        if (result.warnings.length > 0) {
+          toast.warning(t('views.settings.archive.importWarnings', { count: result.warnings.length }));
+          console.warn('Project import warnings:', result.warnings);
+        }
+        setPendingArchive(null);
+        // Policy, settings and task counts may have changed
+        await Promise.all([loadSettings(), loadStorageInfo()]);
+      } else {
+        toast.error(response.error || t('views.settings.archive.importFailed'));
+      }
+    } finally {
+      setImportingArchive(false);
+    }
+  };
+
   const loadSettings = async () => {
     setLoading(true);
     try {
@@ -265,6 +408,140 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
     }
   };
 
+  const loadOpenAIServer = async () => {
+    try {
+      const saved = await window.dexteria?.settings?.getOpenAICompatible?.();
+      if (saved) {
+        setOpenAIServer({ ...saved, apiKey: saved.apiKey || '' });
+      }
+    } catch (error) {
+      console.error('Failed to load OpenAI-compatible settings:', error);
+    }
+  };
+
+  const handleSaveOpenAIServer = async (activate: boolean) => {
+    setSavingOpenAIServer(true);
+    try {
+      const result = await window.dexteria.settings.setOpenAICompatible(openAIServer);
+      if (!result.success) {
+        toast.error(result.error || t('views.settings.integrations.openAI.saveFailed'));
+      } else if (activate) {
+        const switched = await window.dexteria.settings.setProvider('openai-compatible');
+        if (switched.success) {
+          toast.success(t('views.settings.integrations.openAI.activated', { provider: switched.provider }));
+        } else {
+          toast.error(switched.error || t('views.settings.integrations.openAI.saveFailed'));
+        }
+      } else {
+        toast.success(t('views.settings.integrations.openAI.saved'));
+      }
+    } catch (error) {
+      console.error('Failed to save OpenAI-compatible settings:', error);
+      toast.error(t('views.settings.integrations.openAI.saveFailed'));
+    }
+    setSavingOpenAIServer(false);
+  };
+
+  const loadApiServer = async () => {
+    try {
+      const status = await window.dexteria?.settings?.getApiServer?.();
+      if (status) {
+        setApiServer(status);
+        setApiPort(String(status.settings.port));
+      }
+    } catch (error) {
+      console.error('Failed to load API server settings:', error);
+    }
+  };
+
+  const loadMcpServers = async (reconnect = false) => {
+    setLoadingMcpServers(true);
+    try {
+      const status = reconnect
+        ? await window.dexteria.settings.reconnectMcpServers()
+        : await window.dexteria?.settings?.getMcpServers?.();
+      setMcpStatus(status || []);
+    } catch (error) {
+      console.error('Failed to load MCP servers:', error);
+    }
+    setLoadingMcpServers(false);
+  };
+
+  const handleSaveMcpServers = async (mcpServers: McpServerConfig[]) => {
+    try {
+      const result = await window.dexteria.settings.updateProject({ mcpServers });
+      if (!result.success) {
+        toast.error(result.error || t('views.settings.integrations.mcp.saveFailed'));
+        return;
+      }
+      // Keep the loaded settings in line with the file, so saving them does not look like a change
+      setSettings(prev => prev ? { ...prev, mcpServers } : prev);
+      setOriginalSettings(prev => prev ? { ...prev, mcpServers } : prev);
+      await loadMcpServers();
+    } catch (error) {
+      console.error('Failed to save MCP servers:', error);
+      toast.error(t('views.settings.integrations.mcp.saveFailed'));
+    }
+  };
+
+  const handleAddMcpServer = async () => {
+    const name = newMcpServer.name.trim();
+    // Split the command line on spaces, keeping quoted arguments whole
+    const [command, ...args] = (newMcpServer.command.match(/"[^"]*"|'[^']*'|\S+/g) || [])
+      .map(part => part.replace(/^(["'])(.*)\1$/, '$2'));
+    if (!name || !command) return;
+
+    const servers = settings?.mcpServers || [];
+    if (!/^[a-zA-Z0-9-]+$/.test(name) || servers.some(server => server.name === name)) {
+      toast.error(t('views.settings.integrations.mcp.invalidName'));
+      return;
+    }
+
+    await handleSaveMcpServers([...servers, { name, command, args, enabled: true }]);
+    setNewMcpServer({ name: '', command: '' });
+  };
+
+  const handleUpdateApiServer = async (patch: { enabled?: boolean; port?: number }) => {
+    setSavingApiServer(true);
+    try {
+      const result = await window.dexteria.settings.setApiServer(patch);
+      setApiServer(result.status);
+      if (!result.success) {
+        toast.error(result.error || t('views.settings.integrations.apiServer.saveFailed'));
+      }
+    } catch (error) {
+      console.error('Failed to update API server:', error);
+      toast.error(t('views.settings.integrations.apiServer.saveFailed'));
+    }
+    setSavingApiServer(false);
+  };
+
+  const handleCopyApiToken = async () => {
+    try {
+      await navigator.clipboard.writeText(apiServer?.settings.token || '');
+      toast.success(t('views.settings.integrations.apiServer.tokenCopied'));
+    } catch (error) {
+      console.error('Failed to copy API token:', error);
+    }
+  };
+
+  const handleRegenerateApiToken = async () => {
+    const confirmed = await confirm({
+      title: t('views.settings.integrations.apiServer.regenerateToken'),
+      message: t('views.settings.integrations.apiServer.regenerateConfirm'),
+      confirmText: t('views.settings.integrations.apiServer.regenerateToken'),
+      cancelText: t('actions.cancel'),
+    });
+    if (!confirmed) return;
+
+    try {
+      setApiServer(await window.dexteria.settings.regenerateApiToken());
+    } catch (error) {
+      console.error('Failed to regenerate API token:', error);
+      toast.error(t('views.settings.integrations.apiServer.saveFailed'));
+    }
+  };
+
   const handleOpenDownloadPage = async () => {
     try {
       await window.dexteria?.vscode?.openDownloadPage?.();
@@ -370,6 +647,33 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
     });
   };
 
+  const updateProviderChain = (patch: Partial<ProviderChainSettings>) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      providers: { ...(settings.providers || createDefaultProviderChainSettings()), ...patch },
+    });
+  };
+
+  const updateSandbox = (patch: Partial<RunnerSandboxSettings>) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      runner: {
+        ...settings.runner,
+        sandbox: { ...(settings.runner.sandbox || createDefaultRunnerSandboxSettings()), ...patch },
+      },
+    });
+  };
+
+  const moveChainProvider = (index: number, offset: -1 | 1) => {
+    const chain = [...(settings?.providers?.chain || [])];
+    const target = index + offset;
+    if (target < 0 || target >= chain.length) return;
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    updateProviderChain({ chain });
+  };
+
   const handleDetectCommands = async () => {
     const detected = await window.dexteria.settings.detectCommands() as DetectedCommands;
     setDetectedCommands(detected);
@@ -427,6 +731,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
     { id: 'commands', label: t('labels.commands'), icon: <Terminal size={16} /> },
     { id: 'runner', label: t('labels.runner'), icon: <Clock size={16} /> },
     { id: 'integrations', label: t('labels.integrations'), icon: <Code2 size={16} /> },
+    { id: 'board', label: t('labels.board'), icon: <Columns size={16} /> },
     { id: 'git', label: 'Git', icon: <GitBranch size={16} /> },
     { id: 'language', label: t('labels.language'), icon: <Globe size={16} /> },
     { id: 'themes', label: t('labels.themes'), icon: <Palette size={16} /> },
@@ -465,6 +770,11 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
     );
   }
 
+  const providerChain = settings.providers || createDefaultProviderChainSettings();
+  const sandbox = settings.runner.sandbox || createDefaultRunnerSandboxSettings();
+  const parseList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+  const parseLimit = (value: string) => Math.max(0, parseInt(value) || 0) || undefined;
+
   return (
     <div className="h-full flex flex-col bg-background">
       {/* Header */}
@@ -790,6 +1100,251 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
                   </div>
                 </div>
               </div>
+
+              <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{t('views.settings.runner.ralphConcurrency')}</div>
+                    <div className="text-sm text-muted-foreground">{t('views.settings.runner.ralphConcurrencyDesc')}</div>
+                  </div>
+                  <Input
+                    type="number"
+                    value={settings.runner.ralphMaxConcurrency ?? 1}
+                    onChange={(e) => setSettings({
+                      ...settings,
+                      runner: { ...settings.runner, ralphMaxConcurrency: Math.max(1, parseInt(e.target.value) || 1) },
+                    })}
+                    min={1}
+                    max={8}
+                    className="w-24 text-right"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold mb-1">{t('views.settings.runner.sandbox.title')}</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {t('views.settings.runner.sandbox.description')}
+                </p>
+              </div>
+
+              <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{t('views.settings.runner.sandbox.enabled')}</div>
+                    <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.enabledDesc')}</div>
+                  </div>
+                  <Switch
+                    checked={sandbox.enabled}
+                    onCheckedChange={(checked) => updateSandbox({ enabled: checked })}
+                  />
+                </div>
+
+                {sandbox.enabled && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{t('views.settings.runner.sandbox.scratchHome')}</div>
+                        <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.scratchHomeDesc')}</div>
+                      </div>
+                      <Switch
+                        checked={sandbox.scratchHome}
+                        onCheckedChange={(checked) => updateSandbox({ scratchHome: checked })}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{t('views.settings.runner.sandbox.denyNetwork')}</div>
+                        <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.denyNetworkDesc')}</div>
+                      </div>
+                      <Switch
+                        checked={sandbox.denyNetwork}
+                        onCheckedChange={(checked) => updateSandbox({ denyNetwork: checked })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="font-medium">{t('views.settings.runner.sandbox.envAllowlist')}</div>
+                      <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.envAllowlistDesc')}</div>
+                      <Input
+                        key={sandbox.envAllowlist.join(',')}
+                        defaultValue={sandbox.envAllowlist.join(', ')}
+                        onBlur={(e) => updateSandbox({ envAllowlist: parseList(e.target.value) })}
+                        placeholder="PATH, LANG, NODE_*"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="font-medium">{t('views.settings.runner.sandbox.envRedact')}</div>
+                      <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.envRedactDesc')}</div>
+                      <Input
+                        key={sandbox.envRedact.join(',')}
+                        defaultValue={sandbox.envRedact.join(', ')}
+                        onBlur={(e) => updateSandbox({ envRedact: parseList(e.target.value) })}
+                        placeholder="*TOKEN*, AWS_*"
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{t('views.settings.runner.sandbox.maxCpu')}</div>
+                        <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.posixOnly')}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          value={sandbox.maxCpuSeconds ?? ''}
+                          onChange={(e) => updateSandbox({ maxCpuSeconds: parseLimit(e.target.value) })}
+                          min={0}
+                          className="w-24 text-right"
+                        />
+                        <span className="text-sm text-muted-foreground">{t('views.settings.runner.seconds')}</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{t('views.settings.runner.sandbox.maxMemory')}</div>
+                        <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.posixOnly')}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          value={sandbox.maxMemoryMb ?? ''}
+                          onChange={(e) => updateSandbox({ maxMemoryMb: parseLimit(e.target.value) })}
+                          min={0}
+                          className="w-24 text-right"
+                        />
+                        <span className="text-sm text-muted-foreground">MB</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{t('views.settings.runner.sandbox.maxOutput')}</div>
+                        <div className="text-sm text-muted-foreground">{t('views.settings.runner.sandbox.maxOutputDesc')}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          value={sandbox.maxOutputBytes ?? ''}
+                          onChange={(e) => updateSandbox({ maxOutputBytes: parseLimit(e.target.value) })}
+                          min={0}
+                          className="w-32 text-right"
+                        />
+                        <span className="text-sm text-muted-foreground">bytes</span>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold mb-1">{t('views.settings.runner.providerChain.title')}</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {t('views.settings.runner.providerChain.description')}
+                </p>
+              </div>
+
+              <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-2">
+                {providerChain.chain.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('views.settings.runner.providerChain.empty')}</p>
+                ) : (
+                  providerChain.chain.map((type, index) => (
+                    <div key={type} className="flex items-center justify-between p-2 bg-background rounded-md border border-border">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-muted-foreground w-5">{index + 1}.</span>
+                        <span className="font-medium">{CHAIN_PROVIDERS.find(p => p.type === type)?.name || type}</span>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => moveChainProvider(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 hover:bg-muted rounded disabled:opacity-30"
+                          title={t('views.settings.runner.providerChain.moveUp')}
+                        >
+                          <ChevronUp size={14} />
+                        </button>
+                        <button
+                          onClick={() => moveChainProvider(index, 1)}
+                          disabled={index === providerChain.chain.length - 1}
+                          className="p-1 hover:bg-muted rounded disabled:opacity-30"
+                          title={t('views.settings.runner.providerChain.moveDown')}
+                        >
+                          <ChevronDown size={14} />
+                        </button>
+                        <button
+                          onClick={() => updateProviderChain({ chain: providerChain.chain.filter(p => p !== type) })}
+                          className="p-1 hover:bg-muted rounded text-muted-foreground"
+                          title={t('views.settings.runner.providerChain.remove')}
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+                {CHAIN_PROVIDERS.some(p => !providerChain.chain.includes(p.type)) && (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) {
+                        updateProviderChain({ chain: [...providerChain.chain, e.target.value as ProviderType] });
+                      }
+                    }}
+                    className="px-3 py-1.5 rounded-md border border-border bg-background text-sm"
+                  >
+                    <option value="">{t('views.settings.runner.providerChain.add')}</option>
+                    {CHAIN_PROVIDERS.filter(p => !providerChain.chain.includes(p.type)).map(p => (
+                      <option key={p.type} value={p.type}>{p.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{t('views.settings.runner.providerChain.maxRetries')}</div>
+                    <div className="text-sm text-muted-foreground">{t('views.settings.runner.providerChain.maxRetriesDesc')}</div>
+                  </div>
+                  <Input
+                    type="number"
+                    value={providerChain.maxRetries}
+                    onChange={(e) => updateProviderChain({ maxRetries: Math.max(0, parseInt(e.target.value) || 0) })}
+                    min={0}
+                    max={10}
+                    className="w-24 text-right"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{t('views.settings.runner.providerChain.initialBackoff')}</div>
+                    <div className="text-sm text-muted-foreground">{t('views.settings.runner.providerChain.initialBackoffDesc')}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      value={providerChain.initialBackoffMs}
+                      onChange={(e) => updateProviderChain({ initialBackoffMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                      min={0}
+                      className="w-24 text-right"
+                    />
+                    <span className="text-sm text-muted-foreground">ms</span>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{t('views.settings.runner.providerChain.maxBackoff')}</div>
+                    <div className="text-sm text-muted-foreground">{t('views.settings.runner.providerChain.maxBackoffDesc')}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      value={providerChain.maxBackoffMs}
+                      onChange={(e) => updateProviderChain({ maxBackoffMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                      min={0}
+                      className="w-24 text-right"
+                    />
+                    <span className="text-sm text-muted-foreground">ms</span>
+                  </div>
+                </div>
+              </div>
             </div>
           )}
 
@@ -908,15 +1463,282 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
                 )}
               </div>
 
+              {/* OpenAI-compatible Server */}
+              <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-muted text-muted-foreground">
+                    <Server size={20} />
+                  </div>
+                  <div>
+                    <div className="font-medium">{t('views.settings.integrations.openAI.title')}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {t('views.settings.integrations.openAI.description')}
+                    </div>
+                  </div>
+                </div>
+                <Input
+                  value={openAIServer.baseUrl}
+                  onChange={(e) => setOpenAIServer({ ...openAIServer, baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    value={openAIServer.model}
+                    onChange={(e) => setOpenAIServer({ ...openAIServer, model: e.target.value })}
+                    placeholder={t('views.settings.integrations.openAI.modelPlaceholder')}
+                  />
+                  <Input
+                    type="password"
+                    value={openAIServer.apiKey || ''}
+                    onChange={(e) => setOpenAIServer({ ...openAIServer, apiKey: e.target.value })}
+                    placeholder={t('views.settings.integrations.openAI.apiKeyPlaceholder')}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleSaveOpenAIServer(false)}
+                    disabled={savingOpenAIServer}
+                  >
+                    {t('actions.save')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSaveOpenAIServer(true)}
+                    disabled={savingOpenAIServer}
+                  >
+                    {t('views.settings.integrations.openAI.useProvider')}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Local API Server */}
+              {apiServer && (
+                <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <div className={cn(
+                        "w-10 h-10 rounded-lg flex items-center justify-center",
+                        apiServer.running ? "bg-green-500/10 text-green-500" : "bg-muted text-muted-foreground"
+                      )}>
+                        <Network size={20} />
+                      </div>
+                      <div>
+                        <div className="font-medium">{t('views.settings.integrations.apiServer.title')}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {t('views.settings.integrations.apiServer.description')}
+                        </div>
+                      </div>
+                    </div>
+                    <Switch
+                      checked={apiServer.settings.enabled}
+                      disabled={savingApiServer}
+                      onCheckedChange={(checked) => handleUpdateApiServer({ enabled: checked })}
+                    />
+                  </div>
+
+                  {apiServer.settings.enabled && (
+                    <>
+                      {apiServer.running ? (
+                        <div className="text-sm text-green-500">
+                          {t('views.settings.integrations.apiServer.running', { url: apiServer.url ?? '' })}
+                        </div>
+                      ) : apiServer.error && (
+                        <AlertBanner
+                          variant="error"
+                          icon={<AlertTriangle size={14} />}
+                          description={t('views.settings.integrations.apiServer.startFailed', { error: apiServer.error ?? '' })}
+                        />
+                      )}
+
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground w-16">{t('views.settings.integrations.apiServer.port')}</span>
+                        <Input
+                          type="number"
+                          className="w-28"
+                          value={apiPort}
+                          onChange={(e) => setApiPort(e.target.value)}
+                        />
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => handleUpdateApiServer({ port: Number(apiPort) })}
+                          disabled={savingApiServer || apiPort === String(apiServer.settings.port)}
+                        >
+                          {t('actions.save')}
+                        </Button>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground w-16">{t('views.settings.integrations.apiServer.token')}</span>
+                        <Input
+                          readOnly
+                          type={showApiToken ? 'text' : 'password'}
+                          className="font-mono text-xs"
+                          value={apiServer.settings.token}
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => setShowApiToken(!showApiToken)}>
+                          {showApiToken ? <EyeOff size={14} /> : <Eye size={14} />}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={handleCopyApiToken}>
+                          <Copy size={14} />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={handleRegenerateApiToken}>
+                          <RefreshCw size={14} />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {t('views.settings.integrations.apiServer.usage')}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* MCP Servers */}
+              {settings && (
+                <div className="p-4 bg-muted/50 rounded-lg border border-border space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-muted text-muted-foreground">
+                        <Zap size={20} />
+                      </div>
+                      <div>
+                        <div className="font-medium">{t('views.settings.integrations.mcp.title')}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {t('views.settings.integrations.mcp.description')}
+                        </div>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => loadMcpServers(true)}
+                      disabled={loadingMcpServers}
+                      title={t('views.settings.integrations.mcp.reconnect')}
+                    >
+                      {loadingMcpServers ? <Spinner size="xs" /> : <RefreshCw size={14} />}
+                    </Button>
+                  </div>
+
+                  {(settings.mcpServers || []).map((server) => {
+                    const status = mcpStatus.find(s => s.name === server.name);
+                    return (
+                      <div key={server.name} className="p-3 bg-background rounded-md border border-border space-y-2">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-sm">{server.name}</span>
+                              {status && (
+                                <span className={cn(
+                                  "text-xs px-1.5 py-0.5 rounded",
+                                  status.state === 'connected' ? "bg-green-500/10 text-green-500"
+                                    : status.state === 'error' ? "bg-red-500/10 text-red-400"
+                                    : "bg-muted text-muted-foreground"
+                                )}>
+                                  {t(`views.settings.integrations.mcp.states.${status.state}`)}
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-xs text-muted-foreground font-mono truncate">
+                              {[server.command, ...(server.args || [])].join(' ')}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={server.enabled}
+                              onCheckedChange={(checked) => handleSaveMcpServers(
+                                (settings.mcpServers || []).map(s => s.name === server.name ? { ...s, enabled: checked } : s)
+                              )}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSaveMcpServers((settings.mcpServers || []).filter(s => s.name !== server.name))}
+                              className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                              title={t('actions.delete')}
+                            >
+                              <Trash2 size={14} />
+                            </Button>
+                          </div>
+                        </div>
+
+                        {status?.error && (
+                          <AlertBanner
+                            variant="error"
+                            icon={<AlertTriangle size={14} />}
+                            description={t('views.settings.integrations.mcp.startFailed', { error: status.error })}
+                          />
+                        )}
+
+                        {status && status.tools.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {status.tools.map((tool) => (
+                              <span
+                                key={tool.name}
+                                className="text-xs font-mono px-1.5 py-0.5 rounded bg-muted text-muted-foreground"
+                                title={tool.description ? `${tool.name}\n${tool.description}` : tool.name}
+                              >
+                                {tool.toolName}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="w-36"
+                      value={newMcpServer.name}
+                      onChange={(e) => setNewMcpServer({ ...newMcpServer, name: e.target.value })}
+                      placeholder={t('views.settings.integrations.mcp.namePlaceholder')}
+                    />
+                    <Input
+                      className="font-mono text-xs"
+                      value={newMcpServer.command}
+                      onChange={(e) => setNewMcpServer({ ...newMcpServer, command: e.target.value })}
+                      placeholder="npx -y @modelcontextprotocol/server-filesystem ."
+                    />
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleAddMcpServer}
+                      disabled={!newMcpServer.name.trim() || !newMcpServer.command.trim()}
+                    >
+                      <Plus size={14} />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t('views.settings.integrations.mcp.usage')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('views.settings.integrations.mcp.scope')}
+                  </p>
+                </div>
+              )}
+
               <p className="text-xs text-muted-foreground">
                 {t('views.settings.integrations.moreIntegrations')}
               </p>
             </div>
           )}
 
+          {/* Board Tab */}
+          {activeTab === 'board' && (
+            <BoardWorkflowSettings />
+          )}
+
           {/* Git Tab */}
           {activeTab === 'git' && (
-            <GitSettingsPanel />
+            <GitSettingsPanel
+              onSave={async (config) => {
+                const result = await window.dexteria.git.setConfig(config);
+                if (!result.success) throw new Error(result.error);
+              }}
+            />
           )}
 
           {/* Language Tab */}
@@ -1919,6 +2741,120 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onOpenThemeEditor
                 </p>
               </div>
 
+              {/* Storage Backend */}
+              {storageInfo && (
+                <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Database size={18} className="text-muted-foreground" />
+                    <h4 className="font-semibold">{t('views.settings.storage.title')}</h4>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {t('views.settings.storage.description')}
+                  </p>
+                  <p className="text-sm">
+                    {t('views.settings.storage.current', {
+                      backend: t(`views.settings.storage.backends.${storageInfo.backend}`),
+                    })}
+                    <span className="text-muted-foreground">
+                      {' · '}
+                      {t('views.settings.storage.counts', {
+                        tasks: storageInfo.taskCount,
+                        activity: storageInfo.activityCount,
+                        revisions: storageInfo.revisionCount,
+                        runs: storageInfo.runCount,
+                      })}
+                    </span>
+                  </p>
+                  <Button
+                    variant="secondary"
+                    disabled={migratingStorage}
+                    onClick={() => handleMigrateStorage(storageInfo.backend === 'json' ? 'sqlite' : 'json')}
+                  >
+                    {migratingStorage ? <Spinner size="xs" className="mr-2" /> : <Database size={14} className="mr-2" />}
+                    {t(storageInfo.backend === 'json' ? 'views.settings.storage.moveToSqlite' : 'views.settings.storage.moveToJson')}
+                  </Button>
+                </div>
+              )}
+
+              {/* Project Archive */}
+              <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+                <div className="flex items-center gap-2">
+                  <Archive size={18} className="text-muted-foreground" />
+                  <h4 className="font-semibold">{t('views.settings.archive.title')}</h4>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {t('views.settings.archive.description')}
+                </p>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium">{t('views.settings.archive.includeRuns')}</div>
+                    <div className="text-xs text-muted-foreground">{t('views.settings.archive.includeRunsDesc')}</div>
+                  </div>
+                  <Switch checked={archiveIncludeRuns} onCheckedChange={setArchiveIncludeRuns} />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="secondary" disabled={exportingArchive} onClick={handleExportArchive}>
+                    {exportingArchive ? <Spinner size="xs" className="mr-2" /> : <Download size={14} className="mr-2" />}
+                    {t('views.settings.archive.export')}
+                  </Button>
+                  <Button variant="secondary" disabled={importingArchive} onClick={handleSelectArchive}>
+                    <Upload size={14} className="mr-2" />
+                    {t('views.settings.archive.import')}
+                  </Button>
+                </div>
+
+                {pendingArchive && (
+                  <div className="p-3 bg-background border border-border rounded-md space-y-3">
+                    <p className="text-sm">
+                      {t('views.settings.archive.summary', {
+                        name: pendingArchive.manifest.projectName,
+                        count: pendingArchive.manifest.taskCount,
+                        date: new Date(pendingArchive.manifest.exportedAt).toLocaleString(),
+                      })}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['merge', 'replace'] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => setImportOptions(prev => ({ ...prev, mode }))}
+                          className={cn(
+                            "p-3 rounded-md border text-left transition-colors",
+                            importOptions.mode === mode
+                              ? "border-primary bg-primary/10"
+                              : "border-border hover:border-primary/50"
+                          )}
+                        >
+                          <div className="text-sm font-medium">{t(`views.settings.archive.modes.${mode}`)}</div>
+                          <div className="text-xs text-muted-foreground">{t(`views.settings.archive.modes.${mode}Desc`)}</div>
+                        </button>
+                      ))}
+                    </div>
+                    {importOptions.mode === 'merge' && (
+                      <div className="space-y-2">
+                        {(['skipDuplicates', 'includePolicy', 'includeSettings'] as const).map((option) => (
+                          <div key={option} className="flex items-center justify-between">
+                            <span className="text-sm">{t(`views.settings.archive.options.${option}`)}</span>
+                            <Switch
+                              checked={importOptions[option] ?? false}
+                              onCheckedChange={(checked) => setImportOptions(prev => ({ ...prev, [option]: checked }))}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" disabled={importingArchive} onClick={() => setPendingArchive(null)}>
+                        {t('actions.cancel')}
+                      </Button>
+                      <Button disabled={importingArchive} onClick={handleImportArchive}>
+                        {importingArchive && <Spinner size="xs" className="mr-2" />}
+                        {t('views.settings.archive.import')}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Danger Zone */}
               <div className="p-4 bg-red-500/5 border border-red-500/20 rounded-lg space-y-4">
                 <div className="flex items-center gap-2">
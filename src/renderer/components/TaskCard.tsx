@@ -3,11 +3,11 @@ import { useDraggable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 import { cn } from '../lib/utils';
 import { Badge, Button } from 'adnia-ui';
-import { GripVertical, AlertCircle, CheckCircle, Clock, Ban, Trash2, Loader2, StopCircle, Play, User, Sparkles, XCircle, Link, Tag, GitBranch, Square, CheckSquare } from 'lucide-react';
+import { GripVertical, AlertCircle, CheckCircle, Clock, Trash2, Loader2, StopCircle, Play, User, Sparkles, XCircle, Link, Tag, GitBranch, GitMerge, GitPullRequest, GitPullRequestClosed, Square, CheckSquare, ListChecks, CornerDownRight } from 'lucide-react';
 import { DoneTimeChip } from './DoneTimeChip';
 import { Slot } from './extension/Slot';
-import type { Task } from '../../shared/types';
-import { hasUnmetDependencies } from '../../shared/schemas/common';
+import type { Column, ColumnCategory, Task } from '../../shared/types';
+import { hasUnmetDependencies, getSubtaskProgress, getStatusCategory, isTerminalStatus } from '../../shared/schemas/common';
 import { t } from '../i18n/t';
 
 interface TaskCardProps {
@@ -19,6 +19,8 @@ interface TaskCardProps {
     isActive?: boolean;
     /** All tasks - used to check if dependencies are met */
     allTasks?: Task[];
+    /** Board columns - used for custom column titles and done columns */
+    columns?: Column[];
     /** Whether bulk selection mode is active */
     isSelectionMode?: boolean;
     /** Whether this task is selected in bulk mode */
@@ -34,21 +36,18 @@ const PriorityIcons = {
     critical: <div className="h-2 w-2 rounded-full bg-red-600 animate-pulse" />,
 };
 
-const StatusIcons = {
+const StatusIcons: Record<ColumnCategory, React.ReactNode> = {
     todo: <AlertCircle className="w-3 h-3" />,
-    doing: <Clock className="w-3 h-3 animate-pulse" />,
+    in_progress: <Clock className="w-3 h-3 animate-pulse" />,
     review: <CheckCircle className="w-3 h-3" />,
     done: <CheckCircle className="w-3 h-3" />,
-    blocked: <Ban className="w-3 h-3 text-red-400" />,
     backlog: <div className="w-3 h-3 rounded-full border border-current opacity-50" />,
 };
 
-// Map task status to badge variant
-const getStatusBadgeClasses = (status: Task['status']) => {
-    switch (status) {
-        case 'blocked':
-            return "bg-red-500/10 text-red-400 border-red-500/20";
-        case 'doing':
+// Map the status column's category to badge variant
+const getStatusBadgeClasses = (category: ColumnCategory) => {
+    switch (category) {
+        case 'in_progress':
             return "bg-blue-500/10 text-blue-400 border-blue-500/20";
         default:
             return "bg-muted/30 border-border";
@@ -63,6 +62,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({
     onRun,
     isActive,
     allTasks,
+    columns,
     isSelectionMode = false,
     isSelected = false,
     onSelectionChange,
@@ -75,14 +75,20 @@ export const TaskCard: React.FC<TaskCardProps> = ({
     const isRunning = task.runtime?.status === 'running';
 
     // Check if task has unmet dependencies
-    const isBlocked = allTasks ? hasUnmetDependencies(task, allTasks) : false;
+    const isBlocked = allTasks ? hasUnmetDependencies(task, allTasks, columns) : false;
     const unmetDepsCount = allTasks && task.dependsOn
         ? task.dependsOn.filter(depId => {
             const depTask = allTasks.find(t => t.id === depId);
-            return !depTask || depTask.status !== 'done';
+            return !depTask || !isTerminalStatus(depTask.status, columns);
         }).length
         : 0;
 
+    // Roll-up of subtask progress (parents only)
+    const subtaskProgress = allTasks ? getSubtaskProgress(allTasks, task.id, columns) : null;
+
+    const statusCategory = getStatusCategory(task.status, columns);
+    const statusTitle = columns?.find(c => c.id === task.status)?.title ?? task.status;
+
     const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
         id: task.id,
         data: { type: 'Task', task },
@@ -311,6 +317,23 @@ export const TaskCard: React.FC<TaskCardProps> = ({
                     </Badge>
                 )}
 
+                {/* Subtask progress badge */}
+                {subtaskProgress && subtaskProgress.total > 0 && (
+                    <Badge
+                        variant="outline"
+                        className={cn(
+                            "text-[10px] px-1.5 py-0.5",
+                            subtaskProgress.done === subtaskProgress.total
+                                ? "bg-green-500/10 text-green-400 border-green-500/30"
+                                : "bg-muted/30 border-border"
+                        )}
+                        title={t('tooltips.subtaskProgress', { done: subtaskProgress.done, total: subtaskProgress.total })}
+                    >
+                        <ListChecks className="w-3 h-3 mr-0.5" />
+                        {subtaskProgress.done}/{subtaskProgress.total}
+                    </Badge>
+                )}
+
                 {/* Plugin slot for task card badges */}
                 <Slot
                     id="task-card:badge"
@@ -363,6 +386,16 @@ export const TaskCard: React.FC<TaskCardProps> = ({
                         {PriorityIcons[task.priority]}
                     </div>
                     <span className="uppercase tracking-wider text-[10px] opacity-70 font-mono">{task.id}</span>
+                    {/* Parent of a subtask */}
+                    {task.parentId && (
+                        <span
+                            className="flex items-center gap-0.5 text-[10px] opacity-70 font-mono"
+                            title={t('tooltips.subtaskOf', { id: task.parentId })}
+                        >
+                            <CornerDownRight className="w-2.5 h-2.5" />
+                            {task.parentId}
+                        </span>
+                    )}
                     {/* Git branch badge */}
                     {task.gitBranch && (
                         <span
@@ -378,6 +411,32 @@ export const TaskCard: React.FC<TaskCardProps> = ({
                             {task.gitBranch.length > 12 ? task.gitBranch.slice(0, 12) + '…' : task.gitBranch}
                         </span>
                     )}
+                    {task.pullRequest && (
+                        <a
+                            href={task.pullRequest.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            onPointerDown={(e) => e.stopPropagation()}
+                            className={cn(
+                                "flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 rounded font-mono hover:underline",
+                                task.pullRequest.state === 'open' && "bg-green-500/20 text-green-400",
+                                task.pullRequest.state === 'draft' && "bg-muted/30 text-muted-foreground",
+                                task.pullRequest.state === 'merged' && "bg-purple-500/20 text-purple-400",
+                                task.pullRequest.state === 'closed' && "bg-red-500/20 text-red-400"
+                            )}
+                            title={t('labels.pullRequest', { state: t(`labels.pullRequestStates.${task.pullRequest.state}`) })}
+                        >
+                            {task.pullRequest.state === 'merged' ? (
+                                <GitMerge className="w-2.5 h-2.5" />
+                            ) : task.pullRequest.state === 'closed' ? (
+                                <GitPullRequestClosed className="w-2.5 h-2.5" />
+                            ) : (
+                                <GitPullRequest className="w-2.5 h-2.5" />
+                            )}
+                            #{task.pullRequest.number}
+                        </a>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-1.5">
@@ -410,18 +469,18 @@ export const TaskCard: React.FC<TaskCardProps> = ({
                     )}
 
                     {/* Show completion time for done tasks */}
-                    {task.status === 'done' && task.completedAt ? (
+                    {statusCategory === 'done' && task.completedAt ? (
                         <DoneTimeChip completedAt={task.completedAt} />
                     ) : (
                         <Badge
                             variant="outline"
                             className={cn(
                                 "text-[10px] px-1.5 py-0.5 font-normal",
-                                getStatusBadgeClasses(task.status)
+                                getStatusBadgeClasses(statusCategory)
                             )}
                         >
-                            {StatusIcons[task.status] || StatusIcons.todo}
-                            <span className="ml-1 capitalize">{task.status}</span>
+                            {StatusIcons[statusCategory]}
+                            <span className="ml-1 capitalize">{statusTitle}</span>
                         </Badge>
                     )}
                 </div>
@@ -1,14 +1,24 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { useActiveTask, useBoard } from '../hooks/useData';
+import { usePolicyProfiles } from '../hooks/usePolicyProfiles';
 import { useMode } from '../contexts/ModeContext';
 import { useConfirm } from '../contexts/ConfirmContext';
 import { useToast } from '../contexts/ToastContext';
 import { cn } from '../lib/utils';
-import { Play, RotateCw, Plus, X, Link, ChevronDown, Search, CheckCircle, XCircle, AlertCircle, Edit2, Trash2, Check, Ban, GripHorizontal, Tag, Calendar, User, Sparkles, Loader2, MoreVertical, Copy, Hash } from 'lucide-react';
+import { Play, RotateCw, Plus, X, Link, ChevronDown, Search, CheckCircle, XCircle, AlertCircle, Edit2, Trash2, Check, Ban, GripHorizontal, Tag, Calendar, User, Sparkles, Loader2, MoreVertical, Copy, Hash, Square, CheckSquare, CornerLeftUp, MessageSquare, History } from 'lucide-react';
 import { TaskComments } from './TaskComments';
+import { TaskHistory } from './TaskHistory';
 import { Button, IconButton, Input, Textarea, ScrollArea } from 'adnia-ui';
 import { Slot } from './extension/Slot';
 import { EPIC_COLORS, type AnalysisResult } from './TaskDetail/index';
+import {
+    findDependencyCycle,
+    getSubtasks,
+    getSubtaskProgress,
+    isTerminalStatus,
+    resolveWorkflow,
+} from '../../shared/schemas/common';
+import { useLayoutStore } from '../docking';
 import type { RunTaskOptions, AcceptanceCriterionResult, TaskEpic } from '../../shared/types';
 
 import { useTranslation } from '../i18n/useTranslation';
@@ -21,7 +31,7 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     const { t } = useTranslation();
     // useActiveTask polls specifically for this task which is good for run updates
     const { task, loading } = useActiveTask(taskId);
-    const { tasks, refresh, deleteTask } = useBoard();
+    const { board, tasks, refresh, deleteTask } = useBoard();
     const { mode, triggerPlannerBlock } = useMode();
     const { confirm } = useConfirm();
     const { warning, error: showError } = useToast();
@@ -30,6 +40,8 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     const [showDepDropdown, setShowDepDropdown] = useState(false);
     const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
     const [newCriterion, setNewCriterion] = useState('');
+    const [newSubtask, setNewSubtask] = useState('');
+    const openView = useLayoutStore((s) => s.openView);
     const [editingCriterionIndex, setEditingCriterionIndex] = useState<number | null>(null);
     const [editingCriterionText, setEditingCriterionText] = useState('');
     const [isEditingDescription, setIsEditingDescription] = useState(false);
@@ -39,6 +51,8 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     const [isEditingAgentPlan, setIsEditingAgentPlan] = useState(false);
     const [agentGoalText, setAgentGoalText] = useState('');
     const [agentScopeText, setAgentScopeText] = useState('');
+    const [agentProfileId, setAgentProfileId] = useState('');
+    const { profiles: policyProfiles } = usePolicyProfiles();
 
     // Epic and Sprint editing state
     const [isEditingEpic, setIsEditingEpic] = useState(false);
@@ -58,6 +72,7 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     // Resizable comments panel
     const [commentsPanelHeight, setCommentsPanelHeight] = useState(250);
     const [isResizing, setIsResizing] = useState(false);
+    const [bottomTab, setBottomTab] = useState<'comments' | 'history'>('comments');
     const startYRef = useRef(0);
     const startHeightRef = useRef(0);
 
@@ -121,6 +136,12 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     // Get task info by ID
     const getTaskById = (id: string) => tasks.find(t => t.id === id);
 
+    const columns = board?.columns;
+    const workflow = resolveWorkflow({ columns: columns ?? [], workflow: board?.workflow });
+    const subtasks = getSubtasks(tasks, task.id);
+    const subtaskProgress = getSubtaskProgress(tasks, task.id, columns);
+    const parentTask = task.parentId ? getTaskById(task.parentId) : undefined;
+
     const handleRun = async (runMode: 'manual' | 'auto' = 'manual') => {
         // Check if we're in planner mode
         if (mode === 'planner') {
@@ -171,8 +192,13 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     };
 
     const handleAddDependency = async (depId: string) => {
+        const newDeps = [...currentDeps, depId];
+        const cycle = findDependencyCycle(tasks, task.id, newDeps);
+        if (cycle) {
+            showError(t('toasts.taskDependencyCycle', { cycle: cycle.join(' → ') }));
+            return;
+        }
         try {
-            const newDeps = [...currentDeps, depId];
             await window.dexteria.tasks.update(task.id, { dependsOn: newDeps });
             setShowDepDropdown(false);
             refresh();
@@ -193,6 +219,39 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
         }
     };
 
+    const handleAddSubtask = async () => {
+        if (!newSubtask.trim()) return;
+        try {
+            const subtask = await window.dexteria.tasks.create(newSubtask.trim(), workflow.ralphSourceColumns[0]);
+            await window.dexteria.tasks.update(subtask.id, { parentId: task.id, epic: task.epic });
+            setNewSubtask('');
+            refresh();
+        } catch (err) {
+            console.error('Failed to add subtask:', err);
+            showError(t('toasts.taskSubtaskFailed'));
+        }
+    };
+
+    const handleToggleSubtask = async (subtaskId: string, done: boolean) => {
+        try {
+            await window.dexteria.tasks.move(subtaskId, done ? workflow.doneColumn : workflow.ralphSourceColumns[0]);
+            refresh();
+        } catch (err) {
+            console.error('Failed to update subtask:', err);
+            showError(t('toasts.taskSubtaskFailed'));
+        }
+    };
+
+    const handleDetachSubtask = async (subtaskId: string) => {
+        try {
+            await window.dexteria.tasks.update(subtaskId, { parentId: null });
+            refresh();
+        } catch (err) {
+            console.error('Failed to detach subtask:', err);
+            showError(t('toasts.taskSubtaskFailed'));
+        }
+    };
+
     const handleAddCriterion = async () => {
         if (!newCriterion.trim()) return;
         try {
@@ -290,6 +349,7 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
     const handleStartEditAgentPlan = () => {
         setAgentGoalText(task.agent?.goal || '');
         setAgentScopeText((task.agent?.scope || []).join('\n'));
+        setAgentProfileId(task.agent?.policyProfileId || '');
         setIsEditingAgentPlan(true);
     };
 
@@ -300,7 +360,8 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
                 agent: {
                     ...task.agent,
                     goal: agentGoalText.trim(),
-                    scope: scopeArray
+                    scope: scopeArray,
+                    policyProfileId: agentProfileId || undefined
                 }
             });
             setIsEditingAgentPlan(false);
@@ -1069,7 +1130,7 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
                                                         <span>•</span>
                                                         <span className={cn(
                                                             "capitalize",
-                                                            depTask.status === 'done' && "text-green-500"
+                                                            isTerminalStatus(depTask.status, columns) && "text-green-500"
                                                         )}>
                                                             {depTask.status}
                                                         </span>
@@ -1093,6 +1154,104 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
                     )}
                 </div>
 
+                {/* Subtasks */}
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                            {t('views.taskDetail.subtasks')}
+                        </h3>
+                        {subtaskProgress.total > 0 && (
+                            <span className={cn(
+                                "text-xs font-mono px-1.5 py-0.5 rounded",
+                                subtaskProgress.done === subtaskProgress.total
+                                    ? "bg-green-500/20 text-green-400"
+                                    : "bg-muted text-muted-foreground"
+                            )}>
+                                {subtaskProgress.done}/{subtaskProgress.total}
+                            </span>
+                        )}
+                    </div>
+
+                    {task.parentId && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openView('taskDetail', { taskId: task.parentId!, taskTitle: parentTask?.title })}
+                            className="text-xs text-muted-foreground mb-2"
+                        >
+                            <CornerLeftUp size={12} />
+                            {t('views.taskDetail.subtaskOf', { id: task.parentId })}
+                            {parentTask && <span className="truncate">{parentTask.title}</span>}
+                        </Button>
+                    )}
+
+                    <div className="space-y-2">
+                        {subtasks.map(subtask => {
+                            const isDone = isTerminalStatus(subtask.status, columns);
+                            return (
+                                <div
+                                    key={subtask.id}
+                                    className="flex items-center gap-2 p-2 rounded-lg bg-muted/10 border border-border group"
+                                >
+                                    <IconButton
+                                        variant="ghost"
+                                        size="xs"
+                                        onClick={() => handleToggleSubtask(subtask.id, !isDone)}
+                                        title={isDone ? t('views.taskDetail.reopenSubtask') : t('views.taskDetail.completeSubtask')}
+                                        aria-label={isDone ? t('views.taskDetail.reopenSubtask') : t('views.taskDetail.completeSubtask')}
+                                    >
+                                        {isDone ? <CheckSquare size={14} className="text-green-500" /> : <Square size={14} />}
+                                    </IconButton>
+                                    <button
+                                        type="button"
+                                        className="flex-1 min-w-0 text-left"
+                                        onClick={() => openView('taskDetail', { taskId: subtask.id, taskTitle: subtask.title })}
+                                    >
+                                        <div className={cn("text-sm truncate", isDone && "line-through text-muted-foreground")}>
+                                            {subtask.title}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground flex items-center gap-2">
+                                            <span className="font-mono">{subtask.id}</span>
+                                            <span>•</span>
+                                            <span className="capitalize">{subtask.status}</span>
+                                        </div>
+                                    </button>
+                                    <IconButton
+                                        variant="ghost"
+                                        size="xs"
+                                        onClick={() => handleDetachSubtask(subtask.id)}
+                                        className="opacity-0 group-hover:opacity-100"
+                                        title={t('views.taskDetail.detachSubtask')}
+                                        aria-label={t('views.taskDetail.detachSubtask')}
+                                    >
+                                        <X size={14} />
+                                    </IconButton>
+                                </div>
+                            );
+                        })}
+
+                        {/* Add new subtask */}
+                        <div className="flex gap-2">
+                            <Input
+                                value={newSubtask}
+                                onChange={(e) => setNewSubtask(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' && newSubtask.trim()) handleAddSubtask();
+                                }}
+                                placeholder={t('placeholders.addSubtask')}
+                                className="flex-1"
+                            />
+                            <Button
+                                onClick={handleAddSubtask}
+                                disabled={!newSubtask.trim()}
+                                size="sm"
+                            >
+                                <Plus size={14} />
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+
                 {/* Acceptance Criteria */}
                 <div>
                     <div className="flex items-center justify-between mb-2">
@@ -1261,6 +1420,19 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
                                     placeholder={t('placeholders.agentScope')}
                                 />
                             </div>
+                            <div>
+                                <label className="text-xs font-medium text-muted-foreground block mb-1">{t('views.taskDetail.policyProfile')}</label>
+                                <select
+                                    value={agentProfileId}
+                                    onChange={(e) => setAgentProfileId(e.target.value)}
+                                    className="w-full h-9 px-3 text-sm rounded-md border border-input bg-background"
+                                >
+                                    <option value="">{t('views.policyEditor.profiles.projectDefault')}</option>
+                                    {policyProfiles.map(profile => (
+                                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                    ))}
+                                </select>
+                            </div>
                             <div className="flex gap-2 justify-end">
                                 <Button variant="ghost" size="sm" onClick={() => setIsEditingAgentPlan(false)}>
                                     {t('actions.cancel')}
@@ -1285,6 +1457,12 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
                                     </ul>
                                 </div>
                             )}
+                            {task.agent.policyProfileId && (
+                                <div className="mt-2">
+                                    <strong className="text-foreground">{t('views.taskDetail.policyProfile')}:</strong>{' '}
+                                    {policyProfiles.find(p => p.id === task.agent.policyProfileId)?.name ?? task.agent.policyProfileId}
+                                </div>
+                            )}
                         </div>
                     ) : (
                         <div
@@ -1334,13 +1512,34 @@ export const TaskDetail: React.FC<TaskDetailProps> = ({ taskId, onClose }) => {
                         )}
                     />
                 </div>
+                <div className="flex items-center gap-1 px-3 border-b border-border">
+                    {(['comments', 'history'] as const).map(tab => (
+                        <button
+                            key={tab}
+                            onClick={() => setBottomTab(tab)}
+                            className={cn(
+                                "flex items-center gap-1.5 px-2 py-1.5 text-xs border-b-2 -mb-px transition-colors",
+                                bottomTab === tab
+                                    ? "border-primary text-foreground"
+                                    : "border-transparent text-muted-foreground hover:text-foreground"
+                            )}
+                        >
+                            {tab === 'comments' ? <MessageSquare size={12} /> : <History size={12} />}
+                            {t(tab === 'comments' ? 'views.taskDetail.comments' : 'views.taskDetail.history.title')}
+                        </button>
+                    ))}
+                </div>
                 <div className="flex-1 overflow-hidden">
-                    <TaskComments
-                        task={task}
-                        onAddComment={handleAddCommentFromComponent}
-                        onRetryWithContext={handleRetryWithContext}
-                        isRetrying={isRetrying}
-                    />
+                    {bottomTab === 'history' ? (
+                        <TaskHistory task={task} />
+                    ) : (
+                        <TaskComments
+                            task={task}
+                            onAddComment={handleAddCommentFromComponent}
+                            onRetryWithContext={handleRetryWithContext}
+                            isRetrying={isRetrying}
+                        />
+                    )}
                 </div>
             </div>
         </div>
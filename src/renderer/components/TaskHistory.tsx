@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { cn, formatDateTime, formatRelativeTime } from '../lib/utils';
+import { Bot, User, Puzzle, RefreshCw, Cog, Undo2, Redo2, History } from 'lucide-react';
+import type { ChangeActor, Task, TaskRevision } from '../../shared/types';
+import { t } from '../i18n/t';
+
+interface TaskHistoryProps {
+  task: Task;
+}
+
+const ACTOR_ICONS = {
+  user: User,
+  agent: Bot,
+  plugin: Puzzle,
+  sync: RefreshCw,
+  system: Cog,
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+function formatActor(actor: ChangeActor): string {
+  switch (actor.type) {
+    case 'agent':
+      return actor.name
+        ? t('views.taskDetail.history.actors.namedAgent', { name: actor.name })
+        : t('views.taskDetail.history.actors.agent');
+    case 'plugin':
+      return actor.name || actor.id || t('views.taskDetail.history.actors.plugin');
+    case 'sync':
+      return t('views.taskDetail.history.actors.sync', { name: actor.name || actor.id || '' });
+    case 'system':
+      return actor.name || t('views.taskDetail.history.actors.system');
+    default:
+      return t('views.taskDetail.history.actors.user');
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatValue).join(', ') : '—';
+
+  const text = typeof value === 'object'
+    ? ((value as { name?: string }).name ?? JSON.stringify(value))
+    : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+export const TaskHistory: React.FC<TaskHistoryProps> = ({ task }) => {
+  const [revisions, setRevisions] = useState<TaskRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Reload whenever the task is saved
+  useEffect(() => {
+    let cancelled = false;
+
+    window.dexteria.tasks.getHistory(task.id)
+      .then((result) => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch((err) => console.error('Failed to load task history:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, task.updatedAt]);
+
+  if (isLoading) {
+    return <div className="p-3 text-xs text-muted-foreground">{t('views.taskDetail.loading')}</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 text-xs text-muted-foreground">
+        <History size={16} />
+        {t('views.taskDetail.history.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-3 space-y-3">
+      {revisions.map((revision) => {
+        const ActorIcon = ACTOR_ICONS[revision.actor.type] ?? User;
+        return (
+          <div key={revision.id} className="text-xs">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <ActorIcon size={12} className={cn(revision.actor.type !== 'user' && 'text-purple-400')} />
+              <span className="font-medium text-foreground">{formatActor(revision.actor)}</span>
+              <span>{t(`views.taskDetail.history.actions.${revision.action}`)}</span>
+              {revision.reason === 'undo' && <Undo2 size={12} aria-label={t('views.taskDetail.history.undone')} />}
+              {revision.reason === 'redo' && <Redo2 size={12} aria-label={t('views.taskDetail.history.redone')} />}
+              <span className="ml-auto" title={formatDateTime(revision.timestamp)}>
+                {formatRelativeTime(revision.timestamp)}
+              </span>
+            </div>
+            {revision.actor.type === 'agent' && revision.actor.id && (
+              <div className="pl-5 font-mono text-muted-foreground/60">{revision.actor.id}</div>
+            )}
+            {revision.changes.length > 0 && (
+              <ul className="mt-1 pl-5 space-y-0.5">
+                {revision.changes.map((change) => (
+                  <li key={change.field} className="break-words">
+                    <span className="font-mono text-muted-foreground">{change.field}</span>{' '}
+                    {revision.action !== 'created' && (
+                      <>
+                        <span className="line-through text-muted-foreground/70">{formatValue(change.from)}</span>
+                        {' → '}
+                      </>
+                    )}
+                    <span>{formatValue(change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
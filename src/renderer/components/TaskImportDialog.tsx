@@ -0,0 +1,184 @@
+/**
+ * TaskImportDialog
+ *
+ * Preview of a CSV or Markdown file before its tasks are created. CSV
+ * columns are mapped to task fields here, starting from the columns the
+ * header names suggest; Markdown checklists need no mapping.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { Button, IconButton, Spinner } from 'adnia-ui';
+import { useTranslation } from '../i18n/useTranslation';
+import {
+  csvToTaskInputs,
+  parseCsv,
+  parseMarkdownTasks,
+  resolveImportStatus,
+  suggestCsvMapping,
+} from '../../shared/taskFiles';
+import type { Column, TaskCsvField, TaskCsvMapping, TaskImportFile, TaskImportResult } from '../../shared/types';
+
+const CSV_FIELDS: TaskCsvField[] = ['title', 'description', 'status', 'priority', 'tags', 'acceptanceCriteria', 'epic', 'sprint'];
+
+const PREVIEW_ROWS = 8;
+
+interface TaskImportDialogProps {
+  file: TaskImportFile;
+  columns: Column[];
+  onClose: () => void;
+  onImported: (result: TaskImportResult) => void;
+}
+
+export const TaskImportDialog: React.FC<TaskImportDialogProps> = ({ file, columns, onClose, onImported }) => {
+  const { t } = useTranslation();
+  const [importing, setImporting] = useState(false);
+
+  // Parse once; a broken CSV is shown as an error instead of a preview
+  const parsed = useMemo(() => {
+    try {
+      if (file.format === 'markdown') {
+        return { headers: [] as string[], rows: [] as string[][], error: null };
+      }
+      const [headers = [], ...rows] = parseCsv(file.content);
+      return { headers, rows, error: null };
+    } catch (err) {
+      return { headers: [] as string[], rows: [] as string[][], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [file]);
+
+  const [mapping, setMapping] = useState<TaskCsvMapping>(() => suggestCsvMapping(parsed.headers));
+
+  const inputs = useMemo(
+    () => (file.format === 'markdown' ? parseMarkdownTasks(file.content) : csvToTaskInputs(parsed.rows, mapping)),
+    [file, parsed, mapping]
+  );
+
+  const columnTitle = (status?: string) => {
+    const id = resolveImportStatus(status, columns) ?? columns[0]?.id;
+    return columns.find(c => c.id === id)?.title ?? '';
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      onImported(await window.dexteria.tasks.import(inputs));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card border border-border rounded-xl shadow-2xl w-full max-w-3xl mx-4 overflow-hidden animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border bg-muted/20">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileUp className="w-5 h-5 text-primary shrink-0" />
+            <h2 className="text-lg font-semibold">{t('views.kanban.import.title')}</h2>
+            <span className="text-xs text-muted-foreground truncate">{file.filePath}</span>
+          </div>
+          <IconButton variant="ghost" size="sm" onClick={onClose} aria-label={t('actions.close')}>
+            <X className="w-4 h-4" />
+          </IconButton>
+        </div>
+
+        <div className="p-4 max-h-[65vh] overflow-y-auto space-y-4">
+          {parsed.error ? (
+            <p className="text-sm text-red-500">{parsed.error}</p>
+          ) : (
+            <>
+              {/* Column mapping */}
+              {file.format === 'csv' && (
+                <div className="space-y-2">
+                  <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    {t('views.kanban.import.mapping')}
+                  </h3>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {CSV_FIELDS.map(field => (
+                      <label key={field} className="flex items-center justify-between gap-2 text-sm">
+                        <span>{t(`views.kanban.import.fields.${field}`)}</span>
+                        <select
+                          value={mapping[field] ?? ''}
+                          onChange={(e) => setMapping(prev => ({
+                            ...prev,
+                            [field]: e.target.value === '' ? undefined : Number(e.target.value),
+                          }))}
+                          className="h-8 px-2 text-xs rounded-md bg-background border border-border w-44"
+                        >
+                          <option value="">{t('views.kanban.import.notImported')}</option>
+                          {parsed.headers.map((header, index) => (
+                            <option key={index} value={index}>{header || `#${index + 1}`}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                  {t('views.kanban.import.preview', { count: inputs.length })}
+                </h3>
+                {inputs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {t(file.format === 'csv' && mapping.title === undefined
+                      ? 'views.kanban.import.mapTitle'
+                      : 'views.kanban.import.noTasks')}
+                  </p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead className="text-muted-foreground text-left">
+                      <tr>
+                        <th className="py-1 pr-2 font-medium">{t('views.kanban.import.fields.title')}</th>
+                        <th className="py-1 pr-2 font-medium">{t('views.kanban.import.fields.status')}</th>
+                        <th className="py-1 pr-2 font-medium">{t('views.kanban.import.fields.priority')}</th>
+                        <th className="py-1 pr-2 font-medium">{t('views.kanban.import.fields.epic')}</th>
+                        <th className="py-1 font-medium">{t('views.kanban.import.fields.acceptanceCriteria')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {inputs.slice(0, PREVIEW_ROWS).map((input, index) => (
+                        <tr key={index} className="border-t border-border/50">
+                          <td className="py-1.5 pr-2">{input.title}</td>
+                          <td className="py-1.5 pr-2">{columnTitle(input.status)}</td>
+                          <td className="py-1.5 pr-2">{input.priority ?? ''}</td>
+                          <td className="py-1.5 pr-2">{input.epic?.name ?? ''}</td>
+                          <td className="py-1.5">{input.acceptanceCriteria?.length ?? 0}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {inputs.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('views.kanban.import.more', { count: inputs.length - PREVIEW_ROWS })}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-border">
+          <Button variant="ghost" onClick={onClose} disabled={importing}>
+            {t('actions.cancel')}
+          </Button>
+          <Button onClick={handleImport} disabled={importing || inputs.length === 0}>
+            {importing && <Spinner size="xs" className="mr-2" />}
+            {t('views.kanban.import.submit', { count: inputs.length })}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
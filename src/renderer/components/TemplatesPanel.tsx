@@ -5,54 +5,126 @@
  * that can be used when creating new tasks.
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useTemplates } from '../hooks/useTemplates';
-import { Button, IconButton, Input } from 'adnia-ui';
-import { Plus, FileText, Pencil, Trash2, X, Check, FolderOpen } from 'lucide-react';
+import { usePolicyProfiles } from '../hooks/usePolicyProfiles';
+import { Button, IconButton, Input, Switch } from 'adnia-ui';
+import { Plus, FileText, Pencil, Trash2, X, Check, FolderOpen, Repeat } from 'lucide-react';
 import { t } from '../i18n/t';
 import { cn } from '../lib/utils';
 import { useToast } from '../contexts/ToastContext';
-import type { TaskTemplate } from '../../shared/types';
+import { nextOccurrence } from '../../shared/recurrence';
+import type { TaskTemplate, TemplateCatchUp, TemplateRecurrence, TemplateRecurrenceKind } from '../../shared/types';
 
 interface TemplateFormData {
     name: string;
+    titleTemplate: string;
     category: string;
     descriptionTemplate: string;
     priority: 'low' | 'medium' | 'high' | 'critical';
     acceptanceCriteria: string[];
+    policyProfileId: string;
+    recurring: boolean;
+    recurrenceKind: TemplateRecurrenceKind;
+    everyDays: number;
+    cron: string;
+    /** Start time as a datetime-local input value */
+    startAt: string;
+    catchUp: TemplateCatchUp;
+    queueInRalph: boolean;
+}
+
+/**
+ * Format a date as a datetime-local input value (local time, no seconds).
+ */
+function toLocalInputValue(date: Date): string {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
 }
 
 const defaultFormData: TemplateFormData = {
     name: '',
+    titleTemplate: '',
     category: '',
     descriptionTemplate: '',
     priority: 'medium',
     acceptanceCriteria: [],
+    policyProfileId: '',
+    recurring: false,
+    recurrenceKind: 'interval',
+    everyDays: 7,
+    cron: '0 9 * * 1',
+    startAt: '',
+    catchUp: 'latest',
+    queueInRalph: false,
 };
 
+/**
+ * Build the recurrence to save from the form, or undefined when the
+ * template has never been recurring.
+ */
+function formRecurrence(formData: TemplateFormData, existing?: TemplateRecurrence): TemplateRecurrence | undefined {
+    if (!formData.recurring && !existing) return undefined;
+
+    return {
+        enabled: formData.recurring,
+        kind: formData.recurrenceKind,
+        everyDays: formData.recurrenceKind === 'interval' ? formData.everyDays : undefined,
+        cron: formData.recurrenceKind === 'cron' ? formData.cron.trim() : undefined,
+        startAt: formData.startAt ? new Date(formData.startAt).toISOString() : new Date().toISOString(),
+        lastOccurrenceAt: existing?.lastOccurrenceAt,
+        catchUp: formData.catchUp,
+        queueInRalph: formData.queueInRalph,
+    };
+}
+
 export const TemplatesPanel: React.FC = () => {
     const { templates, loading, createTemplate, updateTemplate, deleteTemplate, refresh } = useTemplates();
     const { success, error: showError } = useToast();
+    const { profiles } = usePolicyProfiles();
     const [isCreating, setIsCreating] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
     const [formData, setFormData] = useState<TemplateFormData>(defaultFormData);
     const [newCriterion, setNewCriterion] = useState('');
 
+    const editingTemplate = editingId ? templates.find(tmpl => tmpl.id === editingId) : undefined;
+
+    // Validate the schedule and preview its next occurrence
+    const recurrencePreview = useMemo(() => {
+        const recurrence = formRecurrence(formData, editingTemplate?.recurrence);
+        if (!formData.recurring || !recurrence) return { error: null, nextRun: null };
+        try {
+            return { error: null, nextRun: nextOccurrence(recurrence, new Date()) };
+        } catch (err) {
+            return { error: err instanceof Error ? err.message : String(err), nextRun: null };
+        }
+    }, [formData, editingTemplate]);
+
     const handleCreate = () => {
         setIsCreating(true);
         setEditingId(null);
-        setFormData(defaultFormData);
+        setFormData({ ...defaultFormData, startAt: toLocalInputValue(new Date()) });
     };
 
     const handleEdit = (template: TaskTemplate) => {
         setEditingId(template.id);
         setIsCreating(false);
+        const recurrence = template.recurrence;
         setFormData({
             name: template.name,
+            titleTemplate: template.titleTemplate || '',
             category: template.category || '',
             descriptionTemplate: template.descriptionTemplate || '',
             priority: template.priority || 'medium',
             acceptanceCriteria: template.acceptanceCriteria || [],
+            policyProfileId: template.policyProfileId || '',
+            recurring: recurrence?.enabled ?? false,
+            recurrenceKind: recurrence?.kind ?? defaultFormData.recurrenceKind,
+            everyDays: recurrence?.everyDays ?? defaultFormData.everyDays,
+            cron: recurrence?.cron ?? defaultFormData.cron,
+            startAt: toLocalInputValue(recurrence ? new Date(recurrence.startAt) : new Date()),
+            catchUp: recurrence?.catchUp ?? defaultFormData.catchUp,
+            queueInRalph: recurrence?.queueInRalph ?? false,
         });
     };
 
@@ -64,24 +136,30 @@ export const TemplatesPanel: React.FC = () => {
     };
 
     const handleSave = async () => {
-        if (!formData.name.trim()) return;
+        if (!formData.name.trim() || recurrencePreview.error) return;
 
         try {
             if (isCreating) {
                 await createTemplate({
                     name: formData.name.trim(),
+                    titleTemplate: formData.titleTemplate.trim() || undefined,
                     category: formData.category.trim() || undefined,
                     descriptionTemplate: formData.descriptionTemplate.trim() || undefined,
                     priority: formData.priority,
                     acceptanceCriteria: formData.acceptanceCriteria.length > 0 ? formData.acceptanceCriteria : undefined,
+                    policyProfileId: formData.policyProfileId || undefined,
+                    recurrence: formRecurrence(formData),
                 });
             } else if (editingId) {
                 await updateTemplate(editingId, {
                     name: formData.name.trim(),
+                    titleTemplate: formData.titleTemplate.trim() || undefined,
                     category: formData.category.trim() || undefined,
                     descriptionTemplate: formData.descriptionTemplate.trim() || undefined,
                     priority: formData.priority,
                     acceptanceCriteria: formData.acceptanceCriteria.length > 0 ? formData.acceptanceCriteria : undefined,
+                    policyProfileId: formData.policyProfileId || undefined,
+                    recurrence: formRecurrence(formData, editingTemplate?.recurrence),
                 });
             }
             handleCancel();
@@ -204,6 +282,22 @@ export const TemplatesPanel: React.FC = () => {
                             </select>
                         </div>
 
+                        <div>
+                            <label className="text-xs text-muted-foreground mb-1 block">
+                                {t('views.templates.policyProfile')}
+                            </label>
+                            <select
+                                value={formData.policyProfileId}
+                                onChange={(e) => setFormData(prev => ({ ...prev, policyProfileId: e.target.value }))}
+                                className="w-full h-9 px-3 text-sm rounded-md border border-input bg-background"
+                            >
+                                <option value="">{t('views.policyEditor.profiles.projectDefault')}</option>
+                                {profiles.map(profile => (
+                                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
                         <div>
                             <label className="text-xs text-muted-foreground mb-1 block">
                                 {t('views.templates.checklist')}
@@ -236,8 +330,124 @@ export const TemplatesPanel: React.FC = () => {
                             </div>
                         </div>
 
+
+                        <div className="space-y-3 p-3 rounded-lg border border-border">
+                            <div className="flex items-center justify-between gap-3">
+                                <div>
+                                    <div className="flex items-center gap-1.5 text-sm font-medium">
+                                        <Repeat size={14} />
+                                        {t('views.templates.recurrence.title')}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        {t('views.templates.recurrence.description')}
+                                    </p>
+                                </div>
+                                <Switch
+                                    checked={formData.recurring}
+                                    onCheckedChange={(checked) => setFormData(prev => ({ ...prev, recurring: checked }))}
+                                />
+                            </div>
+
+                            {formData.recurring && (
+                                <>
+                                    <div>
+                                        <label className="text-xs text-muted-foreground mb-1 block">
+                                            {t('views.templates.recurrence.taskTitle')}
+                                        </label>
+                                        <Input
+                                            value={formData.titleTemplate}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, titleTemplate: e.target.value }))}
+                                            placeholder={formData.name || t('views.templates.namePlaceholder')}
+                                        />
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                            {t('views.templates.recurrence.taskTitleHint', { placeholder: '{{date}}' })}
+                                        </p>
+                                    </div>
+
+                                    <div className="flex gap-2">
+                                        <select
+                                            value={formData.recurrenceKind}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, recurrenceKind: e.target.value as TemplateRecurrenceKind }))}
+                                            className="h-9 px-3 text-sm rounded-md border border-input bg-background"
+                                        >
+                                            <option value="interval">{t('views.templates.recurrence.interval')}</option>
+                                            <option value="cron">{t('views.templates.recurrence.cron')}</option>
+                                        </select>
+                                        {formData.recurrenceKind === 'interval' ? (
+                                            <div className="flex flex-1 items-center gap-2 text-sm">
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    value={formData.everyDays}
+                                                    onChange={(e) => setFormData(prev => ({ ...prev, everyDays: Number(e.target.value) }))}
+                                                    className="w-20"
+                                                />
+                                                <span className="text-muted-foreground">{t('views.templates.recurrence.days')}</span>
+                                            </div>
+                                        ) : (
+                                            <Input
+                                                value={formData.cron}
+                                                onChange={(e) => setFormData(prev => ({ ...prev, cron: e.target.value }))}
+                                                placeholder="0 9 * * 1"
+                                                className="flex-1 font-mono"
+                                            />
+                                        )}
+                                    </div>
+
+                                    <div>
+                                        <label className="text-xs text-muted-foreground mb-1 block">
+                                            {t('views.templates.recurrence.startAt')}
+                                        </label>
+                                        <input
+                                            type="datetime-local"
+                                            value={formData.startAt}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, startAt: e.target.value }))}
+                                            className="w-full h-9 px-3 text-sm rounded-md border border-input bg-background"
+                                        />
+                                    </div>
+
+                                    <div>
+                                        <label className="text-xs text-muted-foreground mb-1 block">
+                                            {t('views.templates.recurrence.catchUp')}
+                                        </label>
+                                        <select
+                                            value={formData.catchUp}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, catchUp: e.target.value as TemplateCatchUp }))}
+                                            className="w-full h-9 px-3 text-sm rounded-md border border-input bg-background"
+                                        >
+                                            <option value="latest">{t('views.templates.recurrence.catchUpLatest')}</option>
+                                            <option value="all">{t('views.templates.recurrence.catchUpAll')}</option>
+                                        </select>
+                                    </div>
+
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div>
+                                            <div className="text-sm">{t('views.templates.recurrence.queueInRalph')}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {t('views.templates.recurrence.queueInRalphDesc')}
+                                            </p>
+                                        </div>
+                                        <Switch
+                                            checked={formData.queueInRalph}
+                                            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, queueInRalph: checked }))}
+                                        />
+                                    </div>
+
+                                    {recurrencePreview.error ? (
+                                        <p className="text-xs text-red-500">{recurrencePreview.error}</p>
+                                    ) : (
+                                        <p className="text-xs text-muted-foreground">
+                                            {recurrencePreview.nextRun
+                                                ? t('views.templates.recurrence.nextRun', { date: recurrencePreview.nextRun.toLocaleString() })
+                                                : t('views.templates.recurrence.never')}
+                                        </p>
+                                    )}
+                                </>
+                            )}
+                        </div>
+
                         <div className="flex gap-2 pt-2">
-                            <Button onClick={handleSave} disabled={!formData.name.trim()} className="gap-1.5">
+                            <Button onClick={handleSave} disabled={!formData.name.trim() || !!recurrencePreview.error} className="gap-1.5">
                                 <Check size={14} />
                                 {t('actions.save')}
                             </Button>
@@ -298,6 +508,14 @@ export const TemplatesPanel: React.FC = () => {
                                                         {template.acceptanceCriteria && template.acceptanceCriteria.length > 0 && (
                                                             <span>{template.acceptanceCriteria.length} {t('views.templates.criteria')}</span>
                                                         )}
+                                                        {template.recurrence?.enabled && (
+                                                            <span className="flex items-center gap-1" title={t('views.templates.recurrence.title')}>
+                                                                <Repeat size={11} />
+                                                                {template.recurrence.kind === 'interval'
+                                                                    ? t('views.templates.recurrence.everyDays', { count: template.recurrence.everyDays ?? 1 })
+                                                                    : <code>{template.recurrence.cron}</code>}
+                                                            </span>
+                                                        )}
                                                     </div>
                                                 </div>
                                                 <div className="flex items-center gap-1">
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAgentState } from '../hooks/useData';
+import { usePolicyProfiles } from '../hooks/usePolicyProfiles';
+import { useSavedFilters } from '../hooks/useSavedFilters';
 import { useMode } from '../contexts/ModeContext';
 import { cn } from '../lib/utils';
 import Ralph from '../../../assets/ralph.png'
-import { Activity, Settings, Minus, Square, X, Maximize2, Bot, ClipboardList, PlayCircle, StopCircle, Loader2, FolderOpen, FilePlus, FolderX, ChevronDown, Play, Hammer, CircleStop, LayoutGrid, MessageSquare, Wrench, Code2, History, Shield, Puzzle, Palette, HelpCircle, Files, Calendar, LayoutDashboard } from 'lucide-react';
+import { Activity, Settings, Minus, Square, X, Maximize2, Bot, ClipboardList, PlayCircle, StopCircle, Loader2, FolderOpen, FilePlus, FolderX, ChevronDown, Play, Hammer, CircleStop, LayoutGrid, MessageSquare, Wrench, Code2, History, Shield, Puzzle, Palette, HelpCircle, Files, Calendar, LayoutDashboard, Network } from 'lucide-react';
 import LogoIcon from '../../../assets/logoicon.png';
 import { Button, IconButton, ToggleGroup } from 'adnia-ui';
 import type { ProjectProcessStatus } from '../../shared/types';
@@ -41,6 +43,10 @@ import { useToast } from '../contexts/ToastContext';
       const [ralphRunning, setRalphRunning] = useState(false);
       const [ralphProgress, setRalphProgress] = useState<RalphProgress | null>(null);
       const [stoppingRalph, setStoppingRalph] = useState(false);
+      const [ralphProfileId, setRalphProfileId] = useState('');
+      const [ralphFilterId, setRalphFilterId] = useState('');
+      const { profiles: policyProfiles, refresh: refreshPolicyProfiles } = usePolicyProfiles();
+      const { filters: savedFilters, refresh: refreshSavedFilters } = useSavedFilters();
       const [runStatus, setRunStatus] = useState<ProjectProcessStatus | null>(null);
       const [buildStatus, setBuildStatus] = useState<ProjectProcessStatus | null>(null);
       const [vscodeEnabled, setVscodeEnabled] = useState(false);
@@ -223,7 +229,10 @@ import { useToast } from '../contexts/ToastContext';
           }
           try {
               setRalphRunning(true);
-              const result = await window.dexteria.ralph.start();
+              const result = await window.dexteria.ralph.start({
+                  policyProfileId: ralphProfileId || undefined,
+                  query: savedFilters.find(f => f.id === ralphFilterId)?.query,
+              });
               if (result && result.processed === 0) {
                   toast.info(t('views.topbar.ralphNoTasks'));
               }
@@ -465,6 +474,15 @@ import { useToast } from '../contexts/ToastContext';
                                   <LayoutDashboard size={14} />
                                   {t('views.dashboard.title')}
                               </Button>
+                              <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => { openView('dependencyGraph'); setShowWindowMenu(false); }}
+                                  className="w-full justify-start rounded-none"
+                              >
+                                  <Network size={14} />
+                                  {t('views.dependencyGraph.title')}
+                              </Button>
                               <div className="border-t border-border my-1" />
                               <Button
                                   variant="ghost"
@@ -650,16 +668,48 @@ import { useToast } from '../contexts/ToastContext';
                           </IconButton>
                       </div>
                   ) : (
-                      <Button
-                          variant="status-success"
-                          size="xs"
-                          onClick={handleStartRalph}
-                          className="mx-2"
-                          title={t('tooltips.runAllPending')}
-                      >
-                          <PlayCircle size={14} />
-                          {t('tooltips.runAllRalph')}<img src={Ralph} width={40} height={20} />
-                      </Button>
+                      <div className="flex items-center">
+                          {savedFilters.length > 0 && (
+                              <select
+                                  value={ralphFilterId}
+                                  onChange={(e) => setRalphFilterId(e.target.value)}
+                                  onFocus={refreshSavedFilters}
+                                  className="h-6 ml-2 px-1 text-xs rounded-md border border-border bg-background text-muted-foreground"
+                                  title={t('views.topbar.ralphFilter')}
+                                  aria-label={t('views.topbar.ralphFilter')}
+                              >
+                                  <option value="">{t('views.topbar.ralphAllTasks')}</option>
+                                  {savedFilters.map(filter => (
+                                      <option key={filter.id} value={filter.id}>{filter.name}</option>
+                                  ))}
+                              </select>
+                          )}
+                          {policyProfiles.length > 0 && (
+                              <select
+                                  value={ralphProfileId}
+                                  onChange={(e) => setRalphProfileId(e.target.value)}
+                                  onFocus={refreshPolicyProfiles}
+                                  className="h-6 ml-2 px-1 text-xs rounded-md border border-border bg-background text-muted-foreground"
+                                  title={t('views.topbar.ralphPolicyProfile')}
+                                  aria-label={t('views.topbar.ralphPolicyProfile')}
+                              >
+                                  <option value="">{t('views.policyEditor.profiles.projectDefault')}</option>
+                                  {policyProfiles.map(profile => (
+                                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                  ))}
+                              </select>
+                          )}
+                          <Button
+                              variant="status-success"
+                              size="xs"
+                              onClick={handleStartRalph}
+                              className="mx-2"
+                              title={t('tooltips.runAllPending')}
+                          >
+                              <PlayCircle size={14} />
+                              {t('tooltips.runAllRalph')}<img src={Ralph} width={40} height={20} />
+                          </Button>
+                      </div>
                   )}
 
                   <div className="h-4 w-px bg-border mx-1" />
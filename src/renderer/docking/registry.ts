@@ -25,6 +25,7 @@ export const VIEW_TYPE_REGISTRY: Record<ViewType, ViewTypeConfig> = {
   templates: { mode: 'singleton' },
   roadmap: { mode: 'singleton' },
   dashboard: { mode: 'singleton' },
+  dependencyGraph: { mode: 'singleton' },
 
   // Dedupe by key - reuse if same key exists
   board: {
@@ -109,7 +109,8 @@ export type ViewType =
   | 'policyEditor'
   | 'templates'
   | 'roadmap'
-  | 'dashboard';
+  | 'dashboard'
+  | 'dependencyGraph';
 
 /**
  * Instance creation mode for view types
@@ -18,6 +18,7 @@ import {
   Files,
   Calendar,
   LayoutDashboard,
+  Network,
 } from 'lucide-react';
 import type { ViewTypeDefinition, ViewComponentProps } from '../ComponentRegistry';
 
@@ -58,6 +59,9 @@ const RoadmapPanelLazy = React.lazy(() =>
 const DashboardPanelLazy = React.lazy(() =>
   import('../../components/DashboardPanel').then((m) => ({ default: m.DashboardPanel }))
 );
+const DependencyGraphPanelLazy = React.lazy(() =>
+  import('../../components/DependencyGraphPanel').then((m) => ({ default: m.DependencyGraphPanel }))
+);
 
 // ============================================================================
 // View Wrappers
@@ -189,6 +193,12 @@ const DashboardView: React.FC<ViewComponentProps> = () => (
   </React.Suspense>
 );
 
+const DependencyGraphView: React.FC<ViewComponentProps> = () => (
+  <React.Suspense fallback={<ViewLoading />}>
+    <DependencyGraphPanelLazy />
+  </React.Suspense>
+);
+
 // ============================================================================
 // Loading Component
 // ============================================================================
@@ -307,4 +317,11 @@ export const viewDefinitions: ViewTypeDefinition[] = [
     icon: LayoutDashboard,
     closable: true,
   },
+  {
+    viewType: 'dependencyGraph',
+    component: DependencyGraphView,
+    title: 'Dependencies',
+    icon: Network,
+    closable: true,
+  },
 ];
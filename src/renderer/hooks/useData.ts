@@ -34,14 +34,16 @@ export function useBoard() {
 
   const refresh = fetchData;
 
+  // Rejected moves (WIP limits, transitions) are reported by the caller
+  // instead of replacing the board with an error
   const moveTask = async (taskId: string, toColumnId: string, newOrder?: number) => {
     try {
       await window.dexteria.tasks.move(taskId, toColumnId, newOrder);
-      await refresh();
     } catch (err) {
       console.error('Failed to move task:', err);
-      setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
+    } finally {
+      await refresh();
     }
   };
 
@@ -472,3 +472,40 @@ export function useGitLogs(initialLimit = 50, taskId?: string): GitLogsState {
     refresh,
   };
 }
+
+// ============================================
+// usePullRequestRefresh - Track pull requests on the forge
+// ============================================
+
+const PULL_REQUEST_POLL_INTERVAL = 5 * 60 * 1000; // Forge APIs are rate limited
+
+// One poll serves every mounted board
+let pullRequestPollUsers = 0;
+let pullRequestPollTimer: ReturnType<typeof setInterval> | null = null;
+
+function refreshPullRequests(): void {
+  window.dexteria.git.refreshPullRequests().catch(err => {
+    console.error('Failed to refresh pull requests:', err);
+  });
+}
+
+/**
+ * Periodically update the state of open task pull requests, so tasks show
+ * when theirs are merged or closed. The poll runs once while any component
+ * uses the hook.
+ */
+export function usePullRequestRefresh(): void {
+  useEffect(() => {
+    if (pullRequestPollUsers++ === 0) {
+      refreshPullRequests();
+      pullRequestPollTimer = setInterval(refreshPullRequests, PULL_REQUEST_POLL_INTERVAL);
+    }
+
+    return () => {
+      if (--pullRequestPollUsers === 0 && pullRequestPollTimer) {
+        clearInterval(pullRequestPollTimer);
+        pullRequestPollTimer = null;
+      }
+    };
+  }, []);
+}
@@ -13,6 +13,8 @@ interface ShortcutHandlers {
   onNewTask?: () => void;
   onSearch?: () => void;
   onShowHelp?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
 export function useKeyboardShortcuts(handlers?: ShortcutHandlers) {
@@ -86,6 +88,20 @@ export function useKeyboardShortcuts(handlers?: ShortcutHandlers) {
       return;
     }
 
+    // Ctrl+Shift+Z or Ctrl+Y - Redo the last undone board operation
+    if (ctrlOrMeta && ((e.shiftKey && e.key.toLowerCase() === 'z') || e.key === 'y')) {
+      e.preventDefault();
+      handlers?.onRedo?.();
+      return;
+    }
+
+    // Ctrl+Z - Undo the last board operation
+    if (ctrlOrMeta && e.key === 'z') {
+      e.preventDefault();
+      handlers?.onUndo?.();
+      return;
+    }
+
     // Ctrl+N - New task (if handler provided)
     if (ctrlOrMeta && e.key === 'n') {
       e.preventDefault();
@@ -126,6 +142,8 @@ export const KEYBOARD_SHORTCUTS = [
   { keys: 'Ctrl+Shift+A', action: 'shortcuts.agentMode', category: 'mode' },
   { keys: 'Ctrl+N', action: 'shortcuts.newTask', category: 'actions' },
   { keys: 'Ctrl+K', action: 'shortcuts.search', category: 'actions' },
+  { keys: 'Ctrl+Z', action: 'shortcuts.undo', category: 'actions' },
+  { keys: 'Ctrl+Shift+Z', action: 'shortcuts.redo', category: 'actions' },
   { keys: 'Escape', action: 'shortcuts.closeOrBlur', category: 'general' },
   { keys: '? / F1', action: 'shortcuts.showHelp', category: 'general' },
 ] as const;
@@ -0,0 +1,32 @@
+/**
+ * usePolicyProfiles Hook
+ *
+ * Provides the project's policy profiles for pickers in the renderer.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PolicyProfile } from '../../shared/types';
+
+interface UsePolicyProfilesResult {
+  profiles: PolicyProfile[];
+  refresh: () => Promise<void>;
+}
+
+export function usePolicyProfiles(): UsePolicyProfilesResult {
+  const [profiles, setProfiles] = useState<PolicyProfile[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const policy = await window.dexteria.policy.get();
+      setProfiles(policy?.profiles || []);
+    } catch (err) {
+      console.error('Failed to load policy profiles:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { profiles, refresh };
+}
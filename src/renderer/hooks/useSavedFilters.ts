@@ -0,0 +1,32 @@
+/**
+ * useSavedFilters Hook
+ *
+ * Provides the board's saved task filters for pickers in the renderer.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SavedFilter } from '../../shared/types';
+
+interface UseSavedFiltersResult {
+  filters: SavedFilter[];
+  refresh: () => Promise<void>;
+}
+
+export function useSavedFilters(): UseSavedFiltersResult {
+  const [filters, setFilters] = useState<SavedFilter[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const board = await window.dexteria.board.get();
+      setFilters(board?.savedFilters || []);
+    } catch (err) {
+      console.error('Failed to load saved filters:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { filters, refresh };
+}
@@ -0,0 +1,143 @@
+/**
+ * Recurrence Tests
+ *
+ * Tests for cron parsing and for finding the next and missed occurrences
+ * of recurring templates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dueOccurrences, MAX_CATCH_UP, nextCronTime, nextOccurrence, parseCron, previousCronTime } from '../recurrence';
+import { RecurrenceError } from '../errors';
+import type { TemplateRecurrence } from '../types';
+
+// Local times, as cron expressions are evaluated in local time
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('parses ranges, lists, steps and names', () => {
+    const schedule = parseCron('*/20 9-17/4 1,15 jan-mar mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 20, 40]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('expands macros and treats 7 as Sunday', () => {
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 7'));
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow(RecurrenceError);
+    expect(() => parseCron('60 9 * * *')).toThrow(RecurrenceError);
+    expect(() => parseCron('0 9 * * 5-1')).toThrow(RecurrenceError);
+    expect(() => parseCron('*/0 * * * *')).toThrow(RecurrenceError);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('finds the next weekday morning', () => {
+    // 2030-01-04 is a Friday
+    const schedule = parseCron('30 9 * * 1-5');
+
+    expect(nextCronTime(schedule, at(2030, 1, 4, 8))).toEqual(at(2030, 1, 4, 9, 30));
+    expect(nextCronTime(schedule, at(2030, 1, 4, 9, 30))).toEqual(at(2030, 1, 7, 9, 30));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Monday
+    const schedule = parseCron('0 0 13 * 1');
+
+    expect(nextCronTime(schedule, at(2030, 1, 1))).toEqual(at(2030, 1, 7));
+    expect(nextCronTime(schedule, at(2030, 1, 7))).toEqual(at(2030, 1, 13));
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(nextCronTime(parseCron('0 0 30 2 *'), at(2030, 1, 1))).toBeNull();
+  });
+});
+
+describe('previousCronTime', () => {
+  it('finds the previous weekday morning', () => {
+    // 2030-01-07 is a Monday
+    const schedule = parseCron('30 9 * * 1-5');
+
+    expect(previousCronTime(schedule, at(2030, 1, 7, 10))).toEqual(at(2030, 1, 7, 9, 30));
+    expect(previousCronTime(schedule, at(2030, 1, 7, 9, 30))).toEqual(at(2030, 1, 4, 9, 30));
+  });
+
+  it('steps back across months', () => {
+    expect(previousCronTime(parseCron('15 23 31 * *'), at(2030, 3, 1))).toEqual(at(2030, 1, 31, 23, 15));
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(previousCronTime(parseCron('0 0 30 2 *'), at(2030, 1, 1))).toBeNull();
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps intervals in days from the start time', () => {
+    const recurrence: TemplateRecurrence = {
+      enabled: true,
+      kind: 'interval',
+      everyDays: 7,
+      startAt: at(2030, 1, 1, 9).toISOString(),
+    };
+
+    expect(nextOccurrence(recurrence, at(2029, 12, 1))).toEqual(at(2030, 1, 1, 9));
+    expect(nextOccurrence(recurrence, at(2030, 1, 1, 9))).toEqual(at(2030, 1, 8, 9));
+    expect(nextOccurrence(recurrence, at(2030, 1, 20))).toEqual(at(2030, 1, 22, 9));
+  });
+
+  it('does not schedule cron occurrences before the start time', () => {
+    const recurrence: TemplateRecurrence = {
+      enabled: true,
+      kind: 'cron',
+      cron: '0 9 * * *',
+      startAt: at(2030, 1, 10, 12).toISOString(),
+    };
+
+    expect(nextOccurrence(recurrence, at(2030, 1, 1))).toEqual(at(2030, 1, 11, 9));
+  });
+});
+
+describe('dueOccurrences', () => {
+  const recurrence: TemplateRecurrence = {
+    enabled: true,
+    kind: 'interval',
+    everyDays: 1,
+    startAt: at(2030, 1, 1, 9).toISOString(),
+  };
+
+  it('returns occurrences missed since the last one, up to now', () => {
+    const due = dueOccurrences({ ...recurrence, lastOccurrenceAt: at(2030, 1, 2, 9).toISOString() }, at(2030, 1, 5, 10));
+
+    expect(due).toEqual([at(2030, 1, 3, 9), at(2030, 1, 4, 9), at(2030, 1, 5, 9)]);
+  });
+
+  it('includes the start time and keeps only the latest when over the limit', () => {
+    expect(dueOccurrences(recurrence, at(2030, 1, 1, 9))).toEqual([at(2030, 1, 1, 9)]);
+    expect(dueOccurrences(recurrence, at(2030, 3, 1), 2)).toEqual([at(2030, 2, 27, 9), at(2030, 2, 28, 9)]);
+  });
+
+  it('keeps cron occurrences after the last one and not before the start time', () => {
+    const cron: TemplateRecurrence = { enabled: true, kind: 'cron', cron: '0 9 * * *', startAt: at(2030, 1, 1, 12).toISOString() };
+
+    expect(dueOccurrences(cron, at(2030, 1, 3, 9))).toEqual([at(2030, 1, 2, 9), at(2030, 1, 3, 9)]);
+    expect(dueOccurrences({ ...cron, lastOccurrenceAt: at(2030, 1, 2, 9).toISOString() }, at(2030, 1, 3, 10)))
+      .toEqual([at(2030, 1, 3, 9)]);
+  });
+
+  it('catches up a long gap from the end of the window', () => {
+    const everyMinute: TemplateRecurrence = { enabled: true, kind: 'cron', cron: '* * * * *', startAt: at(2020, 1, 1).toISOString() };
+    const due = dueOccurrences(everyMinute, at(2030, 1, 1));
+
+    expect(due).toHaveLength(MAX_CATCH_UP);
+    expect(due[0]).toEqual(at(2029, 12, 31, 23, 61 - MAX_CATCH_UP));
+    expect(due[MAX_CATCH_UP - 1]).toEqual(at(2030, 1, 1));
+    expect(dueOccurrences({ ...recurrence, startAt: at(2000, 1, 1, 9).toISOString() }, at(2030, 1, 1), 1))
+      .toEqual([at(2029, 12, 31, 9)]);
+  });
+});
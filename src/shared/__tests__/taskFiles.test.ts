@@ -0,0 +1,148 @@
+/**
+ * Task Files Tests
+ *
+ * Tests for reading tasks from CSV and Markdown and writing them to CSV and
+ * a Markdown status report.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  csvToTaskInputs,
+  parseCsv,
+  parseMarkdownTasks,
+  resolveImportStatus,
+  suggestCsvMapping,
+  tasksToCsv,
+  tasksToMarkdownReport,
+} from '../taskFiles';
+import { createTask } from '../schemas/factories';
+import { TaskCsvError } from '../errors';
+import type { Column, Task } from '../types';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return { ...createTask({ id }), ...overrides };
+}
+
+const columns: Column[] = [
+  { id: 'backlog', title: 'Backlog', taskIds: [] },
+  { id: 'doing', title: 'In Progress', category: 'in_progress', taskIds: [] },
+  { id: 'shipped', title: 'Shipped', category: 'done', taskIds: [] },
+];
+
+describe('parseCsv', () => {
+  it('handles quotes, embedded newlines and CRLF', () => {
+    const csv = 'Title,Description\r\n"Login, form","Line 1\nLine ""2"""\r\n\r\nDocs,\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['Title', 'Description'],
+      ['Login, form', 'Line 1\nLine "2"'],
+      ['Docs', ''],
+    ]);
+  });
+
+  it('detects semicolon delimiters', () => {
+    expect(parseCsv('\uFEFFTitle;Priority\nLogin;high')).toEqual([['Title', 'Priority'], ['Login', 'high']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('Title\n"Login\nform')).toThrow(TaskCsvError);
+  });
+});
+
+describe('CSV import', () => {
+  it('maps columns to task inputs', () => {
+    const [headers, ...rows] = parseCsv(
+      'Summary,Labels,Priority,Epic,Acceptance Criteria,Status\n' +
+      'Login form,"frontend, auth",Highest,Auth,"- [ ] Shows errors\n- [ ] Remembers me",In Progress\n' +
+      ',ignored,low,,,\n'
+    );
+    const mapping = suggestCsvMapping(headers);
+
+    expect(mapping).toEqual({ title: 0, tags: 1, priority: 2, epic: 3, acceptanceCriteria: 4, status: 5 });
+    expect(csvToTaskInputs(rows, mapping)).toEqual([{
+      title: 'Login form',
+      tags: ['frontend', 'auth'],
+      priority: 'critical',
+      epic: { name: 'Auth', color: expect.stringMatching(/^#[0-9a-f]{6}$/) },
+      acceptanceCriteria: ['Shows errors', 'Remembers me'],
+      status: 'In Progress',
+    }]);
+  });
+
+  it('round-trips an export', () => {
+    const tasks = [task('TSK-1', { title: 'Login', status: 'doing', tags: ['a', 'b'], acceptanceCriteria: ['x', 'y'], sprint: 'S1' })];
+    const [headers, ...rows] = parseCsv(tasksToCsv(tasks, columns));
+    const [input] = csvToTaskInputs(rows, suggestCsvMapping(headers));
+
+    expect(input).toMatchObject({ title: 'Login', status: 'In Progress', tags: ['a', 'b'], acceptanceCriteria: ['x', 'y'], sprint: 'S1' });
+    expect(resolveImportStatus(input.status, columns)).toBe('doing');
+  });
+
+  it('keeps cells from running as spreadsheet formulas', () => {
+    const tasks = [task('TSK-1', { title: '=HYPERLINK("http://evil.example.com")', description: '@SUM(A1)', tags: ['-1', '+x'] })];
+
+    const [headers, ...rows] = parseCsv(tasksToCsv(tasks, columns));
+
+    expect(rows[0][1]).toBe(`'=HYPERLINK("http://evil.example.com")`);
+    expect(rows[0][2]).toBe(`'@SUM(A1)`);
+    expect(rows[0][5]).toBe(`'-1, +x`);
+    expect(csvToTaskInputs(rows, suggestCsvMapping(headers))[0]).toMatchObject({
+      title: '=HYPERLINK("http://evil.example.com")',
+      description: '@SUM(A1)',
+    });
+  });
+});
+
+describe('resolveImportStatus', () => {
+  it('matches column IDs, titles and category words', () => {
+    expect(resolveImportStatus('shipped', columns)).toBe('shipped');
+    expect(resolveImportStatus('in progress', columns)).toBe('doing');
+    expect(resolveImportStatus('Done', columns)).toBe('shipped');
+    expect(resolveImportStatus('Waiting', columns)).toBeUndefined();
+  });
+});
+
+describe('parseMarkdownTasks', () => {
+  it('reads headings as epics, bullets as tasks and nested bullets as criteria', () => {
+    const markdown = [
+      '# Auth',
+      '',
+      '- [ ] Login form',
+      '  - Shows errors',
+      '  - [x] Remembers me',
+      '- [x] Logout',
+      '',
+      'Some notes.',
+      '## Docs',
+      '1. Write README',
+    ].join('\n');
+
+    const inputs = parseMarkdownTasks(markdown);
+
+    expect(inputs.map(i => [i.title, i.epic?.name, i.status])).toEqual([
+      ['Login form', 'Auth', undefined],
+      ['Logout', 'Auth', 'done'],
+      ['Write README', 'Docs', undefined],
+    ]);
+    expect(inputs[0].acceptanceCriteria).toEqual(['Shows errors', 'Remembers me']);
+  });
+});
+
+describe('tasksToMarkdownReport', () => {
+  it('counts tasks per column and checks off done columns', () => {
+    const report = tasksToMarkdownReport(
+      [
+        task('TSK-1', { title: 'Login', status: 'doing', priority: 'high', acceptanceCriteria: ['Shows errors'] }),
+        task('TSK-2', { title: 'Docs', status: 'shipped', priority: 'low' }),
+      ],
+      columns,
+      { title: 'Demo', query: 'priority>=low', generatedAt: '2030-01-02T03:04:05.000Z' }
+    );
+
+    expect(report).toContain('Exported 2030-01-02 · 2 tasks · Filter: `priority>=low`');
+    expect(report).toContain('| Backlog | 0 |');
+    expect(report).toContain('## In Progress (1)\n\n- [ ] **TSK-1** Login · high\n  - [ ] Shows errors');
+    expect(report).toContain('- [x] **TSK-2** Docs · low');
+    expect(report).not.toContain('## Backlog');
+  });
+});
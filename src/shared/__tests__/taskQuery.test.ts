@@ -0,0 +1,92 @@
+/**
+ * Task Query Tests
+ *
+ * Tests for parsing and evaluating task queries and grouping tasks into
+ * swimlanes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTaskQuery, filterTasks, groupTasks } from '../taskQuery';
+import { createTask } from '../schemas/factories';
+import type { Column, Task } from '../types';
+
+// The factory only copies core fields, so epic and sprint are set here
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return { ...createTask({ id }), ...overrides };
+}
+
+const auth = { name: 'Auth', color: '#3b82f6' };
+
+const tasks = [
+  task('TSK-1', { title: 'Login form', priority: 'high', tags: ['frontend'], epic: auth, sprint: 'S3' }),
+  task('TSK-2', { title: 'Token refresh', priority: 'critical', tags: ['backend'], epic: auth, sprint: 'S10', status: 'doing' }),
+  task('TSK-3', { title: 'Docs', priority: 'low', status: 'shipped', dependsOn: ['TSK-2'] }),
+  task('TSK-4', { title: 'Retry flaky test', priority: 'medium', tags: ['backend'], sprint: 'S3', parentId: 'TSK-2' }),
+];
+tasks[3].runtime.status = 'failed';
+
+const columns: Column[] = [
+  { id: 'todo', title: 'To Do', category: 'todo', taskIds: [] },
+  { id: 'doing', title: 'In Progress', category: 'in_progress', taskIds: [] },
+  { id: 'shipped', title: 'Shipped', category: 'done', taskIds: [] },
+];
+
+function ids(query: string): string[] {
+  return filterTasks(tasks, query, { columns }).map(t => t.id);
+}
+
+describe('parseTaskQuery', () => {
+  it('returns null for a blank query', () => {
+    expect(parseTaskQuery('  ')).toBeNull();
+  });
+
+  it('reports invalid queries with their position', () => {
+    expect(() => parseTaskQuery('owner:me')).toThrow('unknown field "owner"');
+    expect(() => parseTaskQuery('priority>=urgent')).toThrow('priority must be one of');
+    expect(() => parseTaskQuery('tag>backend')).toThrow('tag does not support >');
+    expect(() => parseTaskQuery('epic:"Auth')).toThrow('unterminated quote');
+    expect(() => parseTaskQuery('(tag:backend')).toThrow('missing )');
+  });
+});
+
+describe('filterTasks', () => {
+  it('combines field terms', () => {
+    expect(ids('epic:"auth" priority>=high tag:backend')).toEqual(['TSK-2']);
+    expect(ids('runtime:failed sprint:S3')).toEqual(['TSK-4']);
+  });
+
+  it('searches text for terms without a field', () => {
+    expect(ids('token')).toEqual(['TSK-2']);
+    expect(ids('"flaky test"')).toEqual(['TSK-4']);
+  });
+
+  it('supports OR, negation and grouping', () => {
+    expect(ids('priority:low OR priority:critical')).toEqual(['TSK-2', 'TSK-3']);
+    expect(ids('tag:backend -has:parent')).toEqual(['TSK-2']);
+    expect(ids('NOT (epic:Auth OR is:done)')).toEqual(['TSK-4']);
+  });
+
+  it('compares sprints numerically', () => {
+    expect(ids('sprint>S3')).toEqual(['TSK-2']);
+  });
+
+  it('matches columns by ID, title and category', () => {
+    expect(ids('status:"in progress"')).toEqual(['TSK-2']);
+    expect(ids('category:done')).toEqual(['TSK-3']);
+    expect(ids('is:blocked')).toEqual(['TSK-3']);
+    expect(ids('has:subtasks')).toEqual(['TSK-2']);
+  });
+});
+
+describe('groupTasks', () => {
+  it('orders priority lanes from critical to low', () => {
+    expect(groupTasks(tasks, 'priority').map(l => l.key)).toEqual(['critical', 'high', 'medium', 'low']);
+  });
+
+  it('puts tasks without a value in the last lane', () => {
+    const lanes = groupTasks(tasks, 'sprint');
+
+    expect(lanes.map(l => l.key)).toEqual(['S3', 'S10', '']);
+    expect(lanes[0].tasks.map(t => t.id)).toEqual(['TSK-1', 'TSK-4']);
+  });
+});
@@ -5,6 +5,8 @@
  * Each error has a code, message, and optional context for debugging.
  */
 
+import type { ProviderErrorKind } from './types';
+
 // ============================================
 // Base Error
 // ============================================
@@ -82,6 +84,81 @@ export class TaskValidationError extends DexteriaError {
   }
 }
 
+/**
+ * Error thrown when a dependency change would create a cycle.
+ */
+export class DependencyCycleError extends DexteriaError {
+  constructor(taskId: string, cycle: string[]) {
+    super(`Dependency cycle: ${cycle.join(' → ')}`, 'DEPENDENCY_CYCLE', { taskId, cycle });
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * Error thrown when a move would exceed a column's WIP limit.
+ */
+export class WipLimitExceededError extends DexteriaError {
+  constructor(taskId: string, columnId: string, limit: number) {
+    super(`Column ${columnId} is at its WIP limit of ${limit}`, 'WIP_LIMIT_EXCEEDED', { taskId, columnId, limit });
+    this.name = 'WipLimitExceededError';
+  }
+}
+
+/**
+ * Error thrown when a column's workflow does not allow a move.
+ */
+export class TransitionNotAllowedError extends DexteriaError {
+  constructor(taskId: string, fromColumnId: string, toColumnId: string) {
+    super(`Tasks cannot move from ${fromColumnId} to ${toColumnId}`, 'TRANSITION_NOT_ALLOWED', {
+      taskId,
+      fromColumnId,
+      toColumnId,
+    });
+    this.name = 'TransitionNotAllowedError';
+  }
+}
+
+/**
+ * Error thrown when a task query cannot be parsed.
+ */
+export class TaskQueryError extends DexteriaError {
+  constructor(message: string, query: string, position: number) {
+    super(`Invalid query: ${message}`, 'INVALID_TASK_QUERY', { query, position });
+    this.name = 'TaskQueryError';
+  }
+}
+
+/**
+ * Error thrown when a CSV file cannot be parsed for import.
+ */
+export class TaskCsvError extends DexteriaError {
+  constructor(message: string, line: number) {
+    super(`Invalid CSV (line ${line}): ${message}`, 'INVALID_TASK_CSV', { line });
+    this.name = 'TaskCsvError';
+  }
+}
+
+/**
+ * Error thrown when a template's recurrence rule is invalid.
+ */
+export class RecurrenceError extends DexteriaError {
+  constructor(message: string, rule: string) {
+    super(`Invalid recurrence: ${message}`, 'INVALID_RECURRENCE', { rule });
+    this.name = 'RecurrenceError';
+  }
+}
+
+/**
+ * Error thrown when an operation cannot be undone or redone because the
+ * task changed since.
+ */
+export class UndoConflictError extends DexteriaError {
+  constructor(taskId: string, action: 'undo' | 'redo') {
+    super(`Cannot ${action}: ${taskId} was changed since`, 'UNDO_CONFLICT', { taskId, action });
+    this.name = 'UndoConflictError';
+  }
+}
+
 // ============================================
 // Policy Errors
 // ============================================
@@ -106,6 +183,16 @@ export class PathTraversalError extends DexteriaError {
   }
 }
 
+/**
+ * Error thrown when a task selects a policy profile that does not exist.
+ */
+export class PolicyProfileNotFoundError extends DexteriaError {
+  constructor(profileId: string) {
+    super(`Policy profile not found: ${profileId}`, 'POLICY_PROFILE_NOT_FOUND', { profileId });
+    this.name = 'PolicyProfileNotFoundError';
+  }
+}
+
 /**
  * Error thrown when a blocked command is attempted.
  */
@@ -176,6 +263,83 @@ export class AgentLimitError extends DexteriaError {
   }
 }
 
+// ============================================
+// Provider Errors
+// ============================================
+
+/**
+ * Base class for classified agent provider failures.
+ */
+export class ProviderError extends DexteriaError {
+  /** Failure classification */
+  readonly kind: ProviderErrorKind;
+  /** Name of the provider that failed */
+  readonly provider: string;
+  /** Delay requested by the provider before retrying */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    kind: ProviderErrorKind,
+    provider: string,
+    code: string,
+    retryAfterMs?: number
+  ) {
+    super(message, code, { kind, provider, retryAfterMs });
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /**
+   * Whether the same provider may succeed if called again.
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'transient';
+  }
+}
+
+/**
+ * Error thrown when a provider is throttled or out of quota.
+ */
+export class ProviderRateLimitError extends ProviderError {
+  constructor(message: string, provider: string, retryAfterMs?: number) {
+    super(message, 'rate_limit', provider, 'PROVIDER_RATE_LIMIT', retryAfterMs);
+    this.name = 'ProviderRateLimitError';
+  }
+}
+
+/**
+ * Error thrown when a provider rejects or lacks credentials.
+ */
+export class ProviderAuthError extends ProviderError {
+  constructor(message: string, provider: string) {
+    super(message, 'auth', provider, 'PROVIDER_AUTH');
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * Error thrown on network failures, timeouts and provider crashes.
+ */
+export class ProviderTransientError extends ProviderError {
+  constructor(message: string, provider: string) {
+    super(message, 'transient', provider, 'PROVIDER_TRANSIENT');
+    this.name = 'ProviderTransientError';
+  }
+}
+
+/**
+ * Error thrown when a provider fails in a way retrying will not fix.
+ */
+export class ProviderFatalError extends ProviderError {
+  constructor(message: string, provider: string) {
+    super(message, 'fatal', provider, 'PROVIDER_FATAL');
+    this.name = 'ProviderFatalError';
+  }
+}
+
 // ============================================
 // Store Errors
 // ============================================
@@ -190,6 +354,20 @@ export class StoreError extends DexteriaError {
   }
 }
 
+/**
+ * Error thrown when another process holds the store lock for too long.
+ */
+export class StoreLockError extends DexteriaError {
+  constructor(lockPath: string, ownerPid?: number) {
+    super(
+      `The project is being written by another process${ownerPid ? ` (pid ${ownerPid})` : ''}`,
+      'STORE_LOCKED',
+      { lockPath, ownerPid }
+    );
+    this.name = 'StoreLockError';
+  }
+}
+
 /**
  * Error thrown when file validation fails.
  */
@@ -203,6 +381,31 @@ export class FileValidationError extends DexteriaError {
   }
 }
 
+/**
+ * Error thrown when moving project data to another storage backend fails.
+ * The project keeps using the backend it was on.
+ */
+export class StorageMigrationError extends DexteriaError {
+  constructor(from: string, to: string, reason: string) {
+    super(`Could not move project data from ${from} to ${to}: ${reason}`, 'STORAGE_MIGRATION_FAILED', {
+      from,
+      to,
+      reason,
+    });
+    this.name = 'StorageMigrationError';
+  }
+}
+
+/**
+ * Error thrown when a project archive cannot be read or fails validation.
+ */
+export class ProjectArchiveError extends DexteriaError {
+  constructor(filePath: string, reason: string) {
+    super(`Invalid project archive: ${reason}`, 'INVALID_PROJECT_ARCHIVE', { filePath, reason });
+    this.name = 'ProjectArchiveError';
+  }
+}
+
 // ============================================
 // Plugin Errors
 // ============================================
@@ -230,6 +433,20 @@ export class PluginManifestError extends DexteriaError {
   }
 }
 
+// ============================================
+// MCP Errors
+// ============================================
+
+/**
+ * Error thrown when an MCP server cannot be started or fails a request.
+ */
+export class McpClientError extends DexteriaError {
+  constructor(server: string, message: string) {
+    super(`MCP server "${server}": ${message}`, 'MCP_CLIENT_ERROR', { server });
+    this.name = 'McpClientError';
+  }
+}
+
 // ============================================
 // Configuration Errors
 // ============================================
@@ -244,6 +461,16 @@ export class ConfigurationError extends DexteriaError {
   }
 }
 
+/**
+ * Error thrown when the command-line tool is called with invalid arguments.
+ */
+export class CliUsageError extends DexteriaError {
+  constructor(message: string) {
+    super(message, 'CLI_USAGE');
+    this.name = 'CliUsageError';
+  }
+}
+
 // ============================================
 // Network Errors
 // ============================================
@@ -317,3 +544,35 @@ export function getErrorCode(error: unknown): string {
 
   return 'UNKNOWN_ERROR';
 }
+
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|\b429\b|quota|usage limit/i;
+const AUTH_PATTERN = /\b40[13]\b|unauthori[sz]ed|forbidden|authentication|invalid.{0,20}api.?key|api.?key.{0,20}(missing|not configured|invalid)|not logged in|please log.?in/i;
+const TRANSIENT_PATTERN = /timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|EPIPE|socket hang up|network|overloaded|\b5\d\d\b|temporarily unavailable|exited with code/i;
+
+/**
+ * Classify a provider failure by its message.
+ * Errors that are already classified are returned unchanged.
+ */
+export function classifyProviderError(error: unknown, provider: string): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const message = getErrorMessage(error);
+
+  if (RATE_LIMIT_PATTERN.test(message)) {
+    const retryAfter = message.match(/retry.?after\D{0,5}(\d+)/i);
+    return new ProviderRateLimitError(
+      message,
+      provider,
+      retryAfter ? parseInt(retryAfter[1], 10) * 1000 : undefined
+    );
+  }
+  if (AUTH_PATTERN.test(message)) {
+    return new ProviderAuthError(message, provider);
+  }
+  if (TRANSIENT_PATTERN.test(message)) {
+    return new ProviderTransientError(message, provider);
+  }
+  return new ProviderFatalError(message, provider);
+}
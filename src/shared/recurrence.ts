@@ -0,0 +1,303 @@
+/**
+ * Recurrence
+ *
+ * Occurrence times for recurring templates: every N days from a start time,
+ * or a five-field cron expression (minute hour day-of-month month
+ * day-of-week) evaluated in local time.
+ *
+ * The scheduler in the main process uses these to find due and missed
+ * occurrences; the templates panel uses them to validate rules and preview
+ * the next run.
+ */
+
+import type { TemplateRecurrence } from './types';
+import { RecurrenceError } from './errors';
+
+/** Most tasks created for one template when catching up missed occurrences */
+export const MAX_CATCH_UP = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Upper bound on search steps, so impossible dates (Feb 30) end the search */
+const MAX_SEARCH_STEPS = 10000;
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset of names[0] (1 for months) */
+  nameBase?: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+];
+
+/**
+ * Parsed cron expression.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday; 7 is stored as 0 */
+  daysOfWeek: Set<number>;
+  /** Day of month was `*`, so only the day of week restricts days */
+  anyDayOfMonth: boolean;
+  /** Day of week was `*`, so only the day of month restricts days */
+  anyDayOfWeek: boolean;
+}
+
+function parseValue(value: string, field: CronField, expression: string): number {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = nameIndex !== -1 ? nameIndex + (field.nameBase ?? 0) : /^\d+$/.test(value) ? Number(value) : NaN;
+
+  if (Number.isNaN(number) || number < field.min || number > field.max) {
+    throw new RecurrenceError(`"${value}" is not a valid ${field.name}`, expression);
+  }
+  return number;
+}
+
+function parseField(text: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new RecurrenceError(`"${part}" has an invalid step`, expression);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field, expression);
+      end = parseValue(to, field, expression);
+      if (start > end) {
+        throw new RecurrenceError(`"${range}" is an empty range`, expression);
+      }
+    } else {
+      start = parseValue(range, field, expression);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or a macro such as `@daily`.
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`), steps
+ * (`*\/15`) and month and weekday names (`jan`, `mon`).
+ *
+ * @throws RecurrenceError if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5 || fields[0] === '') {
+    throw new RecurrenceError('expected five fields (minute hour day month weekday)', expression);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (text, i) => parseField(text, CRON_FIELDS[i], expression)
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  // As in cron, a restricted day of month and day of week match either one
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Find the first time after `after` that matches a cron schedule.
+ *
+ * @returns The time, or null if none is found within the search bound
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the last time before `before` that matches a cron schedule.
+ *
+ * @returns The time, or null if none is found within the search bound
+ */
+export function previousCronTime(schedule: CronSchedule, before: Date): Date | null {
+  const date = new Date(before.getTime() - 1);
+  date.setSeconds(0, 0);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    // Minute -1 moves to the last minute of the previous month, day or hour
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setDate(1);
+      date.setHours(0, -1, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setHours(0, -1, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setMinutes(-1, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() - 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a recurrence rule can be scheduled.
+ *
+ * @throws RecurrenceError if the rule is invalid
+ */
+export function validateRecurrence(recurrence: TemplateRecurrence): void {
+  if (Number.isNaN(new Date(recurrence.startAt).getTime())) {
+    throw new RecurrenceError('start time is not a valid date', recurrence.startAt);
+  }
+
+  if (recurrence.kind === 'interval') {
+    const days = recurrence.everyDays;
+    if (days === undefined || !Number.isInteger(days) || days < 1) {
+      throw new RecurrenceError('interval must be a whole number of days', String(days));
+    }
+  } else {
+    parseCron(recurrence.cron ?? '');
+  }
+}
+
+/**
+ * Occurrence number `index` of an interval rule, counted from 0 at the start time.
+ * Steps in calendar days so occurrences keep their time of day across DST changes.
+ */
+function intervalOccurrence(start: Date, everyDays: number, index: number): Date {
+  const occurrence = new Date(start.getTime());
+  occurrence.setDate(start.getDate() + index * everyDays);
+  return occurrence;
+}
+
+/**
+ * Index of the last interval occurrence at or before `time`; -1 if `time` is
+ * before the start.
+ */
+function lastIntervalIndex(start: Date, everyDays: number, time: Date): number {
+  // The estimate is off by at most one where DST shortens or lengthens a day
+  let index = Math.floor((time.getTime() - start.getTime()) / (everyDays * DAY_MS));
+  while (index >= 0 && intervalOccurrence(start, everyDays, index) > time) index--;
+  while (intervalOccurrence(start, everyDays, index + 1) <= time) index++;
+  return Math.max(index, -1);
+}
+
+/**
+ * Find the first occurrence after `after`, never earlier than the start time.
+ *
+ * @throws RecurrenceError if the rule is invalid
+ */
+export function nextOccurrence(recurrence: TemplateRecurrence, after: Date): Date | null {
+  validateRecurrence(recurrence);
+  const start = new Date(recurrence.startAt);
+
+  if (recurrence.kind === 'interval') {
+    if (after < start) return start;
+    return intervalOccurrence(start, recurrence.everyDays!, lastIntervalIndex(start, recurrence.everyDays!, after) + 1);
+  }
+
+  const notBefore = new Date(start.getTime() - 1);
+  return nextCronTime(parseCron(recurrence.cron!), after < notBefore ? notBefore : after);
+}
+
+/**
+ * Find the occurrences that are due: after the last one a task was created
+ * for (or from the start time) up to and including `now`. When more than
+ * `limit` are due, only the most recent ones are returned.
+ *
+ * @throws RecurrenceError if the rule is invalid
+ */
+export function dueOccurrences(recurrence: TemplateRecurrence, now: Date, limit = MAX_CATCH_UP): Date[] {
+  validateRecurrence(recurrence);
+  const start = new Date(recurrence.startAt);
+  const from = recurrence.lastOccurrenceAt ? new Date(recurrence.lastOccurrenceAt) : null;
+  const isDue = (occurrence: Date) => occurrence >= start && (!from || occurrence > from);
+
+  // Walk back from now, so a long gap costs no more than the occurrences returned
+  const due: Date[] = [];
+  if (recurrence.kind === 'interval') {
+    const everyDays = recurrence.everyDays!;
+    for (let index = lastIntervalIndex(start, everyDays, now); index >= 0 && due.length < limit; index--) {
+      const occurrence = intervalOccurrence(start, everyDays, index);
+      if (!isDue(occurrence)) break;
+      due.push(occurrence);
+    }
+  } else {
+    const schedule = parseCron(recurrence.cron!);
+    let occurrence = previousCronTime(schedule, new Date(now.getTime() + 1));
+    while (occurrence && isDue(occurrence) && due.length < limit) {
+      due.push(occurrence);
+      occurrence = previousCronTime(schedule, occurrence);
+    }
+  }
+
+  return due.reverse();
+}
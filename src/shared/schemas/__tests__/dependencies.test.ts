@@ -0,0 +1,66 @@
+/**
+ * Dependency Graph Helper Tests
+ *
+ * Tests for cycle detection and the critical path over task dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findDependencyCycle, getCriticalPath, getTaskDependencies } from '../common';
+import { createTask } from '../factories';
+import type { Task } from '../../types';
+
+function task(id: string, dependsOn: string[] = [], overrides: Partial<Task> = {}): Task {
+  return createTask({ id, dependsOn, ...overrides });
+}
+
+describe('getTaskDependencies', () => {
+  it('combines dependsOn with the agent plan dependencies', () => {
+    const t = task('TSK-3', ['TSK-1'], {
+      agent: { goal: '', scope: [], definitionOfDone: [], dependencies: ['TSK-1', 'TSK-2'] },
+    });
+    expect(getTaskDependencies(t)).toEqual(['TSK-1', 'TSK-2']);
+  });
+});
+
+describe('findDependencyCycle', () => {
+  const tasks = [task('TSK-1'), task('TSK-2', ['TSK-1']), task('TSK-3', ['TSK-2'])];
+
+  it('returns null for edits that keep the graph acyclic', () => {
+    expect(findDependencyCycle(tasks, 'TSK-3', ['TSK-1', 'TSK-2'])).toBeNull();
+    expect(findDependencyCycle(tasks, 'TSK-1', ['TSK-99'])).toBeNull();
+  });
+
+  it('returns the cycle an edit would create', () => {
+    expect(findDependencyCycle(tasks, 'TSK-1', ['TSK-3'])).toEqual(['TSK-1', 'TSK-3', 'TSK-2', 'TSK-1']);
+  });
+
+  it('treats a dependency on the task itself as a cycle', () => {
+    expect(findDependencyCycle(tasks, 'TSK-2', ['TSK-2'])).toEqual(['TSK-2', 'TSK-2']);
+  });
+
+  it('follows agent plan dependencies', () => {
+    const withAgentDeps = [
+      task('TSK-1', [], { agent: { goal: '', scope: [], definitionOfDone: [], dependencies: ['TSK-2'] } }),
+      task('TSK-2'),
+    ];
+    expect(findDependencyCycle(withAgentDeps, 'TSK-2', ['TSK-1'])).toEqual(['TSK-2', 'TSK-1', 'TSK-2']);
+  });
+});
+
+describe('getCriticalPath', () => {
+  it('returns the longest chain of unfinished tasks', () => {
+    const tasks = [
+      task('TSK-1', [], { status: 'done' }),
+      task('TSK-2', ['TSK-1']),
+      task('TSK-3', ['TSK-2']),
+      task('TSK-4', ['TSK-3', 'TSK-5']),
+      task('TSK-5'),
+      task('TSK-6', ['TSK-5']),
+    ];
+    expect(getCriticalPath(tasks)).toEqual(['TSK-2', 'TSK-3', 'TSK-4']);
+  });
+
+  it('returns an empty path when everything is done', () => {
+    expect(getCriticalPath([task('TSK-1', [], { status: 'done' })])).toEqual([]);
+  });
+});
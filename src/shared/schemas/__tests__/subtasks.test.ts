@@ -0,0 +1,53 @@
+/**
+ * Subtask Helper Tests
+ *
+ * Tests for listing subtasks, rolling up their progress and walking the
+ * parent chain.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSubtasks, getSubtaskProgress, isSubtaskOf } from '../common';
+import { createTask } from '../factories';
+import type { Task } from '../../types';
+
+function task(id: string, parentId?: string, overrides: Partial<Task> = {}): Task {
+  return createTask({ id, parentId, ...overrides });
+}
+
+const tasks = [
+  task('TSK-1'),
+  task('TSK-2', 'TSK-1', { order: 1, status: 'done' }),
+  task('TSK-3', 'TSK-1', { order: 0 }),
+  task('TSK-4', 'TSK-3', { status: 'done' }),
+  task('TSK-5', 'TSK-3'),
+  task('TSK-6'),
+];
+
+describe('getSubtasks', () => {
+  it('returns direct subtasks in board order', () => {
+    expect(getSubtasks(tasks, 'TSK-1').map(t => t.id)).toEqual(['TSK-3', 'TSK-2']);
+    expect(getSubtasks(tasks, 'TSK-6')).toEqual([]);
+  });
+});
+
+describe('getSubtaskProgress', () => {
+  it('rolls up nested subtasks', () => {
+    expect(getSubtaskProgress(tasks, 'TSK-1')).toEqual({ done: 2, total: 4 });
+    expect(getSubtaskProgress(tasks, 'TSK-3')).toEqual({ done: 1, total: 2 });
+    expect(getSubtaskProgress(tasks, 'TSK-6')).toEqual({ done: 0, total: 0 });
+  });
+
+  it('stops at parent cycles in stored data', () => {
+    const cyclic = [task('TSK-1', 'TSK-2'), task('TSK-2', 'TSK-1')];
+    expect(getSubtaskProgress(cyclic, 'TSK-1')).toEqual({ done: 0, total: 1 });
+  });
+});
+
+describe('isSubtaskOf', () => {
+  it('follows the parent chain', () => {
+    expect(isSubtaskOf(tasks, 'TSK-5', 'TSK-1')).toBe(true);
+    expect(isSubtaskOf(tasks, 'TSK-5', 'TSK-3')).toBe(true);
+    expect(isSubtaskOf(tasks, 'TSK-1', 'TSK-5')).toBe(false);
+    expect(isSubtaskOf(tasks, 'TSK-6', 'TSK-1')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Board Workflow Helper Tests
+ *
+ * Tests for column categories, workflow column resolution and the move
+ * rules (allowed transitions and WIP limits).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getStatusCategory, isTerminalStatus, resolveWorkflow, getMoveViolation } from '../common';
+import type { Column } from '../../types';
+
+const columns: Column[] = [
+  { id: 'ideas', title: 'Ideas', category: 'backlog', taskIds: [] },
+  { id: 'ready', title: 'Ready', category: 'todo', taskIds: ['TSK-1'] },
+  { id: 'dev', title: 'Dev', category: 'in_progress', wipLimit: 2, taskIds: ['TSK-2', 'TSK-3'], allowedTransitions: ['qa'] },
+  { id: 'qa', title: 'QA', category: 'review', taskIds: [] },
+  { id: 'shipped', title: 'Shipped', category: 'done', taskIds: [] },
+];
+
+describe('getStatusCategory', () => {
+  it('uses the column category, then the built-in column', () => {
+    expect(getStatusCategory('shipped', columns)).toBe('done');
+    expect(getStatusCategory('doing')).toBe('in_progress');
+    expect(getStatusCategory('unknown')).toBe('todo');
+  });
+
+  it('treats custom done columns as terminal', () => {
+    expect(isTerminalStatus('shipped', columns)).toBe(true);
+    expect(isTerminalStatus('shipped')).toBe(false);
+    expect(isTerminalStatus('done')).toBe(true);
+  });
+});
+
+describe('resolveWorkflow', () => {
+  it('picks columns by category when unset', () => {
+    expect(resolveWorkflow({ columns })).toEqual({
+      ralphSourceColumns: ['ready'],
+      runningColumn: 'dev',
+      successColumn: 'qa',
+      doneColumn: 'shipped',
+    });
+  });
+
+  it('prefers configured columns', () => {
+    const workflow = resolveWorkflow({
+      columns,
+      workflow: { ralphSourceColumns: ['ideas', 'ready'], successColumn: 'shipped' },
+    });
+
+    expect(workflow.ralphSourceColumns).toEqual(['ideas', 'ready']);
+    expect(workflow.successColumn).toBe('shipped');
+  });
+});
+
+describe('getMoveViolation', () => {
+  it('enforces allowed transitions', () => {
+    expect(getMoveViolation({ columns }, 'dev', 'shipped')).toEqual({ rule: 'transition', from: 'dev', to: 'shipped' });
+    expect(getMoveViolation({ columns }, 'dev', 'qa')).toBeNull();
+  });
+
+  it('enforces WIP limits on the target column', () => {
+    expect(getMoveViolation({ columns }, 'ready', 'dev')).toEqual({ rule: 'wipLimit', column: 'dev', limit: 2 });
+    expect(getMoveViolation({ columns }, 'dev', 'dev')).toBeNull();
+  });
+});
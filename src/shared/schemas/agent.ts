@@ -6,6 +6,20 @@
 
 import { z } from 'zod';
 
+// ============================================
+// Usage Schemas
+// ============================================
+
+/**
+ * Schema for token usage and cost.
+ */
+export const TokenUsageSchema = z.object({
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  costUsd: z.number().min(0),
+  estimated: z.boolean().optional(),
+});
+
 // ============================================
 // Primitive Schemas
 // ============================================
@@ -39,6 +53,7 @@ export const RalphModeStateSchema = z.object({
   processedCount: z.number().int().min(0),
   failedCount: z.number().int().min(0),
   currentTaskId: z.string().optional(),
+  usage: TokenUsageSchema.optional(),
 });
 
 /**
@@ -101,6 +116,57 @@ export const AcceptanceCriterionResultSchema = z.object({
   evidence: z.string(),
 });
 
+/**
+ * Schema for agent run transcript entry.
+ */
+export const AgentRunTranscriptEntrySchema = z.object({
+  timestamp: z.string(),
+  step: z.number().int().min(0),
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  toolCalls: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    arguments: z.record(z.string(), z.unknown()),
+  })).optional(),
+  finishReason: z.enum(['stop', 'length', 'tool_calls', 'error']).optional(),
+  usage: TokenUsageSchema.optional(),
+});
+
+/**
+ * Schema for provider failure classification.
+ */
+export const ProviderErrorKindSchema = z.enum(['rate_limit', 'auth', 'transient', 'fatal']);
+
+/**
+ * Schema for a provider chain retry or failover.
+ */
+export const AgentRunProviderEventSchema = z.object({
+  timestamp: z.string(),
+  provider: z.string(),
+  kind: ProviderErrorKindSchema,
+  message: z.string(),
+  attempt: z.number().int().positive(),
+  action: z.enum(['retry', 'failover', 'give_up']),
+  delayMs: z.number().int().min(0).optional(),
+  nextProvider: z.string().optional(),
+});
+
+/**
+ * Schema for an approval decision in a run.
+ */
+export const AgentRunApprovalSchema = z.object({
+  requestId: z.string(),
+  kind: z.enum(['command', 'path']),
+  toolName: z.string(),
+  target: z.string(),
+  matchedRule: z.string(),
+  decision: z.enum(['approve', 'deny', 'always_allow', 'cancelled']),
+  automatic: z.boolean().optional(),
+  requestedAt: z.string(),
+  decidedAt: z.string(),
+});
+
 /**
  * Complete schema for agent run.
  */
@@ -119,6 +185,10 @@ export const AgentRunSchema = z.object({
   acceptanceResults: z.array(AcceptanceCriterionResultSchema).optional(),
   summary: z.string().optional(),
   error: z.string().optional(),
+  transcript: z.array(AgentRunTranscriptEntrySchema).optional(),
+  usage: TokenUsageSchema.optional(),
+  providerEvents: z.array(AgentRunProviderEventSchema).optional(),
+  approvals: z.array(AgentRunApprovalSchema).optional(),
 });
 
 // ============================================
@@ -10,6 +10,11 @@ import { z } from 'zod';
 // Board Schemas
 // ============================================
 
+/**
+ * Schema for a column's workflow stage.
+ */
+export const ColumnCategorySchema = z.enum(['backlog', 'todo', 'in_progress', 'review', 'done']);
+
 /**
  * Schema for Kanban column.
  */
@@ -18,6 +23,27 @@ export const ColumnSchema = z.object({
   title: z.string(),
   taskIds: z.array(z.string()),
   wipLimit: z.number().optional(),
+  category: ColumnCategorySchema.optional(),
+  allowedTransitions: z.array(z.string()).optional(),
+});
+
+/**
+ * Schema for the board's agent workflow columns.
+ */
+export const BoardWorkflowSchema = z.object({
+  ralphSourceColumns: z.array(z.string()).optional(),
+  runningColumn: z.string().optional(),
+  successColumn: z.string().optional(),
+});
+
+/**
+ * Schema for a saved task filter.
+ */
+export const SavedFilterSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  query: z.string(),
+  groupBy: z.enum(['none', 'epic', 'sprint', 'priority']).optional(),
 });
 
 /**
@@ -27,6 +53,8 @@ export const BoardSchema = z.object({
   id: z.string(),
   name: z.string(),
   columns: z.array(ColumnSchema),
+  workflow: BoardWorkflowSchema.optional(),
+  savedFilters: z.array(SavedFilterSchema).optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -35,5 +63,6 @@ export const BoardSchema = z.object({
 // Type exports
 // ============================================
 
+export type ColumnCategorySchemaType = z.infer<typeof ColumnCategorySchema>;
 export type ColumnSchemaType = z.infer<typeof ColumnSchema>;
 export type BoardSchemaType = z.infer<typeof BoardSchema>;
@@ -5,7 +5,17 @@
  */
 
 import { z } from 'zod';
-import type { Task, TaskStatus } from '../types';
+import type {
+  Board,
+  BuiltInTaskStatus,
+  Column,
+  ColumnCategory,
+  MoveViolation,
+  ResolvedBoardWorkflow,
+  Task,
+  TaskStatus,
+  TokenUsage,
+} from '../types';
 import { TaskSchema } from './task';
 
 // ============================================
@@ -26,6 +36,7 @@ export const ActivityTypeSchema = z.enum([
   'ralph_stopped',
   'command_executed',
   'file_modified',
+  'run_rolled_back',
 ]);
 
 /**
@@ -47,12 +58,12 @@ export const ActivityEntrySchema = z.object({
 /**
  * Default Kanban columns configuration.
  */
-export const DEFAULT_COLUMNS: Array<{ id: TaskStatus; title: string }> = [
-  { id: 'backlog', title: 'Backlog' },
-  { id: 'todo', title: 'To Do' },
-  { id: 'doing', title: 'In Progress' },
-  { id: 'review', title: 'Review' },
-  { id: 'done', title: 'Done' },
+export const DEFAULT_COLUMNS: Array<{ id: BuiltInTaskStatus; title: string; category: ColumnCategory }> = [
+  { id: 'backlog', title: 'Backlog', category: 'backlog' },
+  { id: 'todo', title: 'To Do', category: 'todo' },
+  { id: 'doing', title: 'In Progress', category: 'in_progress' },
+  { id: 'review', title: 'Review', category: 'review' },
+  { id: 'done', title: 'Done', category: 'done' },
 ];
 
 // ============================================
@@ -78,8 +89,14 @@ export const LOCAL_KANBAN_PATHS = {
   runs: '.local-kanban/runs',
   projectRuns: '.local-kanban/runs/project',
   agentRuns: '.local-kanban/agent-runs',
+  checkpoints: '.local-kanban/checkpoints',
   backups: '.local-kanban/backups',
+  worktrees: '.local-kanban/worktrees',
   skills: '.local-kanban/skills.json',
+  history: '.local-kanban/history',
+  journal: '.local-kanban/journal.json',
+  lock: '.local-kanban/store.lock',
+  database: '.local-kanban/store.db',
 } as const;
 
 // ============================================
@@ -92,8 +109,8 @@ export const LOCAL_KANBAN_PATHS = {
  * @param status - The status string to validate
  * @returns True if the status is valid
  */
-export function isValidTaskStatus(status: string): status is TaskStatus {
-  return ['backlog', 'todo', 'doing', 'review', 'done'].includes(status);
+export function isValidTaskStatus(status: string): status is BuiltInTaskStatus {
+  return DEFAULT_COLUMNS.some((column) => column.id === status);
 }
 
 /**
@@ -110,10 +127,11 @@ export function isValidTask(task: unknown): task is Task {
  * Check if a status represents a terminal/completed state.
  *
  * @param status - The task status to check
- * @returns True if the status is terminal (done)
+ * @param columns - Board columns; without them only built-in IDs are known
+ * @returns True if the status is a done column
  */
-export function isTerminalStatus(status: TaskStatus): boolean {
-  return status === 'done';
+export function isTerminalStatus(status: TaskStatus, columns?: WorkflowColumn[]): boolean {
+  return getStatusCategory(status, columns) === 'done';
 }
 
 /**
@@ -121,18 +139,283 @@ export function isTerminalStatus(status: TaskStatus): boolean {
  *
  * @param task - The task to check
  * @param allTasks - All tasks in the system
+ * @param columns - Board columns, for custom done columns
  * @returns True if the task has dependencies that are not done
  */
-export function hasUnmetDependencies(task: Task, allTasks: Task[]): boolean {
+export function hasUnmetDependencies(task: Task, allTasks: Task[], columns?: WorkflowColumn[]): boolean {
   const deps = task.dependsOn || task.agent.dependencies || [];
   if (deps.length === 0) return false;
 
   return deps.some((depId) => {
     const depTask = allTasks.find((t) => t.id === depId);
-    return !depTask || depTask.status !== 'done';
+    return !depTask || !isTerminalStatus(depTask.status, columns);
   });
 }
 
+// ============================================
+// Workflow Helpers
+// ============================================
+
+/**
+ * Column fields the workflow helpers read.
+ */
+export type WorkflowColumn = Pick<Column, 'id' | 'category'>;
+
+/**
+ * Get a column's workflow stage.
+ * Columns without a category use the built-in column's stage, or todo.
+ *
+ * @param column - The column
+ * @returns The column category
+ */
+export function getColumnCategory(column: WorkflowColumn): ColumnCategory {
+  return column.category ?? DEFAULT_COLUMNS.find((c) => c.id === column.id)?.category ?? 'todo';
+}
+
+/**
+ * Get the workflow stage of a task status.
+ *
+ * @param status - The task status (column ID)
+ * @param columns - Board columns; without them only built-in IDs are known
+ * @returns The category of the status's column
+ */
+export function getStatusCategory(status: TaskStatus, columns?: WorkflowColumn[]): ColumnCategory {
+  const column = columns?.find((c) => c.id === status);
+  return getColumnCategory(column ?? { id: status });
+}
+
+/**
+ * Resolve the columns used by agent runs and Ralph Mode.
+ * Unset workflow fields fall back to the first column of the matching
+ * category, then to the built-in column IDs.
+ *
+ * @param board - The board
+ * @returns Workflow with every column set
+ */
+export function resolveWorkflow(board: Pick<Board, 'columns' | 'workflow'>): ResolvedBoardWorkflow {
+  const workflow = board.workflow ?? {};
+  const firstOf = (category: ColumnCategory, fallback: string): string =>
+    board.columns.find((c) => getColumnCategory(c) === category)?.id ?? fallback;
+  const sources = board.columns.filter((c) => getColumnCategory(c) === 'todo').map((c) => c.id);
+
+  return {
+    ralphSourceColumns: workflow.ralphSourceColumns?.length
+      ? workflow.ralphSourceColumns
+      : sources.length > 0 ? sources : ['todo'],
+    runningColumn: workflow.runningColumn || firstOf('in_progress', 'doing'),
+    successColumn: workflow.successColumn || firstOf('review', 'review'),
+    doneColumn: firstOf('done', 'done'),
+  };
+}
+
+/**
+ * Check a move against the board's column rules.
+ * Moves within a column are always allowed.
+ *
+ * @param board - The board, with the task still in its current column
+ * @param fromColumnId - The task's current column
+ * @param toColumnId - The target column
+ * @returns The rule the move breaks, or null if it is allowed
+ */
+export function getMoveViolation(
+  board: Pick<Board, 'columns'>,
+  fromColumnId: string,
+  toColumnId: string
+): MoveViolation | null {
+  if (fromColumnId === toColumnId) return null;
+  const from = board.columns.find((c) => c.id === fromColumnId);
+  const to = board.columns.find((c) => c.id === toColumnId);
+  if (!to) return null;
+
+  if (from?.allowedTransitions && !from.allowedTransitions.includes(to.id)) {
+    return { rule: 'transition', from: fromColumnId, to: to.id };
+  }
+  if (to.wipLimit !== undefined && to.wipLimit > 0 && to.taskIds.length >= to.wipLimit) {
+    return { rule: 'wipLimit', column: to.id, limit: to.wipLimit };
+  }
+  return null;
+}
+
+// ============================================
+// Dependency Graph Helpers
+// ============================================
+
+/**
+ * Get the IDs of the tasks a task depends on.
+ * Combines `dependsOn` with the agent plan's `dependencies`.
+ *
+ * @param task - The task
+ * @returns Dependency IDs without duplicates
+ */
+export function getTaskDependencies(task: Pick<Task, 'dependsOn' | 'agent'>): string[] {
+  return [...new Set([...(task.dependsOn || []), ...(task.agent?.dependencies || [])])];
+}
+
+/**
+ * Find the cycle that giving a task new dependencies would create.
+ *
+ * @param tasks - All tasks
+ * @param taskId - The task being changed
+ * @param dependencies - The task's new dependency IDs
+ * @returns The cycle as task IDs, starting and ending with taskId, or null
+ */
+export function findDependencyCycle(tasks: Task[], taskId: string, dependencies: string[]): string[] | null {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const visited = new Set<string>();
+
+  // Depth-first search from each new dependency back to taskId
+  const search = (id: string, trail: string[]): string[] | null => {
+    if (id === taskId) return [...trail, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    const task = byId.get(id);
+    if (!task) return null;
+
+    for (const depId of getTaskDependencies(task)) {
+      const cycle = search(depId, [...trail, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const depId of dependencies) {
+    const cycle = search(depId, [taskId]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Find the critical path: the longest chain of unfinished tasks that
+ * depend on each other. Dependencies on missing or done tasks are ignored.
+ *
+ * @param tasks - All tasks
+ * @param columns - Board columns, for custom done columns
+ * @returns Task IDs from the first prerequisite to the last dependent
+ */
+export function getCriticalPath(tasks: Task[], columns?: WorkflowColumn[]): string[] {
+  const pending = new Map(tasks.filter((t) => !isTerminalStatus(t.status, columns)).map((t) => [t.id, t]));
+  const longest = new Map<string, string[]>();
+  const visiting = new Set<string>();
+
+  // Longest chain ending at a task (cycles in stored data are cut)
+  const chainTo = (id: string): string[] => {
+    const known = longest.get(id);
+    if (known) return known;
+    if (visiting.has(id)) return [];
+    visiting.add(id);
+
+    let best: string[] = [];
+    for (const depId of getTaskDependencies(pending.get(id)!)) {
+      if (!pending.has(depId)) continue;
+      const chain = chainTo(depId);
+      if (chain.length > best.length) best = chain;
+    }
+
+    visiting.delete(id);
+    const chain = [...best, id];
+    longest.set(id, chain);
+    return chain;
+  };
+
+  let critical: string[] = [];
+  for (const id of pending.keys()) {
+    const chain = chainTo(id);
+    if (chain.length > critical.length) critical = chain;
+  }
+  return critical;
+}
+
+// ============================================
+// Subtask Helpers
+// ============================================
+
+/**
+ * Get the direct subtasks of a task.
+ *
+ * @param tasks - All tasks
+ * @param taskId - The parent task
+ * @returns Subtasks in board order
+ */
+export function getSubtasks(tasks: Task[], taskId: string): Task[] {
+  return tasks.filter((t) => t.parentId === taskId).sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Roll up the progress of a task's subtasks, including nested ones.
+ *
+ * @param tasks - All tasks
+ * @param taskId - The parent task
+ * @param columns - Board columns, for custom done columns
+ * @returns Counts of done and total subtasks
+ */
+export function getSubtaskProgress(
+  tasks: Task[],
+  taskId: string,
+  columns?: WorkflowColumn[]
+): { done: number; total: number } {
+  const progress = { done: 0, total: 0 };
+  const visited = new Set<string>([taskId]);
+
+  const collect = (parentId: string): void => {
+    for (const subtask of tasks) {
+      if (subtask.parentId !== parentId || visited.has(subtask.id)) continue;
+      visited.add(subtask.id);
+      progress.total++;
+      if (isTerminalStatus(subtask.status, columns)) progress.done++;
+      collect(subtask.id);
+    }
+  };
+
+  collect(taskId);
+  return progress;
+}
+
+/**
+ * Check whether a task is nested, at any depth, under another task.
+ *
+ * @param tasks - All tasks
+ * @param taskId - The task to check
+ * @param ancestorId - The possible ancestor
+ * @returns True if ancestorId is on the task's parent chain
+ */
+export function isSubtaskOf(tasks: Task[], taskId: string, ancestorId: string): boolean {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  let parentId = byId.get(taskId)?.parentId;
+
+  while (parentId && !seen.has(parentId)) {
+    if (parentId === ancestorId) return true;
+    seen.add(parentId);
+    parentId = byId.get(parentId)?.parentId;
+  }
+  return false;
+}
+
+// ============================================
+// Usage Helpers
+// ============================================
+
+/**
+ * Add token usage to a running total.
+ *
+ * @param total - The total so far (undefined if nothing was counted yet)
+ * @param usage - The usage to add
+ * @returns A new total
+ */
+export function addTokenUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  const sum: TokenUsage = {
+    inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+    costUsd: (total?.costUsd || 0) + usage.costUsd,
+  };
+  if (total?.estimated || usage.estimated) {
+    sum.estimated = true;
+  }
+  return sum;
+}
+
 // ============================================
 // Type exports
 // ============================================
@@ -12,12 +12,15 @@ import type {
   ProjectContext,
   RepoIndex,
   Policy,
+  PolicyProfile,
   ChatIndex,
   TaskComment,
   TaskRuntimeState,
   AgentRun,
   ActivityEntry,
   ProjectSettings,
+  ProviderChainSettings,
+  RunnerSandboxSettings,
   TaskStatus,
 } from '../types';
 import { DEFAULT_COLUMNS } from './common';
@@ -98,6 +101,7 @@ export function createTask(partial: Partial<Task> & { id: string }): Task {
     acceptanceCriteria: partial.acceptanceCriteria || [],
     tags: partial.tags,
     dependsOn: partial.dependsOn,
+    parentId: partial.parentId,
     agent: partial.agent || {
       goal: '',
       scope: [],
@@ -242,6 +246,7 @@ export function createAgentRun(taskId: string, mode: 'manual' | 'dexter'): Agent
     patches: [],
     commands: [],
     filesModified: [],
+    transcript: [],
   };
 }
 
@@ -275,9 +280,44 @@ export function createDefaultPolicy(): Policy {
       allowedGlobs: ['**/*'],
       blockedGlobs: ['**/node_modules/**', '**/.git/**'],
     },
+    profiles: createDefaultPolicyProfiles(),
   };
 }
 
+/**
+ * Create the built-in policy profiles.
+ *
+ * @returns Full development, read-only review and docs-only profiles
+ */
+export function createDefaultPolicyProfiles(): PolicyProfile[] {
+  return [
+    {
+      id: 'full-dev',
+      name: 'Full development',
+      description: 'Project policy without changes.',
+    },
+    {
+      id: 'read-only-review',
+      name: 'Read-only review',
+      description: 'Read files and run checks; no file changes or commits.',
+      allowedOperations: ['read'],
+      shellCommands: {
+        allowed: ['git', 'npm', 'npx', 'tsc', 'node'],
+        blocked: ['git commit', 'git push', 'git reset', 'git checkout', 'npm install', 'npm publish'],
+      },
+    },
+    {
+      id: 'docs-only',
+      name: 'Docs only',
+      description: 'Read and write documentation only.',
+      allowedPaths: ['docs/**', '**/*.md', '**/*.mdx'],
+      shellCommands: {
+        allowed: ['git', 'echo', 'cat', 'ls', 'dir'],
+      },
+    },
+  ];
+}
+
 /**
  * Create default project settings.
  *
@@ -299,7 +339,48 @@ export function createDefaultSettings(): ProjectSettings {
     },
     runner: {
       defaultTimeoutSec: 1800,
+      sandbox: createDefaultRunnerSandboxSettings(),
     },
+    providers: createDefaultProviderChainSettings(),
+  };
+}
+
+/**
+ * Create default provider fallback settings.
+ *
+ * @returns Settings that use only the selected provider, with retries
+ */
+export function createDefaultProviderChainSettings(): ProviderChainSettings {
+  return {
+    chain: [],
+    maxRetries: 2,
+    initialBackoffMs: 2000,
+    maxBackoffMs: 30000,
+  };
+}
+
+/**
+ * Create default runner sandbox settings.
+ *
+ * @returns Disabled sandbox that withholds common credential variables when enabled
+ */
+export function createDefaultRunnerSandboxSettings(): RunnerSandboxSettings {
+  return {
+    enabled: false,
+    envAllowlist: [],
+    envRedact: [
+      '*TOKEN*',
+      '*SECRET*',
+      '*PASSWORD*',
+      '*API_KEY*',
+      '*PRIVATE_KEY*',
+      'AWS_*',
+      'AZURE_*',
+      'GOOGLE_APPLICATION_CREDENTIALS',
+    ],
+    scratchHome: true,
+    denyNetwork: false,
+    maxOutputBytes: 10 * 1024 * 1024,
   };
 }
 
@@ -13,12 +13,18 @@ export {
   TaskAgentSchema,
   TaskCommentSchema,
   TaskRuntimeSchema,
+  TaskEpicSchema,
+  AIReviewResultSchema,
+  TaskPullRequestSchema,
   TaskSchema,
   TasksFileSchema,
+  TemplateRecurrenceSchema,
+  TaskTemplateSchema,
+  TemplatesFileSchema,
 } from './task';
 
 // Board schemas
-export { ColumnSchema, BoardSchema } from './board';
+export { ColumnCategorySchema, ColumnSchema, BoardWorkflowSchema, SavedFilterSchema, BoardSchema } from './board';
 
 // Chat schemas
 export {
@@ -36,10 +42,15 @@ export {
   AgentRunStatusSchema,
   RalphModeStateSchema,
   AgentStateSchema,
+  TokenUsageSchema,
   AgentRunToolCallSchema,
   AgentRunPatchSchema,
   AgentRunCommandSchema,
   AcceptanceCriterionResultSchema,
+  AgentRunTranscriptEntrySchema,
+  ProviderErrorKindSchema,
+  AgentRunProviderEventSchema,
+  AgentRunApprovalSchema,
   AgentRunSchema,
 } from './agent';
 
@@ -49,16 +60,26 @@ export {
   RepoIndexSchema,
   PolicyLimitsSchema,
   ShellCommandPolicySchema,
+  McpToolPolicySchema,
   PolicySchema,
+  PolicyProfileSchema,
   ProjectCommandSchema,
   NotificationSoundSchema,
   NotificationSettingsSchema,
   ProjectCommandsSettingsSchema,
   RunnerSettingsSchema,
+  RunnerSandboxSettingsSchema,
+  ProviderTypeSchema,
+  ProviderChainSettingsSchema,
+  McpServerConfigSchema,
+  StorageSettingsSchema,
+  ProjectArchiveManifestSchema,
   GitModeSchema,
   CodeVisibilityModeSchema,
   ConflictResolutionModeSchema,
   GitConfigSchema,
+  ForgeTypeSchema,
+  PullRequestConfigSchema,
   ProjectSettingsSchema,
 } from './project';
 
@@ -72,6 +93,17 @@ export {
   isValidTask,
   isTerminalStatus,
   hasUnmetDependencies,
+  getColumnCategory,
+  getStatusCategory,
+  resolveWorkflow,
+  getMoveViolation,
+  getTaskDependencies,
+  findDependencyCycle,
+  getCriticalPath,
+  getSubtasks,
+  getSubtaskProgress,
+  isSubtaskOf,
+  addTokenUsage,
 } from './common';
 
 // Factory functions
@@ -89,7 +121,10 @@ export {
   createDefaultState,
   createAgentRun,
   createDefaultPolicy,
+  createDefaultPolicyProfiles,
   createDefaultSettings,
+  createDefaultProviderChainSettings,
+  createDefaultRunnerSandboxSettings,
   createProjectContext,
   createRepoIndex,
   createActivityEntry,
@@ -46,6 +46,9 @@ export const PolicyLimitsSchema = z.object({
   maxRuntimeMinutes: z.number().positive(),
   allowedGlobs: z.array(z.string()),
   blockedGlobs: z.array(z.string()),
+  maxTokensPerRun: z.number().int().positive().optional(),
+  maxCostPerRunUsd: z.number().positive().optional(),
+  maxProjectCostUsd: z.number().positive().optional(),
 });
 
 /**
@@ -57,6 +60,31 @@ export const ShellCommandPolicySchema = z.object({
   requireConfirmation: z.array(z.string()),
 });
 
+/**
+ * Schema for the MCP tool policy.
+ */
+export const McpToolPolicySchema = z.object({
+  allowed: z.array(z.string()),
+  blocked: z.array(z.string()),
+});
+
+/**
+ * Schema for a named policy profile.
+ */
+export const PolicyProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  allowedPaths: z.array(z.string()).optional(),
+  allowedOperations: z.array(z.string()).optional(),
+  writePaths: z.array(z.string()).optional(),
+  blockedPaths: z.array(z.string()).optional(),
+  shellCommands: ShellCommandPolicySchema.partial().optional(),
+  requireConfirmation: z.array(z.string()).optional(),
+  mcpTools: McpToolPolicySchema.partial().optional(),
+  limits: PolicyLimitsSchema.partial().optional(),
+});
+
 /**
  * Complete schema for security policy.
  */
@@ -69,6 +97,9 @@ export const PolicySchema = z.object({
   shellCommands: ShellCommandPolicySchema,
   requireConfirmation: z.array(z.string()),
   limits: PolicyLimitsSchema,
+  mcpTools: McpToolPolicySchema.optional(),
+  profiles: z.array(PolicyProfileSchema).optional(),
+  writeScopes: z.array(z.array(z.string())).optional(),
 });
 
 // ============================================
@@ -109,11 +140,74 @@ export const ProjectCommandsSettingsSchema = z.object({
   allowUnsafeCommands: z.boolean(),
 });
 
+/**
+ * Schema for the runner command sandbox.
+ */
+export const RunnerSandboxSettingsSchema = z.object({
+  enabled: z.boolean(),
+  envAllowlist: z.array(z.string()),
+  envRedact: z.array(z.string()),
+  scratchHome: z.boolean(),
+  denyNetwork: z.boolean(),
+  maxCpuSeconds: z.number().int().positive().optional(),
+  maxMemoryMb: z.number().int().positive().optional(),
+  maxOutputBytes: z.number().int().positive().optional(),
+});
+
 /**
  * Schema for runner settings.
  */
 export const RunnerSettingsSchema = z.object({
   defaultTimeoutSec: z.number().positive(),
+  ralphMaxConcurrency: z.number().int().positive().optional(),
+  sandbox: RunnerSandboxSettingsSchema.optional(),
+});
+
+/**
+ * Agent provider identifiers.
+ */
+export const ProviderTypeSchema = z.enum(['mock', 'anthropic', 'claude-code', 'opencode', 'codex', 'openai-compatible']);
+
+/**
+ * Schema for provider fallback chain settings.
+ */
+export const ProviderChainSettingsSchema = z.object({
+  chain: z.array(ProviderTypeSchema),
+  maxRetries: z.number().int().min(0).max(10),
+  initialBackoffMs: z.number().int().min(0),
+  maxBackoffMs: z.number().int().min(0),
+});
+
+/**
+ * Schema for an MCP server. Names become part of tool names, which
+ * providers limit to letters, digits, `_` and `-`.
+ */
+export const McpServerConfigSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9-]+$/, 'Use letters, digits and dashes').max(32),
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  enabled: z.boolean(),
+});
+
+/**
+ * Schema for storage settings.
+ */
+export const StorageSettingsSchema = z.object({
+  backend: z.enum(['json', 'sqlite']),
+});
+
+/**
+ * Schema for the manifest of a project archive.
+ */
+export const ProjectArchiveManifestSchema = z.object({
+  format: z.literal('dexteria-project'),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  appVersion: z.string().optional(),
+  projectName: z.string(),
+  parts: z.array(z.enum(['tasks', 'board', 'templates', 'policy', 'settings', 'chats', 'runs'])),
+  taskCount: z.number().int().min(0),
 });
 
 // ============================================
@@ -135,6 +229,22 @@ export const CodeVisibilityModeSchema = z.enum(['enabled', 'disabled']);
  */
 export const ConflictResolutionModeSchema = z.enum(['manual', 'assisted', 'autonomous']);
 
+/**
+ * Forges pull requests can be opened on.
+ */
+export const ForgeTypeSchema = z.enum(['github', 'gitlab', 'gitea']);
+
+/**
+ * Schema for pull request mode.
+ */
+export const PullRequestConfigSchema = z.object({
+  enabled: z.boolean(),
+  forge: ForgeTypeSchema,
+  apiUrl: z.string().url().optional(),
+  repository: z.string().regex(/^[^/\s]+(\/[^/\s]+)+$/, 'Repository must be owner/name').optional(),
+  draft: z.boolean().optional(),
+});
+
 /**
  * Schema for Git configuration.
  */
@@ -165,6 +275,8 @@ export const GitConfigSchema = z.object({
   commitMessageTemplate: z.string().optional(),
   /** Whether to auto-push after commits */
   autoPush: z.boolean().optional(),
+  /** Pull request mode: open a pull request instead of merging locally */
+  pullRequests: PullRequestConfigSchema.optional(),
 }).refine(
   // Validation: autonomous conflict resolution requires code visibility disabled
   (data) => {
@@ -187,8 +299,15 @@ export const ProjectSettingsSchema = z.object({
   notifications: NotificationSettingsSchema,
   projectCommands: ProjectCommandsSettingsSchema,
   runner: RunnerSettingsSchema,
+  providers: ProviderChainSettingsSchema.optional(),
+  /** Storage backend (JSON files if not provided) */
+  storage: StorageSettingsSchema.optional(),
   /** Git configuration (optional, defaults if not provided) */
   git: GitConfigSchema.optional(),
+  /** MCP servers whose tools the agent can use */
+  mcpServers: z.array(McpServerConfigSchema)
+    .refine(servers => new Set(servers.map(s => s.name)).size === servers.length, 'MCP server names must be unique')
+    .optional(),
 });
 
 // ============================================
@@ -5,6 +5,8 @@
  */
 
 import { z } from 'zod';
+import { TokenUsageSchema } from './agent';
+import { ForgeTypeSchema } from './project';
 
 // ============================================
 // Primitive Schemas
@@ -13,7 +15,7 @@ import { z } from 'zod';
 /**
  * Valid task status values.
  */
-export const TaskStatusSchema = z.enum(['backlog', 'todo', 'doing', 'review', 'done']);
+export const TaskStatusSchema = z.string().min(1);
 
 /**
  * Task priority levels.
@@ -42,6 +44,7 @@ export const TaskAgentSchema = z.object({
   scope: z.array(z.string()),
   definitionOfDone: z.array(z.string()),
   dependencies: z.array(z.string()).optional(),
+  policyProfileId: z.string().optional(),
 });
 
 /**
@@ -68,6 +71,44 @@ export const TaskRuntimeSchema = z.object({
   runCount: z.number().int().min(0),
   failureCount: z.number().int().min(0).optional(),
   totalDurationMs: z.number().min(0),
+  usage: TokenUsageSchema.optional(),
+});
+
+/**
+ * Schema for a task's epic.
+ */
+export const TaskEpicSchema = z.object({
+  name: z.string(),
+  color: z.string(),
+});
+
+/**
+ * Schema for the result of a task review.
+ */
+export const AIReviewResultSchema = z.object({
+  passed: z.boolean(),
+  feedback: z.string(),
+  reviewedAt: z.string(),
+  reviewedBy: z.enum(['ai', 'human']),
+  checklist: z.array(z.object({
+    criterion: z.string(),
+    passed: z.boolean(),
+    note: z.string().optional(),
+  })).optional(),
+});
+
+/**
+ * Schema for the pull request opened for a task branch.
+ */
+export const TaskPullRequestSchema = z.object({
+  forge: ForgeTypeSchema,
+  number: z.number().int(),
+  url: z.string(),
+  state: z.enum(['open', 'draft', 'merged', 'closed']),
+  sourceBranch: z.string(),
+  targetBranch: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
 });
 
 // ============================================
@@ -87,6 +128,18 @@ export const TaskSchema = z.object({
   acceptanceCriteria: z.array(z.string()),
   tags: z.array(z.string()).optional(),
   dependsOn: z.array(z.string()).optional(),
+  parentId: z.string().optional(),
+  epic: TaskEpicSchema.optional(),
+  sprint: z.string().optional(),
+  humanOnly: z.boolean().optional(),
+  aiReviewable: z.boolean().optional(),
+  reviewCriteria: z.string().optional(),
+  aiReview: AIReviewResultSchema.nullable().optional(),
+  aiProcessing: z.boolean().optional(),
+  gitBranch: z.string().optional(),
+  gitBranchCheckedOut: z.boolean().optional(),
+  gitLastCommit: z.string().optional(),
+  pullRequest: TaskPullRequestSchema.optional(),
   comments: z.array(TaskCommentSchema),
   agent: TaskAgentSchema,
   runtime: TaskRuntimeSchema,
@@ -102,6 +155,54 @@ export const TasksFileSchema = z.object({
   tasks: z.array(TaskSchema),
 });
 
+// ============================================
+// Template Schemas
+// ============================================
+
+/**
+ * Schema for a template's recurrence.
+ */
+export const TemplateRecurrenceSchema = z.object({
+  enabled: z.boolean(),
+  kind: z.enum(['interval', 'cron']),
+  everyDays: z.number().int().positive().optional(),
+  cron: z.string().optional(),
+  startAt: z.string(),
+  lastOccurrenceAt: z.string().optional(),
+  catchUp: z.enum(['latest', 'all']).optional(),
+  queueInRalph: z.boolean().optional(),
+});
+
+/**
+ * Schema for task templates.
+ */
+export const TaskTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  titleTemplate: z.string().optional(),
+  descriptionTemplate: z.string().optional(),
+  priority: TaskPrioritySchema.optional(),
+  acceptanceCriteria: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  epic: TaskEpicSchema.optional(),
+  humanOnly: z.boolean().optional(),
+  aiReviewable: z.boolean().optional(),
+  reviewCriteria: z.string().optional(),
+  policyProfileId: z.string().optional(),
+  recurrence: TemplateRecurrenceSchema.optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Schema for templates file.
+ */
+export const TemplatesFileSchema = z.object({
+  templates: z.array(TaskTemplateSchema),
+});
+
 // ============================================
 // Type exports
 // ============================================
@@ -0,0 +1,368 @@
+/**
+ * Task Files
+ *
+ * Reads tasks from CSV files and Markdown checklists, and writes tasks to
+ * CSV and to a Markdown status report.
+ *
+ * Parsing produces TaskCreateInput, so imported tasks go through the same
+ * task:beforeCreate hooks as tasks created on the board. The renderer uses
+ * the parsers for the import preview; the main process creates the tasks
+ * and writes export files.
+ */
+
+import type { Column, Task, TaskCreateInput, TaskCsvField, TaskCsvMapping, TaskPriority } from './types';
+import { getColumnCategory } from './schemas/common';
+import { TaskCsvError } from './errors';
+
+/** Epic colors for imported epics, as offered by the task detail epic picker */
+const EPIC_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#06b6d4', '#6366f1'];
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  low: 'low',
+  lowest: 'low',
+  medium: 'medium',
+  normal: 'medium',
+  high: 'high',
+  highest: 'critical',
+  critical: 'critical',
+  urgent: 'critical',
+};
+
+/** Header names recognized for each field, lowercase without spaces or punctuation */
+const CSV_HEADER_ALIASES: Record<TaskCsvField, string[]> = {
+  title: ['title', 'summary', 'name', 'task'],
+  description: ['description', 'details', 'body', 'notes'],
+  status: ['status', 'state', 'column'],
+  priority: ['priority'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  acceptanceCriteria: ['acceptancecriteria', 'criteria', 'ac'],
+  epic: ['epic', 'epicname', 'epiclink'],
+  sprint: ['sprint', 'iteration'],
+};
+
+/** Status words that mean a column category rather than a column */
+const STATUS_CATEGORIES: Record<string, Column['category']> = {
+  backlog: 'backlog',
+  todo: 'todo',
+  open: 'todo',
+  inprogress: 'in_progress',
+  doing: 'in_progress',
+  wip: 'in_progress',
+  review: 'review',
+  inreview: 'review',
+  done: 'done',
+  closed: 'done',
+  complete: 'done',
+  completed: 'done',
+  resolved: 'done',
+};
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Pick a stable color for an epic name.
+ */
+export function epicColor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return EPIC_COLORS[Math.abs(hash) % EPIC_COLORS.length];
+}
+
+/**
+ * Find the column for an imported status: a column ID or title, or a word
+ * such as "Done" or "In progress" for the first column of that category.
+ *
+ * @returns The column ID, or undefined to use the default column
+ */
+export function resolveImportStatus(
+  status: string | undefined,
+  columns: Pick<Column, 'id' | 'title' | 'category'>[]
+): string | undefined {
+  if (!status?.trim()) return undefined;
+
+  const key = normalize(status);
+  const column = columns.find(c => normalize(c.id) === key || normalize(c.title) === key);
+  if (column) return column.id;
+
+  const category = STATUS_CATEGORIES[key];
+  return category ? columns.find(c => getColumnCategory(c) === category)?.id : undefined;
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function detectDelimiter(content: string): string {
+  const firstLine = content.slice(0, content.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(d => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+/**
+ * Parse CSV into rows of fields. Handles quoted fields (with delimiters,
+ * newlines and doubled quotes), CRLF line ends, a byte order mark, and
+ * comma, semicolon or tab delimiters. Blank lines are skipped.
+ *
+ * @throws TaskCsvError on an unterminated quoted field
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let field = '';
+  let line = 1;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' && field === '') {
+      const start = line;
+      i++;
+      while (true) {
+        if (i >= text.length) throw new TaskCsvError('unterminated quoted field', start);
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        if (text[i] === '\n') line++;
+        field += text[i++];
+      }
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      line++;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Guess which column holds each task field from the header row.
+ */
+export function suggestCsvMapping(headers: string[]): TaskCsvMapping {
+  const mapping: TaskCsvMapping = {};
+  const used = new Set<number>();
+
+  for (const [field, aliases] of Object.entries(CSV_HEADER_ALIASES) as Array<[TaskCsvField, string[]]>) {
+    const index = headers.findIndex((header, i) => !used.has(i) && aliases.includes(normalize(header)));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value.split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Turn CSV rows (without the header row) into task inputs. Rows without a
+ * title are skipped.
+ */
+export function csvToTaskInputs(rows: string[][], mapping: TaskCsvMapping): TaskCreateInput[] {
+  const inputs: TaskCreateInput[] = [];
+  const get = (row: string[], field: TaskCsvField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').replace(/^'(?=[=+\-@\t\r])/, '').trim();
+  };
+
+  for (const row of rows) {
+    const title = get(row, 'title');
+    if (!title) continue;
+
+    const input: TaskCreateInput = { title };
+    const description = get(row, 'description');
+    const status = get(row, 'status');
+    const priority = PRIORITIES[get(row, 'priority').toLowerCase()];
+    const tags = splitList(get(row, 'tags'), /[,;|]/);
+    const criteria = splitList(get(row, 'acceptanceCriteria'), /\r?\n/).map(c => c.replace(/^(?:[-*]\s+)?(?:\[[ xX]\]\s+)?/, ''));
+    const epic = get(row, 'epic');
+    const sprint = get(row, 'sprint');
+
+    if (description) input.description = description;
+    if (status) input.status = status;
+    if (priority) input.priority = priority;
+    if (tags.length > 0) input.tags = tags;
+    if (criteria.length > 0) input.acceptanceCriteria = criteria;
+    if (epic) input.epic = { name: epic, color: epicColor(epic) };
+    if (sprint) input.sprint = sprint;
+
+    inputs.push(input);
+  }
+
+  return inputs;
+}
+
+/** Cells starting with these run as formulas when the file is opened in a spreadsheet */
+const CSV_FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+  // A leading quote makes spreadsheets show the cell as text; csvToTaskInputs removes it
+  const cell = CSV_FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",;\t\r\n]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Write tasks as CSV, with headers that suggestCsvMapping recognizes so an
+ * export can be imported again. Statuses are written as column titles.
+ */
+export function tasksToCsv(tasks: Task[], columns: Pick<Column, 'id' | 'title'>[]): string {
+  const header = ['ID', 'Title', 'Description', 'Status', 'Priority', 'Tags', 'Acceptance Criteria', 'Epic', 'Sprint', 'Depends On', 'Created', 'Updated'];
+  const rows = tasks.map(task => [
+    task.id,
+    task.title,
+    task.description,
+    columns.find(c => c.id === task.status)?.title ?? task.status,
+    task.priority,
+    (task.tags ?? []).join(', '),
+    task.acceptanceCriteria.join('\n'),
+    task.epic?.name ?? '',
+    task.sprint ?? '',
+    (task.dependsOn ?? []).join(', '),
+    task.createdAt,
+    task.updatedAt,
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*?)\s*$/;
+
+function indentWidth(indent: string): number {
+  return indent.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Read tasks from a Markdown checklist: headings become epics, bullets
+ * become tasks and nested bullets become their acceptance criteria.
+ * Checked items (`- [x]`) are imported as done.
+ */
+export function parseMarkdownTasks(content: string): TaskCreateInput[] {
+  const inputs: TaskCreateInput[] = [];
+  let epic: string | null = null;
+  let current: { input: TaskCreateInput; indent: number } | null = null;
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const heading = HEADING.exec(line);
+    if (heading) {
+      epic = heading[2] || null;
+      current = null;
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    if (!bullet || !bullet[3]) continue;
+
+    const indent = indentWidth(bullet[1]);
+    if (current && indent > current.indent) {
+      const criteria = current.input.acceptanceCriteria ?? [];
+      criteria.push(bullet[3]);
+      current.input.acceptanceCriteria = criteria;
+      continue;
+    }
+
+    const input: TaskCreateInput = { title: bullet[3] };
+    if (epic) input.epic = { name: epic, color: epicColor(epic) };
+    if (bullet[2] && bullet[2] !== ' ') input.status = 'done';
+
+    inputs.push(input);
+    current = { input, indent };
+  }
+
+  return inputs;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * Options for the Markdown status report.
+ */
+export interface MarkdownReportOptions {
+  /** Report title, usually the board name */
+  title: string;
+  /** Query the tasks were filtered by, shown under the title */
+  query?: string;
+  /** ISO timestamp shown as the export time */
+  generatedAt: string;
+}
+
+/**
+ * Write a Markdown status report: a count per column, then the tasks of
+ * each column as a checklist with their acceptance criteria.
+ */
+export function tasksToMarkdownReport(
+  tasks: Task[],
+  columns: Pick<Column, 'id' | 'title' | 'category'>[],
+  options: MarkdownReportOptions
+): string {
+  const lines: string[] = [`# ${options.title}`, ''];
+  let summary = `Exported ${options.generatedAt.slice(0, 10)} · ${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`;
+  if (options.query) summary += ` · Filter: \`${options.query}\``;
+  lines.push(summary, '', '| Column | Tasks |', '| --- | ---: |');
+
+  const byColumn = columns.map(column => ({
+    column,
+    tasks: tasks.filter(t => t.status === column.id).sort((a, b) => a.order - b.order),
+  }));
+  for (const { column, tasks: columnTasks } of byColumn) {
+    lines.push(`| ${escapeTableCell(column.title)} | ${columnTasks.length} |`);
+  }
+
+  for (const { column, tasks: columnTasks } of byColumn) {
+    if (columnTasks.length === 0) continue;
+
+    const done = getColumnCategory(column) === 'done';
+    lines.push('', `## ${column.title} (${columnTasks.length})`, '');
+
+    for (const task of columnTasks) {
+      const details = [task.priority, task.epic?.name, task.sprint, ...(task.tags ?? []).map(tag => `#${tag}`)];
+      if (task.runtime.status === 'failed' || task.runtime.status === 'blocked') {
+        details.push(task.runtime.status);
+      }
+      lines.push(`- [${done ? 'x' : ' '}] **${task.id}** ${task.title} · ${details.filter(Boolean).join(' · ')}`);
+      for (const criterion of task.acceptanceCriteria) {
+        lines.push(`  - [${done ? 'x' : ' '}] ${criterion}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,394 @@
+/**
+ * Task Query Language
+ *
+ * Parses and evaluates board filters such as
+ * `epic:"Auth" priority>=high tag:backend runtime:failed sprint:S3`.
+ *
+ * Syntax:
+ * - Terms separated by spaces must all match; `OR` between terms matches either
+ * - `-term` or `NOT term` negates, parentheses group
+ * - `field:value` (or `=`, `!=`), and `>`, `>=`, `<`, `<=` on ordered fields
+ * - Values with spaces are quoted; a term without a field searches the text
+ *
+ * Used by the board, saved filters, the agent's `list_tasks` tool and the
+ * Ralph Mode task selection, so a query means the same thing everywhere.
+ */
+
+import type { Column, SwimlaneGroupBy, Task, TaskPriority, TaskRuntimeStatus } from './types';
+import { getStatusCategory, hasUnmetDependencies, isTerminalStatus } from './schemas/common';
+import { TaskQueryError } from './errors';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Comparison in a query term.
+ */
+export type TaskQueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Parsed task query.
+ */
+export type TaskQuery =
+  | { type: 'and' | 'or'; nodes: TaskQuery[] }
+  | { type: 'not'; node: TaskQuery }
+  | { type: 'term'; field: TaskQueryField; op: TaskQueryOperator; value: string };
+
+/**
+ * Board data a query needs beyond the task itself.
+ */
+export interface TaskQueryContext {
+  /** All tasks, for dependency and subtask checks */
+  tasks?: Task[];
+  /** Board columns, for column titles and categories */
+  columns?: Pick<Column, 'id' | 'title' | 'category'>[];
+}
+
+/**
+ * Tasks in one swimlane. The key is empty for tasks without a value.
+ */
+export interface Swimlane {
+  key: string;
+  tasks: Task[];
+}
+
+// ============================================
+// Fields
+// ============================================
+
+const FIELDS = [
+  'text', 'id', 'title', 'status', 'category', 'priority', 'tag', 'epic', 'sprint',
+  'runtime', 'parent', 'depends', 'is', 'has', 'created', 'updated', 'completed', 'runs',
+] as const;
+
+/**
+ * Task field a query term tests.
+ */
+export type TaskQueryField = typeof FIELDS[number];
+
+const FIELD_ALIASES: Record<string, TaskQueryField> = {
+  column: 'status',
+  tags: 'tag',
+  dependson: 'depends',
+};
+
+/** Fields that accept `>`, `>=`, `<` and `<=` */
+const ORDERED_FIELDS: TaskQueryField[] = ['priority', 'sprint', 'created', 'updated', 'completed', 'runs'];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/** Allowed values for fields with a fixed set */
+const FIELD_VALUES: Partial<Record<TaskQueryField, readonly string[]>> = {
+  priority: Object.keys(PRIORITY_RANK),
+  category: ['backlog', 'todo', 'in_progress', 'review', 'done'],
+  runtime: ['idle', 'running', 'blocked', 'done', 'failed'] as TaskRuntimeStatus[],
+  is: ['done', 'blocked', 'subtask', 'human'],
+  has: ['epic', 'sprint', 'tag', 'parent', 'subtasks', 'dependencies'],
+};
+
+// ============================================
+// Parsing
+// ============================================
+
+interface Token {
+  kind: 'word' | 'lparen' | 'rparen' | 'minus';
+  raw: string;
+  pos: number;
+}
+
+const TERM_PATTERN = /^([a-zA-Z]+)(>=|<=|!=|:|=|>|<)([\s\S]*)$/;
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', raw: char, pos: i });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) {
+      tokens.push({ kind: 'minus', raw: char, pos: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const end = query.indexOf('"', i + 1);
+          if (end === -1) throw new TaskQueryError('unterminated quote', query, i);
+          i = end;
+        }
+        i++;
+      }
+      tokens.push({ kind: 'word', raw: query.slice(start, i), pos: start });
+    }
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function parseTerm(token: Token, query: string): TaskQuery {
+  const match = token.raw.startsWith('"') ? null : TERM_PATTERN.exec(token.raw);
+  if (!match) {
+    return { type: 'term', field: 'text', op: ':', value: unquote(token.raw) };
+  }
+
+  const name = match[1].toLowerCase();
+  const field = FIELD_ALIASES[name] ?? (FIELDS as readonly string[]).find(f => f === name) as TaskQueryField | undefined;
+  if (!field) throw new TaskQueryError(`unknown field "${match[1]}"`, query, token.pos);
+
+  const op = match[2] as TaskQueryOperator;
+  const value = unquote(match[3]);
+  if (!value) throw new TaskQueryError(`missing value for ${field}`, query, token.pos);
+
+  if (op.startsWith('>') || op.startsWith('<')) {
+    if (!ORDERED_FIELDS.includes(field)) {
+      throw new TaskQueryError(`${field} does not support ${op}`, query, token.pos);
+    }
+  }
+
+  const allowed = FIELD_VALUES[field];
+  if (allowed && !allowed.includes(value.toLowerCase())) {
+    throw new TaskQueryError(`${field} must be one of ${allowed.join(', ')}`, query, token.pos);
+  }
+  if ((field === 'created' || field === 'updated' || field === 'completed') && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new TaskQueryError(`${field} must be a date (YYYY-MM-DD)`, query, token.pos);
+  }
+  if (field === 'runs' && !/^\d+$/.test(value)) {
+    throw new TaskQueryError('runs must be a number', query, token.pos);
+  }
+
+  return { type: 'term', field, op, value };
+}
+
+/**
+ * Parse a task query.
+ *
+ * @param query - The query text
+ * @returns The parsed query, or null for a blank query
+ * @throws TaskQueryError if the query is invalid
+ */
+export function parseTaskQuery(query: string): TaskQuery | null {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === 'word' && token.raw === keyword;
+
+  const parseOr = (): TaskQuery => {
+    const nodes = [parseAnd()];
+    while (isKeyword(tokens[index], 'OR')) {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): TaskQuery => {
+    const nodes: TaskQuery[] = [];
+    while (index < tokens.length && tokens[index].kind !== 'rparen' && !isKeyword(tokens[index], 'OR')) {
+      if (isKeyword(tokens[index], 'AND')) {
+        index++;
+        continue;
+      }
+      nodes.push(parseUnary());
+    }
+    if (nodes.length === 0) {
+      const pos = tokens[index]?.pos ?? query.length;
+      throw new TaskQueryError('expected a search term', query, pos);
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): TaskQuery => {
+    const token = tokens[index];
+    if (token.kind === 'minus' || isKeyword(token, 'NOT')) {
+      index++;
+      if (index >= tokens.length) throw new TaskQueryError('expected a term to negate', query, token.pos);
+      return { type: 'not', node: parseUnary() };
+    }
+    if (token.kind === 'lparen') {
+      index++;
+      const node = parseOr();
+      if (tokens[index]?.kind !== 'rparen') throw new TaskQueryError('missing )', query, token.pos);
+      index++;
+      return node;
+    }
+    if (token.kind === 'rparen') throw new TaskQueryError('unexpected )', query, token.pos);
+    index++;
+    return parseTerm(token, query);
+  };
+
+  if (tokens.length === 0) return null;
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new TaskQueryError('unexpected )', query, tokens[index].pos);
+  }
+  return node;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function compare(actual: number, op: TaskQueryOperator, expected: number): boolean {
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '!=': return actual !== expected;
+    default: return actual === expected;
+  }
+}
+
+function compareText(actual: string | undefined, op: TaskQueryOperator, expected: string): boolean {
+  if (actual === undefined) return op === '!=';
+  const order = actual.localeCompare(expected, undefined, { numeric: true, sensitivity: 'base' });
+  return compare(order, op, 0);
+}
+
+function equalsIgnoreCase(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+function matchesTerm(task: Task, field: TaskQueryField, op: TaskQueryOperator, value: string, context: TaskQueryContext): boolean {
+  const needle = value.toLowerCase();
+
+  // Fields with a single value honour != directly; the rest are negated below
+  switch (field) {
+    case 'priority':
+      return compare(PRIORITY_RANK[task.priority], op, PRIORITY_RANK[needle as TaskPriority]);
+    case 'sprint':
+      return compareText(task.sprint, op, value);
+    case 'created':
+    case 'updated':
+    case 'completed': {
+      const date = field === 'created' ? task.createdAt : field === 'updated' ? task.updatedAt : task.completedAt;
+      return compareText(date?.slice(0, 10), op, value);
+    }
+    case 'runs':
+      return compare(task.runtime.runCount, op, Number(value));
+  }
+
+  if (op === '!=') return !matchesTerm(task, field, ':', value, context);
+
+  switch (field) {
+    case 'text':
+      return [task.id, task.title, task.description, ...(task.tags ?? [])]
+        .some(text => text.toLowerCase().includes(needle));
+    case 'id':
+      return equalsIgnoreCase(task.id, value);
+    case 'title':
+      return task.title.toLowerCase().includes(needle);
+    case 'status': {
+      const column = context.columns?.find(c => c.id === task.status);
+      return equalsIgnoreCase(task.status, value) || equalsIgnoreCase(column?.title, value);
+    }
+    case 'category':
+      return getStatusCategory(task.status, context.columns) === needle;
+    case 'tag':
+      return (task.tags ?? []).some(tag => equalsIgnoreCase(tag, value));
+    case 'epic':
+      return equalsIgnoreCase(task.epic?.name, value);
+    case 'runtime':
+      return task.runtime.status === needle;
+    case 'parent':
+      return equalsIgnoreCase(task.parentId, value);
+    case 'depends':
+      return (task.dependsOn ?? []).some(id => equalsIgnoreCase(id, value));
+    case 'is':
+      switch (needle) {
+        case 'done': return isTerminalStatus(task.status, context.columns);
+        case 'blocked': return hasUnmetDependencies(task, context.tasks ?? [], context.columns);
+        case 'subtask': return !!task.parentId;
+        default: return !!task.humanOnly;
+      }
+    case 'has':
+      switch (needle) {
+        case 'epic': return !!task.epic;
+        case 'sprint': return !!task.sprint;
+        case 'tag': return (task.tags?.length ?? 0) > 0;
+        case 'parent': return !!task.parentId;
+        case 'subtasks': return (context.tasks ?? []).some(t => t.parentId === task.id);
+        default: return (task.dependsOn?.length ?? 0) > 0;
+      }
+  }
+  return false;
+}
+
+/**
+ * Check whether a task matches a parsed query.
+ *
+ * @param task - The task to check
+ * @param query - Parsed query; null matches every task
+ * @param context - Board data for column and dependency fields
+ * @returns True if the task matches
+ */
+export function matchesTaskQuery(task: Task, query: TaskQuery | null, context: TaskQueryContext = {}): boolean {
+  if (!query) return true;
+  switch (query.type) {
+    case 'and': return query.nodes.every(node => matchesTaskQuery(task, node, context));
+    case 'or': return query.nodes.some(node => matchesTaskQuery(task, node, context));
+    case 'not': return !matchesTaskQuery(task, query.node, context);
+    default: return matchesTerm(task, query.field, query.op, query.value, context);
+  }
+}
+
+/**
+ * Filter tasks with a query.
+ *
+ * @param tasks - Tasks to filter
+ * @param query - The query text
+ * @param context - Board data; `tasks` defaults to the tasks being filtered
+ * @returns Matching tasks, in their original order
+ * @throws TaskQueryError if the query is invalid
+ */
+export function filterTasks(tasks: Task[], query: string, context: TaskQueryContext = {}): Task[] {
+  const parsed = parseTaskQuery(query);
+  if (!parsed) return tasks;
+  const fullContext = { ...context, tasks: context.tasks ?? tasks };
+  return tasks.filter(task => matchesTaskQuery(task, parsed, fullContext));
+}
+
+// ============================================
+// Swimlanes
+// ============================================
+
+/**
+ * Group tasks into swimlanes.
+ * Priority lanes run from critical to low; epic and sprint lanes are
+ * sorted by name, with tasks lacking a value last.
+ *
+ * @param tasks - Tasks to group
+ * @param groupBy - Field to group by
+ * @returns Non-empty lanes in display order
+ */
+export function groupTasks(tasks: Task[], groupBy: SwimlaneGroupBy): Swimlane[] {
+  if (groupBy === 'none') return [{ key: '', tasks }];
+
+  const keyOf = (task: Task): string =>
+    groupBy === 'epic' ? task.epic?.name ?? '' : groupBy === 'sprint' ? task.sprint ?? '' : task.priority;
+
+  const lanes = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const key = keyOf(task);
+    lanes.set(key, [...(lanes.get(key) ?? []), task]);
+  }
+
+  const rank = (key: string): number => (groupBy === 'priority' ? -PRIORITY_RANK[key as TaskPriority] : 0);
+  return [...lanes.entries()]
+    .map(([key, laneTasks]) => ({ key, tasks: laneTasks }))
+    .sort((a, b) => {
+      if (!a.key !== !b.key) return a.key ? -1 : 1;
+      return rank(a.key) - rank(b.key) || a.key.localeCompare(b.key, undefined, { numeric: true });
+    });
+}
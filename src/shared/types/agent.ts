@@ -5,6 +5,7 @@
  */
 
 import type { Task } from './task';
+import type { TokenUsage } from './common';
 
 // ============================================
 // Agent Mode Types
@@ -37,6 +38,8 @@ export interface RalphModeState {
   failedCount: number;
   /** Currently executing task ID */
   currentTaskId?: string;
+  /** Tokens and cost used this session */
+  usage?: TokenUsage;
 }
 
 // ============================================
@@ -77,6 +80,8 @@ export interface RunTaskOptions {
   mode: 'manual' | 'dexter';
   /** Maximum number of agent steps */
   maxSteps?: number;
+  /** Policy profile for tasks that do not select one */
+  policyProfileId?: string;
 }
 
 /**
@@ -91,6 +96,15 @@ export interface RalphModeOptions {
   maxTasks?: number;
   /** Maximum retry attempts per task (default: 2) */
   maxAttempts?: number;
+  /**
+   * Maximum tasks to run at the same time (default: the project's runner.ralphMaxConcurrency, else 1).
+   * Values above 1 run each task in its own git worktree and require Git to be enabled.
+   */
+  maxConcurrency?: number;
+  /** Policy profile for tasks that do not select one */
+  policyProfileId?: string;
+  /** Task query limiting which tasks run, e.g. `epic:"Auth" priority>=high` */
+  query?: string;
 }
 
 // ============================================
@@ -157,6 +171,57 @@ export interface AcceptanceCriterionResult {
   evidence: string;
 }
 
+/**
+ * One message exchanged with the model during an agent run.
+ */
+export interface AgentRunTranscriptEntry {
+  /** ISO timestamp of the message */
+  timestamp: string;
+  /** Loop step the message belongs to (0 for the initial prompt) */
+  step: number;
+  /** Message author */
+  role: 'user' | 'assistant' | 'system';
+  /** Message content */
+  content: string;
+  /** Tool calls requested (assistant messages only) */
+  toolCalls?: AgentToolCall[];
+  /** Reason the response ended (assistant messages only) */
+  finishReason?: AgentResponse['finishReason'];
+  /** Tokens and cost of the call (assistant messages only) */
+  usage?: TokenUsage;
+}
+
+/**
+ * Classification of a provider failure.
+ * - rate_limit: throttled or out of quota; retried after a backoff
+ * - auth: missing or rejected credentials; not retried
+ * - transient: network errors, timeouts and crashes; retried after a backoff
+ * - fatal: anything else; not retried
+ */
+export type ProviderErrorKind = 'rate_limit' | 'auth' | 'transient' | 'fatal';
+
+/**
+ * A retry or failover performed by the provider chain during a run.
+ */
+export interface AgentRunProviderEvent {
+  /** ISO timestamp of the event */
+  timestamp: string;
+  /** Name of the provider that failed */
+  provider: string;
+  /** Classification of the failure */
+  kind: ProviderErrorKind;
+  /** Error message reported by the provider */
+  message: string;
+  /** Attempt number on this provider (1-based) */
+  attempt: number;
+  /** What the chain did next */
+  action: 'retry' | 'failover' | 'give_up';
+  /** Backoff before the retry, in milliseconds */
+  delayMs?: number;
+  /** Provider the chain failed over to */
+  nextProvider?: string;
+}
+
 /**
  * Complete record of an agent execution run.
  */
@@ -189,6 +254,14 @@ export interface AgentRun {
   summary?: string;
   /** Error message if failed */
   error?: string;
+  /** Full model transcript, used to replay the run (missing on older runs) */
+  transcript?: AgentRunTranscriptEntry[];
+  /** Tokens and cost of all model calls in the run */
+  usage?: TokenUsage;
+  /** Retries and failovers of the provider chain */
+  providerEvents?: AgentRunProviderEvent[];
+  /** Human approval decisions for gated commands and paths */
+  approvals?: AgentRunApproval[];
 }
 
 /**
@@ -204,6 +277,156 @@ export interface CommandRunMetadata {
   exitCode?: number;
   timedOut: boolean;
   logPath: string;
+  /** Sandbox the command ran in, if sandboxing was enabled */
+  sandbox?: CommandSandboxInfo;
+}
+
+/**
+ * Sandbox applied to a command execution.
+ */
+export interface CommandSandboxInfo {
+  /** Environment variables passed to the command (names only) */
+  envPassed: string[];
+  /** Environment variables withheld from the command (names only) */
+  envRemoved: string[];
+  /** Temporary HOME the command ran with */
+  home?: string;
+  /** Network access; 'unavailable' when denial was requested but no isolation tool was found */
+  network: 'allowed' | 'denied' | 'unavailable';
+  /** Tool used to deny network access */
+  networkTool?: 'bwrap' | 'unshare';
+  /** Applied CPU time limit in seconds */
+  maxCpuSeconds?: number;
+  /** Applied memory limit in MB */
+  maxMemoryMb?: number;
+  /** Applied output limit in bytes */
+  maxOutputBytes?: number;
+  /** Whether the command was stopped for exceeding the output limit */
+  outputLimitExceeded?: boolean;
+}
+
+// ============================================
+// Approval Types
+// ============================================
+
+/**
+ * What an approval request is about.
+ */
+export type ApprovalKind = 'command' | 'path';
+
+/**
+ * Answer to an approval request.
+ * always_allow approves this request and the same command or path for the
+ * rest of the session.
+ */
+export type ApprovalDecision = 'approve' | 'deny' | 'always_allow';
+
+/**
+ * A tool call waiting for human approval, sent to the renderer.
+ */
+export interface ApprovalRequest {
+  /** Unique request identifier */
+  id: string;
+  /** Task being executed */
+  taskId: string;
+  /** Run that is paused */
+  runId: string;
+  /** Command or file operation */
+  kind: ApprovalKind;
+  /** Tool that was called */
+  toolName: string;
+  /** Command to run (kind: command) */
+  command?: string;
+  /** Working directory of the command or the run */
+  cwd: string;
+  /** File path, relative to cwd (kind: path) */
+  path?: string;
+  /** File operation, e.g. write, create or overwrite_large_file (kind: path) */
+  operation?: string;
+  /** Unified diff of the change (kind: path) */
+  diffPreview?: string;
+  /** requireConfirmation entry that matched */
+  matchedRule: string;
+  /** ISO timestamp of the request */
+  requestedAt: string;
+}
+
+/**
+ * Approval decision recorded in the run artifact.
+ */
+export interface AgentRunApproval {
+  /** Request identifier */
+  requestId: string;
+  /** Command or file operation */
+  kind: ApprovalKind;
+  /** Tool that was called */
+  toolName: string;
+  /** Command or file path */
+  target: string;
+  /** requireConfirmation entry that matched */
+  matchedRule: string;
+  /** Decision; cancelled if the run stopped while waiting */
+  decision: ApprovalDecision | 'cancelled';
+  /** Whether an earlier always_allow decided it without asking */
+  automatic?: boolean;
+  /** ISO timestamp of the request */
+  requestedAt: string;
+  /** ISO timestamp of the decision */
+  decidedAt: string;
+}
+
+// ============================================
+// Run Checkpoint Types
+// ============================================
+
+/**
+ * Pre-change snapshot of a single file modified during an agent run.
+ */
+export interface FileCheckpoint {
+  /** File path relative to the run's root */
+  path: string;
+  /** Whether the file existed before the run first changed it */
+  existed: boolean;
+  /** Name of the snapshot blob holding the original content (when it existed) */
+  snapshotFile?: string;
+  /** SHA-256 of the content before the run changed it */
+  beforeHash: string | null;
+  /** SHA-256 of the content after the run's last change (null if deleted) */
+  afterHash: string | null;
+  /** ISO timestamp when the snapshot was taken */
+  capturedAt: string;
+  /** ISO timestamp when the file was rolled back */
+  rolledBackAt?: string;
+}
+
+/**
+ * Checkpoint of all files an agent run modified, used for rollback.
+ */
+export interface RunCheckpoint {
+  /** Run the checkpoint belongs to */
+  runId: string;
+  /** Task the run executed */
+  taskId: string;
+  /** Absolute directory file paths are relative to (project root or task worktree) */
+  root: string;
+  /** ISO timestamp when the first snapshot was taken */
+  createdAt: string;
+  /** Snapshotted files, in the order they were first modified */
+  files: FileCheckpoint[];
+}
+
+/**
+ * Outcome of rolling back a run or a single file.
+ */
+export interface RollbackResult {
+  /** Whether the rollback was applied */
+  success: boolean;
+  /** Files restored to their pre-run content (or removed if the run created them) */
+  restored: string[];
+  /** Files that changed after the run and were left untouched */
+  conflicts: Array<{ path: string; reason: string }>;
+  /** Error message if failed */
+  error?: string;
 }
 
 // ============================================
@@ -216,6 +439,13 @@ export interface CommandRunMetadata {
 export interface AgentMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  /** Tools an assistant message called */
+  toolCalls?: AgentToolCall[];
+  /**
+   * ID of the tool call whose result a user message carries. Providers
+   * without tool messages read the result as plain text.
+   */
+  toolCallId?: string;
 }
 
 /**
@@ -251,6 +481,8 @@ export interface AgentResponse {
   toolCalls?: AgentToolCall[];
   /** Reason the response ended */
   finishReason: 'stop' | 'length' | 'tool_calls' | 'error';
+  /** Tokens and cost of this call */
+  usage?: TokenUsage;
 }
 
 // ============================================
@@ -8,18 +8,91 @@
 // Column Types
 // ============================================
 
+/**
+ * Workflow stage of a column. Built-in behavior (agent runs, Ralph Mode,
+ * dependencies, completion) keys off the category, not the column ID.
+ */
+export type ColumnCategory = 'backlog' | 'todo' | 'in_progress' | 'review' | 'done';
+
 /**
  * Kanban board column definition.
  */
 export interface Column {
-  /** Unique identifier matching TaskStatus values */
+  /** Unique identifier, used as the status of the tasks in the column */
   id: string;
   /** Display title for the column */
   title: string;
   /** Ordered list of task IDs in this column */
   taskIds: string[];
-  /** Optional work-in-progress limit */
+  /** Optional work-in-progress limit, enforced when tasks are moved in */
   wipLimit?: number;
+  /** Workflow stage (defaults from the built-in column IDs, otherwise todo) */
+  category?: ColumnCategory;
+  /** IDs of the columns tasks may move to from this one (any column when unset) */
+  allowedTransitions?: string[];
+}
+
+/**
+ * Column definition without its tasks, as edited in the board settings.
+ */
+export type ColumnConfig = Omit<Column, 'taskIds'>;
+
+// ============================================
+// Workflow Types
+// ============================================
+
+/**
+ * Columns the agent workflow uses. Unset fields are derived from the
+ * column categories.
+ */
+export interface BoardWorkflow {
+  /** Columns Ralph picks tasks from (default: todo columns) */
+  ralphSourceColumns?: string[];
+  /** Column a task moves to while an agent runs it (default: first in-progress column) */
+  runningColumn?: string;
+  /** Column a task moves to after a successful run (default: first review column) */
+  successColumn?: string;
+}
+
+/**
+ * Workflow with every column resolved against the board.
+ */
+export interface ResolvedBoardWorkflow {
+  ralphSourceColumns: string[];
+  runningColumn: string;
+  successColumn: string;
+  /** Column for tasks an agent verified as complete (first done column) */
+  doneColumn: string;
+}
+
+/**
+ * Why a task cannot move between two columns.
+ */
+export type MoveViolation =
+  | { rule: 'transition'; from: string; to: string }
+  | { rule: 'wipLimit'; column: string; limit: number };
+
+// ============================================
+// Filter Types
+// ============================================
+
+/**
+ * Task field the board groups into swimlanes.
+ */
+export type SwimlaneGroupBy = 'none' | 'epic' | 'sprint' | 'priority';
+
+/**
+ * Named task query saved with the board.
+ */
+export interface SavedFilter {
+  /** Unique filter identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Task query, e.g. `priority>=high tag:backend` */
+  query: string;
+  /** Swimlanes to show with the filter */
+  groupBy?: SwimlaneGroupBy;
 }
 
 // ============================================
@@ -36,6 +109,10 @@ export interface Board {
   name: string;
   /** Ordered list of columns */
   columns: Column[];
+  /** Columns used by agent runs and Ralph Mode */
+  workflow?: BoardWorkflow;
+  /** Saved task filters */
+  savedFilters?: SavedFilter[];
   /** ISO timestamp when board was created */
   createdAt: string;
   /** ISO timestamp when board was last updated */
@@ -23,7 +23,8 @@ export type ActivityType =
   | 'ralph_started'
   | 'ralph_stopped'
   | 'command_executed'
-  | 'file_modified';
+  | 'file_modified'
+  | 'run_rolled_back';
 
 /**
  * Single activity log entry.
@@ -43,6 +44,40 @@ export interface ActivityEntry {
   data: Record<string, unknown>;
 }
 
+// ============================================
+// Token Usage Types
+// ============================================
+
+/**
+ * Token usage and cost of one or more model calls.
+ */
+export interface TokenUsage {
+  /** Prompt tokens sent to the model */
+  inputTokens: number;
+  /** Tokens generated by the model */
+  outputTokens: number;
+  /** Cost in USD (0 when the model's price is unknown) */
+  costUsd: number;
+  /** True if any count was estimated from text length instead of reported by the provider */
+  estimated?: boolean;
+}
+
+// ============================================
+// Store Types
+// ============================================
+
+/**
+ * A store file edited outside the app.
+ */
+export interface StoreFileChange {
+  /** File name inside .local-kanban */
+  file: string;
+  /** reloaded: the edit was valid and is now in use; rejected: the edit was invalid and was reverted */
+  status: 'reloaded' | 'rejected';
+  /** Why the edit was rejected */
+  error?: string;
+}
+
 // ============================================
 // IPC Channels
 // ============================================
@@ -31,6 +31,11 @@ export type CodeVisibilityMode = 'enabled' | 'disabled';
  */
 export type ConflictResolutionMode = 'manual' | 'assisted' | 'autonomous';
 
+/**
+ * Hosting service pull requests are opened on.
+ */
+export type ForgeType = 'github' | 'gitlab' | 'gitea';
+
 // ============================================
 // Git Configuration
 // ============================================
@@ -63,6 +68,37 @@ export interface GitConfig {
   commitMessageTemplate?: string;
   /** Whether to auto-push after commits */
   autoPush?: boolean;
+  /** Pull request mode: open a pull request instead of merging locally */
+  pullRequests?: PullRequestConfig;
+}
+
+/**
+ * Pull request mode settings. When enabled, moving a task to review pushes
+ * its branch to origin and opens a pull request into the main branch; the
+ * access token is kept in the app settings, not in the project.
+ */
+export interface PullRequestConfig {
+  /** Whether pull request mode is on */
+  enabled: boolean;
+  /** Hosting service of the origin remote */
+  forge: ForgeType;
+  /** API base URL (default: derived from the origin remote's host) */
+  apiUrl?: string;
+  /** Repository as owner/name (default: read from the origin remote URL) */
+  repository?: string;
+  /** Whether to open pull requests as drafts */
+  draft?: boolean;
+}
+
+/**
+ * Whether a forge token is available for the API host of a project's pull
+ * request settings. Tokens are saved per API host.
+ */
+export interface ForgeTokenStatus {
+  /** API host the token is looked up for, or null if it cannot be determined */
+  host: string | null;
+  /** A token is saved for the host, or the forge's environment variable applies to it */
+  available: boolean;
 }
 
 /**
@@ -174,6 +210,8 @@ export interface TaskBranchMapping {
   mergeCommitHash: string | null;
   /** Target branch for merge (review or main) */
   mergedTo?: string;
+  /** Absolute path of the git worktree checked out for this task's runs, if any */
+  worktreePath?: string | null;
 }
 
 /**
@@ -430,4 +468,37 @@ export interface TaskGitFields {
   gitBranchCheckedOut?: boolean;
   /** Last Git commit hash for this task */
   gitLastCommit?: string;
+  /** Pull request opened for the task branch */
+  pullRequest?: TaskPullRequest;
+}
+
+// ============================================
+// Pull Request Types
+// ============================================
+
+/**
+ * State of a pull request on the forge.
+ */
+export type PullRequestState = 'open' | 'draft' | 'merged' | 'closed';
+
+/**
+ * Pull request opened for a task branch.
+ */
+export interface TaskPullRequest {
+  /** Hosting service the pull request is on */
+  forge: ForgeType;
+  /** Pull request number (merge request IID on GitLab) */
+  number: number;
+  /** Web URL of the pull request */
+  url: string;
+  /** Last known state */
+  state: PullRequestState;
+  /** Task branch */
+  sourceBranch: string;
+  /** Branch the pull request merges into */
+  targetBranch: string;
+  /** ISO timestamp when the pull request was opened */
+  createdAt: string;
+  /** ISO timestamp when the state last changed */
+  updatedAt: string;
 }
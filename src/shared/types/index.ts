@@ -8,6 +8,7 @@
 // Task types
 export type {
   TaskStatus,
+  BuiltInTaskStatus,
   TaskRuntimeStatus,
   TaskPriority,
   TaskComment,
@@ -18,13 +19,39 @@ export type {
   Task,
   TasksFile,
   TaskTemplate,
+  TemplateRecurrenceKind,
+  TemplateCatchUp,
+  TemplateRecurrence,
+  RecurringTasksCreatedEvent,
   TemplatesFile,
   TaskPatch,
   TaskCreateInput,
+  TaskFileFormat,
+  TaskCsvField,
+  TaskCsvMapping,
+  TaskImportFile,
+  TaskImportResult,
+  ChangeActorType,
+  ChangeActor,
+  FieldChange,
+  TaskRevisionAction,
+  TaskRevision,
+  BoardOperation,
+  UndoState,
 } from './task';
 
 // Board types
-export type { Column, Board } from './board';
+export type {
+  ColumnCategory,
+  Column,
+  ColumnConfig,
+  BoardWorkflow,
+  ResolvedBoardWorkflow,
+  SwimlaneGroupBy,
+  SavedFilter,
+  MoveViolation,
+  Board,
+} from './board';
 
 // Chat types
 export type {
@@ -45,8 +72,19 @@ export type {
   AgentRunPatch,
   AgentRunCommand,
   AcceptanceCriterionResult,
+  AgentRunTranscriptEntry,
+  ProviderErrorKind,
+  AgentRunProviderEvent,
+  ApprovalKind,
+  ApprovalDecision,
+  ApprovalRequest,
+  AgentRunApproval,
   AgentRun,
   CommandRunMetadata,
+  CommandSandboxInfo,
+  FileCheckpoint,
+  RunCheckpoint,
+  RollbackResult,
   AgentMessage,
   AgentToolDefinition,
   AgentToolCall,
@@ -127,6 +165,11 @@ export type {
   PolicyLimits,
   ShellCommandPolicy,
   Policy,
+  PolicyProfile,
+  PolicySimulationChange,
+  PolicySimulationCall,
+  PolicySimulationGroup,
+  PolicySimulationResult,
   ProjectContext,
   RepoIndex,
   ProjectCommand,
@@ -134,6 +177,24 @@ export type {
   NotificationSettings,
   ProjectCommandsSettings,
   RunnerSettings,
+  RunnerSandboxSettings,
+  ProviderType,
+  OpenAICompatibleSettings,
+  ApiServerSettings,
+  ApiServerStatus,
+  McpToolPolicy,
+  McpServerConfig,
+  McpToolInfo,
+  McpServerStatus,
+  ProviderChainSettings,
+  StorageBackendType,
+  StorageSettings,
+  StorageInfo,
+  ProjectArchivePart,
+  ProjectArchiveManifest,
+  ProjectExportOptions,
+  ProjectImportOptions,
+  ProjectImportResult,
   ProjectSettings,
   DetectedCommands,
   ProjectProcessType,
@@ -145,6 +206,8 @@ export type {
 export type {
   ActivityType,
   ActivityEntry,
+  TokenUsage,
+  StoreFileChange,
   IPCChannel,
 } from './common';
 
@@ -155,7 +218,10 @@ export type {
   GitMode,
   CodeVisibilityMode,
   ConflictResolutionMode,
+  ForgeType,
   GitConfig,
+  PullRequestConfig,
+  ForgeTokenStatus,
   GitStatus,
   BranchInfo,
   CommitInfo,
@@ -176,6 +242,8 @@ export type {
   ConflictResolutionChoice,
   ResolveConflictOptions,
   TaskGitFields,
+  PullRequestState,
+  TaskPullRequest,
 } from './git';
 
 export { DEFAULT_GIT_CONFIG, DEFAULT_GIT_STATE } from './git';
@@ -24,6 +24,12 @@ export interface PolicyLimits {
   allowedGlobs: string[];
   /** Glob patterns for blocked paths */
   blockedGlobs: string[];
+  /** Maximum tokens (input + output) per run (unset = unlimited) */
+  maxTokensPerRun?: number;
+  /** Maximum cost in USD per run (unset = unlimited) */
+  maxCostPerRunUsd?: number;
+  /** Maximum cost in USD of all agent runs in the project (unset = unlimited) */
+  maxProjectCostUsd?: number;
 }
 
 /**
@@ -38,6 +44,17 @@ export interface ShellCommandPolicy {
   requireConfirmation: string[];
 }
 
+/**
+ * Which tools of external MCP servers the agent may call. Patterns match
+ * namespaced tool names (`mcp__<server>__<tool>`); `*` matches any text.
+ */
+export interface McpToolPolicy {
+  /** Tools the agent may call */
+  allowed: string[];
+  /** Tools the agent may never call, even if allowed */
+  blocked: string[];
+}
+
 /**
  * Complete security policy definition.
  */
@@ -58,6 +75,95 @@ export interface Policy {
   requireConfirmation: string[];
   /** Execution limits */
   limits: PolicyLimits;
+  /** MCP tool policy (all tools of the project's MCP servers if not set) */
+  mcpTools?: McpToolPolicy;
+  /** Named profiles that tasks, templates and Ralph sessions can select */
+  profiles?: PolicyProfile[];
+  /**
+   * Glob lists a written path must match, one entry of each list.
+   * Only set on effective policies, from the profile's writePaths and the
+   * task's agent.scope.
+   */
+  writeScopes?: string[][];
+}
+
+/**
+ * Named set of overrides applied on top of the project policy. A profile
+ * only narrows it: allow-lists are intersected with the project's; lists
+ * that restrict access are added to the project's.
+ */
+export interface PolicyProfile {
+  /** Unique profile identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** What the profile is for */
+  description?: string;
+  /** Intersected with the project's allowed paths */
+  allowedPaths?: string[];
+  /** Intersected with the project's allowed operations */
+  allowedOperations?: string[];
+  /** Paths the agent may write to (reads still follow allowedPaths) */
+  writePaths?: string[];
+  /** Added to the project's blocked paths */
+  blockedPaths?: string[];
+  /** allowed is intersected with the project's list; blocked and requireConfirmation are added */
+  shellCommands?: Partial<ShellCommandPolicy>;
+  /** Added to the project's operations requiring confirmation */
+  requireConfirmation?: string[];
+  /** allowed is intersected with the project's list; blocked is added */
+  mcpTools?: Partial<McpToolPolicy>;
+  /** Overrides individual limits */
+  limits?: Partial<PolicyLimits>;
+}
+
+/**
+ * How a replayed call's outcome changes under a candidate policy.
+ */
+export type PolicySimulationChange = 'newly_blocked' | 'newly_allowed';
+
+/**
+ * A recorded tool call or command whose outcome changes.
+ */
+export interface PolicySimulationCall {
+  /** Task the run belongs to */
+  taskId: string;
+  /** Run the call was recorded in */
+  runId: string;
+  /** ISO timestamp of the original call */
+  timestamp: string;
+  /** Tool name (run_command for recorded commands) */
+  tool: string;
+  /** Path or command the call targeted */
+  target: string;
+  /** Why the call is blocked under the policy that blocks it */
+  reason: string;
+}
+
+/**
+ * Changed calls that share the rule responsible for the change.
+ */
+export interface PolicySimulationGroup {
+  /** Rule that newly blocks the calls, or that no longer blocks them */
+  rule: string;
+  change: PolicySimulationChange;
+  calls: PolicySimulationCall[];
+}
+
+/**
+ * Result of replaying past agent runs through a candidate policy.
+ */
+export interface PolicySimulationResult {
+  /** Number of run artifacts read */
+  runsScanned: number;
+  /** Number of tool calls and commands replayed */
+  callsReplayed: number;
+  /** Calls allowed by the current policy that the candidate blocks */
+  newlyBlocked: number;
+  /** Calls blocked by the current policy that the candidate allows */
+  newlyAllowed: number;
+  /** Changed calls grouped by rule, largest groups first */
+  groups: PolicySimulationGroup[];
 }
 
 // ============================================
@@ -151,6 +257,221 @@ export interface ProjectCommandsSettings {
 export interface RunnerSettings {
   /** Default timeout in seconds */
   defaultTimeoutSec: number;
+  /**
+   * Maximum tasks Ralph runs at the same time (1 if not set).
+   * Values above 1 run each task in its own git worktree and require Git to be enabled.
+   */
+  ralphMaxConcurrency?: number;
+  /** Sandbox for agent commands (defaults if not provided) */
+  sandbox?: RunnerSandboxSettings;
+}
+
+/**
+ * Opt-in sandbox for commands run by the agent.
+ */
+export interface RunnerSandboxSettings {
+  /** Whether commands run sandboxed */
+  enabled: boolean;
+  /** Environment variables passed to commands (globs); empty passes all but the redacted ones */
+  envAllowlist: string[];
+  /** Environment variables withheld from commands (globs, e.g. "*_TOKEN") */
+  envRedact: string[];
+  /** Run commands with an empty temporary HOME */
+  scratchHome: boolean;
+  /** Deny network access (Linux, needs bubblewrap or unshare) */
+  denyNetwork: boolean;
+  /** CPU time limit in seconds (not applied on Windows) */
+  maxCpuSeconds?: number;
+  /** Memory limit in MB (not applied on Windows) */
+  maxMemoryMb?: number;
+  /** Output limit in bytes; the command is stopped once it prints more */
+  maxOutputBytes?: number;
+}
+
+/**
+ * Agent provider identifiers.
+ */
+export type ProviderType = 'mock' | 'anthropic' | 'claude-code' | 'opencode' | 'codex' | 'openai-compatible';
+
+/**
+ * Connection settings for an OpenAI-compatible server (llama.cpp, Ollama, vLLM...).
+ */
+export interface OpenAICompatibleSettings {
+  /** Base URL of the API, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Model name as known to the server */
+  model: string;
+  /** Bearer token, if the server requires one */
+  apiKey?: string;
+}
+
+/**
+ * Settings of the local API server, which lets other tools call the app's
+ * operations over HTTP on 127.0.0.1.
+ */
+export interface ApiServerSettings {
+  /** Start the server with the app */
+  enabled: boolean;
+  port: number;
+  /** Bearer token clients must send */
+  token: string;
+}
+
+/**
+ * Local API server settings and state.
+ */
+export interface ApiServerStatus {
+  settings: ApiServerSettings;
+  running: boolean;
+  /** Base URL while running */
+  url?: string;
+  /** Why the server could not start */
+  error?: string;
+}
+
+/**
+ * External MCP server, started as a stdio command, whose tools the agent
+ * can use.
+ */
+export interface McpServerConfig {
+  /** Unique name; the server's tools are named `mcp__<name>__<tool>` */
+  name: string;
+  /** Program to start */
+  command: string;
+  args?: string[];
+  /** Extra environment variables */
+  env?: Record<string, string>;
+  /** Disabled servers are not started */
+  enabled: boolean;
+}
+
+/**
+ * Tool discovered on an MCP server.
+ */
+export interface McpToolInfo {
+  /** Namespaced name the agent calls */
+  name: string;
+  /** Name on the server */
+  toolName: string;
+  server: string;
+  description?: string;
+  /** JSON Schema of the arguments */
+  inputSchema?: unknown;
+}
+
+/**
+ * Connection state of a project's MCP server.
+ */
+export interface McpServerStatus {
+  name: string;
+  state: 'disabled' | 'stopped' | 'connected' | 'error';
+  /** Why the server could not be started or listed */
+  error?: string;
+  tools: McpToolInfo[];
+}
+
+/**
+ * Provider fallback chain and retry settings.
+ */
+export interface ProviderChainSettings {
+  /** Providers to try in order; empty uses only the selected provider */
+  chain: ProviderType[];
+  /** Retries per provider for rate-limit and transient errors */
+  maxRetries: number;
+  /** Delay before the first retry, doubled on each further retry */
+  initialBackoffMs: number;
+  /** Upper bound for the retry delay */
+  maxBackoffMs: number;
+}
+
+/**
+ * Where tasks, activity, task history and the run index are kept.
+ * json: files in .local-kanban (default); sqlite: .local-kanban/store.db
+ */
+export type StorageBackendType = 'json' | 'sqlite';
+
+/**
+ * Storage settings.
+ */
+export interface StorageSettings {
+  backend: StorageBackendType;
+}
+
+/**
+ * Storage backend in use and how much it holds.
+ */
+export interface StorageInfo {
+  backend: StorageBackendType;
+  taskCount: number;
+  activityCount: number;
+  revisionCount: number;
+  runCount: number;
+}
+
+// ============================================
+// Project Archive Types
+// ============================================
+
+/**
+ * What a project archive can contain. Run artifacts are optional.
+ */
+export type ProjectArchivePart = 'tasks' | 'board' | 'templates' | 'policy' | 'settings' | 'chats' | 'runs';
+
+/**
+ * manifest.json of a project archive (.dexteria zip file).
+ */
+export interface ProjectArchiveManifest {
+  format: 'dexteria-project';
+  /** Archive format version */
+  version: number;
+  exportedAt: string;
+  /** Dexteria version that wrote the archive */
+  appVersion?: string;
+  projectName: string;
+  parts: ProjectArchivePart[];
+  taskCount: number;
+}
+
+/**
+ * Options for exporting a project.
+ */
+export interface ProjectExportOptions {
+  /** Include agent run records and command logs */
+  includeRuns?: boolean;
+}
+
+/**
+ * Options for importing a project archive.
+ */
+export interface ProjectImportOptions {
+  /**
+   * merge: add the archive to the current board, with new task IDs.
+   * replace: replace the board, tasks and other parts with the archive, keeping its IDs.
+   */
+  mode: 'merge' | 'replace';
+  /** Merge only: skip tasks that already exist (same title and creation time). Default true. */
+  skipDuplicates?: boolean;
+  /** Merge only: take policy and settings from the archive. Replace always does. */
+  includePolicy?: boolean;
+  includeSettings?: boolean;
+}
+
+/**
+ * What an import did.
+ */
+export interface ProjectImportResult {
+  tasksImported: number;
+  /** Tasks skipped as duplicates of existing tasks */
+  tasksSkipped: number;
+  /** Archive task ID -> task ID on this board */
+  idMap: Record<string, string>;
+  /** Columns added to the board for imported tasks */
+  columnsAdded: string[];
+  templatesImported: number;
+  chatsImported: number;
+  runsImported: number;
+  /** Problems that did not stop the import */
+  warnings: string[];
 }
 
 /**
@@ -165,6 +486,12 @@ export interface ProjectSettings {
   projectCommands: ProjectCommandsSettings;
   /** Runner settings */
   runner: RunnerSettings;
+  /** Provider fallback settings (defaults if not provided) */
+  providers?: ProviderChainSettings;
+  /** Storage backend (JSON files if not provided) */
+  storage?: StorageSettings;
+  /** MCP servers whose tools the agent can use */
+  mcpServers?: McpServerConfig[];
 }
 
 /**
@@ -4,14 +4,23 @@
  * Types related to tasks, their lifecycle, configuration, and metadata.
  */
 
+import type { TokenUsage } from './common';
+import type { TaskPullRequest } from './git';
+
 // ============================================
 // Task Status Types
 // ============================================
 
 /**
- * Valid task statuses representing the Kanban workflow stages.
+ * IDs of the columns every new board starts with.
  */
-export type TaskStatus = 'backlog' | 'todo' | 'doing' | 'review' | 'done';
+export type BuiltInTaskStatus = 'backlog' | 'todo' | 'doing' | 'review' | 'done';
+
+/**
+ * Task status: the ID of the board column the task is in.
+ * Boards start with the built-in columns and may define their own.
+ */
+export type TaskStatus = BuiltInTaskStatus | (string & {});
 
 /**
  * Task runtime execution status.
@@ -69,6 +78,8 @@ export interface TaskRuntimeState {
   failureCount?: number;
   /** Total execution time in milliseconds */
   totalDurationMs: number;
+  /** Tokens and cost of all agent runs for this task */
+  usage?: TokenUsage;
 }
 
 // ============================================
@@ -87,6 +98,8 @@ export interface TaskAgentConfig {
   definitionOfDone: string[];
   /** Task IDs that must be completed first */
   dependencies?: string[];
+  /** Policy profile to run the task with (default: project policy) */
+  policyProfileId?: string;
 }
 
 /**
@@ -149,6 +162,8 @@ export interface Task {
   tags?: string[];
   /** IDs of tasks this depends on */
   dependsOn?: string[];
+  /** ID of the parent task, for subtasks */
+  parentId?: string;
   /** Epic metadata for Jira alignment */
   epic?: TaskEpic;
   /** Sprint identifier */
@@ -181,6 +196,8 @@ export interface Task {
   gitBranchCheckedOut?: boolean;
   /** Last Git commit hash for this task */
   gitLastCommit?: string;
+  /** Pull request opened for the task branch */
+  pullRequest?: TaskPullRequest;
 }
 
 /**
@@ -225,12 +242,60 @@ export interface TaskTemplate {
   aiReviewable?: boolean;
   /** Default review criteria for AI */
   reviewCriteria?: string;
+  /** Policy profile for tasks from this template */
+  policyProfileId?: string;
+  /** Schedule for creating tasks from this template automatically */
+  recurrence?: TemplateRecurrence;
   /** ISO timestamp when template was created */
   createdAt: string;
   /** ISO timestamp when template was last updated */
   updatedAt: string;
 }
 
+/**
+ * How a recurring template's occurrences are defined:
+ * - 'interval': every N days from the start time
+ * - 'cron': a five-field cron expression in local time
+ */
+export type TemplateRecurrenceKind = 'interval' | 'cron';
+
+/**
+ * Tasks to create for occurrences missed while the app was closed:
+ * - 'latest': one task for the most recent missed occurrence
+ * - 'all': one task per missed occurrence
+ */
+export type TemplateCatchUp = 'latest' | 'all';
+
+/**
+ * Schedule for creating tasks from a template.
+ */
+export interface TemplateRecurrence {
+  /** Whether the scheduler creates tasks for this template */
+  enabled: boolean;
+  kind: TemplateRecurrenceKind;
+  /** Days between occurrences (for 'interval') */
+  everyDays?: number;
+  /** Cron expression, e.g. `0 9 * * 1` (for 'cron') */
+  cron?: string;
+  /** ISO timestamp of the first occurrence; nothing is created before it */
+  startAt: string;
+  /** ISO timestamp of the last occurrence a task was created for */
+  lastOccurrenceAt?: string;
+  /** Missed occurrences to create when the app opens (default 'latest') */
+  catchUp?: TemplateCatchUp;
+  /** Create tasks in the first Ralph source column so Ralph Mode picks them up */
+  queueInRalph?: boolean;
+}
+
+/**
+ * Sent to the renderer when the scheduler creates tasks from a template.
+ */
+export interface RecurringTasksCreatedEvent {
+  templateId: string;
+  templateName: string;
+  taskIds: string[];
+}
+
 /**
  * File format for storing templates.
  */
@@ -254,6 +319,8 @@ export interface TaskPatch {
   acceptanceCriteria?: string[];
   tags?: string[];
   dependsOn?: string[];
+  /** Parent task ID (null to detach from the parent) */
+  parentId?: string | null;
   epic?: TaskEpic | null;
   sprint?: string | null;
   agent?: Partial<TaskAgentConfig>;
@@ -267,6 +334,7 @@ export interface TaskPatch {
   gitBranch?: string;
   gitBranchCheckedOut?: boolean;
   gitLastCommit?: string;
+  pullRequest?: TaskPullRequest;
 }
 
 // ============================================
@@ -284,4 +352,127 @@ export interface TaskCreateInput {
   acceptanceCriteria?: string[];
   dependencies?: string[];
   tags?: string[];
+  epic?: TaskEpic;
+  sprint?: string;
+}
+
+// ============================================
+// Task Import/Export Types
+// ============================================
+
+/**
+ * File formats tasks can be imported from and exported to.
+ */
+export type TaskFileFormat = 'csv' | 'markdown';
+
+/**
+ * Task fields a CSV column can be mapped to.
+ */
+export type TaskCsvField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'tags'
+  | 'acceptanceCriteria'
+  | 'epic'
+  | 'sprint';
+
+/**
+ * CSV column index for each mapped task field.
+ */
+export type TaskCsvMapping = Partial<Record<TaskCsvField, number>>;
+
+/**
+ * A file picked for import, parsed in the renderer for the preview.
+ */
+export interface TaskImportFile {
+  filePath: string;
+  format: TaskFileFormat;
+  content: string;
+}
+
+/**
+ * Outcome of a bulk task import.
+ */
+export interface TaskImportResult {
+  /** IDs of the created tasks */
+  created: string[];
+  /** Tasks a task:beforeCreate hook cancelled */
+  cancelled: number;
+  /** Tasks that could not be created */
+  failed: Array<{ title: string; error: string }>;
+}
+
+// ============================================
+// Task History Types
+// ============================================
+
+/**
+ * Kind of actor that changed a task. `sync` is an external system synced by a
+ * plugin; `system` is Dexteria itself (the scheduler, project imports).
+ */
+export type ChangeActorType = 'user' | 'agent' | 'plugin' | 'sync' | 'system';
+
+/**
+ * Who made a change to a task.
+ */
+export interface ChangeActor {
+  type: ChangeActorType;
+  /** Run ID for agents, plugin ID for plugins and syncs, source ID for system changes */
+  id?: string;
+  /** Display name (e.g. Ralph, the plugin name) */
+  name?: string;
+}
+
+/**
+ * Change to a single task field. Nested agent and runtime fields use dotted
+ * names (e.g. `runtime.status`).
+ */
+export interface FieldChange {
+  field: string;
+  /** Previous value (undefined when the field was unset) */
+  from?: unknown;
+  /** New value (undefined when the field was cleared) */
+  to?: unknown;
+}
+
+/**
+ * What a revision did to the task.
+ */
+export type TaskRevisionAction = 'created' | 'updated' | 'moved' | 'deleted';
+
+/**
+ * One recorded change to a task.
+ */
+export interface TaskRevision {
+  /** Unique revision identifier */
+  id: string;
+  taskId: string;
+  action: TaskRevisionAction;
+  actor: ChangeActor;
+  /** Changed fields (empty for deletions) */
+  changes: FieldChange[];
+  /** Set when the revision undid or redid a board operation */
+  reason?: 'undo' | 'redo';
+  /** ISO timestamp of the change */
+  timestamp: string;
+}
+
+/**
+ * Board operation that can be undone.
+ */
+export interface BoardOperation {
+  kind: 'move' | 'update' | 'delete';
+  taskId: string;
+  /** Task title at the time of the operation */
+  title: string;
+}
+
+/**
+ * Operations the next undo and redo would revert or reapply.
+ */
+export interface UndoState {
+  undo: BoardOperation | null;
+  redo: BoardOperation | null;
 }
@@ -27,6 +27,8 @@ export default mergeConfig(
       testTimeout: 10000,
     },
     resolve: {
+      // Prefer sources over the stale compiled src/shared/*.js files
+      extensions: ['.ts', '.tsx', '.mjs', '.js', '.mts', '.jsx', '.json'],
       alias: {
         '@': path.resolve(__dirname, './src'),
         '@shared': path.resolve(__dirname, './src/shared'),